@@ -0,0 +1,125 @@
+/**
+ * Tests for pushing revisions of published articles through the ArticlePublisher
+ * The CMS side is a stub provider; the database is an in-memory stand-in
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ArticlePublisher } from '@/services/content/article-publisher';
+import { CMSManager } from '@/lib/cms/cms-manager';
+import { CMSArticle } from '@/lib/cms/types';
+
+// One canned result per table for reads; writes are recorded
+const mockTables: Record<string, any> = {};
+const mockWrites: Array<{ table: string; operation: string; values: any }> = [];
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => {
+      const result = async () => ({ data: mockTables[table] ?? null, error: null });
+      const write = (operation: string) => (values: any) => {
+        mockWrites.push({ table, operation, values });
+        return builder;
+      };
+      const builder: any = {
+        select: () => builder,
+        insert: write('insert'),
+        update: write('update'),
+        eq: () => builder,
+        not: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        single: result,
+        maybeSingle: result,
+        then: (resolve: any, reject: any) => result().then(resolve, reject)
+      };
+      return builder;
+    }
+  })
+}));
+
+const CMS_UPDATED_AT = '2026-10-17T09:30:00.000Z';
+
+describe('ArticlePublisher', () => {
+  let updateArticle: jest.Mock<(credentials: any, articleId: string, article: Partial<CMSArticle>) => Promise<CMSArticle>>;
+  let publisher: ArticlePublisher;
+
+  const revision = { content: '<p>New body</p>', title: 'New title' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockWrites.length = 0;
+    mockTables.article_queue = {
+      id: 42,
+      title: 'Old title',
+      website_id: 7,
+      cms_connection_id: 'connection-1',
+      cms_article_id: 'post-1',
+      cms_updated_at: CMS_UPDATED_AT,
+      public_url: 'https://example.com/old-title'
+    };
+    mockTables.article_images = [];
+
+    updateArticle = jest.fn();
+    const cmsManager = {
+      getConnection: async () => ({ id: 'connection-1', type: 'ghost', credentials: { accessToken: 'key' } }),
+      getProvider: () => ({ updateArticle })
+    } as unknown as CMSManager;
+    publisher = new ArticlePublisher(cmsManager);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('pushUpdate', () => {
+    it('should send the version last synced from the CMS and store the new one', async () => {
+      updateArticle.mockResolvedValue({ id: 'post-1', url: 'https://example.com/new-title', updatedAt: new Date('2026-10-18T08:00:00Z') } as CMSArticle);
+
+      const result = await publisher.pushUpdate('user-1', 42, revision);
+
+      expect(result).toMatchObject({ success: true, cmsArticleId: 'post-1', updatedAt: '2026-10-18T08:00:00.000Z' });
+      expect(updateArticle.mock.calls[0][2].updatedAt).toEqual(new Date(CMS_UPDATED_AT));
+      expect(mockWrites).toContainEqual(expect.objectContaining({
+        table: 'article_queue',
+        operation: 'update',
+        values: expect.objectContaining({ article_content: '<p>New body</p>', cms_updated_at: '2026-10-18T08:00:00.000Z' })
+      }));
+    });
+
+    it('should not guard articles that were never synced', async () => {
+      mockTables.article_queue.cms_updated_at = null;
+      updateArticle.mockResolvedValue({ id: 'post-1' } as CMSArticle);
+
+      await publisher.pushUpdate('user-1', 42, revision);
+
+      expect(updateArticle.mock.calls[0][2].updatedAt).toBeUndefined();
+    });
+
+    it('should report edits made in the CMS as a conflict and keep the stored article', async () => {
+      updateArticle.mockRejectedValue(new Error('[GHOST] Update conflict: post post-1 was modified in Ghost at 2026-10-18T07:00:00.000Z'));
+
+      const result = await publisher.pushUpdate('user-1', 42, revision);
+
+      expect(result).toMatchObject({ success: false, reason: 'cms_conflict' });
+      expect(!result.success && result.details).toMatch(/Sync the article from the CMS/);
+      expect(mockWrites.filter(write => write.table === 'article_queue')).toEqual([]);
+    });
+
+    it('should treat an HTTP 409 from the CMS as a conflict', async () => {
+      updateArticle.mockRejectedValue(Object.assign(new Error('Conflict'), { status: 409 }));
+
+      expect(await publisher.pushUpdate('user-1', 42, revision)).toMatchObject({ success: false, reason: 'cms_conflict' });
+    });
+
+    it('should report other CMS errors as failed updates', async () => {
+      updateArticle.mockRejectedValue(new Error('Ghost is down'));
+
+      expect(await publisher.pushUpdate('user-1', 42, revision)).toMatchObject({
+        success: false,
+        reason: 'publish_failed',
+        details: 'Ghost is down'
+      });
+    });
+  });
+});
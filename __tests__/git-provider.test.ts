@@ -0,0 +1,193 @@
+/**
+ * Tests for the Markdown-in-Git CMS provider
+ * Runs git against a temporary bare repository; no network needed
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitProvider } from '@/lib/cms/providers/git';
+import { CMSCredentials } from '@/lib/cms/types';
+
+const AUTHOR = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+
+describe('Git Provider', () => {
+  let root: string;
+  let remote: string;
+  let provider: GitProvider;
+  let credentials: CMSCredentials;
+
+  const git = (args: string[], cwd = root) => execFileSync('git', args, { cwd, encoding: 'utf8' });
+  const readRemote = (file: string) => git(['--git-dir', remote, 'show', `main:${file}`]);
+  const remoteFiles = () => git(['--git-dir', remote, 'ls-tree', '-r', '--name-only', 'main']).split('\n').filter(Boolean);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'seoagent-git-test-'));
+    remote = path.join(root, 'remote.git');
+    git(['init', '--quiet', '--bare', remote]);
+
+    provider = new GitProvider({ allowLocalRemotes: true });
+    credentials = { accessToken: '', repoUrl: remote, branch: 'main', contentDir: 'content/posts' };
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('publishing', () => {
+    it('should publish a post as a commit on the branch', async () => {
+      const article = await provider.publishArticle(credentials, {
+        title: 'Hello World',
+        content: '<p>First post</p>',
+        tags: ['seo']
+      }, { status: 'published' });
+
+      expect(article.id).toBe('content/posts/hello-world.md');
+      expect(article.customFields?.branch).toBe('main');
+
+      const source = readRemote('content/posts/hello-world.md');
+      expect(source).toContain('title: Hello World');
+      expect(source).toContain('draft: false');
+      expect(source).toContain('First post');
+    });
+
+    it('should not overwrite a post with the same slug', async () => {
+      await provider.publishArticle(credentials, { title: 'Hello World', content: '<p>One</p>' });
+      const second = await provider.publishArticle(credentials, { title: 'Hello World', content: '<p>Two</p>' });
+
+      expect(second.id).toBe('content/posts/hello-world-2.md');
+      expect(remoteFiles()).toEqual(['content/posts/hello-world-2.md', 'content/posts/hello-world.md']);
+    });
+
+    it('should list published posts', async () => {
+      await provider.publishArticle(credentials, { title: 'Listed Post', content: '<p>Body</p>' });
+
+      const articles = await provider.getArticles(credentials);
+
+      expect(articles).toHaveLength(1);
+      expect(articles[0].slug).toBe('listed-post');
+      expect(articles[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should update frontmatter and body, keeping keys it does not manage', async () => {
+      const published = await provider.publishArticle(credentials, { title: 'Original', content: '<p>Old body</p>' });
+
+      // A key the site generator uses but SEOAgent doesn't know about
+      const clone = path.join(root, 'clone');
+      git(['clone', '--quiet', '--branch', 'main', '--', remote, clone]);
+      const file = path.join(clone, published.id);
+      fs.writeFileSync(file, fs.readFileSync(file, 'utf8').replace('title: Original', 'title: Original\nlayout: post'));
+      git([...AUTHOR, 'commit', '--quiet', '-am', 'Add layout'], clone);
+      git(['push', '--quiet', 'origin', 'HEAD:main'], clone);
+
+      await provider.updateArticle(credentials, published.id, { title: 'Updated', content: '<p>New body</p>' });
+
+      const source = readRemote(published.id);
+      expect(source).toContain('title: Updated');
+      expect(source).toContain('layout: post');
+      expect(source).toContain('New body');
+      expect(source).not.toContain('Old body');
+    });
+
+    it('should accept the updatedAt it returned and refuse it after another commit', async () => {
+      const published = await provider.publishArticle(credentials, { title: 'Original', content: '<p>Old body</p>' });
+      const updated = await provider.updateArticle(credentials, published.id, { content: '<p>Ours</p>', updatedAt: published.updatedAt });
+
+      const clone = path.join(root, 'clone');
+      git(['clone', '--quiet', '--branch', 'main', '--', remote, clone]);
+      fs.writeFileSync(path.join(clone, published.id), fs.readFileSync(path.join(clone, published.id), 'utf8') + '\nTheirs\n');
+      // Commit times have one-second resolution
+      execFileSync('git', [...AUTHOR, 'commit', '--quiet', '-am', 'Edit by hand'], {
+        cwd: clone,
+        env: { ...process.env, GIT_COMMITTER_DATE: new Date(Date.now() + 60000).toISOString() }
+      });
+      git(['push', '--quiet', 'origin', 'HEAD:main'], clone);
+
+      await expect(provider.updateArticle(credentials, published.id, { content: '<p>Ours again</p>', updatedAt: updated.updatedAt }))
+        .rejects.toThrow('Update conflict');
+      expect(readRemote(published.id)).toContain('Theirs');
+    });
+
+    it('should delete a post', async () => {
+      const keep = await provider.publishArticle(credentials, { title: 'Keep', content: '<p>Stays</p>' });
+      const remove = await provider.publishArticle(credentials, { title: 'Remove', content: '<p>Goes</p>' });
+
+      await provider.deleteArticle(credentials, remove.id);
+
+      expect(remoteFiles()).toEqual([keep.id]);
+    });
+  });
+
+  describe('remote validation', () => {
+    it('should reject a repoUrl that is a git option', async () => {
+      const marker = path.join(root, 'pwned');
+
+      const isValid = await provider.validateToken({ ...credentials, repoUrl: `--upload-pack=touch ${marker};` });
+
+      expect(isValid).toBe(false);
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    it('should reject a branch that is a git option', async () => {
+      const marker = path.join(root, 'pwned');
+      const malicious = { ...credentials, branch: `--upload-pack=touch ${marker};` };
+
+      expect(await provider.validateToken(malicious)).toBe(false);
+      await expect(provider.publishArticle(malicious, { title: 'Post', content: '' })).rejects.toThrow('Invalid branch name');
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    it('should only accept https and SSH remotes by default', async () => {
+      const hosted = new GitProvider();
+
+      expect(await hosted.validateToken(credentials)).toBe(false);
+      expect(await hosted.validateToken({ ...credentials, repoUrl: `file://${remote}` })).toBe(false);
+      expect(await hosted.validateToken({ ...credentials, repoUrl: 'ext::sh -c touch% /tmp/pwned' })).toBe(false);
+      expect(await hosted.validateToken({ ...credentials, repoUrl: 'ssh://-oProxyCommand=touch/tmp/pwned/repo' })).toBe(false);
+    });
+  });
+
+  describe('workspace paths', () => {
+    let outside: string;
+
+    beforeEach(() => {
+      outside = path.join(root, 'outside.md');
+      fs.writeFileSync(outside, '---\ntitle: Outside\n---\nNot in the repository\n');
+    });
+
+    it('should refuse to update or delete a post outside the repository', async () => {
+      await provider.publishArticle(credentials, { title: 'Inside', content: '<p>Body</p>' });
+
+      await expect(provider.updateArticle(credentials, '../outside.md', { title: 'Changed' })).rejects.toThrow('outside the repository');
+      await expect(provider.deleteArticle(credentials, '../../outside.md')).rejects.toThrow('outside the repository');
+      expect(fs.readFileSync(outside, 'utf8')).toContain('title: Outside');
+    });
+
+    it('should refuse to write through a symlink that leaves the repository', async () => {
+      const clone = path.join(root, 'clone');
+      git(['init', '--quiet', '-b', 'main', clone]);
+      fs.mkdirSync(path.join(clone, 'content/posts'), { recursive: true });
+      fs.symlinkSync(outside, path.join(clone, 'content/posts/linked.md'));
+      git(['add', '--all'], clone);
+      git([...AUTHOR, 'commit', '--quiet', '-m', 'Add link'], clone);
+      git(['push', '--quiet', remote, 'HEAD:main'], clone);
+
+      await expect(provider.updateArticle(credentials, 'content/posts/linked.md', { title: 'Changed' })).rejects.toThrow('links outside the repository');
+      expect(fs.readFileSync(outside, 'utf8')).toContain('title: Outside');
+    });
+
+    it('should slugify slugs so posts stay in the content directory', async () => {
+      const article = await provider.publishArticle(credentials, { title: 'Escape', slug: '../../../escape', content: '<p>Body</p>' });
+
+      expect(article.id).toBe('content/posts/escape.md');
+      expect(remoteFiles()).toEqual(['content/posts/escape.md']);
+    });
+
+    it('should reject content directories that leave the repository', async () => {
+      await expect(provider.publishArticle(credentials, { title: 'Post', content: '' }, { blogId: '../..' })).rejects.toThrow('Invalid content directory');
+      await expect(provider.publishArticle({ ...credentials, contentDir: 'posts/../../..' }, { title: 'Post', content: '' })).rejects.toThrow('Invalid content directory');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Tests for the local (in-process) queue backend
+ * Claiming, retries with exponential backoff and, for the database store, stalled-lock reset.
+ * The database store runs against an in-memory stand-in for the queue_jobs table.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { LocalQueueBackend } from '@/services/queue/local-queue-backend';
+
+// Minimal PostgREST-style query builder over one in-memory table
+const mockQueueJobs: any[] = [];
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => {
+      let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+      let values: any = null;
+      let returnRows = false;
+      let limit = Infinity;
+      const filters: Array<(row: any) => boolean> = [];
+      const orders: Array<[string, boolean]> = [];
+
+      const run = () => {
+        if (operation === 'insert') {
+          if (mockQueueJobs.some(row => row.id === values.id)) {
+            return { data: null, error: { code: '23505', message: 'duplicate key' } };
+          }
+          const row = { locked_until: null, processed_at: null, finished_at: null, progress: null, result: null, error: null, ...values };
+          mockQueueJobs.push(row);
+          return { data: [{ ...row }], error: null };
+        }
+
+        let rows = mockQueueJobs.filter(row => filters.every(filter => filter(row)));
+        orders.forEach(([column, ascending]) => {
+          rows = [...rows].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+        });
+        rows = rows.slice(0, limit);
+
+        if (operation === 'update') rows.forEach(row => Object.assign(row, values));
+        if (operation === 'delete') rows.forEach(row => mockQueueJobs.splice(mockQueueJobs.indexOf(row), 1));
+
+        return { data: operation === 'select' || returnRows ? rows.map(row => ({ ...row })) : null, error: null };
+      };
+
+      const builder: any = {
+        select: () => { returnRows = true; return builder; },
+        insert: (row: any) => { operation = 'insert'; values = row; return builder; },
+        update: (changes: any) => { operation = 'update'; values = changes; return builder; },
+        delete: () => { operation = 'delete'; return builder; },
+        eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+        lt: (column: string, value: any) => { filters.push(row => row[column] !== null && row[column] < value); return builder; },
+        lte: (column: string, value: any) => { filters.push(row => row[column] !== null && row[column] <= value); return builder; },
+        gt: (column: string, value: any) => { filters.push(row => row[column] !== null && row[column] > value); return builder; },
+        in: (column: string, list: any[]) => { filters.push(row => list.includes(row[column])); return builder; },
+        order: (column: string, options: { ascending: boolean }) => { orders.push([column, options.ascending]); return builder; },
+        limit: (count: number) => { limit = count; return builder; },
+        single: async () => { const { data, error } = run(); return { data: data?.[0] ?? null, error }; },
+        maybeSingle: async () => { const { data, error } = run(); return { data: data?.[0] ?? null, error }; },
+        then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject)
+      };
+      return builder;
+    }
+  })
+}));
+
+const waitFor = async (condition: () => boolean | Promise<boolean>, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the queue');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('LocalQueueBackend', () => {
+  let backend: LocalQueueBackend;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockQueueJobs.length = 0;
+  });
+
+  afterEach(async () => {
+    await backend?.close();
+    jest.restoreAllMocks();
+  });
+
+  describe('claiming', () => {
+    beforeEach(() => {
+      backend = new LocalQueueBackend('memory');
+    });
+
+    it('should run due jobs by priority, then by run time', async () => {
+      const order: string[] = [];
+      await backend.add('agent', 'job', { name: 'low' }, { priority: 5 });
+      await backend.add('agent', 'job', { name: 'high' }, { priority: 1 });
+      await backend.add('agent', 'job', { name: 'normal' }, { priority: 3 });
+
+      backend.registerProcessor('agent', async job => { order.push(job.data.name); }, { concurrency: 1 });
+      await backend.runUntilIdle(1000);
+
+      expect(order).toEqual(['high', 'normal', 'low']);
+    });
+
+    it('should hold delayed jobs until they are due', async () => {
+      const processed: string[] = [];
+      backend.registerProcessor('agent', async job => { processed.push(job.data.name); }, { concurrency: 1 });
+
+      const jobId = await backend.add('agent', 'job', { name: 'later' }, { delay: 60000 });
+      await backend.runUntilIdle(200);
+
+      expect(processed).toEqual([]);
+      expect((await backend.getJob('agent', jobId))?.status).toBe('delayed');
+
+      await backend.promoteJob('agent', jobId);
+      await backend.runUntilIdle(1000);
+
+      expect(processed).toEqual(['later']);
+      expect((await backend.getJob('agent', jobId))?.status).toBe('completed');
+    });
+
+    it('should return the existing job for a duplicate job id', async () => {
+      const first = await backend.add('agent', 'job', { name: 'one' }, { jobId: 'action-1' });
+      const second = await backend.add('agent', 'job', { name: 'two' }, { jobId: 'action-1' });
+
+      expect(second).toBe(first);
+      expect((await backend.getJob('agent', first))?.data).toEqual({ name: 'one' });
+    });
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      backend = new LocalQueueBackend('memory');
+    });
+
+    it('should retry failed jobs with exponential backoff', async () => {
+      const attempts: number[] = [];
+      backend.registerProcessor('agent', async job => {
+        attempts.push(Date.now());
+        if (attempts.length < 3) throw new Error(`attempt ${job.attemptsMade} failed`);
+        return { ok: true };
+      }, { concurrency: 1 });
+
+      const jobId = await backend.add('agent', 'job', {}, { attempts: 3, backoffDelay: 50 });
+      await waitFor(async () => (await backend.getJob('agent', jobId))?.status === 'completed');
+
+      const job = await backend.getJob('agent', jobId);
+      expect(job?.attemptsMade).toBe(3);
+      expect(job?.result).toEqual({ ok: true });
+      expect(attempts[1] - attempts[0]).toBeGreaterThanOrEqual(45);
+      expect(attempts[2] - attempts[1]).toBeGreaterThanOrEqual(95);
+    });
+
+    it('should fail a job after its last attempt and report it as exhausted', async () => {
+      const exhausted: string[] = [];
+      backend.registerProcessor('agent', async () => {
+        throw new Error('always fails');
+      }, { concurrency: 1, onExhausted: job => { exhausted.push(`${job.id}:${job.error}`); } });
+
+      const jobId = await backend.add('agent', 'job', {}, { attempts: 2, backoffDelay: 10 });
+      await waitFor(async () => (await backend.getJob('agent', jobId))?.status === 'failed');
+
+      const job = await backend.getJob('agent', jobId);
+      expect(job?.attemptsMade).toBe(2);
+      expect(job?.error).toBe('always fails');
+      expect(exhausted).toEqual([`${jobId}:always fails`]);
+    });
+
+    it('should run a failed job again after a manual retry', async () => {
+      let fail = true;
+      backend.registerProcessor('agent', async () => {
+        if (fail) throw new Error('not yet');
+      }, { concurrency: 1 });
+
+      const jobId = await backend.add('agent', 'job', {}, { attempts: 1 });
+      await waitFor(async () => (await backend.getJob('agent', jobId))?.status === 'failed');
+
+      fail = false;
+      expect(await backend.retryJob('agent', jobId)).toBe(true);
+      await waitFor(async () => (await backend.getJob('agent', jobId))?.status === 'completed');
+    });
+  });
+
+  describe('database store', () => {
+    const stalledRow = (overrides: Record<string, any>) => ({
+      id: 'stalled-job',
+      queue_name: 'agent',
+      name: 'job',
+      data: { name: 'stalled' },
+      status: 'active',
+      priority: 0,
+      attempts_made: 1,
+      max_attempts: 3,
+      backoff_delay: 10,
+      run_at: new Date(Date.now() - 60000).toISOString(),
+      created_at: new Date(Date.now() - 60000).toISOString(),
+      processed_at: new Date(Date.now() - 60000).toISOString(),
+      locked_until: new Date(Date.now() - 1000).toISOString(),
+      finished_at: null,
+      progress: null,
+      result: null,
+      error: null,
+      ...overrides
+    });
+
+    beforeEach(() => {
+      backend = new LocalQueueBackend('database');
+    });
+
+    it('should claim a stored job, lock it and record the attempt', async () => {
+      const jobId = await backend.add('agent', 'job', { name: 'stored' });
+      let lockedWhileRunning: string | null = null;
+
+      backend.registerProcessor('agent', async () => {
+        lockedWhileRunning = mockQueueJobs.find(row => row.id === jobId).locked_until;
+      }, { concurrency: 1 });
+      await backend.runUntilIdle(1000);
+
+      const row = mockQueueJobs.find(candidate => candidate.id === jobId);
+      expect(row.status).toBe('completed');
+      expect(row.attempts_made).toBe(1);
+      expect(row.locked_until).toBeNull();
+      expect(new Date(lockedWhileRunning!).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should put back and run a job whose lock expired', async () => {
+      mockQueueJobs.push(stalledRow({}));
+      const processed: string[] = [];
+
+      backend.registerProcessor('agent', async job => { processed.push(job.data.name); }, { concurrency: 1 });
+      await backend.runUntilIdle(1000);
+
+      expect(processed).toEqual(['stalled']);
+      expect(mockQueueJobs[0].status).toBe('completed');
+      expect(mockQueueJobs[0].attempts_made).toBe(2);
+    });
+
+    it('should leave a job alone while its lock is held', async () => {
+      mockQueueJobs.push(stalledRow({ locked_until: new Date(Date.now() + 60000).toISOString() }));
+      const processed: string[] = [];
+
+      backend.registerProcessor('agent', async job => { processed.push(job.data.name); }, { concurrency: 1 });
+      await backend.runUntilIdle(200);
+
+      expect(processed).toEqual([]);
+      expect(mockQueueJobs[0].status).toBe('active');
+      expect(mockQueueJobs[0].attempts_made).toBe(1);
+    });
+  });
+});
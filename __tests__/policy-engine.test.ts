@@ -0,0 +1,171 @@
+/**
+ * Tests for the site policy rules of the agent PolicyEngine
+ * Blocked paths and quiet hours, including overnight windows, time zones and weekdays,
+ * and how stored site policies combine with the request
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { PolicyEngine } from '@/services/agent/policy-engine';
+
+// One canned { data, error } result per table, whatever the filters
+const mockTables: Record<string, { data: any; error: any }> = {};
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => {
+      const result = async () => mockTables[table] ?? { data: null, error: null };
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        ilike: () => builder,
+        single: result,
+        maybeSingle: result
+      };
+      return builder;
+    }
+  })
+}));
+
+describe('PolicyEngine', () => {
+  describe('isPathBlocked', () => {
+    it('should block a path prefix and everything under it', () => {
+      expect(PolicyEngine.isPathBlocked('https://example.com/admin', ['/admin'])).toBe(true);
+      expect(PolicyEngine.isPathBlocked('https://example.com/admin/users', ['/admin'])).toBe(true);
+      expect(PolicyEngine.isPathBlocked('https://example.com/administrator', ['/admin'])).toBe(false);
+    });
+
+    it('should accept blocked paths without a leading slash', () => {
+      expect(PolicyEngine.isPathBlocked('https://example.com/checkout/step-2', ['checkout'])).toBe(true);
+    });
+
+    it('should match wildcards', () => {
+      expect(PolicyEngine.isPathBlocked('https://example.com/blog/post-1/edit', ['/blog/*/edit'])).toBe(true);
+      expect(PolicyEngine.isPathBlocked('https://example.com/blog/post-1', ['/blog/*/edit'])).toBe(false);
+      expect(PolicyEngine.isPathBlocked('https://example.com/files/report.pdf', ['*.pdf'])).toBe(true);
+    });
+
+    it('should compare the path only', () => {
+      expect(PolicyEngine.isPathBlocked('example.com/admin/settings', ['/admin'])).toBe(true);
+      expect(PolicyEngine.isPathBlocked('/admin', ['/admin'])).toBe(true);
+      expect(PolicyEngine.isPathBlocked('https://example.com/shop?page=/admin', ['/admin'])).toBe(false);
+    });
+
+    it('should block nothing without blocked paths', () => {
+      expect(PolicyEngine.isPathBlocked('https://example.com/admin', [])).toBe(false);
+      expect(PolicyEngine.isPathBlocked('https://example.com/admin', ['  '])).toBe(false);
+    });
+  });
+
+  describe('getQuietHoursEnd', () => {
+    // 2026-10-19 is a Monday
+    const at = (iso: string) => new Date(iso);
+
+    it('should return the end of a daytime window', () => {
+      const quietHours = { start: '09:00', end: '17:00' };
+
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-19T12:00:00Z'))).toEqual(at('2026-10-19T17:00:00Z'));
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-19T09:00:00Z'))).toEqual(at('2026-10-19T17:00:00Z'));
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-19T08:59:00Z'))).toBeNull();
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-19T17:00:00Z'))).toBeNull();
+    });
+
+    it('should handle overnight windows on both sides of midnight', () => {
+      const quietHours = { start: '22:00', end: '06:00' };
+
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-19T23:00:00Z'))).toEqual(at('2026-10-20T06:00:00Z'));
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-20T02:30:00Z'))).toEqual(at('2026-10-20T06:00:00Z'));
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-19T12:00:00Z'))).toBeNull();
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-20T06:00:00Z'))).toBeNull();
+    });
+
+    it('should use the window\'s time zone', () => {
+      // New York is UTC-4 in October: 23:00 local on Monday is 03:00 UTC on Tuesday
+      const quietHours = { start: '22:00', end: '06:00', timezone: 'America/New_York' };
+
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-20T03:00:00Z'))).toEqual(at('2026-10-20T10:00:00Z'));
+      expect(PolicyEngine.getQuietHoursEnd(quietHours, at('2026-10-19T23:00:00Z'))).toBeNull();
+    });
+
+    it('should only apply on the listed weekdays', () => {
+      const weekdays = { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] };
+
+      expect(PolicyEngine.getQuietHoursEnd(weekdays, at('2026-10-19T12:00:00Z'))).toEqual(at('2026-10-19T17:00:00Z'));
+      expect(PolicyEngine.getQuietHoursEnd(weekdays, at('2026-10-25T12:00:00Z'))).toBeNull();
+    });
+
+    it('should count the morning of an overnight window as the day it started', () => {
+      // Friday night only: from Friday 22:00 to Saturday 06:00
+      const fridayNight = { start: '22:00', end: '06:00', days: [5] };
+
+      expect(PolicyEngine.getQuietHoursEnd(fridayNight, at('2026-10-23T23:00:00Z'))).toEqual(at('2026-10-24T06:00:00Z'));
+      expect(PolicyEngine.getQuietHoursEnd(fridayNight, at('2026-10-24T02:00:00Z'))).toEqual(at('2026-10-24T06:00:00Z'));
+      // Friday 02:00 belongs to Thursday night
+      expect(PolicyEngine.getQuietHoursEnd(fridayNight, at('2026-10-23T02:00:00Z'))).toBeNull();
+    });
+
+    it('should ignore missing or empty windows', () => {
+      expect(PolicyEngine.getQuietHoursEnd(null, at('2026-10-19T12:00:00Z'))).toBeNull();
+      expect(PolicyEngine.getQuietHoursEnd({ start: '10:00', end: '10:00' }, at('2026-10-19T10:00:00Z'))).toBeNull();
+      expect(PolicyEngine.getQuietHoursEnd({ start: 'noon', end: '14:00' }, at('2026-10-19T12:30:00Z'))).toBeNull();
+    });
+  });
+
+  describe('validatePolicy', () => {
+    let siteCount = 0;
+    const crawl = () => ({
+      actionId: 'action-1',
+      actionType: 'technical_seo_crawl',
+      userToken: 'user-1',
+      // A new site each time so cached site policies don't carry over
+      siteUrl: `https://site-${++siteCount}.example.com`,
+      payload: {}
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockTables.websites = { data: { id: 'site-1', is_managed: true }, error: null };
+      mockTables.user_plans = { data: { tier: 'pro', posts_allowed: 10, sites_allowed: 5 }, error: null };
+    });
+
+    afterEach(() => {
+      delete mockTables.site_policies;
+      jest.restoreAllMocks();
+    });
+
+    it('should keep the stricter request on a locked managed site', async () => {
+      mockTables.site_policies = { data: { locked: true, max_pages: 20 }, error: null };
+
+      const validation = await PolicyEngine.validatePolicy(crawl(), {
+        environment: 'DRY_RUN',
+        requiresApproval: true,
+        maxPages: 5
+      });
+
+      expect(validation.allowed).toBe(true);
+      expect(validation.adjustedPolicy).toMatchObject({
+        environment: 'DRY_RUN',
+        requiresApproval: true,
+        maxPages: 5,
+        maxPatches: 20
+      });
+    });
+
+    it('should cap a looser request on a locked managed site', async () => {
+      mockTables.site_policies = { data: { locked: true, max_pages: 20 }, error: null };
+
+      const validation = await PolicyEngine.validatePolicy(crawl(), { maxPages: 500 });
+
+      expect(validation.adjustedPolicy).toMatchObject({ environment: 'PRODUCTION', maxPages: 20 });
+    });
+
+    it('should refuse actions when the site policy can\'t be loaded', async () => {
+      mockTables.site_policies = { data: null, error: { message: 'connection refused' } };
+
+      const validation = await PolicyEngine.validatePolicy(crawl(), {});
+
+      expect(validation.allowed).toBe(false);
+      expect(validation.reason).toBe('Site policy unavailable');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for publishing schedule calculation in a site's timezone
+ * Wall-clock conversion across DST changes, plan patterns and publishing rules
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { calculateSchedule, findSlotOnDate, zonedTimeToUtc } from '@/lib/scheduling';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('scheduling', () => {
+  describe('zonedTimeToUtc', () => {
+    it('should convert wall-clock times with the zone\'s offset on that date', () => {
+      expect(zonedTimeToUtc('2027-01-15', '09:00', 'America/New_York').toISOString()).toBe('2027-01-15T14:00:00.000Z');
+      expect(zonedTimeToUtc('2027-07-15', '09:00', 'America/New_York').toISOString()).toBe('2027-07-15T13:00:00.000Z');
+      expect(zonedTimeToUtc('2027-07-15', '09:00', 'Asia/Tokyo').toISOString()).toBe('2027-07-15T00:00:00.000Z');
+      expect(zonedTimeToUtc('2027-07-15', '09:00', 'UTC').toISOString()).toBe('2027-07-15T09:00:00.000Z');
+    });
+
+    it('should move times skipped by spring-forward to just after the change', () => {
+      // New York skips 02:00-03:00 on 2027-03-14; 03:30 EDT is 07:30 UTC
+      expect(zonedTimeToUtc('2027-03-14', '02:30', 'America/New_York').toISOString()).toBe('2027-03-14T07:30:00.000Z');
+      // Berlin skips 02:00-03:00 on 2027-03-28; 03:30 CEST is 01:30 UTC
+      expect(zonedTimeToUtc('2027-03-28', '02:30', 'Europe/Berlin').toISOString()).toBe('2027-03-28T01:30:00.000Z');
+    });
+
+    it('should use the new offset right after a DST change', () => {
+      expect(zonedTimeToUtc('2027-03-14', '09:00', 'America/New_York').toISOString()).toBe('2027-03-14T13:00:00.000Z');
+      expect(zonedTimeToUtc('2027-03-28', '01:30', 'Europe/Berlin').toISOString()).toBe('2027-03-28T00:30:00.000Z');
+      expect(zonedTimeToUtc('2026-11-01', '09:00', 'America/New_York').toISOString()).toBe('2026-11-01T14:00:00.000Z');
+    });
+  });
+
+  describe('calculateSchedule', () => {
+    it('should fill the starter plan\'s Monday, Wednesday and Friday slots in the site\'s timezone', () => {
+      // Sunday 20:00 UTC is already Monday morning in Tokyo, so the schedule starts on Tuesday there
+      const start = new Date('2026-10-18T20:00:00Z');
+
+      expect(iso(calculateSchedule(3, 'starter', start, { rules: { timezone: 'Asia/Tokyo' } }))).toEqual([
+        '2026-10-21T00:00:00.000Z',
+        '2026-10-23T00:00:00.000Z',
+        '2026-10-26T00:00:00.000Z'
+      ]);
+    });
+
+    it('should keep the local publishing time across a DST change', () => {
+      const start = new Date('2027-03-12T12:00:00Z');
+
+      expect(iso(calculateSchedule(3, 'pro', start, { rules: { timezone: 'America/New_York' } }))).toEqual([
+        '2027-03-13T14:00:00.000Z', // 09:00 EST
+        '2027-03-14T13:00:00.000Z', // 09:00 EDT
+        '2027-03-15T13:00:00.000Z'
+      ]);
+    });
+
+    it('should skip blackout dates, closed weekdays and taken slots', () => {
+      const start = new Date('2026-10-18T12:00:00Z');
+      const rules = { timezone: 'UTC', daysOfWeek: [1, 2, 3], blackoutDates: ['2026-10-20'] };
+      const existing = [new Date('2026-10-19T09:00:00Z')];
+
+      expect(iso(calculateSchedule(2, 'pro', start, { rules, existing }))).toEqual([
+        '2026-10-21T09:00:00.000Z',
+        '2026-10-26T09:00:00.000Z'
+      ]);
+    });
+
+    it('should never publish more often than the plan allows', () => {
+      const start = new Date('2026-10-18T12:00:00Z');
+      const schedule = calculateSchedule(6, 'starter', start, { rules: { daysOfWeek: [0, 1, 2, 3, 4, 5, 6], times: ['08:00', '12:00'] } });
+
+      // One item a day and three a week, weeks starting on Monday
+      expect(iso(schedule)).toEqual([
+        '2026-10-19T08:00:00.000Z',
+        '2026-10-20T08:00:00.000Z',
+        '2026-10-21T08:00:00.000Z',
+        '2026-10-26T08:00:00.000Z',
+        '2026-10-27T08:00:00.000Z',
+        '2026-10-28T08:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('findSlotOnDate', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+
+    it('should return the first free time on an open day', () => {
+      expect(findSlotOnDate('2026-10-20', 'scale', { now })).toEqual({ ok: true, slot: new Date('2026-10-20T09:00:00Z') });
+      // 09:00 has passed today
+      expect(findSlotOnDate('2026-10-19', 'scale', { now })).toEqual({ ok: true, slot: new Date('2026-10-19T13:00:00Z') });
+    });
+
+    it('should explain why a day can\'t take an item', () => {
+      expect(findSlotOnDate('2026-10-18', 'pro', { now })).toEqual({ ok: false, error: 'Cannot schedule content for past dates' });
+      expect(findSlotOnDate('2026-10-20', 'starter', { now })).toEqual({ ok: false, error: 'Tue is not a publishing day' });
+      expect(findSlotOnDate('2026-12-25', 'pro', { now, rules: { blackoutDates: ['12-25'] } }))
+        .toEqual({ ok: false, error: '2026-12-25 is a blackout date' });
+    });
+  });
+});
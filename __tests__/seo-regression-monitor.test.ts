@@ -0,0 +1,72 @@
+/**
+ * Tests for how the SEO regression monitor classifies watchdog snapshots
+ * Each change to a page's baseline maps to a regression type and severity, or to none
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { SEORegressionMonitor, type WatchdogSnapshot, type RegressionType } from '@/services/technical-seo/seo-regression-monitor';
+import type { ActionItem } from '@/lib/ActionItemService';
+
+// classify is pure; no database is needed
+jest.mock('@supabase/supabase-js', () => ({ createClient: () => ({}) }));
+
+const BASELINE: WatchdogSnapshot = {
+  url: 'https://example.com/guide',
+  title: 'The Guide',
+  h1: 'The Guide',
+  metaDescription: 'Everything about the thing.',
+  metaRobots: 'index, follow',
+  canonical: 'https://example.com/guide',
+  hreflang: [{ hreflang: 'en', href: 'https://example.com/guide' }, { hreflang: 'de', href: 'https://example.com/de/guide' }],
+  schemaTypes: ['Article', 'BreadcrumbList'],
+  ogTags: { title: 'The Guide', description: 'Everything about the thing.', image: 'https://example.com/guide.png' }
+};
+
+describe('SEORegressionMonitor', () => {
+  const monitor = new SEORegressionMonitor();
+  const classify = (changes: Partial<WatchdogSnapshot>, baseline: Partial<WatchdogSnapshot> = {}) =>
+    monitor.classify({ ...BASELINE, ...baseline }, { ...BASELINE, ...changes })
+      .map(regression => [regression.type, regression.severity]);
+
+  describe('classify', () => {
+    const cases: Array<[string, Partial<WatchdogSnapshot>, Array<[RegressionType, ActionItem['severity']]>]> = [
+      ['noindex added', { metaRobots: 'noindex, follow' }, [['noindex_added', 'critical']]],
+      ['robots "none"', { metaRobots: 'none' }, [['noindex_added', 'critical']]],
+      ['nofollow added', { metaRobots: 'index, nofollow' }, [['nofollow_added', 'medium']]],
+      ['canonical to another site', { canonical: 'https://other.com/guide' }, [['canonical_offsite', 'critical']]],
+      ['canonical to another page', { canonical: 'https://example.com/other' }, [['canonical_changed', 'high']]],
+      ['canonical removed', { canonical: '' }, [['canonical_removed', 'medium']]],
+      ['title removed', { title: '  ' }, [['title_removed', 'high']]],
+      ['H1 removed', { h1: '' }, [['h1_removed', 'high']]],
+      ['meta description removed', { metaDescription: '' }, [['meta_description_removed', 'medium']]],
+      ['schema type dropped', { schemaTypes: ['Article'] }, [['schema_dropped', 'high']]],
+      ['all hreflang links removed', { hreflang: [] }, [['hreflang_removed', 'medium']]],
+      ['Open Graph image removed', { ogTags: { title: 'The Guide', description: 'Everything about the thing.' } }, [['og_tags_removed', 'low']]],
+      ['noindex and H1 removed together', { metaRobots: 'noindex', h1: '' }, [['noindex_added', 'critical'], ['h1_removed', 'high']]]
+    ];
+
+    it.each(cases)('should classify %s', (_name, changes, expected) => {
+      expect(classify(changes)).toEqual(expected);
+    });
+
+    it('should ignore harmless changes', () => {
+      expect(classify({})).toEqual([]);
+      expect(classify({ title: 'The New Guide', h1: 'The New Guide', metaRobots: 'INDEX,FOLLOW' })).toEqual([]);
+      // Same page with a trailing slash
+      expect(classify({ canonical: 'https://example.com/guide/' })).toEqual([]);
+      // One hreflang link of two is still there; adding schema is fine
+      expect(classify({ hreflang: [BASELINE.hreflang[0]], schemaTypes: ['Article', 'BreadcrumbList', 'FAQPage'] })).toEqual([]);
+    });
+
+    it('should not report what the baseline never had', () => {
+      const bare = { title: '', h1: '', metaDescription: '', canonical: '', metaRobots: 'noindex', hreflang: [], schemaTypes: [], ogTags: {} };
+
+      expect(classify(bare, bare)).toEqual([]);
+      expect(classify({ metaRobots: 'noindex, nofollow' }, { metaRobots: 'none' })).toEqual([]);
+    });
+
+    it('should not report schema blocks that failed to parse as dropped', () => {
+      expect(classify({ schemaTypes: ['Article', 'BreadcrumbList'] }, { schemaTypes: ['Article', 'BreadcrumbList', 'Invalid'] })).toEqual([]);
+    });
+  });
+});
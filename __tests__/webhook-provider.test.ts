@@ -0,0 +1,90 @@
+/**
+ * Tests for the signed webhook CMS provider
+ * Signatures, the public-address check and how receiver errors are reported; fetch is stubbed
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { WebhookProvider, signWebhookPayload } from '@/lib/cms/providers/webhook';
+import { CMSCredentials } from '@/lib/cms/types';
+
+// An IP literal, so the public-address check needs no DNS
+const PUBLIC_ENDPOINT = 'https://93.184.216.34/seoagent-hook';
+const realFetch = global.fetch;
+
+describe('Webhook Provider', () => {
+  let provider: WebhookProvider;
+  let fetchMock: jest.Mock<typeof fetch>;
+
+  const credentials = (webhookUrl: string): CMSCredentials => ({ accessToken: 'whsec_test', webhookUrl });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    provider = new WebhookProvider();
+    fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+    jest.restoreAllMocks();
+  });
+
+  describe('signWebhookPayload', () => {
+    it('should sign "{timestamp}.{body}" with HMAC-SHA256', () => {
+      // printf '%s' '1760745600.{"event":"ping"}' | openssl dgst -sha256 -hmac whsec_test
+      expect(signWebhookPayload('whsec_test', 1760745600, '{"event":"ping"}'))
+        .toBe('sha256=ff85ee7698639573407fe19d200287c702a50c4208eddfdb87d8ac31563af988');
+    });
+
+    it('should change with the timestamp', () => {
+      expect(signWebhookPayload('whsec_test', 1760745601, '{"event":"ping"}'))
+        .not.toBe(signWebhookPayload('whsec_test', 1760745600, '{"event":"ping"}'));
+    });
+  });
+
+  describe('endpoint checks', () => {
+    it('should refuse endpoints on private addresses without calling them', async () => {
+      for (const url of ['http://127.0.0.1/hook', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/hook']) {
+        expect(await provider.validateToken(credentials(url))).toBe(false);
+      }
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should send signed pings to public endpoints without following redirects', async () => {
+      fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+      expect(await provider.validateToken(credentials(PUBLIC_ENDPOINT))).toBe(true);
+
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(url).toBe(PUBLIC_ENDPOINT);
+      expect(init.redirect).toBe('manual');
+      expect(headers['X-SEOAgent-Signature'])
+        .toBe(signWebhookPayload('whsec_test', Number(headers['X-SEOAgent-Timestamp']), init.body as string));
+    });
+
+    it('should treat a redirect as a rejection', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 302, headers: { Location: 'http://127.0.0.1/' } }));
+
+      expect(await provider.validateToken(credentials(PUBLIC_ENDPOINT))).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('receiver errors', () => {
+    it('should report the status code but not the response body', async () => {
+      fetchMock.mockResolvedValue(new Response('internal admin page', { status: 400 }));
+
+      await expect(provider.deleteArticle(credentials(PUBLIC_ENDPOINT), 'remote-1'))
+        .rejects.toThrow(/^\[WEBHOOK\] article\.deleted rejected with HTTP 400$/);
+    });
+
+    it('should report update conflicts', async () => {
+      fetchMock.mockResolvedValue(new Response('changed', { status: 409 }));
+
+      await expect(provider.updateArticle(credentials(PUBLIC_ENDPOINT), 'remote-1', { title: 'Title' }))
+        .rejects.toThrow('Update conflict');
+    });
+  });
+});
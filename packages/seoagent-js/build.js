@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+
+/**
+ * Builds the SEOAgent.js snippet
+ *
+ * Compiles src/ with tsc and writes:
+ * - public/seoagent.js: latest build, served to existing installs
+ * - public/seoagent/<version>/seoagent.js: immutable release, for pinned installs with SRI
+ * - public/seoagent/versions.json: release manifest (path, integrity, size) read by the app
+ *
+ * Run from the repository root: npm run build:seoagent-js
+ */
+
+const { execFileSync } = require('child_process');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '../..');
+const PACKAGE_DIR = __dirname;
+const PUBLIC_DIR = path.join(ROOT, 'public');
+const RELEASES_DIR = path.join(PUBLIC_DIR, 'seoagent');
+const MANIFEST_PATH = path.join(RELEASES_DIR, 'versions.json');
+
+function compile() {
+  const tsc = path.join(ROOT, 'node_modules', '.bin', 'tsc');
+  execFileSync(tsc, ['-p', path.join(PACKAGE_DIR, 'tsconfig.json')], { stdio: 'inherit' });
+  return fs.readFileSync(path.join(PACKAGE_DIR, 'dist', 'seoagent.js'), 'utf8');
+}
+
+function bundle(compiled, version) {
+  const body = compiled
+    .replace(/__SEOAGENT_VERSION__/g, version)
+    .trim()
+    .split('\n')
+    .map(line => (line ? `  ${line}` : line))
+    .join('\n');
+
+  // The IIFE keeps the namespace off window; SEOAgent is the only global the snippet sets
+  return `/*! SEOAgent.js v${version} | https://seoagent.com */\n(function () {\n${body}\n})();\n`;
+}
+
+function readManifest() {
+  if (!fs.existsSync(MANIFEST_PATH)) {
+    return { latest: null, versions: {} };
+  }
+  return JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8'));
+}
+
+function main() {
+  const { version } = require(path.join(PACKAGE_DIR, 'package.json'));
+  const output = bundle(compile(), version);
+
+  const releaseDir = path.join(RELEASES_DIR, version);
+  const releasePath = path.join(releaseDir, 'seoagent.js');
+
+  // Pinned installs carry the release's integrity hash, so a published release never changes
+  if (fs.existsSync(releasePath) && fs.readFileSync(releasePath, 'utf8') !== output) {
+    console.error(`❌ seoagent.js ${version} is already released with different content.`);
+    console.error('   Bump the version in packages/seoagent-js/package.json before building.');
+    process.exit(1);
+  }
+
+  fs.mkdirSync(releaseDir, { recursive: true });
+  fs.writeFileSync(releasePath, output);
+  fs.writeFileSync(path.join(PUBLIC_DIR, 'seoagent.js'), output);
+
+  const manifest = readManifest();
+  const existing = manifest.versions[version];
+  const integrity = `sha384-${crypto.createHash('sha384').update(output).digest('base64')}`;
+
+  manifest.versions[version] = {
+    path: `/seoagent/${version}/seoagent.js`,
+    integrity,
+    size: Buffer.byteLength(output),
+    builtAt: existing && existing.integrity === integrity ? existing.builtAt : new Date().toISOString()
+  };
+  manifest.latest = version;
+  fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2) + '\n');
+
+  console.log(`✅ Built seoagent.js v${version} (${manifest.versions[version].size} bytes)`);
+  console.log(`   ${integrity}`);
+}
+
+main();
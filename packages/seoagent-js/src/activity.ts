@@ -0,0 +1,55 @@
+namespace SEOAgentJS {
+  /**
+   * Log SEO activities to the activity feed
+   * @param activityType - Type of activity (meta_tags_optimized, alt_text_generated, etc.)
+   * @param title - Human-readable title
+   * @param description - Description of what was done
+   * @param results - Results/stats from the operation
+   * @param details - Additional details for the activity feed
+   */
+  export async function logSEOActivity(
+    activityType: string,
+    title: string,
+    description: string,
+    results: Record<string, unknown> = {},
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      const activity = {
+        user_token: runtime.websiteToken,
+        site_url: window.location.origin,
+        page_url: window.location.href,
+        activity_type: activityType,
+        title: title,
+        description: description,
+        results: results,
+        details: details,
+        status: 'completed',
+        metadata: {
+          userAgent: navigator.userAgent,
+          timestamp: Date.now(),
+          source: 'seoagent_js_autonomous',
+          version: VERSION
+        }
+      };
+
+      await fetch(`${runtime.apiBase}/api/tools/seo-activity`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(activity)
+      });
+
+      console.log(`[SEO-ACTIVITY] Logged: ${title}`);
+    } catch (error) {
+      console.warn('[SEO-ACTIVITY] Could not log activity:', error);
+    }
+  }
+
+  export function errorDetails(error: unknown): { error: string; stack?: string } {
+    return error instanceof Error
+      ? { error: error.message, stack: error.stack }
+      : { error: String(error) };
+  }
+}
@@ -0,0 +1,171 @@
+namespace SEOAgentJS {
+  const FOOTER_SELECTORS = ['footer', '.footer', '#footer', '.site-footer', '[role="contentinfo"]', '.page-footer'];
+
+  /**
+   * Footer link to SEOAgent, unless the site switched attribution off
+   */
+  export async function addSEOAgentAttribution(): Promise<void> {
+    try {
+      if (document.querySelector('[data-seoagent="attribution"]')) {
+        console.log('[SEO-METRICS] Attribution already exists, skipping');
+        return;
+      }
+
+      try {
+        const response = await fetch(`${runtime.functionsBase}/check-attribution`, {
+          method: 'POST',
+          headers: functionHeaders(),
+          body: JSON.stringify({
+            website_token: runtime.websiteToken
+          })
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          if (!data.attribution_enabled) {
+            console.log('[SEO-METRICS] Attribution disabled for this website, skipping');
+            return;
+          }
+        } else {
+          console.log('[SEO-METRICS] Attribution check failed, proceeding with default (enabled)');
+        }
+      } catch (error) {
+        console.log('[SEO-METRICS] Attribution check error, proceeding with default (enabled):', error);
+      }
+
+      let footerElement: HTMLElement | null = null;
+      for (const selector of FOOTER_SELECTORS) {
+        footerElement = document.querySelector<HTMLElement>(selector);
+        if (footerElement) break;
+      }
+      footerElement = footerElement || document.body;
+
+      if (!footerElement) {
+        console.log('[SEO-METRICS] No suitable element found for attribution');
+        return;
+      }
+
+      const attributionContainer = document.createElement('div');
+      attributionContainer.setAttribute('data-seoagent', 'attribution');
+      attributionContainer.style.cssText = `
+        margin: 8px 0;
+        padding: 4px 0;
+        font-size: 11px;
+        line-height: 1.2;
+        color: #666;
+        text-align: center;
+        border-top: 1px solid #eee;
+      `;
+
+      const attributionLink = document.createElement('a');
+      attributionLink.href = 'https://seoagent.com';
+      attributionLink.target = '_blank';
+      attributionLink.rel = 'dofollow'; // Explicit dofollow for SEO benefit
+      attributionLink.textContent = 'SEO by SEOAgent';
+      attributionLink.style.cssText = `
+        color: #666;
+        text-decoration: none;
+        font-size: 11px;
+        opacity: 0.7;
+        transition: opacity 0.2s ease;
+      `;
+
+      attributionLink.addEventListener('mouseenter', () => {
+        attributionLink.style.opacity = '1';
+        attributionLink.style.color = '#333';
+      });
+      attributionLink.addEventListener('mouseleave', () => {
+        attributionLink.style.opacity = '0.7';
+        attributionLink.style.color = '#666';
+      });
+
+      attributionContainer.appendChild(attributionLink);
+      if (footerElement === document.body) {
+        attributionContainer.style.marginTop = '20px';
+      }
+      footerElement.appendChild(attributionContainer);
+
+      console.log('[SEO-METRICS] Successfully added SEOAgent attribution link');
+
+      // Schema markup for the attribution (credibility signal)
+      const schemaScript = document.createElement('script');
+      schemaScript.type = 'application/ld+json';
+      schemaScript.setAttribute('data-seoagent', 'attribution-schema');
+      schemaScript.textContent = JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'Organization',
+        'name': 'SEOAgent',
+        'url': 'https://seoagent.com',
+        'description': 'AI-powered SEO automation platform'
+      }, null, 2);
+      document.head.appendChild(schemaScript);
+
+    } catch (error) {
+      console.error('[SEO-METRICS] Error adding attribution:', error);
+    }
+  }
+
+  /**
+   * "Powered by" badge for free plans
+   */
+  export async function handlePlanAttribution(): Promise<void> {
+    let requireAttribution = true;
+    try {
+      const response = await fetch(`${runtime.apiBase}/api/seoagent/check-attribution?token=${encodeURIComponent(runtime.websiteToken)}`);
+      const data = await response.json();
+      console.log('[SEO-METRICS] Attribution check result:', data);
+      requireAttribution = !!data.requireAttribution;
+    } catch (error) {
+      // Default to adding attribution on error
+      console.error('[SEO-METRICS] Attribution check failed:', error);
+    }
+
+    if (requireAttribution) {
+      console.log('[SEO-METRICS] Free tier detected - adding attribution');
+      addAttributionBadge();
+    }
+  }
+
+  function addAttributionBadge(): void {
+    if (document.querySelector('[data-seoagent-attribution]')) {
+      console.log('[SEO-METRICS] Attribution already exists, skipping');
+      return;
+    }
+
+    const attribution = document.createElement('div');
+    attribution.setAttribute('data-seoagent-attribution', 'true');
+    attribution.style.cssText = `
+      position: fixed;
+      bottom: 10px;
+      right: 10px;
+      background: rgba(0,0,0,0.8);
+      color: white;
+      padding: 8px 12px;
+      border-radius: 4px;
+      font-size: 12px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      z-index: 999999;
+      box-shadow: 0 2px 10px rgba(0,0,0,0.3);
+      text-decoration: none;
+      transition: opacity 0.3s;
+    `;
+
+    const link = document.createElement('a');
+    link.href = 'https://seoagent.com/?utm_source=attribution&utm_medium=seoagent_js';
+    link.target = '_blank';
+    link.rel = 'noopener';
+    link.style.cssText = 'color: #60a5fa; text-decoration: none;';
+    link.textContent = '⚡ Powered by SEOAgent';
+
+    attribution.appendChild(link);
+    attribution.addEventListener('mouseenter', () => {
+      attribution.style.opacity = '0.7';
+    });
+    attribution.addEventListener('mouseleave', () => {
+      attribution.style.opacity = '1';
+    });
+
+    document.body.appendChild(attribution);
+    console.log('[SEO-METRICS] Attribution link added successfully');
+  }
+}
@@ -0,0 +1,72 @@
+namespace SEOAgentJS {
+  export async function processCanonicalTags(): Promise<void> {
+    try {
+      console.log('[SEO-METRICS] Starting canonical processing');
+
+      const currentUrl = window.location.href;
+      const existingCanonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+
+      console.log(`[SEO-METRICS] Current URL: ${currentUrl}`);
+      console.log(`[SEO-METRICS] Existing canonical: ${existingCanonical?.href || 'none'}`);
+
+      const urlObj = new URL(currentUrl);
+
+      const needsCanonical = !!(
+        urlObj.search || // Has query parameters
+        urlObj.hash || // Has fragment
+        urlObj.pathname.endsWith('/index.html') || // Index files
+        urlObj.pathname.includes('//') || // Double slashes
+        urlObj.pathname !== urlObj.pathname.toLowerCase() || // Mixed case
+        currentUrl.includes('utm_') || // UTM parameters
+        currentUrl.includes('fbclid') || // Facebook click ID
+        currentUrl.includes('gclid') || // Google click ID
+        currentUrl.includes('ref=') || // Reference parameters
+        currentUrl.includes('source=') // Source tracking
+      );
+
+      if (existingCanonical) {
+        console.log('[SEO-METRICS] Canonical tag already exists');
+        return;
+      }
+
+      if (!needsCanonical) {
+        console.log('[SEO-METRICS] No canonical tag needed');
+        return;
+      }
+
+      // Remove index.html, normalize trailing slashes and lowercase the path
+      let cleanPath = urlObj.pathname.replace(/\/index\.html$/, '/');
+      if (cleanPath !== '/' && cleanPath.endsWith('/')) {
+        cleanPath = cleanPath.slice(0, -1);
+      }
+      cleanPath = cleanPath.toLowerCase();
+
+      const cleanUrl = `${urlObj.protocol}//${urlObj.hostname}${cleanPath}`;
+
+      const canonicalLink = document.createElement('link');
+      canonicalLink.rel = 'canonical';
+      canonicalLink.href = cleanUrl;
+      canonicalLink.setAttribute('data-seoagent', 'auto-generated');
+      document.head.appendChild(canonicalLink);
+
+      console.log(`[SEO-METRICS] Added canonical tag: ${cleanUrl}`);
+
+      await logSEOActivity(
+        'canonical_tag_added',
+        `🔗 Canonical tag optimized`,
+        `Added canonical URL to prevent duplicate content issues`,
+        {
+          canonicalUrl: cleanUrl,
+          hadParameters: currentUrl !== cleanUrl
+        },
+        {
+          pageUrl: currentUrl,
+          cleanUrl: cleanUrl
+        }
+      );
+
+    } catch (error) {
+      console.error('[SEO-METRICS] Error processing canonical tags:', error);
+    }
+  }
+}
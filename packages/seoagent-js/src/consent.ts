@@ -0,0 +1,56 @@
+/**
+ * Consent hook
+ *
+ * Sites that need consent before seoagent.js runs set requireConsent (site setting,
+ * SEOAgentConfig or data-require-consent). The snippet then waits until one of:
+ * - SEOAgent.grantConsent() is called, e.g. from the CMP's consent callback
+ * - SEOAgentConfig.consentGranted was set before the snippet loaded
+ * - an IAB TCF v2 CMP reports consent for purpose 1 (store and access information on a device)
+ * SEOAgent.revokeConsent() stops the watchdog; fixes already applied to the page stay.
+ */
+namespace SEOAgentJS {
+  let consentGranted = false;
+  const consentWaiters: Array<() => void> = [];
+
+  export function hasConsent(): boolean {
+    return consentGranted || !!(window.SEOAgentConfig && window.SEOAgentConfig.consentGranted);
+  }
+
+  export function grantConsent(): void {
+    if (consentGranted) return;
+    consentGranted = true;
+    console.log('[SEO-METRICS] Consent granted');
+    consentWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  export function revokeConsent(): void {
+    consentGranted = false;
+    if (window.SEOAgentConfig) window.SEOAgentConfig.consentGranted = false;
+    console.log('[SEO-METRICS] Consent revoked, stopping watchdog');
+    stopSEOWatchdog();
+  }
+
+  export function waitForConsent(): Promise<void> {
+    if (hasConsent()) return Promise.resolve();
+
+    console.log('[SEO-METRICS] Waiting for consent before running');
+    listenForTCFConsent();
+    return new Promise(resolve => consentWaiters.push(resolve));
+  }
+
+  function listenForTCFConsent(): void {
+    if (typeof window.__tcfapi !== 'function') return;
+
+    try {
+      window.__tcfapi('addEventListener', 2, (data, success) => {
+        if (!success || !data) return;
+        if (data.eventStatus !== 'tcloaded' && data.eventStatus !== 'useractioncomplete') return;
+
+        const purposeOne = !!(data.purpose && data.purpose.consents && data.purpose.consents['1']);
+        if (data.gdprApplies === false || purposeOne) grantConsent();
+      });
+    } catch (error) {
+      console.warn('[SEO-METRICS] Could not read TCF consent:', error);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+// Website token, defined by the install snippet before seoagent.js loads: <script>const idv = "...";</script>
+declare const idv: string | undefined;
+
+interface TCFData {
+  eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+  gdprApplies?: boolean;
+  purpose?: { consents?: Record<string, boolean> };
+  listenerId?: number;
+}
+
+interface Window {
+  // Set by the site before seoagent.js loads; see SEOAgentJS.SnippetOptions
+  SEOAgentConfig?: SEOAgentJS.SnippetOptions;
+  // Public API, set once seoagent.js has loaded
+  SEOAgent?: SEOAgentJS.PublicAPI;
+  // IAB TCF v2 CMPs (OneTrust, Cookiebot, Quantcast, ...)
+  __tcfapi?: (command: string, version: number, callback: (data: TCFData, success: boolean) => void, parameter?: unknown) => void;
+}
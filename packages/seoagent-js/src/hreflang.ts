@@ -0,0 +1,137 @@
+namespace SEOAgentJS {
+  interface HreflangAlternate {
+    hreflang: string;
+    href: string;
+  }
+
+  const LANGUAGE_CODES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'ja', 'ko', 'zh'];
+
+  export async function processHreflangTags(): Promise<void> {
+    try {
+      const currentUrl = window.location.href;
+      const existingHreflang = document.querySelectorAll('link[rel="alternate"][hreflang]');
+      console.log(`[SEO-METRICS] Existing hreflang tags: ${existingHreflang.length}`);
+
+      if (existingHreflang.length > 0) {
+        console.log('[SEO-METRICS] Hreflang tags already exist, skipping automation');
+        return;
+      }
+
+      // Articles translated by SEOAgent: use the known language versions instead of guessing
+      const articleAlternates = await fetchArticleAlternates(currentUrl);
+      if (articleAlternates.length > 0) {
+        console.log(`[SEO-METRICS] Found ${articleAlternates.length} article language versions, adding hreflang tags`);
+        articleAlternates.forEach(alternate => addHreflangTag(alternate.href, alternate.hreflang));
+        return;
+      }
+
+      const detectedLanguage = detectPageLanguage();
+      console.log(`[SEO-METRICS] Detected page language: ${detectedLanguage}`);
+
+      if (checkForMultiLanguageSite()) {
+        console.log('[SEO-METRICS] Multi-language site detected, generating hreflang tags');
+        generateHreflangTags(currentUrl, detectedLanguage);
+      } else {
+        console.log('[SEO-METRICS] Single language site, adding self-referencing hreflang');
+        addHreflangTag(currentUrl, detectedLanguage);
+      }
+
+    } catch (error) {
+      console.error('[SEO-METRICS] Error processing hreflang tags:', error);
+    }
+  }
+
+  async function fetchArticleAlternates(currentUrl: string): Promise<HreflangAlternate[]> {
+    try {
+      const response = await fetch(`${runtime.apiBase}/api/seoagent/hreflang?token=${encodeURIComponent(runtime.websiteToken)}&url=${encodeURIComponent(currentUrl)}`);
+      if (!response.ok) return [];
+
+      const data = await response.json();
+      return Array.isArray(data.alternates) ? data.alternates : [];
+    } catch (error) {
+      console.warn('[SEO-METRICS] Could not fetch article language versions:', error);
+      return [];
+    }
+  }
+
+  function detectPageLanguage(): string {
+    const htmlLang = document.documentElement.getAttribute('lang');
+    if (htmlLang) return htmlLang.toLowerCase();
+
+    const contentLang = document.querySelector('meta[http-equiv="content-language"]')?.getAttribute('content');
+    if (contentLang) return contentLang.toLowerCase();
+
+    const ogLocale = document.querySelector('meta[property="og:locale"]')?.getAttribute('content');
+    if (ogLocale) return ogLocale.toLowerCase().replace('_', '-');
+
+    // /en/, /en-us/, /en, /en-us
+    const match = window.location.pathname.match(/^\/([a-z]{2})(-[a-z]{2})?(\/|$)/);
+    if (match) return match[1];
+
+    // Default to English if nothing found
+    return 'en';
+  }
+
+  function checkForMultiLanguageSite(): boolean {
+    const languageIndicators = [
+      'language-switch', 'lang-switch', 'language-selector',
+      'translate', 'languages', 'idiomas', 'sprache', 'langue'
+    ];
+
+    for (const indicator of languageIndicators) {
+      if (document.querySelector(`[class*="${indicator}"], [id*="${indicator}"]`)) {
+        return true;
+      }
+    }
+
+    // Check for multiple language links in navigation
+    const navLinks = Array.from(document.querySelectorAll<HTMLAnchorElement>('nav a, header a, .menu a'));
+    const langCodes = LANGUAGE_CODES.concat(['ar', 'ru']);
+    let langLinksFound = 0;
+
+    navLinks.forEach(link => {
+      langCodes.forEach(code => {
+        if (link.href.includes(`/${code}/`) || link.href.includes(`/${code}`)) {
+          langLinksFound++;
+        }
+      });
+    });
+
+    return langLinksFound >= 2;
+  }
+
+  function generateHreflangTags(currentUrl: string, detectedLanguage: string): void {
+    const urlObj = new URL(currentUrl);
+    const pathSegments = urlObj.pathname.split('/').filter(Boolean);
+
+    let hasLangInPath = false;
+    let basePath = urlObj.pathname;
+
+    if (pathSegments.length > 0 && LANGUAGE_CODES.includes(pathSegments[0])) {
+      hasLangInPath = true;
+      basePath = '/' + pathSegments.slice(1).join('/');
+    }
+
+    addHreflangTag(currentUrl, detectedLanguage);
+
+    // If we detected language in path, generate alternatives
+    if (hasLangInPath) {
+      LANGUAGE_CODES
+        .filter(langCode => langCode !== detectedLanguage)
+        .forEach(langCode => addHreflangTag(`${urlObj.protocol}//${urlObj.hostname}/${langCode}${basePath}`, langCode));
+
+      addHreflangTag(`${urlObj.protocol}//${urlObj.hostname}${basePath}`, 'x-default');
+    }
+  }
+
+  function addHreflangTag(href: string, hreflang: string): void {
+    const hreflangLink = document.createElement('link');
+    hreflangLink.rel = 'alternate';
+    hreflangLink.hreflang = hreflang;
+    hreflangLink.href = href;
+    hreflangLink.setAttribute('data-seoagent', 'auto-generated');
+    document.head.appendChild(hreflangLink);
+
+    console.log(`[SEO-METRICS] Added hreflang tag: ${hreflang} -> ${href}`);
+  }
+}
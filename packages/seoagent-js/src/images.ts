@@ -0,0 +1,86 @@
+namespace SEOAgentJS {
+  function isSvgImage(img: HTMLImageElement): boolean {
+    const type = img.getAttribute('type');
+    return img.src.toLowerCase().endsWith('.svg') || (!!type && type.toLowerCase().includes('svg'));
+  }
+
+  export async function processImages(): Promise<void> {
+    try {
+      console.log('[SEO-METRICS] Starting image processing');
+
+      const images = Array.from(document.getElementsByTagName('img'));
+      console.log(`[SEO-METRICS] Found ${images.length} total img elements`);
+
+      const candidates = images.filter(img => img.src && !isSvgImage(img));
+      const imageUrls = candidates.map(img => img.src);
+
+      console.log(`[SEO-METRICS] Filtered to ${imageUrls.length} non-SVG images`);
+
+      if (imageUrls.length === 0) {
+        console.log('[SEO-METRICS] No images found to process');
+        return;
+      }
+
+      console.log('[SEO-METRICS] Calling generate-image-alt API');
+      const response = await fetch(`${runtime.functionsBase}/generate-image-alt`, {
+        method: 'POST',
+        headers: functionHeaders(),
+        body: JSON.stringify({
+          id: runtime.websiteToken,
+          images: imageUrls
+        })
+      });
+
+      console.log(`[SEO-METRICS] Alt tags API response status: ${response.status}`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[SEO-METRICS] Alt tags API error: ${response.status} - ${errorText}`);
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const altTags: Record<string, string> = await response.json();
+      console.log('[SEO-METRICS] Alt tags API response:', altTags);
+
+      let updatedCount = 0;
+      candidates.forEach(img => {
+        const imgUrl = img.src;
+        if (altTags[imgUrl]) {
+          img.alt = altTags[imgUrl];
+          updatedCount++;
+          console.log(`[SEO-METRICS] Updated alt tag for ${imgUrl}: ${altTags[imgUrl]}`);
+        } else {
+          console.log(`[SEO-METRICS] No alt tag received for ${imgUrl}`);
+        }
+      });
+
+      console.log(`[SEO-METRICS] Updated ${updatedCount} out of ${imageUrls.length} images with alt tags`);
+
+      // Log this activity to the activity feed (only if we actually updated some images)
+      if (updatedCount > 0) {
+        await logSEOActivity(
+          'alt_text_generated',
+          `🖼️ Alt text generated`,
+          `Generated alt text for ${updatedCount} image${updatedCount > 1 ? 's' : ''} to improve accessibility`,
+          {
+            imagesProcessed: updatedCount,
+            totalImages: imageUrls.length,
+            successRate: Math.round((updatedCount / imageUrls.length) * 100)
+          },
+          {
+            pageUrl: window.location.href,
+            imageCount: updatedCount
+          }
+        );
+      }
+
+    } catch (error) {
+      console.error('[SEO-METRICS] Error processing images:', error);
+      console.error('[SEO-METRICS] Image processing error details:', {
+        ...errorDetails(error),
+        totalImages: document.getElementsByTagName('img').length,
+        apiUrl: `${runtime.functionsBase}/generate-image-alt`
+      });
+    }
+  }
+}
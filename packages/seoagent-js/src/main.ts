@@ -0,0 +1,105 @@
+/**
+ * SEOAgent.js - SEO auto-fixes and monitoring
+ *
+ * Generates meta tags, image alt text, schema markup, canonical, hreflang and Open Graph tags,
+ * watches the page for SEO regressions and adds the SEOAgent attribution. Which modules run is
+ * decided per site in SEOAgent and can be narrowed per page (see config.ts).
+ */
+namespace SEOAgentJS {
+  export interface PublicAPI {
+    version: string;
+    grantConsent: () => void;
+    revokeConsent: () => void;
+    modules: () => ModuleToggles | null;
+  }
+
+  // Prevent double-execution
+  let seoMetricsInitialized = false;
+
+  async function initializeSEOMetrics(): Promise<void> {
+    if (seoMetricsInitialized) {
+      console.log('[SEO-METRICS] Already initialized, skipping...');
+      return;
+    }
+
+    // Check if idv (website token) is defined
+    if (typeof idv === 'undefined' || !idv) {
+      // Silently exit - this is expected on pages without SEO tracking
+      return;
+    }
+
+    seoMetricsInitialized = true;
+
+    const options = readPageOptions();
+    const site = await fetchSiteConfig(options.apiBase ? options.apiBase.replace(/\/+$/, '') : DEFAULT_API_BASE, idv);
+    runtime = resolveRuntime(idv, options, site);
+
+    console.log(`[SEO-METRICS] SEOAgent.js ${VERSION} initializing...`);
+    console.log('[SEO-METRICS] API base URL:', runtime.apiBase);
+    console.log('[SEO-METRICS] Website token (idv):', runtime.websiteToken);
+    console.log('[SEO-METRICS] Current page URL:', window.location.href);
+    console.log('[SEO-METRICS] Enabled modules:', MODULE_NAMES.filter(name => runtime.modules[name]).join(', ') || 'none');
+
+    if (runtime.requireConsent) {
+      await waitForConsent();
+    }
+
+    const modules = runtime.modules;
+
+    if (isEdgeRendered()) {
+      // The SEOAgent renderer already wrote meta, alt text, schema, canonical and Open Graph into this HTML
+      console.log('[SEO-METRICS] Page was rendered server-side by SEOAgent, skipping client-side fixes');
+    } else {
+      if (modules.metaTags) processMetaTags();
+      if (modules.altText) processImages();
+      if (modules.schema) processSchemaMarkup();
+      if (modules.canonical) processCanonicalTags();
+      if (modules.hreflang) processHreflangTags();
+      if (modules.openGraph) processOpenGraphTags();
+    }
+
+    // Note: sitemap.xml and robots.txt require server-side deployment via hosting provider integrations
+
+    if (modules.watchdog) initializeSEOWatchdog();
+
+    if (modules.attribution) {
+      addSEOAgentAttribution();
+      handlePlanAttribution();
+    }
+  }
+
+  // Pages served through the SEO edge renderer carry its marker tag
+  function isEdgeRendered(): boolean {
+    return !!document.querySelector('meta[name="seoagent-render"][content="edge"]');
+  }
+
+  window.SEOAgent = {
+    version: VERSION,
+    grantConsent,
+    revokeConsent,
+    modules: () => (runtime ? { ...runtime.modules } : null)
+  };
+
+  // Handle multiple loading scenarios
+  if (document.readyState === 'loading') {
+    console.log('[SEO-METRICS] DOM still loading, waiting for DOMContentLoaded...');
+    document.addEventListener('DOMContentLoaded', () => { initializeSEOMetrics(); });
+
+    // Fallback timeout in case DOMContentLoaded never fires
+    setTimeout(() => {
+      if (!seoMetricsInitialized) {
+        console.log('[SEO-METRICS] Fallback timeout triggered, initializing...');
+        initializeSEOMetrics();
+      }
+    }, 5000);
+  } else {
+    console.log('[SEO-METRICS] DOM already loaded, initializing immediately...');
+    initializeSEOMetrics();
+  }
+
+  window.addEventListener('error', event => {
+    if (event.filename && event.filename.includes('seoagent')) {
+      console.error('SEO Metrics: Script error:', event.error);
+    }
+  });
+}
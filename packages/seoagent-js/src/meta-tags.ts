@@ -0,0 +1,95 @@
+namespace SEOAgentJS {
+  export async function processMetaTags(): Promise<void> {
+    const currentUrl = window.location.href;
+
+    try {
+      console.log('[SEO-METRICS] Starting meta tags processing');
+      console.log(`[SEO-METRICS] Current URL: ${currentUrl}`);
+
+      const response = await fetch(`${runtime.functionsBase}/generate-meta-tags`, {
+        method: 'POST',
+        headers: functionHeaders(),
+        body: JSON.stringify({
+          url: currentUrl,
+          id: runtime.websiteToken
+        })
+      });
+
+      console.log(`[SEO-METRICS] Meta tags API response status: ${response.status}`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[SEO-METRICS] Meta tags API error: ${response.status} - ${errorText}`);
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const metaData: { title?: string; description?: string } = await response.json();
+      console.log('[SEO-METRICS] Meta tags API response:', metaData);
+
+      if (metaData.title || metaData.description) {
+        console.log('[SEO-METRICS] Updating meta tags in DOM');
+        updateMetaTags(metaData.title, metaData.description);
+
+        const updatedTags: string[] = [];
+        if (metaData.title) updatedTags.push('title');
+        if (metaData.description) updatedTags.push('description');
+
+        await logSEOActivity(
+          'meta_tags_optimized',
+          `📝 Meta tags optimized`,
+          `Updated ${updatedTags.join(' and ')} for better search visibility`,
+          {
+            tagsUpdated: updatedTags.length,
+            titleLength: metaData.title ? metaData.title.length : 0,
+            descriptionLength: metaData.description ? metaData.description.length : 0
+          },
+          {
+            pageUrl: currentUrl,
+            updatedTags: updatedTags
+          }
+        );
+      } else {
+        console.log('[SEO-METRICS] No meta tags to update - empty response');
+      }
+
+      console.log('[SEO-METRICS] Meta tags processed successfully', {
+        title: metaData.title,
+        description: metaData.description,
+        pageUrl: currentUrl
+      });
+
+    } catch (error) {
+      console.error('[SEO-METRICS] Error processing meta tags:', error);
+      console.error('[SEO-METRICS] Meta tags error details:', {
+        ...errorDetails(error),
+        pageUrl: currentUrl,
+        apiUrl: `${runtime.functionsBase}/generate-meta-tags`
+      });
+    }
+  }
+
+  function updateMetaTags(title?: string, description?: string): void {
+    if (title) {
+      let metaTitle = document.querySelector('meta[name="title"]');
+      if (!metaTitle) {
+        metaTitle = document.createElement('meta');
+        metaTitle.setAttribute('name', 'title');
+        document.head.appendChild(metaTitle);
+      }
+      metaTitle.setAttribute('content', title);
+
+      // Also update the page title
+      document.title = title;
+    }
+
+    if (description) {
+      let metaDescription = document.querySelector('meta[name="description"]');
+      if (!metaDescription) {
+        metaDescription = document.createElement('meta');
+        metaDescription.setAttribute('name', 'description');
+        document.head.appendChild(metaDescription);
+      }
+      metaDescription.setAttribute('content', description);
+    }
+  }
+}
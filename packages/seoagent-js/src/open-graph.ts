@@ -0,0 +1,39 @@
+namespace SEOAgentJS {
+  function addMetaTag(attribute: 'name' | 'property', key: string, content: string): void {
+    const meta = document.createElement('meta');
+    meta.setAttribute(attribute, key);
+    meta.setAttribute('content', content);
+    meta.setAttribute('data-seoagent', 'auto-generated');
+    document.head.appendChild(meta);
+    console.log(`[SEO-METRICS] Added ${key}: ${content.substring(0, 50)}`);
+  }
+
+  export async function processOpenGraphTags(): Promise<void> {
+    try {
+      console.log('[SEO-METRICS] Starting Open Graph tags processing');
+
+      const hasProperty = (property: string) => !!document.querySelector(`meta[property="${property}"]`);
+
+      const pageTitle = document.title;
+      const pageDescription = document.querySelector('meta[name="description"]')?.getAttribute('content') || '';
+      const firstImage = document.querySelector<HTMLImageElement>('img:not([src$=".svg"])')?.src;
+
+      // Add missing essential OG tags
+      if (!hasProperty('og:title') && pageTitle) addMetaTag('property', 'og:title', pageTitle);
+      if (!hasProperty('og:description') && pageDescription) addMetaTag('property', 'og:description', pageDescription);
+      if (!hasProperty('og:url')) addMetaTag('property', 'og:url', window.location.href);
+      if (!hasProperty('og:type')) addMetaTag('property', 'og:type', 'website');
+      if (!hasProperty('og:image') && firstImage) addMetaTag('property', 'og:image', firstImage);
+
+      // Twitter Card for better social sharing
+      if (!document.querySelector('meta[name="twitter:card"]')) {
+        addMetaTag('name', 'twitter:card', 'summary_large_image');
+      }
+
+      console.log('[SEO-METRICS] Open Graph tags processing completed');
+
+    } catch (error) {
+      console.error('[SEO-METRICS] Error processing Open Graph tags:', error);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+namespace SEOAgentJS {
+  export async function processSchemaMarkup(): Promise<void> {
+    try {
+      console.log('[SEO-METRICS] Starting schema markup processing');
+
+      const existingSchema = document.querySelectorAll('script[type="application/ld+json"]');
+      console.log(`[SEO-METRICS] Found ${existingSchema.length} existing schema markup blocks`);
+
+      const metaDescription = document.querySelector('meta[name="description"]');
+
+      // Analyze page content for schema opportunities
+      const pageData = {
+        url: window.location.href,
+        title: document.title,
+        description: (metaDescription && metaDescription.getAttribute('content')) || '',
+        headings: Array.from(document.querySelectorAll('h1, h2, h3')).map(h => h.textContent),
+        images: Array.from(document.getElementsByTagName('img'))
+          .filter(img => !img.src.toLowerCase().endsWith('.svg'))
+          .map(img => img.src),
+        hasContactInfo: !!(document.querySelector('[itemtype*="Organization"]') ||
+          document.querySelector('address') ||
+          document.querySelector('[href^="mailto:"]') ||
+          document.querySelector('[href^="tel:"]')),
+        hasArticleContent: !!(document.querySelector('article') ||
+          document.querySelector('.post') ||
+          document.querySelector('.article') ||
+          document.querySelector('main')),
+        hasBreadcrumbs: !!(document.querySelector('.breadcrumb') ||
+          document.querySelector('[itemtype*="BreadcrumbList"]')),
+        hasProducts: !!(document.querySelector('.product') ||
+          document.querySelector('[itemtype*="Product"]')),
+        hasEvents: !!(document.querySelector('.event') ||
+          document.querySelector('[itemtype*="Event"]')),
+        hasReviews: !!(document.querySelector('.review') ||
+          document.querySelector('[itemtype*="Review"]'))
+      };
+
+      console.log('[SEO-METRICS] Page analysis for schema:', pageData);
+
+      const response = await fetch(`${runtime.functionsBase}/generate-schema-markup`, {
+        method: 'POST',
+        headers: functionHeaders(),
+        body: JSON.stringify({
+          id: runtime.websiteToken,
+          pageData: pageData,
+          existingSchemaCount: existingSchema.length
+        })
+      });
+
+      console.log(`[SEO-METRICS] Schema API response status: ${response.status}`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[SEO-METRICS] Schema API error: ${response.status} - ${errorText}`);
+        return;
+      }
+
+      const schemaData: { schemas?: any[] } = await response.json();
+      console.log('[SEO-METRICS] Schema API response:', schemaData);
+
+      const schemas = schemaData.schemas || [];
+      if (schemas.length === 0) {
+        console.log('[SEO-METRICS] No schema markup to inject');
+        return;
+      }
+
+      schemas.forEach((schema, index) => {
+        const scriptElement = document.createElement('script');
+        scriptElement.type = 'application/ld+json';
+        scriptElement.textContent = JSON.stringify(schema, null, 2);
+        scriptElement.setAttribute('data-seoagent', 'auto-generated');
+        document.head.appendChild(scriptElement);
+
+        console.log(`[SEO-METRICS] Injected schema markup ${index + 1}:`, schema['@type']);
+      });
+
+      console.log(`[SEO-METRICS] Successfully injected ${schemas.length} schema markup blocks`);
+
+      const schemaTypes = schemas.map(schema => schema['@type']);
+      await logSEOActivity(
+        'schema_markup_added',
+        `🏗️ Schema markup added`,
+        `Added ${schemas.length} structured data block${schemas.length > 1 ? 's' : ''}: ${schemaTypes.join(', ')}`,
+        {
+          schemasAdded: schemas.length,
+          schemaTypes: schemaTypes
+        },
+        {
+          pageUrl: window.location.href,
+          existingSchemas: existingSchema.length
+        }
+      );
+
+    } catch (error) {
+      console.error('[SEO-METRICS] Error processing schema markup:', error);
+    }
+  }
+}
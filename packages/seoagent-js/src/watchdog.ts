@@ -0,0 +1,395 @@
+/**
+ * SEO watchdog
+ *
+ * Keeps a baseline of the page's SEO signals, reports changes as they happen (DOM mutations,
+ * periodic checks) and sends the page's snapshot to SEOAgent, which compares it with the page's
+ * last known-good state and raises regression alerts.
+ */
+namespace SEOAgentJS {
+  interface SEOBaseline {
+    timestamp: number;
+    url: string;
+    title: string;
+    h1: string;
+    h2: string[];
+    metaDescription: string;
+    metaRobots: string;
+    canonical: string;
+    hreflang: Array<{ hreflang: string | null; href: string }>;
+    schemaCount: number;
+    schemaTypes: string[];
+    ogTags: { title: string; description: string; image: string; url: string };
+  }
+
+  interface SEOChangeDetails {
+    title: string;
+    description?: string;
+    oldValue?: string;
+    newValue?: string;
+    selector?: string;
+    metadata?: Record<string, unknown>;
+  }
+
+  // Report the page once SEOAgent's own fixes have been applied, so they count as part of it
+  const SNAPSHOT_REPORT_DELAY_MS = 8000;
+  const PERIODIC_CHECK_MS = 30000;
+
+  let seoWatchdogActive = false;
+  let seoBaseline = {} as SEOBaseline;
+  let mutationObserver: MutationObserver | null = null;
+  let watchdogCheckInterval: number | null = null;
+  let snapshotTimeout: number | null = null;
+
+  export async function initializeSEOWatchdog(): Promise<void> {
+    try {
+      if (seoWatchdogActive) {
+        console.log('[SEO-WATCHDOG] Already initialized, skipping...');
+        return;
+      }
+
+      console.log('[SEO-WATCHDOG] 🔍 Initializing SEO monitoring system...');
+      seoWatchdogActive = true;
+
+      establishSEOBaseline();
+      startDOMMutationObserver();
+      await checkIndexabilityStatus();
+      startPeriodicSEOChecks();
+
+      snapshotTimeout = window.setTimeout(() => {
+        establishSEOBaseline();
+        reportSEOSnapshot();
+      }, SNAPSHOT_REPORT_DELAY_MS);
+
+      console.log('[SEO-WATCHDOG] ✅ SEO watchdog system fully initialized');
+
+    } catch (error) {
+      console.error('[SEO-WATCHDOG] Error initializing watchdog:', error);
+    }
+  }
+
+  export function stopSEOWatchdog(): void {
+    if (!seoWatchdogActive) return;
+
+    mutationObserver?.disconnect();
+    mutationObserver = null;
+    if (watchdogCheckInterval !== null) window.clearInterval(watchdogCheckInterval);
+    if (snapshotTimeout !== null) window.clearTimeout(snapshotTimeout);
+    watchdogCheckInterval = null;
+    snapshotTimeout = null;
+    seoWatchdogActive = false;
+
+    console.log('[SEO-WATCHDOG] Stopped');
+  }
+
+  function metaContent(selector: string): string {
+    return document.querySelector(selector)?.getAttribute('content') || '';
+  }
+
+  function establishSEOBaseline(): void {
+    const schemaScripts = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
+
+    const baseline: SEOBaseline = {
+      timestamp: Date.now(),
+      url: window.location.href,
+      title: document.title || '',
+      h1: document.querySelector('h1')?.textContent || '',
+      h2: Array.from(document.querySelectorAll('h2')).map(h => h.textContent || ''),
+      metaDescription: metaContent('meta[name="description"]'),
+      metaRobots: metaContent('meta[name="robots"]'),
+      canonical: document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href || '',
+      hreflang: Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="alternate"][hreflang]')).map(link => ({
+        hreflang: link.getAttribute('hreflang'),
+        href: link.href
+      })),
+      schemaCount: schemaScripts.length,
+      schemaTypes: schemaScripts.map(script => {
+        try {
+          const schema = JSON.parse(script.textContent || '');
+          return schema['@type'] || 'Unknown';
+        } catch (e) {
+          return 'Invalid';
+        }
+      }),
+      ogTags: {
+        title: metaContent('meta[property="og:title"]'),
+        description: metaContent('meta[property="og:description"]'),
+        image: metaContent('meta[property="og:image"]'),
+        url: metaContent('meta[property="og:url"]')
+      }
+    };
+
+    try {
+      localStorage.setItem(`seoagent_baseline_${runtime.websiteToken}`, JSON.stringify(baseline));
+    } catch (e) {
+      console.warn('[SEO-WATCHDOG] Could not store baseline in localStorage:', e);
+    }
+
+    seoBaseline = baseline;
+    console.log('[SEO-WATCHDOG] ✅ Baseline established:', baseline);
+  }
+
+  function startDOMMutationObserver(): void {
+    if (mutationObserver) {
+      mutationObserver.disconnect();
+    }
+
+    mutationObserver = new MutationObserver(mutations => {
+      let criticalChange = false;
+
+      mutations.forEach(mutation => {
+        const target = mutation.target as Element;
+        const addedElements = Array.from(mutation.addedNodes).filter((node): node is Element => node.nodeType === 1);
+
+        // Title changes
+        if (target.nodeName === 'TITLE' || (target === document.head && addedElements.length > 0)) {
+          const newTitle = document.title;
+          if (newTitle !== seoBaseline.title) {
+            handleSEOChange('title_change', 'warning', 'content', {
+              title: 'Page title changed',
+              oldValue: seoBaseline.title,
+              newValue: newTitle,
+              selector: 'title'
+            });
+            seoBaseline.title = newTitle;
+            criticalChange = true;
+          }
+        }
+
+        // H1 changes
+        if (target.nodeName === 'H1' || (mutation.type === 'childList' && target.querySelector && target.querySelector('h1'))) {
+          const newH1 = document.querySelector('h1')?.textContent || '';
+          if (newH1 !== seoBaseline.h1) {
+            handleSEOChange('h1_change', 'warning', 'content', {
+              title: 'H1 heading changed',
+              oldValue: seoBaseline.h1,
+              newValue: newH1,
+              selector: 'h1'
+            });
+            seoBaseline.h1 = newH1;
+            criticalChange = true;
+          }
+        }
+
+        // Meta robots changes
+        if ((target as HTMLMetaElement).name === 'robots' || addedElements.some(node => node.getAttribute('name') === 'robots')) {
+          const newMetaRobots = metaContent('meta[name="robots"]');
+          if (newMetaRobots !== seoBaseline.metaRobots) {
+            const isNoIndex = newMetaRobots.toLowerCase().includes('noindex');
+            handleSEOChange('meta_robots_change', isNoIndex ? 'critical' : 'warning', 'indexability', {
+              title: isNoIndex ? '🚨 Page went NOINDEX!' : 'Meta robots directive changed',
+              oldValue: seoBaseline.metaRobots,
+              newValue: newMetaRobots,
+              selector: 'meta[name="robots"]'
+            });
+            seoBaseline.metaRobots = newMetaRobots;
+            criticalChange = true;
+          }
+        }
+
+        // Schema markup removal
+        if (mutation.type === 'childList' && mutation.removedNodes.length > 0) {
+          Array.from(mutation.removedNodes).forEach(node => {
+            if ((node as HTMLScriptElement).type === 'application/ld+json') {
+              handleSEOChange('schema_removed', 'warning', 'technical', {
+                title: 'Schema markup was removed',
+                oldValue: 'Schema script present',
+                newValue: 'Schema script removed',
+                selector: 'script[type="application/ld+json"]'
+              });
+              criticalChange = true;
+            }
+          });
+        }
+
+        // Canonical changes
+        if ((target as HTMLLinkElement).rel === 'canonical' || addedElements.some(node => (node as HTMLLinkElement).rel === 'canonical')) {
+          const newCanonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href || '';
+          if (newCanonical !== seoBaseline.canonical) {
+            handleSEOChange('canonical_change', 'warning', 'technical', {
+              title: 'Canonical URL changed',
+              oldValue: seoBaseline.canonical,
+              newValue: newCanonical,
+              selector: 'link[rel="canonical"]'
+            });
+            seoBaseline.canonical = newCanonical;
+            criticalChange = true;
+          }
+        }
+      });
+
+      // If we detected critical changes, also check indexability
+      if (criticalChange) {
+        setTimeout(() => checkIndexabilityStatus(), 1000);
+      }
+    });
+
+    mutationObserver.observe(document, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeOldValue: true,
+      characterData: true,
+      characterDataOldValue: true
+    });
+
+    console.log('[SEO-WATCHDOG] ✅ DOM mutation observer active');
+  }
+
+  async function checkIndexabilityStatus(): Promise<void> {
+    try {
+      const metaRobots = metaContent('meta[name="robots"]');
+      const hasNoIndex = metaRobots.toLowerCase().includes('noindex');
+
+      if (hasNoIndex && !seoBaseline.metaRobots.toLowerCase().includes('noindex')) {
+        handleSEOChange('noindex_detected', 'critical', 'indexability', {
+          title: '🚨 CRITICAL: Page is NOINDEX!',
+          description: 'This page cannot be indexed by search engines',
+          newValue: metaRobots,
+          selector: 'meta[name="robots"]'
+        });
+      }
+
+      // Canonical consistency
+      const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href || '';
+      if (canonical && canonical !== window.location.href) {
+        const canonicalUrl = new URL(canonical);
+        const pageUrl = new URL(window.location.href);
+
+        // Significantly different, not just protocol or trailing slash
+        if (canonicalUrl.hostname !== pageUrl.hostname || canonicalUrl.pathname.replace(/\/$/, '') !== pageUrl.pathname.replace(/\/$/, '')) {
+          handleSEOChange('canonical_mismatch', 'warning', 'technical', {
+            title: 'Canonical URL points to different page',
+            description: 'Current page canonical points to a different URL',
+            oldValue: window.location.href,
+            newValue: canonical,
+            selector: 'link[rel="canonical"]'
+          });
+        }
+      }
+
+      // Backend robots status for more detailed analysis
+      try {
+        const response = await fetch(`${runtime.apiBase}/api/gsc/robots-status?userToken=${encodeURIComponent(runtime.websiteToken)}&siteUrl=${encodeURIComponent(window.location.origin)}`);
+
+        if (response.ok) {
+          const robotsData = await response.json();
+          if (robotsData.robots_txt_issues && robotsData.robots_txt_issues.length > 0) {
+            handleSEOChange('robots_txt_issue', 'warning', 'indexability', {
+              title: 'Robots.txt issues detected',
+              description: robotsData.robots_txt_issues.join(', '),
+              metadata: { robotsData }
+            });
+          }
+        }
+      } catch (e) {
+        console.warn('[SEO-WATCHDOG] Could not fetch robots status from backend:', e);
+      }
+
+    } catch (error) {
+      console.error('[SEO-WATCHDOG] Error checking indexability:', error);
+    }
+  }
+
+  function startPeriodicSEOChecks(): void {
+    // Catch changes the MutationObserver missed
+    watchdogCheckInterval = window.setInterval(() => {
+      const currentTitle = document.title;
+      const currentH1 = document.querySelector('h1')?.textContent || '';
+      const currentMetaRobots = metaContent('meta[name="robots"]');
+
+      if (currentTitle !== seoBaseline.title ||
+        currentH1 !== seoBaseline.h1 ||
+        currentMetaRobots !== seoBaseline.metaRobots) {
+
+        console.log('[SEO-WATCHDOG] 🔍 Detected changes in periodic check, re-establishing baseline...');
+        establishSEOBaseline();
+        reportSEOSnapshot();
+      }
+    }, PERIODIC_CHECK_MS);
+  }
+
+  // SEOAgent compares the snapshot with the page's last known-good state and raises alerts
+  // for regressions (new noindex, off-site canonical, removed H1, dropped schema)
+  async function reportSEOSnapshot(): Promise<void> {
+    try {
+      await fetch(`${runtime.apiBase}/api/tools/seo-watchdog-report`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          website_token: runtime.websiteToken,
+          version: VERSION,
+          snapshot: {
+            url: window.location.href,
+            title: seoBaseline.title,
+            h1: seoBaseline.h1,
+            metaDescription: seoBaseline.metaDescription,
+            metaRobots: seoBaseline.metaRobots,
+            canonical: seoBaseline.canonical,
+            hreflang: seoBaseline.hreflang,
+            schemaTypes: seoBaseline.schemaTypes,
+            ogTags: seoBaseline.ogTags
+          }
+        })
+      });
+    } catch (error) {
+      console.warn('[SEO-WATCHDOG] Could not report page snapshot:', error);
+    }
+  }
+
+  async function handleSEOChange(eventType: string, severity: 'critical' | 'warning' | 'info', category: string, details: SEOChangeDetails): Promise<void> {
+    console.log(`[SEO-WATCHDOG] ${severity.toUpperCase()}: ${eventType}`, details);
+
+    const event = {
+      user_token: runtime.websiteToken,
+      site_url: window.location.origin,
+      page_url: window.location.href,
+      event_type: eventType,
+      severity: severity,
+      category: category,
+      title: details.title,
+      description: details.description || '',
+      old_value: details.oldValue || null,
+      new_value: details.newValue || null,
+      source: 'watchdog',
+      metadata: {
+        selector: details.selector || null,
+        userAgent: navigator.userAgent,
+        timestamp: Date.now(),
+        version: VERSION,
+        ...details.metadata
+      }
+    };
+
+    try {
+      await fetch(`${runtime.apiBase}/api/tools/seo-alert`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(event)
+      });
+    } catch (error) {
+      console.warn('[SEO-WATCHDOG] Could not send event to backend:', error);
+    }
+
+    // Store locally as backup, keeping the last 50 events
+    try {
+      const storageKey = `seoagent_events_${runtime.websiteToken}`;
+      const existingEvents = JSON.parse(localStorage.getItem(storageKey) || '[]');
+      existingEvents.push(event);
+      if (existingEvents.length > 50) {
+        existingEvents.splice(0, existingEvents.length - 50);
+      }
+      localStorage.setItem(storageKey, JSON.stringify(existingEvents));
+    } catch (e) {
+      console.warn('[SEO-WATCHDOG] Could not store event locally:', e);
+    }
+
+    if (severity === 'critical') {
+      console.warn(`🚨 CRITICAL SEO ISSUE DETECTED: ${details.title}`);
+      console.warn('Details:', details);
+    }
+  }
+}
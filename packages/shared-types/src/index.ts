@@ -170,11 +170,20 @@ export interface ArticleQueue {
   updated_at: string
 }
 
+export type ArticleVersionSource = 'generation' | 'manual_edit' | 'link_injection' | 'cms_edit' | 'refresh' | 'restore' | 'review_revision' | 'translation' | 'snapshot'
+
 export interface ArticleVersion {
-  id: number
-  article_id: number
+  id: string
+  article_queue_id: number
   version_number: number
-  content: string
+  title: string | null
+  meta_title: string | null
+  meta_description: string | null
+  article_content: string | null
+  content_hash: string | null
+  source: ArticleVersionSource
+  reason: string | null
+  created_by: string | null
   created_at: string
 }
 
@@ -1,6 +1,6 @@
 // Worker entrypoint for Railway (or any long-running Node environment)
 // Required environment variables:
-//   ENABLE_REDIS_QUEUES=true
+//   ENABLE_REDIS_QUEUES=true (or QUEUE_BACKEND=database to drain queue_jobs instead)
 //   START_WORKERS=true
 //   START_EVENTS=true (only on ONE instance - the "leader")
 //   REDIS_URL=rediss://...
@@ -12,13 +12,15 @@ import { queueManager } from '../../../src/services/queue/queue-manager';
 console.log('[WORKER] Starting SEOAgent background worker...');
 console.log('[WORKER] Configuration:');
 console.log('[WORKER]   ENABLE_REDIS_QUEUES:', process.env.ENABLE_REDIS_QUEUES);
+console.log('[WORKER]   Queue backend:', queueManager.backendName);
 console.log('[WORKER]   START_WORKERS:', process.env.START_WORKERS);
 console.log('[WORKER]   START_EVENTS:', process.env.START_EVENTS);
 console.log('[WORKER]   REDIS_URL:', process.env.REDIS_URL ? '✓ Set' : '✗ Missing');
 
-// Only start workers if Redis is explicitly enabled
-if (process.env.ENABLE_REDIS_QUEUES !== 'true') {
-  console.log('[WORKER] ❌ Redis queues disabled. Set ENABLE_REDIS_QUEUES=true to enable.');
+// Without Redis the worker can still drain the database-backed queue (queue_jobs)
+if (queueManager.backendName === 'memory') {
+  console.log('[WORKER] ❌ In-memory queue backend selected; a separate worker cannot see its jobs.');
+  console.log('[WORKER] Set ENABLE_REDIS_QUEUES=true or QUEUE_BACKEND=database.');
   console.log('[WORKER] Exiting gracefully...');
   process.exit(0);
 }
@@ -26,7 +26,8 @@ import {
   XCircle,
   Clock,
   Gift,
-  X
+  X,
+  Layers
 } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
@@ -41,12 +42,12 @@ export default function AdminDashboard() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2">SEOAgent Admin Dashboard</h1>
         <p className="text-muted-foreground">
-          Monitor users, conversations, connections, and publishing activities
+          Monitor users, conversations, connections, publishing activities, and job queues
         </p>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="users" className="flex items-center gap-2">
             <Users className="h-4 w-4" />
             Users
@@ -63,6 +64,10 @@ export default function AdminDashboard() {
             <FileText className="h-4 w-4" />
             Publishing
           </TabsTrigger>
+          <TabsTrigger value="queues" className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Queues
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="mt-6">
@@ -80,6 +85,10 @@ export default function AdminDashboard() {
         <TabsContent value="publishing" className="mt-6">
           <PublishingView />
         </TabsContent>
+
+        <TabsContent value="queues" className="mt-6">
+          <QueuesView />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -830,3 +839,395 @@ function PublishingView() {
     </div>
   );
 }
+
+// Queues View Component
+function QueuesView() {
+  const [metrics, setMetrics] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedQueue, setSelectedQueue] = useState<string>('agent-actions');
+  const [statusFilter, setStatusFilter] = useState<string>('failed');
+  const [jobs, setJobs] = useState<any[]>([]);
+  const [deadLetters, setDeadLetters] = useState<any[]>([]);
+  const [selectedJob, setSelectedJob] = useState<any>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const fetchMetrics = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/queues');
+      const data = await response.json();
+      if (data.success) {
+        setMetrics(data);
+      }
+    } catch (error) {
+      console.error('Error fetching queue metrics:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchJobs = async () => {
+    try {
+      if (statusFilter === 'dead') {
+        const response = await fetch(`/api/admin/queues/dead-letters?queue=${selectedQueue}`);
+        const data = await response.json();
+        if (data.success) setDeadLetters(data.deadLetters);
+      } else {
+        const params = new URLSearchParams({ queue: selectedQueue, status: statusFilter });
+        const response = await fetch(`/api/admin/queues/jobs?${params}`);
+        const data = await response.json();
+        if (data.success) setJobs(data.jobs);
+      }
+    } catch (error) {
+      console.error('Error fetching queue jobs:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchMetrics();
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [selectedQueue, statusFilter]);
+
+  const refresh = () => {
+    fetchMetrics();
+    fetchJobs();
+  };
+
+  const handleJobAction = async (jobId: string, action: 'retry' | 'cancel' | 'promote') => {
+    setBusy(jobId);
+    try {
+      const response = await fetch('/api/admin/queues/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ queue: selectedQueue, jobId, action })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.error || `Failed to ${action} job`);
+      }
+      setSelectedJob(null);
+      refresh();
+    } catch (error) {
+      console.error(`Error running ${action}:`, error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDeadLetterAction = async (id: string, action: 'requeue' | 'discard') => {
+    setBusy(id);
+    try {
+      const response = await fetch('/api/admin/queues/dead-letters', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.error || `Failed to ${action} dead letter`);
+      }
+      refresh();
+    } catch (error) {
+      console.error(`Error running ${action}:`, error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const formatDuration = (ms: number | null) => {
+    if (ms === null || ms === undefined) return '—';
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+    return `${(ms / 60000).toFixed(1)}m`;
+  };
+
+  const getStatusBadge = (status: string) => {
+    const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+      waiting: 'secondary',
+      delayed: 'outline',
+      active: 'default',
+      completed: 'default',
+      failed: 'destructive'
+    };
+    return <Badge variant={variants[status] || 'secondary'}>{status}</Badge>;
+  };
+
+  if (loading && !metrics) {
+    return <div className="flex items-center justify-center p-12">Loading queue metrics...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">Backend</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{metrics?.backend}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">Queued</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{metrics?.totals?.depth}</div>
+            <p className="text-xs text-muted-foreground">{metrics?.totals?.active} running</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">Stuck</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${metrics?.totals?.stuck ? 'text-yellow-600' : ''}`}>{metrics?.totals?.stuck}</div>
+            <p className="text-xs text-muted-foreground">Active &gt; 10 minutes</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">Dead Letters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-500">{metrics?.totals?.deadLetters}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Queues</CardTitle>
+              <CardDescription>Metrics over the last {metrics?.windowMinutes} minutes</CardDescription>
+            </div>
+            <Button onClick={refresh} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queue</TableHead>
+                <TableHead>Depth</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Throughput / h</TableHead>
+                <TableHead>Failure Rate</TableHead>
+                <TableHead>p95 Duration</TableHead>
+                <TableHead>Stuck</TableHead>
+                <TableHead>Dead Letters</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(metrics?.queues || []).map((queue: any) => (
+                <TableRow
+                  key={queue.queueName}
+                  className={`cursor-pointer ${queue.queueName === selectedQueue ? 'bg-muted' : ''}`}
+                  onClick={() => setSelectedQueue(queue.queueName)}
+                >
+                  <TableCell className="font-medium">{queue.queueName}</TableCell>
+                  <TableCell>
+                    {queue.depth}
+                    {queue.counts.delayed > 0 && (
+                      <span className="text-xs text-muted-foreground ml-1">({queue.counts.delayed} delayed)</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{queue.counts.active}</TableCell>
+                  <TableCell>{queue.throughputPerHour}</TableCell>
+                  <TableCell className={queue.failureRate > 0.1 ? 'text-red-500' : ''}>
+                    {(queue.failureRate * 100).toFixed(1)}%
+                  </TableCell>
+                  <TableCell>{formatDuration(queue.p95DurationMs)}</TableCell>
+                  <TableCell className={queue.stuck.length > 0 ? 'text-yellow-600 font-medium' : ''}>
+                    {queue.stuck.length}
+                  </TableCell>
+                  <TableCell className={queue.deadLetters > 0 ? 'text-red-500 font-medium' : ''}>
+                    {queue.deadLetters}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>{selectedQueue}</CardTitle>
+              <CardDescription>Inspect and control jobs</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {['waiting', 'delayed', 'active', 'failed', 'completed', 'dead'].map(status => (
+                <Button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  variant={statusFilter === status ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  {status === 'dead' ? 'Dead Letters' : status.charAt(0).toUpperCase() + status.slice(1)}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {statusFilter === 'dead' ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deadLetters.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium max-w-xs">
+                      <div className="truncate">{entry.job_name}</div>
+                      <div className="text-xs text-muted-foreground truncate">{entry.job_id}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-red-500 max-w-sm">
+                      <div className="truncate">{entry.error}</div>
+                    </TableCell>
+                    <TableCell>{entry.attempts_made}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(entry.failed_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" disabled={busy === entry.id} onClick={() => handleDeadLetterAction(entry.id, 'requeue')}>
+                          Requeue
+                        </Button>
+                        <Button size="sm" variant="ghost" disabled={busy === entry.id} onClick={() => handleDeadLetterAction(entry.id, 'discard')}>
+                          Discard
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {deadLetters.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No dead letters</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="font-medium max-w-xs">
+                      <button className="truncate text-left hover:underline" onClick={() => setSelectedJob(job)}>
+                        {job.name}
+                      </button>
+                      <div className="text-xs text-muted-foreground truncate">{job.id}</div>
+                    </TableCell>
+                    <TableCell>{getStatusBadge(job.status)}</TableCell>
+                    <TableCell>{job.attemptsMade}/{job.maxAttempts}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {job.createdAt ? new Date(job.createdAt).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm text-red-500 max-w-xs">
+                      <div className="truncate">{job.error}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        {job.status === 'failed' && (
+                          <Button size="sm" variant="outline" disabled={busy === job.id} onClick={() => handleJobAction(job.id, 'retry')}>
+                            Retry
+                          </Button>
+                        )}
+                        {job.status === 'delayed' && (
+                          <Button size="sm" variant="outline" disabled={busy === job.id} onClick={() => handleJobAction(job.id, 'promote')}>
+                            Run Now
+                          </Button>
+                        )}
+                        {(job.status === 'waiting' || job.status === 'delayed') && (
+                          <Button size="sm" variant="ghost" disabled={busy === job.id} onClick={() => handleJobAction(job.id, 'cancel')}>
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {jobs.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">No {statusFilter} jobs</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedJob} onOpenChange={(open) => !open && setSelectedJob(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedJob?.name}</DialogTitle>
+            <DialogDescription>{selectedJob?.queueName} · {selectedJob?.id}</DialogDescription>
+          </DialogHeader>
+          {selectedJob && (
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              <div className="flex items-center gap-4 text-sm">
+                {getStatusBadge(selectedJob.status)}
+                <span>Attempts: {selectedJob.attemptsMade}/{selectedJob.maxAttempts}</span>
+                {selectedJob.processedAt && selectedJob.finishedAt && (
+                  <span>
+                    Duration: {formatDuration(new Date(selectedJob.finishedAt).getTime() - new Date(selectedJob.processedAt).getTime())}
+                  </span>
+                )}
+              </div>
+              {selectedJob.error && (
+                <div>
+                  <Label>Error</Label>
+                  <pre className="mt-1 text-xs bg-red-50 dark:bg-red-950 text-red-600 p-3 rounded whitespace-pre-wrap">{selectedJob.error}</pre>
+                </div>
+              )}
+              {selectedJob.result?.stats && (
+                <div>
+                  <Label>Stats</Label>
+                  <pre className="mt-1 text-xs bg-muted p-3 rounded overflow-x-auto">{JSON.stringify(selectedJob.result.stats, null, 2)}</pre>
+                </div>
+              )}
+              <div>
+                <Label>Payload</Label>
+                <pre className="mt-1 text-xs bg-muted p-3 rounded overflow-x-auto">{JSON.stringify(selectedJob.data, null, 2)}</pre>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {selectedJob?.status === 'failed' && (
+              <Button disabled={busy === selectedJob.id} onClick={() => handleJobAction(selectedJob.id, 'retry')}>Retry</Button>
+            )}
+            <Button variant="outline" onClick={() => setSelectedJob(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
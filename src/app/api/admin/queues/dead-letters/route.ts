@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QueueMonitor, DeadLetterStatus } from '@/services/queue/queue-monitor';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Jobs that exhausted their retries
+ * GET /api/admin/queues/dead-letters?queue=cms-publishing&status=dead&limit=50&offset=0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const queue = searchParams.get('queue');
+    const status = (searchParams.get('status') || 'dead') as DeadLetterStatus;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 100);
+    const offset = parseInt(searchParams.get('offset') || '0') || 0;
+
+    if (queue && !QueueMonitor.isKnownQueue(queue)) {
+      return NextResponse.json({ success: false, error: 'Unknown queue' }, { status: 400 });
+    }
+
+    if (!['dead', 'requeued', 'discarded'].includes(status)) {
+      return NextResponse.json({ success: false, error: 'status must be dead, requeued or discarded' }, { status: 400 });
+    }
+
+    const { deadLetters, total } = await QueueMonitor.listDeadLetters({
+      queueName: queue || undefined,
+      status,
+      limit,
+      offset
+    });
+
+    return NextResponse.json({
+      success: true,
+      deadLetters,
+      pagination: { total, offset, limit, has_more: offset + deadLetters.length < total }
+    });
+  } catch (error: any) {
+    console.error('[ADMIN DEAD LETTERS] Get error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to get dead letters' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Requeue a dead letter as a new job, or discard it
+ * POST /api/admin/queues/dead-letters { id, action: 'requeue' | 'discard', resolvedBy? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, action, resolvedBy } = body;
+
+    if (!id || !action) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: id, action' },
+        { status: 400 }
+      );
+    }
+
+    if (action !== 'requeue' && action !== 'discard') {
+      return NextResponse.json({ success: false, error: 'action must be requeue or discard' }, { status: 400 });
+    }
+
+    const result = action === 'requeue'
+      ? await QueueMonitor.requeueDeadLetter(id, resolvedBy)
+      : await QueueMonitor.discardDeadLetter(id, resolvedBy);
+
+    if (!result.success) {
+      const status = result.error === 'Dead letter not found' ? 404 : 409;
+      return NextResponse.json({ success: false, error: result.error }, { status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('[ADMIN DEAD LETTERS] Action error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update dead letter' },
+      { status: 500 }
+    );
+  }
+}
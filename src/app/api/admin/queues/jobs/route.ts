@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queueManager } from '@/services/queue/queue-manager';
+import { QueueMonitor } from '@/services/queue/queue-monitor';
+import { QueueJobStatus } from '@/services/queue/queue-backend';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const JOB_STATUSES: QueueJobStatus[] = ['waiting', 'delayed', 'active', 'completed', 'failed'];
+
+/**
+ * List jobs in a queue, or inspect one job (payload, JobResult.stats, error)
+ * GET /api/admin/queues/jobs?queue=agent-actions&status=failed&limit=50&offset=0
+ * GET /api/admin/queues/jobs?queue=agent-actions&jobId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const queue = searchParams.get('queue');
+    const jobId = searchParams.get('jobId');
+
+    if (!QueueMonitor.isKnownQueue(queue)) {
+      return NextResponse.json(
+        { success: false, error: `queue must be one of: ${QueueMonitor.QUEUE_NAMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (jobId) {
+      const job = await queueManager.getJobStatus(jobId, queue);
+      if (!job) {
+        return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, job, stats: job.result?.stats || null });
+    }
+
+    const statusParam = searchParams.get('status');
+    const statuses = statusParam
+      ? statusParam.split(',').filter((s): s is QueueJobStatus => JOB_STATUSES.includes(s as QueueJobStatus))
+      : JOB_STATUSES;
+
+    if (statuses.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 100);
+    const offset = parseInt(searchParams.get('offset') || '0') || 0;
+
+    const jobs = await queueManager.listJobs(queue, statuses, offset, limit);
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      pagination: { offset, limit, has_more: jobs.length === limit }
+    });
+  } catch (error: any) {
+    console.error('[ADMIN QUEUE JOBS] Get error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to get queue jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Job control: retry a failed job, cancel a job that has not started, promote a delayed job
+ * POST /api/admin/queues/jobs { queue, jobId, action: 'retry' | 'cancel' | 'promote', resolvedBy? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { queue, jobId, action, resolvedBy } = body;
+
+    if (!queue || !jobId || !action) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: queue, jobId, action' },
+        { status: 400 }
+      );
+    }
+
+    if (!QueueMonitor.isKnownQueue(queue)) {
+      return NextResponse.json({ success: false, error: 'Unknown queue' }, { status: 400 });
+    }
+
+    let done: boolean;
+    let conflict: string;
+    switch (action) {
+      case 'retry':
+        done = await QueueMonitor.retryJob(queue, jobId, resolvedBy);
+        conflict = 'Only failed jobs can be retried';
+        break;
+      case 'cancel':
+        done = await queueManager.cancelJob(queue, jobId);
+        conflict = 'Only jobs that have not started can be cancelled';
+        break;
+      case 'promote':
+        done = await queueManager.promoteJob(queue, jobId);
+        conflict = 'Only delayed jobs can be promoted';
+        break;
+      default:
+        return NextResponse.json(
+          { success: false, error: 'action must be retry, cancel or promote' },
+          { status: 400 }
+        );
+    }
+
+    if (!done) {
+      const job = await queueManager.getJobStatus(jobId, queue);
+      return job
+        ? NextResponse.json({ success: false, error: `${conflict} (job is ${job.status})` }, { status: 409 })
+        : NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+    }
+
+    console.log(`[ADMIN QUEUE JOBS] ${action} ${queue}/${jobId}${resolvedBy ? ` by ${resolvedBy}` : ''}`);
+    const messages: Record<string, string> = { retry: 'Job retried', cancel: 'Job cancelled', promote: 'Job promoted' };
+    return NextResponse.json({ success: true, message: messages[action] });
+  } catch (error: any) {
+    console.error('[ADMIN QUEUE JOBS] Action error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to update job' },
+      { status: 500 }
+    );
+  }
+}
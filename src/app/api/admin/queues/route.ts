@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queueManager } from '@/services/queue/queue-manager';
+import { QueueMonitor } from '@/services/queue/queue-monitor';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Per-queue metrics: depth, throughput, failure rate, p95 duration, stuck jobs, dead letters
+ * GET /api/admin/queues?windowMinutes=60
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const windowMinutes = Math.min(Math.max(parseInt(searchParams.get('windowMinutes') || '60') || 60, 5), 24 * 60);
+
+    const queues = await QueueMonitor.getAllMetrics(windowMinutes * 60 * 1000);
+
+    return NextResponse.json({
+      success: true,
+      backend: queueManager.backendName,
+      windowMinutes,
+      queues,
+      totals: {
+        depth: queues.reduce((sum, q) => sum + q.depth, 0),
+        active: queues.reduce((sum, q) => sum + q.counts.active, 0),
+        stuck: queues.reduce((sum, q) => sum + q.stuck.length, 0),
+        deadLetters: queues.reduce((sum, q) => sum + q.deadLetters, 0)
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('[ADMIN QUEUES] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to get queue metrics' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { queueManager } from '@/services/queue/queue-manager';
+import { PolicyEngine } from '@/services/agent/policy-engine';
 
 export const dynamic = 'force-dynamic';
 
@@ -225,12 +226,46 @@ export async function PUT(request: NextRequest) {
     // Queue for execution if requested
     if (queueForExecution && updatedAction.status === 'queued') {
       try {
+        // Actions the policy flags for approval wait in the approval inbox instead of the queue
+        const context = {
+          actionId,
+          actionType: updatedAction.action_type,
+          userToken,
+          siteUrl: updatedAction.site_url,
+          payload: updatedAction.payload || {}
+        };
+        const validation = await PolicyEngine.validatePolicy(context, updatedAction.policy || {});
+
+        if (!validation.allowed || validation.approvalRequired) {
+          await supabase
+            .from('agent_actions')
+            .update({ status: 'proposed', updated_at: new Date().toISOString() })
+            .eq('id', actionId);
+
+          if (!validation.allowed) {
+            return NextResponse.json({
+              error: validation.reason || 'Action not allowed by policy',
+              deferUntil: validation.deferUntil
+            }, { status: 403 });
+          }
+
+          const approvalId = await PolicyEngine.createApprovalRequest(context, validation.adjustedPolicy!);
+
+          return NextResponse.json({
+            success: true,
+            action: { ...updatedAction, status: 'proposed' },
+            approvalRequired: true,
+            approvalId,
+            message: `Action "${updatedAction.title}" is waiting for approval`
+          });
+        }
+
         const jobId = await queueManager.queueAction(
           actionId,
           userToken,
           updatedAction.action_type,
           updatedAction.payload,
-          updatedAction.policy,
+          validation.adjustedPolicy!,
           {
             priority: updatedAction.priority_score,
             delay: updatedAction.scheduled_for ? 
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { ApprovalService, ApprovalStatus } from '@/services/agent/approval-service';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Returns the user's email (recorded as the approver), or null for an invalid token
+async function getUserEmail(userToken: string | null): Promise<string | null> {
+  if (!userToken) return null;
+  const { data: user, error } = await supabase
+    .from('login_users')
+    .select('email')
+    .eq('token', userToken)
+    .single();
+  return !error && user ? user.email : null;
+}
+
+// GET /api/agent/approvals - List approval requests (pending by default)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const siteUrl = searchParams.get('siteUrl') || undefined;
+    const status = (searchParams.get('status') || 'pending') as ApprovalStatus | 'all';
+    const limit = parseInt(searchParams.get('limit') || '50');
+
+    if (!(await getUserEmail(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const approvals = await ApprovalService.listApprovals(userToken!, { siteUrl, status, limit });
+
+    return NextResponse.json({ success: true, approvals, count: approvals.length });
+
+  } catch (error) {
+    console.error('[AGENT APPROVALS] Unexpected error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list approvals' }, { status: 500 });
+  }
+}
+
+// POST /api/agent/approvals - Approve (optionally with an edited payload) or reject a request
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userToken, approvalId, decision, note, payload } = body;
+
+    if (!approvalId || !['approve', 'reject'].includes(decision)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: approvalId, decision (approve | reject)' },
+        { status: 400 }
+      );
+    }
+
+    if (payload !== undefined && (typeof payload !== 'object' || payload === null || Array.isArray(payload))) {
+      return NextResponse.json({ success: false, error: 'payload must be an object' }, { status: 400 });
+    }
+
+    const email = await getUserEmail(userToken);
+    if (!email) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const details = { userToken, decidedBy: email, note, payload };
+    const result = decision === 'approve'
+      ? await ApprovalService.approve(approvalId, details)
+      : await ApprovalService.reject(approvalId, details);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error, result }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: decision === 'reject'
+        ? 'Action rejected'
+        : result.deferredUntil
+          ? `Action approved; it runs when quiet hours end (${result.deferredUntil})`
+          : 'Action approved and queued'
+    });
+
+  } catch (error) {
+    console.error('[AGENT APPROVALS] Unexpected error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to record decision' }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
-import { FunctionCaller } from '@/services/chat/function-caller';
+import { FunctionCaller, type ToolProgressUpdate } from '@/services/chat/function-caller';
 import { getFunctionSchemas, validateFunctionArgs } from '@/services/chat/function-schemas';
 import { getPromptManager } from '@/prompts';
 import { parseValidationError, buildErrorSummaryForLLM, shouldAutoRetry, getAutoRetryAction } from '@/services/chat/error-parser';
+import { createChatEventStream, collectStreamedCompletion, type ChatStreamEmitter } from '@/services/chat/chat-stream';
 
 // Force Node.js runtime and prevent build-time environment variable inlining
 export const runtime = 'nodejs';
@@ -95,7 +96,7 @@ function getOrCreateConversationId(conversationHistory?: any[]): string {
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, userToken, selectedSite, websiteToken: clientWebsiteToken, conversationHistory, conversationId: clientConversationId } = await request.json();
+    const { message, userToken, selectedSite, websiteToken: clientWebsiteToken, conversationHistory, conversationId: clientConversationId, stream } = await request.json();
 
     if (!userToken || !message) {
       return NextResponse.json(
@@ -212,262 +213,316 @@ export async function POST(request: NextRequest) {
       { role: 'user', content: message.trim() }
     ];
 
-    // Get function schemas
-    const functionSchemas = getFunctionSchemas();
+    const turn: AgentTurn = {
+      openai,
+      functionCaller,
+      messages,
+      message,
+      userToken,
+      selectedSite,
+      websiteToken,
+      conversationId,
+      clientConversationId,
+      assistantMessageOrder
+    };
+
+    // Server-sent events: tokens and tool progress while the turn runs, then the usual body
+    if (stream) {
+      return createChatEventStream(async (emit) => {
+        try {
+          emit({ type: 'done', response: await runAgentTurn(turn, emit) });
+        } catch (error) {
+          const response = describeChatError(error);
+          emit({ type: 'error', message: response.message });
+          emit({ type: 'done', response });
+        }
+      });
+    }
 
-    // Multi-turn tool execution loop
-    let toolResults: Record<string, any> = {};
-    let guard = 0;
-    const MAX_TOOL_STEPS = 3; // Reduced for chat responsiveness
+    return NextResponse.json(await runAgentTurn(turn));
 
-    while (guard++ < MAX_TOOL_STEPS) {
-      // Log prompt details
-      try {
-        const preview = messages.map((m: any) => ({ role: m.role, content: String(m.content).slice(0, 300) })).slice(-4);
-        console.log(`[AGENT CHAT][LLM] step=${guard}/${MAX_TOOL_STEPS} model=gpt-4o-mini messages=${messages.length} preview=`, preview);
-      } catch {}
+  } catch (error) {
+    return NextResponse.json(describeChatError(error));
+  }
+}
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini', // Use mini for faster chat responses
-        messages,
-        tools: functionSchemas.map(func => ({
-          type: 'function' as const,
-          function: func
-        })),
-        tool_choice: 'auto',
-        temperature: 0.4,
-        max_tokens: 800
-      });
+interface AgentTurn {
+  openai: OpenAI;
+  functionCaller: FunctionCaller;
+  messages: any[];
+  message: string;
+  userToken: string;
+  selectedSite: string;
+  websiteToken: string;
+  conversationId: string;
+  clientConversationId?: string;
+  assistantMessageOrder: number;
+}
+
+// Run the model and its tool calls for one user message; emit is set when the client streams
+async function runAgentTurn(turn: AgentTurn, emit?: ChatStreamEmitter) {
+  const { openai, functionCaller, messages, message, userToken, selectedSite, websiteToken, conversationId, clientConversationId, assistantMessageOrder } = turn;
+  const conversationData = { conversationId, websiteToken, messageOrder: assistantMessageOrder };
+
+  // Get function schemas
+  const functionSchemas = getFunctionSchemas();
+
+  // Multi-turn tool execution loop
+  let toolResults: Record<string, any> = {};
+  let guard = 0;
+  const MAX_TOOL_STEPS = 3; // Reduced for chat responsiveness
+
+  while (guard++ < MAX_TOOL_STEPS) {
+    // Log prompt details
+    try {
+      const preview = messages.map((m: any) => ({ role: m.role, content: String(m.content).slice(0, 300) })).slice(-4);
+      console.log(`[AGENT CHAT][LLM] step=${guard}/${MAX_TOOL_STEPS} model=gpt-4o-mini messages=${messages.length} preview=`, preview);
+    } catch {}
+
+    const completionParams = {
+      model: 'gpt-4o-mini', // Use mini for faster chat responses
+      messages,
+      tools: functionSchemas.map(func => ({
+        type: 'function' as const,
+        function: func
+      })),
+      tool_choice: 'auto' as const,
+      temperature: 0.4,
+      max_tokens: 800
+    };
+
+    let messageContent: OpenAI.Chat.Completions.ChatCompletionMessage;
+    if (emit) {
+      const streamed = await collectStreamedCompletion(openai, completionParams, emit);
+      messageContent = streamed.message;
+      console.log('[AGENT CHAT][LLM] finish_reason=', streamed.finishReason || 'n/a', '(streamed)');
+    } else {
+      const response = await openai.chat.completions.create(completionParams);
 
       try {
         const usage: any = (response as any).usage || {};
         console.log('[AGENT CHAT][LLM] finish_reason=', response.choices?.[0]?.finish_reason || 'n/a', 'usage=', usage);
       } catch {}
 
-      const choice = response.choices[0];
-      const messageContent = choice.message;
+      messageContent = response.choices[0].message;
+    }
 
-      // If no tool calls, we're done
-      if (!messageContent.tool_calls?.length) {
-        const finalResponse = {
-          content: messageContent.content || 'I can help you with SEO tasks. What would you like me to do?',
-          toolResults,
-          steps: guard - 1
-        };
+    // If no tool calls, we're done
+    if (!messageContent.tool_calls?.length) {
+      const finalResponse = {
+        content: messageContent.content || 'I can help you with SEO tasks. What would you like me to do?',
+        toolResults,
+        steps: guard - 1
+      };
 
-        // Process the response
-        const processedResponse = await processOpenAIResponse(
-          finalResponse,
-          userToken,
-          selectedSite,
-          {
-            conversationId,
-            websiteToken,
-            messageOrder: assistantMessageOrder
-          }
-        );
-        return NextResponse.json(processedResponse);
+      // Process the response
+      return await processOpenAIResponse(finalResponse, userToken, selectedSite, conversationData);
+    }
+
+    // Add conversational response before function execution
+    let conversationalResponse = '';
+    const firstToolCall = messageContent.tool_calls[0];
+    if (firstToolCall?.function?.name) {
+      conversationalResponse = getConversationalResponse(firstToolCall.function.name, message);
+    }
+
+    // First, add the assistant message with tool_calls
+    messages.push({
+      role: 'assistant',
+      content: messageContent.content || '',
+      tool_calls: messageContent.tool_calls
+    } as any);
+
+    // Then execute all tool calls and add responses
+    const executedToolCalls: Array<{ name: string; arguments: any; id: string } > = [];
+    await Promise.all(messageContent.tool_calls.map(async (toolCall) => {
+      if (toolCall.type !== 'function') return;
+      
+      const functionName = toolCall.function.name;
+      let functionArgs: any;
+      
+      try {
+        functionArgs = JSON.parse(toolCall.function.arguments || '{}');
+      } catch (error) {
+        console.error('[AGENT CHAT] Invalid function arguments:', error);
+        toolResults[toolCall.id] = { 
+          success: false, 
+          error: 'Invalid function arguments' 
+        };
+        emit?.({ type: 'error', toolCallId: toolCall.id, message: `Invalid arguments for ${getFunctionDisplayName(functionName)}` });
+        return;
       }
 
-      // Add conversational response before function execution
-      let conversationalResponse = '';
-      const firstToolCall = messageContent.tool_calls[0];
-      if (firstToolCall?.function?.name) {
-        conversationalResponse = getConversationalResponse(firstToolCall.function.name, message);
+      // Auto-inject selected site into args if missing and relevant
+      if (selectedSite && (functionArgs == null || typeof functionArgs !== 'object' || !('site_url' in functionArgs))) {
+        functionArgs = { ...(functionArgs || {}), site_url: selectedSite };
       }
 
-      // First, add the assistant message with tool_calls
-      messages.push({
-        role: 'assistant',
-        content: messageContent.content || '',
-        tool_calls: messageContent.tool_calls
-      } as any);
+      // Validate arguments
+      const validation = validateFunctionArgs(functionName, functionArgs);
+      if (!validation.success) {
+        console.error('[AGENT CHAT] Argument validation failed:', validation.error);
 
-      // Then execute all tool calls and add responses
-      const executedToolCalls: Array<{ name: string; arguments: any; id: string } > = [];
-      await Promise.all(messageContent.tool_calls.map(async (toolCall) => {
-        if (toolCall.type !== 'function') return;
-        
-        const functionName = toolCall.function.name;
-        let functionArgs: any;
-        
-        try {
-          functionArgs = JSON.parse(toolCall.function.arguments || '{}');
-        } catch (error) {
-          console.error('[AGENT CHAT] Invalid function arguments:', error);
-          toolResults[toolCall.id] = { 
-            success: false, 
-            error: 'Invalid function arguments' 
-          };
-          return;
-        }
+        // Parse validation error for better user feedback
+        const parsedErrors = parseValidationError(validation.error, {
+          functionName,
+          providedArgs: functionArgs,
+          userMessage: message
+        });
 
-        // Auto-inject selected site into args if missing and relevant
-        if (selectedSite && (functionArgs == null || typeof functionArgs !== 'object' || !('site_url' in functionArgs))) {
-          functionArgs = { ...(functionArgs || {}), site_url: selectedSite };
-        }
+        const errorSummary = buildErrorSummaryForLLM(parsedErrors, {
+          functionName,
+          providedArgs: functionArgs,
+          userMessage: message
+        });
+
+        toolResults[toolCall.id] = {
+          success: false,
+          error: validation.error,
+          parsed_errors: parsedErrors,
+          user_friendly_error: errorSummary,
+          should_retry: shouldAutoRetry(parsedErrors, { functionName, providedArgs: functionArgs }),
+          suggested_action: getAutoRetryAction(parsedErrors, { functionName, providedArgs: functionArgs })
+        };
+        emit?.({ type: 'error', toolCallId: toolCall.id, message: `${getFunctionDisplayName(functionName)}: ${validation.error}` });
+        return;
+      }
 
-        // Validate arguments
-        const validation = validateFunctionArgs(functionName, functionArgs);
-        if (!validation.success) {
-          console.error('[AGENT CHAT] Argument validation failed:', validation.error);
-
-          // Parse validation error for better user feedback
-          const parsedErrors = parseValidationError(validation.error, {
-            functionName,
-            providedArgs: functionArgs,
-            userMessage: message
-          });
-
-          const errorSummary = buildErrorSummaryForLLM(parsedErrors, {
-            functionName,
-            providedArgs: functionArgs,
-            userMessage: message
-          });
-
-          toolResults[toolCall.id] = {
-            success: false,
-            error: validation.error,
-            parsed_errors: parsedErrors,
-            user_friendly_error: errorSummary,
-            should_retry: shouldAutoRetry(parsedErrors, { functionName, providedArgs: functionArgs }),
-            suggested_action: getAutoRetryAction(parsedErrors, { functionName, providedArgs: functionArgs })
-          };
-          return;
+      functionArgs = validation.data;
+      // Pass through conversation_id from client when available so downstream abilities can use it
+      try {
+        if (!('conversation_id' in functionArgs) && (clientConversationId || conversationId)) {
+          (functionArgs as any).conversation_id = clientConversationId || conversationId;
         }
+      } catch {}
+      executedToolCalls.push({ name: functionName, arguments: functionArgs, id: toolCall.id });
 
-        functionArgs = validation.data;
-        // Pass through conversation_id from client when available so downstream abilities can use it
-        try {
-          if (!('conversation_id' in functionArgs) && (clientConversationId || conversationId)) {
-            (functionArgs as any).conversation_id = clientConversationId || conversationId;
-          }
-        } catch {}
-        executedToolCalls.push({ name: functionName, arguments: functionArgs, id: toolCall.id });
+      // Inject conversationId for callback support (allows async operations to send follow-up messages)
+      const argsWithContext = {
+        ...functionArgs,
+        conversation_id: conversationId // Auto-injected, not part of schema
+      };
 
-        // Inject conversationId for callback support (allows async operations to send follow-up messages)
-        const argsWithContext = {
-          ...functionArgs,
-          conversation_id: conversationId // Auto-injected, not part of schema
-        };
+      emit?.({
+        type: 'tool_started',
+        toolCallId: toolCall.id,
+        name: functionName,
+        label: getFunctionDisplayName(functionName),
+        arguments: functionArgs
+      });
+      const onProgress = emit
+        ? (update: ToolProgressUpdate) => emit({ type: 'tool_progress', toolCallId: toolCall.id, name: functionName, ...update })
+        : undefined;
 
-        // Execute the function
-        try {
-          const result = await functionCaller.executeFunction(functionName, argsWithContext);
-          toolResults[toolCall.id] = result;
-          
-          console.log(`[AGENT CHAT] Executed ${functionName}:`, result.success);
-        } catch (error) {
-          console.error(`[AGENT CHAT] Function execution failed:`, error);
-          toolResults[toolCall.id] = { 
-            success: false, 
-            error: error instanceof Error ? error.message : 'Execution failed' 
-          };
-        }
-      }));
+      // Execute the function
+      const startedAt = Date.now();
+      try {
+        const result = await functionCaller.executeFunction(functionName, argsWithContext, onProgress);
+        toolResults[toolCall.id] = result;
+        
+        console.log(`[AGENT CHAT] Executed ${functionName}:`, result.success);
+      } catch (error) {
+        console.error(`[AGENT CHAT] Function execution failed:`, error);
+        toolResults[toolCall.id] = { 
+          success: false, 
+          error: error instanceof Error ? error.message : 'Execution failed' 
+        };
+      }
 
-      // Add all tool results to messages after execution
-      messageContent.tool_calls.forEach((toolCall) => {
-        messages.push({
-          role: 'tool',
-          tool_call_id: toolCall.id,
-          content: JSON.stringify(toolResults[toolCall.id])
-        } as any);
+      emit?.({
+        type: 'tool_finished',
+        toolCallId: toolCall.id,
+        name: functionName,
+        success: !!toolResults[toolCall.id].success,
+        error: toolResults[toolCall.id].error,
+        durationMs: Date.now() - startedAt,
+        result: toolResults[toolCall.id]
       });
+    }));
 
-      // Short-circuit to avoid a second LLM round-trip and Vercel timeouts
-      const summary = buildToolSummary(executedToolCalls, toolResults);
-      const combinedResponse = conversationalResponse
-        ? `${conversationalResponse}\n\n${summary}`
-        : summary;
-
-      const immediateResponse = {
-        content: combinedResponse,
-        // Provide a single function_call so activity logging works
-        function_call: {
-          name: executedToolCalls[0]?.name || 'executed_function',
-          arguments: JSON.stringify(executedToolCalls[0]?.arguments || {})
-        },
-        toolResults,
-        steps: guard
-      };
-      const processedResponse = await processOpenAIResponse(
-        immediateResponse,
-        userToken,
-        selectedSite,
-        {
-          conversationId,
-          websiteToken,
-          messageOrder: assistantMessageOrder
-        }
-      );
-      return NextResponse.json(processedResponse);
-    }
+    // Add all tool results to messages after execution
+    messageContent.tool_calls.forEach((toolCall) => {
+      messages.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: JSON.stringify(toolResults[toolCall.id])
+      } as any);
+    });
 
-    // Final response after max steps
-    const finalResponse = {
-      content: "I've completed several SEO tasks for you. How else can I help?",
+    // Short-circuit to avoid a second LLM round-trip and Vercel timeouts
+    const summary = buildToolSummary(executedToolCalls, toolResults);
+    const combinedResponse = conversationalResponse
+      ? `${conversationalResponse}\n\n${summary}`
+      : summary;
+
+    const immediateResponse = {
+      content: combinedResponse,
+      // Provide a single function_call so activity logging works
+      function_call: {
+        name: executedToolCalls[0]?.name || 'executed_function',
+        arguments: JSON.stringify(executedToolCalls[0]?.arguments || {})
+      },
       toolResults,
-      steps: guard - 1
+      steps: guard
     };
+    return await processOpenAIResponse(immediateResponse, userToken, selectedSite, conversationData);
+  }
 
-      const processedResponse = await processOpenAIResponse(
-        finalResponse, 
-        userToken, 
-        selectedSite,
-        {
-          conversationId,
-          websiteToken,
-          messageOrder: assistantMessageOrder
-        }
-      );
-    return NextResponse.json(processedResponse);
+  // Final response after max steps
+  const finalResponse = {
+    content: "I've completed several SEO tasks for you. How else can I help?",
+    toolResults,
+    steps: guard - 1
+  };
 
-  } catch (error) {
-    console.error('[AGENT CHAT API] Error:', error);
-    
-    // Provide detailed error messages for debugging
-    let errorMessage = "I'm experiencing technical difficulties.";
-    let debugInfo = "";
-    
-    if (error instanceof Error) {
-      if (error.message.includes('Invalid \'tools[0].function.name\'')) {
-        errorMessage = "There's an issue with my function definitions. I've detected invalid function names that need to be fixed.";
-        debugInfo = "Function name validation error - check for invalid characters in tool names.";
-      } else if (error.message.includes('API key')) {
-        errorMessage = "There's an issue with the AI service configuration. Please contact support.";
-        debugInfo = "OpenAI API key issue";
-      } else if (error.message.includes('rate limit')) {
-        errorMessage = "I'm currently handling many requests. Please wait a moment and try again.";
-        debugInfo = "OpenAI rate limit exceeded";
-      } else if (error.message.includes('network') || error.message.includes('fetch')) {
-        errorMessage = "I'm having trouble connecting to my services. Please check your internet connection and try again.";
-        debugInfo = "Network connectivity issue";
-      } else if (error.message.includes('Property not found')) {
-        errorMessage = "I couldn't access your Google Search Console data. Please check your GSC connection in settings.";
-        debugInfo = "GSC property access denied";
-      } else {
-        // Include specific error details for debugging
-        errorMessage = `I encountered an error: ${error.message.substring(0, 200)}`;
-        debugInfo = error.message;
-      }
+  return await processOpenAIResponse(finalResponse, userToken, selectedSite, conversationData);
+}
+
+// User-facing reply for a failed turn; the chat shows it as the assistant's message
+function describeChatError(error: unknown) {
+  console.error('[AGENT CHAT API] Error:', error);
+  
+  // Provide detailed error messages for debugging
+  let errorMessage = "I'm experiencing technical difficulties.";
+  let debugInfo = "";
+  
+  if (error instanceof Error) {
+    if (error.message.includes('Invalid \'tools[0].function.name\'')) {
+      errorMessage = "There's an issue with my function definitions. I've detected invalid function names that need to be fixed.";
+      debugInfo = "Function name validation error - check for invalid characters in tool names.";
+    } else if (error.message.includes('API key')) {
+      errorMessage = "There's an issue with the AI service configuration. Please contact support.";
+      debugInfo = "OpenAI API key issue";
+    } else if (error.message.includes('rate limit')) {
+      errorMessage = "I'm currently handling many requests. Please wait a moment and try again.";
+      debugInfo = "OpenAI rate limit exceeded";
+    } else if (error.message.includes('network') || error.message.includes('fetch')) {
+      errorMessage = "I'm having trouble connecting to my services. Please check your internet connection and try again.";
+      debugInfo = "Network connectivity issue";
+    } else if (error.message.includes('Property not found')) {
+      errorMessage = "I couldn't access your Google Search Console data. Please check your GSC connection in settings.";
+      debugInfo = "GSC property access denied";
+    } else {
+      // Include specific error details for debugging
+      errorMessage = `I encountered an error: ${error.message.substring(0, 200)}`;
+      debugInfo = error.message;
     }
-    
-    // Log detailed error for debugging
-    console.error('[AGENT CHAT API] Detailed error:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      debugInfo
-    });
-    
-    return NextResponse.json({
-      success: true,
-      message: errorMessage,
-      functionCall: null,
-      actionCard: null,
-      debugInfo: process.env.NODE_ENV === 'development' ? debugInfo : undefined
-    });
   }
+  
+  // Log detailed error for debugging
+  console.error('[AGENT CHAT API] Detailed error:', {
+    message: error instanceof Error ? error.message : 'Unknown error',
+    stack: error instanceof Error ? error.stack : undefined,
+    debugInfo
+  });
+  
+  return {
+    success: true,
+    message: errorMessage,
+    functionCall: null,
+    actionCard: null,
+    debugInfo: process.env.NODE_ENV === 'development' ? debugInfo : undefined
+  };
 }
 
 // Test response function for when OpenAI API is not available
@@ -715,6 +770,10 @@ function getFunctionDisplayName(functionName: string): string {
     // Verification and monitoring
     case 'VERIFY_check_changes':
       return 'Changes Verified';
+    case 'rollback_changes':
+      return 'Changes Rolled Back';
+    case 'run_workflow':
+      return 'Workflow Started';
     case 'get_site_status':
       return 'Site Status Check';
       
@@ -790,6 +849,10 @@ function getDescriptionForFunction(functionName: string): string {
     // Verification and monitoring
     case 'VERIFY_check_changes':
       return 'Verified implementation of SEO changes and their impact';
+    case 'rollback_changes':
+      return 'Restored pages to their state before the agent applied its changes';
+    case 'run_workflow':
+      return 'Planned the workflow and created its actions in dependency order';
     case 'get_site_status':
       return 'Retrieved current website status and SEO health metrics';
       
@@ -1050,11 +1113,123 @@ function buildToolSummary(executed: Array<{ name: string; arguments: any; id: st
     lines.push('', 'Want me to propose fixes for the top issues?');
     return lines.join('\n');
   }
+  if (first.name === 'plan_crawl' && res?.data?.plan) {
+    const plan = res.data.plan;
+    const lines = [
+      `🗺️ Crawl plan for ${plan.siteUrl}: ${plan.urls.length} priority URLs, depth ${plan.crawlDepth}`,
+      `• Sitemap: ${plan.sitemap.found ? `${plan.sitemap.urlCount} URLs` : 'not found'}  • robots.txt: ${plan.robots.found ? `${plan.robots.blockedUrls} URLs blocked` : 'not found'}`,
+      `• GSC pages with impressions: ${plan.gsc.pagesWithImpressions}`
+    ];
+    (plan.notes || []).forEach((note: string) => lines.push(`• ${note}`));
+    lines.push('', res.data.crawl_id ? `Crawl started (${res.data.crawl_id}). I’ll analyze it when it finishes.` : 'Want me to start the crawl with this plan?');
+    return lines.join('\n');
+  }
+
+  if (first.name === 'analyze_crawl' && res?.data && res.success) {
+    const d = res.data;
+    const lines = [`🧭 Crawl analysis: ${d.pagesAnalyzed} pages, score ${d.score}/100`];
+    if (d.duplicates) lines.push(`• Duplicate titles: ${d.duplicates.titles.length}  • Duplicate descriptions: ${d.duplicates.descriptions.length}`);
+    if (d.orphans) lines.push(`• Orphan pages: ${d.orphans.inSitemapNotLinked.length + d.orphans.crawledWithoutInlinks.length}`);
+    if (d.redirects) lines.push(`• Redirect chains: ${d.redirects.chains.filter((c: any) => c.hops.length > 1 || c.loop).length}  • Links to redirects: ${d.redirects.internalLinksToRedirects}`);
+    if (d.thinContent) lines.push(`• Thin pages (<${d.thinContent.threshold} words): ${d.thinContent.pages.length}`);
+    if (d.depth) lines.push(`• Average click depth: ${d.depth.averageDepth} (max ${d.depth.maxDepth})`);
+    lines.push('', 'Want me to propose fixes for the top issues?');
+    return lines.join('\n');
+  }
+
+  if (first.name === 'rollback_changes' && res?.data && res.success) {
+    const d = res.data;
+    if (Array.isArray(d.patches)) {
+      if (d.patches.length === 0) return '↩️ No agent changes have been applied yet, so there is nothing to roll back.';
+      const lines = [`↩️ ${d.rollbackable} of the last ${d.patches.length} changes can be rolled back:`];
+      d.patches.filter((p: any) => p.can_rollback).slice(0, 8).forEach((p: any) => {
+        lines.push(`• ${p.change_type} on ${p.target_url} (patch ${p.id}, run ${p.run_id})`);
+      });
+      lines.push('', 'Tell me which run or patch to undo.');
+      return lines.join('\n');
+    }
+    return `↩️ ${d.message || 'Rollback completed.'}`;
+  }
+
+  if (first.name === 'run_workflow' && res?.data && res.success) {
+    const d = res.data;
+    if (Array.isArray(d.workflows)) {
+      const lines = [`🧩 ${d.workflows.length} workflows available:`];
+      d.workflows.slice(0, 12).forEach((w: any) => {
+        lines.push(`• ${w.name} (\`${w.id}\`${w.version ? `, v${w.version}` : ''}) - ${w.description}`);
+      });
+      return lines.join('\n');
+    }
+    if (d.schedule) {
+      return `🗓️ ${d.message}`;
+    }
+    const e = d.execution || {};
+    const batches = Array.isArray(e.execution_order) ? e.execution_order.length : 0;
+    return `🧩 ${e.workflow_name || 'Workflow'} created ${e.total_actions || 0} actions in ${batches} batches.` +
+      (e.warnings?.length ? `\n⚠️ ${e.warnings.join('; ')}` : '') +
+      '\n\nActions that need approval will show up in the approval inbox.';
+  }
+
   if (first.name === 'KEYWORDS_add_keywords' || first.name === 'update_keyword_strategy') {
     const added = res?.data?.added || res?.summary?.keywords_added || 0;
     return `✅ Added ${added} keywords to your strategy. Check the Strategy tab for updates.`;
   }
 
+  // compare_performance → real period-over-period numbers
+  if (first.name === 'compare_performance' && res && typeof res === 'object' && res.success && res.data) {
+    const d = res.data;
+    if (!d.dataAvailable) {
+      return `📉 ${d.headline || 'No Search Console data is stored for these periods yet.'}\n\nWant me to sync GSC data first?`;
+    }
+    const fmt = (metric: string, label: string, suffix = '') => {
+      const delta = d.deltas?.[metric];
+      if (!delta) return `• ${label}: n/a`;
+      const pct = delta.changePercent === null ? 'new' : `${delta.changePercent > 0 ? '+' : ''}${delta.changePercent}%`;
+      const flag = delta.significant ? (delta.improved ? ' ✅' : ' ⚠️') : '';
+      return `• ${label}: ${Number(delta.current).toLocaleString()}${suffix} vs ${Number(delta.previous).toLocaleString()}${suffix} (${pct})${flag}`;
+    };
+    const lines = [
+      `📊 ${d.current?.label} (${d.current?.start} → ${d.current?.end}) vs ${d.previous?.label} (${d.previous?.start} → ${d.previous?.end})`,
+      fmt('clicks', 'Clicks'),
+      fmt('impressions', 'Impressions'),
+      fmt('ctr', 'CTR', '%'),
+      fmt('position', 'Avg position')
+    ];
+    const gainers = d.queries?.gainers || [];
+    const losers = d.queries?.losers || [];
+    if (gainers.length) {
+      lines.push('', 'Top gaining queries:', ...gainers.slice(0, 3).map((q: any) => `• ${q.key} (+${q.clicksChange} clicks)`));
+    }
+    if (losers.length) {
+      lines.push('', 'Top losing queries:', ...losers.slice(0, 3).map((q: any) => `• ${q.key} (${q.clicksChange} clicks)`));
+    }
+    lines.push('', '✅/⚠️ mark statistically significant changes. Want me to dig into the declining queries?');
+    return lines.join('\n');
+  }
+
+  if (first.name === 'get_performance_trends' && res && typeof res === 'object' && res.success && res.data) {
+    const d = res.data;
+    const metrics = d.metrics || {};
+    const describe = (metric: string, label: string) => {
+      const m = metrics[metric];
+      if (!m) return null;
+      const pct = m.changeOverPeriodPercent === null ? '' : ` (${m.changeOverPeriodPercent > 0 ? '+' : ''}${m.changeOverPeriodPercent}% over the period)`;
+      return `• ${label}: ${m.direction}${pct}`;
+    };
+    const lines = [
+      `📈 Trends for ${d.range?.label} (${d.range?.start} → ${d.range?.end})`,
+      describe('clicks', 'Clicks'),
+      describe('impressions', 'Impressions'),
+      describe('ctr', 'CTR'),
+      describe('position', 'Position')
+    ].filter(Boolean) as string[];
+    const rising = d.queries?.rising || [];
+    const declining = d.queries?.declining || [];
+    if (rising.length) lines.push('', 'Rising queries:', ...rising.slice(0, 3).map((q: any) => `• ${q.key}`));
+    if (declining.length) lines.push('', 'Declining queries:', ...declining.slice(0, 3).map((q: any) => `• ${q.key}`));
+    return lines.join('\n');
+  }
+
   // get_site_status → produce a helpful summary + next step
   if (first.name === 'get_site_status' && res && typeof res === 'object' && res.success && res.data) {
     const d = res.data;
@@ -1201,6 +1376,11 @@ function getConversationalResponse(functionName: string, userMessage: string): s
       '🔄 Updating your performance metrics from GSC...',
       '📈 Fetching fresh search performance data to identify opportunities...'
     ],
+    'compare_performance': [
+      '📊 Comparing your search performance across both periods...',
+      '📈 Pulling clicks, impressions, CTR and rankings for each period...',
+      '🔍 Checking which changes in your search traffic are significant...'
+    ],
     'SEO_analyze_technical': [
       '🔧 Scanning your website for technical SEO issues...',
       '⚙️ Running a comprehensive technical audit...',
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeUrl } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
 import OpenAI from 'openai';
 
 const openai = new OpenAI({
@@ -39,7 +39,7 @@ export async function POST(request: NextRequest) {
 
         for (const url of urlsToScrape.slice(0, 2)) { // Limit to 2 pages per competitor
           try {
-            const page = await scrapeUrl(url);
+            const page = await CrawlService.scrapeUrl(url);
             if (page.markdown && page.markdown.length > 100) {
               pages.push({
                 url: page.url,
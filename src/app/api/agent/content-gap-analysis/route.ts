@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeUrl } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
 import OpenAI from 'openai';
 
 const openai = new OpenAI({
@@ -203,7 +203,7 @@ async function crawlExistingContent(siteUrl: string) {
   for (const url of contentUrls.slice(0, 3)) { // Limit to prevent long delays
     try {
       console.log('[CONTENT GAP ANALYSIS] Crawling existing content:', url);
-      const page = await scrapeUrl(url);
+      const page = await CrawlService.scrapeUrl(url);
 
       if (page.markdown && page.markdown.length > 200) {
         // Extract article titles from content listings
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PolicyEngine } from '@/services/agent/policy-engine';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+async function validateUser(userToken: string | null): Promise<boolean> {
+  if (!userToken) return false;
+  const { data: user, error } = await supabase
+    .from('login_users')
+    .select('token')
+    .eq('token', userToken)
+    .single();
+  return !error && !!user;
+}
+
+// GET /api/agent/policies/site - Get the stored agent policy for a site
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const siteUrl = searchParams.get('siteUrl');
+
+    if (!siteUrl) {
+      return NextResponse.json({ success: false, error: 'Missing required field: siteUrl' }, { status: 400 });
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const policy = await PolicyEngine.getSitePolicy(userToken!, siteUrl);
+
+    return NextResponse.json({ success: true, policy, exists: !!policy });
+
+  } catch (error) {
+    console.error('[SITE POLICY] Unexpected error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load site policy' }, { status: 500 });
+  }
+}
+
+// PUT /api/agent/policies/site - Create or replace the agent policy for a site
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userToken, siteUrl, policy } = body;
+
+    if (!siteUrl || !policy) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: siteUrl, policy' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const { data: website } = await supabase
+      .from('websites')
+      .select('id')
+      .eq('user_token', userToken)
+      .ilike('domain', `%${String(siteUrl).replace(/^https?:\/\//, '').replace(/^sc-domain:/, '').replace(/\/$/, '')}%`)
+      .limit(1)
+      .maybeSingle();
+
+    if (!website) {
+      return NextResponse.json({ success: false, error: 'Website not found' }, { status: 404 });
+    }
+
+    const result = await PolicyEngine.saveSitePolicy(userToken, siteUrl, policy);
+    if (result.error) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, policy: result.policy, message: 'Site policy saved' });
+
+  } catch (error) {
+    console.error('[SITE POLICY] Unexpected error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to save site policy' }, { status: 500 });
+  }
+}
+
+// DELETE /api/agent/policies/site - Remove the site policy (the site falls back to default policies)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const siteUrl = searchParams.get('siteUrl');
+
+    if (!siteUrl) {
+      return NextResponse.json({ success: false, error: 'Missing required field: siteUrl' }, { status: 400 });
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    await PolicyEngine.deleteSitePolicy(userToken!, siteUrl);
+
+    return NextResponse.json({ success: true, message: 'Site policy removed' });
+
+  } catch (error) {
+    console.error('[SITE POLICY] Unexpected error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to remove site policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PatchService } from '@/services/agent/patch-service';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+async function validateUser(userToken: string | null): Promise<boolean> {
+  if (!userToken) return false;
+  const { data: user, error } = await supabase
+    .from('login_users')
+    .select('token')
+    .eq('token', userToken)
+    .single();
+  return !error && !!user;
+}
+
+// GET /api/agent/rollback - List patches (optionally for one run) and whether they can be rolled back
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const runId = searchParams.get('runId') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '50');
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const patches = await PatchService.listPatches(userToken!, { runId, limit });
+
+    return NextResponse.json({
+      success: true,
+      patches,
+      rollbackable: patches.filter(p => p.can_rollback).length
+    });
+
+  } catch (error) {
+    console.error('[AGENT ROLLBACK] Unexpected error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list patches' }, { status: 500 });
+  }
+}
+
+// POST /api/agent/rollback - Roll back a whole run or a single patch
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userToken, runId, patchId, reason, force = false } = body;
+
+    if (!runId && !patchId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: runId or patchId' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const options = { userToken, reason, force: force === true, triggeredBy: 'user' as const };
+
+    if (patchId) {
+      const result = await PatchService.rollbackPatch(patchId, options);
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error, result }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, result, message: `Patch ${patchId} rolled back` });
+    }
+
+    const result = await PatchService.rollbackRun(runId, options);
+    if (result.reverted === 0 && result.failed === 0) {
+      return NextResponse.json({ success: false, error: 'No applied patches to roll back for this run', result }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: result.success,
+      result,
+      message: result.success
+        ? `Rolled back ${result.reverted} patches`
+        : `Rolled back ${result.reverted} patches, ${result.failed} could not be rolled back`
+    });
+
+  } catch (error) {
+    console.error('[AGENT ROLLBACK] Unexpected error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to roll back changes' }, { status: 500 });
+  }
+}
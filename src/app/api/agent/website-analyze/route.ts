@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeUrl } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
 import OpenAI from 'openai';
 
 const openai = new OpenAI({
@@ -37,7 +37,7 @@ export async function POST(request: NextRequest) {
     for (const url of candidates) {
       try {
         console.log('[WEBSITE ANALYZE] Scraping:', url);
-        const page = await scrapeUrl(url, { timeoutMs: 2500 });
+        const page = await CrawlService.scrapeUrl(url, { timeoutMs: 2500 });
         const md = page.markdown || '';
         if (md && md.length > 120) {
           pages.push({
@@ -9,6 +9,13 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+// Built-in templates, plus the user's own when a user token is given
+function listTemplates(userToken: string | null, category: string | null, search: string | null) {
+  return userToken
+    ? WorkflowEngine.getTemplatesForUser(userToken, category || undefined, search || undefined)
+    : Promise.resolve(WorkflowEngine.getWorkflowTemplates(category || undefined, search || undefined));
+}
+
 // GET /api/agent/workflows - List available workflow templates
 export async function GET(request: NextRequest) {
   try {
@@ -16,6 +23,7 @@ export async function GET(request: NextRequest) {
     const category = searchParams.get('category');
     const search = searchParams.get('search');
     const ideaId = searchParams.get('ideaId');
+    const userToken = searchParams.get('userToken');
 
     // If ideaId provided, suggest workflows for that idea
     if (ideaId) {
@@ -35,7 +43,7 @@ export async function GET(request: NextRequest) {
         idea.evidence
       );
 
-      const allTemplates = WorkflowEngine.getWorkflowTemplates(category || undefined, search || undefined);
+      const allTemplates = await listTemplates(userToken, category, search);
 
       return NextResponse.json({
         success: true,
@@ -53,7 +61,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Otherwise, return all workflows
-    const templates = WorkflowEngine.getWorkflowTemplates(category || undefined, search || undefined);
+    const templates = await listTemplates(userToken, category, search);
 
     // Group by category for easier consumption
     const byCategory = templates.reduce((acc: Record<string, any[]>, template) => {
@@ -101,9 +109,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Idea not found' }, { status: 404 });
     }
 
-    // Get the workflow template
-    const templates = WorkflowEngine.getWorkflowTemplates();
-    const workflowTemplate = templates.find(t => t.id === workflowId);
+    // Get the workflow template (built-in or one of the user's own)
+    const workflowTemplate = await WorkflowEngine.findTemplate(workflowId, userToken);
 
     if (!workflowTemplate) {
       return NextResponse.json({ error: 'Workflow template not found' }, { status: 404 });
@@ -194,9 +201,8 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Get the workflow template
-    const templates = WorkflowEngine.getWorkflowTemplates();
-    const workflowTemplate = templates.find(t => t.id === workflowId);
+    // Get the workflow template (built-in or one of the user's own)
+    const workflowTemplate = await WorkflowEngine.findTemplate(workflowId, userToken);
 
     if (!workflowTemplate) {
       return NextResponse.json({ error: 'Workflow template not found' }, { status: 404 });
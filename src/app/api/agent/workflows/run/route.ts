@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { WorkflowEngine } from '@/services/agent/workflow-engine';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+async function validateUser(userToken: string | null): Promise<boolean> {
+  if (!userToken) return false;
+  const { data: user, error } = await supabase
+    .from('login_users')
+    .select('token')
+    .eq('token', userToken)
+    .single();
+  return !error && !!user;
+}
+
+// POST /api/agent/workflows/run - Plan a workflow for a site and create its actions
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userToken, siteUrl, workflowId, version, ideaId, triggeredBy } = body;
+
+    if (!siteUrl || !workflowId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: siteUrl, workflowId' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const template = await WorkflowEngine.findTemplate(workflowId, userToken, version);
+    if (!template) {
+      return NextResponse.json({ success: false, error: 'Workflow template not found' }, { status: 404 });
+    }
+
+    const result = await WorkflowEngine.runWorkflow(userToken, siteUrl, workflowId, {
+      ideaId,
+      version,
+      triggeredBy: triggeredBy === 'agent' ? 'agent' : 'user'
+    });
+
+    if (!result.executed) {
+      return NextResponse.json({
+        success: false,
+        error: 'Workflow execution blocked',
+        blocked_actions: result.plan.blockedActions,
+        message: result.message
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      execution: {
+        workflow_id: template.id,
+        workflow_name: template.name,
+        version: template.version || null,
+        execution_order: result.plan.executionOrder,
+        actions_created: result.actionIds,
+        total_actions: result.actionIds.length,
+        estimated_completion: new Date(Date.now() + result.plan.totalEstimatedDuration * 60000).toISOString(),
+        warnings: result.plan.warnings
+      },
+      message: result.message
+    });
+
+  } catch (error) {
+    console.error('[WORKFLOW RUN] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to run workflow' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { WorkflowEngine } from '@/services/agent/workflow-engine';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+async function validateUser(userToken: string | null): Promise<boolean> {
+  if (!userToken) return false;
+  const { data: user, error } = await supabase
+    .from('login_users')
+    .select('token')
+    .eq('token', userToken)
+    .single();
+  return !error && !!user;
+}
+
+// GET /api/agent/workflows/schedules - List active workflow schedules
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const siteUrl = searchParams.get('siteUrl') || undefined;
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const schedules = await WorkflowEngine.listSchedules(userToken!, siteUrl);
+    return NextResponse.json({ success: true, schedules });
+
+  } catch (error) {
+    console.error('[WORKFLOW SCHEDULES] Get error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list workflow schedules' }, { status: 500 });
+  }
+}
+
+// POST /api/agent/workflows/schedules - Run a workflow for a site on a recurring schedule
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userToken, siteUrl, workflowId, frequency, version, startAt } = body;
+
+    if (!siteUrl || !workflowId || !frequency) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: siteUrl, workflowId, frequency' },
+        { status: 400 }
+      );
+    }
+
+    if (!['daily', 'weekly', 'monthly'].includes(frequency)) {
+      return NextResponse.json({ success: false, error: 'frequency must be daily, weekly or monthly' }, { status: 400 });
+    }
+
+    if (startAt && isNaN(new Date(startAt).getTime())) {
+      return NextResponse.json({ success: false, error: 'startAt must be an ISO date' }, { status: 400 });
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const template = await WorkflowEngine.findTemplate(workflowId, userToken, version);
+    if (!template) {
+      return NextResponse.json({ success: false, error: 'Workflow template not found' }, { status: 404 });
+    }
+
+    const schedule = await WorkflowEngine.scheduleWorkflow(userToken, siteUrl, workflowId, frequency, {
+      version,
+      startAt: startAt ? new Date(startAt).toISOString() : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      schedule,
+      message: `Workflow "${template.name}" scheduled ${frequency}, next run ${schedule.next_run_at}`
+    });
+
+  } catch (error) {
+    console.error('[WORKFLOW SCHEDULES] Create error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to schedule workflow' }, { status: 500 });
+  }
+}
+
+// DELETE /api/agent/workflows/schedules - Stop a schedule
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const scheduleId = searchParams.get('scheduleId');
+
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'Missing required field: scheduleId' }, { status: 400 });
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    await WorkflowEngine.deleteSchedule(userToken!, scheduleId);
+    return NextResponse.json({ success: true, message: 'Schedule stopped' });
+
+  } catch (error) {
+    console.error('[WORKFLOW SCHEDULES] Delete error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to stop workflow schedule' }, { status: 500 });
+  }
+}
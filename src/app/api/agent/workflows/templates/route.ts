@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { WorkflowEngine } from '@/services/agent/workflow-engine';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+async function validateUser(userToken: string | null): Promise<boolean> {
+  if (!userToken) return false;
+  const { data: user, error } = await supabase
+    .from('login_users')
+    .select('token')
+    .eq('token', userToken)
+    .single();
+  return !error && !!user;
+}
+
+// GET /api/agent/workflows/templates - List templates, or every version of one (workflowId)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const workflowId = searchParams.get('workflowId');
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    if (workflowId) {
+      const versions = await WorkflowEngine.listTemplateVersions(userToken!, workflowId);
+      return NextResponse.json({ success: true, workflow_id: workflowId, versions });
+    }
+
+    const templates = await WorkflowEngine.getTemplatesForUser(userToken!);
+    return NextResponse.json({
+      success: true,
+      templates: templates.filter(t => t.source === 'user'),
+      builtin: templates.filter(t => t.source !== 'user').map(t => ({ id: t.id, name: t.name, category: t.category }))
+    });
+
+  } catch (error) {
+    console.error('[WORKFLOW TEMPLATES] Get error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list workflow templates' }, { status: 500 });
+  }
+}
+
+// POST /api/agent/workflows/templates - Create a template, or a new version of an existing one
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userToken, template } = body;
+
+    if (!template) {
+      return NextResponse.json({ success: false, error: 'Missing required field: template' }, { status: 400 });
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const result = await WorkflowEngine.saveUserTemplate(userToken, template);
+    if (!result.template) {
+      return NextResponse.json({ success: false, error: 'Invalid workflow template', errors: result.errors }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      template: result.template,
+      message: `Workflow "${result.template.name}" saved as version ${result.template.version}`
+    });
+
+  } catch (error) {
+    console.error('[WORKFLOW TEMPLATES] Save error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to save workflow template' }, { status: 500 });
+  }
+}
+
+// DELETE /api/agent/workflows/templates - Deactivate a template (all versions) and its schedules
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const workflowId = searchParams.get('workflowId');
+
+    if (!workflowId) {
+      return NextResponse.json({ success: false, error: 'Missing required field: workflowId' }, { status: 400 });
+    }
+
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    await WorkflowEngine.deleteUserTemplate(userToken!, workflowId);
+
+    return NextResponse.json({ success: true, message: `Workflow ${workflowId} deleted` });
+
+  } catch (error) {
+    console.error('[WORKFLOW TEMPLATES] Delete error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete workflow template' }, { status: 500 });
+  }
+}
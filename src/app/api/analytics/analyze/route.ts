@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PerformanceAnalyticsService } from '@/services/performance/performance-analytics';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const { site_url, metric_types, date_range = '28d', userToken } = await request.json();
+
+    if (!userToken || !site_url) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: site_url, userToken' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const result = await PerformanceAnalyticsService.analyzeMetrics(
+      userToken,
+      site_url,
+      date_range,
+      Array.isArray(metric_types) ? metric_types : undefined
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[ANALYTICS ANALYZE] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to analyze metrics'
+    }, { status: 500 });
+  }
+}
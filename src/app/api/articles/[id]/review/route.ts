@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArticleReviewService, OWNER_REVIEWER, ReviewActionResult } from '@/services/content/article-review-service';
+
+export const dynamic = 'force-dynamic';
+// Requesting changes revises the draft before responding
+export const maxDuration = 60;
+
+const REVIEW_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  invalid_input: 400,
+  invalid_state: 409,
+  revision_failed: 502
+};
+
+/**
+ * Editorial review of an article
+ * GET /api/articles/:id/review?userToken=... → review status, preview link token, comments, events
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const articleId = Number(params.id);
+
+    if (!userToken || !articleId) {
+      return NextResponse.json({ error: 'userToken and id required' }, { status: 400 });
+    }
+
+    const review = await new ArticleReviewService().getReview(userToken, articleId);
+    if (!review) {
+      return NextResponse.json({ success: false, error: 'Article not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    console.error('[ARTICLE REVIEW] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load review' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Review actions by the article's owner
+ * POST /api/articles/:id/review { userToken, action, ... }
+ *   create_link                            → new preview link (replaces the current one)
+ *   revoke_link
+ *   comment { body, quote? }
+ *   resolve_comment { commentId }
+ *   request_changes { feedback? }          → revises the draft with the open comments
+ *   revise                                 → retry a revision that failed
+ *   approve { note? }
+ *   withdraw_approval { note? }
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json();
+    const { userToken, action } = body;
+    const articleId = Number(params.id);
+
+    if (!userToken || !articleId || !action) {
+      return NextResponse.json({ error: 'userToken, id and action required' }, { status: 400 });
+    }
+
+    const service = new ArticleReviewService();
+    const access = { userToken, articleId };
+    let result: ReviewActionResult;
+
+    switch (action) {
+      case 'create_link':
+        result = await service.createPreviewLink(userToken, articleId);
+        break;
+      case 'revoke_link':
+        result = await service.revokePreviewLink(userToken, articleId);
+        break;
+      case 'comment':
+        result = await service.addComment(access, OWNER_REVIEWER, { body: body.body, quote: body.quote });
+        break;
+      case 'resolve_comment':
+        result = await service.resolveComment(access, OWNER_REVIEWER, body.commentId);
+        break;
+      case 'request_changes':
+        result = await service.requestChanges(access, OWNER_REVIEWER, body.feedback);
+        break;
+      case 'revise':
+        result = await service.reviseDraft(userToken, articleId);
+        break;
+      case 'approve':
+        result = await service.approve(access, OWNER_REVIEWER, body.note);
+        break;
+      case 'withdraw_approval':
+        result = await service.withdrawApproval(userToken, articleId, body.note);
+        break;
+      default:
+        return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 });
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: REVIEW_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[ARTICLE REVIEW] Action error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Review action failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArticleTranslationService } from '@/services/content/article-translation-service';
+
+export const dynamic = 'force-dynamic';
+// Each language is translated in turn before responding
+export const maxDuration = 300;
+
+const TRANSLATION_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  invalid_input: 400,
+  invalid_state: 409
+};
+
+/**
+ * Translations of an article
+ * GET /api/articles/:id/translations?userToken=... → original, its language variants and the site's locales
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const articleId = Number(params.id);
+
+    if (!userToken || !articleId) {
+      return NextResponse.json({ error: 'userToken and id required' }, { status: 400 });
+    }
+
+    const translations = await new ArticleTranslationService().getTranslations(userToken, articleId);
+    if (!translations) {
+      return NextResponse.json({ success: false, error: 'Article not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...translations });
+  } catch (error) {
+    console.error('[ARTICLE TRANSLATIONS] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load translations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Localize an article into more languages; each variant is created as a draft awaiting review
+ * POST /api/articles/:id/translations { userToken, languages: ["de", "pt-BR"] }
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userToken, languages } = await request.json();
+    const articleId = Number(params.id);
+
+    if (!userToken || !articleId || !Array.isArray(languages)) {
+      return NextResponse.json({ error: 'userToken, id and languages required' }, { status: 400 });
+    }
+
+    const service = new ArticleTranslationService();
+    const result = await service.translate(userToken, articleId, languages);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: TRANSLATION_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    const translations = await service.getTranslations(userToken, articleId);
+    return NextResponse.json({ ...result, ...translations });
+  } catch (error) {
+    console.error('[ARTICLE TRANSLATIONS] Translate error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Translation failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArticleVersionService } from '@/services/content/article-version-service';
+
+export const dynamic = 'force-dynamic';
+
+const RESTORE_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  not_published: 409,
+  cms_conflict: 409,
+  publish_failed: 502
+};
+
+/**
+ * Version history of an article
+ * GET /api/articles/:id/versions?userToken=...                       → versions, newest first
+ * GET /api/articles/:id/versions?userToken=...&from=<id>&to=<id|current> → side-by-side diff
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const articleId = Number(params.id);
+
+    if (!userToken || !articleId) {
+      return NextResponse.json({ error: 'userToken and id required' }, { status: 400 });
+    }
+
+    const service = new ArticleVersionService();
+    const from = searchParams.get('from');
+
+    if (from) {
+      const diff = await service.diffVersions(userToken, articleId, from, searchParams.get('to') || 'current');
+      if (!diff) {
+        return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, diff });
+    }
+
+    const versions = await service.listVersions(userToken, articleId);
+    return NextResponse.json({ success: true, versions });
+  } catch (error) {
+    console.error('[ARTICLE VERSIONS] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load article versions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Restore an earlier version
+ * POST /api/articles/:id/versions { userToken, versionId, republish? }
+ * republish pushes the restored version to the connected CMS
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userToken, versionId, republish } = await request.json();
+    const articleId = Number(params.id);
+
+    if (!userToken || !articleId || !versionId) {
+      return NextResponse.json({ error: 'userToken, id and versionId required' }, { status: 400 });
+    }
+
+    const result = await new ArticleVersionService().restoreVersion(userToken, articleId, versionId, {
+      republish: !!republish
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, details: result.details },
+        { status: RESTORE_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[ARTICLE VERSIONS] Restore error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to restore version' },
+      { status: 500 }
+    );
+  }
+}
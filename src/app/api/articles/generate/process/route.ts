@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { EnhancedArticleGenerator, EnhancedArticleRequest } from '@/services/content/enhanced-article-generator';
 import { trackUsage } from '@/lib/usage-tracking';
+import { ArticleVersionService } from '@/services/content/article-version-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -172,6 +173,9 @@ export async function POST(request: NextRequest) {
         word_count: wordCount,
         generation_time_seconds: genSeconds,
         status: 'generated',
+        review_status: 'pending', // A new body needs a fresh review
+        reviewed_by: null,
+        reviewed_at: null,
         updated_at: new Date().toISOString()
       })
       .eq('id', articleId);
@@ -180,6 +184,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'Failed to update article' }, { status: 500 });
     }
 
+    await new ArticleVersionService().tryRecordVersion(articleId, 'generation');
+
     // Track usage for article generation
     try {
       const siteId = (article as any)?.websites?.id;
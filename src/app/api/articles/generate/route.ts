@@ -4,6 +4,7 @@ import { EnhancedArticleGenerator, EnhancedArticleRequest } from '@/services/con
 import { ArticleType } from '@/services/content/article-templates-service';
 import { ImageProvider } from '@/services/content/image-generation-service';
 import { trackUsage } from '@/lib/usage-tracking';
+import { ArticleVersionService } from '@/services/content/article-version-service';
 
 // Use Node.js runtime for longer timeout support (needed for OpenAI API calls)
 export const runtime = 'nodejs';
@@ -224,6 +225,9 @@ export async function POST(request: NextRequest) {
           seo_score: seoScore,
           generation_time_seconds: generationTime,
           status: 'generated',
+          review_status: 'pending', // A new body needs a fresh review
+          reviewed_by: null,
+          reviewed_at: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', articleId);
@@ -232,6 +236,8 @@ export async function POST(request: NextRequest) {
         throw new Error(`Failed to update article: ${updateError.message}`);
       }
 
+      await new ArticleVersionService().tryRecordVersion(articleId, 'generation');
+
       // === Best-effort: persist new fields if the table has them ===
       try {
         await supabase
@@ -43,6 +43,8 @@ export async function GET(request: NextRequest) {
         topic_cluster,
         public_url,
         cms_admin_url,
+        review_status,
+        language,
         website_id,
         websites!website_id (
           domain
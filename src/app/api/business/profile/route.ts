@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { scrapeUrl } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -71,7 +71,7 @@ async function fetchWebsiteSnippets(domain: string): Promise<string> {
   async function tryScrape(url: string): Promise<string> {
     try {
       if (useFirecrawl) {
-        const page = await scrapeUrl(url);
+        const page = await CrawlService.scrapeUrl(url);
         const content = page.markdown || page.html || '';
         // For markdown, clean it first, then take first 8000 chars (enough for business info)
         const cleaned = page.markdown ? stripMarkdown(page.markdown) : stripHtml(String(content));
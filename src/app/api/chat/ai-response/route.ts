@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OpenAIFunctionClient } from '@/services/chat/openai-function-client';
+import { createChatEventStream } from '@/services/chat/chat-stream';
 
 export async function POST(request: NextRequest) {
   try {
-    const { userToken, message, chatContext } = await request.json();
+    const { userToken, message, chatContext, stream } = await request.json();
 
     if (!userToken || !message) {
       return NextResponse.json(
@@ -33,6 +34,14 @@ export async function POST(request: NextRequest) {
       userToken
     };
     
+    // Server-sent events: tokens and the tool call as they happen, then the usual body
+    if (stream) {
+      return createChatEventStream(async (emit) => {
+        const response = await openaiClient.sendMessage(message, contextWithMemory, emit);
+        emit({ type: 'done', response: { content: response.content, functionCall: response.functionCall } });
+      });
+    }
+
     const response = await openaiClient.sendMessage(message, contextWithMemory);
 
     return NextResponse.json({
@@ -150,10 +150,11 @@ export async function POST(request: NextRequest) {
       cms_type,
       base_url,
       api_token,
-      content_type
+      content_type,
+      auth_config
     } = body;
 
-    if (!userToken || !connection_name || !website_id || !base_url || !api_token) {
+    if (!userToken || !connection_name || !website_id || !base_url || (!api_token && cms_type !== 'git')) {
       return NextResponse.json(
         { error: 'Missing required fields: userToken, connection_name, website_id, base_url, api_token' },
         { status: 400 }
@@ -210,7 +211,9 @@ export async function POST(request: NextRequest) {
         cms_type,
         base_url: base_url.replace(/\/$/, ''), // Remove trailing slash
         api_token, // In production, encrypt this
-        content_type: content_type || 'api::blog-post.blog-post',
+        // Contentful, Sanity, Git and Webhook providers fall back to their own default content type
+        content_type: content_type || (['contentful', 'sanity', 'git', 'webhook'].includes(cms_type) ? null : 'api::blog-post.blog-post'),
+        auth_config: auth_config || {}, // Contentful space, Sanity project, Git repository, webhook endpoint settings
         status: 'active'
       })
       .select()
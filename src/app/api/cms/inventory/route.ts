@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { CMSContentSync } from '@/services/content/cms-content-sync';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * Posts synced from the website's connected CMSs
+ * GET /api/cms/inventory?userToken=...&websiteId=123&search=...&limit=100&offset=0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteId = parseInt(searchParams.get('websiteId') || '');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100') || 100, 500);
+    const offset = parseInt(searchParams.get('offset') || '0') || 0;
+
+    if (!userToken || !websiteId) {
+      return NextResponse.json({ error: 'Missing userToken or websiteId parameter' }, { status: 400 });
+    }
+
+    const { data: website } = await supabase
+      .from('websites')
+      .select('id')
+      .eq('id', websiteId)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    if (!website) {
+      return NextResponse.json({ error: 'Website not found or access denied' }, { status: 404 });
+    }
+
+    const { items, total } = await new CMSContentSync().getInventory(websiteId, {
+      limit,
+      offset,
+      search: searchParams.get('search') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      items,
+      pagination: { total, offset, limit, has_more: offset + items.length < total }
+    });
+  } catch (error) {
+    console.error('[CMS INVENTORY] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load content inventory' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,8 @@ import { NextRequest } from 'next/server';
 import { CMSManager } from '@/lib/cms/cms-manager';
 import { CMSType } from '@/lib/cms/types';
 
-// Edge Runtime for better performance
-export const runtime = 'edge';
+// Node.js runtime: CMSManager registers the Ghost provider, whose client is Node.js-only
+export const runtime = 'nodejs';
 
 const cmsManager = new CMSManager();
 
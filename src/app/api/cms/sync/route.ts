@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CMSContentSync } from '@/services/content/cms-content-sync';
+
+// CMS listing can page through thousands of posts
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+/**
+ * Sync one CMS connection's posts into the content inventory now
+ * POST /api/cms/sync { userToken, connectionId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userToken, connectionId } = body;
+
+    if (!userToken || !connectionId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: userToken, connectionId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await new CMSContentSync().syncConnection(String(connectionId), userToken);
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to sync CMS content';
+    console.error('[CMS SYNC] Manual sync failed:', error);
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message === 'CMS connection not found or inactive' ? 404 : 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { CMSManager } from '@/lib/cms/cms-manager';
+import { CMSType } from '@/lib/cms/types';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -14,6 +16,7 @@ export async function POST(request: NextRequest) {
       base_url,
       api_token,
       content_type,
+      auth_config,
       connection_id,
       userToken,
       wp_username,
@@ -28,7 +31,7 @@ export async function POST(request: NextRequest) {
       
       const { data: connection, error: fetchError } = await supabase
         .from('cms_connections')
-        .select('api_token, cms_type, base_url, content_type')
+        .select('api_token, cms_type, base_url, content_type, auth_config')
         .eq('id', connection_id)
         .eq('user_token', userToken)
         .single();
@@ -45,6 +48,7 @@ export async function POST(request: NextRequest) {
       if (!cms_type) cms_type = connection.cms_type;
       if (!base_url) base_url = connection.base_url;
       if (!content_type) content_type = connection.content_type;
+      if (!auth_config) auth_config = connection.auth_config;
     }
 
     // For WordPress, accept separate username/app password if provided
@@ -53,7 +57,8 @@ export async function POST(request: NextRequest) {
       actualApiToken = `${String(wp_username).trim()}:${compactPass}`;
     }
 
-    if (!cms_type || !base_url || !actualApiToken) {
+    // Git remotes over SSH (and public https repositories) authenticate without a token
+    if (!cms_type || !base_url || (!actualApiToken && cms_type !== 'git')) {
       return NextResponse.json(
         { error: 'Missing required fields: cms_type, base_url, api_token' },
         { status: 400 }
@@ -74,6 +79,8 @@ export async function POST(request: NextRequest) {
       testResult = await testGhostConnection(base_url, actualApiToken, content_type);
     } else if (cms_type === 'webflow') {
       testResult = await testWebflowConnection(base_url, actualApiToken, content_type);
+    } else if (cms_type === 'contentful' || cms_type === 'sanity' || cms_type === 'git' || cms_type === 'webhook') {
+      testResult = await testProviderConnection(cms_type, base_url, actualApiToken, content_type, auth_config);
     } else {
       return NextResponse.json(
         { error: `CMS type '${cms_type}' is not yet supported` },
@@ -1481,6 +1488,75 @@ async function testWebflowConnection(siteUrl: string, accessToken: string, colle
   }
 }
 
+// auth_config setting each provider can't work without
+const REQUIRED_PROVIDER_SETTINGS: Record<string, { key: string; label: string }> = {
+  contentful: { key: 'spaceId', label: 'Space ID' },
+  sanity: { key: 'projectId', label: 'Project ID' },
+  git: { key: 'repoUrl', label: 'Repository URL' },
+  webhook: { key: 'webhookUrl', label: 'Webhook URL' }
+};
+
+/**
+ * Contentful, Sanity, Git and Webhook connections are tested through their CMSProvider: the credentials
+ * must validate, then the posts are listed the way content sync will
+ */
+async function testProviderConnection(cmsType: CMSType, siteUrl: string, apiToken: string, contentType?: string, authConfig?: any) {
+  const logTag = `[${cmsType.toUpperCase()} TEST]`;
+
+  try {
+    const required = REQUIRED_PROVIDER_SETTINGS[cmsType];
+    if (!authConfig?.[required.key]) {
+      return {
+        success: false,
+        message: `Missing ${required.label} (auth_config.${required.key})`,
+        details: { error: `auth_config.${required.key} is required` }
+      };
+    }
+
+    const cmsManager = new CMSManager();
+    const provider = cmsManager.getProvider(cmsType);
+    const credentials = cmsManager.credentialsFromRecord({
+      cms_type: cmsType,
+      base_url: siteUrl,
+      api_token: apiToken,
+      content_type: contentType,
+      auth_config: authConfig
+    });
+
+    console.log(logTag, 'Testing connection...');
+    if (!(await provider.validateToken(credentials))) {
+      return {
+        success: false,
+        message: `Could not connect to ${provider.name}. Please check the token and ${required.label}.`,
+        details: { readAccess: false }
+      };
+    }
+
+    const [collections, articles] = await Promise.all([
+      provider.getBlogs(credentials),
+      provider.getArticles(credentials)
+    ]);
+    console.log(logTag, 'Found', articles.length, 'post(s)');
+
+    return {
+      success: true,
+      message: `${provider.name} connection successful! Found ${articles.length} post(s).`,
+      details: {
+        readAccess: true,
+        collections,
+        postsCount: articles.length
+      }
+    };
+  } catch (error) {
+    console.error(logTag, 'Connection test error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : `Could not connect to ${cmsType}`,
+      details: { error: error instanceof Error ? error.message : 'Unknown error' }
+    };
+  }
+}
+
 async function updateWebsiteCMSStatus(userToken: string, baseUrl: string, success: boolean) {
   try {
     console.log('[CMS TEST] Updating websites table cms_status to:', success ? 'connected' : 'error');
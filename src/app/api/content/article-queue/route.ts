@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { ArticleVersionService } from '@/services/content/article-version-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -130,18 +131,35 @@ export async function PUT(request: NextRequest) {
     if (updates?.status) patch.status = updates.status;
     if (typeof updates?.wordCount === 'number') patch.word_count = updates.wordCount;
 
-    if (Object.keys(patch).length === 0) return NextResponse.json({ success: true });
+    // Manual body edits are recorded in the article's version history
+    const contentPatch: any = {};
+    if (typeof updates?.articleContent === 'string') contentPatch.article_content = updates.articleContent;
+    if (typeof updates?.metaTitle === 'string') contentPatch.meta_title = updates.metaTitle;
+    if (typeof updates?.metaDescription === 'string') contentPatch.meta_description = updates.metaDescription;
+    const editsContent = Object.keys(contentPatch).length > 0;
 
-    const { error } = await supabase
+    if (Object.keys(patch).length === 0 && !editsContent) return NextResponse.json({ success: true });
+
+    const versions = new ArticleVersionService();
+    if (editsContent) {
+      await versions.tryRecordVersion(Number(id), 'snapshot', { createdBy: userToken });
+    }
+
+    const { data: updated, error } = await supabase
       .from('article_queue')
-      .update({ ...patch, updated_at: new Date().toISOString() })
+      .update({ ...patch, ...contentPatch, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .eq('user_token', userToken);
+      .eq('user_token', userToken)
+      .select('id');
 
     if (error) {
       console.error('[ARTICLE QUEUE] Update error:', error);
       return NextResponse.json({ success: false, error: 'Update failed' }, { status: 500 });
     }
+
+    if (editsContent && updated && updated.length > 0) {
+      await versions.tryRecordVersion(Number(id), 'manual_edit', { createdBy: userToken });
+    }
     return NextResponse.json({ success: true });
   } catch (e) {
     console.error('[ARTICLE QUEUE] PUT error:', e);
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArticleTranslationService } from '@/services/content/article-translation-service';
+
+export const dynamic = 'force-dynamic';
+
+const translationService = new ArticleTranslationService();
+
+const LOCALE_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  invalid_input: 400,
+  invalid_state: 409
+};
+
+/**
+ * GET /api/content/locales?userToken=...&websiteToken=...
+ *
+ * Languages the website publishes in and where each one is published
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteToken = searchParams.get('websiteToken');
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    const locales = await translationService.getLocalesForWebsite(userToken, websiteToken);
+    if (!locales) {
+      return NextResponse.json(
+        { success: false, error: 'Website not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, locales });
+  } catch (error) {
+    console.error('[ARTICLE TRANSLATIONS] Error fetching locales:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/content/locales
+ *
+ * Body:
+ * {
+ *   userToken: string,
+ *   websiteToken: string,
+ *   locale: {
+ *     language: string,                // BCP 47, e.g. "de" or "pt-BR"
+ *     isDefault?: boolean,             // language originals are written in (hreflang x-default)
+ *     cmsConnectionId?: number | null, // null = the original article's connection
+ *     targetBlogId?: string | null,    // blog, collection or content directory for the language
+ *     cmsLocale?: string | null        // locale code in Contentful, Strapi i18n or Polylang
+ *   }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, websiteToken, locale } = await request.json();
+
+    if (!userToken || !websiteToken || !locale?.language) {
+      return NextResponse.json(
+        { success: false, error: 'userToken, websiteToken and locale.language are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await translationService.saveLocale(userToken, websiteToken, locale);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: LOCALE_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[ARTICLE TRANSLATIONS] Error saving locale:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/content/locales?userToken=...&websiteToken=...&language=de
+ *
+ * Existing translations stay; new ones into the language use the original's publishing target
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteToken = searchParams.get('websiteToken');
+    const language = searchParams.get('language');
+
+    if (!userToken || !websiteToken || !language) {
+      return NextResponse.json(
+        { success: false, error: 'userToken, websiteToken and language are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await translationService.removeLocale(userToken, websiteToken, language);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: LOCALE_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[ARTICLE TRANSLATIONS] Error removing locale:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { LinkInjector } from '@/services/content/link-injector';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -45,6 +44,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Approval is checked again by the publisher; catching it here keeps the article from
+    // being marked publishing_failed
+    if (article.review_status !== 'approved') {
+      return NextResponse.json(
+        { error: 'Article must be approved before publishing' },
+        { status: 409 }
+      );
+    }
+
     // Get the CMS connection for the website
     const website = article.websites;
     if (!website || !website.id || !website.website_token) {
@@ -55,7 +63,6 @@ export async function POST(request: NextRequest) {
     }
 
     const websiteId = website.id;
-    const websiteToken = website.website_token;
 
     const { data: connection, error: connectionError } = await supabase
       .from('cms_connections')
@@ -74,56 +81,8 @@ export async function POST(request: NextRequest) {
 
     console.log('[PUBLISH ARTICLE] Publishing to CMS type:', connection.cms_type);
 
-    // Get article content
-    let articleContent = article.article_content || article.content;
-    let injectedLinksMetadata = null;
-
-    // Inject internal links if brief has a link plan
-    if (article.generated_from_brief_id) {
-      try {
-        const { data: brief } = await supabase
-          .from('article_briefs')
-          .select('internal_link_plan')
-          .eq('id', article.generated_from_brief_id)
-          .maybeSingle();
-
-        if (brief?.internal_link_plan) {
-          console.log('[PUBLISH ARTICLE] Found internal link plan, injecting links...');
-          const linkInjector = new LinkInjector();
-          const injectionResult = await linkInjector.injectInternalLinks(
-            articleId,
-            articleContent,
-            brief.internal_link_plan,
-            websiteToken
-          );
-
-          articleContent = injectionResult.updatedContent;
-          injectedLinksMetadata = injectionResult.insertedLinks;
-
-          console.log('[PUBLISH ARTICLE] Injected', injectionResult.insertedLinks.length, 'internal links');
-          if (injectionResult.skippedLinks > 0) {
-            console.log('[PUBLISH ARTICLE] Skipped', injectionResult.skippedLinks, 'links (targets not published yet)');
-          }
-        }
-      } catch (linkError) {
-        console.error('[PUBLISH ARTICLE] Error injecting internal links:', linkError);
-        // Continue with publishing even if link injection fails
-      }
-    }
-
-    // Update article content with injected links if available
-    if (injectedLinksMetadata && injectedLinksMetadata.length > 0) {
-      await supabase
-        .from('article_queue')
-        .update({
-          article_content: articleContent,
-          injected_internal_links: injectedLinksMetadata
-        })
-        .eq('id', articleId);
-    }
-
-    // Call the unified publish endpoint which has all the WordPress improvements
-    // (image upload, HTML cleanup, status verification)
+    // Call the unified publish endpoint, which also injects the brief's internal links
+    // and the article schema before handing off to the CMS provider
     const publishEndpoint = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/articles/publish`;
 
     console.log('[PUBLISH ARTICLE] Calling unified publish endpoint:', publishEndpoint);
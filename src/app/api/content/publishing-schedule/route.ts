@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlanLimits } from '@/lib/scheduling';
+import { PublishingScheduleService, SiteSchedule } from '@/services/content/publishing-schedule-service';
+
+export const dynamic = 'force-dynamic';
+
+const scheduleService = new PublishingScheduleService();
+
+function toResponse(schedule: SiteSchedule) {
+  return {
+    success: true,
+    planTier: schedule.planTier,
+    planLimits: getPlanLimits(schedule.planTier),
+    custom: schedule.custom,
+    rules: schedule.rules
+  };
+}
+
+/**
+ * GET /api/content/publishing-schedule?userToken=...&websiteToken=...
+ *
+ * The website's effective publishing rules (plan pattern merged with its own settings),
+ * what it configured itself, and the plan's caps
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteToken = searchParams.get('websiteToken');
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await scheduleService.getSiteSchedule(userToken, websiteToken);
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: 'Website not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toResponse(schedule));
+  } catch (error) {
+    console.error('[PUBLISHING SCHEDULE] Error fetching rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/content/publishing-schedule
+ *
+ * Body:
+ * {
+ *   userToken: string,
+ *   websiteToken: string,
+ *   rules: {
+ *     timezone?: string,            // IANA, e.g. "Europe/Berlin"
+ *     daysOfWeek?: number[] | null, // 0 = Sunday; null = plan pattern
+ *     times?: string[] | null,      // "HH:mm" in the timezone; null = plan pattern
+ *     blackoutDates?: string[],     // "YYYY-MM-DD" or yearly "MM-DD"
+ *     maxPerDay?: number | null,    // capped by the plan
+ *     maxPerWeek?: number | null
+ *   }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, websiteToken, rules } = await request.json();
+
+    if (!userToken || !websiteToken || !rules || typeof rules !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'userToken, websiteToken and rules are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await scheduleService.saveRules(userToken, websiteToken, rules);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(toResponse(result.schedule));
+  } catch (error) {
+    console.error('[PUBLISHING SCHEDULE] Error saving rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
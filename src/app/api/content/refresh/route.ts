@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ContentRefreshService, RefreshStatus, RefreshStrategy } from '@/services/content/content-refresh-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120; // proposing runs the article generator
+
+const APPROVAL_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  not_pending: 409,
+  stale: 409,
+  cms_conflict: 409,
+  publish_failed: 502
+};
+
+/**
+ * Refresh proposals for decaying published articles
+ * GET /api/content/refresh?userToken=...&websiteId=123&status=proposed   → proposals
+ * GET /api/content/refresh?userToken=...&websiteId=123&view=candidates   → decaying articles
+ * GET /api/content/refresh?userToken=...&refreshId=...                   → one proposal with its diff
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteId = parseInt(searchParams.get('websiteId') || '') || undefined;
+    const refreshId = searchParams.get('refreshId');
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Missing userToken parameter' }, { status: 400 });
+    }
+
+    const service = new ContentRefreshService();
+
+    if (refreshId) {
+      const detail = await service.getRefreshWithDiff(userToken, refreshId);
+      if (!detail) {
+        return NextResponse.json({ success: false, error: 'Refresh not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, ...detail });
+    }
+
+    if (searchParams.get('view') === 'candidates') {
+      const candidates = await service.findDecayingArticles(userToken, { websiteId });
+      return NextResponse.json({ success: true, candidates });
+    }
+
+    const refreshes = await service.listRefreshes(userToken, {
+      websiteId,
+      status: (searchParams.get('status') as RefreshStatus) || undefined
+    });
+    return NextResponse.json({ success: true, refreshes });
+  } catch (error) {
+    console.error('[CONTENT REFRESH] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load content refreshes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/content/refresh
+ * { userToken, action: 'propose', articleId, strategy? }
+ * { userToken, action: 'approve' | 'reject', refreshId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, action, articleId, refreshId, strategy } = await request.json();
+
+    if (!userToken || !action) {
+      return NextResponse.json({ error: 'Missing userToken or action' }, { status: 400 });
+    }
+
+    const service = new ContentRefreshService();
+
+    switch (action) {
+      case 'propose': {
+        if (!articleId) {
+          return NextResponse.json({ error: 'Missing articleId' }, { status: 400 });
+        }
+        if (strategy && strategy !== 'extend' && strategy !== 'regenerate') {
+          return NextResponse.json({ error: 'strategy must be extend or regenerate' }, { status: 400 });
+        }
+
+        // Carry the decay data into the prompt when the article is a current candidate
+        const candidates = await service.findDecayingArticles(userToken);
+        const candidate = candidates.find(c => c.articleId === Number(articleId));
+
+        const refresh = await service.proposeRefresh(userToken, Number(articleId), {
+          strategy: strategy as RefreshStrategy | undefined,
+          metrics: candidate?.metrics,
+          trigger: 'manual'
+        });
+        return NextResponse.json({ success: true, refresh });
+      }
+
+      case 'approve': {
+        if (!refreshId) {
+          return NextResponse.json({ error: 'Missing refreshId' }, { status: 400 });
+        }
+
+        const result = await service.approveRefresh(userToken, refreshId, userToken);
+        if (!result.success) {
+          return NextResponse.json(
+            { success: false, error: result.error, details: result.details },
+            { status: APPROVAL_FAILURE_STATUS[result.reason] || 500 }
+          );
+        }
+        return NextResponse.json(result);
+      }
+
+      case 'reject': {
+        if (!refreshId) {
+          return NextResponse.json({ error: 'Missing refreshId' }, { status: 400 });
+        }
+
+        const rejected = await service.rejectRefresh(userToken, refreshId, userToken);
+        if (!rejected) {
+          return NextResponse.json({ success: false, error: 'Refresh not found or already reviewed' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('[CONTENT REFRESH] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Content refresh failed' },
+      { status: 500 }
+    );
+  }
+}
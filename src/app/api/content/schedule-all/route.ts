@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { calculateSchedule, formatScheduleSummary, type PlanTier } from '@/lib/scheduling';
+import { calculateSchedule, formatScheduleSummary } from '@/lib/scheduling';
+import { PublishingScheduleService } from '@/services/content/publishing-schedule-service';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+const scheduleService = new PublishingScheduleService();
+
 interface ScheduleAllRequest {
   userToken: string;
   websiteToken: string;
@@ -26,6 +29,7 @@ interface ScheduleResult {
 /**
  * POST /api/content/schedule-all
  * Automatically schedule all unscheduled briefs and articles based on user's plan
+ * and the website's publishing rules (timezone, days, times, blackout dates, caps)
  */
 export async function POST(request: NextRequest): Promise<NextResponse<ScheduleResult>> {
   try {
@@ -88,7 +92,24 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
       );
     }
 
-    const planTier = userPlan.tier as PlanTier;
+    const siteSchedule = await scheduleService.getSiteSchedule(userToken, websiteToken);
+    if (!siteSchedule) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Website not found',
+          briefsScheduled: 0,
+          articlesScheduled: 0,
+          totalScheduled: 0,
+          schedules: [],
+          planTier: userPlan.tier,
+          error: 'Website not found or access denied',
+        },
+        { status: 404 }
+      );
+    }
+
+    const planTier = siteSchedule.planTier;
 
     // Step 2: Query unscheduled briefs (status = queued or draft, no scheduled_for)
     const { data: unscheduledBriefs, error: briefsError } = await supabase
@@ -117,14 +138,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
       );
     }
 
-    // Step 3: Query unscheduled articles (status = generated, no scheduled_for)
+    // Step 3: Query unscheduled articles (status = generated, not on the calendar yet)
     const { data: unscheduledArticles, error: articlesError } = await supabase
       .from('article_queue')
       .select('id')
       .eq('user_token', userToken)
-      .eq('website_id', websiteToken)
+      .eq('website_id', siteSchedule.websiteId)
       .eq('status', 'generated')
-      .is('scheduled_for', null)
+      .is('scheduled_publish_at', null)
       .order('created_at', { ascending: true });
 
     if (articlesError) {
@@ -161,8 +182,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
       });
     }
 
-    // Step 4: Calculate schedule dates starting tomorrow
-    const schedules = calculateSchedule(totalItems, planTier);
+    // Step 4: Calculate schedule dates starting tomorrow, around what is already on the calendar
+    const existing = await scheduleService.getOccupiedSlots(siteSchedule);
+    const schedules = calculateSchedule(totalItems, planTier, undefined, {
+      rules: siteSchedule.custom,
+      existing
+    });
 
     if (schedules.length < totalItems) {
       return NextResponse.json(
@@ -174,9 +199,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
           totalScheduled: 0,
           schedules: [],
           planTier,
-          error: 'Schedule generation failed',
+          error: `Only ${schedules.length} free publishing slots in the next 90 days - relax the blackout dates or caps`,
         },
-        { status: 500 }
+        { status: 409 }
       );
     }
 
@@ -199,7 +224,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
       }
     }
 
-    // Step 6: Update articles with scheduled dates (remaining schedules)
+    // Step 6: Update articles with scheduled dates (remaining schedules); publish-scheduled-articles picks them up
     let articlesUpdated = 0;
     if (articleIds.length > 0) {
       const articleSchedules = schedules.slice(briefIds.length);
@@ -207,7 +232,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
       for (let i = 0; i < articleIds.length; i++) {
         const { error: updateError } = await supabase
           .from('article_queue')
-          .update({ scheduled_for: articleSchedules[i].toISOString() })
+          .update({ scheduled_publish_at: articleSchedules[i].toISOString() })
           .eq('id', articleIds[i]);
 
         if (!updateError) {
@@ -230,6 +255,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
         articles_scheduled: articlesUpdated,
         total_scheduled: briefsUpdated + articlesUpdated,
         plan_tier: planTier,
+        timezone: siteSchedule.rules.timezone,
         first_scheduled_date: schedules[0]?.toISOString(),
         last_scheduled_date: schedules[schedules.length - 1]?.toISOString(),
       },
@@ -241,7 +267,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<ScheduleR
       briefsUpdated,
       articlesUpdated,
       schedules.slice(0, briefsUpdated + articlesUpdated),
-      planTier
+      planTier,
+      siteSchedule.custom
     );
 
     return NextResponse.json({
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { PublishingScheduleService } from '@/services/content/publishing-schedule-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,6 +9,8 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+const scheduleService = new PublishingScheduleService();
+
 /**
  * POST /api/content/schedule-article
  *
@@ -17,7 +20,11 @@ const supabase = createClient(
  * Request body:
  * - userToken: string (required) - User authentication token
  * - articleId: number (required) - ID of article in article_queue
- * - scheduledDate: string | null (required) - ISO date string or null to unschedule
+ * - scheduledDay: string (optional) - Calendar day "YYYY-MM-DD" in the site's timezone; the article
+ *   gets the first free publishing time on that day
+ * - scheduledDate: string | null - Exact ISO time, or null to unschedule (when scheduledDay is absent)
+ *
+ * Both are checked against the website's publishing rules (days, blackout dates, max per day/week).
  *
  * Response:
  * - success: boolean
@@ -26,7 +33,9 @@ const supabase = createClient(
  */
 export async function POST(request: NextRequest) {
   try {
-    const { userToken, articleId, scheduledDate } = await request.json();
+    const body = await request.json();
+    const { userToken, articleId, scheduledDay } = body;
+    let scheduledDate: string | null = body.scheduledDate ?? null;
 
     // Validate required fields
     if (!userToken || !articleId) {
@@ -37,7 +46,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate scheduledDate format if provided
-    if (scheduledDate !== null && scheduledDate !== undefined) {
+    if (scheduledDate !== null && !scheduledDay) {
       const date = new Date(scheduledDate);
       if (isNaN(date.getTime())) {
         return NextResponse.json(
@@ -56,7 +65,7 @@ export async function POST(request: NextRequest) {
     // Verify article exists and belongs to user
     const { data: existingArticle, error: checkError } = await supabase
       .from('article_queue')
-      .select('id, title, status, user_token')
+      .select('id, title, status, user_token, website_id')
       .eq('id', articleId)
       .eq('user_token', userToken)
       .maybeSingle();
@@ -76,6 +85,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Pick (or check) the slot against the website's publishing rules
+    if (scheduledDay || scheduledDate) {
+      const schedule = existingArticle.website_id
+        ? await scheduleService.getSiteScheduleByWebsiteId(userToken, existingArticle.website_id)
+        : null;
+
+      if (schedule) {
+        const slot = scheduledDay
+          ? await scheduleService.resolveDrop(schedule, String(scheduledDay), { articleId: existingArticle.id })
+          : await scheduleService.checkTime(schedule, new Date(scheduledDate!), { articleId: existingArticle.id });
+
+        if (!slot.ok) {
+          return NextResponse.json(
+            { success: false, error: slot.error },
+            { status: 409 }
+          );
+        }
+        scheduledDate = slot.slot.toISOString();
+      } else if (scheduledDay) {
+        return NextResponse.json(
+          { success: false, error: 'Article has no website to read publishing rules from; send scheduledDate instead' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Update the scheduled_publish_at field
     const { data: updatedArticle, error: updateError } = await supabase
       .from('article_queue')
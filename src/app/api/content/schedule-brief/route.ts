@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { PublishingScheduleService } from '@/services/content/publishing-schedule-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,6 +9,8 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+const scheduleService = new PublishingScheduleService();
+
 /**
  * POST /api/content/schedule-brief
  *
@@ -17,12 +20,15 @@ const supabase = createClient(
  * {
  *   userToken: string,
  *   briefId: number,
+ *   scheduledDay?: string ("YYYY-MM-DD" in the site's timezone - first free publishing time that day),
  *   scheduledDate: string (ISO date) | null (to unschedule)
  * }
+ *
+ * Briefs generate and publish on their date, so they follow the website's publishing rules too
  */
 export async function POST(request: NextRequest) {
   try {
-    const { userToken, briefId, scheduledDate } = await request.json();
+    const { userToken, briefId, scheduledDate, scheduledDay } = await request.json();
 
     if (!userToken || !briefId) {
       return NextResponse.json(
@@ -32,7 +38,43 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse scheduled date
-    const scheduledFor = scheduledDate ? new Date(scheduledDate).toISOString() : null;
+    let scheduledFor = scheduledDate ? new Date(scheduledDate).toISOString() : null;
+
+    if (scheduledDay || scheduledFor) {
+      const { data: brief } = await supabase
+        .from('article_briefs')
+        .select('id, website_token')
+        .eq('id', briefId)
+        .eq('user_token', userToken)
+        .maybeSingle();
+
+      if (!brief) {
+        return NextResponse.json(
+          { success: false, error: 'Brief not found' },
+          { status: 404 }
+        );
+      }
+
+      const schedule = await scheduleService.getSiteSchedule(userToken, brief.website_token);
+      if (schedule) {
+        const slot = scheduledDay
+          ? await scheduleService.resolveDrop(schedule, String(scheduledDay), { briefId: brief.id })
+          : await scheduleService.checkTime(schedule, new Date(scheduledFor!), { briefId: brief.id });
+
+        if (!slot.ok) {
+          return NextResponse.json(
+            { success: false, error: slot.error },
+            { status: 409 }
+          );
+        }
+        scheduledFor = slot.slot.toISOString();
+      } else if (scheduledDay) {
+        return NextResponse.json(
+          { success: false, error: 'Brief has no website to read publishing rules from; send scheduledDate instead' },
+          { status: 400 }
+        );
+      }
+    }
 
     // Validate that scheduled date is not in the past
     if (scheduledFor) {
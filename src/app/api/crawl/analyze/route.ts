@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { CrawlAnalyzer, CrawlAnalysisType } from '@/services/crawl/crawl-analyzer';
+import { CrawlService } from '@/services/crawl/crawl-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const ANALYSIS_TYPES: CrawlAnalysisType[] = ['full', 'duplicates', 'orphans', 'redirects', 'thin_content', 'depth'];
+
+async function validateUser(userToken: string | null): Promise<boolean> {
+  if (!userToken) return false;
+  const { data: user, error } = await supabase
+    .from('login_users')
+    .select('token')
+    .eq('token', userToken)
+    .single();
+  return !error && !!user;
+}
+
+function parseAnalysisType(value: string | null | undefined): CrawlAnalysisType | null {
+  const type = (value || 'full') as CrawlAnalysisType;
+  return ANALYSIS_TYPES.includes(type) ? type : null;
+}
+
+/**
+ * Analyze a Firecrawl job by id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const crawlId = searchParams.get('crawl_id');
+    const siteUrl = searchParams.get('site_url') || undefined;
+    const userToken = searchParams.get('userToken');
+    const analysisType = parseAnalysisType(searchParams.get('analysis_type'));
+
+    if (!userToken || !crawlId) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: crawl_id, userToken' }, { status: 400 });
+    }
+    if (!analysisType) {
+      return NextResponse.json({ success: false, error: `analysis_type must be one of: ${ANALYSIS_TYPES.join(', ')}` }, { status: 400 });
+    }
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const status = await CrawlService.getCrawlStatus(crawlId);
+    const pages = await CrawlService.getCrawlResult(crawlId, 20000);
+    if (pages.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: status.done ? 'Crawl finished without any pages' : `Crawl is still ${status.status || 'running'}; try again shortly`,
+        crawl_status: status.status
+      }, { status: status.done ? 404 : 409 });
+    }
+
+    const report = await CrawlAnalyzer.analyze(pages, { siteUrl, analysisType });
+
+    return NextResponse.json({
+      success: true,
+      crawl_id: crawlId,
+      crawl_status: status.status,
+      partial: !status.done,
+      ...report
+    });
+  } catch (error) {
+    console.error('[CRAWL ANALYZE] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Crawl analysis failed'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Analyze pages supplied by the caller (e.g. from another crawler)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { pages, site_url, analysis_type, trace_redirects, userToken } = await request.json();
+    const analysisType = parseAnalysisType(analysis_type);
+
+    if (!userToken || !Array.isArray(pages)) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: pages, userToken' }, { status: 400 });
+    }
+    if (!analysisType) {
+      return NextResponse.json({ success: false, error: `analysis_type must be one of: ${ANALYSIS_TYPES.join(', ')}` }, { status: 400 });
+    }
+    if (!(await validateUser(userToken))) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const report = await CrawlAnalyzer.analyze(pages, {
+      siteUrl: site_url,
+      analysisType,
+      traceRedirects: trace_redirects
+    });
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('[CRAWL ANALYZE] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Crawl analysis failed'
+    }, { status: 500 });
+  }
+}
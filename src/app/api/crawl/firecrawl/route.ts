@@ -1,22 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { startCrawl, getCrawlStatus, getCrawlResult, scrapeUrl } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
 
 export const dynamic = 'force-dynamic';
 
+// Kept at this path for existing callers; the crawler (Firecrawl or built-in) is chosen per website
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action, url, maxPages, includePaths, excludePaths } = body || {};
+    const { action, url, maxPages, maxDepth, includePaths, excludePaths, userToken, siteUrl, provider } = body || {};
+    const context = { userToken, siteUrl, provider };
 
     if (action === 'start') {
       if (!url) return NextResponse.json({ success: false, error: 'url required' }, { status: 400 });
-      const job = await startCrawl({ url, maxPages, includePaths, excludePaths, parseJS: true });
+      const job = await CrawlService.startCrawl({ url, maxPages, maxDepth, includePaths, excludePaths, parseJS: true }, context);
       return NextResponse.json({ success: true, job });
     }
 
     if (action === 'scrape') {
       if (!url) return NextResponse.json({ success: false, error: 'url required' }, { status: 400 });
-      const page = await scrapeUrl(url);
+      const page = await CrawlService.scrapeUrl(url, {}, context);
       return NextResponse.json({ success: true, page });
     }
 
@@ -35,15 +37,14 @@ export async function GET(request: NextRequest) {
     if (!jobId) return NextResponse.json({ success: false, error: 'jobId required' }, { status: 400 });
 
     if (mode === 'result') {
-      const pages = await getCrawlResult(jobId);
+      const pages = await CrawlService.getCrawlResult(jobId);
       return NextResponse.json({ success: true, pages });
     }
 
-    const status = await getCrawlStatus(jobId);
+    const status = await CrawlService.getCrawlStatus(jobId);
     return NextResponse.json({ success: true, status });
   } catch (error) {
     console.error('[FIRECRAWL] GET error:', error);
     return NextResponse.json({ success: false, error: 'Internal error' }, { status: 500 });
   }
 }
-
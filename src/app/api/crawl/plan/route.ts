@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { CrawlPlanner } from '@/services/crawl/crawl-planner';
+import { CrawlService } from '@/services/crawl/crawl-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const { site_url, max_pages, crawl_depth, start_crawl = false, userToken } = await request.json();
+
+    if (!userToken || !site_url) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: site_url, userToken' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const plan = await CrawlPlanner.plan(site_url, {
+      userToken,
+      maxPages: max_pages,
+      crawlDepth: crawl_depth
+    });
+
+    let job = null;
+    if (start_crawl) {
+      job = await CrawlService.startCrawl({ ...plan.firecrawl, maxDepth: plan.crawlDepth, parseJS: true }, { userToken, siteUrl: site_url });
+    }
+
+    return NextResponse.json({
+      success: true,
+      plan,
+      job,
+      crawl_id: job?.jobId || null
+    });
+  } catch (error) {
+    console.error('[CRAWL PLAN] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Crawl planning failed'
+    }, { status: 500 });
+  }
+}
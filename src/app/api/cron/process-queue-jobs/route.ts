@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queueManager } from '@/services/queue/queue-manager';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes - jobs can include article generation
+
+/**
+ * GET /api/cron/process-queue-jobs
+ * Runs every 5 minutes: when Redis queues are disabled, processes jobs left in queue_jobs
+ * (e.g. by serverless functions that stopped before their in-process jobs finished)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (queueManager.backendName === 'bullmq') {
+      return NextResponse.json({ success: true, message: 'Redis workers process jobs; nothing to do', processed: 0 });
+    }
+
+    const processed = await queueManager.drainLocalQueues(240000); // leave headroom under maxDuration
+
+    console.log(`[QUEUE CRON] Processed ${processed} jobs on ${queueManager.backendName} backend`);
+
+    return NextResponse.json({ success: true, backend: queueManager.backendName, processed });
+
+  } catch (error) {
+    console.error('[QUEUE CRON] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to process queue jobs' }, { status: 500 });
+  }
+}
@@ -174,6 +174,7 @@ async function processScheduledArticles(result: ProcessResult): Promise<void> {
     .from('article_queue')
     .select('*')
     .eq('status', 'generated')
+    .eq('review_status', 'approved')
     .lte('scheduled_for', now)
     .order('scheduled_for', { ascending: true })
     .limit(50); // Process max 50 per hour
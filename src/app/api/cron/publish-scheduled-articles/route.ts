@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { checkSlot } from '@/lib/scheduling';
+import { PublishingScheduleService, SiteSchedule } from '@/services/content/publishing-schedule-service';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -10,6 +12,8 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+const scheduleService = new PublishingScheduleService();
+
 /**
  * GET /api/cron/publish-scheduled-articles
  *
@@ -17,10 +21,12 @@ const supabase = createClient(
  * Runs every 30 minutes via Vercel cron configuration
  *
  * Process:
- * 1. Find articles where scheduled_publish_at <= NOW() and status = 'generated'
- * 2. For each article, call the publish API
- * 3. Update article status to 'published'
- * 4. Handle errors and retry logic
+ * 1. Find approved articles where scheduled_publish_at <= NOW() and status = 'generated'
+ * 2. Defer articles whose site can't publish today (closed day, blackout date, or the
+ *    day/week cap is already reached) to the site's next free slot
+ * 3. For each remaining article, call the publish API
+ * 4. Update article status to 'published'
+ * 5. Handle errors and retry logic
  *
  * Authentication: Requires CRON_SECRET environment variable
  */
@@ -62,6 +68,7 @@ export async function GET(request: NextRequest) {
       `)
       .lte('scheduled_publish_at', new Date().toISOString())
       .eq('status', 'generated')
+      .eq('review_status', 'approved') // Unapproved articles wait for review past their slot
       .not('article_content', 'is', null)
       .limit(50); // Process max 50 articles per run
 
@@ -92,13 +99,49 @@ export async function GET(request: NextRequest) {
     const results = {
       total: articlesToPublish.length,
       published: 0,
+      deferred: 0,
       failed: 0,
       errors: [] as Array<{ articleId: number; title: string; error: string }>
     };
 
+    // Publishing rules and what each site already published, loaded once per website
+    const sites = new Map<number, { schedule: SiteSchedule; published: Date[] } | null>();
+
     // Process each article
     for (const article of articlesToPublish) {
       try {
+        if (!sites.has(article.website_id)) {
+          const schedule = await scheduleService.getSiteScheduleByWebsiteId(article.user_token, article.website_id);
+          const published = schedule ? (await scheduleService.getPublishedSlots(schedule)).map(slot => slot.at) : [];
+          sites.set(article.website_id, schedule ? { schedule, published } : null);
+        }
+        const site = sites.get(article.website_id);
+
+        if (site) {
+          const today = checkSlot(new Date(), site.schedule.planTier, {
+            rules: site.schedule.custom,
+            existing: site.published
+          });
+
+          if (!today.ok) {
+            const existing = await scheduleService.getOccupiedSlots(site.schedule, { articleId: article.id });
+            const nextSlot = scheduleService.nextFreeSlot(site.schedule, existing);
+
+            console.log(`[PUBLISH CRON] Deferring article ${article.id}: ${today.error} -> ${nextSlot?.toISOString() || 'unscheduled'}`);
+
+            await supabase
+              .from('article_queue')
+              .update({
+                scheduled_publish_at: nextSlot ? nextSlot.toISOString() : null,
+                updated_at: new Date().toISOString()
+              })
+              .eq('id', article.id);
+
+            results.deferred++;
+            continue;
+          }
+        }
+
         console.log(`[PUBLISH CRON] Publishing article ${article.id}: ${article.title}`);
 
         // Update status to 'publishing' first
@@ -198,6 +241,7 @@ export async function GET(request: NextRequest) {
         if (updatedArticle?.status === 'published') {
           console.log(`[PUBLISH CRON] Successfully published article ${article.id}`);
           results.published++;
+          site?.published.push(new Date(updatedArticle.published_at || Date.now()));
         } else {
           throw new Error(`Article status is ${updatedArticle?.status}, expected 'published'`);
         }
@@ -232,6 +276,7 @@ export async function GET(request: NextRequest) {
     console.log('[PUBLISH CRON] Job completed:', {
       total: results.total,
       published: results.published,
+      deferred: results.deferred,
       failed: results.failed,
       duration: `${duration}ms`
     });
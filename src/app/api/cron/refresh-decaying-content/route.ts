@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ContentRefreshService } from '@/services/content/content-refresh-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes - each proposal runs the article generator
+
+/**
+ * GET /api/cron/refresh-decaying-content
+ * Runs weekly: proposes refreshes for published articles whose GSC clicks or positions are
+ * decaying. Proposals wait for review; nothing is pushed to a CMS from here.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[CONTENT REFRESH CRON] Scanning for decaying articles');
+
+    const summary = await new ContentRefreshService().scanAndPropose({
+      maxProposals: 5,
+      deadline: Date.now() + 200000 // leave headroom under maxDuration for the last generation
+    });
+
+    console.log(
+      `[CONTENT REFRESH CRON] Completed: ${summary.proposed} proposals from ${summary.candidates} candidates, ${summary.errors.length} errors`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Decaying content scanned',
+      ...summary
+    });
+
+  } catch (error) {
+    console.error('[CONTENT REFRESH CRON] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to scan for decaying content' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowEngine } from '@/services/agent/workflow-engine';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes - each due schedule plans and creates its actions
+
+/**
+ * GET /api/cron/run-workflow-schedules
+ * Runs hourly: executes user workflow schedules that are due and advances them
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[WORKFLOW CRON] Running due workflow schedules');
+
+    const summary = await WorkflowEngine.runDueSchedules();
+
+    console.log(
+      `[WORKFLOW CRON] Completed: ${summary.processed} schedules processed, ${summary.executed} workflows executed, ${summary.errors.length} errors`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Workflow schedules processed',
+      ...summary
+    });
+
+  } catch (error) {
+    console.error('[WORKFLOW CRON] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to run workflow schedules' }, { status: 500 });
+  }
+}
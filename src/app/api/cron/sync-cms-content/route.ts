@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CMSContentSync } from '@/services/content/cms-content-sync';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes - large sites page through thousands of posts
+
+/**
+ * GET /api/cron/sync-cms-content
+ * Runs every 6 hours: pulls posts from each active CMS connection into cms_content_inventory
+ * and applies CMS-side edits to the articles SEOAgent published
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[CMS SYNC CRON] Syncing CMS content');
+
+    const summary = await new CMSContentSync().syncAll({
+      staleAfterMs: 5 * 60 * 60 * 1000, // skip connections synced manually since the last run
+      deadline: Date.now() + 240000 // leave headroom under maxDuration
+    });
+
+    console.log(
+      `[CMS SYNC CRON] Completed: ${summary.synced}/${summary.processed} connections synced, ${summary.errors.length} errors`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'CMS content synced',
+      ...summary
+    });
+
+  } catch (error) {
+    console.error('[CMS SYNC CRON] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to sync CMS content' }, { status: 500 });
+  }
+}
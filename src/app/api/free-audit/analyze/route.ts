@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCrawlResult } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -48,7 +48,7 @@ export async function GET(request: NextRequest) {
     const jobId = searchParams.get('jobId');
     if (!jobId) return NextResponse.json({ success: false, error: 'jobId required' }, { status: 400 });
 
-    const pages = await getCrawlResult(jobId);
+    const pages = await CrawlService.getCrawlResult(jobId);
     const { totals, recommendations } = analyzePages(pages);
     return NextResponse.json({ success: true, totals, recommendations, pagesAnalyzed: pages.length });
   } catch (error) {
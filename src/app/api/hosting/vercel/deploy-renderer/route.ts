@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VercelIntegration } from '@/lib/hosting-providers/VercelIntegration';
+import { HostingProviderDatabase } from '@/lib/HostingProviderDatabase';
+import { SEOEdgeRenderer } from '@/services/technical-seo/seo-edge-renderer';
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * POST /api/hosting/vercel/deploy-renderer
+ *
+ * Deploys the SEO renderer middleware to the site's Vercel project and switches the
+ * site to edge delivery, so crawlers get pages with its fixes already in the HTML.
+ *
+ * Body: { userToken, integrationId, domain, websiteToken }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, integrationId, domain, websiteToken } = await request.json();
+
+    if (!userToken || !integrationId || !domain || !websiteToken) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[VERCEL DEPLOY] Deploying SEO renderer for ${domain}`);
+
+    const { data: integration, error: integrationError } = await supabase
+      .from('hosting_integrations')
+      .select('*')
+      .eq('id', integrationId)
+      .eq('user_token', userToken)
+      .eq('status', 'active')
+      .single();
+
+    if (integrationError || !integration) {
+      return NextResponse.json(
+        { error: 'Integration not found or inactive' },
+        { status: 404 }
+      );
+    }
+
+    const vercelIntegration = new VercelIntegration({
+      accessToken: integration.api_credentials?.access_token || '',
+      teamId: integration.api_credentials?.team_id,
+      projectId: integration.api_credentials?.project_id || '',
+      deploymentMethod: integration.configuration?.deployment_method || 'edge_function',
+      sitemapProxyUrl: integration.configuration?.sitemap_proxy_url || `${process.env.NEXT_PUBLIC_APP_URL}/api/seo-proxy/sitemap`,
+      robotsProxyUrl: integration.configuration?.robots_proxy_url || `${process.env.NEXT_PUBLIC_APP_URL}/api/seo-proxy/robots`,
+      renderProxyUrl: integration.configuration?.render_proxy_url || `${process.env.NEXT_PUBLIC_APP_URL}/api/seo-proxy/render`
+    });
+
+    const deploymentResult = await vercelIntegration.deploySEORenderer(domain, websiteToken, userToken);
+
+    if (!deploymentResult.success) {
+      await HostingProviderDatabase.updateIntegrationStatus(
+        integrationId,
+        'error',
+        deploymentResult.error || 'SEO renderer deployment failed'
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: deploymentResult.error || 'SEO renderer deployment failed',
+          method: deploymentResult.method,
+          duration: deploymentResult.duration
+        },
+        { status: 500 }
+      );
+    }
+
+    // Middleware fetches pages from the site itself, so no separate origin is needed
+    const delivery = await new SEOEdgeRenderer().updateSettings(userToken, websiteToken, {
+      delivery: 'edge',
+      originUrl: null
+    });
+    if (!delivery.success) {
+      return NextResponse.json(
+        { success: false, error: delivery.error },
+        { status: delivery.reason === 'not_found' ? 404 : 400 }
+      );
+    }
+
+    await HostingProviderDatabase.recordDeployment(integrationId);
+    await supabase
+      .from('hosting_integrations')
+      .update({
+        last_deployment_at: new Date().toISOString(),
+        configuration: {
+          ...integration.configuration,
+          seo_renderer_deployment_id: deploymentResult.deploymentId,
+          seo_renderer_website_token: websiteToken
+        },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', integrationId);
+
+    return NextResponse.json({
+      success: true,
+      deployment: {
+        id: deploymentResult.deploymentId,
+        url: deploymentResult.deploymentUrl,
+        method: deploymentResult.method,
+        duration: deploymentResult.duration,
+        logs: deploymentResult.logs
+      },
+      settings: delivery.settings
+    });
+
+  } catch (error) {
+    console.error('[VERCEL DEPLOY] SEO renderer API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error during deployment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PerformanceAnalyticsService } from '@/services/performance/performance-analytics';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const { site_url, compare_period = '28d', base_period = 'previous', userToken } = await request.json();
+
+    if (!userToken || !site_url) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: site_url, userToken' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const comparison = await PerformanceAnalyticsService.comparePeriods(userToken, site_url, compare_period, base_period);
+
+    return NextResponse.json({ success: true, ...comparison });
+  } catch (error) {
+    console.error('[PERFORMANCE COMPARE] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare performance periods'
+    }, { status: 500 });
+  }
+}
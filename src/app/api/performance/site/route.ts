@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PerformanceAnalyticsService } from '@/services/performance/performance-analytics';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const siteUrl = searchParams.get('site_url');
+    const dateRange = searchParams.get('date_range') || '30d';
+    const userToken = searchParams.get('userToken');
+
+    if (!userToken || !siteUrl) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: site_url, userToken' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const result = await PerformanceAnalyticsService.getSitePerformance(userToken, siteUrl, dateRange);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[PERFORMANCE SITE] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load site performance'
+    }, { status: 500 });
+  }
+}
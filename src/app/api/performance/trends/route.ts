@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PerformanceAnalyticsService, MetricName } from '@/services/performance/performance-analytics';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const VALID_METRICS: MetricName[] = ['clicks', 'impressions', 'ctr', 'position'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const siteUrl = searchParams.get('site_url');
+    const period = searchParams.get('period') || '90d';
+    const metricsParam = searchParams.get('metrics');
+    const userToken = searchParams.get('userToken');
+
+    if (!userToken || !siteUrl) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: site_url, userToken' }, { status: 400 });
+    }
+
+    const metrics = metricsParam
+      ? metricsParam.split(',').map(m => m.trim().toLowerCase()).filter((m): m is MetricName => VALID_METRICS.includes(m as MetricName))
+      : undefined;
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const result = await PerformanceAnalyticsService.getTrends(userToken, siteUrl, period, metrics);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[PERFORMANCE TRENDS] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to calculate performance trends'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArticleReviewService, ReviewActionResult } from '@/services/content/article-review-service';
+
+export const dynamic = 'force-dynamic';
+// Requesting changes revises the draft before responding
+export const maxDuration = 60;
+
+const REVIEW_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  invalid_input: 400,
+  invalid_state: 409,
+  revision_failed: 502
+};
+
+/**
+ * Article preview behind a shareable review link (no account needed; the token is the secret)
+ * GET /api/review/:token → article, meta tags, schema, images, comments and review history
+ */
+export async function GET(_request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const preview = await new ArticleReviewService().getPreview(params.token);
+    if (!preview) {
+      return NextResponse.json({ success: false, error: 'Preview link is invalid or was revoked' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, preview });
+  } catch (error) {
+    console.error('[ARTICLE REVIEW] Preview error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load preview' }, { status: 500 });
+  }
+}
+
+/**
+ * Review actions by anyone holding the link
+ * POST /api/review/:token { reviewerName, action, ... }
+ *   comment { body, quote? }
+ *   resolve_comment { commentId }
+ *   request_changes { feedback? }  → revises the draft with the open comments
+ *   approve { note? }
+ */
+export async function POST(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const body = await request.json();
+    const { reviewerName, action } = body;
+
+    if (!reviewerName || !action) {
+      return NextResponse.json({ success: false, error: 'reviewerName and action required' }, { status: 400 });
+    }
+
+    const service = new ArticleReviewService();
+    const access = { previewToken: params.token };
+    const reviewer = { name: String(reviewerName), via: 'preview_link' as const };
+    let result: ReviewActionResult;
+
+    switch (action) {
+      case 'comment':
+        result = await service.addComment(access, reviewer, { body: body.body, quote: body.quote });
+        break;
+      case 'resolve_comment':
+        result = await service.resolveComment(access, reviewer, body.commentId);
+        break;
+      case 'request_changes':
+        result = await service.requestChanges(access, reviewer, body.feedback);
+        break;
+      case 'approve':
+        result = await service.approve(access, reviewer, body.note);
+        break;
+      default:
+        return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 });
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: REVIEW_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[ARTICLE REVIEW] Preview action error:', error);
+    return NextResponse.json({ success: false, error: 'Review action failed' }, { status: 500 });
+  }
+}
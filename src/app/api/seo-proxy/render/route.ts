@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SEOEdgeRenderer } from '@/services/technical-seo/seo-edge-renderer';
+
+export const dynamic = 'force-dynamic';
+
+const renderer = new SEOEdgeRenderer();
+
+const RENDER_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  url_not_allowed: 403
+};
+
+/**
+ * GET /api/seo-proxy/render?token=<website token>&url=<page URL>
+ *
+ * The page as crawlers should see it: fetched from the site's origin with its meta tags, alt text,
+ * schema, canonical, hreflang and Open Graph tags written into the HTML. Called by the middleware
+ * deployed on the site (or a CDN worker in front of it). Pages of sites on client delivery, non-HTML
+ * responses and error pages are passed through unchanged. Only URLs on the website's domain are served.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const websiteToken = searchParams.get('token');
+    const pageUrl = searchParams.get('url');
+
+    if (!websiteToken || !pageUrl || !/^https?:\/\//i.test(pageUrl)) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: token and an http(s) url' },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await renderer.render(websiteToken, pageUrl, request.headers.get('user-agent') || undefined);
+    if (!outcome.success) {
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: RENDER_FAILURE_STATUS[outcome.reason] || 500 }
+      );
+    }
+
+    const { result } = outcome;
+    if (result.applied.length > 0) {
+      console.log(`[SEO PROXY] Rendered ${pageUrl}: ${result.applied.join(', ')}`);
+    }
+
+    return new Response(result.html, {
+      status: result.status,
+      headers: {
+        ...result.headers,
+        'X-SEOAgent-Render': result.applied.length > 0 ? result.applied.join(',') : 'passthrough'
+      }
+    });
+
+  } catch (error) {
+    // The middleware serves the origin page itself when the renderer fails
+    console.error('[SEO PROXY] Render error:', error);
+    return NextResponse.json(
+      { error: 'Failed to render page from origin' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SEOAgentJSConfigService } from '@/services/technical-seo/seoagent-js-config';
+
+export const dynamic = 'force-dynamic';
+
+// Called by seoagent.js from the customer's own domain
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+};
+
+/**
+ * seoagent.js settings for a site
+ * GET /api/seoagent/config?token=<website token>&v=<snippet version>
+ *   → { modules, requireConsent, attributionRequired, latestVersion }
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const websiteToken = searchParams.get('token');
+
+  if (!websiteToken) {
+    return NextResponse.json(
+      { error: 'token required' },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const config = await new SEOAgentJSConfigService().getSiteConfig(websiteToken, searchParams.get('v'));
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Website not found' },
+        { status: 404, headers: CORS_HEADERS }
+      );
+    }
+
+    return NextResponse.json(config, {
+      headers: {
+        ...CORS_HEADERS,
+        'Cache-Control': 'public, max-age=300, stale-while-revalidate=3600'
+      }
+    });
+  } catch (error) {
+    console.error('[SEOAGENT.JS CONFIG] Config lookup error:', error);
+    // seoagent.js runs with its defaults when the config can't be loaded
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArticleTranslationService } from '@/services/content/article-translation-service';
+
+export const dynamic = 'force-dynamic';
+
+// Called by seoagent.js from the customer's own domain
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+};
+
+/**
+ * hreflang alternates for a page on a customer site, when it is an article with published translations
+ * GET /api/seoagent/hreflang?token=<website token>&url=<page URL> → { alternates: [{ hreflang, href }] }
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const websiteToken = searchParams.get('token');
+  const pageUrl = searchParams.get('url');
+
+  if (!websiteToken || !pageUrl) {
+    return NextResponse.json(
+      { error: 'token and url required', alternates: [] },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const alternates = await new ArticleTranslationService().findAlternatesByUrl(websiteToken, pageUrl);
+
+    return NextResponse.json({ alternates }, {
+      headers: {
+        ...CORS_HEADERS,
+        'Cache-Control': 'public, max-age=900, stale-while-revalidate=3600'
+      }
+    });
+  } catch (error) {
+    console.error('[ARTICLE TRANSLATIONS] hreflang lookup error:', error);
+    // seoagent.js falls back to detecting alternates on the page
+    return NextResponse.json({ alternates: [] }, { headers: CORS_HEADERS });
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
@@ -34,7 +34,11 @@ export async function POST(request: NextRequest) {
           .from('websites')
           .update({ 
             seoagentjs_status: simpleStatus,
-            last_status_check: new Date().toISOString()
+            last_status_check: new Date().toISOString(),
+            ...(status.version ? {
+              seoagent_js_version: status.version,
+              seoagent_js_version_seen_at: new Date().toISOString()
+            } : {})
           })
           .eq('user_token', userToken)
           .or(`domain.eq.${domain},domain.eq.sc-domain:${domain}`);
@@ -25,6 +25,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { runMasterDiscovery, MasterDiscoveryInput } from '@/services/strategy/master-discovery';
 import { saveDiscoveryToDatabase } from '@/services/strategy/discovery-persistence';
+import { CMSContentSync } from '@/services/content/cms-content-sync';
+import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 
 const DiscoverRequestSchema = z.object({
@@ -46,6 +48,34 @@ const DiscoverRequestSchema = z.object({
   }).optional()
 });
 
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * Titles of posts synced from the website's CMS, so discovery plans around them
+ */
+async function loadExistingContent(websiteToken: string): Promise<Array<{ title: string; url: string | null }>> {
+  try {
+    const { data: website } = await supabase
+      .from('websites')
+      .select('id')
+      .eq('website_token', websiteToken)
+      .maybeSingle();
+
+    if (!website) return [];
+
+    const { items } = await new CMSContentSync().getInventory(website.id, { limit: 200 });
+    return items
+      .filter(item => item.title && item.status === 'published')
+      .map(item => ({ title: item.title!, url: item.url }));
+  } catch (error) {
+    console.error('[DISCOVERY API] Could not load CMS content inventory:', error);
+    return [];
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -74,6 +104,8 @@ export async function POST(request: NextRequest) {
 
     console.log('[DISCOVERY API] Starting discovery for', domain);
 
+    const existingContent = await loadExistingContent(websiteToken);
+
     // Build input
     const input: MasterDiscoveryInput = {
       site: {
@@ -84,7 +116,8 @@ export async function POST(request: NextRequest) {
       },
       sources: {
         seed_urls: seedUrls,
-        raw_owner_context: rawOwnerContext
+        raw_owner_context: rawOwnerContext,
+        existing_content: existingContent
       },
       controls: controls ? {
         max_clusters: controls.maxClusters,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { SemanticAnalyzer, SVSAnalysisInput } from '@/services/svs/semantic-analyzer';
+import { fetchPageContent } from '@/services/svs/page-content';
+import { SVSHistoryService } from '@/services/svs/svs-history-service';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -101,7 +103,8 @@ export async function POST(request: NextRequest) {
         analysis_data: analysisResult.analysis_data,
         analysis_type: analysisType,
         content_length: analysisResult.content_length,
-        processing_time_ms: analysisResult.processing_time_ms
+        processing_time_ms: analysisResult.processing_time_ms,
+        content_hash: SVSHistoryService.hashContent(content)
       })
       .select()
       .single();
@@ -136,6 +139,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Compare with the page's previous analysis; a drop after a content change raises an alert
+    let scoreChange = null;
+    try {
+      scoreChange = await new SVSHistoryService().trackScoreChange(savedAnalysis.id);
+    } catch (historyError) {
+      console.error('[SVS ANALYZE] Failed to track score change:', historyError);
+    }
+
     // Get industry benchmark for comparison (if available)
     const benchmark = industry ? await getBenchmark(industry, analysisType) : null;
 
@@ -161,6 +172,7 @@ export async function POST(request: NextRequest) {
             benchmark.avg_overall_score
           )
         } : null,
+        score_change: scoreChange,
         url_analyzed: analyzeUrl,
         content_stats: {
           length: analysisResult.content_length,
@@ -178,92 +190,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Fetch content from a webpage
- */
-async function fetchPageContent(url: string): Promise<{
-  content?: string;
-  html?: string;
-  error?: string;
-}> {
-  try {
-    console.log(`[SVS FETCH] Fetching content from: ${url}`);
-    
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'SEOAgent-SVS-Analyzer/1.0 (+https://seoagent.com/semantic-analysis)',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'DNT': '1',
-        'Connection': 'keep-alive'
-      },
-      signal: controller.signal
-    });
-
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      return { error: `Failed to fetch page: HTTP ${response.status}` };
-    }
-
-    const html = await response.text();
-    
-    // Extract text content from HTML (removing scripts, styles, etc.)
-    const content = extractTextContent(html);
-    
-    if (!content || content.trim().length < 100) {
-      return { error: 'Page content is too short or empty for meaningful analysis' };
-    }
-
-    return { content, html };
-
-  } catch (error) {
-    console.error('[SVS FETCH] Error fetching content:', error);
-    if (error instanceof Error && error.name === 'AbortError') {
-      return { error: 'Request timeout - page took too long to load' };
-    }
-    return { error: 'Failed to fetch page content' };
-  }
-}
-
-/**
- * Extract clean text content from HTML
- */
-function extractTextContent(html: string): string {
-  try {
-    // Remove script and style elements
-    let cleaned = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
-    cleaned = cleaned.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '');
-    cleaned = cleaned.replace(/<noscript[^>]*>[\s\S]*?<\/noscript>/gi, '');
-    
-    // Remove HTML comments
-    cleaned = cleaned.replace(/<!--[\s\S]*?-->/g, '');
-    
-    // Convert common HTML entities
-    cleaned = cleaned.replace(/&nbsp;/g, ' ');
-    cleaned = cleaned.replace(/&amp;/g, '&');
-    cleaned = cleaned.replace(/&lt;/g, '<');
-    cleaned = cleaned.replace(/&gt;/g, '>');
-    cleaned = cleaned.replace(/&quot;/g, '"');
-    cleaned = cleaned.replace(/&#39;/g, "'");
-    
-    // Remove all HTML tags but preserve text content
-    cleaned = cleaned.replace(/<[^>]+>/g, ' ');
-    
-    // Clean up whitespace
-    cleaned = cleaned.replace(/\s+/g, ' ').trim();
-    
-    return cleaned;
-  } catch (error) {
-    console.error('[SVS] Text extraction failed:', error);
-    return '';
-  }
-}
-
 /**
  * Get industry benchmark data
  */
@@ -349,6 +275,7 @@ export async function GET() {
       component_scores: 'Individual scores for each component',
       analysis_data: 'Detailed findings and recommendations',
       benchmark_comparison: 'Industry comparison (if available)',
+      score_change: 'Change against the previous analysis of the page, whether its content changed and whether a score-drop alert was raised',
       recommendations: 'Actionable improvement suggestions'
     }
   });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { SemanticAnalyzer, SVSAnalysisInput } from '@/services/svs/semantic-analyzer';
+import { SVSHistoryService } from '@/services/svs/svs-history-service';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -224,7 +225,8 @@ async function analyzeSinglePage({
         analysis_data: analysisResult.analysis_data,
         analysis_type: analysisType,
         content_length: analysisResult.content_length,
-        processing_time_ms: analysisResult.processing_time_ms
+        processing_time_ms: analysisResult.processing_time_ms,
+        content_hash: SVSHistoryService.hashContent(content)
       })
       .select()
       .single();
@@ -233,6 +235,13 @@ async function analyzeSinglePage({
       throw new Error(`Failed to save analysis: ${saveError.message}`);
     }
 
+    let scoreChange = null;
+    try {
+      scoreChange = await new SVSHistoryService().trackScoreChange(savedAnalysis.id);
+    } catch (historyError) {
+      console.error(`[SVS BULK] Failed to track score change for ${pageUrl}:`, historyError);
+    }
+
     return {
       success: true,
       pageUrl,
@@ -242,7 +251,8 @@ async function analyzeSinglePage({
       component_scores: analysisResult.component_scores,
       content_length: analysisResult.content_length,
       processing_time: analysisResult.processing_time_ms,
-      recommendations_count: analysisResult.analysis_data.recommendations.length
+      recommendations_count: analysisResult.analysis_data.recommendations.length,
+      score_change: scoreChange
     };
 
   } catch (error) {
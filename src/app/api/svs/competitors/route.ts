@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { SVSHistoryService } from '@/services/svs/svs-history-service';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const COMPETITOR_FAILURE_STATUS: Record<string, number> = {
+  fetch_failed: 400,
+  no_page_analysis: 409
+};
+
+interface CompetitorAnalyzeRequest {
+  userToken: string;
+  websiteToken?: string;
+  siteUrl: string;
+  pageUrl: string; // Own page, analyzed before
+  competitorUrl: string;
+  targetTopic?: string;
+  industry?: string;
+}
+
+/**
+ * Analyze a competitor page with the SVS analyzer and compare it with the latest analysis of your page.
+ * Re-running it for the same competitor adds a point to the competitor's history.
+ * POST /api/svs/competitors
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: CompetitorAnalyzeRequest = await request.json();
+    const { userToken, websiteToken, siteUrl, pageUrl, competitorUrl, targetTopic, industry } = body;
+
+    if (!userToken || !siteUrl || !pageUrl || !competitorUrl) {
+      return NextResponse.json({
+        error: 'Missing required parameters: userToken, siteUrl, pageUrl and competitorUrl'
+      }, { status: 400 });
+    }
+
+    if (!/^https?:\/\//i.test(competitorUrl)) {
+      return NextResponse.json({
+        error: 'Invalid URL format. Must start with http:// or https://'
+      }, { status: 400 });
+    }
+
+    // Validate user exists
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('id')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Invalid user token' }, { status: 401 });
+    }
+
+    console.log(`[SVS COMPETITORS] Comparing ${pageUrl} with ${competitorUrl}`);
+
+    const result = await new SVSHistoryService().analyzeCompetitor({
+      userToken,
+      websiteToken,
+      siteUrl,
+      pageUrl,
+      competitorUrl,
+      targetTopic,
+      industry
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: COMPETITOR_FAILURE_STATUS[result.reason] || 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        analysis_id: result.analysis_id,
+        comparison: result.comparison
+      }
+    });
+
+  } catch (error) {
+    console.error('[SVS COMPETITORS] Unexpected error:', error);
+    return NextResponse.json({
+      error: 'Internal server error during competitor SVS analysis'
+    }, { status: 500 });
+  }
+}
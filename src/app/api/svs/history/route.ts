@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { SVSHistoryService } from '@/services/svs/svs-history-service';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * SVS score history of a page, with the competitor pages compared against it
+ * GET /api/svs/history?userToken=...&pageUrl=...&days=180
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const pageUrl = searchParams.get('pageUrl');
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '180') || 180, 1), 730);
+
+    if (!userToken || !pageUrl) {
+      return NextResponse.json({
+        error: 'Missing required parameters: userToken and pageUrl'
+      }, { status: 400 });
+    }
+
+    // Validate user exists
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('id')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const history = await new SVSHistoryService().getPageHistory(userToken, pageUrl, days);
+
+    return NextResponse.json({
+      success: true,
+      data: history
+    });
+
+  } catch (error) {
+    console.error('[SVS HISTORY] Unexpected error:', error);
+    return NextResponse.json({
+      error: 'Internal server error while fetching SVS history'
+    }, { status: 500 });
+  }
+}
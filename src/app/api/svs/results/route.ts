@@ -64,6 +64,8 @@ export async function GET(request: NextRequest) {
     if (analysisId) {
       query = query.eq('id', analysisId);
     } else {
+      // Competitor analyses belong to their page's history (/api/svs/history)
+      query = query.is('competitor_of', null);
       if (siteUrl) {
         query = query.eq('site_url', siteUrl);
       }
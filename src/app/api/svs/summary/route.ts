@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { SVSHistoryService } from '@/services/svs/svs-history-service';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * Site-level SVS aggregates: latest score per page, weekly trend, biggest movers and industry benchmark
+ * GET /api/svs/summary?userToken=...&siteUrl=...&days=180&industry=SaaS&contentType=blog
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const siteUrl = searchParams.get('siteUrl');
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '180') || 180, 1), 730);
+
+    if (!userToken || !siteUrl) {
+      return NextResponse.json({
+        error: 'Missing required parameters: userToken and siteUrl'
+      }, { status: 400 });
+    }
+
+    // Validate user exists
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('id')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const summary = await new SVSHistoryService().getSiteSummary(userToken, siteUrl, {
+      days,
+      industry: searchParams.get('industry') || undefined,
+      contentType: searchParams.get('contentType') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('[SVS SUMMARY] Unexpected error:', error);
+    return NextResponse.json({
+      error: 'Internal server error while building SVS summary'
+    }, { status: 500 });
+  }
+}
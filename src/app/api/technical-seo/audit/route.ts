@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { TechnicalSEOService } from '@/services/technical-seo/technical-seo-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const { site_url, audit_type, include_performance, max_pages, userToken } = await request.json();
+
+    if (!userToken || !site_url) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: site_url, userToken' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    console.log('[TECHNICAL SEO AUDIT] Starting audit for:', site_url);
+
+    const result = await TechnicalSEOService.auditSite(site_url, {
+      auditType: audit_type,
+      maxPages: max_pages,
+      includePerformance: include_performance
+    });
+
+    // Store the run so ActionItemService.detectIssues picks up the findings
+    result.auditId = (await TechnicalSEOService.saveAuditRun(userToken, result)) || undefined;
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      issues: TechnicalSEOService.toDetectedIssues(result.findings)
+    });
+  } catch (error) {
+    console.error('[TECHNICAL SEO AUDIT] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Site audit failed'
+    }, { status: 500 });
+  }
+}
@@ -3,7 +3,8 @@ import { UrlNormalizationService } from '@/lib/UrlNormalizationService';
 import { DomainUtils } from '@/lib/utils/DomainUtils';
 import { createClient } from '@supabase/supabase-js';
 import { google } from 'googleapis';
-import { startCrawl, getCrawlStatus, getCrawlResult } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
+import { ArticleTranslationService } from '@/services/content/article-translation-service';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -13,104 +14,6 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-// Built-in website crawler for discovering paginated content
-async function crawlWebsiteBuiltIn(baseUrl: string): Promise<string[]> {
-  const discoveredUrls = new Set<string>();
-  const visitedPages = new Set<string>();
-  const maxPages = 20; // Reasonable limit for pagination crawling
-  
-  // Helper function to fetch and parse HTML
-  async function fetchAndParse(url: string): Promise<string[]> {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'SEOAgent-Crawler/1.0 (+https://seoagent.com)'
-        },
-        timeout: 10000 // 10 second timeout
-      } as any);
-      
-      if (!response.ok) return [];
-      
-      const html = await response.text();
-      const links: string[] = [];
-      
-      // Simple regex-based link extraction (better than external dependency)
-      const linkPattern = /href=["']([^"']*?)["']/gi;
-      let match;
-      
-      while ((match = linkPattern.exec(html)) !== null) {
-        const href = match[1];
-        
-        // Convert relative URLs to absolute
-        let fullUrl: string;
-        try {
-          if (href.startsWith('http')) {
-            fullUrl = href;
-          } else if (href.startsWith('/')) {
-            fullUrl = baseUrl.replace(/\/$/, '') + href;
-          } else {
-            fullUrl = url.replace(/\/[^\/]*$/, '/') + href;
-          }
-          
-          // Only include links from the same domain
-          if (fullUrl.startsWith(baseUrl.replace(/\/$/, ''))) {
-            links.push(fullUrl);
-          }
-        } catch (e) {
-          // Skip invalid URLs
-        }
-      }
-      
-      return links;
-    } catch (error) {
-      console.log(`[CRAWLER] Failed to fetch ${url}:`, error);
-      return [];
-    }
-  }
-  
-  // Start with common blog paths
-  const blogPaths = ['/blog', '/articles', '/posts', '/news'];
-  const startUrls = blogPaths.map(path => baseUrl.replace(/\/$/, '') + path);
-  
-  // Add the main blog URL
-  for (const startUrl of startUrls) {
-    if (visitedPages.has(startUrl)) continue;
-    visitedPages.add(startUrl);
-    
-    console.log(`[CRAWLER] Crawling blog page: ${startUrl}`);
-    const links = await fetchAndParse(startUrl);
-    
-    for (const link of links) {
-      // Add blog post links (look for common blog URL patterns)
-      if (link.match(/\/(blog|articles|posts|news)\/[^\/]+\/?$/)) {
-        discoveredUrls.add(link);
-      }
-      
-      // Add pagination links for further crawling
-      if ((link.includes('/page/') || link.includes('?page=') || 
-           link.includes('/blog/') && link.match(/\/\d+\/?$/)) &&
-          !visitedPages.has(link) && visitedPages.size < maxPages) {
-        
-        visitedPages.add(link);
-        console.log(`[CRAWLER] Following pagination: ${link}`);
-        
-        // Crawl pagination page
-        const paginationLinks = await fetchAndParse(link);
-        for (const paginationLink of paginationLinks) {
-          if (paginationLink.match(/\/(blog|articles|posts|news)\/[^\/]+\/?$/)) {
-            discoveredUrls.add(paginationLink);
-          }
-        }
-      }
-    }
-    
-    // Small delay between requests
-    await new Promise(resolve => setTimeout(resolve, 500));
-  }
-  
-  return Array.from(discoveredUrls);
-}
-
 export async function POST(request: NextRequest) {
   try {
     console.log('[SITEMAP GENERATION] Starting sitemap generation');
@@ -155,71 +58,29 @@ export async function POST(request: NextRequest) {
       console.log(`[SITEMAP GENERATION] Added ${inspections.length} URLs from GSC inspections`);
     }
 
-    // Step 1b: Crawl website to discover all URLs (including paginated content)
+    // Step 1b: Crawl website to discover all URLs (Firecrawl or built-in crawler, per website setting)
     try {
       console.log('[SITEMAP GENERATION] Starting comprehensive website crawl');
-      
-      // Start Firecrawl job with focused limits for faster discovery
-      const crawlJob = await startCrawl({
+
+      const { pages, provider } = await CrawlService.crawl({
         url: cleanSiteUrl,
-        maxPages: 50, // Reduced to prevent concurrent request limit issues
-        includePaths: ['/blog'], // Focus specifically on blog section
+        maxPages: 100,
         excludePaths: ['/admin', '/wp-admin', '/login', '/private', '/auth'], // Skip admin areas
         parseJS: true // Handle JavaScript-rendered content
-      });
-
-      console.log(`[SITEMAP GENERATION] Crawl started with job ID: ${crawlJob.jobId}`);
+      }, { userToken, siteUrl, waitMs: 120000 });
 
-      // Poll for completion with timeout
-      let attempts = 0;
-      const maxAttempts = 24; // 2 minutes max wait time (5 second intervals)
-      let crawlComplete = false;
+      console.log(`[SITEMAP GENERATION] Crawl completed with ${provider} crawler. Discovered ${pages.length} pages`);
 
-      while (attempts < maxAttempts && !crawlComplete) {
-        await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
-        attempts++;
-
-        try {
-          const status = await getCrawlStatus(crawlJob.jobId);
-          console.log(`[SITEMAP GENERATION] Crawl status check ${attempts}/${maxAttempts}: ${status.status}`);
-          
-          if (status.done) {
-            crawlComplete = true;
-            break;
-          }
-        } catch (statusError) {
-          console.log(`[SITEMAP GENERATION] Status check failed (attempt ${attempts}), continuing...`);
+      // Only indexable, successfully fetched pages belong in the sitemap
+      pages.forEach(page => {
+        const statusCode = page.metadata?.statusCode;
+        const robots = String(page.metadata?.robots || '').toLowerCase();
+        if (page.url && page.url.startsWith('http') && (!statusCode || statusCode < 400) && !robots.includes('noindex')) {
+          discoveredUrls.add(page.url);
         }
-      }
-
-      if (crawlComplete) {
-        // Get crawl results
-        const crawlResults = await getCrawlResult(crawlJob.jobId);
-        console.log(`[SITEMAP GENERATION] Crawl completed successfully. Discovered ${crawlResults.length} pages`);
-
-        // Add all discovered URLs
-        crawlResults.forEach(page => {
-          if (page.url && page.url.startsWith('http')) {
-            discoveredUrls.add(page.url);
-          }
-        });
-      } else {
-        console.log(`[SITEMAP GENERATION] Crawl timeout after ${maxAttempts} attempts, proceeding with existing URLs`);
-      }
-
+      });
     } catch (crawlError) {
-      console.error('[SITEMAP GENERATION] Firecrawl error, trying built-in crawler:', crawlError);
-      
-      // Step 1c: Fallback to built-in crawler for paginated content
-      try {
-        console.log('[SITEMAP GENERATION] Starting built-in crawler fallback');
-        const crawledUrls = await crawlWebsiteBuiltIn(cleanSiteUrl);
-        console.log(`[SITEMAP GENERATION] Built-in crawler discovered ${crawledUrls.length} additional URLs`);
-        
-        crawledUrls.forEach(url => discoveredUrls.add(url));
-      } catch (builtInError) {
-        console.error('[SITEMAP GENERATION] Built-in crawler also failed:', builtInError);
-      }
+      console.error('[SITEMAP GENERATION] Crawl failed, proceeding with existing URLs:', crawlError);
     }
 
     // Step 1c: Add common pages that should always be in sitemap
@@ -236,6 +97,21 @@ export async function POST(request: NextRequest) {
 
     commonPages.forEach(url => discoveredUrls.add(url));
 
+    // Step 1d: Published article translations, with their hreflang alternates
+    const translationService = new ArticleTranslationService();
+    let hreflangAlternates = new Map<string, Array<{ hreflang: string; href: string }>>();
+    try {
+      hreflangAlternates = await translationService.getSitemapAlternates(userToken, domain);
+      hreflangAlternates.forEach(alternates => {
+        alternates.forEach(alternate => {
+          if (alternate.hreflang !== 'x-default') discoveredUrls.add(alternate.href);
+        });
+      });
+      console.log(`[SITEMAP GENERATION] Found hreflang alternates for ${hreflangAlternates.size} translated article URLs`);
+    } catch (translationError) {
+      console.error('[SITEMAP GENERATION] Failed to load article translations, continuing without hreflang:', translationError);
+    }
+
     // Convert to array and sort
     const urlList = Array.from(discoveredUrls).sort();
 
@@ -245,16 +121,20 @@ export async function POST(request: NextRequest) {
     const currentDate = new Date().toISOString();
     
     const sitemapXML = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"${hreflangAlternates.size > 0 ? ' xmlns:xhtml="http://www.w3.org/1999/xhtml"' : ''}>
 ${urlList.map(url => {
   // Find inspection data for this URL if available
   const inspection = inspections?.find(i => i.inspected_url === url);
   const lastmod = inspection?.last_crawl_time || currentDate;
   const priority = url === cleanSiteUrl || url === `${cleanSiteUrl}/` ? '1.0' : '0.8';
   const changefreq = url === cleanSiteUrl || url === `${cleanSiteUrl}/` ? 'daily' : 'weekly';
+  // Every language version lists all of them, itself included, so the annotations are reciprocal
+  const alternates = (hreflangAlternates.get(translationService.urlKey(url)) || [])
+    .map(alternate => `\n    <xhtml:link rel="alternate" hreflang="${alternate.hreflang}" href="${alternate.href.replace(/&/g, '&amp;')}"/>`)
+    .join('');
   
   return `  <url>
-    <loc>${url}</loc>
+    <loc>${url}</loc>${alternates}
     <lastmod>${lastmod.split('T')[0]}</lastmod>
     <changefreq>${changefreq}</changefreq>
     <priority>${priority}</priority>
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { TechnicalSEOService } from '@/services/technical-seo/technical-seo-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const { site_url, pages, userToken } = await request.json();
+
+    if (!userToken || !site_url) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: site_url, userToken' }, { status: 400 });
+    }
+
+    if (pages && (!Array.isArray(pages) || pages.length > 50)) {
+      return NextResponse.json({ success: false, error: 'pages must be an array of at most 50 URLs' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const result = await TechnicalSEOService.checkIndexing(userToken, site_url, pages);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      issues: TechnicalSEOService.toDetectedIssues(result.findings)
+    });
+  } catch (error) {
+    console.error('[TECHNICAL SEO INDEXING] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Indexing check failed'
+    }, { status: 500 });
+  }
+}
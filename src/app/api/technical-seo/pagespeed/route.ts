@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { TechnicalSEOService } from '@/services/technical-seo/technical-seo-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 90;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const pageUrl = searchParams.get('page_url');
+    const device = searchParams.get('device') || 'desktop';
+    const userToken = searchParams.get('userToken');
+
+    if (!userToken || !pageUrl) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: page_url, userToken' }, { status: 400 });
+    }
+
+    try {
+      new URL(pageUrl);
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid page_url format' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const result = await TechnicalSEOService.checkPageSpeed(pageUrl, device);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      issues: TechnicalSEOService.toDetectedIssues(result.findings)
+    });
+  } catch (error) {
+    console.error('[TECHNICAL SEO PAGESPEED] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Page speed check failed'
+    }, { status: 500 });
+  }
+}
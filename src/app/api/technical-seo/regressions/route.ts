@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SEORegressionMonitor } from '@/services/technical-seo/seo-regression-monitor';
+
+export const dynamic = 'force-dynamic';
+
+const monitor = new SEORegressionMonitor();
+
+/**
+ * GET /api/technical-seo/regressions?userToken=...&websiteToken=...&includeResolved=true
+ *
+ * Regressions the watchdog found on the site's pages; open ones only unless includeResolved is set
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteToken = searchParams.get('websiteToken');
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    const regressions = await monitor.getRegressions(userToken, websiteToken, searchParams.get('includeResolved') === 'true');
+    return NextResponse.json({ success: true, regressions });
+  } catch (error) {
+    console.error('[SEO REGRESSION] Error fetching regressions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/technical-seo/regressions
+ *
+ * Marks a page's open regressions as intended changes; its next report becomes the new baseline.
+ *
+ * Body: { userToken, websiteToken, pageUrl }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, websiteToken, pageUrl } = await request.json();
+
+    if (!userToken || !websiteToken || !pageUrl) {
+      return NextResponse.json(
+        { success: false, error: 'userToken, websiteToken and pageUrl are required' },
+        { status: 400 }
+      );
+    }
+
+    const accepted = await monitor.acceptCurrent(userToken, websiteToken, pageUrl);
+    if (!accepted) {
+      return NextResponse.json(
+        { success: false, error: 'Website not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[SEO REGRESSION] Error accepting page changes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
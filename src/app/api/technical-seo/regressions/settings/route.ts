@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SEORegressionMonitor } from '@/services/technical-seo/seo-regression-monitor';
+import { assertPublicUrl } from '@/lib/utils/public-address';
+
+export const dynamic = 'force-dynamic';
+
+const monitor = new SEORegressionMonitor();
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low'];
+
+/**
+ * POST /api/technical-seo/regressions/settings
+ *
+ * Body:
+ * {
+ *   userToken: string,
+ *   websiteToken: string,
+ *   email?: string | null,        // null = the account email
+ *   webhookUrl?: string | null,   // Slack-compatible incoming webhook
+ *   minSeverity?: 'critical' | 'high' | 'medium' | 'low'
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, websiteToken, email, webhookUrl, minSeverity } = await request.json();
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    if (minSeverity !== undefined && !SEVERITIES.includes(minSeverity)) {
+      return NextResponse.json(
+        { success: false, error: `minSeverity must be one of ${SEVERITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (webhookUrl && !/^https:\/\//i.test(webhookUrl)) {
+      return NextResponse.json(
+        { success: false, error: 'webhookUrl must be an https URL' },
+        { status: 400 }
+      );
+    }
+
+    if (webhookUrl) {
+      try {
+        await assertPublicUrl(webhookUrl);
+      } catch (error) {
+        return NextResponse.json(
+          { success: false, error: 'webhookUrl must point to a public address' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const settings = await monitor.updateAlertSettings(userToken, websiteToken, { email, webhookUrl, minSeverity });
+    if (!settings) {
+      return NextResponse.json(
+        { success: false, error: 'Website not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error('[SEO REGRESSION] Error updating alert settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
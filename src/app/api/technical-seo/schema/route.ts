@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { TechnicalSEOService } from '@/services/technical-seo/technical-seo-service';
+
+export const dynamic = 'force-dynamic';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const { page_url, schema_types, userToken } = await request.json();
+
+    if (!userToken || !page_url) {
+      return NextResponse.json({ success: false, error: 'Missing required parameters: page_url, userToken' }, { status: 400 });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('login_users')
+      .select('token')
+      .eq('token', userToken)
+      .single();
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: 'Invalid user token' }, { status: 401 });
+    }
+
+    const result = await TechnicalSEOService.validateSchema(page_url, schema_types);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      issues: TechnicalSEOService.toDetectedIssues(result.findings)
+    });
+  } catch (error) {
+    console.error('[TECHNICAL SEO SCHEMA] Unexpected error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Schema validation failed'
+    }, { status: 500 });
+  }
+}
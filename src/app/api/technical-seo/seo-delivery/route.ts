@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SEOEdgeRenderer } from '@/services/technical-seo/seo-edge-renderer';
+
+export const dynamic = 'force-dynamic';
+
+const renderer = new SEOEdgeRenderer();
+
+const DELIVERY_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  invalid_input: 400
+};
+
+/**
+ * GET /api/technical-seo/seo-delivery?userToken=...&websiteToken=...
+ *
+ * How the site's SEO fixes are delivered: by seoagent.js in the browser or server-side by the renderer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteToken = searchParams.get('websiteToken');
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await renderer.getSettings(userToken, websiteToken);
+    if (!settings) {
+      return NextResponse.json(
+        { success: false, error: 'Website not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      renderUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/seo-proxy/render?token=${encodeURIComponent(websiteToken)}&url=`
+    });
+  } catch (error) {
+    console.error('[SEO EDGE RENDERER] Error fetching delivery settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/technical-seo/seo-delivery
+ *
+ * Body:
+ * {
+ *   userToken: string,
+ *   websiteToken: string,
+ *   delivery?: 'client' | 'edge',
+ *   originUrl?: string | null  // where the renderer fetches pages when it sits in front of the site
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, websiteToken, delivery, originUrl } = await request.json();
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await renderer.updateSettings(userToken, websiteToken, { delivery, originUrl });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: DELIVERY_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[SEO EDGE RENDERER] Error updating delivery settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SEOAgentJSConfigService } from '@/services/technical-seo/seoagent-js-config';
+import { buildInstallSnippet, getLatestRelease, isOutdated } from '@/lib/seoagent-js-release';
+
+export const dynamic = 'force-dynamic';
+
+const configService = new SEOAgentJSConfigService();
+
+const SETTINGS_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  invalid_input: 400
+};
+
+/**
+ * GET /api/technical-seo/seoagent-js?userToken=...&websiteToken=...
+ *
+ * seoagent.js settings of a site, the latest release and install snippets (latest and pinned with SRI)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userToken = searchParams.get('userToken');
+    const websiteToken = searchParams.get('websiteToken');
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await configService.getSettings(userToken, websiteToken);
+    if (!settings) {
+      return NextResponse.json(
+        { success: false, error: 'Website not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      outdated: isOutdated(settings.installedVersion),
+      release: getLatestRelease(),
+      snippets: {
+        latest: buildInstallSnippet(websiteToken),
+        pinned: buildInstallSnippet(websiteToken, { pinned: true })
+      }
+    });
+  } catch (error) {
+    console.error('[SEOAGENT.JS CONFIG] Error fetching settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/technical-seo/seoagent-js
+ *
+ * Body:
+ * {
+ *   userToken: string,
+ *   websiteToken: string,
+ *   modules?: { metaTags?: boolean, altText?: boolean, schema?: boolean, canonical?: boolean,
+ *               hreflang?: boolean, openGraph?: boolean, watchdog?: boolean, attribution?: boolean },
+ *   requireConsent?: boolean  // wait for the site's CMP before running
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userToken, websiteToken, modules, requireConsent } = await request.json();
+
+    if (!userToken || !websiteToken) {
+      return NextResponse.json(
+        { success: false, error: 'userToken and websiteToken are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await configService.updateSettings(userToken, websiteToken, { modules, requireConsent });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: SETTINGS_FAILURE_STATUS[result.reason] || 500 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[SEOAGENT.JS CONFIG] Error updating settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
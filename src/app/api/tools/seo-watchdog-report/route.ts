@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SEORegressionMonitor, type WatchdogSnapshot } from '@/services/technical-seo/seo-regression-monitor';
+
+const monitor = new SEORegressionMonitor();
+
+const REPORT_FAILURE_STATUS: Record<string, number> = {
+  not_found: 404,
+  url_not_allowed: 403,
+  rate_limited: 429
+};
+
+// Called by seoagent.js from the customer's own domain
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+/**
+ * POST /api/tools/seo-watchdog-report
+ *
+ * Page snapshot from the seoagent.js watchdog, compared with the page's baseline.
+ * Only pages on the website's domain are accepted, and each page at most once a minute.
+ *
+ * Body:
+ * {
+ *   website_token: string,   // idv
+ *   version?: string,        // seoagent.js version
+ *   snapshot: { url, title, h1, metaDescription, metaRobots, canonical, hreflang, schemaTypes, ogTags }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { website_token: websiteToken, snapshot } = await request.json();
+
+    if (!websiteToken || !snapshot?.url || !/^https?:\/\//i.test(snapshot.url)) {
+      return NextResponse.json({ error: 'Missing required fields: website_token, snapshot.url' }, { status: 400, headers: CORS_HEADERS });
+    }
+
+    const normalized: WatchdogSnapshot = {
+      url: String(snapshot.url),
+      title: String(snapshot.title || ''),
+      h1: String(snapshot.h1 || ''),
+      metaDescription: String(snapshot.metaDescription || ''),
+      metaRobots: String(snapshot.metaRobots || ''),
+      canonical: String(snapshot.canonical || ''),
+      hreflang: Array.isArray(snapshot.hreflang) ? snapshot.hreflang.slice(0, 100) : [],
+      schemaTypes: Array.isArray(snapshot.schemaTypes) ? snapshot.schemaTypes.slice(0, 50).map(String) : [],
+      ogTags: snapshot.ogTags || {}
+    };
+
+    const outcome = await monitor.processReport(websiteToken, normalized);
+    if (!outcome.success) {
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: REPORT_FAILURE_STATUS[outcome.reason] || 500, headers: CORS_HEADERS }
+      );
+    }
+
+    const { result } = outcome;
+    return NextResponse.json({
+      success: true,
+      baselineCreated: result.baselineCreated,
+      regressions: result.regressions.map(regression => ({
+        type: regression.type,
+        severity: regression.severity,
+        title: regression.title,
+        isNew: regression.isNew
+      })),
+      resolved: result.resolved
+    }, { headers: CORS_HEADERS });
+
+  } catch (error) {
+    console.error('[SEO REGRESSION] Watchdog report error:', error);
+    return NextResponse.json({ error: 'Failed to process watchdog report' }, { status: 500, headers: CORS_HEADERS });
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
@@ -26,7 +26,7 @@ export async function GET(request: NextRequest) {
     // Get user's websites
     const { data: websites, error } = await supabase
       .from('websites')
-      .select('id, domain, website_token, created_at, is_managed, is_excluded_from_sync, attribution_enabled')
+      .select('id, domain, website_token, created_at, is_managed, is_excluded_from_sync, attribution_enabled, crawler_provider')
       .eq('user_token', userToken)
       .order('created_at', { ascending: false });
 
@@ -59,7 +59,7 @@ export async function PUT(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const userToken = searchParams.get('userToken');
     const body = await request.json();
-    const { websiteId, is_managed, attribution_enabled } = body;
+    const { websiteId, is_managed, attribution_enabled, crawler_provider, crawler_settings } = body;
 
     if (!userToken || !websiteId) {
       return NextResponse.json(
@@ -83,6 +83,20 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (crawler_provider !== undefined && !['auto', 'firecrawl', 'builtin'].includes(crawler_provider)) {
+      return NextResponse.json(
+        { error: 'crawler_provider must be one of: auto, firecrawl, builtin' },
+        { status: 400 }
+      );
+    }
+
+    if (crawler_settings !== undefined && (typeof crawler_settings !== 'object' || Array.isArray(crawler_settings))) {
+      return NextResponse.json(
+        { error: 'crawler_settings must be an object' },
+        { status: 400 }
+      );
+    }
+
     console.log('[WEBSITES API] Updating website status:', { websiteId, is_managed, attribution_enabled });
 
     // Verify the website belongs to the user
@@ -154,6 +168,12 @@ export async function PUT(request: NextRequest) {
     if (attribution_enabled !== undefined) {
       updateData.attribution_enabled = attribution_enabled;
     }
+    if (crawler_provider !== undefined) {
+      updateData.crawler_provider = crawler_provider;
+    }
+    if (crawler_settings !== undefined) {
+      updateData.crawler_settings = crawler_settings;
+    }
 
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json(
@@ -191,6 +211,9 @@ export async function PUT(request: NextRequest) {
         message = `Website attribution ${attribution_enabled ? 'enabled' : 'disabled'}`;
       }
     }
+    if (crawler_provider !== undefined && is_managed === undefined && attribution_enabled === undefined) {
+      message = `Website crawler set to ${crawler_provider}`;
+    }
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,39 @@
+import { Metadata } from 'next';
+import { ArticleReviewService } from '@/services/content/article-review-service';
+import ArticleReviewPreview from '@/components/ArticleReviewPreview';
+
+export const dynamic = 'force-dynamic';
+
+interface ReviewPageProps {
+  params: { token: string };
+}
+
+// The draft's own meta tags, so link unfurls and the browser tab show what will be published
+export async function generateMetadata({ params }: ReviewPageProps): Promise<Metadata> {
+  const preview = await new ArticleReviewService().getPreview(params.token);
+
+  return {
+    title: preview ? `Review: ${preview.metaTitle}` : 'Preview not found',
+    description: preview?.metaDescription,
+    robots: { index: false, follow: false }
+  };
+}
+
+export default async function ArticleReviewPage({ params }: ReviewPageProps) {
+  const preview = await new ArticleReviewService().getPreview(params.token);
+
+  if (!preview) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white border rounded-2xl p-8 text-center max-w-md">
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">Preview not available</h1>
+          <p className="text-sm text-gray-600">
+            This review link is invalid or was revoked. Ask the article owner for a new link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <ArticleReviewPreview token={params.token} initialPreview={preview} />;
+}
@@ -12,6 +12,8 @@ import WebsiteSetupModal from '@/components/WebsiteSetupModal';
 import ContentTab from '@/components/ContentTab';
 import PipelineTab from '@/components/PipelineTab';
 import CalendarTab from '@/components/CalendarTab';
+import SitePolicySettings from '@/components/SitePolicySettings';
+import ContentRefreshReview from '@/components/ContentRefreshReview';
 import { useContentAutomation } from '@/hooks/useContentAutomation';
 import { useFeatures } from '@/hooks/useFeatures';
 import { ChevronDown, ChevronRight, Send, Loader2, RefreshCw, TrendingUp, TrendingDown, Target, Tag, DollarSign, Wrench, Users, FileText, BookOpen, Search, Globe, Zap, Sparkles, Calendar, Clock, Eye, Edit, MessageSquare } from 'lucide-react';
@@ -38,7 +40,7 @@ export default function WebsitePage() {
   };
 
   // New layout state management
-  const [activeTab, setActiveTab] = useState<'technical' | 'pipeline' | 'calendar' | 'strategy'>('technical');
+  const [activeTab, setActiveTab] = useState<'technical' | 'pipeline' | 'calendar' | 'strategy' | 'refresh' | 'policy'>('technical');
   const [logCollapsed, setLogCollapsed] = useState(false);
   const [setupModalOpen, setSetupModalOpen] = useState(false);
   const [websiteDropdownOpen, setWebsiteDropdownOpen] = useState(false);
@@ -692,7 +694,7 @@ export default function WebsitePage() {
   }, []);
 
   // Helper function to determine if a tab should show an indicator
-  const getTabIndicator = (tab: 'technical' | 'pipeline' | 'calendar' | 'strategy') => {
+  const getTabIndicator = (tab: 'technical' | 'pipeline' | 'calendar' | 'strategy' | 'refresh' | 'policy') => {
     switch (tab) {
       case 'technical':
         return !setupStatus.seoagentjsActive; // Show indicator if SEOAgent.js not installed
@@ -713,7 +715,7 @@ export default function WebsitePage() {
   useEffect(() => {
     const handleSwitchTab = (event: any) => {
       if (event.detail?.tab) {
-        setActiveTab(event.detail.tab as 'technical' | 'pipeline' | 'calendar' | 'strategy');
+        setActiveTab(event.detail.tab as 'technical' | 'pipeline' | 'calendar' | 'strategy' | 'refresh' | 'policy');
       }
     };
 
@@ -899,7 +901,9 @@ export default function WebsitePage() {
                     { key: 'technical', label: 'Technical' },
                     { key: 'pipeline', label: 'Content Pipeline' },
                     { key: 'calendar', label: 'Calendar' },
-                    { key: 'strategy', label: 'Strategy' }
+                    { key: 'strategy', label: 'Strategy' },
+                    { key: 'refresh', label: 'Content Refresh' },
+                    { key: 'policy', label: 'Agent Policy' }
                   ].map(({ key, label }) => (
                     <button
                       key={key}
@@ -1460,6 +1464,24 @@ export default function WebsitePage() {
                   )}
                 </section>
               )}
+
+              {activeTab === 'refresh' && (
+                <section>
+                  <ContentRefreshReview
+                    userToken={user?.token || ''}
+                    websiteId={currentWebsite?.id}
+                  />
+                </section>
+              )}
+
+              {activeTab === 'policy' && (
+                <section>
+                  <SitePolicySettings
+                    userToken={user?.token || ''}
+                    domain={domain}
+                  />
+                </section>
+              )}
             </div>
           </main>
 
@@ -0,0 +1,251 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, ClipboardCheck, Copy, Link2, Loader2, RotateCcw, Undo2, XCircle } from 'lucide-react';
+import type { ArticleReview } from '@/services/content/article-review-service';
+import { CommentList, REVIEW_EVENT_LABELS, REVIEW_STATUS_LABELS } from './ArticleReviewPreview';
+
+// =============================
+// ArticleReviewPanel
+// - Review status of a draft; publishing stays blocked until it is approved
+// - Create, copy and revoke the shareable preview link reviewers comment on
+// - Approve, request changes (revises the draft with the open comments) or withdraw an approval
+// =============================
+
+interface ArticleReviewPanelProps {
+  userToken: string;
+  articleId: number;
+  onStatusChange?: (status: ArticleReview['status']) => void;
+}
+
+export default function ArticleReviewPanel({ userToken, articleId, onStatusChange }: ArticleReviewPanelProps) {
+  const [review, setReview] = useState<ArticleReview | null>(null);
+  const [feedback, setFeedback] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const baseUrl = `/api/articles/${articleId}/review`;
+  const previewUrl = review?.previewToken && typeof window !== 'undefined'
+    ? `${window.location.origin}/review/${review.previewToken}`
+    : null;
+
+  const loadReview = useCallback(async () => {
+    if (!userToken || !articleId) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`${baseUrl}?userToken=${encodeURIComponent(userToken)}`);
+      const data = await response.json();
+      setReview(data.success ? data.review : null);
+    } catch (error) {
+      console.error('[ARTICLE REVIEW] Failed to load review:', error);
+      setMessage({ type: 'error', text: 'Failed to load review' });
+    } finally {
+      setLoading(false);
+    }
+  }, [userToken, articleId, baseUrl]);
+
+  useEffect(() => {
+    loadReview();
+  }, [loadReview]);
+
+  const act = async (action: string, payload: Record<string, any> = {}, successText?: string) => {
+    setBusy(action);
+    setMessage(null);
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userToken, action, ...payload })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setReview(data.review);
+        onStatusChange?.(data.review.status);
+        if (successText) setMessage({ type: 'success', text: successText });
+        return true;
+      }
+      setMessage({ type: 'error', text: data.error || 'Review action failed' });
+      await loadReview();
+      return false;
+    } catch (error) {
+      console.error('[ARTICLE REVIEW] Action failed:', error);
+      setMessage({ type: 'error', text: 'Review action failed' });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!previewUrl) return;
+    await navigator.clipboard.writeText(previewUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const requestChanges = async () => {
+    if (await act('request_changes', { feedback }, 'Draft revised with the feedback and back in review')) {
+      setFeedback('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 py-4">
+        <Loader2 className="w-4 h-4 animate-spin mr-2" />
+        Loading review...
+      </div>
+    );
+  }
+
+  if (!review) return null;
+
+  const status = REVIEW_STATUS_LABELS[review.status] || REVIEW_STATUS_LABELS.pending;
+  const openComments = review.comments.filter(comment => comment.status === 'open');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4" />
+          Editorial Review
+        </h4>
+        <span className={`inline-flex items-center px-2 py-0.5 text-xs rounded-full border ${status.styles}`}>
+          {status.label}
+        </span>
+      </div>
+
+      {message && (
+        <div className={`text-sm rounded-lg px-3 py-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {review.status !== 'approved' && (
+        <p className="text-sm text-gray-600">Publishing is blocked until the article is approved.</p>
+      )}
+      {review.status === 'approved' && review.reviewedBy && (
+        <p className="text-sm text-gray-600">
+          Approved by {review.reviewedBy}
+          {review.reviewedAt && ` on ${format(new Date(review.reviewedAt), 'MMM d, yyyy HH:mm')}`}
+        </p>
+      )}
+
+      {/* Preview link */}
+      <div className="border rounded-lg p-3 space-y-2">
+        <div className="text-sm font-medium text-gray-900 flex items-center gap-2">
+          <Link2 className="w-4 h-4" />
+          Preview Link
+        </div>
+        {previewUrl ? (
+          <div className="flex items-center gap-2">
+            <input readOnly value={previewUrl} className="flex-1 border rounded px-2 py-1 text-xs text-gray-700 bg-gray-50" />
+            <button onClick={copyLink} title="Copy link" className="p-1.5 rounded hover:bg-gray-100">
+              {copied ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => act('create_link', {}, 'New link created; the old one no longer works')}
+              disabled={!!busy}
+              title="Replace link"
+              className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+            >
+              {busy === 'create_link' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => act('revoke_link', {}, 'Preview link revoked')}
+              disabled={!!busy}
+              title="Revoke link"
+              className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+            >
+              {busy === 'revoke_link' ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => act('create_link')}
+            disabled={!!busy}
+            className="px-3 py-1.5 text-xs rounded border hover:bg-gray-50 disabled:opacity-50"
+          >
+            {busy === 'create_link' ? 'Creating...' : 'Create shareable preview link'}
+          </button>
+        )}
+        <p className="text-xs text-gray-500">Anyone with the link can view the draft, comment, request changes and approve it.</p>
+      </div>
+
+      <CommentList
+        title={`Open comments (${openComments.length})`}
+        comments={openComments}
+        onResolve={review.status === 'revising' ? undefined : (id) => act('resolve_comment', { commentId: id })}
+      />
+
+      {/* Decision */}
+      {review.status === 'approved' ? (
+        <button
+          onClick={() => act('withdraw_approval', {}, 'Approval withdrawn')}
+          disabled={!!busy}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+        >
+          {busy === 'withdraw_approval' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Undo2 className="w-4 h-4" />}
+          Withdraw Approval
+        </button>
+      ) : review.status !== 'revising' && (
+        <div className="space-y-2">
+          <textarea
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            rows={2}
+            placeholder="What should change? Open comments are included automatically."
+            className="w-full border rounded-lg px-3 py-2 text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={requestChanges}
+              disabled={!!busy || (!feedback.trim() && openComments.length === 0)}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-orange-200 bg-orange-50 text-orange-700 hover:bg-orange-100 disabled:opacity-50"
+            >
+              {busy === 'request_changes' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              {busy === 'request_changes' ? 'Revising...' : 'Request Changes'}
+            </button>
+            {review.status === 'changes_requested' && (
+              <button
+                onClick={() => act('revise', {}, 'Draft revised and back in review')}
+                disabled={!!busy}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+              >
+                {busy === 'revise' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                Retry Revision
+              </button>
+            )}
+            <button
+              onClick={() => act('approve', {}, 'Article approved for publishing')}
+              disabled={!!busy}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-green-200 bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-50"
+            >
+              {busy === 'approve' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+              Approve
+            </button>
+          </div>
+        </div>
+      )}
+
+      {review.events.length > 0 && (
+        <div className="border rounded-lg divide-y max-h-56 overflow-auto">
+          {review.events.map(event => (
+            <div key={event.id} className="px-3 py-2 text-xs text-gray-600">
+              <span className="font-medium text-gray-800">{event.via === 'system' ? 'SEOAgent' : event.actor}</span>{' '}
+              {REVIEW_EVENT_LABELS[event.action] || event.action}
+              {event.via === 'preview_link' && ' via preview link'}
+              <span className="text-gray-400"> · {format(new Date(event.created_at), 'MMM d, yyyy HH:mm')}</span>
+              {event.note && <div className="mt-0.5 text-gray-700 whitespace-pre-wrap">{event.note}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Code, Image as ImageIcon, Loader2, MessageSquare, RotateCcw, Search, X } from 'lucide-react';
+import type { ArticlePreview, ReviewComment } from '@/services/content/article-review-service';
+
+// =============================
+// ArticleReviewPreview - public page behind a review link
+// - Renders the draft with its search snippet, meta tags, images and JSON-LD schema
+// - Select text in the article to leave an inline comment on it
+// - Request changes (the draft is revised with the open comments) or approve it for publishing
+// =============================
+
+interface ArticleReviewPreviewProps {
+  token: string;
+  initialPreview: ArticlePreview;
+}
+
+const REVIEWER_NAME_KEY = 'seoagent-reviewer-name';
+
+export const REVIEW_STATUS_LABELS: Record<string, { label: string; styles: string }> = {
+  pending: { label: 'Awaiting review', styles: 'bg-amber-50 text-amber-800 border-amber-200' },
+  changes_requested: { label: 'Changes requested', styles: 'bg-orange-50 text-orange-700 border-orange-200' },
+  revising: { label: 'Revising...', styles: 'bg-purple-50 text-purple-700 border-purple-200' },
+  approved: { label: 'Approved', styles: 'bg-green-50 text-green-700 border-green-200' }
+};
+
+export const REVIEW_EVENT_LABELS: Record<string, string> = {
+  preview_link_created: 'created a preview link',
+  preview_link_revoked: 'revoked the preview link',
+  comment_added: 'commented',
+  comment_resolved: 'resolved a comment',
+  changes_requested: 'requested changes',
+  revised: 'revised the draft',
+  revision_failed: 'could not revise the draft',
+  approved: 'approved the article',
+  approval_withdrawn: 'withdrew the approval'
+};
+
+function lengthHint(length: number, min: number, max: number) {
+  return length >= min && length <= max ? 'text-green-700' : 'text-amber-700';
+}
+
+export default function ArticleReviewPreview({ token, initialPreview }: ArticleReviewPreviewProps) {
+  const [preview, setPreview] = useState<ArticlePreview>(initialPreview);
+  const [reviewerName, setReviewerName] = useState('');
+  const [quote, setQuote] = useState<string | null>(null);
+  const [commentBody, setCommentBody] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const contentRef = useRef<HTMLElement>(null);
+
+  const apiUrl = `/api/review/${encodeURIComponent(token)}`;
+  const review = preview.review;
+  const openComments = review.comments.filter(comment => comment.status === 'open');
+  const resolvedComments = review.comments.filter(comment => comment.status === 'resolved');
+  const locked = preview.published || review.status === 'revising';
+  const status = REVIEW_STATUS_LABELS[review.status] || REVIEW_STATUS_LABELS.pending;
+  const url = `${preview.domain || 'your-site.com'}/${preview.slug || ''}`;
+
+  useEffect(() => {
+    setReviewerName(localStorage.getItem(REVIEWER_NAME_KEY) || '');
+  }, []);
+
+  const refresh = async () => {
+    const response = await fetch(apiUrl);
+    const data = await response.json();
+    if (data.success) setPreview(data.preview);
+  };
+
+  const captureSelection = () => {
+    const selection = window.getSelection();
+    const text = selection?.toString().trim();
+    if (!selection || !text || !contentRef.current?.contains(selection.anchorNode)) return;
+    setQuote(text.slice(0, 1000));
+  };
+
+  const act = async (action: string, payload: Record<string, any>, successText: string) => {
+    if (!reviewerName.trim()) {
+      setMessage({ type: 'error', text: 'Enter your name before reviewing' });
+      return false;
+    }
+
+    localStorage.setItem(REVIEWER_NAME_KEY, reviewerName.trim());
+    setBusy(action);
+    setMessage(null);
+    try {
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewerName: reviewerName.trim(), action, ...payload })
+      });
+      const data = await response.json();
+      await refresh();
+
+      if (!data.success) {
+        setMessage({ type: 'error', text: data.error || 'Review action failed' });
+        return false;
+      }
+      setMessage({ type: 'success', text: successText });
+      return true;
+    } catch (error) {
+      console.error('[ARTICLE REVIEW] Action failed:', error);
+      setMessage({ type: 'error', text: 'Review action failed' });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addComment = async () => {
+    if (await act('comment', { body: commentBody, quote }, 'Comment added')) {
+      setCommentBody('');
+      setQuote(null);
+    }
+  };
+
+  const requestChanges = async () => {
+    if (await act('request_changes', { feedback }, 'Changes requested - the draft was revised and is ready for another look')) {
+      setFeedback('');
+    }
+  };
+
+  const approve = () => {
+    if (!confirm('Approve this article for publishing?')) return;
+    act('approve', {}, 'Article approved');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {preview.schemaJson && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(preview.schemaJson).replace(/</g, '\\u003c') }}
+        />
+      )}
+
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <div className="text-xs text-gray-500">Draft review{preview.domain && ` · ${preview.domain}`}</div>
+            <h1 className="text-lg font-semibold text-gray-900 truncate">{preview.title}</h1>
+          </div>
+          <span className={`inline-flex items-center px-3 py-1 text-xs rounded-full border shrink-0 ${status.styles}`}>
+            {preview.published ? 'Published' : status.label}
+          </span>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 py-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <main className="lg:col-span-2 space-y-6">
+          {/* Search snippet and meta tags */}
+          <section className="bg-white border rounded-2xl p-5 space-y-4">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Search className="w-4 h-4" />
+              Search Preview
+            </h2>
+            <div className="border rounded-lg p-4">
+              <div className="text-xs text-gray-600 truncate">{url}</div>
+              <div className="text-lg text-blue-800 leading-snug mt-0.5">{preview.metaTitle}</div>
+              <div className="text-sm text-gray-700 mt-1">{preview.metaDescription}</div>
+            </div>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+              <div>
+                <dt className="text-gray-500">Meta title</dt>
+                <dd className={lengthHint(preview.metaTitle.length, 30, 60)}>{preview.metaTitle.length} characters</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Meta description</dt>
+                <dd className={lengthHint(preview.metaDescription.length, 120, 160)}>{preview.metaDescription.length} characters</dd>
+              </div>
+            </dl>
+          </section>
+
+          {/* Article */}
+          <section className="bg-white border rounded-2xl p-6">
+            <p className="text-xs text-gray-500 mb-4">Select any text in the article to comment on it.</p>
+            <article
+              ref={contentRef}
+              onMouseUp={captureSelection}
+              className="prose max-w-none text-gray-800"
+              dangerouslySetInnerHTML={{ __html: preview.content }}
+            />
+          </section>
+
+          {/* Images */}
+          {preview.images.length > 0 && (
+            <section className="bg-white border rounded-2xl p-5 space-y-3">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <ImageIcon className="w-4 h-4" />
+                Images
+              </h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {preview.images.map((image, index) => (
+                  <figure key={index} className="border rounded-lg overflow-hidden">
+                    {image.url ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={image.url} alt={image.alt || ''} className="w-full h-48 object-cover" />
+                    ) : (
+                      <div className="h-48 bg-gray-100 flex items-center justify-center p-4 text-xs text-gray-500 text-center">
+                        Generated when the article is published{image.prompt && `: "${image.prompt}"`}
+                      </div>
+                    )}
+                    <figcaption className="px-3 py-2 text-xs text-gray-600">
+                      <span className="capitalize">{image.type}</span>
+                      {image.alt && ` · alt: ${image.alt}`}
+                      {image.caption && ` · ${image.caption}`}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Schema */}
+          {preview.schemaJson && (
+            <section className="bg-white border rounded-2xl p-5 space-y-3">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Code className="w-4 h-4" />
+                Structured Data ({preview.schemaJson['@type'] || 'JSON-LD'})
+              </h2>
+              <pre className="text-xs bg-gray-50 border rounded-lg p-3 overflow-auto max-h-80">
+                {JSON.stringify(preview.schemaJson, null, 2)}
+              </pre>
+            </section>
+          )}
+        </main>
+
+        <aside className="space-y-4 lg:sticky lg:top-4 self-start">
+          {message && (
+            <div className={`text-sm rounded-lg px-3 py-2 ${
+              message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          <div className="bg-white border rounded-2xl p-4 space-y-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Your name
+              <input
+                value={reviewerName}
+                onChange={(e) => setReviewerName(e.target.value)}
+                maxLength={120}
+                placeholder="Jane from Marketing"
+                className="mt-1 w-full border rounded-lg px-3 py-2 text-sm font-normal"
+              />
+            </label>
+
+            {!locked && (
+              <div className="space-y-2">
+                {quote && (
+                  <div className="flex items-start gap-2 text-xs bg-yellow-50 border border-yellow-200 rounded p-2">
+                    <span className="flex-1 italic text-gray-700 line-clamp-3">&ldquo;{quote}&rdquo;</span>
+                    <button onClick={() => setQuote(null)} title="Comment on the whole article" className="shrink-0">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+                <textarea
+                  value={commentBody}
+                  onChange={(e) => setCommentBody(e.target.value)}
+                  rows={3}
+                  placeholder={quote ? 'Comment on the selected text' : 'Comment on the article'}
+                  className="w-full border rounded-lg px-3 py-2 text-sm"
+                />
+                <button
+                  onClick={addComment}
+                  disabled={!!busy || !commentBody.trim()}
+                  className="w-full inline-flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {busy === 'comment' ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageSquare className="w-4 h-4" />}
+                  Add Comment
+                </button>
+              </div>
+            )}
+          </div>
+
+          <CommentList
+            title={`Open comments (${openComments.length})`}
+            comments={openComments}
+            onResolve={locked ? undefined : (id) => act('resolve_comment', { commentId: id }, 'Comment resolved')}
+          />
+
+          {!locked && (
+            <div className="bg-white border rounded-2xl p-4 space-y-3">
+              <textarea
+                value={feedback}
+                onChange={(e) => setFeedback(e.target.value)}
+                rows={3}
+                placeholder="Overall feedback for the revision (optional when you left comments)"
+                className="w-full border rounded-lg px-3 py-2 text-sm"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={requestChanges}
+                  disabled={!!busy || (!feedback.trim() && openComments.length === 0)}
+                  className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg border border-orange-200 bg-orange-50 text-orange-700 hover:bg-orange-100 disabled:opacity-50"
+                >
+                  {busy === 'request_changes' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                  {busy === 'request_changes' ? 'Revising...' : 'Request Changes'}
+                </button>
+                <button
+                  onClick={approve}
+                  disabled={!!busy || review.status === 'approved'}
+                  className="inline-flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg border border-green-200 bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-50"
+                >
+                  {busy === 'approve' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                  Approve
+                </button>
+              </div>
+              {review.status === 'approved' && review.reviewedBy && (
+                <p className="text-xs text-gray-600">
+                  Approved by {review.reviewedBy}
+                  {review.reviewedAt && ` on ${format(new Date(review.reviewedAt), 'MMM d, yyyy HH:mm')}`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {resolvedComments.length > 0 && (
+            <CommentList title={`Resolved (${resolvedComments.length})`} comments={resolvedComments} />
+          )}
+
+          {review.events.length > 0 && (
+            <div className="bg-white border rounded-2xl p-4">
+              <h3 className="font-medium text-sm text-gray-900 mb-2">History</h3>
+              <ul className="space-y-2 text-xs text-gray-600">
+                {review.events.map(event => (
+                  <li key={event.id}>
+                    <span className="font-medium text-gray-800">{event.via === 'system' ? 'SEOAgent' : event.actor}</span>{' '}
+                    {REVIEW_EVENT_LABELS[event.action] || event.action}
+                    <span className="text-gray-400"> · {format(new Date(event.created_at), 'MMM d, HH:mm')}</span>
+                    {event.note && <div className="mt-0.5 text-gray-700 whitespace-pre-wrap">{event.note}</div>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
+
+export function CommentList({ title, comments, onResolve }: {
+  title: string;
+  comments: ReviewComment[];
+  onResolve?: (commentId: string) => void;
+}) {
+  return (
+    <div className="bg-white border rounded-2xl p-4">
+      <h3 className="font-medium text-sm text-gray-900 mb-2">{title}</h3>
+      {comments.length === 0 ? (
+        <p className="text-xs text-gray-500">No comments.</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map(comment => (
+            <li key={comment.id} className="text-sm">
+              {comment.quote && (
+                <div className="text-xs italic text-gray-600 border-l-2 border-yellow-300 pl-2 mb-1 line-clamp-3">
+                  &ldquo;{comment.quote}&rdquo;
+                </div>
+              )}
+              <div className="text-gray-800 whitespace-pre-wrap">{comment.body}</div>
+              <div className="flex items-center justify-between text-xs text-gray-500 mt-1">
+                <span>
+                  {comment.author_name} · {format(new Date(comment.created_at), 'MMM d, HH:mm')}
+                  {comment.resolved_by && ` · resolved by ${comment.resolved_by}`}
+                </span>
+                {onResolve && (
+                  <button onClick={() => onResolve(comment.id)} className="text-blue-600 hover:text-blue-800">
+                    Resolve
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ExternalLink, Languages, Loader2, Settings, Star, Trash2 } from 'lucide-react';
+import type { ArticleTranslations, WebsiteLocale } from '@/services/content/article-translation-service';
+import { REVIEW_STATUS_LABELS } from './ArticleReviewPreview';
+
+// =============================
+// ArticleTranslationsPanel
+// - Language versions of an article; the original and its translations share hreflang alternates
+// - Translate an approved article into the site's languages or any other language code
+// - Where each language is published: CMS locale and blog / collection per language
+// =============================
+
+interface ArticleTranslationsPanelProps {
+  userToken: string;
+  websiteToken: string;
+  articleId: number;
+  onTranslated?: () => void;
+}
+
+const EMPTY_LOCALE = { language: '', cmsLocale: '', targetBlogId: '', isDefault: false };
+
+export default function ArticleTranslationsPanel({ userToken, websiteToken, articleId, onTranslated }: ArticleTranslationsPanelProps) {
+  const [translations, setTranslations] = useState<ArticleTranslations | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [customLanguage, setCustomLanguage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [translating, setTranslating] = useState(false);
+  const [showLocales, setShowLocales] = useState(false);
+  const [localeForm, setLocaleForm] = useState(EMPTY_LOCALE);
+  const [savingLocale, setSavingLocale] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadTranslations = useCallback(async () => {
+    if (!userToken || !articleId) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/articles/${articleId}/translations?userToken=${encodeURIComponent(userToken)}`);
+      const data = await response.json();
+      setTranslations(data.success ? data : null);
+    } catch (error) {
+      console.error('[ARTICLE TRANSLATIONS] Failed to load translations:', error);
+      setMessage({ type: 'error', text: 'Failed to load translations' });
+    } finally {
+      setLoading(false);
+    }
+  }, [userToken, articleId]);
+
+  useEffect(() => {
+    loadTranslations();
+  }, [loadTranslations]);
+
+  const toggleLanguage = (language: string) => {
+    setSelected(current => current.includes(language) ? current.filter(item => item !== language) : [...current, language]);
+  };
+
+  const addCustomLanguage = () => {
+    const language = customLanguage.trim();
+    if (language && !selected.includes(language)) {
+      setSelected([...selected, language]);
+    }
+    setCustomLanguage('');
+  };
+
+  const translate = async () => {
+    setTranslating(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/articles/${articleId}/translations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userToken, languages: selected })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setMessage({ type: 'error', text: data.error || 'Translation failed' });
+        return;
+      }
+
+      setTranslations(data);
+      setSelected([]);
+      const failed = (data.failed || []).map((item: { language: string; error: string }) => `${item.language}: ${item.error}`);
+      setMessage(failed.length > 0
+        ? { type: 'error', text: `Created ${data.created.length}; failed ${failed.join('; ')}` }
+        : { type: 'success', text: `Created ${data.created.length} translation${data.created.length === 1 ? '' : 's'}, each waiting for review` });
+      if (data.created.length > 0) onTranslated?.();
+    } catch (error) {
+      console.error('[ARTICLE TRANSLATIONS] Translate failed:', error);
+      setMessage({ type: 'error', text: 'Translation failed' });
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  const updateLocales = async (request: Promise<Response>) => {
+    setSavingLocale(true);
+    setMessage(null);
+    try {
+      const data = await (await request).json();
+      if (!data.success) {
+        setMessage({ type: 'error', text: data.error || 'Failed to save language settings' });
+        return false;
+      }
+      setTranslations(current => current ? { ...current, locales: data.locales } : current);
+      return true;
+    } catch (error) {
+      console.error('[ARTICLE TRANSLATIONS] Locale update failed:', error);
+      setMessage({ type: 'error', text: 'Failed to save language settings' });
+      return false;
+    } finally {
+      setSavingLocale(false);
+    }
+  };
+
+  const saveLocale = async () => {
+    const saved = await updateLocales(fetch('/api/content/locales', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userToken, websiteToken, locale: localeForm })
+    }));
+    if (saved) setLocaleForm(EMPTY_LOCALE);
+  };
+
+  const removeLocale = (language: string) => updateLocales(fetch(
+    `/api/content/locales?userToken=${encodeURIComponent(userToken)}&websiteToken=${encodeURIComponent(websiteToken)}&language=${encodeURIComponent(language)}`,
+    { method: 'DELETE' }
+  ));
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 py-4">
+        <Loader2 className="w-4 h-4 animate-spin mr-2" />
+        Loading translations...
+      </div>
+    );
+  }
+
+  if (!translations) return null;
+
+  const original = translations.variants.find(variant => variant.isOriginal);
+  const canTranslate = !!original && (original.reviewStatus === 'approved' || original.status === 'published');
+  const translatedLanguages = translations.variants.map(variant => variant.language);
+  const suggestions = translations.locales
+    .map(locale => locale.language)
+    .filter(language => !translatedLanguages.includes(language));
+  const choices = suggestions.concat(selected.filter(language => !suggestions.includes(language)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Languages className="w-4 h-4" />
+          Translations
+        </h4>
+        <button
+          onClick={() => setShowLocales(!showLocales)}
+          className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+        >
+          <Settings className="w-3.5 h-3.5" />
+          Site languages
+        </button>
+      </div>
+
+      {message && (
+        <div className={`text-sm rounded-lg px-3 py-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="border rounded-lg divide-y">
+        {translations.variants.map(variant => {
+          const review = variant.reviewStatus ? REVIEW_STATUS_LABELS[variant.reviewStatus] : null;
+          return (
+            <div key={variant.articleId} className="px-3 py-2 flex items-center gap-2 text-sm">
+              <span className="px-1.5 py-0.5 rounded bg-gray-100 text-xs font-mono text-gray-700">{variant.language}</span>
+              <span className="flex-1 min-w-0 truncate text-gray-800">
+                {variant.title}
+                {variant.isOriginal && <span className="ml-1 text-xs text-gray-500">(original)</span>}
+              </span>
+              {variant.status === 'published' ? (
+                variant.publicUrl ? (
+                  <a href={variant.publicUrl} target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:text-blue-800 inline-flex items-center gap-1">
+                    Published <ExternalLink className="w-3 h-3" />
+                  </a>
+                ) : (
+                  <span className="text-xs text-green-700">Published</span>
+                )
+              ) : review && (
+                <span className={`inline-flex items-center px-2 py-0.5 text-xs rounded-full border ${review.styles}`}>{review.label}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canTranslate ? (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {choices.map(language => (
+              <button
+                key={language}
+                onClick={() => toggleLanguage(language)}
+                className={`px-2 py-1 text-xs rounded border font-mono ${
+                  selected.includes(language) ? 'bg-violet-50 border-violet-300 text-violet-700' : 'hover:bg-gray-50 text-gray-700'
+                }`}
+              >
+                {language}
+              </button>
+            ))}
+            <input
+              value={customLanguage}
+              onChange={(e) => setCustomLanguage(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCustomLanguage()}
+              placeholder="Other language, e.g. pt-BR"
+              className="border rounded px-2 py-1 text-xs w-44"
+            />
+          </div>
+          <button
+            onClick={translate}
+            disabled={translating || selected.length === 0}
+            className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+          >
+            {translating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+            {translating ? 'Translating...' : `Translate${selected.length > 0 ? ` into ${selected.join(', ')}` : ''}`}
+          </button>
+          <p className="text-xs text-gray-500">
+            Keywords, slug and meta tags are localized, not translated word for word. Translations go through review before publishing.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">Approve the article to translate it; translations are made from the approved text.</p>
+      )}
+
+      {showLocales && (
+        <div className="border rounded-lg p-3 space-y-2">
+          <div className="text-sm font-medium text-gray-900">Where each language is published</div>
+          {translations.locales.length === 0 && (
+            <p className="text-xs text-gray-500">
+              No languages set up; translations publish to the same CMS and blog as the original, in {translations.sourceLanguage}.
+            </p>
+          )}
+          {translations.locales.map((locale: WebsiteLocale) => (
+            <div key={locale.language} className="flex items-center gap-2 text-xs text-gray-700">
+              <span className="px-1.5 py-0.5 rounded bg-gray-100 font-mono">{locale.language}</span>
+              {locale.isDefault && <Star className="w-3.5 h-3.5 text-amber-500" aria-label="Default language" />}
+              <span className="flex-1 text-gray-500">
+                {[locale.cmsLocale && `CMS locale ${locale.cmsLocale}`, locale.targetBlogId && `blog ${locale.targetBlogId}`].filter(Boolean).join(' · ') || 'Same target as the original'}
+              </span>
+              <button onClick={() => setLocaleForm({
+                language: locale.language,
+                cmsLocale: locale.cmsLocale || '',
+                targetBlogId: locale.targetBlogId || '',
+                isDefault: locale.isDefault
+              })} className="text-gray-500 hover:text-gray-900">Edit</button>
+              <button onClick={() => removeLocale(locale.language)} disabled={savingLocale} title="Remove language" className="text-gray-400 hover:text-red-600">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-3 gap-2 pt-1">
+            <input
+              value={localeForm.language}
+              onChange={(e) => setLocaleForm({ ...localeForm, language: e.target.value })}
+              placeholder="Language (de)"
+              className="border rounded px-2 py-1 text-xs"
+            />
+            <input
+              value={localeForm.cmsLocale}
+              onChange={(e) => setLocaleForm({ ...localeForm, cmsLocale: e.target.value })}
+              placeholder="CMS locale (de-DE)"
+              className="border rounded px-2 py-1 text-xs"
+            />
+            <input
+              value={localeForm.targetBlogId}
+              onChange={(e) => setLocaleForm({ ...localeForm, targetBlogId: e.target.value })}
+              placeholder="Blog / collection"
+              className="border rounded px-2 py-1 text-xs"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={localeForm.isDefault}
+                onChange={(e) => setLocaleForm({ ...localeForm, isDefault: e.target.checked })}
+              />
+              Originals are written in this language
+            </label>
+            <button
+              onClick={saveLocale}
+              disabled={savingLocale || !localeForm.language.trim()}
+              className="px-3 py-1 text-xs rounded border hover:bg-gray-50 disabled:opacity-50"
+            >
+              {savingLocale ? 'Saving...' : 'Save language'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
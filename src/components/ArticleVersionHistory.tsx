@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { GitCompare, History, Loader2, RotateCcw, Upload } from 'lucide-react';
+
+// =============================
+// ArticleVersionHistory
+// - Every recorded version of an article (generation, edits, link injection, refreshes, restores)
+// - Side-by-side HTML diff between any version and the current article or another version
+// - Restore a version locally, or restore and republish it to the connected CMS
+// =============================
+
+interface ArticleVersionHistoryProps {
+  userToken: string;
+  articleId: number;
+  canRepublish?: boolean; // article is live in a CMS
+}
+
+interface VersionSummary {
+  id: string;
+  version_number: number;
+  source: string;
+  reason: string | null;
+  title: string | null;
+  word_count: number;
+  created_at: string;
+}
+
+interface SideBySideRow {
+  type: 'same' | 'changed' | 'added' | 'removed';
+  left: string | null;
+  right: string | null;
+}
+
+interface VersionDiff {
+  from: { id: string; label: string };
+  to: { id: string; label: string };
+  rows: SideBySideRow[];
+  summary: { added: number; removed: number; unchanged: number };
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  generation: 'Generated',
+  manual_edit: 'Manual edit',
+  link_injection: 'Internal links',
+  cms_edit: 'CMS edit',
+  refresh: 'Refresh',
+  restore: 'Restored',
+  review_revision: 'Review revision',
+  translation: 'Translation',
+  snapshot: 'Snapshot'
+};
+
+const LEFT_STYLES: Record<SideBySideRow['type'], string> = {
+  same: 'text-gray-500',
+  changed: 'bg-red-50 text-red-900',
+  removed: 'bg-red-50 text-red-900',
+  added: 'bg-gray-50'
+};
+
+const RIGHT_STYLES: Record<SideBySideRow['type'], string> = {
+  same: 'text-gray-500',
+  changed: 'bg-green-50 text-green-900',
+  added: 'bg-green-50 text-green-900',
+  removed: 'bg-gray-50'
+};
+
+export default function ArticleVersionHistory({ userToken, articleId, canRepublish }: ArticleVersionHistoryProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [compareTo, setCompareTo] = useState<string>('current');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const baseUrl = `/api/articles/${articleId}/versions`;
+
+  const loadVersions = useCallback(async () => {
+    if (!userToken || !articleId) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`${baseUrl}?userToken=${encodeURIComponent(userToken)}`);
+      const data = await response.json();
+      setVersions(data.success ? data.versions : []);
+    } catch (error) {
+      console.error('[ARTICLE VERSIONS] Failed to load versions:', error);
+      setMessage({ type: 'error', text: 'Failed to load version history' });
+    } finally {
+      setLoading(false);
+    }
+  }, [userToken, articleId, baseUrl]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const compare = async (versionId: string) => {
+    setBusy(`compare-${versionId}`);
+    try {
+      const response = await fetch(
+        `${baseUrl}?userToken=${encodeURIComponent(userToken)}&from=${versionId}&to=${compareTo}`
+      );
+      const data = await response.json();
+      if (data.success) {
+        setDiff(data.diff);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to load diff' });
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const restore = async (version: VersionSummary, republish: boolean) => {
+    const action = republish ? 'restore and republish' : 'restore';
+    if (!confirm(`${action.charAt(0).toUpperCase() + action.slice(1)} version ${version.version_number}?`)) return;
+
+    setBusy(`${republish ? 'republish' : 'restore'}-${version.id}`);
+    setMessage(null);
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userToken, versionId: version.id, republish })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setMessage({
+          type: 'success',
+          text: republish
+            ? `Version ${version.version_number} restored and republished`
+            : `Version ${version.version_number} restored`
+        });
+        setDiff(null);
+        await loadVersions();
+      } else {
+        setMessage({ type: 'error', text: [data.error, data.details].filter(Boolean).join(': ') || 'Restore failed' });
+      }
+    } catch (error) {
+      console.error('[ARTICLE VERSIONS] Restore failed:', error);
+      setMessage({ type: 'error', text: 'Restore failed' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 py-4">
+        <Loader2 className="w-4 h-4 animate-spin mr-2" />
+        Loading version history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Version History
+        </h4>
+        {versions.length > 1 && (
+          <label className="text-xs text-gray-600 flex items-center gap-2">
+            Compare with
+            <select
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value)}
+              className="border rounded px-2 py-1 text-xs"
+            >
+              <option value="current">Current</option>
+              {versions.map(v => (
+                <option key={v.id} value={v.id}>Version {v.version_number}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {message && (
+        <div className={`text-sm rounded-lg px-3 py-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-600">No versions recorded yet.</p>
+      ) : (
+        <div className="border rounded-lg divide-y">
+          {versions.map(version => (
+            <div key={version.id} className="px-3 py-2 flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900">
+                  Version {version.version_number}
+                  <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                    {SOURCE_LABELS[version.source] || version.source}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-600 mt-0.5 truncate">
+                  {format(new Date(version.created_at), 'MMM d, yyyy HH:mm')} · {version.word_count.toLocaleString()} words
+                  {version.reason && ` · ${version.reason}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => compare(version.id)}
+                  disabled={!!busy || compareTo === version.id}
+                  title="Compare"
+                  className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+                >
+                  {busy === `compare-${version.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => restore(version, false)}
+                  disabled={!!busy}
+                  title="Restore"
+                  className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+                >
+                  {busy === `restore-${version.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                </button>
+                {canRepublish && (
+                  <button
+                    onClick={() => restore(version, true)}
+                    disabled={!!busy}
+                    title="Restore and republish"
+                    className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+                  >
+                    {busy === `republish-${version.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff && (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="grid grid-cols-2 text-xs font-medium text-gray-700 bg-gray-50 border-b">
+            <div className="px-3 py-2">{diff.from.label}</div>
+            <div className="px-3 py-2 border-l flex items-center justify-between">
+              {diff.to.label}
+              <span>
+                <span className="text-green-700">+{diff.summary.added}</span>{' '}
+                <span className="text-red-700">-{diff.summary.removed}</span>
+              </span>
+            </div>
+          </div>
+          <div className="max-h-[420px] overflow-auto font-mono text-xs">
+            {diff.rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-2">
+                <div className={`px-3 py-1 whitespace-pre-wrap break-words ${LEFT_STYLES[row.type]}`}>{row.left}</div>
+                <div className={`px-3 py-1 whitespace-pre-wrap break-words border-l ${RIGHT_STYLES[row.type]}`}>{row.right}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
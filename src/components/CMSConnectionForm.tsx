@@ -30,12 +30,55 @@ interface DiscoveredContentType {
   suitableForBlogging: number;
 }
 
+interface ProviderSetting {
+  key: string;
+  label: string;
+  placeholder: string;
+  required?: boolean;
+}
+
+// Headless, Git and Webhook CMSs are configured through auth_config rather than a content type discovery step
+const PROVIDER_SETTINGS: Record<string, ProviderSetting[]> = {
+  contentful: [
+    { key: 'spaceId', label: 'Space ID', placeholder: 'abc123xyz', required: true },
+    { key: 'environmentId', label: 'Environment', placeholder: 'master' },
+    { key: 'contentType', label: 'Content Type ID', placeholder: 'blogPost' }
+  ],
+  sanity: [
+    { key: 'projectId', label: 'Project ID', placeholder: 'a1b2c3d4', required: true },
+    { key: 'dataset', label: 'Dataset', placeholder: 'production' },
+    { key: 'contentType', label: 'Document Type', placeholder: 'post' },
+    { key: 'studioUrl', label: 'Studio URL', placeholder: 'https://your-project.sanity.studio' }
+  ],
+  git: [
+    { key: 'repoUrl', label: 'Repository URL', placeholder: 'https://github.com/you/your-site.git', required: true },
+    { key: 'branch', label: 'Branch', placeholder: 'main' },
+    { key: 'contentDir', label: 'Content Directory', placeholder: 'content/posts' }
+  ],
+  webhook: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://your-app.com/api/seoagent-webhook', required: true }
+  ]
+};
+
+const getCMSName = (cmsType: string) => {
+  switch (cmsType) {
+    case 'wordpress': return 'WordPress';
+    case 'ghost': return 'Ghost';
+    case 'strapi': return 'Strapi';
+    case 'contentful': return 'Contentful';
+    case 'sanity': return 'Sanity';
+    case 'git': return 'Git';
+    case 'webhook': return 'Webhook';
+    default: return 'CMS';
+  }
+};
+
 interface CMSConnectionFormProps {
   onSuccess: () => void;
   onCancel: () => void;
   connection?: any; // For editing existing connections
   preselectedWebsiteId?: string | number; // For modal usage
-  initialCmsType?: 'wordpress' | 'strapi' | 'wix' | 'ghost';
+  initialCmsType?: 'wordpress' | 'strapi' | 'wix' | 'ghost' | 'contentful' | 'sanity' | 'git' | 'webhook';
 }
 
 export default function CMSConnectionForm({ onSuccess, onCancel, connection, preselectedWebsiteId, initialCmsType }: CMSConnectionFormProps) {
@@ -59,6 +102,11 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
     wp_username: '',
     wp_app_password: ''
   });
+  const [authConfig, setAuthConfig] = useState<Record<string, string>>(connection?.auth_config || {});
+
+  const providerSettings = PROVIDER_SETTINGS[formData.cms_type] || [];
+  // Git remotes over SSH (and public https repositories) don't need a token
+  const tokenRequired = formData.cms_type !== 'git';
 
   useEffect(() => {
     fetchUserWebsites();
@@ -146,6 +194,28 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
     }
   };
 
+  const handleAuthConfigChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setAuthConfig(prev => ({
+      ...prev,
+      [name]: value
+    }));
+    setTokenValid(null);
+  };
+
+  // Only send settings that belong to the selected CMS
+  const buildAuthConfig = () => {
+    if (!PROVIDER_SETTINGS[formData.cms_type]) return undefined;
+    const keys = PROVIDER_SETTINGS[formData.cms_type].map(setting => setting.key)
+      .concat(formData.cms_type === 'git' ? ['publishMode'] : []);
+    return keys.reduce((config, key) => {
+      if (authConfig[key]?.trim()) config[key] = authConfig[key].trim();
+      return config;
+    }, {} as Record<string, string>);
+  };
+
+  const missingProviderSetting = () => providerSettings.find(setting => setting.required && !authConfig[setting.key]?.trim());
+
   const testToken = async () => {
     if (!formData.base_url) {
       setError('Please enter your site URL');
@@ -156,10 +226,15 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
         setError('Enter your WordPress username and application password');
         return;
       }
-    } else if (!formData.api_token) {
+    } else if (!formData.api_token && tokenRequired) {
       setError('Please enter your API token');
       return;
     }
+    const missingSetting = missingProviderSetting();
+    if (missingSetting) {
+      setError(`Please enter your ${missingSetting.label}`);
+      return;
+    }
 
     try {
       setTestingToken(true);
@@ -187,7 +262,8 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
           wp_username: formData.cms_type === 'wordpress' ? wpUsername : undefined,
           wp_app_password: formData.cms_type === 'wordpress' ? wpPassword : undefined,
           userToken: user?.token,
-          content_type: formData.content_type || (formData.cms_type === 'wordpress' ? 'posts' : undefined)
+          content_type: formData.content_type || (formData.cms_type === 'wordpress' ? 'posts' : undefined),
+          auth_config: buildAuthConfig()
         })
       });
 
@@ -208,7 +284,7 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
   };
 
   const discoverContentTypes = async () => {
-    if (!formData.base_url || !formData.api_token) {
+    if (!formData.base_url || (!formData.api_token && tokenRequired)) {
       if (formData.cms_type === 'wordpress') {
         // Allow empty api_token if username/password provided
         if (!formData.wp_username || !formData.wp_app_password) {
@@ -245,6 +321,22 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
       return;
     }
 
+    // Contentful, Sanity, Git and Webhook take their content type from the provider settings - skip to final step
+    if (PROVIDER_SETTINGS[formData.cms_type]) {
+      const missingSetting = missingProviderSetting();
+      if (missingSetting) {
+        setError(`Please enter your ${missingSetting.label}`);
+        return;
+      }
+      setFormData(prev => ({
+        ...prev,
+        content_type: authConfig.contentType?.trim() || '',
+        connection_name: prev.connection_name || `${getCMSName(prev.cms_type)} - ${prev.base_url.replace(/^https?:\/\//, '').replace(/\/$/, '')}`
+      }));
+      setCurrentStep(3);
+      return;
+    }
+
     try {
       setDiscovering(true);
       setError(null);
@@ -308,7 +400,7 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
         apiTokenToSave = `${user}:${pass.replace(/\s+/g, '')}`;
       }
     } else {
-      if (!formData.connection_name || !formData.website_id || !formData.base_url || !formData.api_token) {
+      if (!formData.connection_name || !formData.website_id || !formData.base_url || (!formData.api_token && tokenRequired)) {
         setError('Please fill in all required fields');
         return;
       }
@@ -329,6 +421,7 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
         body: JSON.stringify({
           ...formData,
           api_token: apiTokenToSave,
+          auth_config: buildAuthConfig(),
           userToken: user?.token,
         }),
       });
@@ -365,20 +458,17 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
   );
 
   const renderStep1 = () => {
-    const getCMSDisplayName = () => {
-      switch (formData.cms_type) {
-        case 'wordpress': return 'WordPress';
-        case 'ghost': return 'Ghost';
-        case 'strapi': return 'Strapi';
-        default: return 'CMS';
-      }
-    };
+    const getCMSDisplayName = () => getCMSName(formData.cms_type);
 
     const getCMSDescription = () => {
       switch (formData.cms_type) {
         case 'wordpress': return 'Enter your WordPress site URL and Application Password';
         case 'ghost': return 'Enter your Ghost Admin URL and API Key to get started';
         case 'strapi': return 'Enter your Strapi URL and API token to get started';
+        case 'contentful': return 'Enter your Contentful space and a Content Management API token';
+        case 'sanity': return 'Enter your Sanity project and an API token with write access';
+        case 'git': return 'Publish Markdown posts to the Git repository your site is built from';
+        case 'webhook': return 'Receive signed article events on your own endpoint';
         default: return 'Configure your CMS connection';
       }
     };
@@ -411,6 +501,10 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
               <option value="wordpress">WordPress</option>
               <option value="strapi">Strapi</option>
               <option value="ghost">Ghost</option>
+              <option value="contentful">Contentful</option>
+              <option value="sanity">Sanity</option>
+              <option value="git">Git (Markdown)</option>
+              <option value="webhook">Webhook</option>
             </select>
           </div>
         )}
@@ -418,7 +512,8 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
         <div>
           <label htmlFor="base_url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
             {formData.cms_type === 'wordpress' ? 'WordPress Site URL *' :
-             formData.cms_type === 'ghost' ? 'Ghost Admin URL *' : 'Strapi Base URL *'}
+             formData.cms_type === 'ghost' ? 'Ghost Admin URL *' :
+             PROVIDER_SETTINGS[formData.cms_type] ? 'Public Site URL *' : 'Strapi Base URL *'}
           </label>
           <input
             id="base_url"
@@ -430,6 +525,8 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
               ? "https://your-wordpress-site.com"
               : formData.cms_type === 'ghost'
               ? "https://your-ghost-site.com"
+              : PROVIDER_SETTINGS[formData.cms_type]
+              ? "https://your-site.com"
               : "https://your-strapi-instance.railway.app"
             }
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-violet-500 focus:border-transparent"
@@ -445,8 +542,49 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
               <p>Enter your Ghost site URL (e.g., https://yourblog.ghost.io or your custom domain)</p>
             </div>
           )}
+          {PROVIDER_SETTINGS[formData.cms_type] && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <p>The site that renders your posts - published articles link to {'{site}'}/blog/{'{slug}'}</p>
+            </div>
+          )}
         </div>
 
+        {providerSettings.map(setting => (
+          <div key={setting.key}>
+            <label htmlFor={setting.key} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {setting.label}{setting.required ? ' *' : ''}
+            </label>
+            <input
+              id={setting.key}
+              type="text"
+              name={setting.key}
+              value={authConfig[setting.key] || ''}
+              onChange={handleAuthConfigChange}
+              placeholder={setting.placeholder}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+              required={setting.required}
+            />
+          </div>
+        ))}
+
+        {formData.cms_type === 'git' && (
+          <div>
+            <label htmlFor="publishMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Publish As
+            </label>
+            <select
+              id="publishMode"
+              name="publishMode"
+              value={authConfig.publishMode || 'commit'}
+              onChange={handleAuthConfigChange}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+            >
+              <option value="commit">Commit to the branch</option>
+              <option value="pull_request">Pull request for review</option>
+            </select>
+          </div>
+        )}
+
         {formData.cms_type === 'wordpress' ? (
           <>
             <div>
@@ -513,7 +651,10 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
         ) : (
           <div>
             <label htmlFor="api_token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              {formData.cms_type === 'ghost' ? 'Admin API Key *' : 'API Token *'}
+              {formData.cms_type === 'ghost' ? 'Admin API Key *' :
+               formData.cms_type === 'contentful' ? 'Content Management Token *' :
+               formData.cms_type === 'git' ? 'Access Token' :
+               formData.cms_type === 'webhook' ? 'Signing Secret *' : 'API Token *'}
             </label>
             <input
               id="api_token"
@@ -526,10 +667,18 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
                   ? 'Your Ghost Admin API Key (format: id:secret)'
                   : formData.cms_type === 'wix'
                   ? 'Your Wix API Key'
+                  : formData.cms_type === 'contentful'
+                  ? 'Your Contentful personal access token (CFPAT-...)'
+                  : formData.cms_type === 'sanity'
+                  ? 'Your Sanity API token (Editor permissions)'
+                  : formData.cms_type === 'git'
+                  ? 'GitHub, GitLab or Bitbucket token (not needed for SSH)'
+                  : formData.cms_type === 'webhook'
+                  ? 'Shared secret your endpoint uses to verify X-SEOAgent-Signature'
                   : 'Your Strapi API token'
               }
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-              required
+              required={tokenRequired}
             />
             {formData.cms_type === 'ghost' && (
               <div className="text-xs text-gray-500 dark:text-gray-400 mt-2 space-y-1">
@@ -546,7 +695,7 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
           <button
             type="button"
             onClick={testToken}
-            disabled={!formData.base_url || (formData.cms_type === 'wordpress' ? (!((formData as any).wp_username && (formData as any).wp_app_password) && !formData.api_token) : !formData.api_token) || testingToken}
+            disabled={!formData.base_url || (formData.cms_type === 'wordpress' ? (!((formData as any).wp_username && (formData as any).wp_app_password) && !formData.api_token) : (!formData.api_token && tokenRequired)) || testingToken}
             className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors disabled:cursor-not-allowed"
           >
             {testingToken ? (
@@ -567,7 +716,7 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
           <button
             type="button"
             onClick={discoverContentTypes}
-            disabled={!formData.base_url || !formData.api_token || discovering || (formData.cms_type !== 'wordpress' && tokenValid !== true)}
+            disabled={!formData.base_url || (!formData.api_token && tokenRequired) || discovering || (formData.cms_type !== 'wordpress' && tokenValid !== true)}
             className="flex items-center px-4 py-2 bg-violet-600 hover:bg-violet-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors disabled:cursor-not-allowed"
           >
             {discovering ? (
@@ -781,9 +930,7 @@ export default function CMSConnectionForm({ onSuccess, onCancel, connection, pre
         <h4 className="font-medium text-gray-900 dark:text-white mb-3">Connection Summary</h4>
         <div className="space-y-2 text-sm">
           <div><span className="font-medium text-gray-900 dark:text-white">CMS Type:</span> <span className="text-gray-900 dark:text-gray-100">
-            {formData.cms_type === 'wordpress' ? 'WordPress' :
-             formData.cms_type === 'ghost' ? 'Ghost' :
-             formData.cms_type === 'strapi' ? 'Strapi' : formData.cms_type}
+            {getCMSName(formData.cms_type)}
           </span></div>
           <div><span className="font-medium text-gray-900 dark:text-white">Base URL:</span> <span className="text-gray-900 dark:text-gray-100">{formData.base_url}</span></div>
           {preselectedWebsiteId && (
@@ -1,16 +1,18 @@
 'use client';
 
-import React, { useMemo, useState } from "react";
-import { format, addDays, startOfWeek, isSameDay, startOfDay } from "date-fns";
-import { X, Calendar as CalendarIcon, FilePenLine, FileText, Eye, ChevronDown, ChevronUp } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { format, addDays, startOfWeek } from "date-fns";
+import { X, Calendar as CalendarIcon, FilePenLine, FileText, Eye, ChevronDown, ChevronUp, Globe } from "lucide-react";
 import { DndProvider, useDrag, useDrop } from "react-dnd";
 import { HTML5Backend } from "react-dnd-html5-backend";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
 import { useContentPipeline, ContentItem } from "@/hooks/useContentPipeline";
+import { PublishingRules, describePublishingRules, getClosedDayReason, getZonedParts } from "@/lib/scheduling";
 
 // =============================
 // CalendarTab - Calendar View Only
-// - Drag-and-drop scheduling for briefs and drafts
+// - Drag-and-drop scheduling for briefs and drafts; scheduled items can be dragged to another day
+// - Days are the website's (publishing timezone); closed and blackout days don't accept drops
 // - 1-week view with unscheduled items pills at top
 // - Clear visual differentiation with gradient backgrounds
 // =============================
@@ -25,6 +27,16 @@ interface CalendarTabProps {
 // ---- Utility ----
 const classNames = (...xs: (string | false | null | undefined)[]) => xs.filter(Boolean).join(" ");
 
+// Calendar day of an instant in the site's timezone (browser timezone until the rules load)
+const toDateKey = (date: Date, rules: PublishingRules | null) =>
+  rules ? getZonedParts(date, rules.timezone).dateKey : format(date, "yyyy-MM-dd");
+
+const getScheduledAt = (item: ContentItem) => item.scheduledPublishAt || item.scheduledDraftAt;
+
+// Items already being generated or published stay where they are
+const canReschedule = (item: ContentItem) =>
+  item.stage !== "published" && item.status !== "generating" && item.status !== "publishing";
+
 // ---- Brief Details Modal ----
 function BriefDetailsModal({ item }: { item: ContentItem }) {
   return (
@@ -172,19 +184,20 @@ function StatusBadge({ status, scheduledPublishAt }: { status?: string; schedule
 }
 
 // ---- Calendar Day Component ----
-function CalendarDay({ date, items, onDrop, onRemove }: {
+function CalendarDay({ date, isToday, isPastDate, closedReason, timezone, items, onDrop, onRemove }: {
   date: Date;
+  isToday: boolean;
+  isPastDate: boolean;
+  closedReason: string | null;
+  timezone?: string;
   items: ContentItem[];
   onDrop: (articleId: string, date: Date) => void;
   onRemove: (articleId: string) => void;
 }) {
-  const isToday = isSameDay(date, new Date());
-  const isPastDate = startOfDay(date) < startOfDay(new Date());
-
   const [{ isOver, canDrop }, drop] = useDrop({
     accept: "article",
     drop: (item: { id: string }) => onDrop(item.id, date),
-    canDrop: () => !isPastDate,
+    canDrop: () => !isPastDate && !closedReason,
     collect: (monitor) => ({
       isOver: monitor.isOver(),
       canDrop: monitor.canDrop(),
@@ -213,9 +226,9 @@ function CalendarDay({ date, items, onDrop, onRemove }: {
       ref={drop as any}
       className={classNames(
         "min-h-[180px] p-3 border border-gray-200 transition-all duration-200",
-        isPastDate ? "bg-gray-50 opacity-60" : isToday ? "bg-blue-50 border-blue-300 ring-1 ring-blue-300" : "bg-white",
+        isPastDate ? "bg-gray-50 opacity-60" : closedReason ? "bg-gray-100" : isToday ? "bg-blue-50 border-blue-300 ring-1 ring-blue-300" : "bg-white",
         isOver && canDrop && "bg-blue-100 border-blue-400 ring-2 ring-blue-400 ring-inset shadow-inner",
-        isOver && !canDrop && isPastDate && "bg-red-50 border-red-300 ring-2 ring-red-300 ring-inset",
+        isOver && !canDrop && "bg-red-50 border-red-300 ring-2 ring-red-300 ring-inset",
         canDrop && !isOver && "border-dashed"
       )}
     >
@@ -223,44 +236,85 @@ function CalendarDay({ date, items, onDrop, onRemove }: {
         <div>
           <span className={classNames(
             "text-lg font-bold",
-            isPastDate ? "text-gray-400" : isToday ? "text-blue-600" : "text-gray-700"
+            isPastDate || closedReason ? "text-gray-400" : isToday ? "text-blue-600" : "text-gray-700"
           )}>
             {format(date, "d")}
           </span>
+          {closedReason && !isPastDate && !isOver && (
+            <div className="text-xs text-gray-500 mt-0.5" title={closedReason}>No publishing</div>
+          )}
           {isOver && canDrop && (
             <div className="text-xs text-blue-600 font-medium mt-0.5">Drop here</div>
           )}
-          {isOver && !canDrop && isPastDate && (
-            <div className="text-xs text-red-600 font-medium mt-0.5">Past date</div>
+          {isOver && !canDrop && (
+            <div className="text-xs text-red-600 font-medium mt-0.5">{isPastDate ? "Past date" : closedReason}</div>
           )}
         </div>
       </div>
       <div className="space-y-2">
         {items.map((item) => (
-          <div key={item.id} className="group relative">
-            <div className={classNames(
-              "text-sm px-2.5 py-2 rounded-lg border transition-shadow",
-              getItemGradient(item)
-            )}>
-              <div className="flex items-start gap-1.5">
-                <div className="flex-1 min-w-0 pr-6">
-                  <div className="flex items-center gap-1 flex-wrap">
-                    <div className="font-semibold text-xs leading-snug truncate">{item.title}</div>
-                    <StatusBadge status={item.status} scheduledPublishAt={item.scheduledPublishAt} />
-                  </div>
-                  <div className="text-xs opacity-75 mt-1 truncate">{item.cluster}</div>
-                </div>
-                <button
-                  onClick={() => onRemove(item.id)}
-                  className="absolute top-2 right-2 opacity-60 hover:opacity-100 transition-opacity shrink-0 hover:bg-black/10 rounded p-0.5"
-                  title="Remove from schedule"
-                >
-                  <X className="w-3.5 h-3.5" />
-                </button>
-              </div>
+          <ScheduledItemCard
+            key={item.id}
+            item={item}
+            timezone={timezone}
+            gradient={getItemGradient(item)}
+            onRemove={onRemove}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ---- Scheduled Item Card (drag to another day to reschedule) ----
+function ScheduledItemCard({ item, timezone, gradient, onRemove }: {
+  item: ContentItem;
+  timezone?: string;
+  gradient: string;
+  onRemove: (articleId: string) => void;
+}) {
+  const movable = canReschedule(item);
+  const [{ isDragging }, drag] = useDrag({
+    type: "article",
+    item: { id: item.id, title: item.title, stage: item.stage },
+    canDrag: movable,
+    collect: (monitor) => ({
+      isDragging: monitor.isDragging(),
+    }),
+  });
+
+  const scheduledAt = getScheduledAt(item);
+  const time = scheduledAt
+    ? new Date(scheduledAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: timezone })
+    : null;
+
+  return (
+    <div ref={drag as any} className="group relative">
+      <div className={classNames(
+        "text-sm px-2.5 py-2 rounded-lg border transition-shadow",
+        gradient,
+        movable && "cursor-move hover:shadow-md",
+        isDragging && "opacity-50"
+      )}>
+        <div className="flex items-start gap-1.5">
+          <div className="flex-1 min-w-0 pr-6">
+            <div className="flex items-center gap-1 flex-wrap">
+              <div className="font-semibold text-xs leading-snug truncate">{item.title}</div>
+              <StatusBadge status={item.status} scheduledPublishAt={item.scheduledPublishAt} />
+            </div>
+            <div className="text-xs opacity-75 mt-1 truncate">
+              {time && <span className="font-medium">{time} · </span>}
+              {item.cluster}
             </div>
           </div>
-        ))}
+          <button
+            onClick={() => onRemove(item.id)}
+            className="absolute top-2 right-2 opacity-60 hover:opacity-100 transition-opacity shrink-0 hover:bg-black/10 rounded p-0.5"
+            title="Remove from schedule"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -269,6 +323,7 @@ function CalendarDay({ date, items, onDrop, onRemove }: {
 export default function CalendarTab({ userToken, websiteToken, domain, conversationId }: CalendarTabProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [unscheduledCollapsed, setUnscheduledCollapsed] = useState(false);
+  const [publishingRules, setPublishingRules] = useState<PublishingRules | null>(null);
 
   // Use content pipeline hook
   const { items, loading, error, scheduleForPublication, removeFromSchedule, scheduleBriefForGeneration } = useContentPipeline({
@@ -278,6 +333,19 @@ export default function CalendarTab({ userToken, websiteToken, domain, conversat
     conversationId
   });
 
+  // Website's publishing rules: timezone, publishing days and blackout dates
+  useEffect(() => {
+    if (!userToken || !websiteToken) return;
+
+    const params = new URLSearchParams({ userToken, websiteToken });
+    fetch(`/api/content/publishing-schedule?${params}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setPublishingRules(data.rules);
+      })
+      .catch(err => console.error('Failed to load publishing rules:', err));
+  }, [userToken, websiteToken]);
+
   // Calculate week start for calendar display
   const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
 
@@ -290,15 +358,20 @@ export default function CalendarTab({ userToken, websiteToken, domain, conversat
   const itemsByDate = useMemo(() => {
     const grouped: Record<string, ContentItem[]> = {};
     items.forEach(item => {
-      const scheduledDate = item.scheduledPublishAt || item.scheduledDraftAt;
+      const scheduledDate = getScheduledAt(item);
       if (scheduledDate) {
-        const dateKey = format(new Date(scheduledDate), "yyyy-MM-dd");
+        const dateKey = toDateKey(new Date(scheduledDate), publishingRules);
         if (!grouped[dateKey]) grouped[dateKey] = [];
         grouped[dateKey].push(item);
       }
     });
+    Object.keys(grouped).forEach(dateKey => {
+      grouped[dateKey].sort((a, b) => getScheduledAt(a)!.localeCompare(getScheduledAt(b)!));
+    });
     return grouped;
-  }, [items]);
+  }, [items, publishingRules]);
+
+  const todayKey = toDateKey(new Date(), publishingRules);
 
   const unscheduledItems = items.filter(item =>
     (item.stage === "draft" || item.stage === "brief") &&
@@ -312,7 +385,8 @@ export default function CalendarTab({ userToken, websiteToken, domain, conversat
 
   const handleDropOnCalendar = async (articleId: string, date: Date) => {
     try {
-      if (startOfDay(date) < startOfDay(new Date())) {
+      const dateKey = format(date, "yyyy-MM-dd");
+      if (dateKey < todayKey) {
         alert('Cannot schedule content for past dates. Please choose today or a future date.');
         return;
       }
@@ -323,6 +397,12 @@ export default function CalendarTab({ userToken, websiteToken, domain, conversat
         return;
       }
 
+      // Dropped back onto the day it's already on
+      const scheduledAt = getScheduledAt(item);
+      if (scheduledAt && toDateKey(new Date(scheduledAt), publishingRules) === dateKey) {
+        return;
+      }
+
       if (item.stage === 'brief') {
         await scheduleBriefForGeneration(articleId, date);
       } else {
@@ -330,7 +410,7 @@ export default function CalendarTab({ userToken, websiteToken, domain, conversat
       }
     } catch (err) {
       console.error('Failed to schedule item:', err);
-      alert('Failed to schedule item. Please try again.');
+      alert(err instanceof Error ? err.message : 'Failed to schedule item. Please try again.');
     }
   };
 
@@ -381,7 +461,13 @@ export default function CalendarTab({ userToken, websiteToken, domain, conversat
         {/* Header */}
         <div>
           <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Content Calendar</h2>
-          <p className="text-sm text-gray-500">Drag items onto dates to schedule for generation and publication</p>
+          <p className="text-sm text-gray-500">Drag items onto dates to schedule for generation and publication, or between dates to reschedule</p>
+          {publishingRules && (
+            <p className="flex items-center gap-1.5 text-xs text-gray-500 mt-1">
+              <Globe className="w-3.5 h-3.5" />
+              Publishing {describePublishingRules(publishingRules)}
+            </p>
+          )}
         </div>
 
         {/* Unscheduled Items - Top Container (Hidden when empty) */}
@@ -456,6 +542,10 @@ export default function CalendarTab({ userToken, websiteToken, domain, conversat
                   <CalendarDay
                     key={dateKey}
                     date={day}
+                    isToday={dateKey === todayKey}
+                    isPastDate={dateKey < todayKey}
+                    closedReason={publishingRules ? getClosedDayReason(dateKey, publishingRules) : null}
+                    timezone={publishingRules?.timezone}
                     items={dayItems}
                     onDrop={handleDropOnCalendar}
                     onRemove={handleRemoveFromCalendar}
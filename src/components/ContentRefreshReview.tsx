@@ -0,0 +1,340 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Check, ExternalLink, Loader2, RefreshCw, TrendingDown, X } from 'lucide-react';
+
+// =============================
+// ContentRefreshReview
+// - Published articles losing GSC clicks/positions, with a one-click refresh proposal
+// - Proposed revisions shown as a block diff against the live article
+// - Approving pushes the revision to the CMS; the replaced body is kept as a version
+// =============================
+
+interface ContentRefreshReviewProps {
+  userToken: string;
+  websiteId?: number;
+}
+
+interface DecayMetrics {
+  current: { clicks: number; impressions: number; position: number };
+  previous: { clicks: number; impressions: number; position: number };
+  clicksChangePercent: number;
+  positionChange: number;
+  decliningQueries: Array<{ query: string; clicksChange: number; position: number }>;
+}
+
+interface Candidate {
+  articleId: number;
+  title: string;
+  publicUrl: string;
+  metrics: DecayMetrics;
+  suggestedStrategy: 'extend' | 'regenerate';
+}
+
+interface RefreshSummary {
+  id: string;
+  article_queue_id: number;
+  status: 'proposed' | 'published' | 'rejected' | 'failed';
+  strategy: 'extend' | 'regenerate';
+  trigger: 'decay' | 'manual';
+  decay_metrics: Partial<DecayMetrics>;
+  error_message: string | null;
+  created_at: string;
+  article_queue?: { title: string; public_url: string | null } | null;
+}
+
+interface RefreshDetail {
+  refresh: RefreshSummary & { proposed_meta_title: string | null; proposed_meta_description: string | null };
+  article: { title: string; publicUrl: string | null; metaTitle: string | null; metaDescription: string | null };
+  diff: Array<{ type: 'same' | 'added' | 'removed'; text: string }>;
+  summary: { added: number; removed: number; unchanged: number };
+  stale: boolean;
+}
+
+const STATUS_STYLES: Record<RefreshSummary['status'], string> = {
+  proposed: 'bg-amber-100 text-amber-800',
+  published: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const DIFF_STYLES = {
+  same: 'text-gray-500',
+  added: 'bg-green-50 text-green-900 border-l-2 border-green-500',
+  removed: 'bg-red-50 text-red-900 border-l-2 border-red-500 line-through'
+};
+
+export default function ContentRefreshReview({ userToken, websiteId }: ContentRefreshReviewProps) {
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [refreshes, setRefreshes] = useState<RefreshSummary[]>([]);
+  const [selected, setSelected] = useState<RefreshDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const baseQuery = `userToken=${encodeURIComponent(userToken)}${websiteId ? `&websiteId=${websiteId}` : ''}`;
+
+  const loadData = useCallback(async () => {
+    if (!userToken) return;
+    setLoading(true);
+    try {
+      const [candidatesResponse, refreshesResponse] = await Promise.all([
+        fetch(`/api/content/refresh?${baseQuery}&view=candidates`),
+        fetch(`/api/content/refresh?${baseQuery}`)
+      ]);
+      const candidatesData = await candidatesResponse.json();
+      const refreshesData = await refreshesResponse.json();
+      setCandidates(candidatesData.success ? candidatesData.candidates : []);
+      setRefreshes(refreshesData.success ? refreshesData.refreshes : []);
+    } catch (error) {
+      console.error('[CONTENT REFRESH] Failed to load refreshes:', error);
+      setMessage({ type: 'error', text: 'Failed to load content refreshes' });
+    } finally {
+      setLoading(false);
+    }
+  }, [userToken, baseQuery]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const openRefresh = async (refreshId: string) => {
+    setBusy(refreshId);
+    try {
+      const response = await fetch(`/api/content/refresh?userToken=${encodeURIComponent(userToken)}&refreshId=${refreshId}`);
+      const data = await response.json();
+      if (data.success) {
+        setSelected(data);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to load refresh' });
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const postAction = async (body: Record<string, unknown>, key: string, successText: string) => {
+    setBusy(key);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/content/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userToken, ...body })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setMessage({ type: 'success', text: successText });
+        await loadData();
+        return data;
+      }
+      setMessage({ type: 'error', text: [data.error, data.details].filter(Boolean).join(': ') || 'Request failed' });
+      return null;
+    } catch (error) {
+      console.error('[CONTENT REFRESH] Action failed:', error);
+      setMessage({ type: 'error', text: 'Request failed' });
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const proposeRefresh = async (candidate: Candidate) => {
+    const data = await postAction(
+      { action: 'propose', articleId: candidate.articleId, strategy: candidate.suggestedStrategy },
+      `propose-${candidate.articleId}`,
+      'Refresh proposed - review the changes below'
+    );
+    if (data?.refresh?.id) await openRefresh(data.refresh.id);
+  };
+
+  const reviewRefresh = async (action: 'approve' | 'reject') => {
+    if (!selected) return;
+    const data = await postAction(
+      { action, refreshId: selected.refresh.id },
+      `${action}-${selected.refresh.id}`,
+      action === 'approve' ? 'Refresh published to your CMS' : 'Refresh rejected'
+    );
+    if (data) setSelected(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading content refreshes...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-blue-600" />
+            Content Refresh
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">Published articles losing clicks or rankings in the last 28 days</p>
+        </div>
+        <button
+          onClick={loadData}
+          className="flex items-center gap-2 px-4 py-2 text-sm border rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Reload
+        </button>
+      </div>
+
+      {message && (
+        <div className={`text-sm rounded-lg px-3 py-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Diff review */}
+      {selected && (
+        <div className="bg-white border rounded-lg p-4 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="font-medium text-gray-900">{selected.article.title}</div>
+              <div className="text-sm text-gray-600 mt-1">
+                {selected.refresh.strategy === 'regenerate' ? 'Full rewrite' : 'Extended sections'} ·{' '}
+                <span className="text-green-700">+{selected.summary.added}</span>{' '}
+                <span className="text-red-700">-{selected.summary.removed}</span> blocks
+              </div>
+            </div>
+            <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {selected.stale && (
+            <div className="text-sm rounded-lg px-3 py-2 bg-amber-50 text-amber-800">
+              The article changed after this refresh was proposed. Reject it and propose a new one.
+            </div>
+          )}
+
+          {(selected.refresh.proposed_meta_title || selected.refresh.proposed_meta_description) && (
+            <div className="text-sm grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <div className="font-medium text-gray-700 mb-1">Meta title</div>
+                <div className="text-red-700 line-through">{selected.article.metaTitle}</div>
+                <div className="text-green-700">{selected.refresh.proposed_meta_title}</div>
+              </div>
+              <div>
+                <div className="font-medium text-gray-700 mb-1">Meta description</div>
+                <div className="text-red-700 line-through">{selected.article.metaDescription}</div>
+                <div className="text-green-700">{selected.refresh.proposed_meta_description}</div>
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-[480px] overflow-auto border rounded-lg font-mono text-xs">
+            {selected.diff.map((line, index) => (
+              <div key={index} className={`px-3 py-1 whitespace-pre-wrap break-words ${DIFF_STYLES[line.type]}`}>
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </div>
+
+          {selected.refresh.status === 'proposed' && (
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => reviewRefresh('reject')}
+                disabled={!!busy}
+                className="flex items-center gap-2 px-4 py-2 text-sm border rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                Reject
+              </button>
+              <button
+                onClick={() => reviewRefresh('approve')}
+                disabled={!!busy || selected.stale}
+                className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {busy === `approve-${selected.refresh.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                Approve &amp; publish
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Decaying articles */}
+      <div className="bg-white border rounded-lg p-4">
+        <div className="font-medium text-gray-900">Decaying articles</div>
+        {candidates.length === 0 ? (
+          <p className="text-sm text-gray-600 mt-2">No published articles are losing traffic right now.</p>
+        ) : (
+          <div className="divide-y mt-2">
+            {candidates.map(candidate => (
+              <div key={candidate.articleId} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <a
+                    href={candidate.publicUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-gray-900 hover:text-blue-600 flex items-center gap-1 truncate"
+                  >
+                    {candidate.title}
+                    <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  </a>
+                  <div className="text-sm text-gray-600 flex items-center gap-3 mt-1">
+                    <span className="flex items-center gap-1 text-red-700">
+                      <TrendingDown className="w-4 h-4" />
+                      {candidate.metrics.previous.clicks} → {candidate.metrics.current.clicks} clicks
+                    </span>
+                    <span>
+                      Position {candidate.metrics.previous.position} → {candidate.metrics.current.position}
+                    </span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => proposeRefresh(candidate)}
+                  disabled={!!busy}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+                >
+                  {busy === `propose-${candidate.articleId}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  {candidate.suggestedStrategy === 'regenerate' ? 'Rewrite' : 'Refresh'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Proposals */}
+      <div className="bg-white border rounded-lg p-4">
+        <div className="font-medium text-gray-900">Refresh history</div>
+        {refreshes.length === 0 ? (
+          <p className="text-sm text-gray-600 mt-2">No refreshes yet.</p>
+        ) : (
+          <div className="divide-y mt-2">
+            {refreshes.map(refresh => (
+              <button
+                key={refresh.id}
+                onClick={() => openRefresh(refresh.id)}
+                className="w-full py-3 flex items-center justify-between gap-4 text-left hover:bg-gray-50"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{refresh.article_queue?.title || `Article ${refresh.article_queue_id}`}</div>
+                  <div className="text-sm text-gray-600 mt-1">
+                    {refresh.strategy === 'regenerate' ? 'Rewrite' : 'Extend'} · {new Date(refresh.created_at).toLocaleDateString()}
+                    {refresh.error_message && <span className="text-red-700"> · {refresh.error_message}</span>}
+                  </div>
+                </div>
+                {busy === refresh.id
+                  ? <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                  : <span className={`text-xs px-2 py-1 rounded-full ${STATUS_STYLES[refresh.status]}`}>{refresh.status}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
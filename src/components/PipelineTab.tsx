@@ -5,6 +5,9 @@ import { format } from "date-fns";
 import { ChevronUp, ChevronDown, Filter, Search, ExternalLink, Eye, FilePenLine, FileText, Rocket, MessageSquare, Clock, CheckCircle } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
 import { useContentPipeline, ContentItem, ArticleStage, Keyword } from "@/hooks/useContentPipeline";
+import ArticleVersionHistory from "./ArticleVersionHistory";
+import ArticleReviewPanel from "./ArticleReviewPanel";
+import ArticleTranslationsPanel from "./ArticleTranslationsPanel";
 
 // =============================
 // PipelineTab - Table View Only
@@ -46,7 +49,7 @@ function StageBadge({ stage }: { stage: ArticleStage }) {
   );
 }
 
-function StatusBadge({ status, scheduledPublishAt }: { status?: string; scheduledPublishAt?: string | null }) {
+function StatusBadge({ status, scheduledPublishAt, reviewStatus }: { status?: string; scheduledPublishAt?: string | null; reviewStatus?: string }) {
   if (!status || status === 'published') return null;
 
   let label = '';
@@ -55,6 +58,9 @@ function StatusBadge({ status, scheduledPublishAt }: { status?: string; schedule
   if (status === 'generating') {
     label = 'Generating...';
     styles = 'bg-purple-50 text-purple-700 border-purple-200';
+  } else if (status === 'generated' && reviewStatus && reviewStatus !== 'approved') {
+    label = reviewStatus === 'changes_requested' ? 'Changes requested' : reviewStatus === 'revising' ? 'Revising...' : 'In review';
+    styles = 'bg-orange-50 text-orange-700 border-orange-200';
   } else if (status === 'generated') {
     if (scheduledPublishAt) {
       label = 'Scheduled';
@@ -112,6 +118,15 @@ function SortHeader({ field, label, sortField, sortDirection, onSort }: {
   );
 }
 
+function LanguageTag({ language }: { language?: string | null }) {
+  if (!language) return null;
+  return (
+    <span className="px-1.5 py-0.5 rounded bg-gray-100 text-[10px] font-mono uppercase text-gray-600">
+      {language}
+    </span>
+  );
+}
+
 function ClusterTag({ cluster, onClick }: { cluster: string; onClick?: () => void }) {
   return (
     <button
@@ -123,15 +138,17 @@ function ClusterTag({ cluster, onClick }: { cluster: string; onClick?: () => voi
   );
 }
 
-function ArticleModal({ item }: { item: ContentItem }) {
+function ArticleModal({ item, userToken, websiteToken, onArticleChange }: { item: ContentItem; userToken: string; websiteToken: string; onArticleChange?: () => void }) {
   const hasContent = item.articleContent && item.status === 'generated';
+  const articleId = item.id.startsWith('article-') ? Number(item.id.replace('article-', '')) : null;
 
   return (
     <DialogContent className="max-w-6xl max-h-[80vh] overflow-y-auto">
       <DialogHeader>
         <div className="flex items-center gap-2 flex-wrap">
           <DialogTitle className="text-left text-gray-900">{item.title}</DialogTitle>
-          <StatusBadge status={item.status} scheduledPublishAt={item.scheduledPublishAt} />
+          <LanguageTag language={item.language} />
+          <StatusBadge status={item.status} scheduledPublishAt={item.scheduledPublishAt} reviewStatus={item.reviewStatus} />
         </div>
       </DialogHeader>
       <div className="space-y-4">
@@ -203,18 +220,42 @@ function ArticleModal({ item }: { item: ContentItem }) {
             </div>
           )}
         </div>
+
+        {articleId && hasContent && (
+          <ArticleReviewPanel userToken={userToken} articleId={articleId} onStatusChange={onArticleChange} />
+        )}
+
+        {articleId && item.articleContent && item.stage !== "brief" && (
+          <ArticleTranslationsPanel
+            userToken={userToken}
+            websiteToken={websiteToken}
+            articleId={articleId}
+            onTranslated={onArticleChange}
+          />
+        )}
+
+        {articleId && item.stage !== "brief" && (
+          <ArticleVersionHistory
+            userToken={userToken}
+            articleId={articleId}
+            canRepublish={item.stage === "published"}
+          />
+        )}
       </div>
     </DialogContent>
   );
 }
 
-function TableRow({ item, onAdvance, onScheduleForPublication, onPublishNow, onScheduleBriefForGeneration, onClusterClick }: {
+function TableRow({ item, userToken, websiteToken, onAdvance, onScheduleForPublication, onPublishNow, onScheduleBriefForGeneration, onClusterClick, onArticleChange }: {
   item: ContentItem;
+  userToken: string;
+  websiteToken: string;
   onAdvance: (id: string) => void;
   onScheduleForPublication: (id: string) => void;
   onPublishNow: (id: string) => void;
   onScheduleBriefForGeneration: (id: string) => void;
   onClusterClick: (cluster: string) => void;
+  onArticleChange: () => void;
 }) {
   const rowStyle = {
     brief: "bg-blue-50/30 hover:bg-blue-50/50 border-blue-100",
@@ -257,7 +298,8 @@ function TableRow({ item, onAdvance, onScheduleForPublication, onPublishNow, onS
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-1 flex-wrap">
               <div className="font-medium text-sm">{item.title}</div>
-              <StatusBadge status={item.status} scheduledPublishAt={item.scheduledPublishAt} />
+              <LanguageTag language={item.language} />
+              <StatusBadge status={item.status} scheduledPublishAt={item.scheduledPublishAt} reviewStatus={item.reviewStatus} />
             </div>
             {item.brief && <div className="text-xs text-gray-600 mt-1 line-clamp-1">{item.brief}</div>}
           </div>
@@ -267,7 +309,7 @@ function TableRow({ item, onAdvance, onScheduleForPublication, onPublishNow, onS
                 <Eye className="w-4 h-4" />
               </button>
             </DialogTrigger>
-            <ArticleModal item={item} />
+            <ArticleModal item={item} userToken={userToken} websiteToken={websiteToken} onArticleChange={onArticleChange} />
           </Dialog>
         </div>
       </td>
@@ -315,7 +357,9 @@ function TableRow({ item, onAdvance, onScheduleForPublication, onPublishNow, onS
             <>
               <button
                 onClick={() => onPublishNow(item.id)}
-                className="px-3 py-1 text-xs rounded border bg-green-50 text-green-700 border-green-200 hover:bg-green-100"
+                disabled={!!item.reviewStatus && item.reviewStatus !== "approved"}
+                title={item.reviewStatus && item.reviewStatus !== "approved" ? "Approve the article before publishing" : undefined}
+                className="px-3 py-1 text-xs rounded border bg-green-50 text-green-700 border-green-200 hover:bg-green-100 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Publish
               </button>
@@ -355,7 +399,7 @@ export default function PipelineTab({ userToken, websiteToken, domain, conversat
   });
 
   // Use content pipeline hook
-  const { items, loading, error, advanceToDraft, scheduleForPublication, publishNow, scheduleBriefForGeneration } = useContentPipeline({
+  const { items, loading, error, refresh, advanceToDraft, scheduleForPublication, publishNow, scheduleBriefForGeneration } = useContentPipeline({
     userToken,
     websiteToken,
     domain,
@@ -466,7 +510,8 @@ export default function PipelineTab({ userToken, websiteToken, domain, conversat
     }
   };
 
-  if (loading) {
+  // Keep the table mounted while refreshing so an open article modal survives review updates
+  if (loading && items.length === 0) {
     return (
       <div className="bg-white border rounded-2xl p-8 text-center">
         <div className="text-gray-600">Loading content pipeline...</div>
@@ -625,11 +670,14 @@ export default function PipelineTab({ userToken, websiteToken, domain, conversat
               <TableRow
                 key={item.id}
                 item={item}
+                userToken={userToken}
+                websiteToken={websiteToken}
                 onAdvance={handleAdvanceToDraft}
                 onScheduleForPublication={handleScheduleForPublication}
                 onPublishNow={handlePublishNow}
                 onScheduleBriefForGeneration={handleScheduleBriefForGeneration}
                 onClusterClick={(cluster) => setSearch(cluster)}
+                onArticleChange={refresh}
               />
             ))}
           </tbody>
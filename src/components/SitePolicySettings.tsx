@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Lock, Save, ShieldCheck } from 'lucide-react';
+
+// =============================
+// SitePolicySettings
+// - Per-site limits the agent has to respect (environments, paths, caps)
+// - Approval requirements per action type and quiet hours
+// - "Locked" stops requested policies from loosening these settings
+// =============================
+
+interface SitePolicySettingsProps {
+  userToken: string;
+  domain: string;
+}
+
+type Environment = 'DRY_RUN' | 'STAGING' | 'PRODUCTION';
+
+interface SitePolicy {
+  allowedEnvironments: Environment[];
+  blockedPaths: string[];
+  maxPages: number | null;
+  maxPatches: number | null;
+  approvalRequirements: Record<string, boolean>;
+  quietHours: { start: string; end: string; timezone?: string; days?: number[] } | null;
+  locked: boolean;
+}
+
+const ENVIRONMENTS: { key: Environment; label: string }[] = [
+  { key: 'DRY_RUN', label: 'Dry run' },
+  { key: 'STAGING', label: 'Staging' },
+  { key: 'PRODUCTION', label: 'Production' }
+];
+
+const ACTION_TYPES: { key: string; label: string }[] = [
+  { key: 'technical_seo_fix', label: 'Technical SEO fixes' },
+  { key: 'schema_injection', label: 'Schema injection' },
+  { key: 'cms_publishing', label: 'CMS publishing' },
+  { key: 'content_generation', label: 'Content generation' }
+];
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_POLICY: SitePolicy = {
+  allowedEnvironments: ['DRY_RUN', 'STAGING', 'PRODUCTION'],
+  blockedPaths: [],
+  maxPages: null,
+  maxPatches: null,
+  approvalRequirements: {},
+  quietHours: null,
+  locked: false
+};
+
+export default function SitePolicySettings({ userToken, domain }: SitePolicySettingsProps) {
+  const [policy, setPolicy] = useState<SitePolicy>(DEFAULT_POLICY);
+  const [blockedPathsText, setBlockedPathsText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!userToken || !domain) return;
+
+    const loadPolicy = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(
+          `/api/agent/policies/site?userToken=${encodeURIComponent(userToken)}&siteUrl=${encodeURIComponent(domain)}`
+        );
+        const data = await response.json();
+        if (data.success && data.policy) {
+          setPolicy(data.policy);
+          setBlockedPathsText((data.policy.blockedPaths || []).join('\n'));
+        } else {
+          setPolicy(DEFAULT_POLICY);
+          setBlockedPathsText('');
+        }
+      } catch (error) {
+        console.error('[SITE POLICY] Failed to load policy:', error);
+        setMessage({ type: 'error', text: 'Failed to load site policy' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPolicy();
+  }, [userToken, domain]);
+
+  const toggleEnvironment = (env: Environment) => {
+    setPolicy(prev => ({
+      ...prev,
+      allowedEnvironments: prev.allowedEnvironments.includes(env)
+        ? prev.allowedEnvironments.filter(e => e !== env)
+        : [...prev.allowedEnvironments, env]
+    }));
+  };
+
+  const toggleApproval = (actionType: string) => {
+    setPolicy(prev => ({
+      ...prev,
+      approvalRequirements: {
+        ...prev.approvalRequirements,
+        [actionType]: !prev.approvalRequirements[actionType]
+      }
+    }));
+  };
+
+  const toggleQuietHours = () => {
+    setPolicy(prev => ({
+      ...prev,
+      quietHours: prev.quietHours
+        ? null
+        : { start: '22:00', end: '07:00', timezone: Intl.DateTimeFormat().resolvedOptions().timeZone, days: [] }
+    }));
+  };
+
+  const updateQuietHours = (changes: Partial<NonNullable<SitePolicy['quietHours']>>) => {
+    setPolicy(prev => prev.quietHours ? { ...prev, quietHours: { ...prev.quietHours, ...changes } } : prev);
+  };
+
+  const toggleQuietDay = (day: number) => {
+    const days = policy.quietHours?.days || [];
+    updateQuietHours({ days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const parseLimit = (value: string): number | null => {
+    if (value.trim() === '') return null;
+    const parsed = parseInt(value);
+    return isNaN(parsed) ? null : Math.max(0, parsed);
+  };
+
+  const handleSave = async () => {
+    if (policy.allowedEnvironments.length === 0) {
+      setMessage({ type: 'error', text: 'Allow at least one environment' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/agent/policies/site', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userToken,
+          siteUrl: domain,
+          policy: {
+            ...policy,
+            blockedPaths: blockedPathsText.split('\n').map(p => p.trim()).filter(Boolean)
+          }
+        })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setPolicy(data.policy);
+        setBlockedPathsText((data.policy.blockedPaths || []).join('\n'));
+        setMessage({ type: 'success', text: 'Site policy saved' });
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to save site policy' });
+      }
+    } catch (error) {
+      console.error('[SITE POLICY] Failed to save policy:', error);
+      setMessage({ type: 'error', text: 'Failed to save site policy' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading site policy...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-blue-600" />
+            Agent Policy
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">Limits the agent must respect when working on {domain}</p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save
+        </button>
+      </div>
+
+      {message && (
+        <div className={`text-sm rounded-lg px-3 py-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Lock */}
+      <div className="bg-white border rounded-lg p-4 flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium text-gray-900 flex items-center gap-2">
+            <Lock className="w-4 h-4" />
+            Lock this policy
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            When locked, the agent and API callers cannot request looser settings for this site.
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          checked={policy.locked}
+          onChange={() => setPolicy(prev => ({ ...prev, locked: !prev.locked }))}
+          className="mt-1 h-4 w-4"
+        />
+      </div>
+
+      {/* Environments */}
+      <div className="bg-white border rounded-lg p-4">
+        <div className="font-medium text-gray-900">Allowed environments</div>
+        <p className="text-sm text-gray-600 mt-1">Only dry runs means the agent can suggest changes but never apply them.</p>
+        <div className="flex gap-6 mt-3">
+          {ENVIRONMENTS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={policy.allowedEnvironments.includes(key)}
+                onChange={() => toggleEnvironment(key)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Limits */}
+      <div className="bg-white border rounded-lg p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="text-sm text-gray-700">
+          <div className="font-medium text-gray-900 mb-1">Max pages per action</div>
+          <input
+            type="number"
+            min={0}
+            value={policy.maxPages ?? ''}
+            placeholder="No limit"
+            onChange={(e) => setPolicy(prev => ({ ...prev, maxPages: parseLimit(e.target.value) }))}
+            className="w-full border rounded-lg px-3 py-2"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <div className="font-medium text-gray-900 mb-1">Max patches per action</div>
+          <input
+            type="number"
+            min={0}
+            value={policy.maxPatches ?? ''}
+            placeholder="No limit"
+            onChange={(e) => setPolicy(prev => ({ ...prev, maxPatches: parseLimit(e.target.value) }))}
+            className="w-full border rounded-lg px-3 py-2"
+          />
+        </label>
+      </div>
+
+      {/* Blocked paths */}
+      <div className="bg-white border rounded-lg p-4">
+        <div className="font-medium text-gray-900">Blocked paths</div>
+        <p className="text-sm text-gray-600 mt-1">One per line. Prefixes like /checkout or globs like /blog/*/draft.</p>
+        <textarea
+          value={blockedPathsText}
+          onChange={(e) => setBlockedPathsText(e.target.value)}
+          rows={4}
+          className="w-full border rounded-lg px-3 py-2 mt-3 text-sm font-mono"
+          placeholder={'/checkout\n/account'}
+        />
+      </div>
+
+      {/* Approvals */}
+      <div className="bg-white border rounded-lg p-4">
+        <div className="font-medium text-gray-900">Always require approval for</div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-3">
+          {ACTION_TYPES.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={policy.approvalRequirements[key] === true}
+                onChange={() => toggleApproval(key)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Quiet hours */}
+      <div className="bg-white border rounded-lg p-4">
+        <label className="flex items-center justify-between">
+          <div>
+            <div className="font-medium text-gray-900">Quiet hours</div>
+            <p className="text-sm text-gray-600 mt-1">No changes are applied to the site inside this window.</p>
+          </div>
+          <input type="checkbox" checked={!!policy.quietHours} onChange={toggleQuietHours} className="h-4 w-4" />
+        </label>
+
+        {policy.quietHours && (
+          <div className="mt-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="text-sm text-gray-700">
+                From
+                <input
+                  type="time"
+                  value={policy.quietHours.start}
+                  onChange={(e) => updateQuietHours({ start: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2 mt-1"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Until
+                <input
+                  type="time"
+                  value={policy.quietHours.end}
+                  onChange={(e) => updateQuietHours({ end: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2 mt-1"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Timezone
+                <input
+                  type="text"
+                  value={policy.quietHours.timezone || ''}
+                  placeholder="UTC"
+                  onChange={(e) => updateQuietHours({ timezone: e.target.value || undefined })}
+                  className="w-full border rounded-lg px-3 py-2 mt-1"
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {DAYS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleQuietDay(day)}
+                  className={`px-2.5 py-1 text-xs rounded-full border ${
+                    policy.quietHours?.days?.includes(day)
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-600 border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <span className="text-xs text-gray-500 self-center">No days selected = every day</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ interface Website {
   is_managed: boolean;
   is_excluded_from_sync: boolean;
   attribution_enabled: boolean;
+  crawler_provider?: 'auto' | 'firecrawl' | 'builtin';
   created_at: string;
 }
 
@@ -298,6 +299,41 @@ export default function WebsiteManagement() {
     }
   };
 
+  const handleCrawlerChange = async (websiteId: string, crawlerProvider: string) => {
+    if (!user?.token) return;
+
+    setUpdating(websiteId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/websites?userToken=${user.token}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          websiteId,
+          crawler_provider: crawlerProvider
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setWebsites(prev => prev.map(w => 
+          w.website_token === websiteId ? { ...w, crawler_provider: crawlerProvider as Website['crawler_provider'] } : w
+        ));
+      } else {
+        setError(data.error || 'Failed to update crawler setting');
+      }
+    } catch (error) {
+      console.error('Error updating crawler:', error);
+      setError('Failed to update crawler setting');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
   const handleRemoveWebsite = async (websiteId: string, domain: string) => {
     if (!user?.token) return;
 
@@ -464,6 +500,24 @@ export default function WebsiteManagement() {
                       {website.attribution_enabled ? 'Shows "SEO by SEOAgent" link' : 'Attribution hidden'}
                     </span>
                   </div>
+
+                  {/* Crawler Selection */}
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={website.crawler_provider || 'auto'}
+                      onChange={(e) => handleCrawlerChange(website.website_token, e.target.value)}
+                      disabled={updating === website.website_token}
+                      className="text-xs px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-300 disabled:opacity-50"
+                      title="Crawler used for audits, sitemaps and site analysis"
+                    >
+                      <option value="auto">Auto</option>
+                      <option value="firecrawl">Firecrawl</option>
+                      <option value="builtin">Built-in</option>
+                    </select>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {(website.crawler_provider || 'auto') === 'auto' ? 'Firecrawl with built-in fallback' : 'Crawler'}
+                    </span>
+                  </div>
                 </div>
               </div>
             ))}
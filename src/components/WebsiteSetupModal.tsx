@@ -5,6 +5,7 @@ import { createPortal } from 'react-dom';
 import { useAuth } from '@/contexts/auth';
 import { UrlNormalizationService } from '@/lib/UrlNormalizationService';
 import { getSmartJSStatus } from '@/lib/seoagent-js-status';
+import { buildInstallSnippet } from '@/lib/seoagent-js-release';
 import CMSConnectionForm from './CMSConnectionForm';
 import LovableSetupInstructions from './LovableSetupInstructions';
 import WebflowInlineSetup from './WebflowInlineSetup';
@@ -82,7 +83,7 @@ export default function WebsiteSetupModal({ isOpen, onClose, website, onStatusUp
   const [cmsConnections, setCmsConnections] = useState<CMSConnection[]>([]);
   const [cmsLoading, setCmsLoading] = useState(false);
   const [cmsError, setCmsError] = useState<string | null>(null);
-  const [selectedCmsType, setSelectedCmsType] = useState<'wordpress'|'strapi'|'wix'|'ghost'|'webflow'|null>(null);
+  const [selectedCmsType, setSelectedCmsType] = useState<'wordpress'|'strapi'|'wix'|'ghost'|'webflow'|'contentful'|'sanity'|'git'|'webhook'|null>(null);
 
   // Host Connection State
   const [hostConnections, setHostConnections] = useState<HostConnection[]>([]);
@@ -380,11 +381,7 @@ export default function WebsiteSetupModal({ isOpen, onClose, website, onStatusUp
   // SEOAgent.js Functions
   const generateSmartJSCode = () => {
     setSmartjsInstallCode(`<!-- SEOAgent.js -->
-<script>
-  // Define your website token
-  const idv = "${website.id}";
-</script>
-<script src="https://seoagent.com/seoagent.js" defer></script>
+${buildInstallSnippet(String(website.id))}
 <!-- End SEOAgent.js -->`);
   };
 
@@ -1184,6 +1181,10 @@ export default function WebsiteSetupModal({ isOpen, onClose, website, onStatusUp
                       { type: 'wix', name: 'Wix', icon: '🌟', available: false },
                       { type: 'webflow', name: 'Webflow', icon: '🌊', available: true },
                       { type: 'shopify', name: 'Shopify', icon: '🛒', available: false },
+                      { type: 'contentful', name: 'Contentful', icon: '🧩', available: true },
+                      { type: 'sanity', name: 'Sanity', icon: '🟥', available: true },
+                      { type: 'git', name: 'Git (Markdown)', icon: '🌿', available: true },
+                      { type: 'webhook', name: 'Custom Webhook', icon: '🔗', available: true },
                     ].map((cms) => (
                       <div key={cms.type} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 hover:bg-gray-50 dark:hover:bg-gray-700/30 transition-colors">
                         <div className="flex items-center space-x-3 mb-3">
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { SVSScoreDisplay, SVSComponentScores, SVSRecommendations } from '@/components/ui/svs-score-display';
+import { SVSScoreDisplay, SVSComponentScores, SVSRecommendations, SVSTrendChart } from '@/components/ui/svs-score-display';
 
 interface SVSAnalysis {
   id: string;
@@ -35,6 +35,42 @@ interface SVSAnalysis {
   analyzed_at: string;
 }
 
+interface SVSHistoryPoint {
+  analysis_id: number;
+  analyzed_at: string;
+  score: number;
+  change: number | null;
+  content_changed: boolean | null;
+}
+
+interface SVSPageHistory {
+  points: SVSHistoryPoint[];
+  competitors: Array<{ competitor_url: string; points: SVSHistoryPoint[] }>;
+  comparisons: Array<{
+    competitor_url: string;
+    your_score: number;
+    competitor_score: number;
+    difference: number;
+    components: Array<{ component: string; yours: number; competitor: number; max: number; gap: number }>;
+  }>;
+}
+
+interface SVSPageSummary {
+  page_url: string;
+  latest_score: number;
+  change: number | null;
+}
+
+interface SVSSiteSummary {
+  pages_analyzed: number;
+  average_score: number;
+  trend: Array<{ week_start: string; average_score: number; pages: number }>;
+  top_decliners: SVSPageSummary[];
+  top_gainers: SVSPageSummary[];
+}
+
+const COMPETITOR_COLORS = ['#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4', '#84CC16'];
+
 interface SVSDashboardProps {
   userToken: string;
   selectedSite?: string;
@@ -46,12 +82,25 @@ export function SVSDashboard({ userToken, selectedSite, onAnalyzeNew }: SVSDashb
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedAnalysis, setSelectedAnalysis] = useState<SVSAnalysis | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'details' | 'recommendations'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'details' | 'recommendations' | 'trend'>('overview');
+  const [siteSummary, setSiteSummary] = useState<SVSSiteSummary | null>(null);
+  const [pageHistory, setPageHistory] = useState<SVSPageHistory | null>(null);
+  const [competitorUrl, setCompetitorUrl] = useState('');
+  const [competitorLoading, setCompetitorLoading] = useState(false);
 
   useEffect(() => {
     loadSVSAnalyses();
+    loadSiteSummary();
   }, [userToken, selectedSite]);
 
+  useEffect(() => {
+    if (selectedAnalysis) {
+      loadPageHistory(selectedAnalysis.page_url || selectedAnalysis.site_url);
+    } else {
+      setPageHistory(null);
+    }
+  }, [selectedAnalysis?.id]);
+
   const loadSVSAnalyses = async () => {
     try {
       setLoading(true);
@@ -74,9 +123,15 @@ export function SVSDashboard({ userToken, selectedSite, onAnalyzeNew }: SVSDashb
       }
 
       if (result.success && result.data) {
-        setAnalyses(result.data.analyses || []);
-        if (result.data.analyses?.length > 0 && !selectedAnalysis) {
-          setSelectedAnalysis(result.data.analyses[0]);
+        // The list returns summaries: svs_score and no analysis_data
+        const loaded: SVSAnalysis[] = (result.data.analyses || []).map((analysis: any) => ({
+          ...analysis,
+          overall_svs_score: analysis.overall_svs_score ?? analysis.svs_score,
+          analysis_data: analysis.analysis_data || { recommendations: [] }
+        }));
+        setAnalyses(loaded);
+        if (loaded.length > 0 && !selectedAnalysis) {
+          setSelectedAnalysis(loaded[0]);
         }
       }
     } catch (err) {
@@ -87,6 +142,66 @@ export function SVSDashboard({ userToken, selectedSite, onAnalyzeNew }: SVSDashb
     }
   };
 
+  const loadSiteSummary = async () => {
+    if (!selectedSite) {
+      setSiteSummary(null);
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ userToken, siteUrl: selectedSite });
+      const response = await fetch(`/api/svs/summary?${params.toString()}`);
+      const result = await response.json();
+      setSiteSummary(response.ok && result.success ? result.data : null);
+    } catch (err) {
+      console.error('Failed to load SVS site summary:', err);
+      setSiteSummary(null);
+    }
+  };
+
+  const loadPageHistory = async (pageUrl: string) => {
+    try {
+      const params = new URLSearchParams({ userToken, pageUrl });
+      const response = await fetch(`/api/svs/history?${params.toString()}`);
+      const result = await response.json();
+      setPageHistory(response.ok && result.success ? result.data : null);
+    } catch (err) {
+      console.error('Failed to load SVS page history:', err);
+      setPageHistory(null);
+    }
+  };
+
+  const handleAddCompetitor = async () => {
+    if (!selectedAnalysis || !competitorUrl.trim()) return;
+
+    try {
+      setCompetitorLoading(true);
+      const response = await fetch('/api/svs/competitors', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userToken,
+          siteUrl: selectedAnalysis.site_url,
+          pageUrl: selectedAnalysis.page_url || selectedAnalysis.site_url,
+          competitorUrl: competitorUrl.trim()
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Competitor analysis failed');
+      }
+
+      setCompetitorUrl('');
+      await loadPageHistory(selectedAnalysis.page_url || selectedAnalysis.site_url);
+    } catch (err) {
+      console.error('Competitor analysis failed:', err);
+      alert('Competitor analysis failed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setCompetitorLoading(false);
+    }
+  };
+
   const handleAnalyzeNewPage = async () => {
     if (!selectedSite) {
       alert('Please select a website first');
@@ -122,7 +237,7 @@ export function SVSDashboard({ userToken, selectedSite, onAnalyzeNew }: SVSDashb
 
       if (result.success) {
         // Reload analyses to show the new one
-        await loadSVSAnalyses();
+        await Promise.all([loadSVSAnalyses(), loadSiteSummary()]);
       }
     } catch (err) {
       console.error('Analysis failed:', err);
@@ -204,6 +319,59 @@ export function SVSDashboard({ userToken, selectedSite, onAnalyzeNew }: SVSDashb
         </button>
       </div>
 
+      {/* Site Trend */}
+      {siteSummary && siteSummary.trend.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="font-medium text-gray-900">Site Trend</h3>
+              <p className="text-sm text-gray-500">
+                Weekly average of the latest score of each analyzed page
+              </p>
+            </div>
+            <div className="text-right">
+              <div className="text-2xl font-bold text-gray-900">{siteSummary.average_score}/100</div>
+              <div className="text-xs text-gray-500">{siteSummary.pages_analyzed} pages analyzed</div>
+            </div>
+          </div>
+
+          <SVSTrendChart
+            series={[{
+              label: 'Site average',
+              color: '#3B82F6',
+              points: siteSummary.trend.map(week => ({
+                date: week.week_start,
+                score: week.average_score,
+                note: `${week.pages} pages`
+              }))
+            }]}
+          />
+
+          {(siteSummary.top_decliners.length > 0 || siteSummary.top_gainers.length > 0) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              {[
+                { title: 'Biggest Drops', pages: siteSummary.top_decliners, color: 'text-red-600' },
+                { title: 'Biggest Gains', pages: siteSummary.top_gainers, color: 'text-green-600' }
+              ].filter(group => group.pages.length > 0).map(group => (
+                <div key={group.title}>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">{group.title}</h4>
+                  <div className="space-y-1">
+                    {group.pages.map(page => (
+                      <div key={page.page_url} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 truncate mr-4">{page.page_url}</span>
+                        <span className={`font-medium flex-shrink-0 ${group.color}`}>
+                          {page.change! > 0 ? '+' : ''}{page.change} → {page.latest_score}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Analysis List */}
         <div className="lg:col-span-1">
@@ -290,7 +458,8 @@ export function SVSDashboard({ userToken, selectedSite, onAnalyzeNew }: SVSDashb
                     {[
                       { id: 'overview', label: 'Overview' },
                       { id: 'details', label: 'Component Breakdown' },
-                      { id: 'recommendations', label: 'Recommendations' }
+                      { id: 'recommendations', label: 'Recommendations' },
+                      { id: 'trend', label: 'Trend & Competitors' }
                     ].map((tab) => (
                       <button
                         key={tab.id}
@@ -349,6 +518,81 @@ export function SVSDashboard({ userToken, selectedSite, onAnalyzeNew }: SVSDashb
                       }}
                     />
                   )}
+
+                  {activeTab === 'trend' && (
+                    <div className="space-y-6">
+                      <SVSTrendChart
+                        series={[
+                          {
+                            label: 'This page',
+                            color: '#3B82F6',
+                            points: (pageHistory?.points || []).map(point => ({
+                              date: point.analyzed_at,
+                              score: point.score,
+                              highlighted: point.content_changed === true,
+                              note: point.change !== null ? `${point.change > 0 ? '+' : ''}${point.change}` : undefined
+                            }))
+                          },
+                          ...(pageHistory?.competitors || []).map((competitor, index) => ({
+                            label: competitor.competitor_url,
+                            color: COMPETITOR_COLORS[index % COMPETITOR_COLORS.length],
+                            dashed: true,
+                            points: competitor.points.map(point => ({ date: point.analyzed_at, score: point.score }))
+                          }))
+                        ]}
+                        highlightLabel="Content changed"
+                      />
+
+                      {pageHistory && pageHistory.comparisons.length > 0 && (
+                        <div className="space-y-4">
+                          {pageHistory.comparisons.map(comparison => (
+                            <div key={comparison.competitor_url} className="border border-gray-200 rounded-lg p-4">
+                              <div className="flex items-center justify-between mb-3">
+                                <div className="text-sm text-gray-600 truncate mr-4">
+                                  vs. {comparison.competitor_url}
+                                </div>
+                                <div className={`text-sm font-medium flex-shrink-0 ${
+                                  comparison.difference >= 0 ? 'text-green-600' : 'text-red-600'
+                                }`}>
+                                  {comparison.your_score} vs {comparison.competitor_score}
+                                </div>
+                              </div>
+                              <div className="space-y-1">
+                                {comparison.components.filter(c => c.gap > 0).map(c => (
+                                  <div key={c.component} className="flex items-center justify-between text-xs">
+                                    <span className="text-gray-600 capitalize">{c.component.replace(/_/g, ' ')}</span>
+                                    <span className="text-red-600">
+                                      {c.yours}/{c.max} vs {c.competitor}/{c.max}
+                                    </span>
+                                  </div>
+                                ))}
+                                {comparison.components.every(c => c.gap <= 0) && (
+                                  <div className="text-xs text-green-600">Ahead or level on every component</div>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex space-x-2">
+                        <input
+                          type="url"
+                          value={competitorUrl}
+                          onChange={(e) => setCompetitorUrl(e.target.value)}
+                          placeholder="https://competitor.com/their-page"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                          onClick={handleAddCompetitor}
+                          disabled={competitorLoading || !competitorUrl.trim()}
+                          className="px-4 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          {competitorLoading ? 'Analyzing...' : 'Compare Competitor'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -381,4 +381,132 @@ export function SVSRecommendations({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+interface SVSTrendSeries {
+  label: string;
+  color: string;
+  points: Array<{
+    date: string;
+    score: number;
+    highlighted?: boolean; // e.g. the page's content changed before this analysis
+    note?: string;
+  }>;
+  dashed?: boolean;
+}
+
+interface SVSTrendChartProps {
+  series: SVSTrendSeries[];
+  height?: number;
+  animated?: boolean;
+  highlightLabel?: string;
+}
+
+export function SVSTrendChart({
+  series,
+  height = 200,
+  animated = true,
+  highlightLabel
+}: SVSTrendChartProps) {
+  const width = 600;
+  const padding = { top: 10, right: 16, bottom: 24, left: 32 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const times = series.flatMap(s => s.points.map(p => new Date(p.date).getTime()));
+  if (times.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 text-center py-8">
+        No score history yet
+      </div>
+    );
+  }
+
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const x = (date: string) => maxTime === minTime
+    ? padding.left + plotWidth / 2
+    : padding.left + ((new Date(date).getTime() - minTime) / (maxTime - minTime)) * plotWidth;
+  const y = (score: number) => padding.top + plotHeight - (score / 100) * plotHeight;
+
+  const MotionPolyline = animated ? motion.polyline : 'polyline';
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label="SVS score trend">
+        {[0, 25, 50, 75, 100].map(tick => (
+          <g key={tick}>
+            <line
+              x1={padding.left}
+              x2={width - padding.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="#E5E7EB"
+              strokeWidth="1"
+            />
+            <text x={padding.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#9CA3AF">
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        <text x={padding.left} y={height - 6} fontSize="10" fill="#9CA3AF">
+          {new Date(minTime).toLocaleDateString()}
+        </text>
+        {maxTime !== minTime && (
+          <text x={width - padding.right} y={height - 6} textAnchor="end" fontSize="10" fill="#9CA3AF">
+            {new Date(maxTime).toLocaleDateString()}
+          </text>
+        )}
+
+        {series.map(s => (
+          <g key={s.label}>
+            {s.points.length > 1 && (
+              <MotionPolyline
+                fill="none"
+                stroke={s.color}
+                strokeWidth="2"
+                strokeDasharray={s.dashed ? '6 4' : undefined}
+                points={s.points.map(p => `${x(p.date)},${y(p.score)}`).join(' ')}
+                {...(animated ? {
+                  initial: { pathLength: 0 },
+                  animate: { pathLength: 1 },
+                  transition: { duration: 0.8, ease: 'easeOut' }
+                } : {})}
+              />
+            )}
+            {s.points.map((p, index) => (
+              <circle
+                key={index}
+                cx={x(p.date)}
+                cy={y(p.score)}
+                r={p.highlighted ? 5 : 3}
+                fill={p.highlighted ? '#FFFFFF' : s.color}
+                stroke={s.color}
+                strokeWidth="2"
+              >
+                <title>
+                  {`${s.label}: ${p.score}/100 on ${new Date(p.date).toLocaleDateString()}${p.note ? ` — ${p.note}` : ''}`}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {series.map(s => (
+          <div key={s.label} className="flex items-center space-x-2 min-w-0">
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: s.color }} />
+            <span className="truncate max-w-xs">{s.label}</span>
+          </div>
+        ))}
+        {highlightLabel && (
+          <div className="flex items-center space-x-2">
+            <span className="w-3 h-3 rounded-full border-2 border-gray-500 bg-white flex-shrink-0" />
+            <span>{highlightLabel}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { 
+  AlertCircle,
+  CheckCircle,
   Clock, 
   Loader2,
   Pause,
@@ -14,8 +16,8 @@ import {
 interface ProgressCardProps {
   title: string;
   description: string;
-  progress: number;
-  status: 'running' | 'paused' | 'queued';
+  progress?: number; // Omitted while a step's share of the work is unknown
+  status: 'running' | 'paused' | 'queued' | 'completed' | 'failed';
   estimatedTime?: string;
   currentStep?: string;
   totalSteps?: number;
@@ -44,6 +46,8 @@ export default function ProgressCard({
       case 'running': return 'bg-blue-50 border-blue-200';
       case 'paused': return 'bg-yellow-50 border-yellow-200';
       case 'queued': return 'bg-gray-50 border-gray-200';
+      case 'completed': return 'bg-green-50 border-green-200';
+      case 'failed': return 'bg-red-50 border-red-200';
     }
   };
 
@@ -70,6 +74,20 @@ export default function ProgressCard({
             Queued
           </Badge>
         );
+      case 'completed': 
+        return (
+          <Badge className="bg-green-100 text-green-800">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Done
+          </Badge>
+        );
+      case 'failed': 
+        return (
+          <Badge className="bg-red-100 text-red-800">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Failed
+          </Badge>
+        );
     }
   };
 
@@ -89,16 +107,18 @@ export default function ProgressCard({
       <div className="mb-4">
         <div className="flex justify-between items-center mb-2">
           <span className="text-sm font-medium text-gray-700">Progress</span>
-          <span className="text-sm text-gray-500">{progress}%</span>
+          {progress !== undefined && <span className="text-sm text-gray-500">{progress}%</span>}
         </div>
         <div className="w-full bg-gray-200 rounded-full h-2">
           <div 
             className={`h-2 rounded-full transition-all duration-500 ${
               status === 'running' ? 'bg-blue-500' : 
               status === 'paused' ? 'bg-yellow-500' : 
+              status === 'completed' ? 'bg-green-500' :
+              status === 'failed' ? 'bg-red-500' :
               'bg-gray-400'
-            }`}
-            style={{ width: `${progress}%` }}
+            } ${progress === undefined && status === 'running' ? 'animate-pulse' : ''}`}
+            style={{ width: `${progress ?? (status === 'running' ? 100 : 0)}%` }}
           />
         </div>
       </div>
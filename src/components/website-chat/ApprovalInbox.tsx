@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  ShieldAlert,
+  ChevronDown,
+  ChevronUp,
+  Check,
+  X,
+  Pencil,
+  Loader2,
+  RefreshCw
+} from 'lucide-react';
+
+interface ApprovalInboxProps {
+  userToken: string;
+  siteUrl?: string;
+}
+
+interface PatchPreview {
+  targetUrl: string;
+  changeType: string;
+  rationale: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  error?: string;
+}
+
+interface Approval {
+  id: string;
+  action_id: string;
+  action_type: string;
+  site_url: string;
+  requested_at: string;
+  policy_summary: {
+    environment?: string;
+    blast_radius?: { scope: string; maxAffectedPages: number; riskLevel: string; rollbackRequired: boolean };
+    max_pages?: number;
+    max_patches?: number;
+  };
+  risk_assessment: { level?: string; affected_pages?: number; rollback_available?: boolean };
+  patch_preview: PatchPreview[];
+  action?: { id: string; title: string; description?: string; payload: Record<string, any> };
+}
+
+const RISK_STYLES: Record<string, string> = {
+  low: 'bg-green-50 text-green-700 border-green-200',
+  medium: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  high: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export default function ApprovalInbox({ userToken, siteUrl }: ApprovalInboxProps) {
+  const [approvals, setApprovals] = useState<Approval[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedPayload, setEditedPayload] = useState('');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApprovals = async () => {
+    if (!userToken) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ userToken });
+      if (siteUrl) params.set('siteUrl', siteUrl);
+      const response = await fetch(`/api/agent/approvals?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setApprovals(data.approvals || []);
+      }
+    } catch (loadError) {
+      console.error('[APPROVAL INBOX] Failed to load approvals:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadApprovals();
+  }, [userToken, siteUrl]);
+
+  const decide = async (approval: Approval, decision: 'approve' | 'reject') => {
+    let payload: Record<string, any> | undefined;
+    if (decision === 'approve' && editingId === approval.id) {
+      try {
+        payload = JSON.parse(editedPayload);
+      } catch {
+        setError('Edited payload is not valid JSON');
+        return;
+      }
+    }
+
+    setBusyId(approval.id);
+    setError(null);
+    try {
+      const response = await fetch('/api/agent/approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userToken,
+          approvalId: approval.id,
+          decision,
+          note: notes[approval.id] || undefined,
+          payload
+        })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Failed to record decision');
+        return;
+      }
+      setApprovals(prev => prev.filter(a => a.id !== approval.id));
+      setEditingId(null);
+    } catch (decideError) {
+      console.error('[APPROVAL INBOX] Decision failed:', decideError);
+      setError('Failed to record decision');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEditing = (approval: Approval) => {
+    setEditingId(approval.id);
+    setEditedPayload(JSON.stringify(approval.action?.payload || {}, null, 2));
+  };
+
+  if (approvals.length === 0 && !loading) {
+    return null;
+  }
+
+  return (
+    <div className="border-b border-gray-200 bg-amber-50/60">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm"
+      >
+        <span className="flex items-center gap-2 font-medium text-amber-800">
+          <ShieldAlert className="h-4 w-4" />
+          {loading && approvals.length === 0
+            ? 'Checking for actions awaiting approval...'
+            : `${approvals.length} action${approvals.length === 1 ? '' : 's'} awaiting approval`}
+        </span>
+        {expanded ? <ChevronUp className="h-4 w-4 text-amber-700" /> : <ChevronDown className="h-4 w-4 text-amber-700" />}
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-3 space-y-3 max-h-96 overflow-y-auto">
+          <div className="flex items-center justify-between">
+            {error ? <span className="text-xs text-red-600">{error}</span> : <span />}
+            <Button variant="ghost" size="sm" onClick={loadApprovals} disabled={loading} className="h-7 px-2">
+              {loading ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+            </Button>
+          </div>
+
+          {approvals.map(approval => {
+            const risk = approval.risk_assessment?.level || approval.policy_summary?.blast_radius?.riskLevel || 'medium';
+            const blast = approval.policy_summary?.blast_radius;
+            const busy = busyId === approval.id;
+
+            return (
+              <div key={approval.id} className="bg-white border rounded-lg p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{approval.action?.title || approval.action_type}</div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {approval.action_type} · {approval.policy_summary?.environment || 'DRY_RUN'} · requested {new Date(approval.requested_at).toLocaleString()}
+                    </div>
+                  </div>
+                  <Badge variant="outline" className={`text-xs ${RISK_STYLES[risk] || ''}`}>{risk} risk</Badge>
+                </div>
+
+                {/* Blast radius */}
+                {blast && (
+                  <div className="text-xs text-gray-600 mt-2">
+                    Scope: {blast.scope.replace('_', ' ')} · up to {blast.maxAffectedPages} page{blast.maxAffectedPages === 1 ? '' : 's'}
+                    {approval.policy_summary.max_patches ? ` · max ${approval.policy_summary.max_patches} patches` : ''}
+                    {' · '}{approval.risk_assessment?.rollback_available ? 'rollback available' : 'no rollback'}
+                  </div>
+                )}
+
+                {/* Patch diff preview */}
+                {approval.patch_preview?.length > 0 && (
+                  <div className="mt-2 space-y-2">
+                    {approval.patch_preview.map((patch, index) => (
+                      <div key={index} className="border rounded p-2 bg-gray-50">
+                        <div className="text-xs text-gray-700 font-medium truncate">{patch.changeType} · {patch.targetUrl}</div>
+                        {patch.error ? (
+                          <div className="text-xs text-red-600 mt-1">{patch.error}</div>
+                        ) : (
+                          Object.keys(patch.after || {}).map(field => (
+                            <div key={field} className="mt-1 text-xs font-mono break-words">
+                              <div className="text-gray-500">{field}</div>
+                              <div className="text-red-700 bg-red-50 px-1">- {formatValue(patch.before?.[field])}</div>
+                              <div className="text-green-700 bg-green-50 px-1">+ {formatValue(patch.after?.[field])}</div>
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {editingId === approval.id && (
+                  <textarea
+                    value={editedPayload}
+                    onChange={(e) => setEditedPayload(e.target.value)}
+                    rows={8}
+                    className="w-full mt-2 border rounded p-2 text-xs font-mono"
+                  />
+                )}
+
+                <input
+                  type="text"
+                  value={notes[approval.id] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [approval.id]: e.target.value }))}
+                  placeholder="Note (optional)"
+                  className="w-full mt-2 border rounded px-2 py-1 text-xs"
+                />
+
+                <div className="flex gap-2 mt-2">
+                  <Button size="sm" onClick={() => decide(approval, 'approve')} disabled={busy} className="h-7 text-xs">
+                    {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+                    <span className="ml-1">{editingId === approval.id ? 'Approve edited' : 'Approve'}</span>
+                  </Button>
+                  {editingId === approval.id ? (
+                    <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={busy} className="h-7 text-xs">
+                      Cancel edit
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => startEditing(approval)} disabled={busy} className="h-7 text-xs">
+                      <Pencil className="h-3 w-3" />
+                      <span className="ml-1">Edit</span>
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => decide(approval, 'reject')} disabled={busy} className="h-7 text-xs text-red-600">
+                    <X className="h-3 w-3" />
+                    <span className="ml-1">Reject</span>
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,9 @@ import { Badge } from '@/components/ui/badge';
 import TechnicalFixCard from './ActionCards/TechnicalFixCard';
 import ContentSuggestionCard from './ActionCards/ContentSuggestionCard';
 import ProgressCard from './ActionCards/ProgressCard';
+import ApprovalInbox from './ApprovalInbox';
 import { getSmartJSStatus } from '@/lib/seoagent-js-status';
+import { readChatEventStream, type ChatStreamEvent } from '@/services/chat/chat-stream';
 import {
   Send,
   Bot,
@@ -43,6 +45,20 @@ interface ChatMessage {
     arguments: any;
     result?: any;
   };
+  streaming?: boolean; // Still receiving tokens and tool progress
+  toolActivity?: ToolActivity[];
+}
+
+// A tool call in a streaming reply, shown as a progress card until the reply is done
+interface ToolActivity {
+  id: string;
+  label: string;
+  status: 'running' | 'completed' | 'failed';
+  step?: string;
+  stepIndex?: number;
+  totalSteps?: number;
+  error?: string;
+  durationMs?: number;
 }
 
 export default function ChatInterface({ userToken, selectedSite, userSites, onConversationIdChange }: ChatInterfaceProps) {
@@ -237,6 +253,96 @@ What would you like to work on first?`,
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Fold one streamed event into the reply being written
+  const applyStreamEvent = (message: ChatMessage, event: ChatStreamEvent): ChatMessage => {
+    const activity = message.toolActivity || [];
+    const updateTool = (id: string, update: Partial<ToolActivity>) =>
+      activity.map(tool => tool.id === id ? { ...tool, ...update } : tool);
+
+    switch (event.type) {
+      case 'token':
+        return { ...message, content: message.content + event.delta };
+      case 'tool_started':
+        return {
+          ...message,
+          toolActivity: [...activity, { id: event.toolCallId, label: event.label, status: 'running' }]
+        };
+      case 'tool_progress':
+        return {
+          ...message,
+          toolActivity: updateTool(event.toolCallId, {
+            step: event.step,
+            stepIndex: event.stepIndex,
+            totalSteps: event.totalSteps
+          })
+        };
+      case 'tool_finished':
+        return {
+          ...message,
+          toolActivity: updateTool(event.toolCallId, {
+            status: event.success ? 'completed' : 'failed',
+            error: event.error,
+            durationMs: event.durationMs
+          })
+        };
+      case 'error':
+        return event.toolCallId
+          ? { ...message, toolActivity: updateTool(event.toolCallId, { status: 'failed', error: event.message }) }
+          : message;
+      default:
+        return message;
+    }
+  };
+
+  // Show the agent's reply; replaces the streamed placeholder when there is one
+  const applyChatResponse = (data: any, messageId?: string) => {
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to get response');
+    }
+
+    // Update conversation ID if provided (for new conversations)
+    if (data.conversationId && data.conversationId !== conversationId) {
+      setConversationId(data.conversationId);
+      // Notify parent component of conversation ID change
+      if (onConversationIdChange) {
+        onConversationIdChange(data.conversationId);
+      }
+    }
+
+    const assistantMessage: ChatMessage = {
+      id: messageId || `assistant-${Date.now()}`,
+      role: 'assistant',
+      content: data.message,
+      timestamp: new Date(),
+      functionCall: data.functionCall,
+      actionCard: data.actionCard
+    };
+
+    setMessages(prev => messageId
+      ? prev.map(m => m.id === messageId ? assistantMessage : m)
+      : [...prev, assistantMessage]);
+
+    // Start polling for all agent responses to catch async callbacks
+    try {
+      if ((websiteToken || selectedSite) && (conversationId || data.conversationId)) {
+        console.log('[CHAT POLLING] Starting polling for conversation updates');
+        startPollingUpdates(300000); // poll for up to 5 minutes
+      }
+    } catch {}
+
+    // If the assistant executed a keyword strategy update, notify listeners to refresh strategy
+    if (data.functionCall && data.functionCall.result && data.functionCall.result.success) {
+      const fname = data.functionCall.name || '';
+      if (fname === 'KEYWORDS_add_keywords' || fname === 'update_keyword_strategy') {
+        window.dispatchEvent(new CustomEvent('seoagent:strategy-updated', { detail: { site: selectedSite } }));
+      }
+      // Auto-refresh briefs queue on successful BRIEFS_generate
+      if (fname === 'BRIEFS_generate' && (websiteToken || selectedSite)) {
+        window.dispatchEvent(new CustomEvent('seoagent:queue-updated', { detail: { websiteToken: websiteToken || selectedSite } }));
+      }
+    }
+  };
+
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
 
@@ -274,55 +380,38 @@ What would you like to work on first?`,
           websiteToken: effectiveWebsiteToken, // Always send the canonical website token
           domain: selectedSite,
           conversationHistory: messages.slice(-10), // Last 10 messages for context
-          conversationId: conversationId // Include conversation ID for persistence
+          conversationId: conversationId, // Include conversation ID for persistence
+          stream: true
         }),
       });
 
-      const data = await response.json();
-      
-      if (data.success) {
-        // Update conversation ID if provided (for new conversations)
-        if (data.conversationId && data.conversationId !== conversationId) {
-          setConversationId(data.conversationId);
-          // Notify parent component of conversation ID change
-          if (onConversationIdChange) {
-            onConversationIdChange(data.conversationId);
-          }
-        }
-
-        const assistantMessage: ChatMessage = {
-          id: `assistant-${Date.now()}`,
+      // Streamed replies render token by token; setup and error replies still come back as JSON
+      const contentType = response.headers.get('content-type') || '';
+      if (response.body && contentType.includes('text/event-stream')) {
+        const messageId = `assistant-${Date.now()}`;
+        setMessages(prev => [...prev, {
+          id: messageId,
           role: 'assistant',
-          content: data.message,
+          content: '',
           timestamp: new Date(),
-          functionCall: data.functionCall,
-          actionCard: data.actionCard
-        };
-        
-        setMessages(prev => [...prev, assistantMessage]);
-
-        // Start polling for all agent responses to catch async callbacks
-        try {
-          if ((websiteToken || selectedSite) && (conversationId || data.conversationId)) {
-            console.log('[CHAT POLLING] Starting polling for conversation updates');
-            startPollingUpdates(300000); // poll for up to 5 minutes
-          }
-        } catch {}
+          streaming: true,
+          toolActivity: []
+        }]);
 
-        // If the assistant executed a keyword strategy update, notify listeners to refresh strategy
-        if (data.functionCall && data.functionCall.result && data.functionCall.result.success) {
-          const fname = data.functionCall.name || '';
-          if (fname === 'KEYWORDS_add_keywords' || fname === 'update_keyword_strategy') {
-            window.dispatchEvent(new CustomEvent('seoagent:strategy-updated', { detail: { site: selectedSite } }));
-          }
-          // Auto-refresh briefs queue on successful BRIEFS_generate
-          if (fname === 'BRIEFS_generate' && (websiteToken || selectedSite)) {
-            window.dispatchEvent(new CustomEvent('seoagent:queue-updated', { detail: { websiteToken: websiteToken || selectedSite } }));
+        let finished = false;
+        await readChatEventStream(response.body, (event) => {
+          if (event.type === 'done') {
+            finished = true;
+            applyChatResponse(event.response, messageId);
+          } else {
+            setMessages(prev => prev.map(m => m.id === messageId ? applyStreamEvent(m, event) : m));
           }
-        }
-      } else {
-        throw new Error(data.error || 'Failed to get response');
+        });
+        if (!finished) throw new Error('Chat stream ended before the reply finished');
+        return;
       }
+
+      applyChatResponse(await response.json());
     } catch (error) {
       console.error('Chat error:', error);
       const errorMessage: ChatMessage = {
@@ -331,7 +420,13 @@ What would you like to work on first?`,
         content: '❌ Sorry, I encountered an error. Please try again.',
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, errorMessage]);
+      // Keep whatever a broken stream already delivered, minus its live progress
+      setMessages(prev => [
+        ...prev
+          .filter(m => !m.streaming || m.content)
+          .map(m => m.streaming ? { ...m, streaming: false, toolActivity: undefined } : m),
+        errorMessage
+      ]);
     } finally {
       setIsLoading(false);
     }
@@ -736,6 +831,27 @@ What would you like to work on first?`,
     }
   };
 
+  const renderToolActivity = (tool: ToolActivity) => {
+    const stepsDone = tool.status === 'running' ? (tool.stepIndex || 1) - 1 : tool.totalSteps;
+    const seconds = tool.durationMs !== undefined ? Math.max(1, Math.round(tool.durationMs / 1000)) : null;
+    return (
+      <ProgressCard
+        key={tool.id}
+        title={tool.label}
+        description={
+          tool.status === 'failed' ? (tool.error || 'This step failed.') :
+          tool.status === 'completed' ? `Finished${seconds ? ` in ${seconds}s` : ''}` :
+          'Working on it...'
+        }
+        progress={tool.status === 'completed' ? 100 : tool.totalSteps && stepsDone !== undefined ? Math.round((stepsDone / tool.totalSteps) * 100) : undefined}
+        status={tool.status}
+        currentStep={tool.step}
+        totalSteps={tool.totalSteps}
+        currentStepIndex={tool.stepIndex}
+      />
+    );
+  };
+
   const renderMessage = (message: ChatMessage) => {
     const isUser = message.role === 'user';
 
@@ -756,6 +872,13 @@ What would you like to work on first?`,
               </div>
             )}
             
+            {/* Live tool progress while the reply streams */}
+            {message.toolActivity && message.toolActivity.length > 0 && (
+              <div className="mt-3">
+                {message.toolActivity.map(renderToolActivity)}
+              </div>
+            )}
+
             {/* Action Card */}
             {message.actionCard && (
               <div className="mt-3">
@@ -840,6 +963,9 @@ What would you like to work on first?`,
   return (
     <Card className="h-full flex flex-col bg-white/95 backdrop-blur-sm border-0 shadow-sm">
       <CardContent className="flex-1 flex flex-col min-h-0 p-0">
+        {/* Pending approvals */}
+        <ApprovalInbox userToken={userToken} siteUrl={selectedSite} />
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-[0.3rem] min-h-0">
           {isLoadingHistory && (
@@ -857,7 +983,7 @@ What would you like to work on first?`,
           
           {!isLoadingHistory && messages.map(renderMessage)}
           
-          {isLoading && (
+          {isLoading && !messages.some(m => m.streaming) && (
             <div className="mb-4 mx-4">
               <div className="flex items-start">
                 <div className="flex-1 min-w-0">
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
 
 export type ArticleStage = 'brief' | 'draft' | 'published';
 
@@ -20,6 +21,8 @@ export interface ContentItem {
   scheduledPublishAt?: string | null;
   url?: string;
   status?: string; // Article generation status: 'pending', 'generating', 'generated', 'published', etc.
+  reviewStatus?: string; // Editorial review: 'pending', 'changes_requested', 'revising', 'approved'
+  language?: string | null; // Content language of the article (BCP 47); translations carry their own
   articleContent?: string; // Generated article content for preview
   flags?: {
     autoGenerate?: boolean;
@@ -124,6 +127,8 @@ export function useContentPipeline({ userToken, websiteToken, domain, conversati
           scheduledPublishAt: article.scheduled_publish_at || article.published_at || null,
           url: isPublished ? (article.public_url || article.cms_admin_url) : undefined,
           status: article.status, // Include article status
+          reviewStatus: article.review_status,
+          language: article.language,
           articleContent: article.article_content, // Include content for preview
           flags: {
             autoGenerate: false,
@@ -441,7 +446,8 @@ export function useContentPipeline({ userToken, websiteToken, domain, conversati
     }
   }, [userToken, websiteToken, domain, conversationId, items, fetchContent]);
 
-  // Schedule article for publication
+  // Schedule article for publication on a calendar day; the server picks the first free
+  // publishing time that day under the website's publishing rules
   const scheduleForPublication = useCallback(async (id: string, date: Date) => {
     const articleId = id.replace('article-', '');
 
@@ -452,20 +458,19 @@ export function useContentPipeline({ userToken, websiteToken, domain, conversati
         body: JSON.stringify({
           userToken,
           articleId: Number(articleId),
-          scheduledDate: date.toISOString()
+          scheduledDay: format(date, 'yyyy-MM-dd')
         })
       });
 
+      const data = await response.json().catch(() => ({}));
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to schedule article');
+        throw new Error(data.error || 'Failed to schedule article');
       }
 
-      // Update local state optimistically
       setItems(prevItems =>
         prevItems.map(item =>
           item.id === id
-            ? { ...item, scheduledPublishAt: date.toISOString() }
+            ? { ...item, scheduledPublishAt: data.article?.scheduled_publish_at ?? null }
             : item
         )
       );
@@ -488,20 +493,19 @@ export function useContentPipeline({ userToken, websiteToken, domain, conversati
         body: JSON.stringify({
           userToken,
           briefId: Number(briefId),
-          scheduledDate: date ? date.toISOString() : null
+          ...(date ? { scheduledDay: format(date, 'yyyy-MM-dd') } : { scheduledDate: null })
         })
       });
 
+      const data = await response.json().catch(() => ({}));
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to schedule brief');
+        throw new Error(data.error || 'Failed to schedule brief');
       }
 
-      // Update local state optimistically
       setItems(prevItems =>
         prevItems.map(item =>
           item.id === id
-            ? { ...item, scheduledDraftAt: date ? date.toISOString() : null }
+            ? { ...item, scheduledDraftAt: data.scheduledFor ?? null }
             : item
         )
       );
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { UrlNormalizationService } from './UrlNormalizationService';
 import { IndexingIssueAnalyzer, IndexingAnalysis } from './IndexingIssueAnalyzer';
+import { TechnicalSEOService } from '@/services/technical-seo/technical-seo-service';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -12,7 +13,7 @@ export interface ActionItem {
   user_token: string;
   site_url: string;
   issue_type: string;
-  issue_category: 'indexing' | 'sitemap' | 'robots' | 'schema' | 'mobile' | 'performance' | 'meta_tags' | 'alt_tags' | 'core_vitals' | 'security';
+  issue_category: 'indexing' | 'sitemap' | 'robots' | 'schema' | 'mobile' | 'performance' | 'meta_tags' | 'alt_tags' | 'core_vitals' | 'security' | 'content';
   severity: 'critical' | 'high' | 'medium' | 'low';
   title: string;
   description: string;
@@ -90,6 +91,10 @@ export class ActionItemService {
       const mobileIssues = await this.detectMobileIssues(userToken, siteUrl);
       detectedIssues.push(...mobileIssues);
       
+      // Detect on-page issues from the latest technical SEO audit run
+      const auditIssues = await this.detectTechnicalAuditIssues(userToken, siteUrl);
+      detectedIssues.push(...auditIssues);
+      
       console.log(`[ACTION ITEMS] Detected ${detectedIssues.length} issues`);
       return detectedIssues;
     } catch (error) {
@@ -829,6 +834,16 @@ For developers:
     return issues;
   }
 
+  private static async detectTechnicalAuditIssues(userToken: string, siteUrl: string): Promise<DetectedIssue[]> {
+    // Categories already covered by the dedicated detectors above are skipped to avoid duplicates
+    const coveredTypes = ['sitemap_missing', 'robots_missing', 'schema_missing'];
+
+    const findings = await TechnicalSEOService.getLatestAuditFindings(userToken, siteUrl);
+    return TechnicalSEOService.toDetectedIssues(
+      findings.filter(f => !coveredTypes.includes(f.type))
+    );
+  }
+
   private static async findSimilarActionItem(
     userToken: string, 
     siteUrl: string, 
@@ -76,6 +76,14 @@ export abstract class BaseCMSProvider implements CMSProvider {
     return html.replace(/<[^>]*>/g, '').trim();
   }
 
+  // Helper to build a post's public URL for headless/static CMSs that don't know where the site renders it
+  protected buildPostUrl(credentials: CMSCredentials, slug: string): string | undefined {
+    if (credentials.postUrlPattern) {
+      return credentials.postUrlPattern.replace('{slug}', slug);
+    }
+    return credentials.siteUrl ? `${credentials.siteUrl.replace(/\/$/, '')}/blog/${slug}` : undefined;
+  }
+
   // Helper to generate slug from title
   protected generateSlug(title: string): string {
     return title
@@ -1,10 +1,25 @@
 import { CMSProvider, CMSType, CMSCredentials, CMSConnection, CMSIntegrationResult } from './types';
 import { WordPressProvider } from './providers/wordpress';
+import { WordPressComProvider } from './providers/wordpress-com';
 import { WebflowProvider } from './providers/webflow';
 import { ShopifyProvider } from './providers/shopify';
 import { StrapiProvider } from './providers/strapi';
+import { GhostProvider } from './providers/ghost';
+import { ContentfulProvider } from './providers/contentful';
+import { SanityProvider } from './providers/sanity';
+import { GitProvider } from './providers/git';
+import { WebhookProvider } from './providers/webhook';
 import { createClient } from '@supabase/supabase-js';
 
+// auth_config keys copied into CMSCredentials for Contentful, Sanity, Git and Webhook connections
+const CONNECTION_SETTINGS: Array<keyof CMSCredentials> = [
+  'spaceId', 'environmentId', 'locale',
+  'projectId', 'dataset', 'studioUrl',
+  'repoUrl', 'branch', 'contentDir', 'publishMode', 'commitAuthor',
+  'webhookUrl',
+  'fieldMapping', 'postUrlPattern'
+];
+
 export class CMSManager {
   private providers: Map<CMSType, CMSProvider> = new Map();
   private supabase;
@@ -18,14 +33,29 @@ export class CMSManager {
     // Initialize providers
     this.providers.set('wordpress', new WordPressProvider());
 
+    // WordPress.com connections carry their own OAuth token, so publishing works without client credentials
+    this.providers.set('wordpress_com', new WordPressComProvider(
+      process.env.WPCOM_CLIENT_ID,
+      process.env.WPCOM_CLIENT_SECRET
+    ));
+
     // Always initialize Strapi for internal use
     this.providers.set('strapi', new StrapiProvider(
       process.env.STRAPI_URL || 'http://localhost:1337'
     ));
 
-    // Note: Ghost is NOT registered here because it uses Node.js-only packages
-    // Ghost uses direct API routes: /api/cms/ghost/publish
-    // Ghost uses API key authentication, not OAuth
+    // Ghost uses Admin API Key authentication, not OAuth. Its client (@tryghost/admin-api)
+    // is Node.js-only and loaded on first use, so routes using CMSManager run on the Node.js runtime
+    this.providers.set('ghost', new GhostProvider());
+
+    // Contentful and Sanity use per-connection API tokens. The Git provider shells out to the git
+    // executable on temporary clones, so it also needs the Node.js runtime
+    this.providers.set('contentful', new ContentfulProvider());
+    this.providers.set('sanity', new SanityProvider());
+    this.providers.set('git', new GitProvider());
+
+    // Custom stacks receive signed article events on their own endpoint
+    this.providers.set('webhook', new WebhookProvider());
 
     if (process.env.WEBFLOW_CLIENT_ID && process.env.WEBFLOW_CLIENT_SECRET) {
       this.providers.set('webflow', new WebflowProvider(
@@ -141,7 +171,7 @@ export class CMSManager {
       return [];
     }
 
-    return data.map(this.dbRecordToConnection);
+    return data.map(record => this.dbRecordToConnection(record));
   }
 
   /**
@@ -330,16 +360,49 @@ export class CMSManager {
       .eq('id', connectionId);
   }
 
+  /**
+   * Provider credentials for a cms_connections row (or an unsaved one with the same columns)
+   */
+  credentialsFromRecord(record: any): CMSCredentials {
+    const type = record.cms_type as CMSType;
+    const credentials: CMSCredentials = {
+      accessToken: record.api_token,
+      siteUrl: record.base_url,
+      connectionId: record.id?.toString()
+    };
+
+    if (type === 'wordpress' && typeof record.api_token === 'string' && record.api_token.includes(':')) {
+      // Self-hosted WordPress stores "username:application-password"
+      const separator = record.api_token.indexOf(':');
+      credentials.username = record.api_token.substring(0, separator);
+      credentials.accessToken = record.api_token.substring(separator + 1);
+    } else if (type === 'strapi') {
+      credentials.strapiUrl = record.base_url;
+      credentials.contentType = record.content_type || undefined;
+    } else if (type === 'contentful' || type === 'sanity' || type === 'git' || type === 'webhook') {
+      // Space/project/repository/endpoint settings live in auth_config; base_url is the public site
+      const config = record.auth_config || {};
+      CONNECTION_SETTINGS.forEach(key => {
+        if (config[key] !== undefined && config[key] !== null && config[key] !== '') {
+          (credentials as any)[key] = config[key];
+        }
+      });
+      credentials.contentType = record.content_type || undefined;
+    }
+
+    return credentials;
+  }
+
   private dbRecordToConnection(record: any): CMSConnection {
+    const type = record.cms_type as CMSType;
+    const credentials = this.credentialsFromRecord(record);
+
     return {
       id: record.id.toString(),
       userId: record.user_token,
-      type: record.cms_type as CMSType,
+      type,
       name: record.connection_name,
-      credentials: {
-        accessToken: record.api_token,
-        siteUrl: record.base_url
-      },
+      credentials,
       isActive: record.status === 'active',
       lastSyncAt: record.last_sync_at ? new Date(record.last_sync_at) : undefined,
       createdAt: new Date(record.created_at),
@@ -0,0 +1,481 @@
+/**
+ * Markdown Content Utility
+ *
+ * Markdown files with YAML frontmatter, as used by static site generators (Hugo, Jekyll,
+ * Astro, Next.js/Contentlayer...). Article HTML is written as Markdown and read back as HTML;
+ * markup without a Markdown equivalent (embeds, JSON-LD scripts) is kept as inline HTML,
+ * which every common Markdown renderer passes through.
+ *
+ * The YAML support covers what frontmatter uses: scalars, lists and nested maps.
+ */
+
+import { htmlToBlocks, InlineSpan, ContentBlock } from './structured-content';
+
+export type FrontmatterValue = string | number | boolean | null | Date | FrontmatterValue[] | { [key: string]: FrontmatterValue };
+export type Frontmatter = { [key: string]: FrontmatterValue };
+
+// ============================================================================
+// HTML <-> Markdown
+// ============================================================================
+
+export function htmlToMarkdown(html: string): string {
+  const blocks = htmlToBlocks(html);
+  const parts: string[] = [];
+
+  blocks.forEach((block, index) => {
+    const previous = blocks[index - 1];
+    // List items of the same list are not separated by a blank line
+    const joinWithPrevious = block.type === 'list-item' && previous?.type === 'list-item' &&
+      (block.depth > 0 || previous.depth > 0 || block.ordered === previous.ordered);
+    const text = blockToMarkdown(block);
+    if (joinWithPrevious) {
+      parts[parts.length - 1] += `\n${text}`;
+    } else {
+      parts.push(text);
+    }
+  });
+
+  return parts.join('\n\n') + '\n';
+}
+
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^(```|~~~)\s*([\w-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const languageClass = fence[2] ? ` class="language-${fence[2]}"` : '';
+      html.push(`<pre><code${languageClass}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    // Raw HTML blocks pass through until the next blank line
+    if (/^\s*<[a-zA-Z!/]/.test(line)) {
+      const raw: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        raw.push(lines[i]);
+        i++;
+      }
+      html.push(raw.join('\n'));
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quote.push(lines[i].replace(/^\s*>\s?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${markdownToHtml(quote.join('\n')).trim()}</blockquote>`);
+      continue;
+    }
+
+    if (isListItem(line)) {
+      const items: Array<{ indent: number; ordered: boolean; text: string }> = [];
+      while (i < lines.length && (isListItem(lines[i]) || (/^\s{2,}\S/.test(lines[i]) && items.length > 0))) {
+        const match = lines[i].match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+        if (match) {
+          items.push({ indent: match[1].length, ordered: /\d/.test(match[2]), text: match[3] });
+        } else {
+          items[items.length - 1].text += ` ${lines[i].trim()}`;
+        }
+        i++;
+      }
+      html.push(renderList(items));
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const rows: string[][] = [];
+      const header = splitTableRow(lines[i]);
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      const head = `<thead><tr>${header.map(cell => `<th>${renderInline(cell)}</th>`).join('')}</tr></thead>`;
+      const body = rows.map(row => `<tr>${row.map(cell => `<td>${renderInline(cell)}</td>`).join('')}</tr>`).join('');
+      html.push(`<table>${head}<tbody>${body}</tbody></table>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !/^(#{1,6}\s|```|~~~|\s*>|\s*<[a-zA-Z!/])/.test(lines[i]) &&
+      !(paragraph.length > 0 && isListItem(lines[i]))
+    ) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+
+    const image = paragraph.length === 1 ? paragraph[0].match(/^!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)$/) : null;
+    html.push(image
+      ? `<img src="${escapeAttribute(image[2])}" alt="${escapeAttribute(image[1])}">`
+      : `<p>${renderInline(paragraph.join('\n'))}</p>`);
+  }
+
+  return html.join('\n');
+}
+
+function blockToMarkdown(block: ContentBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${spansToMarkdown(block.spans)}`;
+    case 'paragraph':
+      return escapeBlockStart(spansToMarkdown(block.spans));
+    case 'list-item':
+      return `${'   '.repeat(block.depth)}${block.ordered ? '1.' : '-'} ${spansToMarkdown(block.spans)}`;
+    case 'blockquote':
+      return spansToMarkdown(block.spans).split('\n').map(line => `> ${line}`).join('\n');
+    case 'code':
+      return `\`\`\`${block.language || ''}\n${block.text.replace(/\n$/, '')}\n\`\`\``;
+    case 'image':
+      return `![${block.alt.replace(/[[\]]/g, '')}](${block.src.replace(/ /g, '%20')})`;
+    case 'table': {
+      const [header, ...rows] = block.hasHeader ? block.rows : [block.rows[0].map(() => ''), ...block.rows];
+      const width = Math.max(...block.rows.map(row => row.length));
+      const pad = (row: string[]) => Array.from({ length: width }, (_, index) => (row[index] || '').replace(/\|/g, '\\|'));
+      return [
+        `| ${pad(header).join(' | ')} |`,
+        `| ${pad(header).map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${pad(row).join(' | ')} |`)
+      ].join('\n');
+    }
+    case 'hr':
+      return '---';
+    case 'html':
+      return block.html;
+  }
+}
+
+function spansToMarkdown(spans: InlineSpan[]): string {
+  return spans.map(span => {
+    if (span.text === '\n') return '  \n';
+
+    let text = span.marks.includes('code')
+      ? `\`${span.text}\``
+      : span.text.replace(/([\\`*_[\]])/g, '\\$1');
+
+    // Markdown emphasis cannot start or end with whitespace; keep it outside the markers
+    const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!core) return text;
+    text = core;
+    if (span.marks.includes('em')) text = `*${text}*`;
+    if (span.marks.includes('strong')) text = `**${text}**`;
+    if (span.href) text = `[${text}](${span.href.replace(/ /g, '%20').replace(/\)/g, '%29')})`;
+
+    return `${leading}${text}${trailing}`;
+  }).join('');
+}
+
+/**
+ * A paragraph starting like a heading, list or quote would be read back as one
+ */
+function escapeBlockStart(text: string): string {
+  return text
+    .replace(/^(\d+)([.)]\s)/, '$1\\$2')
+    .replace(/^(#{1,6}\s|[-+*]\s|>)/, '\\$1');
+}
+
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+  let html = text.replace(/`([^`]+)`/g, (_, code) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  // Inline HTML passes through; everything else is escaped
+  html = html.replace(/(<\/?[a-zA-Z][^>]*>)|([<>&])/g, (match, tag) => tag || escapeHtml(match));
+
+  html = html
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt, src) => `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(alt)}">`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label, href) => `<a href="${escapeAttribute(href)}">${label}</a>`)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(\*|_)(?=\S)([\s\S]*?\S)\1/g, '<em>$2</em>')
+    .replace(/ {2,}\n/g, '<br>\n')
+    .replace(/\\([\\`*_[\]#+\-.!>|])/g, '$1');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => codeSpans[Number(index)]);
+}
+
+function renderList(items: Array<{ indent: number; ordered: boolean; text: string }>): string {
+  const html: string[] = [];
+  const stack: Array<{ indent: number; tag: string }> = [];
+
+  for (const item of items) {
+    while (stack.length > 0 && item.indent < stack[stack.length - 1].indent) {
+      html.push(`</li></${stack.pop()!.tag}>`);
+    }
+
+    const tag = item.ordered ? 'ol' : 'ul';
+    if (stack.length > 0 && item.indent === stack[stack.length - 1].indent && stack[stack.length - 1].tag !== tag) {
+      html.push(`</li></${stack.pop()!.tag}>`);
+    }
+
+    const top = stack[stack.length - 1];
+    if (!top || item.indent > top.indent) {
+      stack.push({ indent: item.indent, tag });
+      html.push(`<${tag}>`);
+    } else {
+      html.push('</li>');
+    }
+    html.push(`<li>${renderInline(item.text)}`);
+  }
+
+  while (stack.length > 0) {
+    html.push(`</li></${stack.pop()!.tag}>`);
+  }
+
+  return html.join('');
+}
+
+function isListItem(line: string): boolean {
+  return /^\s*([-*+]|\d+[.)])\s+/.test(line) && !/^\s*([-*_])(\s*\1){2,}\s*$/.test(line);
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') && /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(lines[index + 1] || '');
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
+// ============================================================================
+// Frontmatter
+// ============================================================================
+
+/**
+ * Split a Markdown file into its YAML frontmatter and body. Files without frontmatter
+ * return an empty object.
+ */
+export function parseFrontmatter(source: string): { data: Frontmatter; body: string } {
+  const match = source.replace(/^﻿/, '').match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/);
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  const lines = match[1].split(/\r?\n/).filter(line => line.trim() && !/^\s*#/.test(line));
+  const [data] = parseYamlBlock(lines, 0, 0);
+  return { data: isPlainObject(data) ? data as Frontmatter : {}, body: match[2].replace(/^\r?\n/, '') };
+}
+
+export function stringifyFrontmatter(data: Frontmatter, body: string): string {
+  const yaml = stringifyYamlMap(data, 0);
+  return `---\n${yaml}${yaml ? '\n' : ''}---\n\n${body.replace(/^\n+/, '')}`;
+}
+
+function stringifyYamlMap(map: { [key: string]: FrontmatterValue }, indent: number): string {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+
+  for (const [key, value] of Object.entries(map)) {
+    if (value === undefined) continue;
+    const yamlKey = /^[\w-]+$/.test(key) ? key : JSON.stringify(key);
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        lines.push(`${pad}${yamlKey}: []`);
+        continue;
+      }
+      lines.push(`${pad}${yamlKey}:`);
+      value.forEach(item => {
+        if (isPlainObject(item)) {
+          const nested = stringifyYamlMap(item as { [key: string]: FrontmatterValue }, indent + 4).split('\n');
+          lines.push(`${pad}  - ${nested[0].trimStart()}`, ...nested.slice(1));
+        } else {
+          lines.push(`${pad}  - ${stringifyYamlScalar(item)}`);
+        }
+      });
+    } else if (isPlainObject(value)) {
+      const nested = stringifyYamlMap(value as { [key: string]: FrontmatterValue }, indent + 2);
+      lines.push(nested ? `${pad}${yamlKey}:\n${nested}` : `${pad}${yamlKey}: {}`);
+    } else {
+      lines.push(`${pad}${yamlKey}: ${stringifyYamlScalar(value)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function stringifyYamlScalar(value: FrontmatterValue): string {
+  if (value === null) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = String(value);
+  // Plain style only for strings YAML can't mistake for another type; date-only values stay dates
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) || /^[A-Za-z][\w ./-]*$/.test(text) && !/^(true|false|yes|no|on|off|null)$/i.test(text) && !/\s$/.test(text)
+    ? text
+    : JSON.stringify(text);
+}
+
+/**
+ * Parse lines at the given indentation into a map or list. Returns the value and the index
+ * of the first line not consumed.
+ */
+function parseYamlBlock(lines: string[], start: number, indent: number): [FrontmatterValue, number] {
+  const isList = lines[start]?.trimStart().startsWith('- ') || lines[start]?.trim() === '-';
+  const list: FrontmatterValue[] = [];
+  const map: { [key: string]: FrontmatterValue } = {};
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const lineIndent = line.length - line.trimStart().length;
+    if (lineIndent < indent) break;
+    const content = line.trim();
+
+    if (isList) {
+      if (!content.startsWith('-') || lineIndent !== indent) break;
+      const item = content.replace(/^-\s*/, '');
+      if (!item) {
+        const [value, next] = parseYamlBlock(lines, i + 1, indentOf(lines[i + 1]));
+        list.push(value);
+        i = next;
+      } else if (/^[^'"[{][^:]*:(\s|$)/.test(item)) {
+        // "- key: value" starts a map inside the list; its other keys are indented under the key
+        const itemIndent = lineIndent + line.trimStart().indexOf(item);
+        const [value, next] = parseYamlBlock([' '.repeat(itemIndent) + item, ...lines.slice(i + 1)], 0, itemIndent);
+        list.push(value);
+        i = i + next;
+      } else {
+        list.push(parseYamlScalar(item));
+        i++;
+      }
+      continue;
+    }
+
+    if (lineIndent !== indent) break;
+    const pair = content.match(/^("(?:[^"\\]|\\.)*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+    if (!pair) {
+      i++;
+      continue;
+    }
+
+    const key = /^["']/.test(pair[1]) ? String(parseYamlScalar(pair[1])) : pair[1];
+    const rest = (pair[2] || '').trim();
+
+    if (rest === '|' || rest === '>' || /^[|>][+-]$/.test(rest)) {
+      const blockLines: string[] = [];
+      i++;
+      const blockIndent = indentOf(lines[i]);
+      while (i < lines.length && indentOf(lines[i]) >= blockIndent && blockIndent > indent) {
+        blockLines.push(lines[i].slice(blockIndent));
+        i++;
+      }
+      map[key] = rest.startsWith('|') ? blockLines.join('\n') : blockLines.join(' ');
+    } else if (!rest) {
+      const nextIndent = indentOf(lines[i + 1]);
+      const nextIsList = lines[i + 1]?.trimStart().startsWith('-');
+      if (i + 1 < lines.length && (nextIndent > indent || (nextIsList && nextIndent === indent))) {
+        const [value, next] = parseYamlBlock(lines, i + 1, nextIndent);
+        map[key] = value;
+        i = next;
+      } else {
+        map[key] = null;
+        i++;
+      }
+    } else {
+      map[key] = parseYamlScalar(rest);
+      i++;
+    }
+  }
+
+  return [isList ? list : map, i];
+}
+
+function parseYamlScalar(raw: string): FrontmatterValue {
+  const value = raw.replace(/\s+#.*$/, '').trim();
+
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? splitFlowList(inner).map(parseYamlScalar) : [];
+  }
+  if (value === '{}') return {};
+  if (/^(null|~)$/i.test(value)) return null;
+  if (/^(true|yes|on)$/i.test(value)) return true;
+  if (/^(false|no|off)$/i.test(value)) return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (/^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}(:?\d{2})?)?$/.test(value)) {
+    const date = new Date(value.replace(' ', 'T'));
+    if (!isNaN(date.getTime())) return date;
+  }
+  return value;
+}
+
+function splitFlowList(inner: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+
+  return items;
+}
+
+function indentOf(line?: string): number {
+  return line ? line.length - line.trimStart().length : 0;
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
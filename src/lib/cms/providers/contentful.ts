@@ -0,0 +1,657 @@
+import { BaseCMSProvider } from '../base-provider';
+import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
+import { htmlToBlocks, InlineSpan } from '../structured-content';
+import { htmlToMarkdown, markdownToHtml } from '../markdown-content';
+
+const CMA_URL = 'https://api.contentful.com';
+const CMA_CONTENT_TYPE = 'application/vnd.contentful.management.v1+json';
+
+// CMSArticle field -> Contentful field ID. Defaults match the "blogPost" content type of Contentful's blog starter
+const DEFAULT_FIELD_MAPPING: { [field: string]: string } = {
+  title: 'title',
+  slug: 'slug',
+  content: 'body',
+  excerpt: 'description',
+  seoTitle: 'seoTitle',
+  seoDescription: 'seoDescription',
+  tags: 'tags',
+  featuredImage: 'heroImage',
+  publishedAt: 'publishDate'
+};
+
+const RICH_TEXT_MARKS: { [mark: string]: string } = { strong: 'bold', em: 'italic', code: 'code' };
+
+interface ContentfulField {
+  id: string;
+  type: string; // Symbol, Text, RichText, Date, Link, Array, Object...
+  linkType?: string;
+  items?: { type: string; linkType?: string };
+}
+
+interface ContentfulContext {
+  credentials: CMSCredentials;
+  environmentPath: string;
+  locale: string;
+  contentTypeId: string;
+  fields: Map<string, ContentfulField>;
+  mapping: { [field: string]: string };
+}
+
+export class ContentfulProvider extends BaseCMSProvider {
+  type: CMSType = 'contentful';
+  name = 'Contentful';
+
+  constructor() {
+    // Contentful connections use a Content Management API token per space
+    super('', '', CMA_URL);
+  }
+
+  getAuthUrl(redirectUri: string, state: string): string {
+    // Contentful uses Content Management API tokens, not OAuth
+    throw new Error('Contentful uses Content Management API token authentication, not OAuth');
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string): Promise<CMSCredentials> {
+    throw new Error('Contentful uses Content Management API token authentication, not OAuth');
+  }
+
+  async validateToken(credentials: CMSCredentials): Promise<boolean> {
+    try {
+      if (!credentials.accessToken || !credentials.spaceId) {
+        console.error('[CONTENTFUL] Missing accessToken or spaceId in credentials');
+        return false;
+      }
+
+      await this.request(credentials, this.getEnvironmentPath(credentials));
+      return true;
+    } catch (error) {
+      console.error('[CONTENTFUL] Token validation failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Content types of the environment; a content type plays the role of a blog
+   */
+  async getBlogs(credentials: CMSCredentials): Promise<CMSBlog[]> {
+    try {
+      const response = await this.request(credentials, `${this.getEnvironmentPath(credentials)}/content_types?limit=1000`);
+
+      return (response.items || []).map((contentType: any) => ({
+        id: contentType.sys.id,
+        name: contentType.name,
+        description: contentType.description || ''
+      }));
+    } catch (error) {
+      console.error('[CONTENTFUL] Failed to fetch content types:', error);
+      return [];
+    }
+  }
+
+  async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
+    try {
+      const context = await this.getContext(credentials, blogId);
+      const entries: any[] = [];
+      let total = Infinity;
+
+      for (let skip = 0; skip < total && skip < 10000; skip += 100) {
+        const response = await this.request(
+          credentials,
+          `${context.environmentPath}/entries?content_type=${encodeURIComponent(context.contentTypeId)}&limit=100&skip=${skip}&order=-sys.updatedAt`
+        );
+        entries.push(...(response.items || []));
+        total = response.total || 0;
+      }
+
+      const assets = await this.resolveAssets(context, entries);
+      return entries.map(entry => this.transformEntry(context, entry, assets));
+    } catch (error) {
+      console.error('[CONTENTFUL] Failed to fetch articles:', error);
+      return [];
+    }
+  }
+
+  async publishArticle(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
+    try {
+      const context = await this.getContext(credentials, options?.blogId);
+      const fields = await this.buildFields(context, {
+        ...article,
+        slug: article.slug || this.generateSlug(article.title || '')
+      }, options);
+
+      let entry = await this.request(credentials, `${context.environmentPath}/entries`, {
+        method: 'POST',
+        headers: { 'X-Contentful-Content-Type': context.contentTypeId },
+        body: JSON.stringify({ fields })
+      });
+      console.log(`[CONTENTFUL] Created entry ${entry.sys.id} (${context.contentTypeId})`);
+
+      if ((options?.status || article.status) === 'published') {
+        entry = await this.publishOrSchedule(context, entry, options?.publishedAt || article.publishedAt);
+      }
+
+      return this.transformEntry(context, entry, await this.resolveAssets(context, [entry]));
+    } catch (error) {
+      console.error('[CONTENTFUL] Failed to publish article:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit an entry. Contentful rejects writes carrying an outdated X-Contentful-Version; pass
+   * article.updatedAt (the version last seen) to refuse overwriting changes made in Contentful since.
+   * Published entries are republished so the edit goes live.
+   */
+  async updateArticle(credentials: CMSCredentials, articleId: string, article: Partial<CMSArticle>): Promise<CMSArticle> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const current = await this.request(credentials, `${this.getEnvironmentPath(credentials)}/entries/${articleId}`);
+        this.assertNotModifiedSince(current, article.updatedAt);
+
+        const context = await this.getContext(credentials, current.sys.contentType?.sys?.id);
+        const wasPublished = !!current.sys.publishedVersion;
+        const fields = this.mergeLocalizedFields(current.fields || {}, await this.buildFields(context, article));
+
+        let entry: any;
+        try {
+          entry = await this.request(credentials, `${context.environmentPath}/entries/${articleId}`, {
+            method: 'PUT',
+            headers: { 'X-Contentful-Version': String(current.sys.version) },
+            body: JSON.stringify({ fields })
+          });
+        } catch (error: any) {
+          // Someone saved the entry between our read and write; re-read once unless the caller pinned a version
+          if (error?.status === 409 && !article.updatedAt && attempt < 2) {
+            console.warn(`[CONTENTFUL] Entry ${articleId} changed while updating, retrying with latest version`);
+            continue;
+          }
+          if (error?.status === 409) {
+            throw new Error(`[CONTENTFUL] Update conflict: entry ${articleId} was modified in Contentful while updating`);
+          }
+          throw error;
+        }
+
+        if (article.status === 'draft' && wasPublished) {
+          entry = await this.request(credentials, `${context.environmentPath}/entries/${articleId}/published`, {
+            method: 'DELETE',
+            headers: { 'X-Contentful-Version': String(entry.sys.version) }
+          });
+        } else if (article.status === 'published' || (wasPublished && article.status !== 'draft')) {
+          entry = await this.publishOrSchedule(context, entry, article.publishedAt);
+        }
+
+        console.log(`[CONTENTFUL] Updated entry ${articleId}`);
+        return this.transformEntry(context, entry, await this.resolveAssets(context, [entry]));
+      }
+    } catch (error) {
+      console.error('[CONTENTFUL] Failed to update article:', error);
+      throw error;
+    }
+  }
+
+  async deleteArticle(credentials: CMSCredentials, articleId: string): Promise<void> {
+    try {
+      const entryPath = `${this.getEnvironmentPath(credentials)}/entries/${articleId}`;
+      let entry = await this.request(credentials, entryPath);
+
+      // Published entries have to be unpublished before they can be deleted
+      if (entry.sys.publishedVersion) {
+        entry = await this.request(credentials, `${entryPath}/published`, {
+          method: 'DELETE',
+          headers: { 'X-Contentful-Version': String(entry.sys.version) }
+        });
+      }
+
+      await this.request(credentials, entryPath, {
+        method: 'DELETE',
+        headers: { 'X-Contentful-Version': String(entry.sys.version) }
+      });
+    } catch (error) {
+      console.error('[CONTENTFUL] Failed to delete article:', error);
+      throw error;
+    }
+  }
+
+  private getEnvironmentPath(credentials: CMSCredentials): string {
+    return `/spaces/${credentials.spaceId}/environments/${credentials.environmentId || 'master'}`;
+  }
+
+  private async request(credentials: CMSCredentials, path: string, options: RequestInit = {}): Promise<any> {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(`${CMA_URL}${path}`, {
+        ...options,
+        headers: {
+          'Authorization': `Bearer ${credentials.accessToken}`,
+          'Content-Type': CMA_CONTENT_TYPE,
+          'User-Agent': 'SEOAgent/1.0',
+          ...options.headers
+        }
+      });
+
+      // Rate limited: wait for the window Contentful reports, a couple of times at most
+      if (response.status === 429 && attempt < 3) {
+        const resetSeconds = Number(response.headers.get('X-Contentful-RateLimit-Reset')) || 1;
+        await new Promise(resolve => setTimeout(resolve, resetSeconds * 1000));
+        continue;
+      }
+
+      if (!response.ok) {
+        const error: any = new Error(`[CONTENTFUL] HTTP ${response.status}: ${await response.text()}`);
+        error.status = response.status;
+        throw error;
+      }
+
+      const text = await response.text();
+      return text ? JSON.parse(text) : null;
+    }
+  }
+
+  /**
+   * Load the content type and locale articles are mapped onto
+   */
+  private async getContext(credentials: CMSCredentials, contentTypeId?: string): Promise<ContentfulContext> {
+    const environmentPath = this.getEnvironmentPath(credentials);
+    const typeId = contentTypeId || credentials.contentType || 'blogPost';
+
+    const [contentType, locale] = await Promise.all([
+      this.request(credentials, `${environmentPath}/content_types/${encodeURIComponent(typeId)}`),
+      credentials.locale
+        ? Promise.resolve(credentials.locale)
+        : this.request(credentials, `${environmentPath}/locales`).then(response =>
+          (response.items || []).find((item: any) => item.default)?.code || 'en-US'
+        )
+    ]);
+
+    return {
+      credentials,
+      environmentPath,
+      locale,
+      contentTypeId: typeId,
+      fields: new Map<string, ContentfulField>((contentType.fields || []).map((field: ContentfulField) => [field.id, field] as [string, ContentfulField])),
+      mapping: { ...DEFAULT_FIELD_MAPPING, ...(credentials.fieldMapping || {}) }
+    };
+  }
+
+  /**
+   * Map the provided CMSArticle fields to localized entry fields (only fields that are set,
+   * so it works for edits). Fields the content type doesn't have are skipped.
+   */
+  private async buildFields(
+    context: ContentfulContext,
+    article: Partial<CMSArticle>,
+    options?: Pick<CMSPublishOptions, 'tags' | 'publishedAt'>
+  ): Promise<{ [fieldId: string]: { [locale: string]: any } }> {
+    const fields: { [fieldId: string]: { [locale: string]: any } } = {};
+    const skipped: string[] = [];
+
+    const set = async (key: string, value: any, format: (field: ContentfulField) => any | Promise<any> = () => value) => {
+      if (value === undefined) return;
+      const field = context.fields.get(context.mapping[key]);
+      if (!field) {
+        skipped.push(key);
+        return;
+      }
+      fields[field.id] = { [context.locale]: await format(field) };
+    };
+
+    await set('title', article.title);
+    await set('slug', article.slug);
+    await set('content', article.content, field =>
+      field.type === 'RichText' ? this.toRichText(context, article.content!) : htmlToMarkdown(article.content!)
+    );
+    await set('excerpt', article.excerpt);
+    await set('seoTitle', article.seo?.title);
+    await set('seoDescription', article.seo?.description);
+
+    if (article.tags !== undefined || options?.tags !== undefined) {
+      const tags = [...(article.tags || []), ...(options?.tags || [])]
+        .map(tag => tag.trim())
+        .filter((tag, index, all) => tag && all.indexOf(tag) === index);
+      await set('tags', tags, field => field.type === 'Array' ? tags : tags.join(', '));
+    }
+
+    if (article.featuredImage !== undefined) {
+      await set('featuredImage', article.featuredImage, async field => {
+        if (!article.featuredImage?.url) return null;
+        if (field.type !== 'Link') return article.featuredImage.url;
+        const assetId = await this.uploadAsset(context, article.featuredImage.url, article.featuredImage.alt || article.title || 'Featured image');
+        return assetId ? this.assetLink(assetId) : null;
+      });
+    }
+
+    const publishedAt = options?.publishedAt || article.publishedAt;
+    if (publishedAt) {
+      await set('publishedAt', new Date(publishedAt).toISOString());
+    }
+
+    if (skipped.length > 0) {
+      console.warn(`[CONTENTFUL] Content type ${context.contentTypeId} has no field for: ${skipped.join(', ')} (set fieldMapping to map them)`);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Publish now, or schedule publishing when publishedAt is in the future
+   */
+  private async publishOrSchedule(context: ContentfulContext, entry: any, publishedAt?: Date): Promise<any> {
+    if (publishedAt && new Date(publishedAt).getTime() > Date.now()) {
+      await this.request(context.credentials, `/spaces/${context.credentials.spaceId}/scheduled_actions`, {
+        method: 'POST',
+        body: JSON.stringify({
+          entity: { sys: { type: 'Link', linkType: 'Entry', id: entry.sys.id } },
+          environment: { sys: { type: 'Link', linkType: 'Environment', id: context.credentials.environmentId || 'master' } },
+          scheduledFor: { datetime: new Date(publishedAt).toISOString() },
+          action: 'publish'
+        })
+      });
+      console.log(`[CONTENTFUL] Scheduled entry ${entry.sys.id} for ${new Date(publishedAt).toISOString()}`);
+      return entry;
+    }
+
+    return this.request(context.credentials, `${context.environmentPath}/entries/${entry.sys.id}/published`, {
+      method: 'PUT',
+      headers: { 'X-Contentful-Version': String(entry.sys.version) }
+    });
+  }
+
+  /**
+   * Create an asset from an external URL, let Contentful fetch and process it, then publish it.
+   * Returns null when any step fails so the article still publishes without the image.
+   */
+  private async uploadAsset(context: ContentfulContext, url: string, title: string): Promise<string | null> {
+    try {
+      const assetsPath = `${context.environmentPath}/assets`;
+      const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'image.jpg';
+      const extension = fileName.split('.').pop()?.toLowerCase();
+      const contentType = extension === 'png' ? 'image/png'
+        : extension === 'webp' ? 'image/webp'
+        : extension === 'gif' ? 'image/gif'
+        : 'image/jpeg';
+
+      const created = await this.request(context.credentials, assetsPath, {
+        method: 'POST',
+        body: JSON.stringify({
+          fields: {
+            title: { [context.locale]: title },
+            file: { [context.locale]: { contentType, fileName, upload: url } }
+          }
+        })
+      });
+      const assetPath = `${assetsPath}/${created.sys.id}`;
+
+      await this.request(context.credentials, `${assetPath}/files/${context.locale}/process`, {
+        method: 'PUT',
+        headers: { 'X-Contentful-Version': String(created.sys.version) }
+      });
+
+      // Processing is asynchronous; the asset can be published once its file has a URL
+      let asset = created;
+      for (let check = 0; check < 10 && !asset.fields?.file?.[context.locale]?.url; check++) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        asset = await this.request(context.credentials, assetPath);
+      }
+      if (!asset.fields?.file?.[context.locale]?.url) {
+        throw new Error('asset processing did not finish');
+      }
+
+      await this.request(context.credentials, `${assetPath}/published`, {
+        method: 'PUT',
+        headers: { 'X-Contentful-Version': String(asset.sys.version) }
+      });
+
+      console.log(`[CONTENTFUL] Uploaded asset ${created.sys.id} from ${url}`);
+      return created.sys.id;
+    } catch (error) {
+      console.warn(`[CONTENTFUL] Asset upload failed for ${url}:`, error);
+      return null;
+    }
+  }
+
+  private assetLink(assetId: string) {
+    return { sys: { type: 'Link', linkType: 'Asset', id: assetId } };
+  }
+
+  /**
+   * Convert article HTML to a Rich Text document. Images become embedded assets; markup
+   * Rich Text can't hold (embeds, JSON-LD scripts) is left out.
+   */
+  private async toRichText(context: ContentfulContext, html: string): Promise<any> {
+    const node = (nodeType: string, content: any[] = [], data: any = {}) => ({ nodeType, data, content });
+    const paragraph = (spans: InlineSpan[]) => node('paragraph', this.toRichTextInline(spans));
+    const content: any[] = [];
+    const openLists: any[] = []; // innermost open list per depth
+
+    for (const block of htmlToBlocks(html)) {
+      if (block.type !== 'list-item') openLists.length = 0;
+
+      switch (block.type) {
+        case 'heading':
+          content.push(node(`heading-${block.level}`, this.toRichTextInline(block.spans)));
+          break;
+        case 'paragraph':
+          content.push(paragraph(block.spans));
+          break;
+        case 'blockquote':
+          content.push(node('blockquote', [paragraph(block.spans)]));
+          break;
+        case 'code':
+          content.push(paragraph([{ text: block.text, marks: ['code'] }]));
+          break;
+        case 'hr':
+          content.push(node('hr'));
+          break;
+        case 'table':
+          content.push(node('table', block.rows.map((row, rowIndex) => node('table-row', row.map(cell =>
+            node(rowIndex === 0 && block.hasHeader ? 'table-header-cell' : 'table-cell', [paragraph([{ text: cell, marks: [] }])])
+          )))));
+          break;
+        case 'image': {
+          const assetId = block.src ? await this.uploadAsset(context, block.src, block.alt || 'Image') : null;
+          if (assetId) {
+            content.push(node('embedded-asset-block', [], { target: this.assetLink(assetId) }));
+          } else if (block.src) {
+            content.push(paragraph([{ text: block.alt || block.src, marks: [], href: block.src }]));
+          }
+          break;
+        }
+        case 'list-item': {
+          const listType = block.ordered ? 'ordered-list' : 'unordered-list';
+          const depth = Math.min(block.depth, openLists.length);
+          let list = openLists[depth];
+
+          if (!list || list.nodeType !== listType) {
+            list = node(listType);
+            const parentItems = depth > 0 ? openLists[depth - 1].content : null;
+            if (parentItems && parentItems.length > 0) {
+              parentItems[parentItems.length - 1].content.push(list);
+            } else {
+              content.push(list);
+            }
+          }
+          openLists.length = depth;
+          openLists[depth] = list;
+          list.content.push(node('list-item', [paragraph(block.spans)]));
+          break;
+        }
+        case 'html':
+          break;
+      }
+    }
+
+    return node('document', content.length > 0 ? content : [paragraph([])]);
+  }
+
+  private toRichTextInline(spans: InlineSpan[]): any[] {
+    const nodes = spans.map(span => {
+      const text = {
+        nodeType: 'text',
+        value: span.text,
+        marks: span.marks.map(mark => ({ type: RICH_TEXT_MARKS[mark] })),
+        data: {}
+      };
+      return span.href ? { nodeType: 'hyperlink', data: { uri: span.href }, content: [text] } : text;
+    });
+
+    return nodes.length > 0 ? nodes : [{ nodeType: 'text', value: '', marks: [], data: {} }];
+  }
+
+  private richTextToHtml(node: any, assets: Map<string, any>): string {
+    if (!node) return '';
+
+    if (node.nodeType === 'text') {
+      let html = this.escapeHtml(node.value || '').replace(/\n/g, '<br>');
+      for (const mark of node.marks || []) {
+        const tag = mark.type === 'bold' ? 'strong' : mark.type === 'italic' ? 'em' : mark.type === 'underline' ? 'u' : mark.type === 'code' ? 'code' : null;
+        if (tag) html = `<${tag}>${html}</${tag}>`;
+      }
+      return html;
+    }
+
+    const inner = (node.content || []).map((child: any) => this.richTextToHtml(child, assets)).join('');
+    const unwrapParagraphs = (html: string) => html.replace(/<\/?p>/g, '');
+    const headingLevel = /^heading-([1-6])$/.exec(node.nodeType)?.[1];
+    if (headingLevel) return `<h${headingLevel}>${inner}</h${headingLevel}>`;
+
+    switch (node.nodeType) {
+      case 'paragraph': return `<p>${inner}</p>`;
+      case 'unordered-list': return `<ul>${inner}</ul>`;
+      case 'ordered-list': return `<ol>${inner}</ol>`;
+      case 'list-item': return `<li>${unwrapParagraphs(inner)}</li>`;
+      case 'blockquote': return `<blockquote>${inner}</blockquote>`;
+      case 'hr': return '<hr>';
+      case 'hyperlink': return `<a href="${this.escapeHtml(node.data?.uri || '')}">${inner}</a>`;
+      case 'table': return `<table><tbody>${inner}</tbody></table>`;
+      case 'table-row': return `<tr>${inner}</tr>`;
+      case 'table-header-cell': return `<th>${unwrapParagraphs(inner)}</th>`;
+      case 'table-cell': return `<td>${unwrapParagraphs(inner)}</td>`;
+      case 'embedded-asset-block': {
+        const asset = assets.get(node.data?.target?.sys?.id);
+        return asset ? `<img src="${this.escapeHtml(asset.url)}" alt="${this.escapeHtml(asset.alt)}">` : '';
+      }
+      default: return inner;
+    }
+  }
+
+  /**
+   * Load the assets entries link to (featured image field and embedded images), keyed by ID
+   */
+  private async resolveAssets(context: ContentfulContext, entries: any[]): Promise<Map<string, { url: string; alt: string }>> {
+    const ids = new Set<string>();
+    const collect = (value: any) => {
+      if (!value || typeof value !== 'object') return;
+      if (value.sys?.linkType === 'Asset' && value.sys.id) ids.add(value.sys.id);
+      Object.keys(value).forEach(key => collect(value[key]));
+    };
+    entries.forEach(entry => collect(entry.fields));
+
+    const assets = new Map<string, { url: string; alt: string }>();
+    const assetIds = Array.from(ids);
+
+    for (let i = 0; i < assetIds.length; i += 100) {
+      try {
+        const response = await this.request(
+          context.credentials,
+          `${context.environmentPath}/assets?sys.id[in]=${assetIds.slice(i, i + 100).join(',')}&limit=100`
+        );
+        for (const asset of response.items || []) {
+          const file = this.localized(asset.fields?.file, context.locale);
+          if (file?.url) {
+            assets.set(asset.sys.id, {
+              url: file.url.startsWith('//') ? `https:${file.url}` : file.url,
+              alt: this.localized(asset.fields?.description, context.locale) || this.localized(asset.fields?.title, context.locale) || ''
+            });
+          }
+        }
+      } catch (error) {
+        console.warn('[CONTENTFUL] Failed to resolve assets:', error);
+      }
+    }
+
+    return assets;
+  }
+
+  /**
+   * Overlay changed fields onto an entry's fields per locale, so writing one locale (a translation)
+   * leaves the values in the others untouched
+   */
+  private mergeLocalizedFields(
+    current: { [fieldId: string]: { [locale: string]: any } },
+    changes: { [fieldId: string]: { [locale: string]: any } }
+  ): { [fieldId: string]: { [locale: string]: any } } {
+    const fields = { ...current };
+    Object.keys(changes).forEach(fieldId => {
+      fields[fieldId] = { ...(current[fieldId] || {}), ...changes[fieldId] };
+    });
+    return fields;
+  }
+
+  /**
+   * Value of a localized field in the given locale, falling back to any locale that has one
+   */
+  private localized(field: any, locale: string): any {
+    if (!field || typeof field !== 'object') return undefined;
+    if (field[locale] !== undefined) return field[locale];
+    const locales = Object.keys(field);
+    return locales.length > 0 ? field[locales[0]] : undefined;
+  }
+
+  private assertNotModifiedSince(entry: any, expectedUpdatedAt?: Date) {
+    if (!expectedUpdatedAt || !entry.sys?.updatedAt) return;
+    if (new Date(entry.sys.updatedAt).getTime() !== new Date(expectedUpdatedAt).getTime()) {
+      throw new Error(
+        `[CONTENTFUL] Update conflict: entry ${entry.sys.id} was modified in Contentful at ${entry.sys.updatedAt}, ` +
+        `after the version being updated (${new Date(expectedUpdatedAt).toISOString()})`
+      );
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Transform a Contentful entry to CMSArticle format
+   */
+  private transformEntry(context: ContentfulContext, entry: any, assets: Map<string, { url: string; alt: string }>): CMSArticle {
+    const field = (key: string) => this.localized(entry.fields?.[context.mapping[key]], context.locale);
+    const { spaceId, environmentId } = context.credentials;
+
+    const body = field('content');
+    const image = field('featuredImage');
+    const tags = field('tags');
+    const slug = field('slug') || '';
+    const publishedAt = field('publishedAt') || entry.sys.firstPublishedAt;
+    const asset = image?.sys ? assets.get(image.sys.id) : typeof image === 'string' ? { url: image, alt: '' } : undefined;
+
+    return {
+      id: entry.sys.id,
+      title: field('title') || '',
+      content: typeof body === 'string' ? markdownToHtml(body) : this.richTextToHtml(body, assets),
+      slug,
+      status: entry.sys.publishedVersion ? 'published' : 'draft',
+      publishedAt: publishedAt ? new Date(publishedAt) : undefined,
+      createdAt: entry.sys.createdAt ? new Date(entry.sys.createdAt) : undefined,
+      updatedAt: entry.sys.updatedAt ? new Date(entry.sys.updatedAt) : undefined,
+      excerpt: field('excerpt') || '',
+      tags: Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
+      categories: [],
+      featuredImage: asset,
+      seo: {
+        title: field('seoTitle') || field('title') || '',
+        description: field('seoDescription') || field('excerpt') || '',
+        keywords: []
+      },
+      url: slug ? this.buildPostUrl(context.credentials, slug) : undefined,
+      adminUrl: `https://app.contentful.com/spaces/${spaceId}/environments/${environmentId || 'master'}/entries/${entry.sys.id}`,
+      customFields: {
+        contentfulId: entry.sys.id,
+        contentTypeId: context.contentTypeId,
+        version: entry.sys.version,
+        publishedVersion: entry.sys.publishedVersion,
+        // Published entries with a draft change pending are ahead of their published version by more than one
+        hasPendingChanges: !!entry.sys.publishedVersion && entry.sys.version > entry.sys.publishedVersion + 1
+      }
+    };
+  }
+}
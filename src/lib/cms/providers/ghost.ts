@@ -1,5 +1,6 @@
 import { BaseCMSProvider } from '../base-provider';
 import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
+import type { GhostAdminAPI as GhostAdminAPIClient, GhostPost } from '@tryghost/admin-api';
 
 export class GhostProvider extends BaseCMSProvider {
   type: CMSType = 'ghost';
@@ -53,13 +54,7 @@ export class GhostProvider extends BaseCMSProvider {
 
   async getBlogs(credentials: CMSCredentials): Promise<CMSBlog[]> {
     try {
-      const GhostAdminAPI = (await import('@tryghost/admin-api')).default;
-
-      const api = new GhostAdminAPI({
-        url: credentials.siteUrl!,
-        key: credentials.accessToken,
-        version: 'v5.0'
-      });
+      const api = await this.getApi(credentials);
 
       const siteInfo = await api.site.read();
 
@@ -78,17 +73,13 @@ export class GhostProvider extends BaseCMSProvider {
 
   async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
     try {
-      const GhostAdminAPI = (await import('@tryghost/admin-api')).default;
+      const api = await this.getApi(credentials);
 
-      const api = new GhostAdminAPI({
-        url: credentials.siteUrl!,
-        key: credentials.accessToken,
-        version: 'v5.0'
-      });
-
-      // Fetch all posts (using large limit since 'all' is not supported by TypeScript types)
+      // Fetch every post, drafts and scheduled included
       const posts = await api.posts.browse({
-        limit: 1000 // Large number to get most posts
+        limit: 'all',
+        formats: 'html',
+        include: 'tags,authors'
       });
 
       return posts.map((post: any) => this.transformGhostPost(post, credentials.siteUrl!));
@@ -100,36 +91,22 @@ export class GhostProvider extends BaseCMSProvider {
 
   async publishArticle(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
     try {
-      const GhostAdminAPI = (await import('@tryghost/admin-api')).default;
+      const api = await this.getApi(credentials);
 
-      const api = new GhostAdminAPI({
-        url: credentials.siteUrl!,
-        key: credentials.accessToken,
-        version: 'v5.0'
-      });
-
-      // Convert HTML content to Lexical format for Ghost 5.0+
-      const lexicalContent = this.convertHTMLToLexical(article.content || '');
-
-      // Prepare post data
-      const postData: any = {
-        title: article.title,
-        lexical: lexicalContent,
-        status: options?.status === 'published' ? 'published' : 'draft',
-        slug: article.slug || this.generateSlug(article.title || ''),
-        custom_excerpt: article.excerpt,
-        meta_title: article.seo?.title,
-        meta_description: article.seo?.description,
-        tags: (article.tags || []).map((tag: string) => ({ name: tag }))
+      const postData: GhostPost = {
+        ...(await this.buildPostData(api, credentials, article, options)),
+        slug: article.slug || this.generateSlug(article.title || '')
       };
 
-      // Add featured image if available
-      if (article.featuredImage?.url) {
-        postData.feature_image = article.featuredImage.url;
+      const publishedAt = options?.publishedAt || article.publishedAt;
+      postData.status = this.resolveStatus(options?.status || article.status, publishedAt);
+      if (publishedAt && postData.status !== 'draft') {
+        postData.published_at = new Date(publishedAt).toISOString();
       }
 
       // Publish the post
       const createdPost = await api.posts.add(postData, { source: 'html' });
+      console.log(`[GHOST] Created post ${createdPost.id} (${createdPost.status})`);
 
       return this.transformGhostPost(createdPost, credentials.siteUrl!);
     } catch (error) {
@@ -138,22 +115,57 @@ export class GhostProvider extends BaseCMSProvider {
     }
   }
 
+  /**
+   * Edit an existing post. Ghost rejects edits whose updated_at is not the post's current one;
+   * pass article.updatedAt (the version last seen) to refuse overwriting changes made in Ghost since.
+   * Without it the latest version is edited (last write wins).
+   */
   async updateArticle(credentials: CMSCredentials, articleId: string, article: Partial<CMSArticle>): Promise<CMSArticle> {
-    // Note: Ghost Admin API v1.14.0 TypeScript types don't expose the edit method
-    // This functionality may need to be implemented using raw API calls
-    // For now, throw an error indicating this feature is not yet implemented
-    throw new Error('[GHOST] Article updating is not yet implemented. Ghost Admin API types do not expose the edit method. Please delete and recreate the post instead.');
+    try {
+      const api = await this.getApi(credentials);
+      const postData = await this.buildPostData(api, credentials, article);
+
+      if (article.slug) postData.slug = article.slug;
+
+      for (let attempt = 1; ; attempt++) {
+        const current = await api.posts.read({ id: articleId });
+        this.assertNotModifiedSince(current, article.updatedAt);
+
+        if (article.status || article.publishedAt) {
+          postData.status = this.resolveStatus(article.status || (current.status === 'draft' ? 'draft' : 'published'), article.publishedAt);
+          if (article.publishedAt && postData.status !== 'draft') {
+            postData.published_at = new Date(article.publishedAt).toISOString();
+          }
+        }
+
+        try {
+          const updatedPost = await api.posts.edit(
+            { ...postData, id: articleId, updated_at: current.updated_at! },
+            { source: 'html' }
+          );
+          console.log(`[GHOST] Updated post ${articleId}`);
+          return this.transformGhostPost(updatedPost, credentials.siteUrl!);
+        } catch (error: any) {
+          // Someone saved the post between our read and edit; re-read once unless the caller pinned a version
+          if (this.isUpdateCollision(error) && !article.updatedAt && attempt < 2) {
+            console.warn(`[GHOST] Post ${articleId} changed while updating, retrying with latest version`);
+            continue;
+          }
+          if (this.isUpdateCollision(error)) {
+            throw new Error(`[GHOST] Update conflict: post ${articleId} was modified in Ghost while updating`);
+          }
+          throw error;
+        }
+      }
+    } catch (error) {
+      console.error('[GHOST] Failed to update article:', error);
+      throw error;
+    }
   }
 
   async deleteArticle(credentials: CMSCredentials, articleId: string): Promise<void> {
     try {
-      const GhostAdminAPI = (await import('@tryghost/admin-api')).default;
-
-      const api = new GhostAdminAPI({
-        url: credentials.siteUrl!,
-        key: credentials.accessToken,
-        version: 'v5.0'
-      });
+      const api = await this.getApi(credentials);
 
       await api.posts.delete({ id: articleId });
     } catch (error) {
@@ -162,6 +174,168 @@ export class GhostProvider extends BaseCMSProvider {
     }
   }
 
+  private async getApi(credentials: CMSCredentials): Promise<GhostAdminAPIClient> {
+    const GhostAdminAPI = (await import('@tryghost/admin-api')).default;
+
+    return new GhostAdminAPI({
+      url: credentials.siteUrl!.replace(/\/$/, ''),
+      key: credentials.accessToken,
+      version: 'v5.0'
+    });
+  }
+
+  /**
+   * Map the provided CMSArticle fields to Ghost post fields (only fields that are set, so it works for edits)
+   */
+  private async buildPostData(
+    api: GhostAdminAPIClient,
+    credentials: CMSCredentials,
+    article: Partial<CMSArticle>,
+    options?: Pick<CMSPublishOptions, 'tags' | 'author'>
+  ): Promise<GhostPost> {
+    const postData: GhostPost = {};
+
+    if (article.title !== undefined) postData.title = article.title;
+    if (article.content !== undefined) {
+      // Convert HTML content to Lexical format for Ghost 5.0+
+      postData.lexical = this.convertHTMLToLexical(article.content);
+    }
+    if (article.excerpt !== undefined) postData.custom_excerpt = article.excerpt;
+    if (article.seo?.title !== undefined) postData.meta_title = article.seo.title;
+    if (article.seo?.description !== undefined) postData.meta_description = article.seo.description;
+
+    const tagNames = [...(article.tags || []), ...(options?.tags || [])];
+    if (article.tags !== undefined || options?.tags !== undefined) {
+      postData.tags = await this.mapTags(api, tagNames);
+    }
+
+    const author = options?.author || article.author;
+    if (author) {
+      const authorId = await this.findAuthorId(api, author);
+      if (authorId) {
+        postData.authors = [{ id: authorId }];
+      } else {
+        console.warn(`[GHOST] No Ghost staff user matches author "${author}", keeping the default author`);
+      }
+    }
+
+    if (article.featuredImage !== undefined) {
+      postData.feature_image = article.featuredImage?.url
+        ? await this.uploadFeaturedImage(api, credentials, article.featuredImage.url)
+        : null;
+      postData.feature_image_alt = article.featuredImage?.alt || null;
+    }
+
+    return postData;
+  }
+
+  /**
+   * Published posts with a future publish date are scheduled; Ghost publishes them at that time
+   */
+  private resolveStatus(status: CMSArticle['status'] | undefined, publishedAt?: Date): 'draft' | 'published' | 'scheduled' {
+    if (status !== 'published') return 'draft';
+    return publishedAt && new Date(publishedAt).getTime() > Date.now() ? 'scheduled' : 'published';
+  }
+
+  /**
+   * Reuse existing Ghost tags when the name or slug matches (case-insensitive); unknown names are created by Ghost
+   */
+  private async mapTags(api: GhostAdminAPIClient, names: string[]): Promise<Array<{ id?: string; name?: string }>> {
+    const unique = names
+      .map(name => name.trim())
+      .filter((name, index, all) => name && all.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index);
+    if (unique.length === 0) return [];
+
+    let existing: Array<{ id?: string; name?: string; slug?: string }> = [];
+    try {
+      existing = await api.tags.browse({ limit: 'all' });
+    } catch (error) {
+      console.warn('[GHOST] Could not load existing tags, sending names only:', error);
+    }
+
+    return unique.map(name => {
+      const slug = this.generateSlug(name);
+      const match = existing.find(tag => tag.name?.toLowerCase() === name.toLowerCase() || tag.slug === slug);
+      return match?.id ? { id: match.id } : { name };
+    });
+  }
+
+  /**
+   * Match an author by email, slug or name against the site's staff users
+   */
+  private async findAuthorId(api: GhostAdminAPIClient, author: string): Promise<string | null> {
+    try {
+      const users = await api.users.browse({ limit: 'all' });
+      const value = author.trim().toLowerCase();
+      const match = users.find(user =>
+        user.email?.toLowerCase() === value ||
+        user.slug === this.generateSlug(author) ||
+        user.name?.toLowerCase() === value
+      );
+      return match?.id || null;
+    } catch (error) {
+      console.warn('[GHOST] Could not load staff users for author mapping:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Copy an external image into Ghost's storage so the post does not hotlink it.
+   * Falls back to the original URL if the download or upload fails.
+   */
+  private async uploadFeaturedImage(api: GhostAdminAPIClient, credentials: CMSCredentials, imageUrl: string): Promise<string> {
+    const siteUrl = (credentials.siteUrl || '').replace(/\/$/, '');
+    if (!/^https?:\/\//i.test(imageUrl) || (siteUrl && imageUrl.startsWith(siteUrl))) {
+      return imageUrl;
+    }
+
+    const { promises: fs } = await import('fs');
+    const os = await import('os');
+    const path = await import('path');
+    let tempFile: string | null = null;
+
+    try {
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const extension = contentType.includes('png') ? 'png'
+        : contentType.includes('webp') ? 'webp'
+        : contentType.includes('gif') ? 'gif'
+        : 'jpg';
+
+      tempFile = path.join(os.tmpdir(), `ghost-feature-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`);
+      await fs.writeFile(tempFile, Buffer.from(await response.arrayBuffer()));
+
+      const uploaded = await api.images.upload({ file: tempFile, ref: imageUrl });
+      console.log('[GHOST] Uploaded featured image:', uploaded.url);
+      return uploaded.url;
+    } catch (error) {
+      console.warn(`[GHOST] Featured image upload failed, using original URL ${imageUrl}:`, error);
+      return imageUrl;
+    } finally {
+      if (tempFile) {
+        await fs.unlink(tempFile).catch(() => {});
+      }
+    }
+  }
+
+  private assertNotModifiedSince(post: GhostPost, expectedUpdatedAt?: Date) {
+    if (!expectedUpdatedAt || !post.updated_at) return;
+    if (new Date(post.updated_at).getTime() !== new Date(expectedUpdatedAt).getTime()) {
+      throw new Error(
+        `[GHOST] Update conflict: post ${post.id} was modified in Ghost at ${post.updated_at}, ` +
+        `after the version being updated (${new Date(expectedUpdatedAt).toISOString()})`
+      );
+    }
+  }
+
+  private isUpdateCollision(error: any): boolean {
+    return error?.type === 'UpdateCollisionError' || error?.response?.status === 409 || /UpdateCollision|Saving failed/i.test(error?.message || '');
+  }
+
   /**
    * Transform Ghost post to CMSArticle format
    */
@@ -191,6 +365,7 @@ export class GhostProvider extends BaseCMSProvider {
       url: post.url || `${siteUrl}/${post.slug}`,
       customFields: {
         ghostId: post.id,
+        ghostStatus: post.status, // 'scheduled' posts report status draft until published
         uuid: post.uuid,
         visibility: post.visibility,
         featured: post.featured
@@ -0,0 +1,669 @@
+import { BaseCMSProvider } from '../base-provider';
+import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
+import { htmlToMarkdown, markdownToHtml, parseFrontmatter, stringifyFrontmatter, Frontmatter, FrontmatterValue } from '../markdown-content';
+
+const GIT_TIMEOUT_MS = 120000;
+const MARKDOWN_EXTENSIONS = /\.(md|mdx|markdown)$/i;
+const DEFAULT_AUTHOR = { name: 'SEOAgent', email: 'hello@seoagent.com' };
+
+// Only https and SSH remotes; git also reads ext::, file:// and local paths, which reach the server itself
+const HTTPS_REMOTE = /^https:\/\/[^\s]+$/i;
+const SSH_REMOTE = /^(ssh:\/\/((?!-)[\w.-]+@)?(?!-)[\w.-]+(:\d+)?\/[^\s]+|(?!-)[\w.-]+@(?!-)[\w.-]+:[^\s]+)$/i;
+const BRANCH_NAME = /^(?!-)(?!.*\.\.)(?!.*\/\/)[\w./-]+(?<![./]|\.lock)$/;
+
+// CMSArticle field -> frontmatter key
+const DEFAULT_FIELD_MAPPING: { [field: string]: string } = {
+  title: 'title',
+  slug: 'slug',
+  publishedAt: 'date',
+  draft: 'draft',
+  excerpt: 'description',
+  tags: 'tags',
+  seo: 'seo', // { title, description }
+  featuredImage: 'featuredImage', // { url, alt }, or a plain URL when the post already uses one
+  author: 'author',
+  language: 'lang'
+};
+
+interface GitWorkspace {
+  dir: string;
+  credentials: CMSCredentials;
+  mapping: { [field: string]: string };
+  contentDir: string;
+  git: (args: string[]) => Promise<string>;
+}
+
+interface GitProviderOptions {
+  allowLocalRemotes?: boolean; // Local paths and file:// remotes, for tests against a bare repository
+}
+
+interface GitPublishResult {
+  commitSha: string;
+  branch: string;
+  pullRequestUrl?: string;
+}
+
+/**
+ * Posts as Markdown files with YAML frontmatter in a Git repository, for static site generators.
+ * Every operation works on a fresh clone in a temp directory and publishes by pushing a commit to
+ * the branch, or a branch plus pull request (GitHub/GitLab) when publishMode is 'pull_request'.
+ * Remotes must be https or SSH URLs; local (bare) repository paths are only accepted when the
+ * provider is created with allowLocalRemotes. Every file path stays inside the clone.
+ */
+export class GitProvider extends BaseCMSProvider {
+  type: CMSType = 'git';
+  name = 'Git (Markdown)';
+
+  private allowLocalRemotes: boolean;
+
+  constructor(options: GitProviderOptions = {}) {
+    // Git repositories are reached with git itself; hosted remotes take an access token
+    super('', '', '');
+    this.allowLocalRemotes = !!options.allowLocalRemotes;
+  }
+
+  getAuthUrl(redirectUri: string, state: string): string {
+    // Git remotes use access tokens (or the server's SSH keys), not OAuth
+    throw new Error('Git connections use access token authentication, not OAuth');
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string): Promise<CMSCredentials> {
+    throw new Error('Git connections use access token authentication, not OAuth');
+  }
+
+  async validateToken(credentials: CMSCredentials): Promise<boolean> {
+    try {
+      if (!credentials.repoUrl) {
+        console.error('[GIT] Missing repoUrl in credentials');
+        return false;
+      }
+
+      const os = await import('os');
+      this.assertSafeBranch(credentials.branch || 'main');
+      await this.runGit(['ls-remote', '--heads', '--', this.remoteUrl(credentials)], os.tmpdir(), credentials.accessToken);
+      return true;
+    } catch (error) {
+      console.error('[GIT] Repository validation failed:', error);
+      return false;
+    }
+  }
+
+  async getBlogs(credentials: CMSCredentials): Promise<CMSBlog[]> {
+    const contentDir = this.getContentDir(credentials);
+
+    // Each content directory is a collection; the connection publishes into one
+    return [{
+      id: contentDir,
+      name: `${this.repoName(credentials)} (${contentDir})`,
+      url: credentials.siteUrl,
+      description: `Markdown posts on ${credentials.branch || 'main'}`
+    }];
+  }
+
+  async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
+    try {
+      return await this.withWorkspace(credentials, async workspace => {
+        const contentDir = blogId ? this.normalizeContentDir(blogId) : workspace.contentDir;
+        const { promises: fs } = await import('fs');
+        await this.resolvePath(workspace, contentDir);
+        const files = await this.listMarkdownFiles(workspace.dir, contentDir);
+        const history = await this.fileHistory(workspace, contentDir);
+
+        return Promise.all(files.map(async file => {
+          const source = await fs.readFile(await this.resolvePath(workspace, file), 'utf8');
+          return this.transformFile(workspace, file, source, history.get(file));
+        }));
+      }, { history: true });
+    } catch (error) {
+      console.error('[GIT] Failed to fetch articles:', error);
+      return [];
+    }
+  }
+
+  async publishArticle(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
+    try {
+      return await this.withWorkspace(credentials, async workspace => {
+        const { promises: fs } = await import('fs');
+        const baseSlug = this.toSlug(article.slug || '') || this.toSlug(article.title || '') || `post-${Date.now()}`;
+        const contentDir = options?.blogId ? this.normalizeContentDir(options.blogId) : workspace.contentDir;
+
+        // Never overwrite an existing post with the same slug
+        let slug = baseSlug;
+        for (let suffix = 2; await this.exists(await this.resolvePath(workspace, `${contentDir}/${slug}.md`)); suffix++) {
+          slug = `${baseSlug}-${suffix}`;
+        }
+        const file = `${contentDir}/${slug}.md`;
+        const filePath = await this.resolvePath(workspace, file);
+
+        const data = this.buildFrontmatter(workspace, {}, {
+          ...article,
+          slug,
+          status: options?.status || article.status || 'draft',
+          publishedAt: options?.publishedAt || article.publishedAt || new Date(),
+          author: options?.author || article.author
+        }, options?.tags);
+        const source = stringifyFrontmatter(data, htmlToMarkdown(article.content || ''));
+
+        const result = await this.commitChange(workspace, slug, `Publish "${article.title || slug}"`, async () => {
+          await fs.mkdir(await this.resolvePath(workspace, contentDir), { recursive: true });
+          await fs.writeFile(filePath, source, 'utf8');
+        });
+        console.log(`[GIT] Published ${file} (${result.pullRequestUrl || `${result.branch}@${result.commitSha.slice(0, 7)}`})`);
+
+        return this.withPublishResult(this.transformFile(workspace, file, source, { updatedAt: await this.lastCommitTime(workspace, file) }), result);
+      });
+    } catch (error) {
+      console.error('[GIT] Failed to publish article:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rewrite a post's frontmatter fields and/or body. Frontmatter keys SEOAgent doesn't manage are kept.
+   * Pass article.updatedAt (the file's last commit time last seen) to refuse overwriting changes
+   * committed since; without it the latest version is edited.
+   */
+  async updateArticle(credentials: CMSCredentials, articleId: string, article: Partial<CMSArticle>): Promise<CMSArticle> {
+    try {
+      return await this.withWorkspace(credentials, async workspace => {
+        const { promises: fs } = await import('fs');
+        const filePath = await this.resolvePath(workspace, articleId);
+
+        if (!MARKDOWN_EXTENSIONS.test(articleId) || !(await this.exists(filePath))) {
+          throw new Error(`[GIT] Post ${articleId} not found on ${credentials.branch || 'main'}`);
+        }
+
+        const lastCommit = (await workspace.git(['log', '-1', '--format=%cI', '--', articleId])).trim();
+        this.assertNotModifiedSince(articleId, lastCommit, article.updatedAt);
+
+        const current = parseFrontmatter(await fs.readFile(filePath, 'utf8'));
+        const data = this.buildFrontmatter(workspace, current.data, article);
+        const body = article.content !== undefined ? htmlToMarkdown(article.content) : current.body;
+        const source = stringifyFrontmatter(data, body);
+        const slug = this.slugFor(workspace, articleId, data);
+
+        const result = await this.commitChange(workspace, slug, `Update "${article.title || data[workspace.mapping.title] || slug}"`, async () => {
+          await fs.writeFile(filePath, source, 'utf8');
+        });
+        console.log(`[GIT] Updated ${articleId}`);
+
+        return this.withPublishResult(this.transformFile(workspace, articleId, source, { updatedAt: await this.lastCommitTime(workspace, articleId) }), result);
+      }, { history: !!article.updatedAt });
+    } catch (error) {
+      console.error('[GIT] Failed to update article:', error);
+      throw error;
+    }
+  }
+
+  async deleteArticle(credentials: CMSCredentials, articleId: string): Promise<void> {
+    try {
+      await this.withWorkspace(credentials, async workspace => {
+        if (!MARKDOWN_EXTENSIONS.test(articleId) || !(await this.exists(await this.resolvePath(workspace, articleId)))) {
+          console.warn(`[GIT] Post ${articleId} is already gone`);
+          return;
+        }
+
+        const slug = this.slugFor(workspace, articleId, {});
+        await this.commitChange(workspace, slug, `Delete ${articleId}`, async () => {
+          await workspace.git(['rm', '--quiet', '--', articleId]);
+        });
+      });
+    } catch (error) {
+      console.error('[GIT] Failed to delete article:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Clone the branch into a temp directory, run the operation and remove the clone.
+   * History is only fetched when commit dates are needed.
+   */
+  private async withWorkspace<T>(
+    credentials: CMSCredentials,
+    operation: (workspace: GitWorkspace) => Promise<T>,
+    options: { history?: boolean } = {}
+  ): Promise<T> {
+    if (!credentials.repoUrl) {
+      throw new Error('[GIT] Missing repoUrl in credentials');
+    }
+
+    const { promises: fs } = await import('fs');
+    const os = await import('os');
+    const path = await import('path');
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'seoagent-git-'));
+    const branch = credentials.branch || 'main';
+    const git = (args: string[]) => this.runGit(args, dir, credentials.accessToken);
+
+    try {
+      this.assertSafeBranch(branch);
+      const remote = this.remoteUrl(credentials);
+      const heads = await this.runGit(['ls-remote', '--heads', '--', remote, branch], dir, credentials.accessToken);
+
+      if (heads.trim()) {
+        await git(['clone', '--quiet', '--single-branch', '--branch', branch, ...(options.history ? [] : ['--depth', '1']), '--', remote, '.']);
+      } else {
+        // Empty repository, or the branch doesn't exist yet: the first publish creates it
+        await git(['init', '--quiet']);
+        await git(['remote', 'add', '--', 'origin', remote]);
+        await git(['checkout', '--quiet', '-b', branch]);
+      }
+
+      return await operation({
+        dir,
+        credentials,
+        mapping: { ...DEFAULT_FIELD_MAPPING, ...(credentials.fieldMapping || {}) },
+        contentDir: this.getContentDir(credentials),
+        git
+      });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Apply a change and publish it: a commit pushed to the branch, or a new branch with a pull request
+   */
+  private async commitChange(workspace: GitWorkspace, slug: string, message: string, change: () => Promise<void>): Promise<GitPublishResult> {
+    const { credentials, git } = workspace;
+    const branch = credentials.branch || 'main';
+    const author = credentials.commitAuthor || DEFAULT_AUTHOR;
+    const pullRequest = credentials.publishMode === 'pull_request';
+    const targetBranch = pullRequest ? `seoagent/${this.toSlug(slug) || 'post'}-${Date.now().toString(36)}` : branch;
+
+    if (pullRequest) {
+      await git(['checkout', '--quiet', '-b', targetBranch]);
+    }
+
+    await change();
+    await git(['add', '--all', '--', workspace.contentDir]);
+
+    if (!(await git(['status', '--porcelain'])).trim()) {
+      console.log(`[GIT] ${message}: nothing changed`);
+      return { commitSha: (await git(['rev-parse', 'HEAD']).catch(() => '')).trim(), branch };
+    }
+
+    await git(['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`, 'commit', '--quiet', '-m', message]);
+
+    try {
+      await git(['push', '--quiet', '--', 'origin', `HEAD:refs/heads/${targetBranch}`]);
+    } catch (error) {
+      if (pullRequest) throw error;
+      // The branch moved since the clone; replay the commit on top once
+      console.warn(`[GIT] Push to ${branch} rejected, rebasing on the latest commit`);
+      await git(['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`, 'pull', '--quiet', '--rebase', '--', 'origin', branch]);
+      await git(['push', '--quiet', '--', 'origin', `HEAD:refs/heads/${branch}`]);
+    }
+
+    const commitSha = (await git(['rev-parse', 'HEAD'])).trim();
+    if (!pullRequest) {
+      return { commitSha, branch };
+    }
+
+    const pullRequestUrl = await this.openPullRequest(credentials, targetBranch, message);
+    return { commitSha, branch: targetBranch, pullRequestUrl };
+  }
+
+  /**
+   * Open a pull request (GitHub) or merge request (GitLab) for a pushed branch. Other remotes
+   * only get the branch, to be merged by hand.
+   */
+  private async openPullRequest(credentials: CMSCredentials, sourceBranch: string, title: string): Promise<string | undefined> {
+    const hosted = this.parseHostedRepo(credentials.repoUrl!);
+    const targetBranch = credentials.branch || 'main';
+    const description = 'Published by SEOAgent. Merge to publish the post.';
+
+    if (!hosted || !credentials.accessToken) {
+      console.log(`[GIT] Pushed branch ${sourceBranch}; open a pull request into ${targetBranch} to publish it`);
+      return undefined;
+    }
+
+    try {
+      if (hosted.host === 'github.com') {
+        const pullRequest = await this.makeRequest(`https://api.github.com/repos/${hosted.path}/pulls`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${credentials.accessToken}`,
+            'Accept': 'application/vnd.github+json'
+          },
+          body: JSON.stringify({ title, head: sourceBranch, base: targetBranch, body: description })
+        });
+        return pullRequest.html_url;
+      }
+
+      const mergeRequest = await this.makeRequest(`https://gitlab.com/api/v4/projects/${encodeURIComponent(hosted.path)}/merge_requests`, {
+        method: 'POST',
+        headers: { 'PRIVATE-TOKEN': credentials.accessToken },
+        body: JSON.stringify({
+          title,
+          source_branch: sourceBranch,
+          target_branch: targetBranch,
+          description,
+          remove_source_branch: true
+        })
+      });
+      return mergeRequest.web_url;
+    } catch (error) {
+      console.warn(`[GIT] Could not open a pull request for ${sourceBranch}; the branch is pushed:`, error);
+      return undefined;
+    }
+  }
+
+  private async runGit(args: string[], cwd: string, secret?: string): Promise<string> {
+    const { execFile } = await import('child_process');
+
+    return new Promise((resolve, reject) => {
+      execFile('git', args, {
+        cwd,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: 64 * 1024 * 1024,
+        env: {
+          ...process.env,
+          GIT_TERMINAL_PROMPT: '0',
+          // Also applies to anything the repository points git at, like submodules
+          GIT_ALLOW_PROTOCOL: this.allowLocalRemotes ? 'https:ssh:file' : 'https:ssh'
+        }
+      }, (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout);
+          return;
+        }
+        if ((error as any).code === 'ENOENT') {
+          reject(new Error('[GIT] git executable not found on this server'));
+          return;
+        }
+        // The command line and git's output can contain the authenticated remote URL
+        const detail = (stderr || error.message).trim();
+        reject(new Error(`[GIT] git ${args[0]} failed: ${this.redact(detail, secret)}`));
+      });
+    });
+  }
+
+  /**
+   * Remote URL with the access token for HTTPS remotes. SSH remotes (and local ones, when allowed) are used as-is.
+   */
+  private remoteUrl(credentials: CMSCredentials): string {
+    const repoUrl = (credentials.repoUrl || '').trim();
+    const local = this.allowLocalRemotes && (/^file:\/\//i.test(repoUrl) || repoUrl.startsWith('/'));
+
+    if (repoUrl.startsWith('-') || (!HTTPS_REMOTE.test(repoUrl) && !SSH_REMOTE.test(repoUrl) && !local)) {
+      throw new Error('[GIT] repoUrl must be an https:// or SSH (ssh:// or git@host:path) repository URL');
+    }
+    if (!HTTPS_REMOTE.test(repoUrl) || !credentials.accessToken) {
+      return repoUrl;
+    }
+
+    const url = new URL(repoUrl);
+    if (url.username) return repoUrl;
+
+    const host = url.hostname.toLowerCase();
+    url.username = credentials.username
+      || (host === 'gitlab.com' ? 'oauth2' : host === 'bitbucket.org' ? 'x-token-auth' : 'x-access-token');
+    url.password = credentials.accessToken;
+    return url.toString();
+  }
+
+  private assertSafeBranch(branch: string) {
+    if (!BRANCH_NAME.test(branch)) {
+      throw new Error(`[GIT] Invalid branch name: ${branch}`);
+    }
+  }
+
+  /**
+   * Absolute path of a repository-relative path; refuses paths that leave the clone, also through symlinks
+   */
+  private async resolvePath(workspace: GitWorkspace, relative: string): Promise<string> {
+    const { promises: fs } = await import('fs');
+    const path = await import('path');
+    const root = await fs.realpath(workspace.dir);
+    const resolved = path.resolve(root, relative);
+    const inside = (target: string) => target === root || target.startsWith(root + path.sep);
+
+    if (!inside(resolved)) {
+      throw new Error(`[GIT] Path ${relative} is outside the repository`);
+    }
+
+    // New files are checked through the closest directory that exists
+    let existing = resolved;
+    let real = await fs.realpath(existing).catch(() => null);
+    while (!real && existing !== root) {
+      existing = path.dirname(existing);
+      real = await fs.realpath(existing).catch(() => null);
+    }
+    if (!real || !inside(real)) {
+      throw new Error(`[GIT] Path ${relative} links outside the repository`);
+    }
+    return resolved;
+  }
+
+  private toSlug(value: string): string {
+    return this.generateSlug(value).replace(/^[-_]+|[-_]+$/g, '');
+  }
+
+  private redact(text: string, secret?: string): string {
+    return secret ? text.split(secret).join('***') : text;
+  }
+
+  private parseHostedRepo(repoUrl: string): { host: 'github.com' | 'gitlab.com'; path: string } | null {
+    const match = repoUrl.match(/(github\.com|gitlab\.com)[/:]([^?#]+?)(?:\.git)?\/?$/i);
+    return match ? { host: match[1].toLowerCase() as 'github.com' | 'gitlab.com', path: match[2] } : null;
+  }
+
+  private repoName(credentials: CMSCredentials): string {
+    return (credentials.repoUrl || '').replace(/\/$/, '').split(/[/:]/).pop()?.replace(/\.git$/, '') || 'repository';
+  }
+
+  private getContentDir(credentials: CMSCredentials): string {
+    return this.normalizeContentDir(credentials.contentDir || 'content/posts');
+  }
+
+  /**
+   * Repository-relative directory; '..' segments are refused rather than resolved
+   */
+  private normalizeContentDir(dir: string): string {
+    const segments = dir.split(/[/\\]+/).filter(segment => segment && segment !== '.');
+    if (segments.length === 0 || segments.some(segment => segment === '..' || segment.startsWith('-'))) {
+      throw new Error(`[GIT] Invalid content directory: ${dir}`);
+    }
+    return segments.join('/');
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    const { promises: fs } = await import('fs');
+    return fs.access(filePath).then(() => true, () => false);
+  }
+
+  /**
+   * Markdown files under the content directory, as repository-relative paths
+   */
+  private async listMarkdownFiles(root: string, contentDir: string): Promise<string[]> {
+    const { promises: fs } = await import('fs');
+    const files: string[] = [];
+
+    const walk = async (relative: string) => {
+      const entries = await fs.readdir(`${root}/${relative}`, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = `${relative}/${entry.name}`;
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile() && MARKDOWN_EXTENSIONS.test(entry.name)) {
+          files.push(entryPath);
+        }
+      }
+    };
+
+    await walk(contentDir);
+    return files.sort();
+  }
+
+  /**
+   * First and last commit time of every file under the content directory, from one git log pass
+   */
+  private async fileHistory(workspace: GitWorkspace, contentDir: string): Promise<Map<string, { createdAt?: Date; updatedAt?: Date }>> {
+    const history = new Map<string, { createdAt?: Date; updatedAt?: Date }>();
+    const log = await workspace.git(['log', '--format=%x00%cI', '--name-only', '--', contentDir]).catch(() => '');
+    let commitDate: Date | undefined;
+
+    for (const line of log.split('\n')) {
+      if (line.startsWith('\u0000')) {
+        commitDate = new Date(line.slice(1));
+      } else if (line.trim() && commitDate) {
+        // Newest commits come first
+        const entry = history.get(line) || { updatedAt: commitDate };
+        entry.createdAt = commitDate;
+        history.set(line, entry);
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * Apply the provided CMSArticle fields to existing frontmatter (only fields that are set, so it works for edits)
+   */
+  private buildFrontmatter(
+    workspace: GitWorkspace,
+    existing: Frontmatter,
+    article: Partial<CMSArticle>,
+    extraTags?: string[]
+  ): Frontmatter {
+    const { mapping } = workspace;
+    const data: Frontmatter = { ...existing };
+
+    if (article.title !== undefined) data[mapping.title] = article.title;
+    if (article.slug !== undefined) data[mapping.slug] = article.slug;
+    if (article.publishedAt) data[mapping.publishedAt] = new Date(article.publishedAt);
+    if (article.status !== undefined) data[mapping.draft] = article.status === 'draft';
+    if (article.excerpt !== undefined) data[mapping.excerpt] = article.excerpt;
+    if (article.author) data[mapping.author] = article.author;
+    if (article.language) data[mapping.language] = article.language;
+
+    if (article.tags !== undefined || extraTags !== undefined) {
+      data[mapping.tags] = [...(article.tags || []), ...(extraTags || [])]
+        .map(tag => tag.trim())
+        .filter((tag, index, all) => tag && all.indexOf(tag) === index);
+    }
+
+    if (article.seo?.title !== undefined || article.seo?.description !== undefined) {
+      const seo = this.asObject(existing[mapping.seo]);
+      if (article.seo.title !== undefined) seo.title = article.seo.title;
+      if (article.seo.description !== undefined) seo.description = article.seo.description;
+      data[mapping.seo] = seo;
+    }
+
+    if (article.featuredImage !== undefined) {
+      const image = article.featuredImage;
+      if (!image?.url) {
+        delete data[mapping.featuredImage];
+      } else if (typeof existing[mapping.featuredImage] === 'string') {
+        data[mapping.featuredImage] = image.url;
+      } else {
+        data[mapping.featuredImage] = { ...this.asObject(existing[mapping.featuredImage]), url: image.url, alt: image.alt || '' };
+      }
+    }
+
+    return data;
+  }
+
+  private asObject(value: FrontmatterValue | undefined): { [key: string]: FrontmatterValue } {
+    return value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+      ? { ...value }
+      : {};
+  }
+
+  /**
+   * Slug from frontmatter, else the file name (index.md of a page bundle takes its directory name)
+   */
+  private slugFor(workspace: GitWorkspace, file: string, data: Frontmatter): string {
+    const fromData = data[workspace.mapping.slug];
+    if (typeof fromData === 'string' && fromData) return fromData;
+
+    const segments = file.replace(MARKDOWN_EXTENSIONS, '').split('/');
+    const name = segments.pop()!;
+    return name === 'index' && segments.length > 0 ? segments.pop()! : name;
+  }
+
+  private assertNotModifiedSince(file: string, lastCommit: string, expectedUpdatedAt?: Date) {
+    if (!expectedUpdatedAt || !lastCommit) return;
+    if (new Date(lastCommit).getTime() !== new Date(expectedUpdatedAt).getTime()) {
+      throw new Error(
+        `[GIT] Update conflict: ${file} was changed in a commit at ${lastCommit}, ` +
+        `after the version being updated (${new Date(expectedUpdatedAt).toISOString()})`
+      );
+    }
+  }
+
+  /**
+   * Commit time of the file's latest commit: the updatedAt a later updateArticle compares against
+   */
+  private async lastCommitTime(workspace: GitWorkspace, file: string): Promise<Date> {
+    const lastCommit = (await workspace.git(['log', '-1', '--format=%cI', '--', file])).trim();
+    return lastCommit ? new Date(lastCommit) : new Date();
+  }
+
+  private withPublishResult(article: CMSArticle, result: GitPublishResult): CMSArticle {
+    return {
+      ...article,
+      adminUrl: result.pullRequestUrl || article.adminUrl,
+      customFields: { ...article.customFields, ...result }
+    };
+  }
+
+  /**
+   * Transform a Markdown file to CMSArticle format
+   */
+  private transformFile(
+    workspace: GitWorkspace,
+    file: string,
+    source: string,
+    dates: { createdAt?: Date; updatedAt?: Date } = {}
+  ): CMSArticle {
+    const { mapping, credentials } = workspace;
+    const { data, body } = parseFrontmatter(source);
+    const text = (key: string) => {
+      const value = data[mapping[key]];
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+    };
+
+    const slug = this.slugFor(workspace, file, data);
+    const date = data[mapping.publishedAt];
+    const publishedAt = date instanceof Date || typeof date === 'string' ? new Date(date) : undefined;
+    const tags = data[mapping.tags];
+    const seo = this.asObject(data[mapping.seo]);
+    const image = data[mapping.featuredImage];
+    const imageObject = this.asObject(image);
+    const imageUrl = typeof image === 'string' ? image : typeof imageObject.url === 'string' ? imageObject.url : undefined;
+    const hosted = this.parseHostedRepo(credentials.repoUrl || '');
+    const branch = credentials.branch || 'main';
+
+    return {
+      id: file,
+      title: text('title') || slug,
+      content: markdownToHtml(body),
+      slug,
+      status: data[mapping.draft] === true ? 'draft' : 'published',
+      publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt : undefined,
+      createdAt: dates.createdAt,
+      updatedAt: dates.updatedAt,
+      excerpt: text('excerpt') || '',
+      tags: Array.isArray(tags) ? tags.map(String) : typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
+      categories: [],
+      author: text('author'),
+      featuredImage: imageUrl ? { url: imageUrl, alt: typeof imageObject.alt === 'string' ? imageObject.alt : '' } : undefined,
+      seo: {
+        title: typeof seo.title === 'string' ? seo.title : text('title') || '',
+        description: typeof seo.description === 'string' ? seo.description : text('excerpt') || '',
+        keywords: []
+      },
+      url: this.buildPostUrl(credentials, slug),
+      adminUrl: hosted
+        ? hosted.host === 'github.com'
+          ? `https://github.com/${hosted.path}/blob/${branch}/${file}`
+          : `https://gitlab.com/${hosted.path}/-/blob/${branch}/${file}`
+        : undefined,
+      customFields: {
+        path: file,
+        frontmatter: data
+      }
+    };
+  }
+}
@@ -0,0 +1,592 @@
+import { BaseCMSProvider } from '../base-provider';
+import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
+import { htmlToBlocks, InlineSpan } from '../structured-content';
+import { markdownToHtml } from '../markdown-content';
+
+const API_VERSION = 'v2021-10-21'; // raw perspective: queries return drafts alongside published documents
+const DRAFT_PREFIX = 'drafts.';
+
+// CMSArticle field -> document field path. Defaults match the "post" type of Sanity's blog template
+const DEFAULT_FIELD_MAPPING: { [field: string]: string } = {
+  title: 'title',
+  slug: 'slug',
+  content: 'body',
+  excerpt: 'excerpt',
+  seoTitle: 'seo.title',
+  seoDescription: 'seo.description',
+  tags: 'tags',
+  featuredImage: 'mainImage',
+  publishedAt: 'publishedAt',
+  language: 'language' // Field @sanity/document-internationalization reads
+};
+
+interface SanityContext {
+  credentials: CMSCredentials;
+  documentType: string;
+  dataset: string;
+  mapping: { [field: string]: string };
+}
+
+export class SanityProvider extends BaseCMSProvider {
+  type: CMSType = 'sanity';
+  name = 'Sanity';
+
+  constructor() {
+    // Sanity connections use a project API token with Editor rights
+    super('', '', 'https://api.sanity.io');
+  }
+
+  getAuthUrl(redirectUri: string, state: string): string {
+    // Sanity uses project API tokens, not OAuth
+    throw new Error('Sanity uses project API token authentication, not OAuth');
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string): Promise<CMSCredentials> {
+    throw new Error('Sanity uses project API token authentication, not OAuth');
+  }
+
+  async validateToken(credentials: CMSCredentials): Promise<boolean> {
+    try {
+      if (!credentials.accessToken || !credentials.projectId) {
+        console.error('[SANITY] Missing accessToken or projectId in credentials');
+        return false;
+      }
+
+      const context = this.getContext(credentials);
+      await this.query(context, 'count(*[_type == $type])', { type: context.documentType });
+      return true;
+    } catch (error) {
+      console.error('[SANITY] Token validation failed:', error);
+      return false;
+    }
+  }
+
+  async getBlogs(credentials: CMSCredentials): Promise<CMSBlog[]> {
+    const context = this.getContext(credentials);
+
+    // A dataset holds one collection per document type; the connection publishes into one
+    return [{
+      id: context.documentType,
+      name: `${credentials.projectId}/${context.dataset}`,
+      url: credentials.siteUrl,
+      description: `Sanity "${context.documentType}" documents`
+    }];
+  }
+
+  async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
+    try {
+      const context = this.getContext(credentials, blogId);
+      const documents: any[] = [];
+
+      for (let start = 0; start < 10000; start += 100) {
+        const page = await this.query(
+          context,
+          '*[_type == $type] | order(_id asc) [$start...$end]',
+          { type: context.documentType, start, end: start + 100 }
+        );
+        documents.push(...(page || []));
+        if (!page || page.length < 100) break;
+      }
+
+      // A post being edited exists twice: published and drafts.<id>. The published one is what's live
+      const byId = new Map<string, { published?: any; draft?: any }>();
+      for (const document of documents) {
+        const id = this.publishedId(document._id);
+        const entry = byId.get(id) || {};
+        if (document._id.startsWith(DRAFT_PREFIX)) {
+          entry.draft = document;
+        } else {
+          entry.published = document;
+        }
+        byId.set(id, entry);
+      }
+
+      return Array.from(byId.values()).map(({ published, draft }) =>
+        this.transformDocument(context, published || draft, !!published && !!draft)
+      );
+    } catch (error) {
+      console.error('[SANITY] Failed to fetch articles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a document. Drafts are created as drafts.<id>, which Sanity Studio shows as unpublished.
+   * A future publishedAt is stored as-is; Sanity has no built-in scheduling, sites filter on it.
+   */
+  async publishArticle(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
+    try {
+      const context = this.getContext(credentials, options?.blogId);
+      const { set } = await this.buildFields(context, {
+        ...article,
+        slug: article.slug || this.generateSlug(article.title || ''),
+        publishedAt: options?.publishedAt || article.publishedAt || new Date()
+      }, options);
+
+      const id = crypto.randomUUID();
+      const status = options?.status || article.status || 'draft';
+      const document: any = { _id: status === 'published' ? id : `${DRAFT_PREFIX}${id}`, _type: context.documentType };
+      Object.keys(set).forEach(path => this.setPath(document, path, set[path]));
+
+      const [result] = await this.mutate(context, [{ create: document }]);
+      console.log(`[SANITY] Created ${status} document ${id} (${context.documentType})`);
+
+      return this.transformDocument(context, result?.document || document, false);
+    } catch (error) {
+      console.error('[SANITY] Failed to publish article:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Patch a document. The published document and any pending Studio draft both get the change,
+   * so publishing the draft later doesn't revert it. Pass article.updatedAt (the version last seen)
+   * to refuse overwriting changes made in Sanity since; without it the latest revision is patched.
+   */
+  async updateArticle(credentials: CMSCredentials, articleId: string, article: Partial<CMSArticle>): Promise<CMSArticle> {
+    try {
+      const context = this.getContext(credentials);
+      const id = this.publishedId(articleId);
+      const { set, unset } = await this.buildFields(context, article);
+
+      for (let attempt = 1; ; attempt++) {
+        const [published, draft] = await this.getDocumentPair(context, id);
+        const current = published || draft;
+        if (!current) {
+          throw new Error(`[SANITY] Document ${articleId} not found`);
+        }
+        this.assertNotModifiedSince(current, article.updatedAt);
+
+        const patch = (document: any) => ({
+          patch: {
+            id: document._id,
+            ifRevisionID: document._rev,
+            ...this.parentDefaults(set),
+            ...(Object.keys(set).length > 0 ? { set } : {}),
+            ...(unset.length > 0 ? { unset } : {})
+          }
+        });
+
+        const mutations: any[] = [];
+        if (article.status === 'draft' && published) {
+          // Unpublish: the latest content continues as a draft
+          mutations.push(
+            { createOrReplace: { ...this.withoutSystemFields(draft || published), _id: `${DRAFT_PREFIX}${id}` } },
+            { delete: { id } },
+            { patch: { ...patch(draft || published).patch, id: `${DRAFT_PREFIX}${id}`, ifRevisionID: undefined } }
+          );
+        } else if (article.status === 'published' && !published) {
+          // Publish a draft-only document
+          mutations.push(
+            { createOrReplace: { ...this.withoutSystemFields(draft), _id: id } },
+            { patch: { ...patch(draft).patch, id, ifRevisionID: undefined } },
+            { delete: { id: `${DRAFT_PREFIX}${id}` } }
+          );
+        } else {
+          if (published) mutations.push(patch(published));
+          if (draft) mutations.push(patch(draft));
+        }
+
+        try {
+          await this.mutate(context, mutations);
+        } catch (error: any) {
+          // A revision changed between our read and write; re-read once unless the caller pinned a version
+          const isConflict = /HTTP 409/.test(error?.message || '');
+          if (isConflict && !article.updatedAt && attempt < 2) {
+            console.warn(`[SANITY] Document ${id} changed while updating, retrying with latest revision`);
+            continue;
+          }
+          if (isConflict) {
+            throw new Error(`[SANITY] Update conflict: document ${id} was modified in Sanity while updating`);
+          }
+          throw error;
+        }
+
+        const [updatedPublished, updatedDraft] = await this.getDocumentPair(context, id);
+        console.log(`[SANITY] Updated document ${id}`);
+        return this.transformDocument(context, updatedPublished || updatedDraft, !!updatedPublished && !!updatedDraft);
+      }
+    } catch (error) {
+      console.error('[SANITY] Failed to update article:', error);
+      throw error;
+    }
+  }
+
+  async deleteArticle(credentials: CMSCredentials, articleId: string): Promise<void> {
+    try {
+      const context = this.getContext(credentials);
+      const id = this.publishedId(articleId);
+
+      await this.mutate(context, [{ delete: { id } }, { delete: { id: `${DRAFT_PREFIX}${id}` } }]);
+    } catch (error) {
+      console.error('[SANITY] Failed to delete article:', error);
+      throw error;
+    }
+  }
+
+  private getContext(credentials: CMSCredentials, documentType?: string): SanityContext {
+    return {
+      credentials,
+      documentType: documentType || credentials.contentType || 'post',
+      dataset: credentials.dataset || 'production',
+      mapping: { ...DEFAULT_FIELD_MAPPING, ...(credentials.fieldMapping || {}) }
+    };
+  }
+
+  private apiUrl(context: SanityContext, path: string): string {
+    return `https://${context.credentials.projectId}.api.sanity.io/${API_VERSION}${path}`;
+  }
+
+  private async query(context: SanityContext, groq: string, params: { [name: string]: any } = {}): Promise<any> {
+    const search = new URLSearchParams({ query: groq });
+    Object.keys(params).forEach(name => search.set(`$${name}`, JSON.stringify(params[name])));
+
+    const response = await this.makeRequest(this.apiUrl(context, `/data/query/${context.dataset}?${search.toString()}`), {
+      headers: { 'Authorization': `Bearer ${context.credentials.accessToken}` }
+    });
+    return response.result;
+  }
+
+  private async mutate(context: SanityContext, mutations: any[]): Promise<any[]> {
+    const response = await this.makeRequest(
+      this.apiUrl(context, `/data/mutate/${context.dataset}?returnIds=true&returnDocuments=true&visibility=sync`),
+      {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${context.credentials.accessToken}` },
+        body: JSON.stringify({ mutations })
+      }
+    );
+    return response.results || [];
+  }
+
+  private async getDocumentPair(context: SanityContext, id: string): Promise<[any, any]> {
+    const documents: any[] = await this.query(context, '*[_id in [$id, $draftId]]', { id, draftId: `${DRAFT_PREFIX}${id}` }) || [];
+    return [
+      documents.find(document => document._id === id) || null,
+      documents.find(document => document._id === `${DRAFT_PREFIX}${id}`) || null
+    ];
+  }
+
+  /**
+   * Map the provided CMSArticle fields to document field paths (only fields that are set,
+   * so it works for patches). A removed featured image is unset.
+   */
+  private async buildFields(
+    context: SanityContext,
+    article: Partial<CMSArticle>,
+    options?: Pick<CMSPublishOptions, 'tags'>
+  ): Promise<{ set: { [path: string]: any }; unset: string[] }> {
+    const set: { [path: string]: any } = {};
+    const unset: string[] = [];
+    const { mapping } = context;
+
+    if (article.title !== undefined) set[mapping.title] = article.title;
+    if (article.slug !== undefined) set[mapping.slug] = { _type: 'slug', current: article.slug };
+    if (article.content !== undefined) set[mapping.content] = await this.toPortableText(context, article.content);
+    if (article.excerpt !== undefined) set[mapping.excerpt] = article.excerpt;
+    if (article.seo?.title !== undefined) set[mapping.seoTitle] = article.seo.title;
+    if (article.seo?.description !== undefined) set[mapping.seoDescription] = article.seo.description;
+    if (article.publishedAt) set[mapping.publishedAt] = new Date(article.publishedAt).toISOString();
+    if (article.language) set[mapping.language] = article.language;
+
+    if (article.tags !== undefined || options?.tags !== undefined) {
+      set[mapping.tags] = [...(article.tags || []), ...(options?.tags || [])]
+        .map(tag => tag.trim())
+        .filter((tag, index, all) => tag && all.indexOf(tag) === index);
+    }
+
+    if (article.featuredImage !== undefined) {
+      const image = article.featuredImage?.url
+        ? await this.uploadImage(context, article.featuredImage.url, article.featuredImage.alt)
+        : null;
+      if (image) {
+        set[mapping.featuredImage] = image;
+      } else if (!article.featuredImage?.url) {
+        unset.push(mapping.featuredImage);
+      }
+    }
+
+    return { set, unset };
+  }
+
+  /**
+   * setIfMissing for the parent objects of nested paths (e.g. seo for seo.title), which
+   * a patch can't set into otherwise
+   */
+  private parentDefaults(set: { [path: string]: any }): { setIfMissing?: { [path: string]: any } } {
+    const parents: { [path: string]: any } = {};
+    Object.keys(set).forEach(path => {
+      const segments = path.split('.');
+      for (let i = 1; i < segments.length; i++) {
+        parents[segments.slice(0, i).join('.')] = {};
+      }
+    });
+    return Object.keys(parents).length > 0 ? { setIfMissing: parents } : {};
+  }
+
+  /**
+   * Upload an external image as a Sanity image asset. Returns null if the download or upload fails.
+   */
+  private async uploadImage(context: SanityContext, imageUrl: string, alt?: string): Promise<any | null> {
+    try {
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const fileName = decodeURIComponent(new URL(imageUrl).pathname.split('/').pop() || '') || 'image';
+      const uploaded = await this.makeRequest(
+        this.apiUrl(context, `/assets/images/${context.dataset}?filename=${encodeURIComponent(fileName)}`),
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${context.credentials.accessToken}`,
+            'Content-Type': response.headers.get('content-type') || 'application/octet-stream'
+          },
+          body: await response.arrayBuffer()
+        }
+      );
+
+      console.log(`[SANITY] Uploaded image asset ${uploaded.document._id}`);
+      return {
+        _type: 'image',
+        asset: { _type: 'reference', _ref: uploaded.document._id },
+        ...(alt ? { alt } : {})
+      };
+    } catch (error) {
+      console.warn(`[SANITY] Image upload failed for ${imageUrl}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Convert article HTML to Portable Text. Images become image blocks; code blocks use the
+   * @sanity/code-input "code" type. Embeds and JSON-LD scripts have no equivalent and are left out.
+   */
+  private async toPortableText(context: SanityContext, html: string): Promise<any[]> {
+    const blocks: any[] = [];
+
+    for (const block of htmlToBlocks(html)) {
+      switch (block.type) {
+        case 'heading':
+          blocks.push(this.textBlock(block.spans, `h${block.level}`));
+          break;
+        case 'paragraph':
+          blocks.push(this.textBlock(block.spans, 'normal'));
+          break;
+        case 'blockquote':
+          blocks.push(this.textBlock(block.spans, 'blockquote'));
+          break;
+        case 'list-item':
+          blocks.push({
+            ...this.textBlock(block.spans, 'normal'),
+            listItem: block.ordered ? 'number' : 'bullet',
+            level: block.depth + 1
+          });
+          break;
+        case 'code':
+          blocks.push({ _type: 'code', _key: this.key(), code: block.text, ...(block.language ? { language: block.language } : {}) });
+          break;
+        case 'table':
+          block.rows.forEach(row => blocks.push(this.textBlock([{ text: row.join(' | '), marks: [] }], 'normal')));
+          break;
+        case 'image': {
+          const image = block.src ? await this.uploadImage(context, block.src, block.alt) : null;
+          if (image) {
+            blocks.push({ ...image, _key: this.key() });
+          } else if (block.src) {
+            blocks.push(this.textBlock([{ text: block.alt || block.src, marks: [], href: block.src }], 'normal'));
+          }
+          break;
+        }
+        case 'hr':
+        case 'html':
+          break;
+      }
+    }
+
+    return blocks;
+  }
+
+  private textBlock(spans: InlineSpan[], style: string): any {
+    const markDefs: any[] = [];
+    const children = spans.map(span => {
+      const marks: string[] = [...span.marks];
+      if (span.href) {
+        let link = markDefs.find(definition => definition.href === span.href);
+        if (!link) {
+          link = { _key: this.key(), _type: 'link', href: span.href };
+          markDefs.push(link);
+        }
+        marks.push(link._key);
+      }
+      return { _type: 'span', _key: this.key(), text: span.text, marks };
+    });
+
+    return {
+      _type: 'block',
+      _key: this.key(),
+      style,
+      markDefs,
+      children: children.length > 0 ? children : [{ _type: 'span', _key: this.key(), text: '', marks: [] }]
+    };
+  }
+
+  private portableTextToHtml(context: SanityContext, blocks: any[]): string {
+    const html: string[] = [];
+    const openLists: string[] = [];
+
+    const closeLists = (level: number) => {
+      while (openLists.length > level) {
+        html.push(`</li></${openLists.pop()}>`);
+      }
+    };
+
+    for (const block of blocks || []) {
+      if (block._type === 'block' && block.listItem) {
+        const level = block.level || 1;
+        const tag = block.listItem === 'number' ? 'ol' : 'ul';
+        closeLists(level);
+        if (openLists.length === level && openLists[level - 1] !== tag) {
+          closeLists(level - 1);
+        }
+        if (openLists.length === level) {
+          html.push('</li>');
+        }
+        while (openLists.length < level) {
+          openLists.push(tag);
+          html.push(`<${tag}>`);
+        }
+        html.push(`<li>${this.spansToHtml(block)}`);
+        continue;
+      }
+
+      closeLists(0);
+
+      if (block._type === 'block') {
+        const style = block.style || 'normal';
+        const tag = /^h[1-6]$/.test(style) ? style : style === 'blockquote' ? 'blockquote' : 'p';
+        html.push(`<${tag}>${this.spansToHtml(block)}</${tag}>`);
+      } else if (block._type === 'image' && block.asset?._ref) {
+        html.push(`<img src="${this.imageUrl(context, block.asset._ref)}" alt="${this.escapeHtml(block.alt || '')}">`);
+      } else if (block._type === 'code') {
+        html.push(`<pre><code>${this.escapeHtml(block.code || '')}</code></pre>`);
+      }
+    }
+
+    closeLists(0);
+    return html.join('\n');
+  }
+
+  private spansToHtml(block: any): string {
+    return (block.children || []).map((child: any) => {
+      let html = this.escapeHtml(child.text || '').replace(/\n/g, '<br>');
+      for (const mark of child.marks || []) {
+        const link = (block.markDefs || []).find((definition: any) => definition._key === mark);
+        if (link?.href) {
+          html = `<a href="${this.escapeHtml(link.href)}">${html}</a>`;
+        } else if (mark === 'strong' || mark === 'em' || mark === 'code') {
+          html = `<${mark}>${html}</${mark}>`;
+        }
+      }
+      return html;
+    }).join('');
+  }
+
+  /**
+   * CDN URL of an image asset: image-<hash>-<width>x<height>-<ext> -> <hash>-<width>x<height>.<ext>
+   */
+  private imageUrl(context: SanityContext, assetRef: string): string {
+    const [, fileId, format] = assetRef.match(/^image-(.+)-(\w+)$/) || [];
+    return fileId
+      ? `https://cdn.sanity.io/images/${context.credentials.projectId}/${context.dataset}/${fileId}.${format}`
+      : assetRef;
+  }
+
+  private withoutSystemFields(document: any): any {
+    const { _rev, _createdAt, _updatedAt, ...fields } = document;
+    return fields;
+  }
+
+  private publishedId(id: string): string {
+    return id.startsWith(DRAFT_PREFIX) ? id.slice(DRAFT_PREFIX.length) : id;
+  }
+
+  private key(): string {
+    return Math.random().toString(36).substring(2, 14);
+  }
+
+  private getPath(document: any, path: string): any {
+    return path.split('.').reduce((value, segment) => value?.[segment], document);
+  }
+
+  private setPath(document: any, path: string, value: any) {
+    const segments = path.split('.');
+    let target = document;
+    segments.slice(0, -1).forEach(segment => {
+      target[segment] = target[segment] && typeof target[segment] === 'object' ? target[segment] : {};
+      target = target[segment];
+    });
+    target[segments[segments.length - 1]] = value;
+  }
+
+  private escapeHtml(text: string): string {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private assertNotModifiedSince(document: any, expectedUpdatedAt?: Date) {
+    if (!expectedUpdatedAt || !document._updatedAt) return;
+    if (new Date(document._updatedAt).getTime() !== new Date(expectedUpdatedAt).getTime()) {
+      throw new Error(
+        `[SANITY] Update conflict: document ${document._id} was modified in Sanity at ${document._updatedAt}, ` +
+        `after the version being updated (${new Date(expectedUpdatedAt).toISOString()})`
+      );
+    }
+  }
+
+  /**
+   * Transform a Sanity document to CMSArticle format
+   */
+  private transformDocument(context: SanityContext, document: any, hasDraft: boolean): CMSArticle {
+    const field = (key: string) => this.getPath(document, context.mapping[key]);
+    const id = this.publishedId(document._id);
+    const body = field('content');
+    const image = field('featuredImage');
+    const tags = field('tags');
+    const slug = field('slug')?.current || field('slug') || '';
+    const { studioUrl } = context.credentials;
+
+    return {
+      id,
+      title: field('title') || '',
+      content: typeof body === 'string' ? markdownToHtml(body) : this.portableTextToHtml(context, body || []),
+      slug: typeof slug === 'string' ? slug : '',
+      status: document._id.startsWith(DRAFT_PREFIX) ? 'draft' : 'published',
+      publishedAt: field('publishedAt') ? new Date(field('publishedAt')) : undefined,
+      createdAt: document._createdAt ? new Date(document._createdAt) : undefined,
+      updatedAt: document._updatedAt ? new Date(document._updatedAt) : undefined,
+      excerpt: field('excerpt') || '',
+      tags: Array.isArray(tags) ? tags.filter((tag: any) => typeof tag === 'string') : [],
+      categories: [],
+      featuredImage: image?.asset?._ref ? {
+        url: this.imageUrl(context, image.asset._ref),
+        alt: image.alt || ''
+      } : undefined,
+      seo: {
+        title: field('seoTitle') || field('title') || '',
+        description: field('seoDescription') || field('excerpt') || '',
+        keywords: []
+      },
+      url: typeof slug === 'string' && slug ? this.buildPostUrl(context.credentials, slug) : undefined,
+      adminUrl: studioUrl
+        ? `${studioUrl.replace(/\/$/, '')}/intent/edit/id=${id};type=${context.documentType}`
+        : undefined,
+      customFields: {
+        sanityId: id,
+        documentType: context.documentType,
+        revision: document._rev,
+        hasDraft // unpublished Studio changes pending on a published document
+      }
+    };
+  }
+}
@@ -91,13 +91,20 @@ export class ShopifyProvider extends BaseCMSProvider {
       return allArticles;
     }
 
-    const articlesResponse = await this.makeAuthenticatedRequest(
-      `/admin/api/${this.apiVersion}/blogs/${blogId}/articles.json?limit=50`,
-      'GET',
-      credentials
-    );
-
-    const articles = articlesResponse.articles || [];
+    // Page through the blog with since_id; Shopify caps limit at 250
+    const articles: any[] = [];
+    let sinceId = 0;
+    for (let page = 0; page < 20; page++) {
+      const articlesResponse = await this.makeAuthenticatedRequest(
+        `/admin/api/${this.apiVersion}/blogs/${blogId}/articles.json?limit=250&since_id=${sinceId}`,
+        'GET',
+        credentials
+      );
+      const batch = articlesResponse.articles || [];
+      articles.push(...batch);
+      if (batch.length < 250) break;
+      sinceId = batch[batch.length - 1].id;
+    }
 
     return articles.map((article: any) => ({
       id: article.id.toString(),
@@ -106,6 +113,7 @@ export class ShopifyProvider extends BaseCMSProvider {
       slug: article.handle,
       status: article.published_at ? 'published' : 'draft',
       publishedAt: article.published_at ? new Date(article.published_at) : undefined,
+      updatedAt: article.updated_at ? new Date(article.updated_at) : undefined,
       tags: article.tags ? article.tags.split(', ').filter(Boolean) : [],
       author: article.author || '',
       excerpt: article.summary || this.stripHtml(article.body_html || '').substring(0, 160),
@@ -1,5 +1,17 @@
+import { createClient } from '@supabase/supabase-js';
 import { BaseCMSProvider } from '../base-provider';
 import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
+import {
+  strapiEndpointForContentType,
+  generateStrapiAdminUrl,
+  formatContentForPublication,
+  generateExcerpt
+} from '../strapi-content';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
 
 export class StrapiProvider extends BaseCMSProvider {
   type: CMSType = 'strapi';
@@ -30,7 +42,7 @@ export class StrapiProvider extends BaseCMSProvider {
 
   async validateToken(credentials: CMSCredentials): Promise<boolean> {
     try {
-      const response = await this.makeRequest(`${this.baseUrl}/api/articles?pagination[limit]=1`, {
+      const response = await this.makeRequest(`${this.getEndpointUrl(credentials)}?pagination[limit]=1`, {
         headers: {
           'Authorization': `Bearer ${credentials.accessToken}`
         }
@@ -46,20 +58,30 @@ export class StrapiProvider extends BaseCMSProvider {
     return [{
       id: 'default',
       name: 'SEOAgent Blog',
-      url: `${this.baseUrl}`,
+      url: this.getBaseUrl(credentials),
       description: 'Main blog for SEOAgent articles'
     }];
   }
 
   async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
     try {
-      const response = await this.makeRequest(`${this.baseUrl}/api/articles?populate=*`, {
-        headers: {
-          'Authorization': `Bearer ${credentials.accessToken}`
-        }
-      });
+      const items: any[] = [];
+      let pageCount = 1;
 
-      return response.data.map((item: any) => this.transformStrapiArticle(item));
+      for (let page = 1; page <= pageCount && page <= 50; page++) {
+        const response = await this.makeRequest(
+          `${this.getEndpointUrl(credentials)}?populate=*&pagination[page]=${page}&pagination[pageSize]=100`,
+          {
+            headers: {
+              'Authorization': `Bearer ${credentials.accessToken}`
+            }
+          }
+        );
+        items.push(...(response.data || []));
+        pageCount = response.meta?.pagination?.pageCount || 1;
+      }
+
+      return items.map((item: any) => this.transformStrapiArticle(item, credentials));
     } catch (error) {
       console.error('Failed to fetch Strapi articles:', error);
       return [];
@@ -67,10 +89,15 @@ export class StrapiProvider extends BaseCMSProvider {
   }
 
   async publishArticle(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
+    // User connections publish into their own collection type, mapped through its stored schema
+    if (credentials.contentType) {
+      return this.publishToCollection(credentials, article, options);
+    }
+
     try {
       const strapiData = this.transformToStrapiFormat(article);
       
-      const response = await this.makeRequest(`${this.baseUrl}/api/articles`, {
+      const response = await this.makeRequest(`${this.getEndpointUrl(credentials)}${this.localeQuery(credentials)}`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${credentials.accessToken}`,
@@ -79,7 +106,7 @@ export class StrapiProvider extends BaseCMSProvider {
         body: JSON.stringify({ data: strapiData })
       });
 
-      return this.transformStrapiArticle(response.data);
+      return this.transformStrapiArticle(response.data, credentials);
     } catch (error) {
       console.error('Failed to publish article to Strapi:', error);
       throw error;
@@ -90,7 +117,8 @@ export class StrapiProvider extends BaseCMSProvider {
     try {
       const strapiData = this.transformToStrapiFormat(article);
       
-      const response = await this.makeRequest(`${this.baseUrl}/api/articles/${articleId}`, {
+      // With a locale, Strapi i18n creates or updates that localization of the document
+      const response = await this.makeRequest(`${this.getEndpointUrl(credentials)}/${articleId}${this.localeQuery(credentials)}`, {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${credentials.accessToken}`,
@@ -99,7 +127,7 @@ export class StrapiProvider extends BaseCMSProvider {
         body: JSON.stringify({ data: strapiData })
       });
 
-      return this.transformStrapiArticle(response.data);
+      return this.transformStrapiArticle(response.data, credentials);
     } catch (error) {
       console.error('Failed to update article in Strapi:', error);
       throw error;
@@ -108,7 +136,7 @@ export class StrapiProvider extends BaseCMSProvider {
 
   async deleteArticle(credentials: CMSCredentials, articleId: string): Promise<void> {
     try {
-      await this.makeRequest(`${this.baseUrl}/api/articles/${articleId}`, {
+      await this.makeRequest(`${this.getEndpointUrl(credentials)}/${articleId}`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${credentials.accessToken}`
@@ -120,23 +148,143 @@ export class StrapiProvider extends BaseCMSProvider {
     }
   }
 
-  private transformStrapiArticle(strapiArticle: any): CMSArticle {
-    const attributes = strapiArticle.attributes;
+  /**
+   * Publish into a connection's own collection type. Only fields the stored schema
+   * (cms_content_schemas) declares are sent; a slug collision is retried once with a suffix.
+   */
+  private async publishToCollection(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
+    const contentType = credentials.contentType!;
+    const baseUrl = this.getBaseUrl(credentials);
+    const url = `${this.getEndpointUrl(credentials)}${this.localeQuery(credentials)}`;
+    const schemaInfo = await this.getContentTypeSchema(credentials);
+    const fieldsConfig = schemaInfo?.fields_config || schemaInfo || {};
+    const content = article.content || '';
+    const metaTitle = article.seo?.title;
+    const metaDescription = article.seo?.description;
+
+    let usedSlug = article.slug || this.generateSlug(article.title || '');
+    const data: any = {
+      title: article.title,
+      content: formatContentForPublication(content, schemaInfo),
+      slug: usedSlug,
+      publishedAt: options?.status === 'draft' ? null : new Date().toISOString() // null = draft
+    };
+
+    if (metaTitle) {
+      const field = ['metaTitle', 'meta_title', 'seoTitle'].find(name => fieldsConfig[name]);
+      if (field) data[field] = metaTitle;
+    }
+    if (metaDescription) {
+      const field = ['metaDescription', 'meta_description', 'seoDescription'].find(name => fieldsConfig[name]);
+      if (field) data[field] = metaDescription;
+    }
+    if (schemaInfo?.hasExcerpt) {
+      data.excerpt = article.excerpt || generateExcerpt(content);
+    }
+
+    console.log('[STRAPI] Publishing to:', url);
+
+    const post = () => fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${credentials.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ data })
+    });
+
+    let response = await post();
+    let errorText: string | null = null;
+    if (response.status === 400) {
+      errorText = await response.text();
+      if (errorText.includes('This attribute must be unique') && errorText.toLowerCase().includes('slug')) {
+        usedSlug = `${usedSlug}-${Math.random().toString(36).slice(2, 6)}`;
+        data.slug = usedSlug;
+        errorText = null;
+        response = await post();
+      }
+    }
+
+    if (!response.ok) {
+      errorText = errorText ?? await response.text();
+      console.error('[STRAPI] Publish failed:', response.status, errorText);
+      const endpoint = strapiEndpointForContentType(contentType);
+      if (response.status === 401) {
+        throw new Error('Authentication failed. Please check your API token.');
+      } else if (response.status === 404) {
+        throw new Error(`Content type endpoint not found: ${endpoint}. Check if the content type exists in Strapi.`);
+      } else if (response.status === 400) {
+        throw new Error(`Invalid data format: ${errorText}`);
+      } else if (response.status === 405) {
+        throw new Error(`Method not allowed for endpoint: ${endpoint}. The Strapi endpoint may not support POST requests or the content type may be incorrect.`);
+      }
+      throw new Error(`HTTP ${response.status}: ${errorText}`);
+    }
+
+    const result = await response.json();
+    const documentId = result.data?.documentId || result.data?.id;
+    if (!documentId) {
+      throw new Error('No document ID returned from Strapi');
+    }
+
+    const published = this.transformStrapiArticle(result.data, credentials);
+    return {
+      ...published,
+      id: documentId.toString(),
+      slug: usedSlug,
+      url: `${baseUrl}/blog/${usedSlug}`,
+      adminUrl: generateStrapiAdminUrl(baseUrl, contentType, documentId.toString())
+    };
+  }
+
+  private async getContentTypeSchema(credentials: CMSCredentials): Promise<any> {
+    if (!credentials.connectionId || !credentials.contentType) return null;
+
+    const { data, error } = await supabase
+      .from('cms_content_schemas')
+      .select('fields_config')
+      .eq('connection_id', credentials.connectionId)
+      .eq('content_type_name', credentials.contentType)
+      .maybeSingle();
+
+    if (error) {
+      console.log('[STRAPI] Could not fetch schema info:', error.message);
+    }
+    return data?.fields_config || null;
+  }
+
+  private getBaseUrl(credentials: CMSCredentials): string {
+    return (credentials.strapiUrl || credentials.siteUrl || this.baseUrl).replace(/\/$/, '');
+  }
+
+  private getEndpointUrl(credentials: CMSCredentials): string {
+    const endpoint = credentials.contentType ? strapiEndpointForContentType(credentials.contentType) : 'api/articles';
+    return `${this.getBaseUrl(credentials)}/${endpoint}`;
+  }
+
+  private localeQuery(credentials: CMSCredentials): string {
+    return credentials.locale ? `?locale=${encodeURIComponent(credentials.locale)}` : '';
+  }
+
+  private transformStrapiArticle(strapiArticle: any, credentials: CMSCredentials): CMSArticle {
+    // Strapi v4 nests fields under attributes; v5 returns them flat with a documentId
+    const attributes = strapiArticle.attributes || strapiArticle;
+    const baseUrl = this.getBaseUrl(credentials);
     return {
-      id: strapiArticle.id.toString(),
+      id: (strapiArticle.documentId || strapiArticle.id).toString(),
       title: attributes.title,
       content: attributes.content,
       excerpt: attributes.excerpt || '',
       slug: attributes.slug,
       status: attributes.publishedAt ? 'published' : 'draft',
       publishedAt: attributes.publishedAt ? new Date(attributes.publishedAt) : undefined,
-      createdAt: new Date(attributes.createdAt),
-      updatedAt: new Date(attributes.updatedAt),
+      createdAt: attributes.createdAt ? new Date(attributes.createdAt) : undefined,
+      updatedAt: attributes.updatedAt ? new Date(attributes.updatedAt) : undefined,
       author: attributes.author || 'SEOAgent',
       tags: attributes.tags?.data?.map((tag: any) => tag.attributes.name) || [],
       categories: attributes.category?.data ? [attributes.category.data.attributes.name] : [],
       featuredImage: attributes.featuredImage?.data ? {
-        url: `${this.baseUrl}${attributes.featuredImage.data.attributes.url}`,
+        url: `${baseUrl}${attributes.featuredImage.data.attributes.url}`,
         alt: attributes.featuredImage.data.attributes.alternativeText || ''
       } : undefined,
       seo: {
@@ -144,7 +292,7 @@ export class StrapiProvider extends BaseCMSProvider {
         description: attributes.metaDescription || attributes.excerpt,
         keywords: attributes.keywords || []
       },
-      url: attributes.publicUrl || `${this.baseUrl}/articles/${attributes.slug}`,
+      url: attributes.publicUrl || `${baseUrl}/articles/${attributes.slug}`,
       customFields: {
         primaryKeyword: attributes.primaryKeyword,
         wordCount: attributes.wordCount,
@@ -112,18 +112,32 @@ export class WebflowProvider extends BaseCMSProvider {
 
   async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
     if (!blogId) {
-      throw new Error('Blog ID is required for Webflow');
+      // Get items from every blog-like collection
+      const blogs = await this.getBlogs(credentials);
+      const allArticles: CMSArticle[] = [];
+
+      for (const blog of blogs) {
+        const blogArticles = await this.getArticles(credentials, blog.id);
+        allArticles.push(...blogArticles);
+      }
+
+      return allArticles;
     }
 
     const [siteId, collectionId] = blogId.split(':');
-    
-    const itemsResponse = await this.makeAuthenticatedRequest(
-      `/v2/collections/${collectionId}/items`,
-      'GET',
-      credentials
-    );
 
-    const items = itemsResponse.items || [];
+    // Webflow returns at most 100 items per request
+    const items: any[] = [];
+    for (let offset = 0; offset < 10000; offset += 100) {
+      const itemsResponse = await this.makeAuthenticatedRequest(
+        `/v2/collections/${collectionId}/items?limit=100&offset=${offset}`,
+        'GET',
+        credentials
+      );
+      const batch = itemsResponse.items || [];
+      items.push(...batch);
+      if (batch.length < 100) break;
+    }
 
     return items.map((item: any) => ({
       id: item.id,
@@ -132,6 +146,7 @@ export class WebflowProvider extends BaseCMSProvider {
       slug: item.fieldData.slug,
       status: item.isArchived || item.isDraft ? 'draft' : 'published',
       publishedAt: item.lastPublished ? new Date(item.lastPublished) : undefined,
+      updatedAt: item.lastUpdated ? new Date(item.lastUpdated) : undefined,
       tags: this.extractTags(item.fieldData),
       author: item.fieldData.author || '',
       excerpt: item.fieldData.excerpt || item.fieldData.summary || '',
@@ -0,0 +1,370 @@
+import { createHmac, randomUUID } from 'crypto';
+import { BaseCMSProvider } from '../base-provider';
+import { assertPublicUrl } from '@/lib/utils/public-address';
+import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
+
+// Bumped whenever a field is removed or changes meaning; receivers should check it before reading the body
+export const WEBHOOK_PAYLOAD_VERSION = '2026-10-18';
+
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Statuses worth another attempt; any other 4xx is the receiver rejecting the payload
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export type WebhookEvent =
+  | 'ping'
+  | 'article.published'
+  | 'article.updated'
+  | 'article.deleted'
+  | 'articles.list';
+
+export interface WebhookImage {
+  url: string;
+  alt?: string;
+  caption?: string;
+  type?: string; // featured, inline, thumbnail
+  position?: number;
+}
+
+export interface WebhookArticlePayload {
+  id?: string; // Remote ID returned by the receiver when the article was published
+  sourceId?: string; // SEOAgent article ID, stable across retries and updates
+  title?: string;
+  slug?: string;
+  language?: string; // BCP 47; set for sites that publish in more than one language
+  status?: 'draft' | 'published';
+  content?: string; // HTML, including the JSON-LD <script> when schemaJson is set
+  excerpt?: string;
+  meta?: {
+    title?: string;
+    description?: string;
+    keywords?: string[];
+  };
+  schemaJson?: any;
+  images: WebhookImage[];
+  featuredImage?: { url: string; alt?: string };
+  tags?: string[];
+  categories?: string[];
+  author?: string;
+  publishedAt?: string;
+  expectedUpdatedAt?: string; // Updates only: receivers may answer 409 if their copy changed since
+}
+
+export interface WebhookPayload {
+  version: string;
+  event: WebhookEvent;
+  deliveryId: string;
+  timestamp: string;
+  article?: WebhookArticlePayload;
+  articleId?: string; // article.deleted
+}
+
+/**
+ * Response body receivers return from article.published / article.updated (and, per item, articles.list)
+ */
+export interface WebhookArticleResponse {
+  id: string;
+  url?: string;
+  adminUrl?: string;
+  slug?: string;
+  status?: 'draft' | 'published';
+  title?: string;
+  content?: string;
+  excerpt?: string;
+  publishedAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * HMAC-SHA256 over "{timestamp}.{body}", sent as X-SEOAgent-Signature: sha256=<hex>
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export class WebhookProvider extends BaseCMSProvider {
+  type: CMSType = 'webhook';
+  name = 'Webhook';
+
+  constructor() {
+    // Webhook connections POST to the customer's endpoint, signed with the connection's secret
+    super('', '', '');
+  }
+
+  getAuthUrl(redirectUri: string, state: string): string {
+    // Webhooks are signed with a shared secret, not OAuth
+    throw new Error('Webhook connections use a signing secret, not OAuth');
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string): Promise<CMSCredentials> {
+    throw new Error('Webhook connections use a signing secret, not OAuth');
+  }
+
+  async validateToken(credentials: CMSCredentials): Promise<boolean> {
+    try {
+      if (!credentials.webhookUrl || !credentials.accessToken) {
+        console.error('[WEBHOOK] Missing webhookUrl or signing secret in credentials');
+        return false;
+      }
+
+      await assertPublicUrl(credentials.webhookUrl);
+      await this.deliver(credentials, 'ping', {});
+      return true;
+    } catch (error) {
+      console.error('[WEBHOOK] Endpoint validation failed:', error);
+      return false;
+    }
+  }
+
+  async getBlogs(credentials: CMSCredentials): Promise<CMSBlog[]> {
+    return [{
+      id: 'webhook',
+      name: credentials.webhookUrl ? new URL(credentials.webhookUrl).host : 'Webhook',
+      url: credentials.siteUrl
+    }];
+  }
+
+  /**
+   * Receivers may answer articles.list with { articles: [...] } so content sync can see their posts;
+   * endpoints that don't implement it simply have nothing to sync
+   */
+  async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
+    try {
+      const response = await this.deliver(credentials, 'articles.list', {}, { retry: false });
+      const articles: WebhookArticleResponse[] = Array.isArray(response?.articles) ? response.articles : [];
+
+      return articles
+        .filter(item => item && item.id)
+        .map(item => this.transformResponse(credentials, item, {}));
+    } catch (error: any) {
+      if (error.status === 501 || (error.status >= 400 && error.status < 500)) {
+        console.log('[WEBHOOK] Endpoint does not support articles.list');
+      } else {
+        console.error('[WEBHOOK] Failed to fetch articles:', error);
+      }
+      return [];
+    }
+  }
+
+  async publishArticle(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
+    try {
+      const payload = this.buildArticlePayload({
+        ...article,
+        slug: article.slug || this.generateSlug(article.title || ''),
+        status: options?.status || article.status || 'draft',
+        publishedAt: options?.publishedAt || article.publishedAt,
+        tags: options?.tags || article.tags,
+        author: options?.author || article.author
+      });
+
+      const response = await this.deliver(credentials, 'article.published', { article: payload });
+      if (!response || (typeof response.id !== 'string' && typeof response.id !== 'number')) {
+        throw new Error('[WEBHOOK] Receiver must respond to article.published with the remote article id ({ "id": "..." })');
+      }
+
+      console.log(`[WEBHOOK] Published article, remote id ${response.id}`);
+      return this.transformResponse(credentials, response, { ...article, slug: payload.slug, status: payload.status });
+    } catch (error) {
+      console.error('[WEBHOOK] Failed to publish article:', error);
+      throw error;
+    }
+  }
+
+  async updateArticle(credentials: CMSCredentials, articleId: string, article: Partial<CMSArticle>): Promise<CMSArticle> {
+    try {
+      const payload = this.buildArticlePayload(article);
+      payload.id = articleId;
+      if (article.updatedAt) {
+        payload.expectedUpdatedAt = new Date(article.updatedAt).toISOString();
+      }
+
+      let response: any;
+      try {
+        response = await this.deliver(credentials, 'article.updated', { article: payload });
+      } catch (error: any) {
+        if (error.status === 409) {
+          throw new Error(`[WEBHOOK] Update conflict: article ${articleId} was modified by the receiver since it was last read`);
+        }
+        throw error;
+      }
+
+      console.log(`[WEBHOOK] Updated article ${articleId}`);
+      return this.transformResponse(credentials, { ...response, id: response?.id ? String(response.id) : articleId }, article);
+    } catch (error) {
+      console.error('[WEBHOOK] Failed to update article:', error);
+      throw error;
+    }
+  }
+
+  async deleteArticle(credentials: CMSCredentials, articleId: string): Promise<void> {
+    try {
+      await this.deliver(credentials, 'article.deleted', { articleId });
+      console.log(`[WEBHOOK] Deleted article ${articleId}`);
+    } catch (error: any) {
+      // Already gone on the receiver's side
+      if (error.status === 404 || error.status === 410) {
+        console.log(`[WEBHOOK] Article ${articleId} was already deleted`);
+        return;
+      }
+      console.error('[WEBHOOK] Failed to delete article:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * POST a signed payload, retrying timeouts, network errors, 429 and 5xx with exponential backoff.
+   * The delivery id stays the same across attempts so receivers can deduplicate; the timestamp and
+   * signature are refreshed so replay windows keep working. Only public addresses are called, and
+   * redirects are not followed.
+   */
+  private async deliver(
+    credentials: CMSCredentials,
+    event: WebhookEvent,
+    data: Pick<WebhookPayload, 'article' | 'articleId'>,
+    { retry = true }: { retry?: boolean } = {}
+  ): Promise<any> {
+    if (!credentials.webhookUrl) {
+      throw new Error('[WEBHOOK] Missing webhookUrl in credentials');
+    }
+    if (!credentials.accessToken) {
+      throw new Error('[WEBHOOK] Missing signing secret in credentials');
+    }
+
+    const deliveryId = randomUUID();
+    const maxAttempts = retry ? MAX_ATTEMPTS : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      // Checked on every attempt: the host may resolve differently between retries
+      await assertPublicUrl(credentials.webhookUrl);
+
+      const timestamp = Math.floor(Date.now() / 1000);
+      const body = JSON.stringify({
+        version: WEBHOOK_PAYLOAD_VERSION,
+        event,
+        deliveryId,
+        timestamp: new Date(timestamp * 1000).toISOString(),
+        ...data
+      } as WebhookPayload);
+
+      let response: Response;
+      try {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        try {
+          response = await fetch(credentials.webhookUrl, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'SEOAgent-Webhook/1.0',
+              'X-SEOAgent-Event': event,
+              'X-SEOAgent-Delivery': deliveryId,
+              'X-SEOAgent-Timestamp': String(timestamp),
+              'X-SEOAgent-Signature': signWebhookPayload(credentials.accessToken, timestamp, body)
+            },
+            body,
+            redirect: 'manual',
+            signal: controller.signal
+          });
+        } finally {
+          clearTimeout(timeout);
+        }
+      } catch (networkError) {
+        if (attempt < maxAttempts) {
+          const delay = this.retryDelay(attempt);
+          console.warn(`[WEBHOOK] ${event} delivery ${deliveryId} failed (${networkError instanceof Error ? networkError.message : 'network error'}), retrying in ${delay}ms`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+        throw new Error(`[WEBHOOK] ${event} delivery failed after ${attempt} attempt(s): ${networkError instanceof Error ? networkError.message : 'network error'}`);
+      }
+
+      if (RETRYABLE_STATUSES.includes(response.status) && attempt < maxAttempts) {
+        const delay = this.retryDelay(attempt, response.headers.get('Retry-After'));
+        console.warn(`[WEBHOOK] ${event} delivery ${deliveryId} got HTTP ${response.status}, retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (!response.ok) {
+        // The body isn't included: it may be anything the endpoint chose to send back
+        const error: any = new Error(`[WEBHOOK] ${event} rejected with HTTP ${response.status}`);
+        error.status = response.status;
+        throw error;
+      }
+
+      const text = await response.text();
+      if (!text) return null;
+      try {
+        return JSON.parse(text);
+      } catch {
+        // Receivers may acknowledge ping/delete with a plain-text body
+        return null;
+      }
+    }
+  }
+
+  /**
+   * 1s, 2s, 4s... with jitter, or the receiver's Retry-After when it sends one
+   */
+  private retryDelay(attempt: number, retryAfter?: string | null): number {
+    const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+    if (!isNaN(retryAfterSeconds)) {
+      return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+    }
+
+    const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+    return Math.min(backoff + Math.floor(Math.random() * BASE_RETRY_DELAY_MS / 2), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * The publishing pipeline passes schemaJson, images and sourceId through customFields
+   */
+  private buildArticlePayload(article: Partial<CMSArticle>): WebhookArticlePayload {
+    const custom = article.customFields || {};
+    const images: WebhookImage[] = Array.isArray(custom.images) ? custom.images : [];
+
+    return {
+      sourceId: custom.sourceId !== undefined ? String(custom.sourceId) : undefined,
+      title: article.title,
+      slug: article.slug,
+      language: article.language,
+      status: article.status,
+      content: article.content,
+      excerpt: article.excerpt,
+      meta: article.seo ? {
+        title: article.seo.title,
+        description: article.seo.description,
+        keywords: article.seo.keywords
+      } : undefined,
+      schemaJson: custom.schemaJson ?? undefined,
+      images,
+      featuredImage: article.featuredImage || images.find(image => image.type === 'featured'),
+      tags: article.tags,
+      categories: article.categories,
+      author: article.author,
+      publishedAt: article.publishedAt ? new Date(article.publishedAt).toISOString() : undefined
+    };
+  }
+
+  private transformResponse(credentials: CMSCredentials, response: WebhookArticleResponse, sent: Partial<CMSArticle>): CMSArticle {
+    const slug = response.slug || sent.slug;
+
+    return {
+      id: String(response.id),
+      title: response.title || sent.title || '',
+      content: response.content ?? sent.content ?? '',
+      slug,
+      status: response.status || sent.status || 'published',
+      excerpt: response.excerpt ?? sent.excerpt,
+      publishedAt: response.publishedAt ? new Date(response.publishedAt) : sent.publishedAt,
+      updatedAt: response.updatedAt ? new Date(response.updatedAt) : undefined,
+      tags: sent.tags,
+      seo: sent.seo,
+      url: response.url || (slug ? this.buildPostUrl(credentials, slug) : undefined),
+      adminUrl: response.adminUrl
+    };
+  }
+}
@@ -0,0 +1,213 @@
+import { BaseCMSProvider } from '../base-provider';
+import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
+import { uploadImagesToWordPress, hasTemporaryImages } from '../wordpress-image-upload';
+import { cleanHtmlForWordPress } from '../wordpress-content';
+
+const API_BASE = 'https://public-api.wordpress.com';
+const PAGE_SIZE = 100;
+const MAX_PAGES = 50; // Safety cap when listing posts: 5,000
+
+export class WordPressComProvider extends BaseCMSProvider {
+  type: CMSType = 'wordpress_com';
+  name = 'WordPress.com';
+
+  constructor(clientId: string = '', clientSecret: string = '') {
+    super(clientId, clientSecret, API_BASE);
+  }
+
+  getAuthUrl(redirectUri: string, state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: 'global',
+      state
+    });
+
+    return `${API_BASE}/oauth2/authorize?${params.toString()}`;
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string): Promise<CMSCredentials> {
+    const body = new URLSearchParams({
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      redirect_uri: redirectUri,
+      code,
+      grant_type: 'authorization_code'
+    });
+
+    const response = await fetch(`${API_BASE}/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body
+    });
+
+    if (!response.ok) {
+      throw new Error(`WordPress.com token exchange failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      accessToken: data.access_token,
+      siteUrl: data.blog_url,
+      siteId: data.blog_id ? String(data.blog_id) : undefined,
+      tokenType: data.token_type || 'bearer',
+      scope: data.scope
+    };
+  }
+
+  async validateToken(credentials: CMSCredentials): Promise<boolean> {
+    try {
+      await this.makeAuthenticatedRequest(`${API_BASE}/rest/v1.1/me`, 'GET', credentials);
+      return true;
+    } catch (error) {
+      console.error('[WORDPRESS_COM] Token validation failed:', error);
+      return false;
+    }
+  }
+
+  async getBlogs(credentials: CMSCredentials): Promise<CMSBlog[]> {
+    const data = await this.makeAuthenticatedRequest(`${API_BASE}/rest/v1.1/me/sites`, 'GET', credentials);
+
+    return (data.sites || []).map((site: any) => ({
+      id: String(site.ID),
+      name: site.name || site.URL,
+      url: site.URL,
+      description: site.description || ''
+    }));
+  }
+
+  async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
+    const site = blogId || this.getSiteIdentifier(credentials);
+    const posts: any[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const batch = await this.makeAuthenticatedRequest(
+        `${API_BASE}/wp/v2/sites/${site}/posts?per_page=${PAGE_SIZE}&page=${page}&status=any&context=edit`,
+        'GET',
+        credentials
+      );
+      posts.push(...batch);
+      if (batch.length < PAGE_SIZE) break;
+    }
+
+    return posts.map((post: any) => this.transformPost(post, site));
+  }
+
+  async publishArticle(credentials: CMSCredentials, article: Partial<CMSArticle>, options?: CMSPublishOptions): Promise<CMSArticle> {
+    const site = options?.blogId || this.getSiteIdentifier(credentials);
+
+    // Clean up generated markup, then move temporary images into the Media Library
+    let content = cleanHtmlForWordPress(article.content || '');
+    if (hasTemporaryImages(content)) {
+      console.log('[WORDPRESS_COM] Uploading images to Media Library...');
+      const uploadResult = await uploadImagesToWordPress({
+        content,
+        authType: 'bearer',
+        accessToken: credentials.accessToken,
+        siteUrl: site
+      });
+      content = uploadResult.content;
+      console.log(`[WORDPRESS_COM] Uploaded ${uploadResult.uploadedImages.length} images`);
+    }
+
+    const postData: any = {
+      title: article.title,
+      content,
+      status: options?.status === 'draft' ? 'draft' : 'publish'
+    };
+    if (article.slug) postData.slug = article.slug;
+    if (article.excerpt) postData.excerpt = article.excerpt;
+    if (options?.publishedAt) postData.date = options.publishedAt.toISOString();
+
+    const createdPost = await this.makeAuthenticatedRequest(
+      `${API_BASE}/wp/v2/sites/${site}/posts`,
+      'POST',
+      credentials,
+      postData
+    );
+
+    console.log('[WORDPRESS_COM] Post created:', { id: createdPost.id, status: createdPost.status });
+
+    return this.transformPost(createdPost, site);
+  }
+
+  async updateArticle(credentials: CMSCredentials, articleId: string, article: Partial<CMSArticle>): Promise<CMSArticle> {
+    const site = this.getSiteIdentifier(credentials);
+    const updateData: any = {};
+
+    if (article.title) updateData.title = article.title;
+    if (article.content) updateData.content = cleanHtmlForWordPress(article.content);
+    if (article.slug) updateData.slug = article.slug;
+    if (article.status) updateData.status = article.status === 'published' ? 'publish' : 'draft';
+    if (article.excerpt) updateData.excerpt = article.excerpt;
+
+    const updatedPost = await this.makeAuthenticatedRequest(
+      `${API_BASE}/wp/v2/sites/${site}/posts/${articleId}`,
+      'POST',
+      credentials,
+      updateData
+    );
+
+    return this.transformPost(updatedPost, site);
+  }
+
+  async deleteArticle(credentials: CMSCredentials, articleId: string): Promise<void> {
+    const site = this.getSiteIdentifier(credentials);
+    await this.makeAuthenticatedRequest(
+      `${API_BASE}/wp/v2/sites/${site}/posts/${articleId}?force=true`,
+      'DELETE',
+      credentials
+    );
+  }
+
+  // WordPress.com addresses sites by host (example.wordpress.com) or numeric site ID
+  private getSiteIdentifier(credentials: CMSCredentials): string {
+    if (credentials.siteId) return credentials.siteId;
+    if (!credentials.siteUrl) {
+      throw new Error('WordPress.com connection is missing its site URL');
+    }
+    try {
+      return new URL(credentials.siteUrl).host;
+    } catch {
+      return credentials.siteUrl;
+    }
+  }
+
+  private transformPost(post: any, site: string): CMSArticle {
+    const postId = String(post.id);
+    return {
+      id: postId,
+      title: post.title?.raw ?? post.title?.rendered ?? '',
+      content: post.content?.raw ?? post.content?.rendered ?? '',
+      slug: post.slug,
+      status: post.status === 'publish' ? 'published' : 'draft',
+      publishedAt: post.status === 'publish' ? new Date(post.date) : undefined,
+      updatedAt: post.modified_gmt ? new Date(`${post.modified_gmt}Z`) : undefined,
+      excerpt: post.excerpt?.rendered ? this.stripHtml(post.excerpt.rendered) : '',
+      url: post.link || `https://${site}/${post.slug}`,
+      adminUrl: `https://wordpress.com/post/${site}/${postId}`
+    };
+  }
+
+  private async makeAuthenticatedRequest(
+    url: string,
+    method: string,
+    credentials: CMSCredentials,
+    body?: any
+  ): Promise<any> {
+    const options: RequestInit = {
+      method,
+      headers: {
+        'Authorization': `Bearer ${credentials.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    };
+
+    if (body && (method === 'POST' || method === 'PUT')) {
+      options.body = JSON.stringify(body);
+    }
+
+    return this.makeRequest(url, options);
+  }
+}
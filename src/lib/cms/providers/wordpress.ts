@@ -2,6 +2,9 @@ import { BaseCMSProvider } from '../base-provider';
 import { CMSCredentials, CMSBlog, CMSArticle, CMSPublishOptions, CMSType } from '../types';
 import { uploadImagesToWordPress, hasTemporaryImages } from '../wordpress-image-upload';
 
+const PAGE_SIZE = 100;
+const MAX_PAGES = 50; // Safety cap when listing posts: 5,000
+
 export class WordPressProvider extends BaseCMSProvider {
   type: CMSType = 'wordpress';
   name = 'WordPress';
@@ -86,11 +89,18 @@ export class WordPressProvider extends BaseCMSProvider {
   }
 
   async getArticles(credentials: CMSCredentials, blogId?: string): Promise<CMSArticle[]> {
-    const posts = await this.makeAuthenticatedRequest(
-      `${credentials.siteUrl}/wp-json/wp/v2/posts?per_page=20&_embed`,
-      'GET',
-      credentials
-    );
+    const posts: any[] = [];
+
+    // Page through every post (any status); WordPress caps per_page at 100
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const batch = await this.makeAuthenticatedRequest(
+        `${credentials.siteUrl}/wp-json/wp/v2/posts?per_page=${PAGE_SIZE}&page=${page}&status=any&_embed`,
+        'GET',
+        credentials
+      );
+      posts.push(...batch);
+      if (batch.length < PAGE_SIZE) break;
+    }
 
     return posts.map((post: any) => ({
       id: post.id.toString(),
@@ -99,10 +109,13 @@ export class WordPressProvider extends BaseCMSProvider {
       slug: post.slug,
       status: post.status === 'publish' ? 'published' as const : 'draft' as const,
       publishedAt: post.status === 'publish' ? new Date(post.date) : undefined,
+      updatedAt: post.modified_gmt ? new Date(`${post.modified_gmt}Z`) : undefined,
       tags: post._embedded?.['wp:term']?.[1]?.map((tag: any) => tag.name) || [],
+      categories: post._embedded?.['wp:term']?.[0]?.map((category: any) => category.name) || [],
       author: post._embedded?.author?.[0]?.name || '',
       excerpt: post.excerpt.rendered ? this.stripHtml(post.excerpt.rendered) : '',
       featuredImage: post._embedded?.['wp:featuredmedia']?.[0]?.source_url,
+      url: post.link,
       meta: {
         title: post.yoast_head_json?.title || post.title.rendered,
         description: post.yoast_head_json?.description || this.stripHtml(post.excerpt.rendered || '').substring(0, 160),
@@ -147,6 +160,11 @@ export class WordPressProvider extends BaseCMSProvider {
       },
     };
 
+    // Polylang assigns the post's language from "lang"; WordPress ignores it without the plugin
+    if (credentials.locale || article.language) {
+      postData.lang = credentials.locale || article.language;
+    }
+
     // Handle tags if provided
     if (options?.tags?.length) {
       // First, get or create tags
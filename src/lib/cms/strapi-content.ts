@@ -0,0 +1,178 @@
+/**
+ * Strapi Content Utility
+ *
+ * Endpoint resolution and content formatting for publishing into a connection's
+ * own Strapi collection type (e.g. api::blog-post.blog-post)
+ */
+
+/**
+ * Convert a Strapi content type UID to its REST endpoint
+ * api::blog-post.blog-post -> api/blog-posts, articles -> api/articles
+ */
+export function strapiEndpointForContentType(contentType: string): string {
+  if (contentType.startsWith('api::')) {
+    // Handle formats like api::blog-post.blog-post or api::blog-post::blog-post
+    const parts = contentType.split('::');
+    if (parts.length >= 2) {
+      // "blog-post.blog-post" -> "blog-post"
+      const singularName = parts[1].split('.')[0];
+      return `api/${pluralize(singularName)}`;
+    }
+  }
+
+  return contentType.startsWith('api/') ? contentType : `api/${contentType}`;
+}
+
+/**
+ * Strapi admin deep-link for editing a published entry
+ */
+export function generateStrapiAdminUrl(baseUrl: string, contentType: string, documentId: string): string {
+  const cleanUrl = baseUrl.replace(/\/$/, '');
+  return `${cleanUrl}/admin/content-manager/collection-types/${contentType}/${documentId}`;
+}
+
+/**
+ * Clean up HTML, or convert markdown-style content to HTML, for a Strapi rich text field
+ */
+export function formatContentForPublication(content: string, schemaInfo: any): string {
+  // Enhanced HTML formatting for better article presentation
+  let formattedContent = content.trim();
+  
+  // If content is already HTML (starts with HTML tags), clean it up extensively
+  if (formattedContent.startsWith('<')) {
+    // Remove any malformed paragraph wrapping around headers
+    formattedContent = formattedContent.replace(/<p>\s*<h([1-6])>/g, '<h$1>');
+    formattedContent = formattedContent.replace(/<\/h([1-6])>\s*<\/p>/g, '</h$1>');
+    
+    // Clean up malformed nested lists
+    formattedContent = formattedContent.replace(/<ul><ul>/g, '<ul>');
+    formattedContent = formattedContent.replace(/<\/ul><\/ul>/g, '</ul>');
+    
+    // Fix double closing paragraph tags
+    formattedContent = formattedContent.replace(/<\/p><\/p>/g, '</p>');
+    
+    // Remove paragraph tags around headers
+    formattedContent = formattedContent.replace(/<p>(<h[1-6].*?<\/h[1-6]>)<\/p>/g, '$1');
+    
+    // Clean up excessive line breaks and paragraph spacing
+    formattedContent = formattedContent.replace(/<\/p><br>\s*<br>\s*<p>/g, '</p>\n<p>');
+    formattedContent = formattedContent.replace(/<br>\s*<br>/g, '</p>\n<p>');
+    
+    // Remove empty paragraphs
+    formattedContent = formattedContent.replace(/<p>\s*<\/p>/g, '');
+    
+    // Ensure proper spacing between elements
+    formattedContent = formattedContent.replace(/><h/g, '>\n<h');
+    formattedContent = formattedContent.replace(/><p/g, '>\n<p');
+    formattedContent = formattedContent.replace(/><ul/g, '>\n<ul');
+    formattedContent = formattedContent.replace(/><div/g, '>\n<div');
+    
+    // Clean up any remaining malformed structures
+    formattedContent = formattedContent.replace(/<p([^>]*)>/g, (match, attrs) => {
+      // If this paragraph contains a header, remove the paragraph wrapper
+      const nextTag = formattedContent.substring(formattedContent.indexOf(match) + match.length, formattedContent.indexOf(match) + match.length + 10);
+      if (nextTag.includes('<h')) {
+        return '';
+      }
+      return match;
+    });
+    
+    // Final cleanup
+    formattedContent = formattedContent.replace(/\n{3,}/g, '\n\n');
+    formattedContent = formattedContent.trim();
+    
+    return formattedContent;
+  }
+  
+  // Convert markdown-style formatting to HTML
+  // Process line by line to maintain structure
+  const lines = formattedContent.split('\n');
+  const processedLines: string[] = [];
+  let inList = false;
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    
+    if (!line) {
+      // Empty line - close any open lists and add spacing
+      if (inList) {
+        processedLines.push('</ul>');
+        inList = false;
+      }
+      continue; // Skip empty lines for cleaner output
+    }
+    
+    // Headers
+    if (line.startsWith('#### ')) {
+      if (inList) { processedLines.push('</ul>'); inList = false; }
+      processedLines.push(`<h4>${line.substring(5)}</h4>`);
+    } else if (line.startsWith('### ')) {
+      if (inList) { processedLines.push('</ul>'); inList = false; }
+      processedLines.push(`<h3>${line.substring(4)}</h3>`);
+    } else if (line.startsWith('## ')) {
+      if (inList) { processedLines.push('</ul>'); inList = false; }
+      processedLines.push(`<h2>${line.substring(3)}</h2>`);
+    } else if (line.startsWith('# ')) {
+      if (inList) { processedLines.push('</ul>'); inList = false; }
+      processedLines.push(`<h1>${line.substring(2)}</h1>`);
+    } 
+    // List items
+    else if (line.startsWith('- ') || line.startsWith('* ')) {
+      if (!inList) {
+        processedLines.push('<ul>');
+        inList = true;
+      }
+      const listContent = line.substring(2);
+      // Apply bold/italic formatting to list content
+      const formattedListContent = listContent
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/\*(.+?)\*/g, '<em>$1</em>');
+      processedLines.push(`<li>${formattedListContent}</li>`);
+    }
+    // Regular paragraphs
+    else {
+      if (inList) { processedLines.push('</ul>'); inList = false; }
+      // Apply bold/italic formatting
+      const formattedLine = line
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/\*(.+?)\*/g, '<em>$1</em>');
+      processedLines.push(`<p>${formattedLine}</p>`);
+    }
+  }
+  
+  // Close any remaining open lists
+  if (inList) {
+    processedLines.push('</ul>');
+  }
+  
+  // Join with single newlines for clean HTML
+  let result = processedLines.join('\n');
+  
+  return result;
+}
+
+/**
+ * First paragraph of the content as plain text, truncated to maxLength
+ */
+export function generateExcerpt(content: string, maxLength: number = 160): string {
+  // Strip HTML tags
+  const textContent = content.replace(/<[^>]*>/g, '');
+  
+  // Get first paragraph or first 160 characters
+  const firstParagraph = textContent.split('\n\n')[0];
+  const excerpt = firstParagraph.length > maxLength 
+    ? firstParagraph.substring(0, maxLength - 3) + '...'
+    : firstParagraph;
+    
+  return excerpt.trim();
+}
+
+function pluralize(singularName: string): string {
+  if (singularName.endsWith('y') && !['ay', 'ey', 'oy', 'uy'].some(suffix => singularName.endsWith(suffix))) {
+    return singularName.slice(0, -1) + 'ies';
+  }
+  if (['s', 'sh', 'ch', 'x', 'z'].some(suffix => singularName.endsWith(suffix))) {
+    return singularName + 'es';
+  }
+  return singularName + 's';
+}
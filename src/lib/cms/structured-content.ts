@@ -0,0 +1,197 @@
+/**
+ * Structured Content Utility
+ *
+ * Breaks article HTML into a flat list of blocks with inline spans, the shape the
+ * structured-body CMSs (Contentful Rich Text, Sanity Portable Text) and the Markdown
+ * writer of the Git provider build their own formats from.
+ */
+
+import * as cheerio from 'cheerio';
+
+export type InlineMark = 'strong' | 'em' | 'code';
+
+export interface InlineSpan {
+  text: string;
+  marks: InlineMark[];
+  href?: string;
+}
+
+export type ContentBlock =
+  | { type: 'heading'; level: number; spans: InlineSpan[] }
+  | { type: 'paragraph'; spans: InlineSpan[] }
+  | { type: 'list-item'; ordered: boolean; depth: number; spans: InlineSpan[] }
+  | { type: 'blockquote'; spans: InlineSpan[] }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'table'; rows: string[][]; hasHeader: boolean }
+  | { type: 'hr' }
+  | { type: 'html'; html: string }; // markup with no structured equivalent (embeds, JSON-LD)
+
+const CONTAINER_TAGS = new Set(['div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'body', 'span']);
+const RAW_TAGS = new Set(['script', 'iframe', 'video', 'audio', 'embed', 'object', 'style']);
+const MARK_TAGS: Record<string, InlineMark> = { strong: 'strong', b: 'strong', em: 'em', i: 'em', code: 'code' };
+
+/**
+ * Convert article HTML to blocks. Text outside any block element becomes a paragraph.
+ */
+export function htmlToBlocks(html: string): ContentBlock[] {
+  const $ = cheerio.load(html || '');
+  const blocks: ContentBlock[] = [];
+  let looseSpans: InlineSpan[] = [];
+
+  const flushLoose = () => {
+    const spans = trimSpans(looseSpans);
+    if (spans.length > 0) blocks.push({ type: 'paragraph', spans });
+    looseSpans = [];
+  };
+
+  const walk = (nodes: any[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        looseSpans.push(...collectSpans($, [node], []));
+        continue;
+      }
+      if (node.type !== 'tag' && node.type !== 'script' && node.type !== 'style') continue;
+
+      const tag = (node.tagName || node.name || '').toLowerCase();
+
+      if (MARK_TAGS[tag] || tag === 'a' || tag === 'br') {
+        looseSpans.push(...collectSpans($, [node], []));
+        continue;
+      }
+
+      flushLoose();
+
+      if (/^h[1-6]$/.test(tag)) {
+        const spans = trimSpans(collectSpans($, $(node).contents().toArray(), []));
+        if (spans.length > 0) blocks.push({ type: 'heading', level: Number(tag[1]), spans });
+      } else if (tag === 'p') {
+        const images = $(node).find('img').toArray();
+        const spans = trimSpans(collectSpans($, $(node).contents().toArray(), []));
+        images.forEach(img => blocks.push(imageBlock($, img)));
+        if (spans.length > 0) blocks.push({ type: 'paragraph', spans });
+      } else if (tag === 'ul' || tag === 'ol') {
+        walkList(node, tag === 'ol', 0);
+      } else if (tag === 'blockquote') {
+        const spans = trimSpans(collectSpans($, $(node).contents().toArray(), []));
+        if (spans.length > 0) blocks.push({ type: 'blockquote', spans });
+      } else if (tag === 'pre') {
+        const code = $(node).find('code').first();
+        const language = (code.attr('class') || '').match(/language-([\w-]+)/)?.[1];
+        blocks.push({ type: 'code', text: (code.length ? code : $(node)).text(), language });
+      } else if (tag === 'img') {
+        blocks.push(imageBlock($, node));
+      } else if (tag === 'figure') {
+        const img = $(node).find('img').first();
+        if (img.length) {
+          const block = imageBlock($, img.get(0));
+          const caption = $(node).find('figcaption').text().trim();
+          blocks.push(caption && !block.alt ? { ...block, alt: caption } : block);
+        } else {
+          walk($(node).contents().toArray());
+        }
+      } else if (tag === 'table') {
+        const rows = $(node).find('tr').toArray().map(row =>
+          $(row).children('th, td').toArray().map(cell => $(cell).text().replace(/\s+/g, ' ').trim())
+        ).filter(row => row.length > 0);
+        if (rows.length > 0) {
+          blocks.push({ type: 'table', rows, hasHeader: $(node).find('tr').first().children('th').length > 0 });
+        }
+      } else if (tag === 'hr') {
+        blocks.push({ type: 'hr' });
+      } else if (RAW_TAGS.has(tag)) {
+        blocks.push({ type: 'html', html: $.html(node) });
+      } else if (CONTAINER_TAGS.has(tag) || tag === 'html' || tag === 'head') {
+        walk($(node).contents().toArray());
+      } else {
+        const spans = trimSpans(collectSpans($, $(node).contents().toArray(), []));
+        if (spans.length > 0) blocks.push({ type: 'paragraph', spans });
+      }
+    }
+    flushLoose();
+  };
+
+  const walkList = (list: any, ordered: boolean, depth: number) => {
+    for (const item of $(list).children('li').toArray()) {
+      const nested = $(item).children('ul, ol').toArray();
+      const ownContent = $(item).contents().toArray().filter(child => !nested.includes(child));
+      const spans = trimSpans(collectSpans($, ownContent, []));
+      if (spans.length > 0) blocks.push({ type: 'list-item', ordered, depth, spans });
+      nested.forEach((child: any) => walkList(child, (child.tagName || child.name) === 'ol', depth + 1));
+    }
+  };
+
+  walk($.root().contents().toArray());
+  return blocks;
+}
+
+/**
+ * Plain text of a list of spans
+ */
+export function spansToText(spans: InlineSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
+
+function collectSpans($: ReturnType<typeof cheerio.load>, nodes: any[], marks: InlineMark[], href?: string): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      const text = (node.data || '').replace(/\s+/g, ' ');
+      if (text) spans.push({ text, marks, ...(href ? { href } : {}) });
+      continue;
+    }
+    if (node.type !== 'tag') continue;
+
+    const tag = (node.tagName || node.name || '').toLowerCase();
+    if (tag === 'br') {
+      spans.push({ text: '\n', marks, ...(href ? { href } : {}) });
+    } else if (tag === 'img' || RAW_TAGS.has(tag)) {
+      continue;
+    } else if (MARK_TAGS[tag]) {
+      const mark = MARK_TAGS[tag];
+      const nextMarks = marks.includes(mark) ? marks : [...marks, mark];
+      spans.push(...collectSpans($, $(node).contents().toArray(), nextMarks, href));
+    } else if (tag === 'a') {
+      spans.push(...collectSpans($, $(node).contents().toArray(), marks, $(node).attr('href') || href));
+    } else {
+      spans.push(...collectSpans($, $(node).contents().toArray(), marks, href));
+    }
+  }
+
+  return mergeSpans(spans);
+}
+
+function imageBlock($: ReturnType<typeof cheerio.load>, node: any): { type: 'image'; src: string; alt: string } {
+  return { type: 'image', src: $(node).attr('src') || '', alt: $(node).attr('alt') || '' };
+}
+
+/**
+ * Join neighbouring spans with identical formatting
+ */
+function mergeSpans(spans: InlineSpan[]): InlineSpan[] {
+  const merged: InlineSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && last.href === span.href && last.marks.join() === span.marks.join()) {
+      last.text += span.text;
+    } else {
+      merged.push({ ...span, marks: [...span.marks] });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Drop leading/trailing whitespace of a block and empty spans
+ */
+function trimSpans(spans: InlineSpan[]): InlineSpan[] {
+  const result = mergeSpans(spans);
+  if (result.length === 0) return result;
+
+  result[0].text = result[0].text.replace(/^\s+/, '');
+  const last = result[result.length - 1];
+  last.text = last.text.replace(/\s+$/, '');
+
+  return result.filter(span => span.text.length > 0);
+}
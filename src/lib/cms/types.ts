@@ -1,14 +1,30 @@
 // CMS Integration Types - Modular system for 1-click CMS connections
 
-export type CMSType = 'wordpress' | 'wordpress_com' | 'webflow' | 'shopify' | 'strapi' | 'ghost';
+export type CMSType = 'wordpress' | 'wordpress_com' | 'webflow' | 'shopify' | 'strapi' | 'ghost' | 'contentful' | 'sanity' | 'git' | 'webhook';
 
 export interface CMSCredentials {
-  accessToken: string; // For Ghost: Admin API Key (format: id:secret)
+  accessToken: string; // For Ghost: Admin API Key (format: id:secret); for Webhook: HMAC signing secret
   refreshToken?: string;
   siteUrl?: string; // For WordPress, Ghost
   siteId?: string; // For Webflow
   shopDomain?: string; // For Shopify
   strapiUrl?: string; // For Strapi
+  contentType?: string; // For Strapi: collection to publish into (e.g. api::blog-post.blog-post); Contentful content type ID; Sanity document type
+  spaceId?: string; // For Contentful
+  environmentId?: string; // For Contentful (default: master)
+  locale?: string; // Content locale: Contentful locale (default: the space's default), Strapi i18n locale; set per article for translations
+  projectId?: string; // For Sanity
+  dataset?: string; // For Sanity (default: production)
+  studioUrl?: string; // For Sanity: where the Studio is hosted, for admin links
+  repoUrl?: string; // For Git: https or SSH URL of the content repository
+  branch?: string; // For Git (default: main)
+  contentDir?: string; // For Git: directory holding the posts (default: content/posts)
+  publishMode?: 'commit' | 'pull_request'; // For Git (default: commit)
+  commitAuthor?: { name: string; email: string }; // For Git
+  webhookUrl?: string; // For Webhook: endpoint that receives signed article events
+  fieldMapping?: { [field: string]: string }; // Contentful/Sanity field IDs and Git frontmatter keys, per CMSArticle field
+  postUrlPattern?: string; // Public URL of a post with {slug}, for CMSs that don't render the site (default: {siteUrl}/blog/{slug})
+  connectionId?: string; // cms_connections id the credentials were loaded from
   username?: string; // For WordPress
   expiresAt?: Date;
   scope?: string;
@@ -51,6 +67,8 @@ export interface CMSArticle {
     keywords?: string[];
   };
   url?: string;
+  adminUrl?: string; // Where the article can be edited in the CMS
+  language?: string; // BCP 47 language, for CMSs that tag posts with one (Polylang, Sanity, Git frontmatter, webhook)
   customFields?: {
     [key: string]: any;
   };
@@ -0,0 +1,61 @@
+/**
+ * WordPress Content Utility
+ *
+ * Normalizes generated article HTML before it is sent to WordPress.com or self-hosted WordPress
+ */
+
+/**
+ * Clean HTML content for WordPress publishing
+ * Fixes malformed HTML structure, especially images wrapped in header tags
+ */
+export function cleanHtmlForWordPress(content: string): string {
+  let cleaned = content.trim();
+
+  // Fix: <h2><figure>...</figure>Text</h2> → <figure>...</figure><h2>Text</h2>
+  // This handles the case where images are nested inside header tags with text following
+  cleaned = cleaned.replace(/<h([1-6])>\s*(<figure[^>]*>[\s\S]*?<\/figure>)\s*(.*?)<\/h\1>/g, '$2<h$1>$3</h$1>');
+
+  // Fix: <h2><figure>...</figure></h2><p>Text</p> → <figure>...</figure><h2>Text</h2>
+  // This handles the case where the header text is in a following paragraph
+  cleaned = cleaned.replace(/<h([1-6])>\s*(<figure[^>]*>[\s\S]*?<\/figure>)\s*<\/h\1>\s*<p>([^<]+)<\/p>/g, '$2<h$1>$3</h$1>');
+
+  // Fix images wrapped in header tags with just figure (e.g., <h2><figure>...</figure></h2>)
+  // Match patterns like <h2><figure>...</figure></h2> and extract just the figure
+  cleaned = cleaned.replace(/<h([1-6])>\s*(<figure[^>]*>[\s\S]*?<\/figure>)\s*<\/h\1>/g, '$2');
+
+  // Remove duplicate header text appearing in both H2 and immediately following paragraphs
+  // Pattern: <h2>Introduction</h2><p>Introduction to the topic</p> where the header word is repeated
+  cleaned = cleaned.replace(/<h([1-6])>([^<]+)<\/h\1>\s*<p>\2([^<]*)<\/p>/g, '<h$1>$2</h$1><p>$3</p>');
+
+  // Fix headers that have content after the closing tag split incorrectly
+  // Pattern: </h2>Content</h2> should be </h2><p>Content</p>
+  cleaned = cleaned.replace(/<\/h([1-6])>([^<]+)<\/h\1>/g, '</h$1><p>$2</p>');
+
+  // Remove paragraph tags wrapping headers
+  cleaned = cleaned.replace(/<p>\s*(<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>)\s*<\/p>/g, '$1');
+
+  // Remove paragraph tags wrapping figures
+  cleaned = cleaned.replace(/<p>\s*(<figure[^>]*>[\s\S]*?<\/figure>)\s*<\/p>/g, '$1');
+
+  // Fix double-wrapped elements
+  cleaned = cleaned.replace(/<h([1-6])>\s*<h\1>/g, '<h$1>');
+  cleaned = cleaned.replace(/<\/h([1-6])>\s*<\/h\1>/g, '</h$1>');
+
+  // Fix empty header tags
+  cleaned = cleaned.replace(/<h([1-6])>\s*<\/h\1>/g, '');
+
+  // Clean up excessive whitespace between tags
+  cleaned = cleaned.replace(/>\s+</g, '><');
+
+  // Add proper spacing between block elements
+  cleaned = cleaned.replace(/<\/(h[1-6]|figure|ul|ol|blockquote)>/g, '</$1>\n');
+  cleaned = cleaned.replace(/<(h[1-6]|figure|ul|ol|blockquote)/g, '\n<$1');
+
+  // Remove empty paragraphs
+  cleaned = cleaned.replace(/<p>\s*<\/p>/g, '');
+
+  // Clean up multiple consecutive newlines
+  cleaned = cleaned.replace(/\n{3,}/g, '\n\n');
+
+  return cleaned.trim();
+}
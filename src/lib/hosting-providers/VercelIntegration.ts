@@ -10,6 +10,9 @@
  * 3. Redirects - vercel.json redirects to seoagent.com proxy
  * 4. Static Files - Direct file deployment to public directory
  * 
+ * The SEO renderer (deploySEORenderer) is separate: middleware that sends crawler requests
+ * through SEOAgent's server-side renderer.
+ * 
  * Vercel API Documentation: https://vercel.com/docs/rest-api
  */
 
@@ -112,6 +115,7 @@ export interface VercelIntegrationConfig {
   deploymentMethod: 'edge_function' | 'api_routes' | 'redirects' | 'static_files';
   sitemapProxyUrl: string;
   robotsProxyUrl: string;
+  renderProxyUrl?: string; // SEO edge renderer; defaults to the SEOAgent app's /api/seo-proxy/render
   autoDeployment?: boolean;
   targetEnvironments?: ('production' | 'preview' | 'development')[];
 }
@@ -229,6 +233,90 @@ export class VercelIntegration {
     }
   }
 
+  /**
+   * Deploy middleware that serves crawlers the server-side rendered page, with the site's
+   * meta tags, alt text, schema and canonical already in the HTML. Browsers and requests the
+   * renderer makes itself go straight to the site; if the renderer is slow or down, so do crawlers.
+   */
+  async deploySEORenderer(domain: string, websiteToken: string, userToken: string): Promise<VercelDeploymentResult> {
+    const startTime = Date.now();
+    const renderUrl = this.config.renderProxyUrl || `${process.env.NEXT_PUBLIC_APP_URL}/api/seo-proxy/render`;
+
+    console.log(`[VERCEL] Deploying SEO renderer middleware for ${domain}`);
+
+    const middleware = `
+import { NextRequest, NextResponse } from 'next/server';
+
+const RENDER_URL = '${renderUrl}';
+const WEBSITE_TOKEN = '${websiteToken}';
+const CRAWLERS = /googlebot|bingbot|yandex|baiduspider|duckduckbot|slurp|applebot|facebookexternalhit|twitterbot|linkedinbot|slackbot|discordbot|gptbot|chatgpt-user|oai-searchbot|claudebot|perplexitybot|ccbot/i;
+
+export const config = {
+  matcher: ['/((?!api|_next|.*\\\\.[a-zA-Z0-9]+$).*)'],
+};
+
+export async function middleware(req: NextRequest) {
+  const userAgent = req.headers.get('user-agent') || '';
+  if (
+    req.method !== 'GET' ||
+    req.headers.get('x-seoagent-render') || // The renderer's own fetch of this page
+    !CRAWLERS.test(userAgent) ||
+    !(req.headers.get('accept') || 'text/html').includes('text/html')
+  ) {
+    return NextResponse.next();
+  }
+
+  try {
+    const response = await fetch(
+      RENDER_URL + '?token=' + encodeURIComponent(WEBSITE_TOKEN) + '&url=' + encodeURIComponent(req.nextUrl.href),
+      { headers: { 'User-Agent': userAgent }, signal: AbortSignal.timeout(4000) }
+    );
+    if (!response.ok) return NextResponse.next();
+    return new Response(response.body, { status: response.status, headers: response.headers });
+  } catch {
+    return NextResponse.next();
+  }
+}
+`;
+
+    try {
+      const deploymentResult = await this.createDeployment({ 'middleware.ts': middleware }, {
+        name: `seo-renderer-${domain}`,
+        target: 'production',
+        meta: {
+          seoagent: 'true',
+          domain,
+          method: 'seo_renderer',
+          websiteToken,
+          userToken,
+          generatedAt: new Date().toISOString()
+        }
+      });
+
+      if (!deploymentResult.success) {
+        throw new Error(deploymentResult.error || 'SEO renderer deployment failed');
+      }
+
+      return {
+        success: true,
+        deploymentId: deploymentResult.deploymentId,
+        deploymentUrl: deploymentResult.deploymentUrl,
+        method: 'seo_renderer',
+        duration: Date.now() - startTime,
+        logs: [`SEO renderer middleware deployed; crawlers are served ${renderUrl}`]
+      };
+
+    } catch (error) {
+      console.error('[VERCEL] SEO renderer deployment failed:', error);
+      return {
+        success: false,
+        method: 'seo_renderer',
+        duration: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown deployment error'
+      };
+    }
+  }
+
   /**
    * Deploy via Vercel Edge Functions (Recommended)
    */
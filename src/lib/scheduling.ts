@@ -1,6 +1,10 @@
 /**
  * Scheduling utilities for automated content generation and publishing
  * Based on subscription plan tiers: Starter (3/week), Pro (1/day), Scale (3/day)
+ *
+ * Each website can narrow its plan's pattern with PublishingRules: an IANA timezone, publishing
+ * days and times (wall-clock in that timezone), blackout dates and a max per day/week. The plan's
+ * cadence is the ceiling - rules can never publish more often than the plan allows.
  */
 
 export type PlanTier = 'starter' | 'pro' | 'scale';
@@ -11,6 +15,30 @@ export interface SchedulePattern {
   itemsPerWeek: number;
 }
 
+export interface PublishingRules {
+  timezone: string; // IANA timezone, e.g. "America/New_York"
+  daysOfWeek: number[]; // 0 = Sunday ... 6 = Saturday, in the site's timezone
+  times: string[]; // "HH:mm" wall-clock times in the site's timezone
+  blackoutDates: string[]; // "YYYY-MM-DD" for a single day, "MM-DD" for every year (e.g. "12-25")
+  maxPerDay: number;
+  maxPerWeek: number; // Weeks start on Monday, like the content calendar
+}
+
+export interface ScheduleOptions {
+  rules?: Partial<PublishingRules> | null;
+  existing?: Date[]; // Already scheduled items; they take up slots and count toward the caps
+}
+
+export type SlotResult =
+  | { ok: true; slot: Date }
+  | { ok: false; error: string };
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BLACKOUT_PATTERN = /^(\d{4}-)?\d{2}-\d{2}$/;
+const MAX_SCHEDULE_DAYS = 90;
+
 /**
  * Get the scheduling pattern for a given plan tier
  */
@@ -58,58 +86,290 @@ export function isWeekend(date: Date): boolean {
   return day === 0 || day === 6;
 }
 
+/**
+ * Max items per day and per week a plan tier allows
+ */
+export function getPlanLimits(planTier: PlanTier): { maxPerDay: number; maxPerWeek: number } {
+  const pattern = getSchedulePattern(planTier);
+  return { maxPerDay: pattern.timesPerDay.length, maxPerWeek: pattern.itemsPerWeek };
+}
+
+/**
+ * Whether the runtime knows an IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Date().toLocaleString('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a site's rules, returning the first problem (or null when they are valid)
+ */
+export function validatePublishingRules(rules: Partial<PublishingRules>): string | null {
+  if (rules.timezone !== undefined && !isValidTimezone(rules.timezone)) {
+    return `Unknown timezone: ${rules.timezone}`;
+  }
+  if (rules.daysOfWeek !== undefined &&
+      (!Array.isArray(rules.daysOfWeek) || rules.daysOfWeek.length === 0 ||
+       rules.daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+    return 'daysOfWeek must be a non-empty list of weekday numbers 0-6';
+  }
+  if (rules.times !== undefined &&
+      (!Array.isArray(rules.times) || rules.times.length === 0 || rules.times.some(time => !TIME_PATTERN.test(time)))) {
+    return 'times must be a non-empty list of HH:mm times';
+  }
+  if (rules.blackoutDates !== undefined &&
+      (!Array.isArray(rules.blackoutDates) || rules.blackoutDates.some(date => !BLACKOUT_PATTERN.test(date)))) {
+    return 'blackoutDates must be YYYY-MM-DD or MM-DD dates';
+  }
+  for (const key of ['maxPerDay', 'maxPerWeek'] as const) {
+    const value = rules[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      return `${key} must be a positive whole number`;
+    }
+  }
+  return null;
+}
+
+/**
+ * A site's effective rules: its own settings where valid, the plan's pattern otherwise,
+ * with the caps clamped to what the plan allows
+ */
+export function resolvePublishingRules(planTier: PlanTier, rules?: Partial<PublishingRules> | null): PublishingRules {
+  const pattern = getSchedulePattern(planTier);
+  const limits = getPlanLimits(planTier);
+  const custom = rules || {};
+
+  const timezone = custom.timezone && isValidTimezone(custom.timezone) ? custom.timezone : 'UTC';
+  const daysOfWeek = Array.isArray(custom.daysOfWeek) && custom.daysOfWeek.length > 0
+    ? custom.daysOfWeek.filter(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    : pattern.daysOfWeek;
+  const times = Array.isArray(custom.times) && custom.times.some(time => TIME_PATTERN.test(time))
+    ? custom.times.filter(time => TIME_PATTERN.test(time)).sort()
+    : pattern.timesPerDay;
+
+  return {
+    timezone,
+    daysOfWeek: daysOfWeek.length > 0 ? daysOfWeek : pattern.daysOfWeek,
+    times,
+    blackoutDates: Array.isArray(custom.blackoutDates) ? custom.blackoutDates.filter(date => BLACKOUT_PATTERN.test(date)) : [],
+    maxPerDay: Math.min(custom.maxPerDay && custom.maxPerDay > 0 ? custom.maxPerDay : limits.maxPerDay, limits.maxPerDay),
+    maxPerWeek: Math.min(custom.maxPerWeek && custom.maxPerWeek > 0 ? custom.maxPerWeek : limits.maxPerWeek, limits.maxPerWeek)
+  };
+}
+
+/**
+ * Wall-clock date ("YYYY-MM-DD"), weekday and minutes past midnight of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timezone: string): { dateKey: string; weekday: number; minutes: number } {
+  const local = date.toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+  const match = local.match(/^(\w{3}),?\s+(\d{2})\/(\d{2})\/(\d{4}),?\s+(\d{1,2}):(\d{2})/);
+  if (!match) {
+    throw new Error(`Could not read date in timezone ${timezone}: ${local}`);
+  }
+
+  return {
+    dateKey: `${match[4]}-${match[2]}-${match[3]}`,
+    weekday: WEEKDAYS.indexOf(match[1]),
+    minutes: (parseInt(match[5]) % 24) * 60 + parseInt(match[6])
+  };
+}
+
+/**
+ * The instant a wall-clock date and time happens in a timezone. Times skipped by a DST change
+ * land just after the change (02:30 on spring-forward day becomes 03:30).
+ */
+export function zonedTimeToUtc(dateKey: string, time: string, timezone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // The offset at the guess is right except within a few hours of a DST change; one more pass fixes that
+  const firstPass = new Date(wallClock - getOffsetMs(new Date(wallClock), timezone));
+  const secondPass = new Date(wallClock - getOffsetMs(firstPass, timezone));
+
+  // A skipped time never reads back as itself; of the two candidates the later one lands just after the gap
+  const readBack = getZonedParts(secondPass, timezone);
+  if (readBack.dateKey === dateKey && readBack.minutes === hours * 60 + minutes) {
+    return secondPass;
+  }
+  return firstPass.getTime() > secondPass.getTime() ? firstPass : secondPass;
+}
+
+function getOffsetMs(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const [year, month, day] = parts.dateKey.split('-').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, Math.floor(parts.minutes / 60), parts.minutes % 60);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Monday of the week a date belongs to
+ */
+function getWeekKey(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return addDaysToDateKey(dateKey, -((weekday + 6) % 7));
+}
+
+export function isBlackoutDate(dateKey: string, rules: Pick<PublishingRules, 'blackoutDates'>): boolean {
+  return rules.blackoutDates.some(date => date === dateKey || date === dateKey.slice(5));
+}
+
+/**
+ * Why no item can be published on a date, or null when the day is open
+ */
+export function getClosedDayReason(dateKey: string, rules: PublishingRules): string | null {
+  if (isBlackoutDate(dateKey, rules)) {
+    return `${dateKey} is a blackout date`;
+  }
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (!rules.daysOfWeek.includes(weekday)) {
+    return `${WEEKDAYS[weekday]} is not a publishing day`;
+  }
+  return null;
+}
+
+/**
+ * Tracks how many items each local day and week already holds
+ */
+class SlotLedger {
+  private perDay: Map<string, number> = new Map();
+  private perWeek: Map<string, number> = new Map();
+  private taken: Set<number> = new Set();
+
+  constructor(private rules: PublishingRules, existing: Date[] = []) {
+    existing.forEach(date => this.add(date));
+  }
+
+  add(date: Date) {
+    const { dateKey } = getZonedParts(date, this.rules.timezone);
+    const weekKey = getWeekKey(dateKey);
+    this.perDay.set(dateKey, (this.perDay.get(dateKey) || 0) + 1);
+    this.perWeek.set(weekKey, (this.perWeek.get(weekKey) || 0) + 1);
+    this.taken.add(Math.floor(date.getTime() / 60000));
+  }
+
+  capReason(dateKey: string): string | null {
+    if ((this.perDay.get(dateKey) || 0) >= this.rules.maxPerDay) {
+      return `${dateKey} already has ${this.rules.maxPerDay} item(s) scheduled (max per day)`;
+    }
+    if ((this.perWeek.get(getWeekKey(dateKey)) || 0) >= this.rules.maxPerWeek) {
+      return `The week of ${getWeekKey(dateKey)} already has ${this.rules.maxPerWeek} item(s) scheduled (max per week)`;
+    }
+    return null;
+  }
+
+  isTaken(date: Date): boolean {
+    return this.taken.has(Math.floor(date.getTime() / 60000));
+  }
+}
+
 /**
  * Calculate schedule dates for a given number of items based on plan tier
- * Starts from tomorrow and distributes evenly according to plan pattern
+ * Starts from tomorrow (in the site's timezone) and fills the publishing slots in order,
+ * skipping blackout dates and days or weeks that already hit their cap
  */
 export function calculateSchedule(
   itemCount: number,
   planTier: PlanTier,
-  startDate?: Date
+  startDate?: Date,
+  options: ScheduleOptions = {}
 ): Date[] {
   const schedule: Date[] = [];
-  const pattern = getSchedulePattern(planTier);
+  const rules = resolvePublishingRules(planTier, options.rules);
+  const ledger = new SlotLedger(rules, options.existing);
 
   // Start from tomorrow if not specified
-  const start = startDate || new Date();
-  start.setDate(start.getDate() + 1);
-  start.setHours(0, 0, 0, 0); // Reset to midnight
-
-  let currentDate = new Date(start);
-  let timeIndex = 0;
-  let itemsScheduled = 0;
-
-  // Generate schedule dates
-  while (itemsScheduled < itemCount) {
-    const dayOfWeek = currentDate.getDay();
-
-    // Check if current day is in the allowed days for this plan
-    if (pattern.daysOfWeek.includes(dayOfWeek)) {
-      // Schedule items for each time slot on this day
-      for (const time of pattern.timesPerDay) {
-        if (itemsScheduled >= itemCount) break;
-
-        const [hours, minutes] = time.split(':').map(Number);
-        const scheduledDate = new Date(currentDate);
-        scheduledDate.setHours(hours, minutes, 0, 0);
-
-        schedule.push(scheduledDate);
-        itemsScheduled++;
-      }
-    }
+  const firstDay = addDaysToDateKey(getZonedParts(startDate || new Date(), rules.timezone).dateKey, 1);
+
+  for (let offset = 0; offset < MAX_SCHEDULE_DAYS && schedule.length < itemCount; offset++) {
+    const dateKey = addDaysToDateKey(firstDay, offset);
+    if (getClosedDayReason(dateKey, rules)) continue;
+
+    for (const time of rules.times) {
+      if (schedule.length >= itemCount || ledger.capReason(dateKey)) break;
 
-    // Move to next day
-    currentDate.setDate(currentDate.getDate() + 1);
+      const slot = zonedTimeToUtc(dateKey, time, rules.timezone);
+      if (ledger.isTaken(slot)) continue;
 
-    // Safety check: don't schedule more than 90 days out
-    if (currentDate.getTime() - start.getTime() > 90 * 24 * 60 * 60 * 1000) {
-      break;
+      schedule.push(slot);
+      ledger.add(slot);
     }
   }
 
   return schedule;
 }
 
+/**
+ * First free publishing slot on a calendar day ("YYYY-MM-DD" in the site's timezone),
+ * used when an item is dropped onto a day in the content calendar
+ */
+export function findSlotOnDate(
+  dateKey: string,
+  planTier: PlanTier,
+  options: ScheduleOptions & { now?: Date } = {}
+): SlotResult {
+  if (!DATE_KEY_PATTERN.test(dateKey)) {
+    return { ok: false, error: 'Date must be YYYY-MM-DD' };
+  }
+
+  const rules = resolvePublishingRules(planTier, options.rules);
+  const now = options.now || new Date();
+  if (dateKey < getZonedParts(now, rules.timezone).dateKey) {
+    return { ok: false, error: 'Cannot schedule content for past dates' };
+  }
+
+  const closedReason = getClosedDayReason(dateKey, rules);
+  if (closedReason) {
+    return { ok: false, error: closedReason };
+  }
+
+  const ledger = new SlotLedger(rules, options.existing);
+  const capReason = ledger.capReason(dateKey);
+  if (capReason) {
+    return { ok: false, error: capReason };
+  }
+
+  for (const time of rules.times) {
+    const slot = zonedTimeToUtc(dateKey, time, rules.timezone);
+    if (slot.getTime() > now.getTime() && !ledger.isTaken(slot)) {
+      return { ok: true, slot };
+    }
+  }
+
+  return { ok: false, error: `No publishing times left on ${dateKey}` };
+}
+
+/**
+ * Whether an exact instant may be used: right weekday, not a blackout date and under the caps
+ */
+export function checkSlot(slot: Date, planTier: PlanTier, options: ScheduleOptions = {}): SlotResult {
+  const rules = resolvePublishingRules(planTier, options.rules);
+  const { dateKey } = getZonedParts(slot, rules.timezone);
+  const reason = getClosedDayReason(dateKey, rules) || new SlotLedger(rules, options.existing).capReason(dateKey);
+  return reason ? { ok: false, error: reason } : { ok: true, slot };
+}
+
 /**
  * Format a schedule summary for display
  */
@@ -117,7 +377,8 @@ export function formatScheduleSummary(
   briefCount: number,
   articleCount: number,
   schedules: Date[],
-  planTier: PlanTier
+  planTier: PlanTier,
+  rules?: Partial<PublishingRules> | null
 ): string {
   const totalItems = briefCount + articleCount;
   const pattern = getSchedulePattern(planTier);
@@ -129,12 +390,15 @@ export function formatScheduleSummary(
   const firstDate = schedules[0];
   const lastDate = schedules[schedules.length - 1];
 
+  const resolved = resolvePublishingRules(planTier, rules);
   const dateFormat = new Intl.DateTimeFormat('en-US', {
     weekday: 'short',
     month: 'short',
     day: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
+    timeZone: resolved.timezone,
+    timeZoneName: 'short',
   });
 
   let summary = `✅ **Scheduled ${totalItems} items!**\n\n`;
@@ -156,37 +420,52 @@ export function formatScheduleSummary(
   summary += '\n\n';
 
   // Add pattern description
-  switch (planTier) {
-    case 'starter':
-      summary += '📅 Publishing **3 times per week** (Mon, Wed, Fri at 9:00 AM)';
-      break;
-    case 'pro':
-      summary += '📅 Publishing **once daily** at 9:00 AM';
-      break;
-    case 'scale':
-      summary += '📅 Publishing **3 times daily** (9:00 AM, 1:00 PM, 5:00 PM)';
-      break;
+  if (rules && Object.keys(rules).length > 0) {
+    summary += `📅 Publishing **${describePublishingRules(resolved)}**`;
+  } else {
+    switch (planTier) {
+      case 'starter':
+        summary += '📅 Publishing **3 times per week** (Mon, Wed, Fri at 9:00 AM)';
+        break;
+      case 'pro':
+        summary += '📅 Publishing **once daily** at 9:00 AM';
+        break;
+      case 'scale':
+        summary += '📅 Publishing **3 times daily** (9:00 AM, 1:00 PM, 5:00 PM)';
+        break;
+    }
   }
 
   return summary;
 }
 
+/**
+ * "Mon, Wed, Fri at 09:00 (America/New_York), max 3/week"
+ */
+export function describePublishingRules(rules: PublishingRules): string {
+  const days = rules.daysOfWeek.length === 7
+    ? 'every day'
+    : rules.daysOfWeek.slice().sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(day => WEEKDAYS[day]).join(', ');
+  return `${days} at ${rules.times.join(', ')} (${rules.timezone}), max ${rules.maxPerDay}/day and ${rules.maxPerWeek}/week`;
+}
+
 /**
  * Get next N schedule dates for a plan tier
  */
 export function getNextScheduleDates(
   count: number,
   planTier: PlanTier,
-  startDate?: Date
+  startDate?: Date,
+  options: ScheduleOptions = {}
 ): Date[] {
-  return calculateSchedule(count, planTier, startDate);
+  return calculateSchedule(count, planTier, startDate, options);
 }
 
 /**
- * Check if a date matches the plan's schedule pattern
+ * Check if a date matches the plan's schedule pattern (or the site's rules, in its timezone)
  */
-export function isScheduledDay(date: Date, planTier: PlanTier): boolean {
-  const pattern = getSchedulePattern(planTier);
-  const dayOfWeek = date.getDay();
-  return pattern.daysOfWeek.includes(dayOfWeek);
+export function isScheduledDay(date: Date, planTier: PlanTier, rules?: Partial<PublishingRules> | null): boolean {
+  const resolved = resolvePublishingRules(planTier, rules);
+  const { dateKey } = getZonedParts(date, resolved.timezone);
+  return getClosedDayReason(dateKey, resolved) === null;
 }
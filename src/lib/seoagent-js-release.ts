@@ -0,0 +1,67 @@
+/**
+ * SEOAgent.js releases
+ * Reads the release manifest written by packages/seoagent-js/build.js and builds install snippets
+ */
+
+import manifest from '../../public/seoagent/versions.json';
+
+const SCRIPT_ORIGIN = 'https://seoagent.com';
+
+export interface SEOAgentJSRelease {
+  version: string;
+  url: string;
+  integrity: string;
+  size: number;
+  builtAt: string;
+}
+
+const releases = manifest.versions as Record<string, Omit<SEOAgentJSRelease, 'version' | 'url'> & { path: string }>;
+
+export function getRelease(version: string): SEOAgentJSRelease | null {
+  const release = releases[version];
+  if (!release) return null;
+
+  return {
+    version,
+    url: `${SCRIPT_ORIGIN}${release.path}`,
+    integrity: release.integrity,
+    size: release.size,
+    builtAt: release.builtAt
+  };
+}
+
+export function getLatestRelease(): SEOAgentJSRelease {
+  return getRelease(manifest.latest)!;
+}
+
+/**
+ * Whether an installed version is behind the latest release (unknown versions count as outdated)
+ */
+export function isOutdated(version: string | null): boolean {
+  if (!version) return false;
+
+  const installed = version.split('.').map(Number);
+  const latest = manifest.latest.split('.').map(Number);
+  if (installed.some(isNaN)) return true;
+
+  for (let i = 0; i < 3; i++) {
+    if ((installed[i] || 0) !== (latest[i] || 0)) return (installed[i] || 0) < (latest[i] || 0);
+  }
+  return false;
+}
+
+/**
+ * Install snippet for a site
+ * - Default: /seoagent.js, which always serves the latest release
+ * - Pinned: the versioned release with its integrity hash, updated only when the site updates the snippet
+ */
+export function buildInstallSnippet(websiteToken: string, options: { pinned?: boolean } = {}): string {
+  const tokenScript = `<script>\n  // Define your website token\n  const idv = "${websiteToken}";\n</script>`;
+
+  if (!options.pinned) {
+    return `${tokenScript}\n<script src="${SCRIPT_ORIGIN}/seoagent.js" defer></script>`;
+  }
+
+  const release = getLatestRelease();
+  return `${tokenScript}\n<script src="${release.url}" integrity="${release.integrity}" crossorigin="anonymous" defer></script>`;
+}
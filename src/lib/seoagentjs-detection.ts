@@ -3,11 +3,18 @@
  * Checks if SEOAgent.js is properly installed and functioning on a website
  */
 
+// Pinned installs load /seoagent/<version>/seoagent.js
+const VERSIONED_SCRIPT_REGEX = /\/seoagent\/(\d+\.\d+\.\d+(?:-[0-9A-Za-z.]+)?)\/seoagent\.js/i;
+// Banner written by packages/seoagent-js/build.js
+const SCRIPT_BANNER_REGEX = /^\/\*! SEOAgent\.js v(\S+) /;
+
 export interface SmartJSStatus {
   installed: boolean;
   active: boolean;
   scriptFound: boolean;
   idvFound: boolean;
+  version: string | null; // Installed seoagent.js version, from a versioned URL or the script's banner
+  pinned: boolean; // Loaded from a versioned release URL rather than /seoagent.js
   error?: string;
   lastChecked: Date;
 }
@@ -21,6 +28,8 @@ export async function checkSmartJSInstallation(websiteUrl: string): Promise<Smar
     active: false,
     scriptFound: false,
     idvFound: false,
+    version: null,
+    pinned: false,
     lastChecked: new Date()
   };
 
@@ -73,6 +82,15 @@ export async function checkSmartJSInstallation(websiteUrl: string): Promise<Smar
       result.scriptFound = true;
       result.installed = true;
       console.log(`[SEOAGENT DETECTION] Script found: ${seoAgentMatch[1]}`);
+
+      const versionedMatch = seoAgentMatch[1].match(VERSIONED_SCRIPT_REGEX);
+      if (versionedMatch) {
+        result.pinned = true;
+        result.version = versionedMatch[1];
+      } else {
+        result.version = await fetchScriptVersion(new URL(seoAgentMatch[1], websiteUrl).toString());
+      }
+      console.log(`[SEOAGENT DETECTION] Version: ${result.version || 'unknown'}${result.pinned ? ' (pinned)' : ''}`);
     }
 
     // Check for IDV configuration
@@ -90,6 +108,7 @@ export async function checkSmartJSInstallation(websiteUrl: string): Promise<Smar
     console.log(`[SEOAGENT DETECTION] Final status for ${websiteUrl}:`, {
       scriptFound: result.scriptFound,
       idvFound: result.idvFound, 
+      version: result.version,
       active: result.active
     });
 
@@ -102,6 +121,31 @@ export async function checkSmartJSInstallation(websiteUrl: string): Promise<Smar
   }
 }
 
+/**
+ * Read the version from the banner of a built seoagent.js (builds before 2.0.0 have none)
+ */
+async function fetchScriptVersion(scriptUrl: string): Promise<string | null> {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+    const response = await fetch(scriptUrl, {
+      headers: { 'User-Agent': 'SEOAgent-Detection/1.0 (+https://seoagent.com/detection)' },
+      signal: controller.signal
+    });
+    clearTimeout(timeoutId);
+
+    if (!response.ok) return null;
+
+    const source = await response.text();
+    const bannerMatch = source.slice(0, 200).match(SCRIPT_BANNER_REGEX);
+    return bannerMatch ? bannerMatch[1] : null;
+  } catch (error) {
+    console.warn(`[SEOAGENT DETECTION] Could not read script version from ${scriptUrl}:`, error);
+    return null;
+  }
+}
+
 /**
  * Check smart.js status for multiple websites in parallel
  */
@@ -114,6 +114,23 @@ export class DomainUtils {
     return this.cleanDomain(urlOrDomain);
   }
 
+  /**
+   * Check if a URL is on a site's domain (with or without www)
+   * @param url - Absolute URL
+   * @param domain - Site domain in any format
+   * @returns true if the URL's host is the site's domain
+   */
+  static isOnDomain(url: string, domain: string): boolean {
+    const siteDomain = this.extractDomain(domain || '').replace(/\/.*$/, '').toLowerCase();
+    if (!siteDomain) return false;
+
+    try {
+      return this.cleanDomain(new URL(url).hostname.toLowerCase()) === siteDomain;
+    } catch (error) {
+      return false;
+    }
+  }
+
   /**
    * Validate if a domain is valid for URL construction
    * @param domain - Domain to validate
@@ -0,0 +1,82 @@
+/**
+ * Public Address Utility
+ *
+ * Checks that a URL the server is about to fetch points at the public internet, not at the
+ * server's own network: loopback, private ranges, link-local (cloud metadata) and the like.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// [network, prefix length]
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including 169.254.169.254 metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4] // Reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+function isBlockedIPv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the IPv4 address
+  const embedded = normalized.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isBlockedIPv4(embedded[1]);
+
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    normalized.startsWith('::ffff:') ||
+    /^f[cd]/.test(normalized) || // Unique local fc00::/7
+    /^fe[89ab]/.test(normalized) || // Link-local fe80::/10
+    normalized.startsWith('ff') // Multicast
+  );
+}
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return !isBlockedIPv4(address);
+  if (version === 6) return !isBlockedIPv6(address);
+  return false;
+}
+
+/**
+ * Resolve a URL's host and throw unless every address it resolves to is public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Only http(s) URLs can be fetched: ${url}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map(entry => entry.address);
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`${parsed.hostname} does not resolve to a public address`);
+  }
+}
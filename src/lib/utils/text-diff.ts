@@ -0,0 +1,148 @@
+/**
+ * Text Diff Utility
+ *
+ * Line-level diff (longest common subsequence) for reviewing article revisions.
+ * HTML is split into one line per block element so edits show up paragraph by paragraph.
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface SideBySideRow {
+  type: 'same' | 'changed' | 'added' | 'removed';
+  left: string | null;
+  right: string | null;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Above this many line pairs the LCS table gets too large; fall back to a whole replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split HTML into one line per block-level element
+ */
+export function htmlToLines(html: string): string[] {
+  return (html || '')
+    .replace(/(<\/(?:p|h[1-6]|li|ul|ol|figure|blockquote|table|tr|div|section|pre)>)/gi, '$1\n')
+    .replace(/(<(?:br|hr)\s*\/?>)/gi, '$1\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Diff two lists of lines
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Trim the common prefix and suffix so the LCS only covers the edited region
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const head: DiffLine[] = before.slice(0, start).map(text => ({ type: 'same' as const, text }));
+  const tail: DiffLine[] = before.slice(endBefore).map(text => ({ type: 'same' as const, text }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return head
+      .concat(a.map(text => ({ type: 'removed' as const, text })))
+      .concat(b.map(text => ({ type: 'added' as const, text })))
+      .concat(tail);
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = new Array(b.length + 1).fill(0);
+    if (i === a.length) continue;
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: 'removed', text: a[i++] });
+    } else {
+      middle.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) middle.push({ type: 'added', text: b[j++] });
+
+  return head.concat(middle).concat(tail);
+}
+
+/**
+ * Diff two HTML documents block by block
+ */
+export function diffHtml(before: string, after: string): DiffLine[] {
+  return diffLines(htmlToLines(before), htmlToLines(after));
+}
+
+/**
+ * Pair a diff into left/right rows. Removed lines followed by added lines are shown
+ * side by side as changes; the rest of either run stays one-sided.
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type === 'same') {
+      rows.push({ type: 'same', left: lines[i].text, right: lines[i].text });
+      i++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++].text);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++].text);
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? removed[k] : null;
+      const right = k < added.length ? added[k] : null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return rows;
+}
+
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  return lines.reduce(
+    (summary, line) => {
+      if (line.type === 'added') summary.added++;
+      else if (line.type === 'removed') summary.removed++;
+      else summary.unchanged++;
+      return summary;
+    },
+    { added: 0, removed: 0, unchanged: 0 }
+  );
+}
@@ -12,6 +12,18 @@ export interface FunctionCallResult {
   error?: string;
 }
 
+/**
+ * Progress of a long-running function, streamed to the chat while it runs
+ */
+export interface ToolProgressUpdate {
+  step: string; // What the function is doing now, e.g. "Generating article content"
+  stepIndex?: number;
+  totalSteps?: number;
+  data?: any; // Partial result available so far
+}
+
+export type ToolProgressReporter = (update: ToolProgressUpdate) => void;
+
 // Browser environment helper
 function isBrowser(): boolean {
   return typeof window !== 'undefined';
@@ -139,9 +151,9 @@ export abstract class BaseAbility {
 
   /**
    * Abstract method that each ability must implement
-   * Executes a function call for this ability
+   * Executes a function call for this ability; long-running functions report steps through onProgress
    */
-  abstract executeFunction(name: string, args: any): Promise<FunctionCallResult>;
+  abstract executeFunction(name: string, args: any, onProgress?: ToolProgressReporter): Promise<FunctionCallResult>;
 }
 
 // Helper to determine base URL on the server
@@ -7,7 +7,7 @@
  * - Content publishing
  */
 
-import { BaseAbility, FunctionCallResult } from './base-ability';
+import { BaseAbility, FunctionCallResult, ToolProgressReporter } from './base-ability';
 import { ContentIntelligenceService } from '../../content/content-intelligence-service';
 import { enqueueContentGeneration } from '@/services/queue/content-producer';
 
@@ -39,13 +39,13 @@ export class ContentAbility extends BaseAbility {
     ];
   }
 
-  async executeFunction(name: string, args: any): Promise<FunctionCallResult> {
+  async executeFunction(name: string, args: any, onProgress?: ToolProgressReporter): Promise<FunctionCallResult> {
     switch (name) {
       case 'generate_article':
       case 'CONTENT_generate_article':
         return await this.generateArticle(args);
       case 'CONTENT_generate_and_publish':
-        return await this.generateAndPublish(args);
+        return await this.generateAndPublish(args, onProgress);
       case 'generate_enhanced_article':
         return await this.generateEnhancedArticle(args);
       case 'generate_article_with_internal_links':
@@ -356,7 +356,8 @@ export class ContentAbility extends BaseAbility {
     include_citations?: boolean;
     image_provider?: 'openai' | 'stability' | 'unsplash';
     num_images?: number;
-  }): Promise<FunctionCallResult> {
+  }, onProgress?: ToolProgressReporter): Promise<FunctionCallResult> {
+    const totalSteps = 3;
     try {
       // Resolve website and CMS connection
       const sitesResponse = await this.fetchAPI(`/api/websites?userToken=${this.userToken}`);
@@ -373,6 +374,7 @@ export class ContentAbility extends BaseAbility {
       const cms = cmsResp?.connections?.[0];
 
       // Step 1: create article
+      onProgress?.({ step: 'Creating article', stepIndex: 1, totalSteps });
       const createResp = await this.fetchAPI('/api/articles', {
         method: 'POST',
         body: JSON.stringify({
@@ -387,6 +389,7 @@ export class ContentAbility extends BaseAbility {
       const articleId = createResp.article.id;
 
       // Step 2: generate enhanced content (SVS-oriented)
+      onProgress?.({ step: 'Generating article content', stepIndex: 2, totalSteps, data: { articleId, websiteId } });
       const genResp = await this.fetchAPI('/api/articles/generate', {
         method: 'POST',
         body: JSON.stringify({
@@ -409,6 +412,7 @@ export class ContentAbility extends BaseAbility {
       // Step 3: publish
       let publishDetails: any = {};
       if (args.publish !== false && cms?.id) {
+        onProgress?.({ step: 'Publishing to your CMS', stepIndex: 3, totalSteps, data: { articleId, websiteId } });
         const pubResp = await this.fetchAPI('/api/articles/publish', {
           method: 'POST',
           body: JSON.stringify({
@@ -441,8 +445,8 @@ export class ContentAbility extends BaseAbility {
           status: 'completed',
           estimatedTime: 'Completed',
           currentStep: args.publish === false ? 'Generation complete' : 'Published',
-          totalSteps: 3,
-          currentStepIndex: 3,
+          totalSteps,
+          currentStepIndex: totalSteps,
           links
         }
       };
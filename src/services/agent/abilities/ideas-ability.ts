@@ -19,7 +19,9 @@ export class IdeasAbility extends BaseAbility {
       'get_ideas',
       'update_idea',
       'delete_idea',
-      'track_idea_progress'
+      'track_idea_progress',
+      'rollback_changes',
+      'run_workflow'
     ];
   }
 
@@ -39,6 +41,10 @@ export class IdeasAbility extends BaseAbility {
         return await this.deleteIdea(args);
       case 'track_idea_progress':
         return await this.trackIdeaProgress(args);
+      case 'rollback_changes':
+        return await this.rollbackChanges(args);
+      case 'run_workflow':
+        return await this.runWorkflow(args);
       default:
         return this.error(`Unknown ideas function: ${name}`);
     }
@@ -271,4 +277,88 @@ export class IdeasAbility extends BaseAbility {
       return this.error('Failed to track idea progress', error);
     }
   }
+
+  /**
+   * Roll back a run or a single patch; without ids, list recent patches that can be rolled back
+   */
+  private async rollbackChanges(args: {
+    run_id?: string;
+    patch_id?: string;
+    reason?: string;
+    force?: boolean;
+  }): Promise<FunctionCallResult> {
+    try {
+      if (!this.userToken) {
+        return this.error('User token is required to roll back changes');
+      }
+
+      if (!args.run_id && !args.patch_id) {
+        const params = new URLSearchParams({ userToken: this.userToken, limit: '20' });
+        const response = await this.fetchAPI(`/api/agent/rollback?${params.toString()}`, { method: 'GET' });
+        return response.success ?
+          this.success(response) :
+          this.error(response.error || 'Failed to list patches');
+      }
+
+      const response = await this.fetchAPI('/api/agent/rollback', {
+        method: 'POST',
+        body: JSON.stringify({
+          userToken: this.userToken,
+          runId: args.run_id,
+          patchId: args.patch_id,
+          reason: args.reason,
+          force: args.force ?? false
+        })
+      });
+
+      return response.success ?
+        this.success(response) :
+        this.error(response.error || 'Rollback failed');
+    } catch (error) {
+      return this.error('Failed to roll back changes', error);
+    }
+  }
+
+  /**
+   * Run or schedule a workflow template for a site; without a workflow id, list the available ones
+   */
+  private async runWorkflow(args: {
+    site_url: string;
+    workflow_id?: string;
+    version?: number;
+    schedule?: 'daily' | 'weekly' | 'monthly';
+  }): Promise<FunctionCallResult> {
+    try {
+      if (!this.userToken) {
+        return this.error('User token is required to run workflows');
+      }
+
+      if (!args.workflow_id) {
+        const params = new URLSearchParams({ userToken: this.userToken });
+        const response = await this.fetchAPI(`/api/agent/workflows?${params.toString()}`, { method: 'GET' });
+        return response.success ?
+          this.success(response) :
+          this.error(response.error || 'Failed to list workflows');
+      }
+
+      const endpoint = args.schedule ? '/api/agent/workflows/schedules' : '/api/agent/workflows/run';
+      const response = await this.fetchAPI(endpoint, {
+        method: 'POST',
+        body: JSON.stringify({
+          userToken: this.userToken,
+          siteUrl: args.site_url,
+          workflowId: args.workflow_id,
+          version: args.version,
+          frequency: args.schedule,
+          triggeredBy: 'agent'
+        })
+      });
+
+      return response.success ?
+        this.success(response) :
+        this.error(response.message || response.error || 'Workflow run failed');
+    } catch (error) {
+      return this.error('Failed to run workflow', error);
+    }
+  }
 }
@@ -5,7 +5,7 @@
  * for discovering and executing functions across all abilities.
  */
 
-import { BaseAbility, FunctionCallResult } from './base-ability';
+import { BaseAbility, FunctionCallResult, ToolProgressReporter } from './base-ability';
 import { GSCAbility } from './gsc-ability';
 import { ContentAbility } from './content-ability';
 import { PerformanceAbility } from './performance-ability';
@@ -65,7 +65,7 @@ export class AbilityRegistry {
   /**
    * Execute a function using the appropriate ability
    */
-  async executeFunction(functionName: string, args: any): Promise<FunctionCallResult> {
+  async executeFunction(functionName: string, args: any, onProgress?: ToolProgressReporter): Promise<FunctionCallResult> {
     const ability = this.functionToAbilityMap.get(functionName);
     
     if (!ability) {
@@ -76,7 +76,7 @@ export class AbilityRegistry {
     }
 
     try {
-      return await ability.executeFunction(functionName, args);
+      return await ability.executeFunction(functionName, args, onProgress);
     } catch (error) {
       console.error(`Error executing function ${functionName}:`, error);
       return {
@@ -103,7 +103,7 @@ export class AbilityRegistry {
 
 // Export the ability classes for direct use if needed
 export { BaseAbility } from './base-ability';
-export type { FunctionCallResult } from './base-ability';
+export type { FunctionCallResult, ToolProgressReporter, ToolProgressUpdate } from './base-ability';
 export * from './gsc-ability';
 export * from './content-ability';
 export * from './performance-ability';
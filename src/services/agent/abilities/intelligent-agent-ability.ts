@@ -9,7 +9,7 @@
  * - Content gap analysis
  */
 
-import { BaseAbility, FunctionCallResult } from './base-ability';
+import { BaseAbility, FunctionCallResult, ToolProgressReporter } from './base-ability';
 
 export class IntelligentAgentAbility extends BaseAbility {
   getFunctionNames(): string[] {
@@ -22,10 +22,10 @@ export class IntelligentAgentAbility extends BaseAbility {
     ];
   }
 
-  async executeFunction(name: string, args: any): Promise<FunctionCallResult> {
+  async executeFunction(name: string, args: any, onProgress?: ToolProgressReporter): Promise<FunctionCallResult> {
     switch (name) {
       case 'WEBSITE_crawl_and_analyze':
-        return await this.crawlAndAnalyzeWebsite(args);
+        return await this.crawlAndAnalyzeWebsite(args, onProgress);
 
       case 'COMPETITOR_research_and_crawl':
         return await this.researchCompetitors(args);
@@ -47,7 +47,7 @@ export class IntelligentAgentAbility extends BaseAbility {
   /**
    * Crawl and analyze a website to extract business intelligence
    */
-  private async crawlAndAnalyzeWebsite(args: any): Promise<FunctionCallResult> {
+  private async crawlAndAnalyzeWebsite(args: any, onProgress?: ToolProgressReporter): Promise<FunctionCallResult> {
     try {
       const { site_url, max_pages } = args;
 
@@ -55,6 +55,8 @@ export class IntelligentAgentAbility extends BaseAbility {
         return this.error('site_url is required for website analysis');
       }
 
+      onProgress?.({ step: `Crawling up to ${max_pages || 5} pages of ${site_url}`, stepIndex: 1, totalSteps: 2 });
+
       const response = await this.fetchAPI('/api/agent/website-analyze', {
         method: 'POST',
         body: JSON.stringify({
@@ -67,6 +69,13 @@ export class IntelligentAgentAbility extends BaseAbility {
         return this.error(response.error || 'Failed to analyze website');
       }
 
+      onProgress?.({
+        step: `Analyzed ${response.data.pages_analyzed} pages`,
+        stepIndex: 2,
+        totalSteps: 2,
+        data: { pages_analyzed: response.data.pages_analyzed }
+      });
+
       return this.success({
         business_analysis: response.data.analysis,
         pages_analyzed: response.data.pages_analyzed,
@@ -169,10 +169,10 @@ export class TechnicalSEOAbility extends BaseAbility {
       const url = args.site_url.startsWith('http') ? args.site_url : `https://${args.site_url}`;
       const res = await this.fetchAPI('/api/crawl/firecrawl', {
         method: 'POST',
-        body: JSON.stringify({ action: 'start', url, maxPages: Math.min(args.max_pages || 50, 200) })
+        body: JSON.stringify({ action: 'start', url, maxPages: Math.min(args.max_pages || 50, 200), maxDepth: args.crawl_depth, userToken: this.userToken, siteUrl: url })
       });
       if (!res.success) return this.error(res.error || 'Failed to start crawl');
-      return this.success({ job_id: res.job?.jobId || res.job?.id, status: res.job?.status || 'started' });
+      return this.success({ job_id: res.job?.jobId || res.job?.id, status: res.job?.status || 'started', provider: res.job?.provider });
     } catch (error) {
       return this.error('Failed to start crawl', error);
     }
@@ -0,0 +1,264 @@
+import { createClient } from '@supabase/supabase-js';
+import { PolicyEngine } from './policy-engine';
+import { queueManager } from '../queue/queue-manager';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface ApprovalDecision {
+  userToken: string;
+  decidedBy?: string;
+  note?: string;
+  payload?: Record<string, any>; // edited payload to approve instead of the proposed one
+}
+
+export interface ApprovalDecisionResult {
+  success: boolean;
+  approvalId: string;
+  status?: ApprovalStatus;
+  jobId?: string;
+  runId?: string | null;
+  deferredUntil?: string; // approved during the site's quiet hours; the job runs when they end
+  error?: string;
+}
+
+export class ApprovalService {
+  /**
+   * List approval requests with their action, newest first
+   */
+  static async listApprovals(
+    userToken: string,
+    filters: { siteUrl?: string; status?: ApprovalStatus | 'all'; limit?: number } = {}
+  ) {
+    let query = supabase
+      .from('agent_approvals')
+      .select(`
+        *,
+        action:agent_actions(id, title, description, payload, policy, status, priority_score)
+      `)
+      .eq('user_token', userToken)
+      .order('requested_at', { ascending: false })
+      .limit(filters.limit || 50);
+
+    const status = filters.status || 'pending';
+    if (status !== 'all') query = query.eq('status', status);
+    if (filters.siteUrl) query = query.ilike('site_url', `%${filters.siteUrl.replace(/^https?:\/\//, '').replace(/\/$/, '')}%`);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[APPROVAL SERVICE] Failed to list approvals:', error);
+      throw new Error('Failed to list approvals');
+    }
+    return data || [];
+  }
+
+  /**
+   * Approve a pending request (optionally with an edited payload) and send the action to the queue
+   */
+  static async approve(approvalId: string, decision: ApprovalDecision): Promise<ApprovalDecisionResult> {
+    const approval = await this.getPendingApproval(approvalId, decision.userToken);
+    if (!approval) {
+      return { success: false, approvalId, error: 'Approval request not found or already decided' };
+    }
+
+    const action = approval.action;
+    if (!action) {
+      return { success: false, approvalId, error: 'Action for this approval no longer exists' };
+    }
+
+    const edited = !!decision.payload;
+    const payload = decision.payload || action.payload || {};
+
+    // Every approval goes through the policy again: the site rules may have changed since the request,
+    // the site may be in quiet hours, and an edit must not sneak past them
+    const validation = await PolicyEngine.validatePolicy({
+      actionId: action.id,
+      actionType: approval.action_type,
+      userToken: decision.userToken,
+      siteUrl: approval.site_url,
+      payload
+    }, action.policy || {});
+
+    if (!validation.allowed && !validation.deferUntil) {
+      const fallback = edited ? 'Edited action is not allowed by policy' : 'Action is no longer allowed by policy';
+      return { success: false, approvalId, error: validation.reason || fallback };
+    }
+
+    const deferredUntil = validation.deferUntil;
+    const runAt = Math.max(
+      action.scheduled_for ? new Date(action.scheduled_for).getTime() : 0,
+      deferredUntil ? new Date(deferredUntil).getTime() : 0
+    );
+
+    const decidedAt = new Date().toISOString();
+
+    // Claim the request; the status filter stops two reviewers approving it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('agent_approvals')
+      .update({
+        status: 'approved',
+        decided_by: decision.decidedBy || decision.userToken,
+        decided_at: decidedAt,
+        decision_note: decision.note || null,
+        edited_payload: edited ? payload : null,
+        updated_at: decidedAt
+      })
+      .eq('id', approvalId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (claimError || !claimed || claimed.length === 0) {
+      return { success: false, approvalId, error: 'Approval request was already decided' };
+    }
+
+    await supabase
+      .from('agent_actions')
+      .update({
+        ...(edited ? { payload } : {}),
+        status: 'queued',
+        queued_at: decidedAt,
+        updated_at: decidedAt
+      })
+      .eq('id', action.id);
+
+    try {
+      const jobId = await queueManager.queueAction(
+        action.id,
+        decision.userToken,
+        approval.action_type,
+        payload,
+        { ...(validation.adjustedPolicy || action.policy || {}), requiresApproval: false },
+        {
+          priority: action.priority_score,
+          delay: Math.max(0, runAt - Date.now())
+        }
+      );
+
+      const { data: run } = await supabase
+        .from('agent_runs')
+        .select('id')
+        .eq('idempotency_key', jobId)
+        .maybeSingle();
+
+      await supabase
+        .from('agent_approvals')
+        .update({ job_id: jobId, run_id: run?.id || null })
+        .eq('id', approvalId);
+
+      await this.logDecision(approval, 'approved', decision, {
+        job_id: jobId,
+        run_id: run?.id || null,
+        edited,
+        ...(deferredUntil ? { deferred_until: deferredUntil } : {})
+      });
+
+      console.log(`[APPROVAL SERVICE] Approval ${approvalId} approved, action ${action.id} queued as ${jobId}${deferredUntil ? ` (deferred until ${deferredUntil})` : ''}`);
+      return { success: true, approvalId, status: 'approved', jobId, runId: run?.id || null, deferredUntil };
+
+    } catch (queueError) {
+      // Put everything back so the request can be approved again
+      console.error('[APPROVAL SERVICE] Failed to queue approved action:', queueError);
+      await supabase
+        .from('agent_actions')
+        .update({ status: 'proposed', updated_at: new Date().toISOString() })
+        .eq('id', action.id);
+      await supabase
+        .from('agent_approvals')
+        .update({ status: 'pending', decided_by: null, decided_at: null, updated_at: new Date().toISOString() })
+        .eq('id', approvalId);
+
+      return { success: false, approvalId, error: 'Failed to queue approved action' };
+    }
+  }
+
+  /**
+   * Reject a pending request; the action is marked declined
+   */
+  static async reject(approvalId: string, decision: ApprovalDecision): Promise<ApprovalDecisionResult> {
+    const approval = await this.getPendingApproval(approvalId, decision.userToken);
+    if (!approval) {
+      return { success: false, approvalId, error: 'Approval request not found or already decided' };
+    }
+
+    const decidedAt = new Date().toISOString();
+    const { data: claimed, error } = await supabase
+      .from('agent_approvals')
+      .update({
+        status: 'rejected',
+        decided_by: decision.decidedBy || decision.userToken,
+        decided_at: decidedAt,
+        decision_note: decision.note || null,
+        updated_at: decidedAt
+      })
+      .eq('id', approvalId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error || !claimed || claimed.length === 0) {
+      return { success: false, approvalId, error: 'Approval request was already decided' };
+    }
+
+    await supabase
+      .from('agent_actions')
+      .update({ status: 'declined', updated_at: decidedAt })
+      .eq('id', approval.action_id);
+
+    await this.logDecision(approval, 'rejected', decision);
+
+    console.log(`[APPROVAL SERVICE] Approval ${approvalId} rejected`);
+    return { success: true, approvalId, status: 'rejected' };
+  }
+
+  private static async getPendingApproval(approvalId: string, userToken: string) {
+    const { data, error } = await supabase
+      .from('agent_approvals')
+      .select(`
+        *,
+        action:agent_actions(id, payload, policy, priority_score, scheduled_for)
+      `)
+      .eq('id', approvalId)
+      .eq('user_token', userToken)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[APPROVAL SERVICE] Failed to load approval:', error);
+      return null;
+    }
+    return data;
+  }
+
+  private static async logDecision(
+    approval: any,
+    decision: 'approved' | 'rejected',
+    details: ApprovalDecision,
+    extra: Record<string, any> = {}
+  ) {
+    const { error } = await supabase
+      .from('agent_events')
+      .insert({
+        user_token: approval.user_token,
+        event_type: decision === 'approved' ? 'action_approved' : 'action_rejected',
+        entity_type: 'action',
+        entity_id: approval.action_id,
+        event_data: {
+          approval_id: approval.id,
+          action_type: approval.action_type,
+          decided_by: details.decidedBy || details.userToken,
+          note: details.note || null,
+          ...extra
+        },
+        previous_state: 'proposed',
+        new_state: decision === 'approved' ? 'queued' : 'declined',
+        triggered_by: 'user'
+      });
+
+    if (error) {
+      console.error('[APPROVAL SERVICE] Failed to log decision event:', error);
+    }
+  }
+}
@@ -0,0 +1,491 @@
+/**
+ * Patch Service
+ * Applies agent patches and records a before/after snapshot for each one so that a single
+ * patch or a whole run can be rolled back later.
+ *
+ * seoagent.js patches are stored as overrides in meta_tags (title, description, canonical,
+ * JSON-LD) and alt_tags; CMS patches update the article through its CMS provider.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { CMSManager } from '@/lib/cms/cms-manager';
+import { CMSArticle } from '@/lib/cms/types';
+import { DomainUtils } from '@/lib/utils/DomainUtils';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type PatchChangeType = 'upsert_meta' | 'add_alt_text' | 'inject_schema' | 'set_canonical' | 'cms_update';
+
+export interface PatchInput {
+  targetUrl: string;
+  changeType: PatchChangeType;
+  afterValue: string;
+  rationale: string;
+  selector?: string;
+  elementType?: string;       // upsert_meta: 'title' | 'description'
+  imageUrl?: string;          // add_alt_text
+  riskLevel?: 'low' | 'medium' | 'high';
+  cms?: {
+    connectionId: string;
+    articleId: string;
+    fields: Partial<CMSArticle>;
+  };
+}
+
+export interface PatchSnapshot {
+  store: 'meta_tags' | 'alt_tags' | 'cms';
+  key: Record<string, string>;
+  existed: boolean;
+  values: Record<string, any>;
+}
+
+export interface PatchRollbackResult {
+  patchId: string;
+  success: boolean;
+  revertPatchId?: string;
+  error?: string;
+}
+
+export interface RunRollbackResult {
+  runId: string;
+  success: boolean;
+  reverted: number;
+  failed: number;
+  results: PatchRollbackResult[];
+}
+
+export interface PatchPreview {
+  targetUrl: string;
+  changeType: PatchChangeType;
+  rationale: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  error?: string;
+}
+
+interface RollbackOptions {
+  userToken?: string;
+  reason?: string;
+  triggeredBy?: 'user' | 'system';
+  force?: boolean; // roll back even if the target changed after the patch
+}
+
+const META_OVERRIDE_COLUMNS = ['meta_title', 'meta_description', 'canonical_url', 'schema_markup'];
+
+export class PatchService {
+  /**
+   * Apply a patch and record it with its snapshots on the run
+   */
+  static async applyPatch(runId: string, userToken: string, patch: PatchInput): Promise<any> {
+    const before = await this.captureSnapshot(userToken, patch);
+    const after: PatchSnapshot = { ...before, existed: true, values: this.valuesForPatch(patch) };
+
+    await this.writeSnapshot(userToken, after);
+
+    const { data: record, error } = await supabase
+      .from('agent_patches')
+      .insert({
+        run_id: runId,
+        user_token: userToken,
+        target_url: patch.targetUrl,
+        selector: patch.selector || null,
+        element_type: patch.elementType || null,
+        change_type: patch.changeType,
+        before_value: this.describeValues(before.values),
+        after_value: patch.afterValue,
+        rationale: patch.rationale,
+        risk_level: patch.riskLevel || 'low',
+        status: 'applied',
+        applied_at: new Date().toISOString(),
+        before_snapshot: before,
+        after_snapshot: after
+      })
+      .select()
+      .single();
+
+    if (error || !record) {
+      // The change is live but untracked; undo it rather than leave an unrevertable patch behind
+      console.error('[PATCH SERVICE] Failed to record patch, undoing change:', error);
+      await this.writeSnapshot(userToken, before);
+      throw new Error(`Failed to record patch: ${error?.message}`);
+    }
+
+    console.log(`[PATCH SERVICE] Applied ${patch.changeType} patch ${record.id} on ${patch.targetUrl}`);
+    return record;
+  }
+
+  /**
+   * Apply several patches for a run, stopping at the first failure
+   */
+  static async applyPatches(runId: string, userToken: string, patches: PatchInput[]): Promise<{ applied: any[]; pagesProcessed: number }> {
+    const applied: any[] = [];
+    for (const patch of patches) {
+      applied.push(await this.applyPatch(runId, userToken, patch));
+    }
+    const pagesProcessed = new Set(patches.map(p => p.targetUrl)).size;
+    return { applied, pagesProcessed };
+  }
+
+  /**
+   * Current vs. proposed values for each patch, without applying anything
+   */
+  static async previewPatches(userToken: string, patches: PatchInput[]): Promise<PatchPreview[]> {
+    const previews: PatchPreview[] = [];
+    for (const patch of patches) {
+      try {
+        const before = await this.captureSnapshot(userToken, patch);
+        previews.push({
+          targetUrl: patch.targetUrl,
+          changeType: patch.changeType,
+          rationale: patch.rationale,
+          before: before.values,
+          after: this.valuesForPatch(patch)
+        });
+      } catch (error) {
+        previews.push({
+          targetUrl: patch.targetUrl,
+          changeType: patch.changeType,
+          rationale: patch.rationale,
+          before: null,
+          after: null,
+          error: error instanceof Error ? error.message : 'Preview failed'
+        });
+      }
+    }
+    return previews;
+  }
+
+  /**
+   * Restore the target of a single patch to its before snapshot
+   */
+  static async rollbackPatch(patchId: string, options: RollbackOptions = {}): Promise<PatchRollbackResult> {
+    let query = supabase.from('agent_patches').select('*').eq('id', patchId);
+    if (options.userToken) query = query.eq('user_token', options.userToken);
+    const { data: patch, error } = await query.single();
+
+    if (error || !patch) {
+      return { patchId, success: false, error: 'Patch not found' };
+    }
+    if (patch.is_revert) {
+      return { patchId, success: false, error: 'Patch is itself a rollback' };
+    }
+    if (patch.status !== 'applied') {
+      return { patchId, success: false, error: `Patch is ${patch.status}, only applied patches can be rolled back` };
+    }
+
+    const before = patch.before_snapshot as PatchSnapshot | null;
+    const after = patch.after_snapshot as PatchSnapshot | null;
+    if (!before || !after) {
+      return { patchId, success: false, error: 'Patch has no snapshot to restore' };
+    }
+
+    try {
+      if (!options.force) {
+        const current = await this.readSnapshot(patch.user_token, after);
+        if (!this.sameValues(current.values, after.values)) {
+          return { patchId, success: false, error: 'Target changed since the patch was applied; pass force to roll back anyway' };
+        }
+      }
+
+      await this.writeSnapshot(patch.user_token, before);
+
+      const now = new Date().toISOString();
+      const reason = options.reason || 'Manual rollback';
+      const { data: revert, error: revertError } = await supabase
+        .from('agent_patches')
+        .insert({
+          run_id: patch.run_id,
+          user_token: patch.user_token,
+          target_url: patch.target_url,
+          selector: patch.selector,
+          element_type: patch.element_type,
+          change_type: patch.change_type,
+          before_value: patch.after_value,
+          after_value: patch.before_value,
+          rationale: `Rollback of patch ${patch.id}: ${reason}`,
+          risk_level: patch.risk_level,
+          status: 'applied',
+          applied_at: now,
+          is_revert: true,
+          before_snapshot: after,
+          after_snapshot: before
+        })
+        .select('id')
+        .single();
+
+      if (revertError) {
+        console.error('[PATCH SERVICE] Failed to record revert patch:', revertError);
+      }
+
+      await supabase
+        .from('agent_patches')
+        .update({
+          status: 'reverted',
+          reverted_at: now,
+          revert_patch_id: revert?.id || null,
+          rollback_reason: reason,
+          reverted_by: options.triggeredBy || 'user',
+          updated_at: now
+        })
+        .eq('id', patch.id);
+
+      await supabase
+        .from('agent_events')
+        .insert({
+          user_token: patch.user_token,
+          event_type: 'patch_reverted',
+          entity_type: 'patch',
+          entity_id: patch.id,
+          event_data: { run_id: patch.run_id, change_type: patch.change_type, target_url: patch.target_url, reason },
+          previous_state: 'applied',
+          new_state: 'reverted',
+          triggered_by: options.triggeredBy || 'user'
+        });
+
+      console.log(`[PATCH SERVICE] Rolled back patch ${patch.id} (${patch.change_type} on ${patch.target_url})`);
+      return { patchId, success: true, revertPatchId: revert?.id };
+
+    } catch (rollbackError) {
+      console.error(`[PATCH SERVICE] Rollback of patch ${patchId} failed:`, rollbackError);
+      return { patchId, success: false, error: rollbackError instanceof Error ? rollbackError.message : 'Rollback failed' };
+    }
+  }
+
+  /**
+   * Roll back every applied patch of a run, newest first
+   */
+  static async rollbackRun(runId: string, options: RollbackOptions = {}): Promise<RunRollbackResult> {
+    let query = supabase
+      .from('agent_patches')
+      .select('id')
+      .eq('run_id', runId)
+      .eq('status', 'applied')
+      .eq('is_revert', false)
+      .order('applied_at', { ascending: false });
+    if (options.userToken) query = query.eq('user_token', options.userToken);
+    const { data: patches, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load patches for run ${runId}: ${error.message}`);
+    }
+
+    const results: PatchRollbackResult[] = [];
+    for (const patch of patches || []) {
+      results.push(await this.rollbackPatch(patch.id, options));
+    }
+
+    const reverted = results.filter(r => r.success).length;
+    const failed = results.length - reverted;
+
+    if (reverted > 0 && failed === 0) {
+      const { data: run } = await supabase.from('agent_runs').select('action_id').eq('id', runId).single();
+      if (run?.action_id) {
+        await supabase
+          .from('agent_actions')
+          .update({ status: 'reverted', updated_at: new Date().toISOString() })
+          .eq('id', run.action_id);
+      }
+    }
+
+    console.log(`[PATCH SERVICE] Run ${runId} rollback: ${reverted} reverted, ${failed} failed`);
+    return { runId, success: failed === 0, reverted, failed, results };
+  }
+
+  /**
+   * Patches of a run (or a user's recent patches) with whether each can still be rolled back
+   */
+  static async listPatches(userToken: string, filters: { runId?: string; limit?: number } = {}) {
+    let query = supabase
+      .from('agent_patches')
+      .select('id, run_id, target_url, change_type, element_type, before_value, after_value, rationale, status, is_revert, applied_at, reverted_at, rollback_reason, reverted_by, verification_status')
+      .eq('user_token', userToken)
+      .order('applied_at', { ascending: false })
+      .limit(filters.limit || 50);
+    if (filters.runId) query = query.eq('run_id', filters.runId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to list patches: ${error.message}`);
+
+    return (data || []).map(patch => ({
+      ...patch,
+      can_rollback: patch.status === 'applied' && !patch.is_revert
+    }));
+  }
+
+  // Snapshot helpers
+
+  private static async captureSnapshot(userToken: string, patch: PatchInput): Promise<PatchSnapshot> {
+    if (patch.changeType === 'cms_update') {
+      if (!patch.cms) throw new Error('cms_update patches need a cms target');
+      return this.readSnapshot(userToken, {
+        store: 'cms',
+        key: { connectionId: patch.cms.connectionId, articleId: patch.cms.articleId },
+        existed: true,
+        values: this.pick(patch.cms.fields, Object.keys(patch.cms.fields))
+      });
+    }
+
+    const websiteToken = await this.getWebsiteToken(userToken, patch.targetUrl);
+
+    if (patch.changeType === 'add_alt_text') {
+      if (!patch.imageUrl) throw new Error('add_alt_text patches need an imageUrl');
+      return this.readSnapshot(userToken, {
+        store: 'alt_tags',
+        key: { website_token: websiteToken, image_url: patch.imageUrl },
+        existed: false,
+        values: { alt_text: null }
+      });
+    }
+
+    const column = this.metaColumnForPatch(patch);
+    return this.readSnapshot(userToken, {
+      store: 'meta_tags',
+      key: { website_token: websiteToken, page_url: patch.targetUrl },
+      existed: false,
+      values: { [column]: null }
+    });
+  }
+
+  /**
+   * Read the current values of the snapshot's columns/fields
+   */
+  private static async readSnapshot(userToken: string, snapshot: PatchSnapshot): Promise<PatchSnapshot> {
+    const fields = Object.keys(snapshot.values);
+
+    if (snapshot.store === 'cms') {
+      const { provider, credentials } = await this.getCMSProvider(userToken, snapshot.key.connectionId);
+      const articles = await provider.getArticles(credentials);
+      const article = articles.find(a => String(a.id) === String(snapshot.key.articleId));
+      if (!article) throw new Error(`CMS article ${snapshot.key.articleId} not found`);
+      return { ...snapshot, existed: true, values: this.pick(article, fields) };
+    }
+
+    let query = supabase.from(snapshot.store).select(fields.join(', '));
+    Object.keys(snapshot.key).forEach(column => {
+      query = query.eq(column, snapshot.key[column]);
+    });
+    const { data, error } = await query.maybeSingle();
+    if (error) throw new Error(`Failed to read ${snapshot.store}: ${error.message}`);
+
+    return {
+      ...snapshot,
+      existed: !!data,
+      values: data ? this.pick(data, fields) : this.pick({}, fields)
+    };
+  }
+
+  /**
+   * Make the patched target hold the snapshot's values (or not exist, if it did not exist then)
+   */
+  private static async writeSnapshot(userToken: string, target: PatchSnapshot): Promise<void> {
+    if (target.store === 'cms') {
+      const { provider, credentials } = await this.getCMSProvider(userToken, target.key.connectionId);
+      await provider.updateArticle(credentials, target.key.articleId, target.values);
+      return;
+    }
+
+    const now = new Date().toISOString();
+
+    if (target.existed) {
+      const { error } = await supabase
+        .from(target.store)
+        .upsert({ ...target.key, ...target.values, updated_at: now }, {
+          onConflict: Object.keys(target.key).join(',')
+        });
+      if (error) throw new Error(`Failed to write ${target.store}: ${error.message}`);
+      return;
+    }
+
+    // A meta_tags row can carry several overrides; only drop it once none are left
+    if (target.store === 'meta_tags') {
+      let clearQuery = supabase.from('meta_tags').update({ ...target.values, updated_at: now });
+      Object.keys(target.key).forEach(column => {
+        clearQuery = clearQuery.eq(column, target.key[column]);
+      });
+      const { error: clearError } = await clearQuery;
+      if (clearError) throw new Error(`Failed to restore meta_tags: ${clearError.message}`);
+
+      const remaining = await this.readSnapshot(userToken, { ...target, values: this.pick({}, META_OVERRIDE_COLUMNS) });
+      if (Object.keys(remaining.values).some(column => remaining.values[column] != null)) return;
+    }
+
+    let deleteQuery = supabase.from(target.store).delete();
+    Object.keys(target.key).forEach(column => {
+      deleteQuery = deleteQuery.eq(column, target.key[column]);
+    });
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) throw new Error(`Failed to restore ${target.store}: ${deleteError.message}`);
+  }
+
+  private static valuesForPatch(patch: PatchInput): Record<string, any> {
+    switch (patch.changeType) {
+      case 'cms_update':
+        return { ...patch.cms!.fields };
+      case 'add_alt_text':
+        return { alt_text: patch.afterValue };
+      case 'inject_schema':
+        return { schema_markup: JSON.parse(patch.afterValue) };
+      default:
+        return { [this.metaColumnForPatch(patch)]: patch.afterValue };
+    }
+  }
+
+  private static metaColumnForPatch(patch: PatchInput): string {
+    if (patch.changeType === 'set_canonical') return 'canonical_url';
+    if (patch.changeType === 'inject_schema') return 'schema_markup';
+    if (patch.changeType === 'upsert_meta') {
+      const element = (patch.elementType || patch.selector || '').toLowerCase();
+      if (element.includes('description')) return 'meta_description';
+      if (element.includes('title')) return 'meta_title';
+      throw new Error(`upsert_meta patches must target a title or description, got "${patch.elementType}"`);
+    }
+    throw new Error(`Unsupported patch type: ${patch.changeType}`);
+  }
+
+  private static async getWebsiteToken(userToken: string, url: string): Promise<string> {
+    const domain = DomainUtils.extractDomain(url);
+    const { data, error } = await supabase
+      .from('websites')
+      .select('website_token')
+      .eq('user_token', userToken)
+      .or(`domain.eq.${domain},domain.eq.sc-domain:${domain},domain.eq.https://${domain}`)
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      throw new Error(`No website found for ${domain}`);
+    }
+    return data[0].website_token;
+  }
+
+  private static async getCMSProvider(userToken: string, connectionId: string) {
+    const cmsManager = new CMSManager();
+    const connection = await cmsManager.getConnection(connectionId, userToken);
+    if (!connection) throw new Error(`CMS connection ${connectionId} not found`);
+    return { provider: cmsManager.getProvider(connection.type), credentials: connection.credentials };
+  }
+
+  private static pick(source: Record<string, any>, fields: string[]): Record<string, any> {
+    const values: Record<string, any> = {};
+    fields.forEach(field => {
+      values[field] = source[field] === undefined ? null : source[field];
+    });
+    return values;
+  }
+
+  private static sameValues(a: Record<string, any>, b: Record<string, any>): boolean {
+    return Object.keys(b).every(field => JSON.stringify(a[field] ?? null) === JSON.stringify(b[field] ?? null));
+  }
+
+  private static describeValues(values: Record<string, any>): string | null {
+    const present = Object.keys(values).filter(field => values[field] != null);
+    if (present.length === 0) return null;
+    if (present.length === 1) {
+      const value = values[present[0]];
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return JSON.stringify(this.pick(values, present));
+  }
+}
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { DomainUtils } from '@/lib/utils/DomainUtils';
+import { PatchService } from './patch-service';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -31,6 +33,27 @@ interface PolicyValidationResult {
   adjustedPolicy?: AgentPolicy;
   approvalRequired: boolean;
   estimatedRisk: 'low' | 'medium' | 'high';
+  deferUntil?: string; // set when the action is blocked only by quiet hours
+}
+
+export type PolicyEnvironment = 'DRY_RUN' | 'STAGING' | 'PRODUCTION';
+
+export interface QuietHours {
+  start: string;      // 'HH:MM', local to timezone
+  end: string;        // 'HH:MM'; may be earlier than start for overnight windows
+  timezone?: string;  // IANA zone, defaults to UTC
+  days?: number[];    // 0 = Sunday; omitted = every day
+}
+
+// Site-level policy stored in site_policies
+export interface SitePolicy {
+  allowedEnvironments: PolicyEnvironment[];
+  blockedPaths: string[];
+  maxPages: number | null;
+  maxPatches: number | null;
+  approvalRequirements: Record<string, boolean>;
+  quietHours: QuietHours | null;
+  locked: boolean;
 }
 
 interface ActionContext {
@@ -107,8 +130,11 @@ export class PolicyEngine {
     }
   };
 
-  // Site-specific policy overrides (loaded from database)
-  private static readonly SITE_POLICIES: Record<string, Partial<AgentPolicy>> = {};
+  // Site-specific policy overrides (loaded from site_policies, cached per user/site)
+  private static readonly SITE_POLICIES: Record<string, { policy: SitePolicy | null; loadedAt: number }> = {};
+  private static readonly SITE_POLICY_TTL_MS = 60000;
+
+  private static readonly ENVIRONMENTS: PolicyEnvironment[] = ['DRY_RUN', 'STAGING', 'PRODUCTION'];
 
   /**
    * Validate if an action can be executed under the given policy
@@ -123,13 +149,31 @@ export class PolicyEngine {
       
       // Merge with user's site-specific policies
       const sitePolicy = await this.getSitePolicyOverrides(context.userToken, context.siteUrl);
+      let siteRules: SitePolicy | null;
+      try {
+        siteRules = await this.getSitePolicy(context.userToken, context.siteUrl);
+      } catch (error) {
+        // Without the stored rules we can't tell what the site forbids
+        return {
+          allowed: false,
+          reason: 'Site policy unavailable',
+          approvalRequired: true,
+          estimatedRisk: 'high'
+        };
+      }
       
-      // Create final policy
-      const finalPolicy: AgentPolicy = {
-        ...basePolicy,
-        ...sitePolicy,
-        ...requestedPolicy
-      };
+      // Create final policy (on a locked site the overrides can only tighten the request; the stored caps apply below)
+      const finalPolicy: AgentPolicy = siteRules?.locked
+        ? this.stricterPolicy({ ...basePolicy, ...requestedPolicy }, sitePolicy)
+        : { ...basePolicy, ...sitePolicy, ...requestedPolicy };
+
+      // Enforce stored site rules whatever was requested
+      const siteValidation = siteRules
+        ? this.enforceSitePolicy(context, finalPolicy, siteRules, requestedPolicy)
+        : null;
+      if (siteValidation && !siteValidation.allowed) {
+        return siteValidation;
+      }
 
       // Validate against safety constraints
       const validation = await this.performSafetyValidation(context, finalPolicy);
@@ -138,6 +182,18 @@ export class PolicyEngine {
         return validation;
       }
 
+      // Quiet hours come last: an action blocked only by them can be deferred to deferUntil
+      if (siteValidation?.deferUntil) {
+        return {
+          allowed: false,
+          reason: `Site is in quiet hours until ${siteValidation.deferUntil}`,
+          adjustedPolicy: finalPolicy,
+          approvalRequired: true,
+          estimatedRisk: 'high',
+          deferUntil: siteValidation.deferUntil
+        };
+      }
+
       // Check if approval is required
       const approvalRequired = await this.checkApprovalRequirements(context, finalPolicy);
 
@@ -276,6 +332,23 @@ export class PolicyEngine {
     policy: AgentPolicy
   ): Promise<string> {
     try {
+      // Reuse the open request for this action, if there is one
+      const { data: existing } = await supabase
+        .from('agent_approvals')
+        .select('id')
+        .eq('action_id', context.actionId)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (existing) {
+        return existing.id;
+      }
+
+      const patches = Array.isArray(context.payload?.patches) ? context.payload.patches : [];
+      const patchPreview = patches.length > 0
+        ? await PatchService.previewPatches(context.userToken, patches)
+        : [];
+
       const approvalData = {
         action_id: context.actionId,
         user_token: context.userToken,
@@ -290,17 +363,26 @@ export class PolicyEngine {
         risk_assessment: {
           level: policy.blastRadius.riskLevel,
           affected_pages: policy.blastRadius.maxAffectedPages,
-          rollback_available: policy.blastRadius.rollbackRequired
+          rollback_available: policy.blastRadius.rollbackRequired,
+          target_urls: context.targetUrls || []
         },
+        patch_preview: patchPreview,
         requested_at: new Date().toISOString(),
         status: 'pending'
       };
 
-      // In a real implementation, this would create an approval workflow
-      // For now, we'll log it and return a placeholder
-      console.log('[POLICY ENGINE] Approval request created:', approvalData);
+      const { data, error } = await supabase
+        .from('agent_approvals')
+        .insert(approvalData)
+        .select('id')
+        .single();
 
-      return `approval_${context.actionId}_${Date.now()}`;
+      if (error || !data) {
+        throw new Error(error?.message || 'No approval record returned');
+      }
+
+      console.log(`[POLICY ENGINE] Approval request ${data.id} created for action ${context.actionId}`);
+      return data.id;
 
     } catch (error) {
       console.error('[POLICY ENGINE] Approval request error:', error);
@@ -308,6 +390,167 @@ export class PolicyEngine {
     }
   }
 
+  /**
+   * Stored site policy for a site, or null when the site has none. Throws when it can't be loaded.
+   */
+  static async getSitePolicy(userToken: string, siteUrl: string): Promise<SitePolicy | null> {
+    const domain = DomainUtils.cleanDomain(siteUrl);
+    const cacheKey = `${userToken}:${domain}`;
+    const cached = this.SITE_POLICIES[cacheKey];
+    if (cached && Date.now() - cached.loadedAt < this.SITE_POLICY_TTL_MS) {
+      return cached.policy;
+    }
+
+    const { data, error } = await supabase
+      .from('site_policies')
+      .select('*')
+      .eq('user_token', userToken)
+      .eq('domain', domain)
+      .maybeSingle();
+
+    if (error) {
+      // A failed load must not be mistaken for "no restrictions"
+      console.error('[POLICY ENGINE] Failed to load site policy:', error);
+      throw new Error(`Failed to load site policy: ${error.message}`);
+    }
+
+    const policy = data ? this.recordToSitePolicy(data) : null;
+    this.SITE_POLICIES[cacheKey] = { policy, loadedAt: Date.now() };
+    return policy;
+  }
+
+  /**
+   * Validate and store a site policy. Returns the saved policy or a validation error.
+   */
+  static async saveSitePolicy(
+    userToken: string,
+    siteUrl: string,
+    input: Partial<SitePolicy>,
+    updatedBy?: string
+  ): Promise<{ policy?: SitePolicy; error?: string }> {
+    const { policy, error } = this.normalizeSitePolicy(input);
+    if (error || !policy) {
+      return { error };
+    }
+
+    const domain = DomainUtils.cleanDomain(siteUrl);
+    const { data, error: saveError } = await supabase
+      .from('site_policies')
+      .upsert({
+        user_token: userToken,
+        domain,
+        allowed_environments: policy.allowedEnvironments,
+        blocked_paths: policy.blockedPaths,
+        max_pages: policy.maxPages,
+        max_patches: policy.maxPatches,
+        approval_requirements: policy.approvalRequirements,
+        quiet_hours: policy.quietHours,
+        locked: policy.locked,
+        updated_by: updatedBy || userToken,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_token,domain' })
+      .select()
+      .single();
+
+    if (saveError || !data) {
+      console.error('[POLICY ENGINE] Failed to save site policy:', saveError);
+      throw new Error('Failed to save site policy');
+    }
+
+    const saved = this.recordToSitePolicy(data);
+    this.SITE_POLICIES[`${userToken}:${domain}`] = { policy: saved, loadedAt: Date.now() };
+    return { policy: saved };
+  }
+
+  static async deleteSitePolicy(userToken: string, siteUrl: string): Promise<void> {
+    const domain = DomainUtils.cleanDomain(siteUrl);
+    const { error } = await supabase
+      .from('site_policies')
+      .delete()
+      .eq('user_token', userToken)
+      .eq('domain', domain);
+
+    if (error) {
+      console.error('[POLICY ENGINE] Failed to delete site policy:', error);
+      throw new Error('Failed to delete site policy');
+    }
+    delete this.SITE_POLICIES[`${userToken}:${domain}`];
+  }
+
+  /**
+   * Whether a URL falls under one of the blocked path prefixes (a trailing or inner * matches anything)
+   */
+  static isPathBlocked(url: string, blockedPaths: string[]): boolean {
+    if (!blockedPaths || blockedPaths.length === 0) return false;
+
+    // Bare paths are compared as they are; anything else is a URL, with or without protocol
+    let path = url.split(/[?#]/)[0];
+    if (!url.startsWith('/')) {
+      try {
+        path = new URL(url.startsWith('http') ? url : `https://${url}`).pathname;
+      } catch {
+        // treat the value as a path
+      }
+    }
+
+    return blockedPaths.some(blocked => {
+      const pattern = blocked.trim();
+      if (!pattern) return false;
+      if (pattern.includes('*')) {
+        const regex = new RegExp('^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*'));
+        return regex.test(path);
+      }
+      const prefix = pattern.startsWith('/') ? pattern : `/${pattern}`;
+      return path === prefix || path.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`);
+    });
+  }
+
+  /**
+   * When `now` falls inside the quiet hours, the moment they end; otherwise null
+   */
+  static getQuietHoursEnd(quietHours: QuietHours | null | undefined, now: Date = new Date()): Date | null {
+    if (!quietHours) return null;
+
+    const start = this.parseClock(quietHours.start);
+    const end = this.parseClock(quietHours.end);
+    if (start === null || end === null || start === end) return null;
+
+    const local = now.toLocaleString('en-US', {
+      timeZone: quietHours.timezone || 'UTC',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+    const match = local.match(/^(\w{3}),?\s+(\d{1,2}):(\d{2})/);
+    if (!match) return null;
+
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(match[1]);
+    const minutes = (parseInt(match[2]) % 24) * 60 + parseInt(match[3]);
+    const overnight = start > end;
+    const inWindow = overnight ? (minutes >= start || minutes < end) : (minutes >= start && minutes < end);
+    if (!inWindow) return null;
+
+    // For overnight windows, the morning part belongs to the day the window started
+    const windowDay = overnight && minutes < end ? (day + 6) % 7 : day;
+    if (quietHours.days && quietHours.days.length > 0 && !quietHours.days.includes(windowDay)) {
+      return null;
+    }
+
+    const minutesLeft = (end - minutes + 1440) % 1440;
+    return new Date(now.getTime() + minutesLeft * 60000);
+  }
+
+  /**
+   * Whether changes made by an action must be rolled back when they fail verification
+   */
+  static requiresRollback(actionType: string, actionPolicy?: Partial<AgentPolicy>): boolean {
+    if (actionPolicy?.blastRadius && typeof actionPolicy.blastRadius.rollbackRequired === 'boolean') {
+      return actionPolicy.blastRadius.rollbackRequired;
+    }
+    return this.getBasePolicyForAction(actionType).blastRadius.rollbackRequired;
+  }
+
   // Private helper methods
 
   private static getBasePolicyForAction(actionType: string): AgentPolicy {
@@ -365,6 +608,175 @@ export class PolicyEngine {
     }
   }
 
+  /**
+   * Combine two policies field by field, keeping the stricter value of each
+   */
+  private static stricterPolicy(policy: AgentPolicy, overrides: Partial<AgentPolicy>): AgentPolicy {
+    const lower = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : Math.min(a, b));
+    const environment = overrides.environment &&
+      this.ENVIRONMENTS.indexOf(overrides.environment) < this.ENVIRONMENTS.indexOf(policy.environment)
+      ? overrides.environment
+      : policy.environment;
+
+    return {
+      ...policy,
+      environment,
+      maxPages: lower(policy.maxPages, overrides.maxPages),
+      maxPatches: lower(policy.maxPatches, overrides.maxPatches),
+      requiresApproval: !!(policy.requiresApproval || overrides.requiresApproval)
+    };
+  }
+
+  /**
+   * Apply stored site rules to the merged policy (mutates it) and reject actions they forbid
+   */
+  private static enforceSitePolicy(
+    context: ActionContext,
+    policy: AgentPolicy,
+    rules: SitePolicy,
+    requestedPolicy: Partial<AgentPolicy>
+  ): PolicyValidationResult {
+    const blocked = (reason: string): PolicyValidationResult => ({
+      allowed: false,
+      reason,
+      approvalRequired: true,
+      estimatedRisk: 'high'
+    });
+
+    // Environment: an explicitly requested environment must be allowed; otherwise fall back to the safest allowed one
+    if (rules.allowedEnvironments.length > 0 && !rules.allowedEnvironments.includes(policy.environment)) {
+      if (requestedPolicy.environment && !rules.locked) {
+        return blocked(`Environment ${requestedPolicy.environment} is not allowed on this site`);
+      }
+      policy.environment = this.ENVIRONMENTS.find(env => rules.allowedEnvironments.includes(env))!;
+    }
+
+    // Limits are caps: a request can lower them but never raise them
+    if (rules.maxPages !== null) {
+      policy.maxPages = Math.min(policy.maxPages ?? rules.maxPages, rules.maxPages);
+      policy.blastRadius = {
+        ...policy.blastRadius,
+        maxAffectedPages: Math.min(policy.blastRadius.maxAffectedPages, rules.maxPages)
+      };
+    }
+    if (rules.maxPatches !== null) {
+      policy.maxPatches = Math.min(policy.maxPatches ?? rules.maxPatches, rules.maxPatches);
+    }
+
+    // Blocked paths
+    if (rules.blockedPaths.length > 0) {
+      policy.blockedPaths = Array.from(new Set([...(policy.blockedPaths || []), ...rules.blockedPaths]));
+      const blockedTarget = this.getTargetUrls(context).find(url => this.isPathBlocked(url, rules.blockedPaths));
+      if (blockedTarget) {
+        return blocked(`${blockedTarget} is in a path blocked by the site policy`);
+      }
+    }
+
+    // Approval per action type
+    if (rules.approvalRequirements[context.actionType] === true) {
+      policy.requiresApproval = true;
+    }
+
+    // Quiet hours only hold back actions that change the site; validatePolicy blocks on them after its other checks
+    if (policy.blastRadius.maxAffectedPages > 0 && policy.environment !== 'DRY_RUN') {
+      const quietUntil = this.getQuietHoursEnd(rules.quietHours);
+      if (quietUntil) {
+        return { allowed: true, approvalRequired: false, estimatedRisk: 'low', deferUntil: quietUntil.toISOString() };
+      }
+    }
+
+    return { allowed: true, approvalRequired: false, estimatedRisk: 'low' };
+  }
+
+  private static getTargetUrls(context: ActionContext): string[] {
+    const urls: string[] = [...(context.targetUrls || [])];
+    const payload = context.payload || {};
+    ['target_url', 'targetUrl', 'page_url', 'url'].forEach(key => {
+      if (typeof payload[key] === 'string') urls.push(payload[key]);
+    });
+    if (Array.isArray(payload.patches)) {
+      payload.patches.forEach((patch: any) => {
+        if (patch?.targetUrl) urls.push(patch.targetUrl);
+      });
+    }
+    return urls;
+  }
+
+  private static normalizeSitePolicy(input: Partial<SitePolicy>): { policy?: SitePolicy; error?: string } {
+    const allowedEnvironments = input.allowedEnvironments ?? this.ENVIRONMENTS;
+    if (!Array.isArray(allowedEnvironments) || allowedEnvironments.length === 0 ||
+        allowedEnvironments.some(env => !this.ENVIRONMENTS.includes(env))) {
+      return { error: `allowedEnvironments must be a non-empty list of ${this.ENVIRONMENTS.join(', ')}` };
+    }
+
+    const blockedPaths = input.blockedPaths ?? [];
+    if (!Array.isArray(blockedPaths) || blockedPaths.some(p => typeof p !== 'string')) {
+      return { error: 'blockedPaths must be a list of paths' };
+    }
+
+    for (const [key, value] of [['maxPages', input.maxPages], ['maxPatches', input.maxPatches]] as const) {
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0)) {
+        return { error: `${key} must be a non-negative integer` };
+      }
+    }
+
+    const approvalRequirements = input.approvalRequirements ?? {};
+    if (typeof approvalRequirements !== 'object' || Array.isArray(approvalRequirements) ||
+        Object.keys(approvalRequirements).some(key => typeof approvalRequirements[key] !== 'boolean')) {
+      return { error: 'approvalRequirements must map action types to true/false' };
+    }
+
+    const quietHours = input.quietHours ?? null;
+    if (quietHours) {
+      if (this.parseClock(quietHours.start) === null || this.parseClock(quietHours.end) === null) {
+        return { error: 'quietHours.start and quietHours.end must be HH:MM' };
+      }
+      if (quietHours.timezone) {
+        try {
+          new Date().toLocaleString('en-US', { timeZone: quietHours.timezone });
+        } catch {
+          return { error: `Unknown timezone: ${quietHours.timezone}` };
+        }
+      }
+      if (quietHours.days && (!Array.isArray(quietHours.days) || quietHours.days.some(d => !Number.isInteger(d) || d < 0 || d > 6))) {
+        return { error: 'quietHours.days must be weekday numbers 0-6' };
+      }
+    }
+
+    return {
+      policy: {
+        allowedEnvironments,
+        blockedPaths: blockedPaths.map(p => p.trim()).filter(Boolean),
+        maxPages: input.maxPages ?? null,
+        maxPatches: input.maxPatches ?? null,
+        approvalRequirements,
+        quietHours,
+        locked: input.locked === true
+      }
+    };
+  }
+
+  private static recordToSitePolicy(record: any): SitePolicy {
+    return {
+      allowedEnvironments: record.allowed_environments || this.ENVIRONMENTS,
+      blockedPaths: record.blocked_paths || [],
+      maxPages: record.max_pages ?? null,
+      maxPatches: record.max_patches ?? null,
+      approvalRequirements: record.approval_requirements || {},
+      quietHours: record.quiet_hours || null,
+      locked: !!record.locked
+    };
+  }
+
+  private static parseClock(value: string | undefined): number | null {
+    const match = (value || '').match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = parseInt(match[1]);
+    const minutes = parseInt(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+  }
+
   private static async performSafetyValidation(
     context: ActionContext,
     policy: AgentPolicy
@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import * as cheerio from 'cheerio';
+import { PatchService, RunRollbackResult } from './patch-service';
+import { PolicyEngine } from './policy-engine';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -26,6 +28,7 @@ interface VerificationResult {
   failedChecks: number;
   checks: VerificationCheck[];
   summary: string;
+  rollback?: RunRollbackResult;
 }
 
 interface PatchVerification {
@@ -103,6 +106,11 @@ export class VerificationEngine {
       // Update action and patches with verification results
       await this.updateVerificationStatus(actionId, runId, patches.map(p => p.id), result);
 
+      // Undo the run's patches when its checks fail and the action's policy requires rollback
+      if (overallStatus !== 'verified' && PolicyEngine.requiresRollback(action.action_type, action.policy)) {
+        result.rollback = await this.autoRollback(runId, result.summary);
+      }
+
       console.log(`[VERIFICATION] Completed verification for action ${actionId}: ${overallStatus}`);
       return result;
 
@@ -501,6 +509,23 @@ export class VerificationEngine {
     return check;
   }
 
+  /**
+   * Roll back a run after failed verification. Never throws: a failed rollback is reported in the result.
+   */
+  private static async autoRollback(runId: string, summary: string): Promise<RunRollbackResult> {
+    try {
+      const rollback = await PatchService.rollbackRun(runId, {
+        reason: `Automatic rollback after failed verification: ${summary}`,
+        triggeredBy: 'system'
+      });
+      console.log(`[VERIFICATION] Auto-rollback of run ${runId}: ${rollback.reverted} reverted, ${rollback.failed} failed`);
+      return rollback;
+    } catch (error) {
+      console.error(`[VERIFICATION] Auto-rollback of run ${runId} failed:`, error);
+      return { runId, success: false, reverted: 0, failed: 0, results: [] };
+    }
+  }
+
   /**
    * Helper methods
    */
@@ -514,7 +539,8 @@ export class VerificationEngine {
     const { data: patches, error: patchesError } = await supabase
       .from('agent_patches')
       .select('*')
-      .eq('run_id', runId);
+      .eq('run_id', runId)
+      .eq('is_revert', false);
 
     if (actionError || patchesError) {
       throw new Error(`Failed to get action data: ${actionError?.message || patchesError?.message}`);
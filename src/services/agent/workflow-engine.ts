@@ -16,6 +16,8 @@ interface WorkflowTemplate {
   dependencies: WorkflowDependency[];
   estimatedDuration: number; // In minutes
   riskLevel: 'low' | 'medium' | 'high';
+  source?: 'builtin' | 'user';
+  version?: number; // User templates only
 }
 
 interface WorkflowAction {
@@ -39,7 +41,7 @@ interface WorkflowDependency {
 }
 
 interface WorkflowExecutionPlan {
-  ideaId: string;
+  ideaId: string | null; // null for runs triggered from chat or a schedule
   workflowTemplate: WorkflowTemplate;
   executionOrder: string[][]; // Batches of parallel actions
   totalEstimatedDuration: number;
@@ -54,6 +56,20 @@ interface WorkflowBlockedAction {
   missingDependencies: string[];
 }
 
+export type WorkflowScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface WorkflowRunResult {
+  executed: boolean;
+  plan: WorkflowExecutionPlan;
+  actionIds: string[];
+  message: string;
+}
+
+// Action types a workflow step may use, besides those in the built-in templates
+const EXTRA_ACTION_TYPES = ['cms_publishing', 'schema_injection', 'verification'];
+
+const MAX_TEMPLATE_ACTIONS = 50;
+
 export class WorkflowEngine {
   // Predefined workflow templates for common SEO scenarios
   private static readonly WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
@@ -297,12 +313,12 @@ export class WorkflowEngine {
    * Create an execution plan for a workflow template
    */
   static async createExecutionPlan(
-    ideaId: string,
+    ideaId: string | null,
     workflowTemplate: WorkflowTemplate,
     userToken: string,
     siteUrl: string
   ): Promise<WorkflowExecutionPlan> {
-    console.log(`[WORKFLOW] Creating execution plan for idea ${ideaId} using template ${workflowTemplate.name}`);
+    console.log(`[WORKFLOW] Creating execution plan for ${ideaId ? `idea ${ideaId}` : siteUrl} using template ${workflowTemplate.name}`);
 
     // Check dependencies
     const missingDependencies = await this.checkDependencies(workflowTemplate.dependencies, userToken, siteUrl);
@@ -380,7 +396,7 @@ export class WorkflowEngine {
     userToken: string,
     siteUrl: string
   ): Promise<{ actionIds: string[], message: string }> {
-    console.log(`[WORKFLOW] Executing workflow plan for idea ${plan.ideaId}`);
+    console.log(`[WORKFLOW] Executing workflow plan for ${plan.ideaId ? `idea ${plan.ideaId}` : siteUrl}`);
 
     const createdActions: string[] = [];
     
@@ -426,14 +442,16 @@ export class WorkflowEngine {
       }
 
       // Update idea status to adopted
-      await supabase
-        .from('agent_ideas')
-        .update({
-          status: 'adopted',
-          adopted_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', plan.ideaId);
+      if (plan.ideaId) {
+        await supabase
+          .from('agent_ideas')
+          .update({
+            status: 'adopted',
+            adopted_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', plan.ideaId);
+      }
 
       const message = `Workflow "${plan.workflowTemplate.name}" created with ${createdActions.length} actions. ` +
         `Estimated completion: ${plan.totalEstimatedDuration} minutes. ` +
@@ -454,22 +472,446 @@ export class WorkflowEngine {
    * Get workflow templates by category or search
    */
   static getWorkflowTemplates(category?: string, searchTerm?: string): WorkflowTemplate[] {
-    let templates = this.WORKFLOW_TEMPLATES;
+    return this.filterTemplates(this.WORKFLOW_TEMPLATES, category, searchTerm);
+  }
 
-    if (category) {
-      templates = templates.filter(t => t.category === category);
+  /**
+   * Built-in templates plus the latest version of each of the user's own templates
+   */
+  static async getTemplatesForUser(userToken: string, category?: string, searchTerm?: string): Promise<WorkflowTemplate[]> {
+    const { data, error } = await supabase
+      .from('workflow_templates')
+      .select('*')
+      .eq('user_token', userToken)
+      .eq('is_latest', true)
+      .eq('is_active', true)
+      .order('name');
+
+    if (error) {
+      console.error('[WORKFLOW] Failed to load user templates:', error);
     }
 
-    if (searchTerm) {
-      const search = searchTerm.toLowerCase();
-      templates = templates.filter(t => 
-        t.name.toLowerCase().includes(search) ||
-        t.description.toLowerCase().includes(search) ||
-        t.triggers.some(trigger => trigger.includes(search))
-      );
+    const userTemplates = (data || []).map(row => this.rowToTemplate(row));
+    return this.filterTemplates([...this.WORKFLOW_TEMPLATES, ...userTemplates], category, searchTerm);
+  }
+
+  /**
+   * Find a template by id: built-in first, then the user's (latest version unless one is given)
+   */
+  static async findTemplate(workflowId: string, userToken?: string, version?: number): Promise<WorkflowTemplate | null> {
+    const builtin = this.WORKFLOW_TEMPLATES.find(t => t.id === workflowId);
+    if (builtin) return builtin;
+    if (!userToken) return null;
+
+    let query = supabase
+      .from('workflow_templates')
+      .select('*')
+      .eq('user_token', userToken)
+      .eq('template_key', workflowId)
+      .eq('is_active', true);
+
+    query = version ? query.eq('version', version) : query.eq('is_latest', true);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) {
+      console.error('[WORKFLOW] Failed to load template:', error);
+      return null;
+    }
+    return data ? this.rowToTemplate(data) : null;
+  }
+
+  /**
+   * Validate a user-supplied template: shape, known action types, dependsOn references and cycles
+   */
+  static validateTemplate(input: any): { template?: WorkflowTemplate; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return { errors: ['Template must be an object'] };
+    }
+
+    if (typeof input.id !== 'string' || !/^[a-z0-9_]{3,100}$/.test(input.id)) {
+      errors.push('id must be 3-100 characters of a-z, 0-9 and _');
+    } else if (this.WORKFLOW_TEMPLATES.some(t => t.id === input.id)) {
+      errors.push(`id "${input.id}" is reserved by a built-in workflow`);
+    }
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      errors.push('name is required');
+    }
+    if (input.riskLevel !== undefined && !['low', 'medium', 'high'].includes(input.riskLevel)) {
+      errors.push('riskLevel must be low, medium or high');
+    }
+    if (input.triggers !== undefined && (!Array.isArray(input.triggers) || input.triggers.some((t: any) => typeof t !== 'string'))) {
+      errors.push('triggers must be a list of strings');
+    }
+
+    const knownTypes = this.getKnownActionTypes();
+    const rawActions: any[] = Array.isArray(input.actions) ? input.actions : [];
+    if (rawActions.length === 0) {
+      errors.push('actions must be a non-empty list');
+    } else if (rawActions.length > MAX_TEMPLATE_ACTIONS) {
+      errors.push(`A workflow can have at most ${MAX_TEMPLATE_ACTIONS} actions`);
+    }
+
+    const actions: WorkflowAction[] = [];
+    const ids = new Set<string>();
+    rawActions.forEach((raw, index) => {
+      const label = raw?.id ? `Action "${raw.id}"` : `Action #${index + 1}`;
+      if (!raw || typeof raw !== 'object') {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      if (typeof raw.id !== 'string' || !raw.id) {
+        errors.push(`${label} needs an id`);
+      } else if (ids.has(raw.id)) {
+        errors.push(`${label} is defined more than once`);
+      } else {
+        ids.add(raw.id);
+      }
+      if (!knownTypes.includes(raw.actionType)) {
+        errors.push(`${label} has unknown actionType "${raw.actionType}"`);
+      }
+      if (typeof raw.title !== 'string' || !raw.title.trim()) {
+        errors.push(`${label} needs a title`);
+      }
+      if (!Number.isInteger(raw.order) || raw.order < 1) {
+        errors.push(`${label} needs an integer order >= 1`);
+      }
+      if (raw.dependsOn !== undefined && (!Array.isArray(raw.dependsOn) || raw.dependsOn.some((d: any) => typeof d !== 'string'))) {
+        errors.push(`${label} dependsOn must be a list of action ids`);
+      }
+
+      actions.push({
+        id: raw.id,
+        actionType: raw.actionType,
+        title: raw.title,
+        description: typeof raw.description === 'string' ? raw.description : '',
+        payload: raw.payload && typeof raw.payload === 'object' ? raw.payload : {},
+        policy: raw.policy && typeof raw.policy === 'object' ? raw.policy : {},
+        order: raw.order,
+        dependsOn: Array.isArray(raw.dependsOn) && raw.dependsOn.length > 0 ? raw.dependsOn : undefined,
+        parallelizable: raw.parallelizable === true,
+        estimatedDuration: typeof raw.estimatedDuration === 'number' && raw.estimatedDuration >= 0 ? raw.estimatedDuration : 10
+      });
+    });
+
+    // dependsOn must point at earlier actions of this workflow; batches follow `order`
+    actions.forEach(action => {
+      (action.dependsOn || []).forEach(depId => {
+        const dependency = actions.find(a => a.id === depId);
+        if (!dependency) {
+          errors.push(`Action "${action.id}" depends on unknown action "${depId}"`);
+        } else if (dependency.id === action.id) {
+          errors.push(`Action "${action.id}" depends on itself`);
+        } else if (dependency.order >= action.order) {
+          errors.push(`Action "${action.id}" depends on "${depId}", which must have a lower order`);
+        }
+      });
+    });
+
+    const cycle = this.findDependencyCycle(actions);
+    if (cycle) {
+      errors.push(`Dependency cycle: ${cycle.join(' -> ')}`);
+    }
+
+    const rawDependencies: any[] = Array.isArray(input.dependencies) ? input.dependencies : [];
+    rawDependencies.forEach((dep, index) => {
+      if (!dep || !['integration', 'permission', 'data'].includes(dep.type) || typeof dep.requirement !== 'string') {
+        errors.push(`Dependency #${index + 1} needs a type (integration, permission, data) and a requirement`);
+      }
+    });
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const template: WorkflowTemplate = {
+      id: input.id,
+      name: input.name.trim(),
+      description: typeof input.description === 'string' ? input.description : '',
+      category: typeof input.category === 'string' && input.category ? input.category : 'custom',
+      triggers: input.triggers || [],
+      actions,
+      dependencies: rawDependencies.map(dep => ({
+        type: dep.type,
+        requirement: dep.requirement,
+        description: typeof dep.description === 'string' ? dep.description : dep.requirement,
+        optional: dep.optional === true
+      })),
+      estimatedDuration: typeof input.estimatedDuration === 'number'
+        ? input.estimatedDuration
+        : actions.reduce((sum, a) => sum + a.estimatedDuration, 0),
+      riskLevel: input.riskLevel || 'medium',
+      source: 'user'
+    };
+
+    return { template, errors: [] };
+  }
+
+  /**
+   * Validate and store a user template as a new version
+   */
+  static async saveUserTemplate(userToken: string, input: any): Promise<{ template?: WorkflowTemplate; errors: string[] }> {
+    const { template, errors } = this.validateTemplate(input);
+    if (!template) {
+      return { errors };
+    }
+
+    const { data: latest } = await supabase
+      .from('workflow_templates')
+      .select('id, version')
+      .eq('user_token', userToken)
+      .eq('template_key', template.id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const version = (latest?.version || 0) + 1;
+
+    if (latest) {
+      await supabase
+        .from('workflow_templates')
+        .update({ is_latest: false })
+        .eq('user_token', userToken)
+        .eq('template_key', template.id)
+        .eq('is_latest', true);
+    }
+
+    const { data, error } = await supabase
+      .from('workflow_templates')
+      .insert({
+        user_token: userToken,
+        template_key: template.id,
+        version,
+        name: template.name,
+        description: template.description,
+        category: template.category,
+        triggers: template.triggers,
+        risk_level: template.riskLevel,
+        estimated_duration: template.estimatedDuration,
+        actions: template.actions,
+        dependencies: template.dependencies,
+        is_latest: true,
+        is_active: true
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[WORKFLOW] Failed to save template:', error);
+      // Give the previous version its latest flag back
+      if (latest) {
+        await supabase.from('workflow_templates').update({ is_latest: true }).eq('id', latest.id);
+      }
+      throw new Error('Failed to save workflow template');
+    }
+
+    console.log(`[WORKFLOW] Saved template ${template.id} v${version}`);
+    return { template: this.rowToTemplate(data), errors: [] };
+  }
+
+  static async listTemplateVersions(userToken: string, workflowId: string): Promise<WorkflowTemplate[]> {
+    const { data, error } = await supabase
+      .from('workflow_templates')
+      .select('*')
+      .eq('user_token', userToken)
+      .eq('template_key', workflowId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('[WORKFLOW] Failed to list template versions:', error);
+      throw new Error('Failed to list template versions');
+    }
+    return (data || []).map(row => this.rowToTemplate(row));
+  }
+
+  /**
+   * Deactivate every version of a user template and its schedules
+   */
+  static async deleteUserTemplate(userToken: string, workflowId: string): Promise<void> {
+    const { error } = await supabase
+      .from('workflow_templates')
+      .update({ is_active: false })
+      .eq('user_token', userToken)
+      .eq('template_key', workflowId);
+
+    if (error) {
+      console.error('[WORKFLOW] Failed to delete template:', error);
+      throw new Error('Failed to delete workflow template');
+    }
+
+    await supabase
+      .from('workflow_schedules')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('user_token', userToken)
+      .eq('workflow_id', workflowId);
+  }
+
+  /**
+   * Plan and create the actions of a workflow for a site (chat and scheduled triggers)
+   */
+  static async runWorkflow(
+    userToken: string,
+    siteUrl: string,
+    workflowId: string,
+    options: { ideaId?: string; version?: number; triggeredBy?: 'user' | 'agent' | 'schedule' } = {}
+  ): Promise<WorkflowRunResult> {
+    const template = await this.findTemplate(workflowId, userToken, options.version);
+    if (!template) {
+      throw new Error(`Workflow template not found: ${workflowId}`);
+    }
+
+    const plan = await this.createExecutionPlan(options.ideaId || null, template, userToken, siteUrl);
+
+    if (plan.blockedActions.length > 0) {
+      return {
+        executed: false,
+        plan,
+        actionIds: [],
+        message: `Workflow "${template.name}" is blocked: ${plan.blockedActions.map(b => `${b.actionId} (${b.reason})`).join(', ')}`
+      };
+    }
+
+    const result = await this.executeWorkflowPlan(plan, userToken, siteUrl);
+
+    await supabase
+      .from('agent_events')
+      .insert({
+        user_token: userToken,
+        event_type: 'workflow_executed',
+        entity_type: options.ideaId ? 'idea' : 'workflow',
+        entity_id: options.ideaId || null,
+        event_data: {
+          workflow_id: template.id,
+          workflow_name: template.name,
+          version: template.version || null,
+          site_url: siteUrl,
+          actions_created: result.actionIds,
+          estimated_duration: plan.totalEstimatedDuration
+        },
+        triggered_by: options.triggeredBy || 'user'
+      });
+
+    return { executed: true, plan, actionIds: result.actionIds, message: result.message };
+  }
+
+  static async scheduleWorkflow(
+    userToken: string,
+    siteUrl: string,
+    workflowId: string,
+    frequency: WorkflowScheduleFrequency,
+    options: { version?: number; startAt?: string } = {}
+  ) {
+    if (!['daily', 'weekly', 'monthly'].includes(frequency)) {
+      throw new Error('frequency must be daily, weekly or monthly');
+    }
+
+    const template = await this.findTemplate(workflowId, userToken, options.version);
+    if (!template) {
+      throw new Error(`Workflow template not found: ${workflowId}`);
+    }
+
+    const { data, error } = await supabase
+      .from('workflow_schedules')
+      .insert({
+        user_token: userToken,
+        site_url: siteUrl,
+        workflow_id: workflowId,
+        version: options.version || null,
+        frequency,
+        next_run_at: options.startAt || this.getNextRunAt(frequency).toISOString(),
+        is_active: true
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[WORKFLOW] Failed to create schedule:', error);
+      throw new Error('Failed to schedule workflow');
+    }
+    return data;
+  }
+
+  static async listSchedules(userToken: string, siteUrl?: string) {
+    let query = supabase
+      .from('workflow_schedules')
+      .select('*')
+      .eq('user_token', userToken)
+      .eq('is_active', true)
+      .order('next_run_at');
+
+    if (siteUrl) query = query.eq('site_url', siteUrl);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[WORKFLOW] Failed to list schedules:', error);
+      throw new Error('Failed to list workflow schedules');
+    }
+    return data || [];
+  }
+
+  static async deleteSchedule(userToken: string, scheduleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('workflow_schedules')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .eq('user_token', userToken);
+
+    if (error) {
+      console.error('[WORKFLOW] Failed to delete schedule:', error);
+      throw new Error('Failed to delete workflow schedule');
+    }
+  }
+
+  /**
+   * Run every schedule that is due and move it to its next slot
+   */
+  static async runDueSchedules(limit: number = 20): Promise<{ processed: number; executed: number; errors: string[] }> {
+    const { data: schedules, error } = await supabase
+      .from('workflow_schedules')
+      .select('*')
+      .eq('is_active', true)
+      .lte('next_run_at', new Date().toISOString())
+      .order('next_run_at')
+      .limit(limit);
+
+    if (error) {
+      console.error('[WORKFLOW] Failed to load due schedules:', error);
+      throw new Error('Failed to load due workflow schedules');
+    }
+
+    const summary = { processed: 0, executed: 0, errors: [] as string[] };
+
+    for (const schedule of schedules || []) {
+      summary.processed++;
+      let lastResult: Record<string, any>;
+
+      try {
+        const result = await this.runWorkflow(schedule.user_token, schedule.site_url, schedule.workflow_id, {
+          version: schedule.version || undefined,
+          triggeredBy: 'schedule'
+        });
+        if (result.executed) summary.executed++;
+        lastResult = { executed: result.executed, action_ids: result.actionIds, message: result.message };
+      } catch (runError) {
+        const message = runError instanceof Error ? runError.message : 'Unknown error';
+        summary.errors.push(`${schedule.id}: ${message}`);
+        lastResult = { executed: false, error: message };
+      }
+
+      // Advance from the slot that was due so a late cron run doesn't shift the schedule
+      await supabase
+        .from('workflow_schedules')
+        .update({
+          last_run_at: new Date().toISOString(),
+          last_result: lastResult,
+          next_run_at: this.getNextRunAt(schedule.frequency, new Date(schedule.next_run_at)).toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', schedule.id);
     }
 
-    return templates;
+    return summary;
   }
 
   /**
@@ -594,6 +1036,88 @@ export class WorkflowEngine {
     return batches;
   }
 
+  private static filterTemplates(templates: WorkflowTemplate[], category?: string, searchTerm?: string): WorkflowTemplate[] {
+    let filtered = templates;
+
+    if (category) {
+      filtered = filtered.filter(t => t.category === category);
+    }
+
+    if (searchTerm) {
+      const search = searchTerm.toLowerCase();
+      filtered = filtered.filter(t => 
+        t.name.toLowerCase().includes(search) ||
+        t.description.toLowerCase().includes(search) ||
+        t.triggers.some(trigger => trigger.includes(search))
+      );
+    }
+
+    return filtered;
+  }
+
+  private static getKnownActionTypes(): string[] {
+    const types = this.WORKFLOW_TEMPLATES.flatMap(t => t.actions.map(a => a.actionType));
+    return Array.from(new Set([...types, ...EXTRA_ACTION_TYPES]));
+  }
+
+  /**
+   * Depth-first search over dependsOn; returns the ids forming a cycle, if any
+   */
+  private static findDependencyCycle(actions: WorkflowAction[]): string[] | null {
+    const state: Record<string, 'visiting' | 'done'> = {};
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+      if (state[id] === 'done') return null;
+      if (state[id] === 'visiting') return [...path.slice(path.indexOf(id)), id];
+
+      state[id] = 'visiting';
+      path.push(id);
+      const action = actions.find(a => a.id === id);
+      for (const depId of action?.dependsOn || []) {
+        if (!actions.some(a => a.id === depId)) continue;
+        const cycle = visit(depId);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      state[id] = 'done';
+      return null;
+    };
+
+    for (const action of actions) {
+      const cycle = visit(action.id);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  private static rowToTemplate(row: any): WorkflowTemplate {
+    return {
+      id: row.template_key,
+      name: row.name,
+      description: row.description || '',
+      category: row.category,
+      triggers: row.triggers || [],
+      actions: row.actions || [],
+      dependencies: row.dependencies || [],
+      estimatedDuration: row.estimated_duration || 0,
+      riskLevel: row.risk_level,
+      source: 'user',
+      version: row.version
+    };
+  }
+
+  private static getNextRunAt(frequency: WorkflowScheduleFrequency, from: Date = new Date()): Date {
+    const next = new Date(from.getTime());
+    const now = Date.now();
+    do {
+      if (frequency === 'daily') next.setUTCDate(next.getUTCDate() + 1);
+      else if (frequency === 'weekly') next.setUTCDate(next.getUTCDate() + 7);
+      else next.setUTCMonth(next.getUTCMonth() + 1);
+    } while (next.getTime() <= now);
+    return next;
+  }
+
   private static actionRequiresDependency(action: WorkflowAction, requirement: string): boolean {
     // Simple mapping - in a real system this would be more sophisticated
     const actionDependencyMap: Record<string, string[]> = {
@@ -0,0 +1,181 @@
+/**
+ * Chat Stream
+ *
+ * Server-sent events for the chat agent, so the UI updates while a turn is still running:
+ * - token: text as the model writes it
+ * - tool_started / tool_progress / tool_finished: each tool call, the steps long tools report
+ *   (article generation, site crawls) and its result as soon as that tool is done
+ * - error: a tool or the turn failed
+ * - done: the same body the endpoint returns without streaming; always the last event
+ */
+
+import type OpenAI from 'openai';
+import type { ToolProgressUpdate } from './function-caller';
+
+// Sent as an SSE comment while tools run so proxies don't close an idle connection
+const KEEP_ALIVE_MS = 15000;
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no'
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChatStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'tool_started'; toolCallId: string; name: string; label: string; arguments: any }
+  | ({ type: 'tool_progress'; toolCallId: string; name: string } & ToolProgressUpdate)
+  | { type: 'tool_finished'; toolCallId: string; name: string; success: boolean; error?: string; durationMs: number; result?: any }
+  | { type: 'error'; message: string; toolCallId?: string }
+  | { type: 'done'; response: any };
+
+export type ChatStreamEmitter = (event: ChatStreamEvent) => void;
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * SSE response that runs a chat turn, writing each event it emits as it happens
+ */
+export function createChatEventStream(run: (emit: ChatStreamEmitter) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Client disconnected; the turn keeps running so its results are still stored
+          closed = true;
+        }
+      };
+
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      try {
+        await run((event) => write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      } catch (error) {
+        console.error('[CHAT STREAM] Turn failed:', error);
+        const message = error instanceof Error ? error.message : 'Chat failed';
+        write(`event: error\ndata: ${JSON.stringify({ type: 'error', message })}\n\n`);
+      } finally {
+        clearInterval(keepAlive);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    }
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+/**
+ * Chat completion with stream: true, emitting text tokens as they arrive and
+ * reassembling the message (including tool calls) once the stream ends
+ */
+export async function collectStreamedCompletion(
+  openai: OpenAI,
+  params: Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming, 'stream'>,
+  emit: ChatStreamEmitter
+): Promise<{ message: OpenAI.Chat.Completions.ChatCompletionMessage; finishReason: string | null }> {
+  const stream = await openai.chat.completions.create({ ...params, stream: true });
+
+  let content = '';
+  let finishReason: string | null = null;
+  const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] = [];
+
+  for await (const chunk of stream) {
+    const choice = chunk.choices[0];
+    if (!choice) continue;
+
+    if (choice.delta?.content) {
+      content += choice.delta.content;
+      emit({ type: 'token', delta: choice.delta.content });
+    }
+
+    // Tool calls arrive in pieces keyed by index: id and name first, then argument fragments
+    for (const part of choice.delta?.tool_calls || []) {
+      const call = toolCalls[part.index] || (toolCalls[part.index] = {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' }
+      });
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+    }
+
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  }
+
+  const calls = toolCalls.filter(Boolean);
+  return {
+    message: {
+      role: 'assistant',
+      content: content || null,
+      refusal: null,
+      ...(calls.length > 0 ? { tool_calls: calls } : {})
+    },
+    finishReason
+  };
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Read an SSE chat response, calling onEvent for each event in order
+ */
+export async function readChatEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return; // keep-alive comment
+
+    let event: ChatStreamEvent;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      console.error('[CHAT STREAM] Unreadable event:', error);
+      return;
+    }
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
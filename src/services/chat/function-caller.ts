@@ -8,9 +8,9 @@
  */
 
 import { AbilityRegistry } from '../agent/abilities';
-import type { FunctionCallResult } from '../agent/abilities';
+import type { FunctionCallResult, ToolProgressReporter, ToolProgressUpdate } from '../agent/abilities';
 
-export type { FunctionCallResult };
+export type { FunctionCallResult, ToolProgressReporter, ToolProgressUpdate };
 
 export class FunctionCaller {
   private userToken?: string;
@@ -21,11 +21,11 @@ export class FunctionCaller {
     this.abilityRegistry = new AbilityRegistry(userToken);
   }
   
-  async executeFunction(name: string, args: any): Promise<FunctionCallResult> {
+  async executeFunction(name: string, args: any, onProgress?: ToolProgressReporter): Promise<FunctionCallResult> {
     try {
       // Use the new ability system
       if (this.abilityRegistry.canExecuteFunction(name)) {
-        return await this.abilityRegistry.executeFunction(name, args);
+        return await this.abilityRegistry.executeFunction(name, args, onProgress);
       }
 
       // Fallback for legacy functions that haven't been migrated yet
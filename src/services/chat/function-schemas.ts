@@ -483,6 +483,59 @@ export const FUNCTION_REGISTRY: Record<string, FunctionDefinition> = {
     requiresSetup: false
   },
 
+  'plan_crawl': {
+    schema: {
+      name: 'plan_crawl',
+      description: 'Plan which URLs to crawl and how deep using the sitemap, GSC pages with traffic and robots.txt; optionally start the crawl',
+      parameters: {
+        type: 'object',
+        properties: {
+          site_url: { type: 'string', description: 'Website URL to plan a crawl for' },
+          max_pages: { type: 'integer', description: 'Page budget for the crawl', default: 100 },
+          crawl_depth: { type: 'integer', description: 'Maximum URL depth to include', default: 3 },
+          start_crawl: { type: 'boolean', description: 'Start a crawl with the planned settings', default: false }
+        },
+        required: ['site_url'],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      site_url: flexibleUrlSchema,
+      max_pages: z.number().int().min(1).max(1000).optional().default(100),
+      crawl_depth: z.number().int().min(1).max(10).optional().default(3),
+      start_crawl: z.boolean().optional().default(false)
+    }),
+    category: 'seo',
+    requiresSetup: false
+  },
+
+  'analyze_crawl': {
+    schema: {
+      name: 'analyze_crawl',
+      description: 'Build a site-wide report from a finished crawl: duplicate titles, orphan pages, redirect chains, thin content and click-depth distribution',
+      parameters: {
+        type: 'object',
+        properties: {
+          crawl_id: { type: 'string', description: 'ID of the crawl job to analyze' },
+          analysis_type: {
+            type: 'string',
+            enum: ['full', 'duplicates', 'orphans', 'redirects', 'thin_content', 'depth'],
+            description: 'Limit the report to one analysis',
+            default: 'full'
+          }
+        },
+        required: ['crawl_id'],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      crawl_id: z.string().min(1),
+      analysis_type: z.enum(['full', 'duplicates', 'orphans', 'redirects', 'thin_content', 'depth']).optional().default('full')
+    }),
+    category: 'seo',
+    requiresSetup: false
+  },
+
   'SITEMAP_generate_submit': {
     schema: {
       name: 'SITEMAP_generate_submit',
@@ -549,6 +602,58 @@ export const FUNCTION_REGISTRY: Record<string, FunctionDefinition> = {
     requiresSetup: false
   },
 
+  'rollback_changes': {
+    schema: {
+      name: 'rollback_changes',
+      description: 'Undo changes the agent applied to the website: a whole run, or a single patch. Restores the stored before-snapshot (meta tags, alt text, schema, canonical or CMS fields). Call without ids to list recent patches that can be rolled back.',
+      parameters: {
+        type: 'object',
+        properties: {
+          run_id: { type: 'string', description: 'Run whose patches should all be rolled back' },
+          patch_id: { type: 'string', description: 'Single patch to roll back' },
+          reason: { type: 'string', description: 'Why the change is being undone' },
+          force: { type: 'boolean', description: 'Roll back even if the page was changed again after the patch', default: false }
+        },
+        required: [],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      run_id: z.string().optional(),
+      patch_id: z.string().optional(),
+      reason: z.string().optional(),
+      force: z.boolean().optional().default(false)
+    }),
+    category: 'verification',
+    requiresSetup: false
+  },
+
+  'run_workflow': {
+    schema: {
+      name: 'run_workflow',
+      description: 'Run a multi-step workflow (built-in or one the team defined) for a website: creates its actions in dependency order. Pass schedule to run it daily, weekly or monthly instead. Call without workflow_id to list available workflows.',
+      parameters: {
+        type: 'object',
+        properties: {
+          site_url: { type: 'string', description: 'Website URL or domain' },
+          workflow_id: { type: 'string', description: 'Workflow template id, e.g. technical_seo_audit_fix or a custom template id' },
+          version: { type: 'number', description: 'Specific version of a custom template (defaults to latest)' },
+          schedule: { type: 'string', enum: ['daily', 'weekly', 'monthly'], description: 'Run on a recurring schedule instead of now' }
+        },
+        required: ['site_url'],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      site_url: z.string(),
+      workflow_id: z.string().optional(),
+      version: z.number().int().positive().optional(),
+      schedule: z.enum(['daily', 'weekly', 'monthly']).optional()
+    }),
+    category: 'optimization',
+    requiresSetup: false
+  },
+
   'CMS_wordpress_publish': {
     schema: {
       name: 'CMS_wordpress_publish',
@@ -1420,6 +1525,109 @@ IMPORTANT: If you suggest specific lists and user confirms, use MANUAL MODE with
     requiresSetup: false
   },
 
+  // ===== Performance analytics functions =====
+  'get_site_performance': {
+    schema: {
+      name: 'get_site_performance',
+      description: 'Get Search Console totals, daily series, top queries and top pages for a website over a period',
+      parameters: {
+        type: 'object',
+        properties: {
+          site_url: { type: 'string', description: 'Website URL' },
+          date_range: { type: 'string', description: 'Period: "7d", "28d", "30d", "90d", "this_month", "last_month" or "YYYY-MM-DD..YYYY-MM-DD"', default: '30d' }
+        },
+        required: ['site_url'],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      site_url: flexibleUrlSchema,
+      date_range: z.string().optional().default('30d')
+    }),
+    category: 'analytics',
+    requiresSetup: true
+  },
+
+  'compare_performance': {
+    schema: {
+      name: 'compare_performance',
+      description: 'Compare Search Console clicks, impressions, CTR and position between two periods (e.g. this month vs last month) with significance flags and top gaining/losing queries and pages',
+      parameters: {
+        type: 'object',
+        properties: {
+          site_url: { type: 'string', description: 'Website URL' },
+          compare_period: { type: 'string', description: 'Current period: "7d", "28d", "this_month", "last_month", "this_week", "last_week" or "YYYY-MM-DD..YYYY-MM-DD"', default: '28d' },
+          base_period: { type: 'string', description: 'Baseline: "previous" (equal-length period right before), "previous_year", or any period spec (e.g. "last_month")', default: 'previous' }
+        },
+        required: ['site_url'],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      site_url: flexibleUrlSchema,
+      compare_period: z.string().optional().default('28d'),
+      base_period: z.string().optional().default('previous')
+    }),
+    category: 'analytics',
+    requiresSetup: true
+  },
+
+  'get_performance_trends': {
+    schema: {
+      name: 'get_performance_trends',
+      description: 'Get daily and weekly Search Console trends with trend lines for the site and rising/declining queries and pages',
+      parameters: {
+        type: 'object',
+        properties: {
+          site_url: { type: 'string', description: 'Website URL' },
+          period: { type: 'string', description: 'Period to analyze (e.g. "28d", "90d")', default: '90d' },
+          metrics: {
+            type: 'array',
+            items: { type: 'string', enum: ['clicks', 'impressions', 'ctr', 'position'] },
+            description: 'Metrics to fit trend lines for (defaults to all)'
+          }
+        },
+        required: ['site_url'],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      site_url: flexibleUrlSchema,
+      period: z.string().optional().default('90d'),
+      metrics: z.array(z.enum(['clicks', 'impressions', 'ctr', 'position'])).optional()
+    }),
+    category: 'analytics',
+    requiresSetup: true
+  },
+
+  'analyze_metrics': {
+    schema: {
+      name: 'analyze_metrics',
+      description: 'Analyze Search Console performance and return insights: significant changes, declining queries/pages, low-CTR and page-two opportunities',
+      parameters: {
+        type: 'object',
+        properties: {
+          site_url: { type: 'string', description: 'Website URL' },
+          metric_types: {
+            type: 'array',
+            items: { type: 'string', enum: ['clicks', 'impressions', 'ctr', 'position'] },
+            description: 'Metrics to focus on (defaults to all)'
+          },
+          date_range: { type: 'string', description: 'Period to analyze against the preceding period of equal length', default: '28d' }
+        },
+        required: ['site_url'],
+        additionalProperties: false
+      }
+    },
+    validator: z.object({
+      site_url: flexibleUrlSchema,
+      metric_types: z.array(z.enum(['clicks', 'impressions', 'ctr', 'position'])).optional(),
+      date_range: z.string().optional().default('28d')
+    }),
+    category: 'analytics',
+    requiresSetup: true
+  },
+
   // ===== DATABASE QUERY FUNCTIONS =====
   'DATABASE_get_gsc_performance': {
     schema: {
@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
 import { AgentMemory, WebsiteContext } from '../agent/agent-memory';
+import { collectStreamedCompletion, type ChatStreamEmitter } from './chat-stream';
 
 interface ChatContext {
   history: Array<{
@@ -447,7 +448,7 @@ export class OpenAIFunctionClient {
             },
             cms_type: {
               type: 'string',
-              enum: ['wordpress', 'webflow', 'shopify', 'strapi', 'ghost'],
+              enum: ['wordpress', 'webflow', 'shopify', 'strapi', 'ghost', 'contentful', 'sanity', 'git', 'webhook'],
               description: 'Type of CMS to connect'
             },
             credentials: {
@@ -837,7 +838,11 @@ export class OpenAIFunctionClient {
     ];
   }
 
-  async sendMessage(message: string, context: ChatContext): Promise<{
+  /**
+   * Answer a chat message, running at most one tool call. With onEvent the model's tokens and the
+   * tool's start and finish are emitted as they happen; the returned value is the same either way.
+   */
+  async sendMessage(message: string, context: ChatContext, onEvent?: ChatStreamEmitter): Promise<{
     content: string;
     functionCall?: {
       name: string;
@@ -857,7 +862,7 @@ export class OpenAIFunctionClient {
         console.log('[OPENAI FUNC CLIENT][LLM] model=gpt-4 messages=', preview);
       } catch {}
 
-      const response = await this.openai.chat.completions.create({
+      const messageContent = await this.complete({
         model: 'gpt-4',
         messages: [
           { role: 'system', content: systemPrompt },
@@ -870,12 +875,8 @@ export class OpenAIFunctionClient {
         })),
         tool_choice: 'auto',
         temperature: 0.7,
-        max_tokens: 1500,
-        stream: false
-      });
-
-      const choice = response.choices[0];
-      const messageContent = choice.message;
+        max_tokens: 1500
+      }, onEvent);
 
       // Handle tool calls (new function calling format)
       if (messageContent.tool_calls && messageContent.tool_calls.length > 0) {
@@ -887,9 +888,25 @@ export class OpenAIFunctionClient {
           console.log(`Executing function: ${functionName}`, functionArgs);
           
           // Execute the function with memory recording
+          onEvent?.({
+            type: 'tool_started',
+            toolCallId: toolCall.id,
+            name: functionName,
+            label: functionName.replace(/_/g, ' '),
+            arguments: functionArgs
+          });
           const startTime = Date.now();
           const result = await this.functionCaller.executeFunction(functionName, functionArgs);
           const executionTime = Date.now() - startTime;
+          onEvent?.({
+            type: 'tool_finished',
+            toolCallId: toolCall.id,
+            name: functionName,
+            success: result.success,
+            error: result.error,
+            durationMs: executionTime,
+            result
+          });
           
           // Record the action in database for activity tracking
           if (context.userToken) {
@@ -939,7 +956,7 @@ export class OpenAIFunctionClient {
             console.log('[OPENAI FUNC CLIENT][LLM] follow-up model=gpt-4 messages=', preview);
           } catch {}
 
-          const followUpResponse = await this.openai.chat.completions.create({
+          const followUp = await this.complete({
             model: 'gpt-4',
             messages: [
               { role: 'system', content: systemPrompt },
@@ -958,10 +975,10 @@ export class OpenAIFunctionClient {
             ],
             temperature: 0.7,
             max_tokens: 1000
-          });
+          }, onEvent);
 
           return {
-            content: followUpResponse.choices[0].message.content || 'Function executed successfully.',
+            content: followUp.content || 'Function executed successfully.',
             functionCall: {
               name: functionName,
               arguments: functionArgs,
@@ -983,6 +1000,20 @@ export class OpenAIFunctionClient {
     }
   }
 
+  // One model call; streamed when the caller is listening for events
+  private async complete(
+    params: Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, 'stream'>,
+    onEvent?: ChatStreamEmitter
+  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessage> {
+    if (onEvent) {
+      const { message } = await collectStreamedCompletion(this.openai, params, onEvent);
+      return message;
+    }
+
+    const response = await this.openai.chat.completions.create({ ...params, stream: false });
+    return response.choices[0].message;
+  }
+
   private async buildSystemPrompt(context: ChatContext): Promise<string> {
     let prompt = `You are an expert SEO assistant for SEOAgent.com. You help users with:
 
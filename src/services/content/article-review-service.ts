@@ -0,0 +1,564 @@
+/**
+ * Article Review Service
+ *
+ * Editorial review of generated articles before they are published:
+ * - A shareable, tokenized preview link renders the draft with its meta tags, schema and images
+ * - Reviewers leave inline comments anchored to quoted passages
+ * - Requesting changes revises the draft with the open comments and the reviewer's note, then
+ *   puts the revision back up for review
+ * - Only approved articles can be published (enforced in ArticlePublisher)
+ *
+ * Every action is recorded in article_review_events; the article row carries the current
+ * review_status and who last approved it.
+ */
+
+import { randomBytes } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { EnhancedArticleGenerator } from './enhanced-article-generator';
+import { ArticleVersionService } from './article-version-service';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const ARTICLE_FIELDS = 'id, user_token, title, slug, status, meta_title, meta_description, article_content, schema_json, target_keywords, article_type, review_status, preview_token, reviewed_by, reviewed_at, websites:website_id (domain)';
+
+// Articles that are being generated or already went out can't be reviewed
+const UNREVIEWABLE_STATUSES = ['pending', 'generating', 'publishing', 'published'];
+
+const MAX_NAME_LENGTH = 120;
+const MAX_QUOTE_LENGTH = 1000;
+const MAX_COMMENT_LENGTH = 5000;
+
+// Owner actions show up under this name; the preview shows the same events, never the userToken
+export const OWNER_REVIEWER: Reviewer = { name: 'Owner', via: 'owner' };
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReviewStatus = 'pending' | 'changes_requested' | 'revising' | 'approved';
+
+export type ReviewEventAction =
+  | 'preview_link_created'
+  | 'preview_link_revoked'
+  | 'comment_added'
+  | 'comment_resolved'
+  | 'changes_requested'
+  | 'revised'
+  | 'revision_failed'
+  | 'approved'
+  | 'approval_withdrawn';
+
+// Owners act with their userToken; anyone holding the preview link acts with its token
+export type ReviewAccess = { userToken: string; articleId: number } | { previewToken: string };
+
+export interface Reviewer {
+  name: string;
+  via: 'owner' | 'preview_link';
+}
+
+export interface ReviewComment {
+  id: string;
+  author_name: string;
+  via: 'owner' | 'preview_link';
+  quote: string | null;
+  body: string;
+  status: 'open' | 'resolved';
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface ReviewEvent {
+  id: string;
+  action: ReviewEventAction;
+  actor: string;
+  via: 'owner' | 'preview_link' | 'system';
+  note: string | null;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+export interface ArticleReview {
+  articleId: number;
+  status: ReviewStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  previewToken: string | null; // Owners only; never part of a preview
+  comments: ReviewComment[];
+  events: ReviewEvent[];
+}
+
+export interface PreviewImage {
+  url: string | null; // null until the image is generated at publish time
+  alt: string | null;
+  caption: string | null;
+  type: string;
+  prompt: string | null;
+}
+
+export interface ArticlePreview {
+  articleId: number;
+  title: string;
+  metaTitle: string;
+  metaDescription: string;
+  slug: string | null;
+  domain: string | null;
+  content: string;
+  schemaJson: any;
+  images: PreviewImage[];
+  published: boolean;
+  review: Omit<ArticleReview, 'previewToken'>;
+}
+
+export type ReviewFailure = 'not_found' | 'invalid_input' | 'invalid_state' | 'revision_failed';
+
+export type ReviewActionResult =
+  | { success: true; review: ArticleReview }
+  | { success: false; reason: ReviewFailure; error: string };
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class ArticleReviewService {
+  private generator: EnhancedArticleGenerator;
+
+  constructor(generator: EnhancedArticleGenerator = new EnhancedArticleGenerator()) {
+    this.generator = generator;
+  }
+
+  /**
+   * Review state of an owner's article
+   */
+  async getReview(userToken: string, articleId: number): Promise<ArticleReview | null> {
+    const article = await this.loadArticle({ userToken, articleId });
+    return article ? this.buildReview(article) : null;
+  }
+
+  /**
+   * Everything the preview page renders, looked up by the preview link's token
+   */
+  async getPreview(previewToken: string): Promise<ArticlePreview | null> {
+    const article = await this.loadArticle({ previewToken });
+    if (!article || !article.article_content) return null;
+
+    const [{ data: images }, review] = await Promise.all([
+      supabase
+        .from('article_images')
+        .select('image_url, alt_text, caption, image_type, prompt_used, position_in_article')
+        .eq('article_queue_id', article.id)
+        .order('position_in_article', { ascending: true }),
+      this.buildReview(article)
+    ]);
+
+    const { previewToken: _token, ...publicReview } = review;
+
+    return {
+      articleId: article.id,
+      title: article.title,
+      metaTitle: article.meta_title || article.title,
+      metaDescription: article.meta_description || '',
+      slug: article.slug || null,
+      domain: article.websites?.domain || null,
+      content: article.article_content,
+      schemaJson: this.parseSchema(article.schema_json),
+      images: (images || []).map((image: any) => ({
+        url: image.image_url || null,
+        alt: image.alt_text || null,
+        caption: image.caption || null,
+        type: image.image_type,
+        prompt: image.prompt_used || null
+      })),
+      published: article.status === 'published',
+      review: publicReview
+    };
+  }
+
+  /**
+   * Create the article's preview link, or replace it (the old link stops working)
+   */
+  async createPreviewLink(userToken: string, articleId: number): Promise<ReviewActionResult> {
+    const article = await this.loadArticle({ userToken, articleId });
+    if (!article) return this.notFound();
+    if (!article.article_content) {
+      return { success: false, reason: 'invalid_state', error: 'Article content not generated yet' };
+    }
+
+    const previewToken = randomBytes(24).toString('hex');
+    await this.updateArticle(article.id, { preview_token: previewToken });
+    await this.recordEvent(article, 'preview_link_created', OWNER_REVIEWER, {
+      metadata: { replaced: !!article.preview_token }
+    });
+
+    return this.success(article.id, { userToken, articleId });
+  }
+
+  async revokePreviewLink(userToken: string, articleId: number): Promise<ReviewActionResult> {
+    const article = await this.loadArticle({ userToken, articleId });
+    if (!article) return this.notFound();
+    if (!article.preview_token) {
+      return { success: false, reason: 'invalid_state', error: 'Article has no preview link' };
+    }
+
+    await this.updateArticle(article.id, { preview_token: null });
+    await this.recordEvent(article, 'preview_link_revoked', OWNER_REVIEWER);
+
+    return this.success(article.id, { userToken, articleId });
+  }
+
+  /**
+   * Leave a comment, anchored to a quoted passage of the article when quote is set
+   */
+  async addComment(access: ReviewAccess, reviewer: Reviewer, input: { body: string; quote?: string | null }): Promise<ReviewActionResult> {
+    const inputError = this.validateReviewer(reviewer)
+      || (!input.body?.trim() ? 'Comment text is required' : null)
+      || (input.body.length > MAX_COMMENT_LENGTH ? `Comments are limited to ${MAX_COMMENT_LENGTH} characters` : null)
+      || ((input.quote?.length || 0) > MAX_QUOTE_LENGTH ? `Quoted passages are limited to ${MAX_QUOTE_LENGTH} characters` : null);
+    if (inputError) return { success: false, reason: 'invalid_input', error: inputError };
+
+    const article = await this.loadArticle(access);
+    if (!article) return this.notFound();
+    const stateError = this.reviewableError(article);
+    if (stateError) return { success: false, reason: 'invalid_state', error: stateError };
+
+    const { data: comment, error } = await supabase
+      .from('article_review_comments')
+      .insert({
+        article_queue_id: article.id,
+        user_token: article.user_token,
+        author_name: reviewer.name.trim(),
+        via: reviewer.via,
+        quote: input.quote?.trim() || null,
+        body: input.body.trim()
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save comment: ${error.message}`);
+    }
+
+    await this.recordEvent(article, 'comment_added', reviewer, { metadata: { commentId: comment.id } });
+    return this.success(article.id, access);
+  }
+
+  async resolveComment(access: ReviewAccess, reviewer: Reviewer, commentId: string): Promise<ReviewActionResult> {
+    const inputError = this.validateReviewer(reviewer);
+    if (inputError) return { success: false, reason: 'invalid_input', error: inputError };
+
+    const article = await this.loadArticle(access);
+    if (!article) return this.notFound();
+
+    const { data: resolved, error } = await supabase
+      .from('article_review_comments')
+      .update({ status: 'resolved', resolved_by: reviewer.name.trim(), resolved_at: new Date().toISOString() })
+      .eq('id', commentId)
+      .eq('article_queue_id', article.id)
+      .eq('status', 'open')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to resolve comment: ${error.message}`);
+    }
+    if (!resolved || resolved.length === 0) {
+      return { success: false, reason: 'not_found', error: 'Open comment not found' };
+    }
+
+    await this.recordEvent(article, 'comment_resolved', reviewer, { metadata: { commentId } });
+    return this.success(article.id, access);
+  }
+
+  /**
+   * Request changes and revise the draft with the open comments and the note. The revision goes
+   * back up for review; if it fails the article stays in changes_requested and can be retried
+   * with reviseDraft.
+   */
+  async requestChanges(access: ReviewAccess, reviewer: Reviewer, feedback?: string | null): Promise<ReviewActionResult> {
+    const inputError = this.validateReviewer(reviewer)
+      || ((feedback?.length || 0) > MAX_COMMENT_LENGTH ? `Feedback is limited to ${MAX_COMMENT_LENGTH} characters` : null);
+    if (inputError) return { success: false, reason: 'invalid_input', error: inputError };
+
+    const article = await this.loadArticle(access);
+    if (!article) return this.notFound();
+    const stateError = this.reviewableError(article);
+    if (stateError) return { success: false, reason: 'invalid_state', error: stateError };
+
+    const openComments = await this.loadComments(article.id, 'open');
+    if (!feedback?.trim() && openComments.length === 0) {
+      return { success: false, reason: 'invalid_input', error: 'Leave a comment or describe the changes you want' };
+    }
+
+    await this.updateArticle(article.id, { review_status: 'changes_requested', reviewed_by: null, reviewed_at: null });
+    await this.recordEvent(article, 'changes_requested', reviewer, {
+      note: feedback?.trim() || null,
+      metadata: { openComments: openComments.length }
+    });
+
+    return this.revise(article, access, reviewer, feedback?.trim() || null);
+  }
+
+  /**
+   * Retry the revision of an article whose change request couldn't be applied
+   */
+  async reviseDraft(userToken: string, articleId: number): Promise<ReviewActionResult> {
+    const article = await this.loadArticle({ userToken, articleId });
+    if (!article) return this.notFound();
+    if (article.review_status !== 'changes_requested') {
+      return { success: false, reason: 'invalid_state', error: 'No change request is waiting for a revision' };
+    }
+
+    const { data: request } = await supabase
+      .from('article_review_events')
+      .select('note')
+      .eq('article_queue_id', article.id)
+      .eq('action', 'changes_requested')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return this.revise(article, { userToken, articleId }, OWNER_REVIEWER, request?.note || null);
+  }
+
+  async approve(access: ReviewAccess, reviewer: Reviewer, note?: string | null): Promise<ReviewActionResult> {
+    const inputError = this.validateReviewer(reviewer);
+    if (inputError) return { success: false, reason: 'invalid_input', error: inputError };
+
+    const article = await this.loadArticle(access);
+    if (!article) return this.notFound();
+    const stateError = this.reviewableError(article);
+    if (stateError) return { success: false, reason: 'invalid_state', error: stateError };
+    if (article.review_status === 'approved') {
+      return { success: false, reason: 'invalid_state', error: 'Article is already approved' };
+    }
+
+    const openComments = await this.loadComments(article.id, 'open');
+
+    await this.updateArticle(article.id, {
+      review_status: 'approved',
+      reviewed_by: reviewer.name.trim(),
+      reviewed_at: new Date().toISOString()
+    });
+    await this.recordEvent(article, 'approved', reviewer, {
+      note: note?.trim() || null,
+      metadata: { openComments: openComments.length }
+    });
+
+    console.log(`[ARTICLE REVIEW] Article ${article.id} approved by ${reviewer.name.trim()} (${reviewer.via})`);
+    return this.success(article.id, access);
+  }
+
+  /**
+   * Send an approved article back to review (owners only)
+   */
+  async withdrawApproval(userToken: string, articleId: number, note?: string | null): Promise<ReviewActionResult> {
+    const article = await this.loadArticle({ userToken, articleId });
+    if (!article) return this.notFound();
+    const stateError = this.reviewableError(article);
+    if (stateError) return { success: false, reason: 'invalid_state', error: stateError };
+    if (article.review_status !== 'approved') {
+      return { success: false, reason: 'invalid_state', error: 'Article is not approved' };
+    }
+
+    await this.updateArticle(article.id, { review_status: 'pending', reviewed_by: null, reviewed_at: null });
+    await this.recordEvent(article, 'approval_withdrawn', OWNER_REVIEWER, { note: note?.trim() || null });
+
+    return this.success(article.id, { userToken, articleId });
+  }
+
+  private async revise(article: any, access: ReviewAccess, reviewer: Reviewer, feedback: string | null): Promise<ReviewActionResult> {
+    const openComments = await this.loadComments(article.id, 'open');
+
+    await this.updateArticle(article.id, { review_status: 'revising' });
+    await new ArticleVersionService().tryRecordVersion(article.id, 'snapshot');
+
+    try {
+      const revision = await this.generator.reviseWithFeedback({
+        title: article.title,
+        keywords: this.keywordsOf(article),
+        existingContent: article.article_content,
+        metaTitle: article.meta_title,
+        metaDescription: article.meta_description,
+        feedback,
+        comments: openComments.map(comment => ({ quote: comment.quote, body: comment.body, author: comment.author_name })),
+        websiteDomain: article.websites?.domain,
+        articleType: article.article_type || undefined
+      });
+
+      await this.updateArticle(article.id, {
+        article_content: revision.content,
+        meta_title: revision.metaTitle,
+        meta_description: revision.metaDescription,
+        review_status: 'pending'
+      });
+
+      const version = await new ArticleVersionService().tryRecordVersion(article.id, 'review_revision', {
+        reason: `Revised after review by ${reviewer.name.trim()}`,
+        createdBy: reviewer.via === 'owner' ? this.ownerToken(access) || undefined : reviewer.name.trim()
+      });
+
+      if (openComments.length > 0) {
+        await supabase
+          .from('article_review_comments')
+          .update({ status: 'resolved', resolved_by: 'revision', resolved_at: new Date().toISOString() })
+          .in('id', openComments.map(comment => comment.id));
+      }
+
+      await this.recordEvent(article, 'revised', { name: 'system', via: 'system' }, {
+        metadata: { versionNumber: version?.version_number || null, commentsAddressed: openComments.length }
+      });
+
+      console.log(`[ARTICLE REVIEW] Article ${article.id} revised with ${openComments.length} comments`);
+      return this.success(article.id, access);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[ARTICLE REVIEW] Revision of article ${article.id} failed:`, message);
+
+      await this.updateArticle(article.id, { review_status: 'changes_requested' });
+      await this.recordEvent(article, 'revision_failed', { name: 'system', via: 'system' }, { note: message });
+
+      return { success: false, reason: 'revision_failed', error: `Changes were requested but the revision failed: ${message}` };
+    }
+  }
+
+  private async loadArticle(access: ReviewAccess): Promise<any | null> {
+    let query = supabase.from('article_queue').select(ARTICLE_FIELDS);
+
+    if ('previewToken' in access) {
+      if (!access.previewToken) return null;
+      query = query.eq('preview_token', access.previewToken);
+    } else {
+      query = query.eq('id', access.articleId).eq('user_token', access.userToken);
+    }
+
+    const { data } = await query.maybeSingle();
+    return data || null;
+  }
+
+  private async buildReview(article: any): Promise<ArticleReview> {
+    const [comments, { data: events }] = await Promise.all([
+      this.loadComments(article.id),
+      supabase
+        .from('article_review_events')
+        .select('id, action, actor, via, note, metadata, created_at')
+        .eq('article_queue_id', article.id)
+        .order('created_at', { ascending: false })
+        .limit(100)
+    ]);
+
+    return {
+      articleId: article.id,
+      status: article.review_status || 'pending',
+      reviewedBy: article.reviewed_by || null,
+      reviewedAt: article.reviewed_at || null,
+      previewToken: article.preview_token || null,
+      comments,
+      events: (events || []) as ReviewEvent[]
+    };
+  }
+
+  private async loadComments(articleId: number, status?: 'open' | 'resolved'): Promise<ReviewComment[]> {
+    let query = supabase
+      .from('article_review_comments')
+      .select('id, author_name, via, quote, body, status, resolved_by, resolved_at, created_at')
+      .eq('article_queue_id', articleId)
+      .order('created_at', { ascending: true });
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load review comments: ${error.message}`);
+    }
+    return (data || []) as ReviewComment[];
+  }
+
+  private async updateArticle(articleId: number, fields: Record<string, any>) {
+    const { error } = await supabase
+      .from('article_queue')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', articleId);
+
+    if (error) {
+      throw new Error(`Failed to update article review: ${error.message}`);
+    }
+  }
+
+  private async recordEvent(
+    article: any,
+    action: ReviewEventAction,
+    actor: { name: string; via: ReviewEvent['via'] },
+    options: { note?: string | null; metadata?: Record<string, any> } = {}
+  ) {
+    const { error } = await supabase
+      .from('article_review_events')
+      .insert({
+        article_queue_id: article.id,
+        user_token: article.user_token,
+        action,
+        actor: actor.name.trim(),
+        via: actor.via,
+        note: options.note || null,
+        metadata: options.metadata || {}
+      });
+
+    if (error) {
+      console.error(`[ARTICLE REVIEW] Failed to record ${action} for article ${article.id}:`, error.message);
+    }
+  }
+
+  private reviewableError(article: any): string | null {
+    if (!article.article_content) return 'Article content not generated yet';
+    if (UNREVIEWABLE_STATUSES.includes(article.status)) {
+      return article.status === 'published' ? 'Article is already published' : `Article is ${article.status}`;
+    }
+    if (article.review_status === 'revising') return 'Article is being revised';
+    return null;
+  }
+
+  private validateReviewer(reviewer: Reviewer): string | null {
+    if (!reviewer.name?.trim()) return 'Reviewer name is required';
+    if (reviewer.via === 'preview_link' && reviewer.name.trim().length > MAX_NAME_LENGTH) {
+      return `Reviewer names are limited to ${MAX_NAME_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  private async success(articleId: number, access: ReviewAccess): Promise<ReviewActionResult> {
+    const { data: article } = await supabase
+      .from('article_queue')
+      .select(ARTICLE_FIELDS)
+      .eq('id', articleId)
+      .single();
+
+    const review = await this.buildReview(article);
+    // Preview link holders never get the link token back in a response
+    return { success: true, review: 'userToken' in access ? review : { ...review, previewToken: null } };
+  }
+
+  private notFound(): ReviewActionResult {
+    return { success: false, reason: 'not_found', error: 'Article not found' };
+  }
+
+  private ownerToken(access: ReviewAccess): string | null {
+    return 'userToken' in access ? access.userToken : null;
+  }
+
+  private keywordsOf(article: any): string[] {
+    if (!Array.isArray(article.target_keywords)) return [];
+    return article.target_keywords
+      .map((keyword: any) => (typeof keyword === 'string' ? keyword : keyword?.term || keyword?.keyword))
+      .filter(Boolean);
+  }
+
+  private parseSchema(schemaJson: any): any {
+    if (typeof schemaJson !== 'string') return schemaJson || null;
+    try {
+      return JSON.parse(schemaJson);
+    } catch {
+      return null;
+    }
+  }
+}
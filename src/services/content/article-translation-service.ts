@@ -0,0 +1,564 @@
+/**
+ * Article Translation Service
+ *
+ * Localized variants of articles for sites that publish in more than one language:
+ * - Website locales say which language originals are written in and where every other language
+ *   is published (CMS connection, blog or collection, CMS locale code)
+ * - Translating an approved article localizes its keywords, slug, meta tags and body per language;
+ *   each variant is its own article_queue row (translation_of = the original) that goes through
+ *   review and publishing like any other article
+ * - Published variants of one original are tied together with reciprocal hreflang alternates,
+ *   served to seoagent.js and written into the sitemap
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { DomainUtils } from '@/lib/utils/DomainUtils';
+import { EnhancedArticleGenerator } from './enhanced-article-generator';
+import { ArticleVersionService } from './article-version-service';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const ARTICLE_FIELDS = 'id, user_token, website_id, title, slug, status, language, translation_of, cms_locale, meta_title, meta_description, article_content, schema_json, target_keywords, article_type, topic_cluster, cms_connection_id, target_blog_id, review_status, public_url, websites:website_id (domain)';
+const VARIANT_FIELDS = 'id, title, slug, status, language, translation_of, review_status, public_url';
+const LOCALE_FIELDS = 'language, is_default, cms_connection_id, target_blog_id, cms_locale';
+
+// Language, optional script and region: en, pt-BR, zh-Hant, es-419
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?$/i;
+const FALLBACK_LANGUAGE = 'en';
+
+// Each translation is one model call; more languages than this would outlive the request
+const MAX_LANGUAGES_PER_REQUEST = 4;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WebsiteLocale {
+  language: string;
+  isDefault: boolean; // Language originals are written in; its variant is the hreflang x-default
+  cmsConnectionId: number | null; // null = the original's connection
+  targetBlogId: string | null; // Blog, collection or content directory; null = the original's
+  cmsLocale: string | null; // Locale code in CMSs with built-in localization, e.g. de-DE
+}
+
+export interface ArticleVariant {
+  articleId: number;
+  language: string;
+  title: string;
+  slug: string | null;
+  status: string;
+  reviewStatus: string | null;
+  publicUrl: string | null;
+  isOriginal: boolean;
+}
+
+export interface ArticleTranslations {
+  originalId: number;
+  sourceLanguage: string;
+  variants: ArticleVariant[];
+  locales: WebsiteLocale[];
+}
+
+export interface HreflangAlternate {
+  hreflang: string; // BCP 47 tag or x-default
+  href: string;
+}
+
+export type TranslationFailure = 'not_found' | 'invalid_input' | 'invalid_state';
+
+export type TranslateResult =
+  | {
+      success: true;
+      created: ArticleVariant[];
+      skipped: string[]; // Languages that already have a variant
+      failed: Array<{ language: string; error: string }>;
+    }
+  | { success: false; reason: TranslationFailure; error: string };
+
+export type LocaleUpdateResult =
+  | { success: true; locales: WebsiteLocale[] }
+  | { success: false; reason: TranslationFailure; error: string };
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class ArticleTranslationService {
+  private generator: EnhancedArticleGenerator;
+
+  constructor(generator: EnhancedArticleGenerator = new EnhancedArticleGenerator()) {
+    this.generator = generator;
+  }
+
+  /**
+   * Languages a website publishes in, default language first
+   */
+  async getLocales(websiteId: number): Promise<WebsiteLocale[]> {
+    const { data, error } = await supabase
+      .from('website_locales')
+      .select(LOCALE_FIELDS)
+      .eq('website_id', websiteId)
+      .order('is_default', { ascending: false })
+      .order('language', { ascending: true });
+
+    if (error) {
+      console.error('[ARTICLE TRANSLATIONS] Failed to load website locales:', error.message);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      language: row.language,
+      isDefault: !!row.is_default,
+      cmsConnectionId: row.cms_connection_id ?? null,
+      targetBlogId: row.target_blog_id || null,
+      cmsLocale: row.cms_locale || null
+    }));
+  }
+
+  async getLocalesForWebsite(userToken: string, websiteToken: string): Promise<WebsiteLocale[] | null> {
+    const website = await this.loadWebsite(userToken, websiteToken);
+    return website ? this.getLocales(website.id) : null;
+  }
+
+  /**
+   * Add or change where a language is published. Marking a language as the default
+   * takes the flag away from the previous one.
+   */
+  async saveLocale(userToken: string, websiteToken: string, locale: Partial<WebsiteLocale> & { language: string }): Promise<LocaleUpdateResult> {
+    const language = this.normalizeLanguage(locale.language);
+    if (!language) {
+      return { success: false, reason: 'invalid_input', error: `"${locale.language}" is not a language code like de or pt-BR` };
+    }
+
+    const website = await this.loadWebsite(userToken, websiteToken);
+    if (!website) {
+      return { success: false, reason: 'not_found', error: 'Website not found' };
+    }
+
+    const cmsConnectionId = locale.cmsConnectionId ? Number(locale.cmsConnectionId) : null;
+    if (cmsConnectionId) {
+      const { data: connection } = await supabase
+        .from('cms_connections')
+        .select('id')
+        .eq('id', cmsConnectionId)
+        .eq('user_token', userToken)
+        .maybeSingle();
+
+      if (!connection) {
+        return { success: false, reason: 'invalid_input', error: 'CMS connection not found' };
+      }
+    }
+
+    if (locale.isDefault) {
+      await supabase
+        .from('website_locales')
+        .update({ is_default: false, updated_at: new Date().toISOString() })
+        .eq('website_id', website.id)
+        .neq('language', language);
+    }
+
+    const { error } = await supabase
+      .from('website_locales')
+      .upsert({
+        user_token: userToken,
+        website_id: website.id,
+        language,
+        is_default: !!locale.isDefault,
+        cms_connection_id: cmsConnectionId,
+        target_blog_id: locale.targetBlogId?.trim() || null,
+        cms_locale: locale.cmsLocale?.trim() || null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'website_id,language' });
+
+    if (error) {
+      throw new Error(`Failed to save locale: ${error.message}`);
+    }
+
+    console.log(`[ARTICLE TRANSLATIONS] Saved locale ${language} for website ${website.id}`);
+    return { success: true, locales: await this.getLocales(website.id) };
+  }
+
+  async removeLocale(userToken: string, websiteToken: string, language: string): Promise<LocaleUpdateResult> {
+    const website = await this.loadWebsite(userToken, websiteToken);
+    if (!website) {
+      return { success: false, reason: 'not_found', error: 'Website not found' };
+    }
+
+    const { error } = await supabase
+      .from('website_locales')
+      .delete()
+      .eq('website_id', website.id)
+      .eq('language', this.normalizeLanguage(language) || language);
+
+    if (error) {
+      throw new Error(`Failed to remove locale: ${error.message}`);
+    }
+
+    return { success: true, locales: await this.getLocales(website.id) };
+  }
+
+  /**
+   * The original of an article and all its translations
+   */
+  async getTranslations(userToken: string, articleId: number): Promise<ArticleTranslations | null> {
+    const article = await this.loadArticle(userToken, articleId);
+    if (!article) return null;
+
+    const original = article.translation_of ? (await this.loadArticle(userToken, article.translation_of)) || article : article;
+    const locales = await this.getLocales(original.website_id);
+    const sourceLanguage = this.sourceLanguageOf(original, locales);
+    const group = await this.loadGroup(original.id);
+
+    return {
+      originalId: original.id,
+      sourceLanguage,
+      variants: group.map(row => this.toVariant(row, original.id, sourceLanguage)),
+      locales
+    };
+  }
+
+  /**
+   * Localize an article into each language that doesn't have a variant yet. Translations are
+   * always made from the original's approved text, even when called with a translation.
+   */
+  async translate(userToken: string, articleId: number, languages: string[]): Promise<TranslateResult> {
+    const article = await this.loadArticle(userToken, articleId);
+    if (!article) {
+      return { success: false, reason: 'not_found', error: 'Article not found' };
+    }
+
+    const original = article.translation_of ? (await this.loadArticle(userToken, article.translation_of)) || article : article;
+    if (!original.article_content) {
+      return { success: false, reason: 'invalid_state', error: 'Generate the article before translating it' };
+    }
+    if (original.review_status !== 'approved' && original.status !== 'published') {
+      return { success: false, reason: 'invalid_state', error: 'Approve the article first; translations are made from the approved text' };
+    }
+
+    const locales = await this.getLocales(original.website_id);
+    const sourceLanguage = this.sourceLanguageOf(original, locales);
+    const requested: string[] = [];
+
+    for (const value of languages || []) {
+      const language = this.normalizeLanguage(value);
+      if (!language) {
+        return { success: false, reason: 'invalid_input', error: `"${value}" is not a language code like de or pt-BR` };
+      }
+      if (language !== sourceLanguage && requested.indexOf(language) === -1) {
+        requested.push(language);
+      }
+    }
+
+    if (requested.length === 0) {
+      return { success: false, reason: 'invalid_input', error: 'Choose at least one language other than the original\'s' };
+    }
+    if (requested.length > MAX_LANGUAGES_PER_REQUEST) {
+      return { success: false, reason: 'invalid_input', error: `Translate into at most ${MAX_LANGUAGES_PER_REQUEST} languages at a time` };
+    }
+
+    // Make the original's language explicit so its hreflang doesn't change with the site default
+    if (!original.language) {
+      await supabase.from('article_queue').update({ language: sourceLanguage }).eq('id', original.id);
+    }
+
+    const existing = (await this.loadGroup(original.id)).map(row => row.language);
+    const result = { success: true as const, created: [] as ArticleVariant[], skipped: [] as string[], failed: [] as Array<{ language: string; error: string }> };
+
+    for (const language of requested) {
+      if (existing.indexOf(language) !== -1) {
+        result.skipped.push(language);
+        continue;
+      }
+
+      try {
+        const variant = await this.createVariant(original, sourceLanguage, language, locales.find(locale => locale.language === language));
+        result.created.push(this.toVariant(variant, original.id, sourceLanguage));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Translation failed';
+        console.error(`[ARTICLE TRANSLATIONS] Translating article ${original.id} into ${language} failed:`, message);
+        result.failed.push({ language, error: message });
+      }
+    }
+
+    console.log(`[ARTICLE TRANSLATIONS] Article ${original.id}: ${result.created.length} created, ${result.skipped.length} skipped, ${result.failed.length} failed`);
+    return result;
+  }
+
+  /**
+   * hreflang alternates for a published page of a website, looked up by its URL. Empty unless
+   * the page is an article with at least one other published language.
+   */
+  async findAlternatesByUrl(websiteToken: string, pageUrl: string): Promise<HreflangAlternate[]> {
+    const key = this.urlKey(pageUrl);
+    if (!key) return [];
+
+    const { data: website } = await supabase
+      .from('websites')
+      .select('id')
+      .eq('website_token', websiteToken)
+      .maybeSingle();
+
+    if (!website) return [];
+
+    const groups = await this.loadPublishedGroups(website.id);
+    for (const alternates of groups) {
+      if (alternates.some(alternate => alternate.hreflang !== 'x-default' && this.urlKey(alternate.href) === key)) {
+        return alternates;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * hreflang alternates for every published translation group of a site, keyed by each
+   * member's normalized URL (see urlKey), for sitemap xhtml:link entries
+   */
+  async getSitemapAlternates(userToken: string, domain: string): Promise<Map<string, HreflangAlternate[]>> {
+    const alternatesByUrl = new Map<string, HreflangAlternate[]>();
+
+    const { data: websites } = await supabase
+      .from('websites')
+      .select('id, domain')
+      .eq('user_token', userToken);
+
+    const website = (websites || []).find(site => DomainUtils.cleanDomain(site.domain) === DomainUtils.cleanDomain(domain));
+    if (!website) return alternatesByUrl;
+
+    const groups = await this.loadPublishedGroups(website.id);
+    groups.forEach(alternates => {
+      alternates
+        .filter(alternate => alternate.hreflang !== 'x-default')
+        .forEach(alternate => alternatesByUrl.set(this.urlKey(alternate.href), alternates));
+    });
+
+    return alternatesByUrl;
+  }
+
+  /**
+   * Comparable form of a URL: no protocol, www, query, fragment or trailing slash
+   */
+  urlKey(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.replace(/\/+$/, '');
+      return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${decodeURI(path)}`;
+    } catch {
+      return '';
+    }
+  }
+
+  private async createVariant(original: any, sourceLanguage: string, language: string, locale?: WebsiteLocale): Promise<any> {
+    const translation = await this.generator.translateArticle({
+      title: original.title,
+      keywords: this.keywordsOf(original),
+      content: original.article_content,
+      metaTitle: original.meta_title,
+      metaDescription: original.meta_description,
+      sourceLanguage,
+      targetLanguage: language,
+      websiteDomain: original.websites?.domain,
+      articleType: original.article_type || undefined
+    });
+
+    const { data: variant, error } = await supabase
+      .from('article_queue')
+      .insert({
+        user_token: original.user_token,
+        website_id: original.website_id,
+        cms_connection_id: locale?.cmsConnectionId ?? original.cms_connection_id,
+        target_blog_id: locale?.targetBlogId ?? original.target_blog_id,
+        cms_locale: locale?.cmsLocale ?? null,
+        language,
+        translation_of: original.id,
+        title: translation.title,
+        slug: translation.slug,
+        target_keywords: translation.keywords,
+        article_content: translation.content,
+        meta_title: translation.metaTitle,
+        meta_description: translation.metaDescription,
+        schema_json: this.localizeSchema(original.schema_json, translation, language),
+        article_type: original.article_type,
+        topic_cluster: original.topic_cluster,
+        word_count: this.countWords(translation.content),
+        status: 'generated',
+        review_status: 'pending' // Translations are reviewed before they're published, like any draft
+      })
+      .select(VARIANT_FIELDS)
+      .single();
+
+    if (error || !variant) {
+      throw new Error(error?.code === '23505' ? 'A translation into this language already exists' : `Failed to save translation: ${error?.message}`);
+    }
+
+    await new ArticleVersionService().tryRecordVersion(variant.id, 'translation', {
+      reason: `Translated from ${sourceLanguage} (article ${original.id})`
+    });
+
+    return variant;
+  }
+
+  /**
+   * Alternates of every translation group of a website with two or more published languages
+   */
+  private async loadPublishedGroups(websiteId: number): Promise<HreflangAlternate[][]> {
+    const { data: rows, error } = await supabase
+      .from('article_queue')
+      .select('id, language, translation_of, public_url')
+      .eq('website_id', websiteId)
+      .eq('status', 'published')
+      .not('public_url', 'is', null);
+
+    if (error) {
+      console.error('[ARTICLE TRANSLATIONS] Failed to load published articles:', error.message);
+      return [];
+    }
+
+    const translated = (rows || []).filter(row => row.translation_of);
+    if (translated.length === 0) return [];
+
+    const locales = await this.getLocales(websiteId);
+    const defaultLanguage = locales.find(locale => locale.isDefault)?.language || FALLBACK_LANGUAGE;
+    const groups = new Map<number, any[]>();
+
+    (rows || []).forEach(row => {
+      const originalId = row.translation_of || row.id;
+      groups.set(originalId, (groups.get(originalId) || []).concat(row));
+    });
+
+    return Array.from(groups.entries())
+      .map(([originalId, members]) => this.buildAlternates(members, originalId, defaultLanguage))
+      .filter(alternates => alternates.length > 0);
+  }
+
+  /**
+   * One alternate per language plus x-default: the default language's variant, else the original
+   */
+  private buildAlternates(members: any[], originalId: number, defaultLanguage: string): HreflangAlternate[] {
+    const byLanguage = new Map<string, string>();
+    let original: string | null = null;
+
+    members.forEach(member => {
+      const language = member.language || defaultLanguage;
+      if (!byLanguage.has(language) || member.id === originalId) {
+        byLanguage.set(language, member.public_url);
+      }
+      if (member.id === originalId) original = member.public_url;
+    });
+
+    if (byLanguage.size < 2) return [];
+
+    const alternates: HreflangAlternate[] = Array.from(byLanguage.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([hreflang, href]) => ({ hreflang, href }));
+
+    const xDefault = byLanguage.get(defaultLanguage) || original;
+    if (xDefault) {
+      alternates.push({ hreflang: 'x-default', href: xDefault });
+    }
+
+    return alternates;
+  }
+
+  private async loadArticle(userToken: string, articleId: number): Promise<any | null> {
+    const { data } = await supabase
+      .from('article_queue')
+      .select(ARTICLE_FIELDS)
+      .eq('id', articleId)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    return data || null;
+  }
+
+  private async loadGroup(originalId: number): Promise<any[]> {
+    const { data, error } = await supabase
+      .from('article_queue')
+      .select(VARIANT_FIELDS)
+      .or(`id.eq.${originalId},translation_of.eq.${originalId}`)
+      .order('id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load translations: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  private async loadWebsite(userToken: string, websiteToken: string): Promise<{ id: number } | null> {
+    const { data } = await supabase
+      .from('websites')
+      .select('id')
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    return data || null;
+  }
+
+  private toVariant(row: any, originalId: number, sourceLanguage: string): ArticleVariant {
+    return {
+      articleId: row.id,
+      language: row.language || sourceLanguage,
+      title: row.title,
+      slug: row.slug || null,
+      status: row.status,
+      reviewStatus: row.review_status || null,
+      publicUrl: row.public_url || null,
+      isOriginal: row.id === originalId
+    };
+  }
+
+  private sourceLanguageOf(original: any, locales: WebsiteLocale[]): string {
+    return original.language || locales.find(locale => locale.isDefault)?.language || FALLBACK_LANGUAGE;
+  }
+
+  /**
+   * Canonical casing of a language tag (pt-br → pt-BR, zh-hant → zh-Hant), or null if it isn't one
+   */
+  private normalizeLanguage(value: string): string | null {
+    const tag = String(value || '').trim().replace(/_/g, '-');
+    if (!LANGUAGE_TAG.test(tag)) return null;
+
+    return tag.split('-').map((part, index) => {
+      if (index === 0) return part.toLowerCase();
+      if (part.length === 4) return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase();
+      return part.toUpperCase();
+    }).join('-');
+  }
+
+  /**
+   * The original's JSON-LD with the localized headline, description and inLanguage
+   */
+  private localizeSchema(schemaJson: any, translation: { title: string; metaDescription: string }, language: string): any {
+    const schema = typeof schemaJson === 'string' ? this.parseSchema(schemaJson) : schemaJson;
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return schema || null;
+
+    const localized: any = { ...schema, inLanguage: language };
+    if (schema.headline !== undefined) localized.headline = translation.title;
+    if (schema.name !== undefined) localized.name = translation.title;
+    if (schema.description !== undefined) localized.description = translation.metaDescription;
+    return localized;
+  }
+
+  private keywordsOf(article: any): string[] {
+    if (!Array.isArray(article.target_keywords)) return [];
+    return article.target_keywords
+      .map((keyword: any) => (typeof keyword === 'string' ? keyword : keyword?.term || keyword?.keyword))
+      .filter(Boolean);
+  }
+
+  private countWords(content: string): number {
+    const text = content.replace(/<[^>]*>/g, ' ').trim();
+    return text ? text.split(/\s+/).length : 0;
+  }
+
+  private parseSchema(schemaJson: string): any {
+    try {
+      return JSON.parse(schemaJson);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Article Version Service
+ *
+ * Version history for article bodies. Each version is the body as it was after a change
+ * (generation, translation, manual edit, link injection, CMS-side edit, refresh, review revision,
+ * restore); recording the same body twice in a row collapses into one version.
+ *
+ * - Side-by-side HTML diff between any two versions or a version and the current article
+ * - Restore an earlier version, optionally republishing it to the connected CMS
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { diffHtml, summarizeDiff, toSideBySide, DiffSummary, SideBySideRow } from '@/lib/utils/text-diff';
+import { ArticlePublisher } from './article-publisher';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const ARTICLE_FIELDS = 'id, user_token, title, meta_title, meta_description, article_content, cms_article_id';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ArticleVersionSource =
+  | 'generation'
+  | 'manual_edit'
+  | 'link_injection'
+  | 'cms_edit'
+  | 'refresh'
+  | 'restore'
+  | 'review_revision' // revised with editorial review feedback
+  | 'translation' // first body of a localized variant
+  | 'snapshot'; // taken right before a change, when the current body isn't a version yet
+
+// Mirrors ArticleVersion in @seoagent/shared-types
+export interface ArticleVersion {
+  id: string;
+  article_queue_id: number;
+  version_number: number;
+  title: string | null;
+  meta_title: string | null;
+  meta_description: string | null;
+  article_content: string | null;
+  content_hash: string | null;
+  source: ArticleVersionSource;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type ArticleVersionSummary = Omit<ArticleVersion, 'article_content'> & { word_count: number };
+
+export interface VersionDiff {
+  from: { id: string; label: string };
+  to: { id: string; label: string };
+  rows: SideBySideRow[];
+  summary: DiffSummary;
+}
+
+export type VersionRestoreResult =
+  | { success: true; version: ArticleVersion; republished: boolean; publicUrl: string | null }
+  | { success: false; reason: 'not_found' | 'not_published' | 'publish_failed' | 'cms_conflict'; error: string; details?: string };
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class ArticleVersionService {
+  /**
+   * Record the article's current body as a version. Returns the latest version unchanged
+   * when the body already matches it.
+   */
+  async recordVersion(
+    articleId: number,
+    source: ArticleVersionSource,
+    options: { reason?: string; createdBy?: string } = {}
+  ): Promise<ArticleVersion | null> {
+    const { data: article } = await supabase
+      .from('article_queue')
+      .select(ARTICLE_FIELDS)
+      .eq('id', articleId)
+      .maybeSingle();
+
+    if (!article?.article_content) {
+      return null;
+    }
+
+    const contentHash = this.hashVersion(article);
+
+    // One retry covers a concurrent recording taking the same version number
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { data: latest } = await supabase
+        .from('article_versions')
+        .select('*')
+        .eq('article_queue_id', articleId)
+        .order('version_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latest && latest.content_hash === contentHash) {
+        return latest as ArticleVersion;
+      }
+
+      const { data, error } = await supabase
+        .from('article_versions')
+        .insert({
+          article_queue_id: articleId,
+          user_token: article.user_token,
+          version_number: (latest?.version_number || 0) + 1,
+          title: article.title || null,
+          meta_title: article.meta_title || null,
+          meta_description: article.meta_description || null,
+          article_content: article.article_content,
+          content_hash: contentHash,
+          source,
+          reason: options.reason || null,
+          created_by: options.createdBy || null
+        })
+        .select('*')
+        .single();
+
+      if (!error && data) {
+        console.log(`[ARTICLE VERSIONS] Article ${articleId} version ${data.version_number} (${source})`);
+        return data as ArticleVersion;
+      }
+
+      if (error?.code !== '23505' || attempt === 1) {
+        throw new Error(`Failed to save article version: ${error?.message || 'unknown error'}`);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Best-effort recordVersion for write paths that must not fail because of history
+   */
+  async tryRecordVersion(articleId: number, source: ArticleVersionSource, options: { reason?: string; createdBy?: string } = {}) {
+    try {
+      return await this.recordVersion(articleId, source, options);
+    } catch (error) {
+      console.error(`[ARTICLE VERSIONS] Failed to record ${source} version for article ${articleId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Versions of an article, newest first, without bodies
+   */
+  async listVersions(userToken: string, articleId: number): Promise<ArticleVersionSummary[]> {
+    const { data, error } = await supabase
+      .from('article_versions')
+      .select('*')
+      .eq('article_queue_id', articleId)
+      .eq('user_token', userToken)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load article versions: ${error.message}`);
+    }
+
+    return (data || []).map(({ article_content, ...version }: any) => ({
+      ...version,
+      word_count: this.countWords(article_content)
+    }));
+  }
+
+  async getVersion(userToken: string, articleId: number, versionId: string): Promise<ArticleVersion | null> {
+    const { data } = await supabase
+      .from('article_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('article_queue_id', articleId)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    return (data as ArticleVersion) || null;
+  }
+
+  /**
+   * Side-by-side diff between two versions; 'current' compares against the live article row
+   */
+  async diffVersions(userToken: string, articleId: number, fromId: string, toId: string = 'current'): Promise<VersionDiff | null> {
+    const [from, to] = await Promise.all([
+      this.loadBody(userToken, articleId, fromId),
+      this.loadBody(userToken, articleId, toId)
+    ]);
+
+    if (!from || !to) return null;
+
+    const lines = diffHtml(from.content, to.content);
+    return {
+      from: { id: fromId, label: from.label },
+      to: { id: toId, label: to.label },
+      rows: toSideBySide(lines),
+      summary: summarizeDiff(lines)
+    };
+  }
+
+  /**
+   * Make an earlier version the article's current body. With republish, the version is pushed
+   * to the CMS first and the article only changes once the CMS accepted it.
+   */
+  async restoreVersion(
+    userToken: string,
+    articleId: number,
+    versionId: string,
+    options: { republish?: boolean; publisher?: ArticlePublisher } = {}
+  ): Promise<VersionRestoreResult> {
+    const version = await this.getVersion(userToken, articleId, versionId);
+    if (!version || !version.article_content) {
+      return { success: false, reason: 'not_found', error: 'Version not found' };
+    }
+
+    const { data: article } = await supabase
+      .from('article_queue')
+      .select(ARTICLE_FIELDS)
+      .eq('id', articleId)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    if (!article) {
+      return { success: false, reason: 'not_found', error: 'Article not found' };
+    }
+    if (options.republish && !article.cms_article_id) {
+      return { success: false, reason: 'not_published', error: 'Article has not been published to a CMS yet' };
+    }
+
+    // Keep the body being replaced restorable too
+    await this.recordVersion(articleId, 'snapshot', { createdBy: userToken });
+
+    let publicUrl: string | null = null;
+
+    if (options.republish) {
+      const publisher = options.publisher || new ArticlePublisher();
+      const result = await publisher.pushUpdate(userToken, articleId, {
+        content: version.article_content,
+        title: version.title || undefined,
+        metaTitle: version.meta_title || undefined,
+        metaDescription: version.meta_description ?? undefined
+      });
+
+      if (!result.success) {
+        const reason = result.reason === 'cms_conflict' ? 'cms_conflict' : 'publish_failed';
+        return { success: false, reason, error: result.error, details: result.details };
+      }
+      publicUrl = result.publicUrl;
+    } else {
+      const { error } = await supabase
+        .from('article_queue')
+        .update({
+          article_content: version.article_content,
+          title: version.title || article.title,
+          meta_title: version.meta_title,
+          meta_description: version.meta_description,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', articleId);
+
+      if (error) {
+        throw new Error(`Failed to restore version: ${error.message}`);
+      }
+    }
+
+    const restored = await this.recordVersion(articleId, 'restore', {
+      reason: `Restored version ${version.version_number}${options.republish ? ' and republished' : ''}`,
+      createdBy: userToken
+    });
+
+    return { success: true, version: restored || version, republished: !!options.republish, publicUrl };
+  }
+
+  private async loadBody(userToken: string, articleId: number, versionId: string): Promise<{ content: string; label: string } | null> {
+    if (versionId === 'current') {
+      const { data: article } = await supabase
+        .from('article_queue')
+        .select('article_content')
+        .eq('id', articleId)
+        .eq('user_token', userToken)
+        .maybeSingle();
+
+      return article ? { content: article.article_content || '', label: 'Current' } : null;
+    }
+
+    const version = await this.getVersion(userToken, articleId, versionId);
+    return version ? { content: version.article_content || '', label: `Version ${version.version_number}` } : null;
+  }
+
+  /**
+   * Title and meta changes count as a new version, not only body changes
+   */
+  private hashVersion(article: { title?: string | null; meta_title?: string | null; meta_description?: string | null; article_content?: string | null }): string {
+    return createHash('sha256')
+      .update([article.title, article.meta_title, article.meta_description, article.article_content].map(v => v || '').join('\u0000'))
+      .digest('hex');
+  }
+
+  private countWords(content?: string | null): number {
+    const text = (content || '').replace(/<[^>]*>/g, ' ').trim();
+    return text ? text.split(/\s+/).length : 0;
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * CMS Content Sync Service
+ *
+ * Pulls every post from connected CMSs into cms_content_inventory so strategy discovery,
+ * internal linking and cannibalization checks see the whole site, not only SEOAgent articles.
+ *
+ * - Change detection uses the CMS's updatedAt (content hash when a CMS has none)
+ * - Posts no longer returned by the CMS are marked removed, not deleted
+ * - Edits made in the CMS to articles SEOAgent published flow back into article_queue and
+ *   its version history
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { CMSManager } from '@/lib/cms/cms-manager';
+import { CMSArticle } from '@/lib/cms/types';
+import { ArticleVersionService } from './article-version-service';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Publishing itself bumps the CMS's updated timestamp; only later edits count as CMS-side changes
+const EDIT_GRACE_MS = 2 * 60 * 1000;
+const UPSERT_BATCH_SIZE = 100;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConnectionSyncResult {
+  connectionId: string;
+  cmsType: string;
+  total: number;
+  created: number;
+  changed: number;
+  removed: number;
+  articlesUpdated: number; // article_queue rows updated from CMS edits
+}
+
+export interface SyncAllSummary {
+  processed: number;
+  synced: number;
+  results: ConnectionSyncResult[];
+  errors: Array<{ connectionId: string; error: string }>;
+}
+
+export interface InventoryItem {
+  id: string;
+  connection_id: number;
+  external_id: string;
+  article_queue_id: number | null;
+  title: string | null;
+  slug: string | null;
+  url: string | null;
+  status: string | null;
+  word_count: number;
+  tags: string[];
+  published_at: string | null;
+  cms_updated_at: string | null;
+}
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class CMSContentSync {
+  private cmsManager: CMSManager;
+
+  constructor(cmsManager: CMSManager = new CMSManager()) {
+    this.cmsManager = cmsManager;
+  }
+
+  /**
+   * Sync every active connection not synced within staleAfterMs, stopping at the deadline
+   */
+  async syncAll(options: { staleAfterMs?: number; deadline?: number } = {}): Promise<SyncAllSummary> {
+    const staleBefore = new Date(Date.now() - (options.staleAfterMs ?? 0)).toISOString();
+
+    const { data: connections, error } = await supabase
+      .from('cms_connections')
+      .select('id, user_token, last_sync_at')
+      .eq('status', 'active')
+      .or(`last_sync_at.is.null,last_sync_at.lt.${staleBefore}`)
+      .order('last_sync_at', { ascending: true, nullsFirst: true });
+
+    if (error) {
+      throw new Error(`Failed to list CMS connections: ${error.message}`);
+    }
+
+    const summary: SyncAllSummary = { processed: 0, synced: 0, results: [], errors: [] };
+
+    for (const connection of connections || []) {
+      if (options.deadline && Date.now() > options.deadline) {
+        console.log('[CMS SYNC] Deadline reached, remaining connections wait for the next run');
+        break;
+      }
+
+      summary.processed++;
+      try {
+        const result = await this.syncConnection(String(connection.id), connection.user_token);
+        summary.results.push(result);
+        summary.synced++;
+      } catch (syncError) {
+        summary.errors.push({
+          connectionId: String(connection.id),
+          error: syncError instanceof Error ? syncError.message : 'Unknown error'
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Pull all posts for one connection into the inventory
+   */
+  async syncConnection(connectionId: string, userToken: string): Promise<ConnectionSyncResult> {
+    const { data: record } = await supabase
+      .from('cms_connections')
+      .select('id, website_id')
+      .eq('id', connectionId)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    const connection = record ? await this.cmsManager.getConnection(connectionId, userToken) : null;
+    if (!record || !connection) {
+      throw new Error('CMS connection not found or inactive');
+    }
+
+    console.log(`[CMS SYNC] Syncing ${connection.type} connection ${connectionId}`);
+
+    let posts: CMSArticle[];
+    try {
+      const provider = this.cmsManager.getProvider(connection.type);
+      posts = await provider.getArticles(connection.credentials);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch CMS content';
+      await supabase
+        .from('cms_connections')
+        .update({ error_message: `Content sync failed: ${message}`, updated_at: new Date().toISOString() })
+        .eq('id', connectionId);
+      throw error;
+    }
+
+    const [existingRows, publishedArticles] = await Promise.all([
+      this.loadInventory(connectionId),
+      this.loadPublishedArticles(connectionId)
+    ]);
+
+    const now = new Date().toISOString();
+    const result: ConnectionSyncResult = {
+      connectionId,
+      cmsType: connection.type,
+      total: posts.length,
+      created: 0,
+      changed: 0,
+      removed: 0,
+      articlesUpdated: 0
+    };
+
+    const rows: any[] = [];
+    const seen = new Set<string>();
+
+    for (const post of posts) {
+      const externalId = String(post.id);
+      if (seen.has(externalId)) continue;
+      seen.add(externalId);
+
+      const existing = existingRows.get(externalId);
+      const contentHash = this.hashContent(post.content);
+      const cmsUpdatedAt = this.toIso(post.updatedAt);
+      const changed = this.hasChanged(existing, cmsUpdatedAt, contentHash);
+
+      if (!existing) result.created++;
+      else if (changed) result.changed++;
+
+      const article = publishedArticles.get(externalId);
+      if (article && await this.applyCMSEdit(article, post, cmsUpdatedAt)) {
+        result.articlesUpdated++;
+      }
+
+      rows.push({
+        connection_id: Number(connectionId),
+        website_id: record.website_id,
+        user_token: userToken,
+        external_id: externalId,
+        article_queue_id: article?.id ?? existing?.article_queue_id ?? null,
+        title: post.title || null,
+        slug: post.slug || null,
+        url: post.url || null,
+        status: post.status || null,
+        excerpt: post.excerpt || null,
+        content: post.content || null,
+        content_hash: contentHash,
+        word_count: this.countWords(post.content),
+        tags: post.tags || [],
+        categories: post.categories || [],
+        author: post.author || null,
+        published_at: this.toIso(post.publishedAt),
+        cms_updated_at: cmsUpdatedAt,
+        first_seen_at: existing?.first_seen_at || now,
+        last_changed_at: changed ? now : existing!.last_changed_at,
+        last_synced_at: now,
+        removed_at: null
+      });
+    }
+
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('cms_content_inventory')
+        .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'connection_id,external_id' });
+
+      if (error) {
+        throw new Error(`Failed to save content inventory: ${error.message}`);
+      }
+    }
+
+    // An empty listing from a CMS that had posts is more likely a failed fetch than a wiped site
+    const removedIds = Array.from(existingRows.values())
+      .filter(row => !row.removed_at && !seen.has(row.external_id))
+      .map(row => row.id);
+
+    if (removedIds.length > 0 && posts.length > 0) {
+      await supabase
+        .from('cms_content_inventory')
+        .update({ removed_at: now, last_changed_at: now })
+        .in('id', removedIds);
+      result.removed = removedIds.length;
+    }
+
+    await supabase
+      .from('cms_connections')
+      .update({ last_sync_at: now, error_message: null, updated_at: now })
+      .eq('id', connectionId);
+
+    console.log('[CMS SYNC] Connection synced:', result);
+    return result;
+  }
+
+  /**
+   * Current (not removed) inventory for a website
+   */
+  async getInventory(websiteId: number, options: { limit?: number; offset?: number; search?: string } = {}): Promise<{ items: InventoryItem[]; total: number }> {
+    const limit = options.limit || 100;
+    const offset = options.offset || 0;
+
+    let query = supabase
+      .from('cms_content_inventory')
+      .select('id, connection_id, external_id, article_queue_id, title, slug, url, status, word_count, tags, published_at, cms_updated_at', { count: 'exact' })
+      .eq('website_id', websiteId)
+      .is('removed_at', null)
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .range(offset, offset + limit - 1);
+
+    if (options.search) {
+      query = query.ilike('title', `%${options.search}%`);
+    }
+
+    const { data, count, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load content inventory: ${error.message}`);
+    }
+
+    return { items: (data || []) as InventoryItem[], total: count || 0 };
+  }
+
+  private hasChanged(existing: any, cmsUpdatedAt: string | null, contentHash: string): boolean {
+    if (!existing || existing.removed_at) return true;
+    if (cmsUpdatedAt && existing.cms_updated_at) {
+      return new Date(cmsUpdatedAt).getTime() > new Date(existing.cms_updated_at).getTime();
+    }
+    return existing.content_hash !== contentHash;
+  }
+
+  /**
+   * Copy a CMS-side edit back onto the article_queue record SEOAgent published
+   */
+  private async applyCMSEdit(article: any, post: CMSArticle, cmsUpdatedAt: string | null): Promise<boolean> {
+    if (!cmsUpdatedAt) return false;
+
+    const lastKnown = article.cms_updated_at || article.published_at;
+    const editedAt = new Date(cmsUpdatedAt).getTime();
+    if (lastKnown && editedAt <= new Date(lastKnown).getTime() + (article.cms_updated_at ? 0 : EDIT_GRACE_MS)) {
+      return false;
+    }
+
+    const update: any = { cms_updated_at: cmsUpdatedAt, updated_at: new Date().toISOString() };
+    if (post.title) update.title = post.title;
+    if (post.content) update.article_content = post.content;
+    if (post.slug) update.slug = post.slug;
+    if (post.url) update.public_url = post.url;
+
+    const versions = new ArticleVersionService();
+    await versions.tryRecordVersion(article.id, 'snapshot');
+
+    const { error } = await supabase
+      .from('article_queue')
+      .update(update)
+      .eq('id', article.id);
+
+    if (error) {
+      console.error(`[CMS SYNC] Failed to apply CMS edit to article ${article.id}:`, error.message);
+      return false;
+    }
+
+    await versions.tryRecordVersion(article.id, 'cms_edit', { reason: `Edited in the CMS at ${cmsUpdatedAt}` });
+
+    console.log(`[CMS SYNC] Article ${article.id} updated from CMS edit at ${cmsUpdatedAt}`);
+    return true;
+  }
+
+  private async loadInventory(connectionId: string): Promise<Map<string, any>> {
+    const rows = new Map<string, any>();
+    const pageSize = 1000;
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await supabase
+        .from('cms_content_inventory')
+        .select('id, external_id, article_queue_id, content_hash, cms_updated_at, first_seen_at, last_changed_at, removed_at')
+        .eq('connection_id', connectionId)
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to load content inventory: ${error.message}`);
+      }
+
+      (data || []).forEach(row => rows.set(row.external_id, row));
+      if (!data || data.length < pageSize) break;
+    }
+
+    return rows;
+  }
+
+  private async loadPublishedArticles(connectionId: string): Promise<Map<string, any>> {
+    const { data } = await supabase
+      .from('article_queue')
+      .select('id, cms_article_id, cms_updated_at, published_at, translation_of')
+      .eq('cms_connection_id', connectionId)
+      .not('cms_article_id', 'is', null);
+
+    // Translations in CMSs that localize entries share the original's entry; the CMS lists it in
+    // the default locale, which is the original
+    const articles = new Map<string, any>();
+    (data || []).forEach(article => {
+      const key = String(article.cms_article_id);
+      if (!articles.has(key) || !article.translation_of) articles.set(key, article);
+    });
+    return articles;
+  }
+
+  private hashContent(content?: string): string {
+    return createHash('sha256').update(content || '').digest('hex');
+  }
+
+  private countWords(content?: string): number {
+    const text = (content || '').replace(/<[^>]*>/g, ' ').trim();
+    return text ? text.split(/\s+/).length : 0;
+  }
+
+  private toIso(date?: Date | string): string | null {
+    if (!date) return null;
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+  }
+}
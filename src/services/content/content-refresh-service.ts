@@ -0,0 +1,626 @@
+/**
+ * Content Refresh Service
+ *
+ * Keeps published articles from decaying:
+ * - Finds articles whose GSC clicks or positions dropped (last 28 days vs the 28 before)
+ * - Proposes a revision with EnhancedArticleGenerator: extend the article for the queries it is
+ *   losing, or regenerate it when it has collapsed
+ * - Proposals wait for review as a diff; approving one keeps the live body in the version
+ *   history and pushes the revision through CMSProvider.updateArticle
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { PerformanceAnalyticsService, DateRange, DimensionRow } from '@/services/performance/performance-analytics';
+import { diffHtml, summarizeDiff, DiffLine, DiffSummary } from '@/lib/utils/text-diff';
+import { EnhancedArticleGenerator } from './enhanced-article-generator';
+import { ArticlePublisher } from './article-publisher';
+import { ArticleVersionService } from './article-version-service';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Decay thresholds
+const MIN_PREVIOUS_CLICKS = 10;        // too little traffic before to call a drop a trend
+const CLICKS_DROP_RATIO = 0.25;        // lost a quarter of its clicks
+const POSITION_DROP = 3;               // slipped three positions or more
+const MIN_IMPRESSIONS_FOR_POSITION = 100;
+const REGENERATE_CLICKS_DROP_RATIO = 0.6;
+const REGENERATE_MIN_WORDS = 600;      // thin articles are rewritten rather than patched
+const REFRESH_COOLDOWN_DAYS = 60;      // let Google re-evaluate a refresh before judging it again
+const MAX_DECLINING_QUERIES = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RefreshStrategy = 'extend' | 'regenerate';
+export type RefreshStatus = 'proposed' | 'published' | 'rejected' | 'failed';
+
+export interface DecayMetrics {
+  current: { start: string; end: string; clicks: number; impressions: number; position: number };
+  previous: { start: string; end: string; clicks: number; impressions: number; position: number };
+  clicksChangePercent: number;
+  positionChange: number; // positive = ranking worse
+  decliningQueries: Array<{ query: string; clicksChange: number; position: number }>;
+}
+
+export interface DecayCandidate {
+  articleId: number;
+  websiteId: number;
+  title: string;
+  publicUrl: string;
+  wordCount: number;
+  metrics: DecayMetrics;
+  suggestedStrategy: RefreshStrategy;
+}
+
+export interface ContentRefresh {
+  id: string;
+  article_queue_id: number;
+  website_id: number | null;
+  status: RefreshStatus;
+  strategy: RefreshStrategy;
+  trigger: 'decay' | 'manual';
+  decay_metrics: DecayMetrics | Record<string, never>;
+  base_content_hash: string | null;
+  proposed_title: string | null;
+  proposed_meta_title: string | null;
+  proposed_meta_description: string | null;
+  proposed_content: string | null;
+  previous_version_id: string | null;
+  error_message: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+  published_at: string | null;
+}
+
+export interface ContentRefreshDetail {
+  refresh: ContentRefresh;
+  article: { id: number; title: string; publicUrl: string | null; metaTitle: string | null; metaDescription: string | null };
+  diff: DiffLine[];
+  summary: DiffSummary;
+  stale: boolean; // the live article changed after the proposal was generated
+}
+
+export type RefreshApprovalResult =
+  | { success: true; refreshId: string; versionId: string; publicUrl: string | null; updatedAt: string }
+  | { success: false; reason: 'not_found' | 'not_pending' | 'stale' | 'publish_failed' | 'cms_conflict'; error: string; details?: string };
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class ContentRefreshService {
+  private generator: EnhancedArticleGenerator;
+  private publisher: ArticlePublisher;
+  private versions: ArticleVersionService;
+
+  constructor(publisher: ArticlePublisher = new ArticlePublisher()) {
+    this.generator = new EnhancedArticleGenerator();
+    this.publisher = publisher;
+    this.versions = new ArticleVersionService();
+  }
+
+  /**
+   * Published articles losing clicks or positions, worst first
+   */
+  async findDecayingArticles(userToken: string, options: { websiteId?: number } = {}): Promise<DecayCandidate[]> {
+    const cooldownCutoff = new Date(Date.now() - REFRESH_COOLDOWN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    let query = supabase
+      .from('article_queue')
+      .select('id, website_id, title, public_url, article_content, target_keywords, published_at, last_refreshed_at, websites:website_id (domain)')
+      .eq('user_token', userToken)
+      .eq('status', 'published')
+      .not('public_url', 'is', null)
+      .not('cms_article_id', 'is', null)
+      .or(`last_refreshed_at.is.null,last_refreshed_at.lt.${cooldownCutoff}`);
+
+    if (options.websiteId) {
+      query = query.eq('website_id', options.websiteId);
+    }
+
+    const { data: articles, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load published articles: ${error.message}`);
+    }
+    if (!articles || articles.length === 0) {
+      return [];
+    }
+
+    const pending = await this.loadOpenProposalArticleIds(userToken);
+    const current = PerformanceAnalyticsService.resolvePeriod('28d');
+    const previous = PerformanceAnalyticsService.resolveBaseline(current);
+
+    // One GSC read per site, shared by all of its articles
+    const byDomain = new Map<string, any[]>();
+    articles
+      .filter((article: any) => !pending.has(article.id) && article.websites?.domain)
+      // The baseline window must be fully after publication, or every new article "decays"
+      .filter((article: any) => !article.published_at || article.published_at.slice(0, 10) < previous.start)
+      .forEach((article: any) => {
+        const domain = article.websites.domain as string;
+        if (!byDomain.has(domain)) byDomain.set(domain, []);
+        byDomain.get(domain)!.push(article);
+      });
+
+    const candidates: DecayCandidate[] = [];
+
+    for (const [domain, siteArticles] of Array.from(byDomain.entries())) {
+      const siteUrl = `https://${domain}`;
+      let pages: { current: Map<string, DimensionRow>; previous: Map<string, DimensionRow> };
+      let queries: { current: DimensionRow[]; previous: DimensionRow[] };
+
+      try {
+        const [currentPages, previousPages, currentQueries, previousQueries] = await Promise.all([
+          PerformanceAnalyticsService.getDimensionRows(userToken, siteUrl, 'page', current),
+          PerformanceAnalyticsService.getDimensionRows(userToken, siteUrl, 'page', previous),
+          PerformanceAnalyticsService.getDimensionRows(userToken, siteUrl, 'query', current),
+          PerformanceAnalyticsService.getDimensionRows(userToken, siteUrl, 'query', previous)
+        ]);
+        pages = { current: this.indexPages(currentPages), previous: this.indexPages(previousPages) };
+        queries = { current: currentQueries, previous: previousQueries };
+      } catch (gscError) {
+        console.log(`[CONTENT REFRESH] GSC data unavailable for ${domain}:`, gscError);
+        continue;
+      }
+
+      for (const article of siteArticles) {
+        const key = this.normalizePageUrl(article.public_url);
+        const before = pages.previous.get(key);
+        const after = pages.current.get(key);
+        if (!before) continue;
+
+        const metrics = this.buildMetrics(current, previous, before, after, queries, this.getKeywords(article));
+        if (!this.isDecaying(metrics, before)) continue;
+
+        const wordCount = this.countWords(article.article_content);
+        candidates.push({
+          articleId: article.id,
+          websiteId: article.website_id,
+          title: article.title,
+          publicUrl: article.public_url,
+          wordCount,
+          metrics,
+          suggestedStrategy: this.chooseStrategy(metrics, wordCount)
+        });
+      }
+    }
+
+    return candidates.sort((a, b) =>
+      (a.metrics.current.clicks - a.metrics.previous.clicks) - (b.metrics.current.clicks - b.metrics.previous.clicks)
+    );
+  }
+
+  /**
+   * Generate a revision for an article and store it for review. Nothing is pushed to the CMS.
+   */
+  async proposeRefresh(
+    userToken: string,
+    articleId: number,
+    options: { strategy?: RefreshStrategy; metrics?: DecayMetrics; trigger?: 'decay' | 'manual' } = {}
+  ): Promise<ContentRefresh> {
+    const { data: article, error } = await supabase
+      .from('article_queue')
+      .select('*, websites:website_id (domain)')
+      .eq('id', articleId)
+      .eq('user_token', userToken)
+      .single();
+
+    if (error || !article) {
+      throw new Error('Article not found');
+    }
+    if (!article.article_content || !article.cms_article_id) {
+      throw new Error('Only articles published to a CMS can be refreshed');
+    }
+
+    const wordCount = this.countWords(article.article_content);
+    const strategy = options.strategy || (options.metrics ? this.chooseStrategy(options.metrics, wordCount) : 'extend');
+
+    console.log(`[CONTENT REFRESH] Proposing ${strategy} refresh for article ${articleId}`);
+
+    const revision = await this.generator.refreshArticle({
+      title: article.title,
+      keywords: this.getKeywords(article),
+      existingContent: article.article_content,
+      strategy,
+      decliningQueries: options.metrics?.decliningQueries || [],
+      websiteDomain: article.websites?.domain,
+      articleType: article.article_type || undefined
+    });
+
+    const { data: refresh, error: insertError } = await supabase
+      .from('content_refreshes')
+      .insert({
+        article_queue_id: articleId,
+        user_token: userToken,
+        website_id: article.website_id,
+        status: 'proposed',
+        strategy,
+        trigger: options.trigger || 'manual',
+        decay_metrics: options.metrics || {},
+        base_content_hash: this.hashContent(article.article_content),
+        proposed_title: article.title,
+        proposed_meta_title: revision.metaTitle,
+        proposed_meta_description: revision.metaDescription,
+        proposed_content: revision.content
+      })
+      .select('*')
+      .single();
+
+    if (insertError || !refresh) {
+      // 23505: another proposal for this article is already waiting for review
+      throw new Error(insertError?.code === '23505'
+        ? 'A refresh for this article is already awaiting review'
+        : `Failed to save refresh proposal: ${insertError?.message}`);
+    }
+
+    return refresh as ContentRefresh;
+  }
+
+  /**
+   * Refresh proposals for a user, newest first
+   */
+  async listRefreshes(userToken: string, options: { websiteId?: number; status?: RefreshStatus; limit?: number } = {}) {
+    let query = supabase
+      .from('content_refreshes')
+      .select('id, article_queue_id, website_id, status, strategy, trigger, decay_metrics, error_message, created_at, reviewed_at, published_at, article_queue:article_queue_id (title, public_url)')
+      .eq('user_token', userToken)
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+
+    if (options.websiteId) query = query.eq('website_id', options.websiteId);
+    if (options.status) query = query.eq('status', options.status);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load content refreshes: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * A proposal with its diff against the live article
+   */
+  async getRefreshWithDiff(userToken: string, refreshId: string): Promise<ContentRefreshDetail | null> {
+    const refresh = await this.loadRefresh(userToken, refreshId);
+    if (!refresh) return null;
+
+    const { data: article } = await supabase
+      .from('article_queue')
+      .select('id, title, public_url, meta_title, meta_description, article_content')
+      .eq('id', refresh.article_queue_id)
+      .single();
+
+    if (!article) return null;
+
+    // Published proposals are compared with the version they replaced
+    let before = article.article_content || '';
+    if (refresh.status === 'published' && refresh.previous_version_id) {
+      const { data: version } = await supabase
+        .from('article_versions')
+        .select('article_content')
+        .eq('id', refresh.previous_version_id)
+        .maybeSingle();
+      before = version?.article_content || '';
+    }
+
+    const diff = diffHtml(before, refresh.proposed_content || '');
+
+    return {
+      refresh,
+      article: {
+        id: article.id,
+        title: article.title,
+        publicUrl: article.public_url || null,
+        metaTitle: article.meta_title || null,
+        metaDescription: article.meta_description || null
+      },
+      diff,
+      summary: summarizeDiff(diff),
+      stale: refresh.status === 'proposed' && refresh.base_content_hash !== this.hashContent(article.article_content)
+    };
+  }
+
+  /**
+   * Snapshot the live body, then push the reviewed revision to the CMS
+   */
+  async approveRefresh(userToken: string, refreshId: string, reviewedBy?: string): Promise<RefreshApprovalResult> {
+    const refresh = await this.loadRefresh(userToken, refreshId);
+    if (!refresh) {
+      return { success: false, reason: 'not_found', error: 'Refresh not found' };
+    }
+    if (refresh.status !== 'proposed') {
+      return { success: false, reason: 'not_pending', error: `Refresh is already ${refresh.status}` };
+    }
+
+    const { data: article } = await supabase
+      .from('article_queue')
+      .select('id, user_token, title, meta_title, meta_description, article_content')
+      .eq('id', refresh.article_queue_id)
+      .eq('user_token', userToken)
+      .single();
+
+    if (!article) {
+      return { success: false, reason: 'not_found', error: 'Article not found' };
+    }
+
+    // Pushing a revision generated from an older body would silently drop the newer edits
+    if (refresh.base_content_hash !== this.hashContent(article.article_content)) {
+      return {
+        success: false,
+        reason: 'stale',
+        error: 'The article changed after this refresh was proposed',
+        details: 'Reject this proposal and generate a new one from the current article.'
+      };
+    }
+
+    // The live body stays restorable from the version history
+    const previousVersion = await this.versions.recordVersion(article.id, 'snapshot', { createdBy: reviewedBy });
+    if (!previousVersion) {
+      return { success: false, reason: 'not_found', error: 'Article has no content to refresh' };
+    }
+
+    const result = await this.publisher.pushUpdate(userToken, article.id, {
+      content: refresh.proposed_content || '',
+      title: refresh.proposed_title || undefined,
+      metaTitle: refresh.proposed_meta_title || undefined,
+      metaDescription: refresh.proposed_meta_description || undefined
+    });
+
+    const now = new Date().toISOString();
+
+    if (!result.success) {
+      await supabase
+        .from('content_refreshes')
+        .update({ error_message: result.details || result.error, updated_at: now })
+        .eq('id', refresh.id);
+
+      const reason = result.reason === 'cms_conflict' ? 'cms_conflict' : 'publish_failed';
+      return { success: false, reason, error: result.error, details: result.details };
+    }
+
+    await this.versions.tryRecordVersion(article.id, 'refresh', {
+      reason: `${refresh.strategy === 'regenerate' ? 'Rewrite' : 'Extension'} from refresh ${refresh.id}`,
+      createdBy: reviewedBy
+    });
+
+    await supabase
+      .from('content_refreshes')
+      .update({
+        status: 'published',
+        previous_version_id: previousVersion.id,
+        error_message: null,
+        reviewed_by: reviewedBy || null,
+        reviewed_at: now,
+        published_at: now,
+        updated_at: now
+      })
+      .eq('id', refresh.id);
+
+    await supabase
+      .from('article_queue')
+      .update({ last_refreshed_at: now })
+      .eq('id', article.id);
+
+    console.log(`[CONTENT REFRESH] Refresh ${refresh.id} published for article ${article.id} (previous body: version ${previousVersion.version_number})`);
+
+    return { success: true, refreshId: refresh.id, versionId: previousVersion.id, publicUrl: result.publicUrl, updatedAt: result.updatedAt };
+  }
+
+  async rejectRefresh(userToken: string, refreshId: string, reviewedBy?: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('content_refreshes')
+      .update({ status: 'rejected', reviewed_by: reviewedBy || null, reviewed_at: now, updated_at: now })
+      .eq('id', refreshId)
+      .eq('user_token', userToken)
+      .eq('status', 'proposed')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to reject refresh: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Cron entry point: propose refreshes for the worst-decaying articles of every user
+   */
+  async scanAndPropose(options: { maxProposals?: number; deadline?: number } = {}) {
+    const maxProposals = options.maxProposals ?? 5;
+    const summary = { usersScanned: 0, candidates: 0, proposed: 0, errors: [] as Array<{ articleId: number; error: string }> };
+
+    const { data: rows, error } = await supabase
+      .from('article_queue')
+      .select('user_token')
+      .eq('status', 'published')
+      .not('public_url', 'is', null)
+      .not('cms_article_id', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to list published articles: ${error.message}`);
+    }
+
+    const userTokens = Array.from(new Set((rows || []).map((row: any) => row.user_token as string)));
+
+    for (const userToken of userTokens) {
+      if (summary.proposed >= maxProposals) break;
+      if (options.deadline && Date.now() > options.deadline) {
+        console.log('[CONTENT REFRESH] Deadline reached, remaining users wait for the next run');
+        break;
+      }
+
+      summary.usersScanned++;
+      const candidates = await this.findDecayingArticles(userToken);
+      summary.candidates += candidates.length;
+
+      // Worst decline per user first, so one large site doesn't use up the whole run
+      const candidate = candidates[0];
+      if (!candidate) continue;
+
+      try {
+        await this.proposeRefresh(userToken, candidate.articleId, {
+          strategy: candidate.suggestedStrategy,
+          metrics: candidate.metrics,
+          trigger: 'decay'
+        });
+        summary.proposed++;
+      } catch (proposeError) {
+        summary.errors.push({
+          articleId: candidate.articleId,
+          error: proposeError instanceof Error ? proposeError.message : 'Unknown error'
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  private buildMetrics(
+    current: DateRange,
+    previous: DateRange,
+    before: DimensionRow,
+    after: DimensionRow | undefined,
+    queries: { current: DimensionRow[]; previous: DimensionRow[] },
+    keywords: string[]
+  ): DecayMetrics {
+    const now = after || { clicks: 0, impressions: 0, position: 0 };
+    const positionChange = now.impressions > 0 && before.impressions > 0 ? now.position - before.position : 0;
+
+    return {
+      current: { start: current.start, end: current.end, clicks: now.clicks, impressions: now.impressions, position: round1(now.position) },
+      previous: { start: previous.start, end: previous.end, clicks: before.clicks, impressions: before.impressions, position: round1(before.position) },
+      clicksChangePercent: before.clicks > 0 ? Math.round(((now.clicks - before.clicks) / before.clicks) * 100) : 0,
+      positionChange: round1(positionChange),
+      decliningQueries: this.findDecliningQueries(queries, keywords)
+    };
+  }
+
+  private isDecaying(metrics: DecayMetrics, before: DimensionRow): boolean {
+    const clicksDropped = before.clicks >= MIN_PREVIOUS_CLICKS &&
+      metrics.current.clicks <= before.clicks * (1 - CLICKS_DROP_RATIO);
+    const positionDropped = before.impressions >= MIN_IMPRESSIONS_FOR_POSITION &&
+      metrics.positionChange >= POSITION_DROP;
+    return clicksDropped || positionDropped;
+  }
+
+  private chooseStrategy(metrics: DecayMetrics, wordCount: number): RefreshStrategy {
+    if (wordCount > 0 && wordCount < REGENERATE_MIN_WORDS) return 'regenerate';
+    return metrics.clicksChangePercent <= -REGENERATE_CLICKS_DROP_RATIO * 100 && metrics.positionChange >= 10
+      ? 'regenerate'
+      : 'extend';
+  }
+
+  /**
+   * GSC query rows aren't broken down by page, so queries are attributed to the article
+   * through its target keywords
+   */
+  private findDecliningQueries(queries: { current: DimensionRow[]; previous: DimensionRow[] }, keywords: string[]) {
+    const terms = keywords.map(k => k.toLowerCase()).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const relevant = (query: string) => {
+      const q = query.toLowerCase();
+      return terms.some(term => q.includes(term) || term.includes(q));
+    };
+
+    const currentByKey = new Map<string, DimensionRow>();
+    queries.current.forEach(row => currentByKey.set(row.key, row));
+
+    return queries.previous
+      .filter(row => relevant(row.key))
+      .map(row => {
+        const now = currentByKey.get(row.key);
+        return {
+          query: row.key,
+          clicksChange: Math.round((now?.clicks || 0) - row.clicks),
+          positionChange: now && now.impressions > 0 ? now.position - row.position : 0,
+          position: round1(now && now.impressions > 0 ? now.position : row.position)
+        };
+      })
+      .filter(q => q.clicksChange < 0 || q.positionChange >= POSITION_DROP)
+      .sort((a, b) => a.clicksChange - b.clicksChange)
+      .slice(0, MAX_DECLINING_QUERIES)
+      .map(({ query, clicksChange, position }) => ({ query, clicksChange, position }));
+  }
+
+  private async loadRefresh(userToken: string, refreshId: string): Promise<ContentRefresh | null> {
+    const { data } = await supabase
+      .from('content_refreshes')
+      .select('*')
+      .eq('id', refreshId)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    return (data as ContentRefresh) || null;
+  }
+
+  private async loadOpenProposalArticleIds(userToken: string): Promise<Set<number>> {
+    const { data } = await supabase
+      .from('content_refreshes')
+      .select('article_queue_id')
+      .eq('user_token', userToken)
+      .eq('status', 'proposed');
+
+    return new Set((data || []).map((row: any) => row.article_queue_id as number));
+  }
+
+  private indexPages(rows: DimensionRow[]): Map<string, DimensionRow> {
+    const index = new Map<string, DimensionRow>();
+    rows.forEach(row => {
+      const key = this.normalizePageUrl(row.key);
+      const existing = index.get(key);
+      // http/https and trailing-slash variants of one page are reported separately
+      if (!existing) {
+        index.set(key, { ...row });
+      } else {
+        const impressions = existing.impressions + row.impressions;
+        index.set(key, {
+          ...existing,
+          clicks: existing.clicks + row.clicks,
+          impressions,
+          ctr: impressions > 0 ? (existing.clicks + row.clicks) / impressions : 0,
+          position: impressions > 0 ? (existing.position * existing.impressions + row.position * row.impressions) / impressions : 0
+        });
+      }
+    });
+    return index;
+  }
+
+  private normalizePageUrl(url: string): string {
+    return url
+      .trim()
+      .toLowerCase()
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '')
+      .replace(/[?#].*$/, '')
+      .replace(/\/+$/, '');
+  }
+
+  private getKeywords(article: any): string[] {
+    const raw = Array.isArray(article.target_keywords) ? article.target_keywords : [];
+    const keywords = raw
+      .map((k: any) => (typeof k === 'string' ? k : k?.keyword))
+      .filter((k: any): k is string => typeof k === 'string' && k.trim().length > 0);
+    return keywords.length > 0 ? keywords : [article.title];
+  }
+
+  private hashContent(content?: string | null): string {
+    return createHash('sha256').update(content || '').digest('hex');
+  }
+
+  private countWords(content?: string | null): number {
+    const text = (content || '').replace(/<[^>]*>/g, ' ').trim();
+    return text ? text.split(/\s+/).length : 0;
+  }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
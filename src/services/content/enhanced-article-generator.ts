@@ -46,6 +46,65 @@ export interface EnhancedArticleResult {
   slug: string;
 }
 
+export interface ArticleRefreshRequest {
+  title: string;
+  keywords: string[];
+  existingContent: string; // Current published HTML
+  strategy: 'extend' | 'regenerate';
+  decliningQueries: Array<{ query: string; clicksChange: number; position: number }>;
+  websiteDomain?: string;
+  articleType?: ArticleType;
+  tone?: 'professional' | 'casual' | 'technical';
+}
+
+export interface ArticleRefreshResult {
+  content: string;
+  metaTitle: string;
+  metaDescription: string;
+  strategy: 'extend' | 'regenerate';
+}
+
+export interface ArticleFeedbackRequest {
+  title: string;
+  keywords: string[];
+  existingContent: string; // Draft HTML the reviewers commented on
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+  feedback?: string | null; // Overall note left with the change request
+  comments: Array<{ quote?: string | null; body: string; author?: string | null }>; // Inline comments, quote = the text they're anchored to
+  websiteDomain?: string;
+  articleType?: ArticleType;
+  tone?: 'professional' | 'casual' | 'technical';
+}
+
+export interface ArticleFeedbackResult {
+  content: string;
+  metaTitle: string;
+  metaDescription: string;
+}
+
+export interface ArticleTranslationRequest {
+  title: string;
+  keywords: string[];
+  content: string; // Approved or published HTML of the original
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+  sourceLanguage: string; // BCP 47, e.g. en
+  targetLanguage: string; // BCP 47, e.g. de, pt-BR
+  websiteDomain?: string;
+  articleType?: ArticleType;
+  tone?: 'professional' | 'casual' | 'technical';
+}
+
+export interface ArticleTranslationResult {
+  title: string;
+  keywords: string[]; // What searchers in the target language type, not literal translations
+  slug: string; // Localized, in the target language
+  content: string;
+  metaTitle: string;
+  metaDescription: string;
+}
+
 export class EnhancedArticleGenerator {
   private researchService: ResearchService;
   private imageService: ImageGenerationService;
@@ -151,6 +210,275 @@ export class EnhancedArticleGenerator {
     };
   }
 
+  /**
+   * Revise an already-published article that is losing search traffic.
+   * 'extend' keeps the article and rewrites/adds only the sections the declining queries need;
+   * 'regenerate' writes a fresh article for the same title and keywords.
+   */
+  async refreshArticle(request: ArticleRefreshRequest): Promise<ArticleRefreshResult> {
+    const articleType = request.articleType || 'blog';
+    const tone = request.tone || 'professional';
+
+    console.log(`[ENHANCED GENERATOR] Refreshing article: "${request.title}" (${request.strategy})`);
+
+    if (request.strategy === 'regenerate') {
+      const keywords = Array.from(new Set(request.keywords.concat(request.decliningQueries.map(q => q.query)))).slice(0, 10);
+      const result = await this.generateComprehensiveArticle({
+        title: request.title,
+        keywords,
+        websiteDomain: request.websiteDomain,
+        contentLength: 'long',
+        tone,
+        articleType,
+        includeCitations: true,
+        referenceStyle: 'link',
+        includeImages: false, // The published article keeps its existing images
+        numImages: 0,
+        imageProvider: 'openai',
+        imageStyle: 'professional web design'
+      });
+
+      return {
+        content: result.content,
+        metaTitle: result.metaTitle,
+        metaDescription: result.metaDescription,
+        strategy: 'regenerate'
+      };
+    }
+
+    const queryBlock = request.decliningQueries.length > 0
+      ? request.decliningQueries.map(q =>
+          `- "${q.query}" (clicks ${q.clicksChange >= 0 ? '+' : ''}${q.clicksChange}, avg position ${q.position.toFixed(1)})`
+        ).join('\n')
+      : '- No query-level data; refresh the article for the target keywords as a whole';
+
+    const prompt = `
+Refresh this published article, which is losing search traffic: "${request.title}"
+
+TARGET KEYWORDS: ${request.keywords.join(', ')}
+TONE: ${this.getStylePrompt(tone)}
+DOMAIN CONTEXT: ${request.websiteDomain || 'general website'}
+
+QUERIES LOSING CLICKS OR POSITIONS:
+${queryBlock}
+
+REFRESH RULES:
+- Keep the existing structure, headings, links, images and figures wherever they are still accurate
+- Rewrite only sections that are outdated, thin, or fail to answer the queries above
+- Add new <h2>/<h3> sections for queries the article does not answer yet
+- Update years, statistics and examples to be current; never invent sources
+- Expand the FAQ with questions matching the declining queries
+- Return the COMPLETE article HTML, not only the changed sections
+- Use the same semantic HTML as the original (<h2>, <h3>, <p>, <ul>, <li>, <strong>)
+
+META REQUIREMENTS:
+- metaTitle: 50-60 characters, include primary keyword "${request.keywords[0] || ''}"
+- metaDescription: 150-160 characters, compelling with clear value proposition
+
+CURRENT ARTICLE HTML:
+${request.existingContent}
+
+RESPONSE FORMAT: Return ONLY valid JSON (no markdown backticks):
+{
+  "metaTitle": "SEO-optimized title with primary keyword",
+  "metaDescription": "Compelling description with clear value and CTA",
+  "content": "Complete refreshed HTML article"
+}
+`.trim();
+
+    const parsed = await this.requestRevision(prompt, articleType, 'Refresh');
+
+    return {
+      content: parsed.content,
+      metaTitle: parsed.metaTitle || request.title,
+      metaDescription: parsed.metaDescription || '',
+      strategy: 'extend'
+    };
+  }
+
+  /**
+   * Revise a draft with its reviewers' feedback: the overall note plus inline comments anchored
+   * to quoted passages. Everything the feedback doesn't touch stays as it is.
+   */
+  async reviseWithFeedback(request: ArticleFeedbackRequest): Promise<ArticleFeedbackResult> {
+    const articleType = request.articleType || 'blog';
+    const tone = request.tone || 'professional';
+
+    console.log(`[ENHANCED GENERATOR] Revising article with reviewer feedback: "${request.title}" (${request.comments.length} comments)`);
+
+    const commentBlock = request.comments.length > 0
+      ? request.comments.map((comment, index) =>
+          `${index + 1}. ${comment.quote ? `On "${comment.quote}": ` : ''}${comment.body}${comment.author ? ` (${comment.author})` : ''}`
+        ).join('\n')
+      : '- No inline comments';
+
+    const prompt = `
+Revise this draft article based on editorial review feedback: "${request.title}"
+
+TARGET KEYWORDS: ${request.keywords.join(', ')}
+TONE: ${this.getStylePrompt(tone)}
+DOMAIN CONTEXT: ${request.websiteDomain || 'general website'}
+
+REVIEWER'S OVERALL FEEDBACK:
+${request.feedback?.trim() || '- None; address the inline comments'}
+
+INLINE COMMENTS (quoted text is the passage each comment refers to):
+${commentBlock}
+
+REVISION RULES:
+- Address every comment; where a comment quotes a passage, change that passage
+- Leave everything the feedback doesn't mention unchanged, including headings, links and images
+- Never invent sources or statistics to satisfy a comment
+- Return the COMPLETE article HTML, not only the changed sections
+- Use the same semantic HTML as the draft (<h2>, <h3>, <p>, <ul>, <li>, <strong>)
+- Keep the meta title and description unless the feedback asks to change them
+
+CURRENT META TITLE: ${request.metaTitle || request.title}
+CURRENT META DESCRIPTION: ${request.metaDescription || ''}
+
+CURRENT DRAFT HTML:
+${request.existingContent}
+
+RESPONSE FORMAT: Return ONLY valid JSON (no markdown backticks):
+{
+  "metaTitle": "Meta title (changed only if requested)",
+  "metaDescription": "Meta description (changed only if requested)",
+  "content": "Complete revised HTML article"
+}
+`.trim();
+
+    const parsed = await this.requestRevision(prompt, articleType, 'Revision');
+
+    return {
+      content: parsed.content,
+      metaTitle: parsed.metaTitle || request.metaTitle || request.title,
+      metaDescription: parsed.metaDescription || request.metaDescription || ''
+    };
+  }
+
+  /**
+   * Localize an article for another language: keywords are re-researched as local searchers
+   * would phrase them, and the title, slug, meta tags and body are written for that market
+   * rather than translated word for word. Structure, links and images carry over.
+   */
+  async translateArticle(request: ArticleTranslationRequest): Promise<ArticleTranslationResult> {
+    const articleType = request.articleType || 'blog';
+    const tone = request.tone || 'professional';
+
+    console.log(`[ENHANCED GENERATOR] Translating article: "${request.title}" (${request.sourceLanguage} → ${request.targetLanguage})`);
+
+    const prompt = `
+Localize this article from ${request.sourceLanguage} into ${request.targetLanguage}: "${request.title}"
+
+ORIGINAL TARGET KEYWORDS: ${request.keywords.join(', ')}
+TONE: ${this.getStylePrompt(tone)}
+DOMAIN CONTEXT: ${request.websiteDomain || 'general website'}
+
+LOCALIZATION RULES:
+- Write for native ${request.targetLanguage} readers; never translate word for word
+- keywords: the terms people searching in ${request.targetLanguage} actually use for this topic, primary keyword first (3-8)
+- Use the localized primary keyword in the title, first paragraph and at least one <h2>
+- Adapt examples, units, currencies and date formats to the target market where it matters
+- Keep the structure, headings hierarchy, links, images and figures; translate alt text and captions
+- Keep URLs, code and brand or product names unchanged
+- Never invent sources or statistics
+- Return the COMPLETE article HTML using the same semantic HTML as the original
+- slug: lowercase, hyphen-separated, in ${request.targetLanguage}, 3-6 words, no stop words
+
+META REQUIREMENTS:
+- metaTitle: 50-60 characters, include the localized primary keyword
+- metaDescription: 150-160 characters, compelling with clear value proposition
+
+ORIGINAL META TITLE: ${request.metaTitle || request.title}
+ORIGINAL META DESCRIPTION: ${request.metaDescription || ''}
+
+ORIGINAL ARTICLE HTML:
+${request.content}
+
+RESPONSE FORMAT: Return ONLY valid JSON (no markdown backticks):
+{
+  "title": "Localized article title",
+  "keywords": ["localized primary keyword", "..."],
+  "slug": "localized-url-slug",
+  "metaTitle": "Localized meta title",
+  "metaDescription": "Localized meta description",
+  "content": "Complete localized HTML article"
+}
+`.trim();
+
+    const parsed = await this.requestRevision(prompt, articleType, 'Translation');
+    const title = typeof parsed.title === 'string' && parsed.title.trim() ? parsed.title.trim() : request.title;
+    const keywords = Array.isArray(parsed.keywords)
+      ? parsed.keywords.filter((keyword: unknown) => typeof keyword === 'string' && keyword.trim()).map((keyword: string) => keyword.trim())
+      : [];
+
+    return {
+      title,
+      keywords: keywords.length > 0 ? keywords : request.keywords,
+      slug: this.localizedSlug(typeof parsed.slug === 'string' && parsed.slug ? parsed.slug : title),
+      content: parsed.content,
+      metaTitle: parsed.metaTitle || title,
+      metaDescription: parsed.metaDescription || ''
+    };
+  }
+
+  /**
+   * Rewrite an existing article from a prompt; the response carries the complete HTML and meta
+   */
+  private async requestRevision(
+    prompt: string,
+    articleType: ArticleType,
+    label: 'Refresh' | 'Revision' | 'Translation'
+  ): Promise<{ content: string; metaTitle?: string; metaDescription?: string; [field: string]: any }> {
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    if (!openaiApiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    try {
+      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${openaiApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'gpt-4o-mini',
+          messages: [
+            {
+              role: 'system',
+              content: getPromptManager().getPrompt('content', 'ENHANCED_SEO_CONTENT_WRITER', { articleType })
+            },
+            { role: 'user', content: prompt }
+          ],
+          response_format: { type: 'json_object' },
+          temperature: 0.2,
+          max_tokens: 4000
+        }),
+        signal: AbortSignal.timeout(55000)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+      const parsed = JSON.parse(data.choices?.[0]?.message?.content || '{}');
+
+      if (!parsed.content || typeof parsed.content !== 'string') {
+        throw new Error(`${label} response did not include article content`);
+      }
+
+      return parsed;
+    } catch (error: any) {
+      if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+        throw new Error(`Article ${label.toLowerCase()} timed out. Please try again.`);
+      }
+      throw new Error(`Content ${label.toLowerCase()} failed: ${error.message}`);
+    }
+  }
+
   /**
    * Generate article content using OpenAI with enhanced prompts
    */
@@ -418,6 +746,19 @@ RESPONSE FORMAT: Return ONLY valid JSON (no markdown backticks):
       .replace(/(^-|-$)/g, '');
   }
 
+  /**
+   * Like slugify, but keeps letters outside ASCII (ü → u, while Cyrillic or CJK stay as they are)
+   */
+  private localizedSlug(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[\u0000-\u002f\u003a-\u0040\u005b-\u0060\u007b-\u00bf\u2000-\u206f\u3000-\u303f\uff01-\uff0f]+/g, '-')
+      .replace(/(^-|-$)/g, '')
+      .slice(0, 80);
+  }
+
   private normalizeUrl(url?: string): string {
     if (!url) return '';
     try {
@@ -0,0 +1,252 @@
+/**
+ * Publishing Schedule Service
+ *
+ * Per-website publishing rules (timezone, days, times, blackout dates, max per day/week) stored
+ * on content_schedules, and the slots a site's scheduled and published items already occupy.
+ *
+ * - Calendar drops pick the first free publishing time on the dropped day
+ * - Exact times (API callers) are checked against the day and the caps
+ * - The publish cron defers due articles that would break a rule to the next free slot
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  PlanTier,
+  PublishingRules,
+  SlotResult,
+  calculateSchedule,
+  checkSlot,
+  findSlotOnDate,
+  resolvePublishingRules,
+  validatePublishingRules
+} from '@/lib/scheduling';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const PLAN_TIERS: PlanTier[] = ['starter', 'pro', 'scale'];
+
+// Items older than this can't affect a day or week that is still open
+const OCCUPANCY_LOOKBACK_DAYS = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SiteSchedule {
+  websiteId: number;
+  websiteToken: string;
+  userToken: string;
+  planTier: PlanTier;
+  custom: Partial<PublishingRules>; // What the site configured; empty = plan pattern
+  rules: PublishingRules; // Effective rules after plan defaults and caps
+}
+
+export interface ScheduleExclusions {
+  articleId?: number; // The item being (re)scheduled doesn't block its own slot
+  briefId?: number;
+}
+
+export type SaveRulesResult =
+  | { success: true; schedule: SiteSchedule }
+  | { success: false; error: string; status: number };
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class PublishingScheduleService {
+  /**
+   * Plan tier and publishing rules of a user's website, or null when the website isn't theirs
+   */
+  async getSiteSchedule(userToken: string, websiteToken: string): Promise<SiteSchedule | null> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select('id, website_token')
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    return website ? this.loadSchedule(userToken, website.id, website.website_token) : null;
+  }
+
+  async getSiteScheduleByWebsiteId(userToken: string, websiteId: number): Promise<SiteSchedule | null> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select('id, website_token')
+      .eq('id', websiteId)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    return website ? this.loadSchedule(userToken, website.id, website.website_token) : null;
+  }
+
+  /**
+   * Save a site's rules. Keys that are present replace the stored value; null clears it back
+   * to the plan pattern.
+   */
+  async saveRules(userToken: string, websiteToken: string, input: { [K in keyof PublishingRules]?: PublishingRules[K] | null }): Promise<SaveRulesResult> {
+    const provided: Partial<PublishingRules> = {};
+    (Object.keys(input) as Array<keyof PublishingRules>).forEach(key => {
+      if (input[key] !== null && input[key] !== undefined) (provided as any)[key] = input[key];
+    });
+
+    const validationError = validatePublishingRules(provided);
+    if (validationError) {
+      return { success: false, error: validationError, status: 400 };
+    }
+
+    const current = await this.getSiteSchedule(userToken, websiteToken);
+    if (!current) {
+      return { success: false, error: 'Website not found or access denied', status: 404 };
+    }
+
+    const columns: Record<string, any> = {};
+    if ('timezone' in input) columns.timezone = input.timezone || 'UTC';
+    if ('daysOfWeek' in input) columns.publish_days = input.daysOfWeek ? Array.from(new Set(input.daysOfWeek)).sort() : null;
+    if ('times' in input) columns.publish_times = input.times ? Array.from(new Set(input.times)).sort() : null;
+    if ('blackoutDates' in input) columns.blackout_dates = input.blackoutDates ? Array.from(new Set(input.blackoutDates)).sort() : [];
+    if ('maxPerDay' in input) columns.max_per_day = input.maxPerDay ?? null;
+    if ('maxPerWeek' in input) columns.max_per_week = input.maxPerWeek ?? null;
+
+    const { error } = await supabase
+      .from('content_schedules')
+      .upsert({
+        user_token: userToken,
+        website_token: websiteToken,
+        ...columns,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'website_token',
+        ignoreDuplicates: false
+      });
+
+    if (error) {
+      console.error('[PUBLISHING SCHEDULE] Failed to save rules:', error.message);
+      return { success: false, error: 'Failed to save publishing schedule', status: 500 };
+    }
+
+    console.log('[PUBLISHING SCHEDULE] Saved rules for', websiteToken, columns);
+    const schedule = await this.loadSchedule(userToken, current.websiteId, websiteToken);
+    return { success: true, schedule };
+  }
+
+  /**
+   * Times already taken by the site's scheduled briefs and articles, and by articles it
+   * published recently (they count toward the day and week they went out in)
+   */
+  async getOccupiedSlots(schedule: SiteSchedule, exclude: ScheduleExclusions = {}): Promise<Date[]> {
+    const [published, { data: articles }, { data: briefs }] = await Promise.all([
+      this.getPublishedSlots(schedule),
+      supabase
+        .from('article_queue')
+        .select('id, scheduled_publish_at')
+        .eq('website_id', schedule.websiteId)
+        .neq('status', 'published')
+        .gte('scheduled_publish_at', this.lookbackStart()),
+      supabase
+        .from('article_briefs')
+        .select('id, scheduled_for')
+        .eq('website_token', schedule.websiteToken)
+        .in('status', ['draft', 'queued', 'generating'])
+        .gte('scheduled_for', this.lookbackStart())
+    ]);
+
+    const slots = published.filter(slot => slot.articleId !== exclude.articleId).map(slot => slot.at);
+    (articles || []).forEach((article: any) => {
+      if (article.id !== exclude.articleId) slots.push(new Date(article.scheduled_publish_at));
+    });
+    (briefs || []).forEach((brief: any) => {
+      if (brief.id !== exclude.briefId) slots.push(new Date(brief.scheduled_for));
+    });
+
+    return slots;
+  }
+
+  /**
+   * When the site's recent articles went out
+   */
+  async getPublishedSlots(schedule: SiteSchedule): Promise<Array<{ articleId: number; at: Date }>> {
+    const { data: published } = await supabase
+      .from('article_queue')
+      .select('id, published_at')
+      .eq('website_id', schedule.websiteId)
+      .eq('status', 'published')
+      .gte('published_at', this.lookbackStart());
+
+    return (published || []).map((article: any) => ({ articleId: article.id, at: new Date(article.published_at) }));
+  }
+
+  /**
+   * First free publishing time on a calendar day ("YYYY-MM-DD" in the site's timezone)
+   */
+  async resolveDrop(schedule: SiteSchedule, dateKey: string, exclude: ScheduleExclusions = {}): Promise<SlotResult> {
+    const existing = await this.getOccupiedSlots(schedule, exclude);
+    return findSlotOnDate(dateKey, schedule.planTier, { rules: schedule.custom, existing });
+  }
+
+  /**
+   * Whether an exact time respects the site's days, blackout dates and caps
+   */
+  async checkTime(schedule: SiteSchedule, slot: Date, exclude: ScheduleExclusions = {}): Promise<SlotResult> {
+    if (slot.getTime() < Date.now() - 60 * 1000) {
+      return { ok: false, error: 'Cannot schedule content in the past' };
+    }
+    const existing = await this.getOccupiedSlots(schedule, exclude);
+    return checkSlot(slot, schedule.planTier, { rules: schedule.custom, existing });
+  }
+
+  /**
+   * Next free slot from tomorrow on, given the slots already taken
+   */
+  nextFreeSlot(schedule: SiteSchedule, existing: Date[], after: Date = new Date()): Date | null {
+    return calculateSchedule(1, schedule.planTier, after, { rules: schedule.custom, existing })[0] || null;
+  }
+
+  private lookbackStart(): string {
+    return new Date(Date.now() - OCCUPANCY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  private async loadSchedule(userToken: string, websiteId: number, websiteToken: string): Promise<SiteSchedule> {
+    const [{ data: plan }, { data: row }] = await Promise.all([
+      supabase
+        .from('user_plans')
+        .select('tier')
+        .eq('user_token', userToken)
+        .maybeSingle(),
+      supabase
+        .from('content_schedules')
+        .select('timezone, publish_days, publish_times, blackout_dates, max_per_day, max_per_week')
+        .eq('website_token', websiteToken)
+        .maybeSingle()
+    ]);
+
+    // Free and unknown tiers schedule like Starter
+    const planTier: PlanTier = PLAN_TIERS.includes(plan?.tier) ? plan!.tier : 'starter';
+    const custom = this.rowToRules(row);
+
+    return {
+      websiteId,
+      websiteToken,
+      userToken,
+      planTier,
+      custom,
+      rules: resolvePublishingRules(planTier, custom)
+    };
+  }
+
+  private rowToRules(row: any): Partial<PublishingRules> {
+    if (!row) return {};
+
+    const rules: Partial<PublishingRules> = {};
+    if (row.timezone) rules.timezone = row.timezone;
+    if (Array.isArray(row.publish_days) && row.publish_days.length > 0) rules.daysOfWeek = row.publish_days.map(Number);
+    if (Array.isArray(row.publish_times) && row.publish_times.length > 0) rules.times = row.publish_times;
+    if (Array.isArray(row.blackout_dates) && row.blackout_dates.length > 0) rules.blackoutDates = row.blackout_dates;
+    if (row.max_per_day) rules.maxPerDay = row.max_per_day;
+    if (row.max_per_week) rules.maxPerWeek = row.max_per_week;
+    return rules;
+  }
+}
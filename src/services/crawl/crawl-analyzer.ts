@@ -0,0 +1,487 @@
+/**
+ * Crawl Analyzer
+ * Turns the pages returned by a crawl (Firecrawl CrawlResultPage[]) into a site-wide
+ * report: duplicate titles/descriptions, orphan pages, redirect chains, thin content
+ * and click-depth distribution from the homepage.
+ */
+
+import { extractSignals, SEOAGENT_USER_AGENT, TechnicalFinding } from '@/services/technical-seo/page-analyzer';
+import { readSitemapEntries } from './sitemap-reader';
+import type { CrawlResultPage } from './firecrawl-client';
+
+const THIN_CONTENT_WORDS = 300;
+const DEEP_PAGE_CLICKS = 4;
+const MAX_REDIRECT_TRACES = 20;
+const MAX_REDIRECT_HOPS = 10;
+const REDIRECT_TIMEOUT_MS = 8000;
+const SAMPLE_LIMIT = 25;
+
+export type CrawlAnalysisType = 'full' | 'duplicates' | 'orphans' | 'redirects' | 'thin_content' | 'depth';
+
+export interface CrawledPageSummary {
+  url: string;
+  requestedUrl: string;
+  statusCode: number | null;
+  title: string | null;
+  metaDescription: string | null;
+  canonical: string | null;
+  wordCount: number;
+  internalLinks: string[];
+  depth: number | null;
+  inlinks: number;
+}
+
+export interface RedirectChain {
+  from: string;
+  hops: Array<{ url: string; status: number }>;
+  finalUrl: string;
+  finalStatus: number | null;
+  loop: boolean;
+  linkedFrom: number;
+}
+
+export interface CrawlAnalysisReport {
+  siteUrl: string;
+  analysisType: CrawlAnalysisType;
+  pagesAnalyzed: number;
+  duplicates?: {
+    titles: Array<{ value: string; urls: string[] }>;
+    descriptions: Array<{ value: string; urls: string[] }>;
+    missingTitles: string[];
+    missingDescriptions: string[];
+  };
+  orphans?: {
+    inSitemapNotLinked: string[];
+    crawledWithoutInlinks: string[];
+    sitemapChecked: boolean;
+  };
+  redirects?: {
+    redirectedPages: number;
+    chains: RedirectChain[];
+    internalLinksToRedirects: number;
+  };
+  thinContent?: {
+    threshold: number;
+    pages: Array<{ url: string; wordCount: number }>;
+  };
+  depth?: {
+    distribution: Record<string, number>;
+    averageDepth: number;
+    maxDepth: number;
+    deepPages: Array<{ url: string; depth: number }>;
+    unreachable: number;
+  };
+  findings: TechnicalFinding[];
+  score: number;
+}
+
+export class CrawlAnalyzer {
+  /**
+   * Analyze crawled pages. Orphan detection reads the site's sitemap and redirect analysis
+   * re-requests redirected URLs hop by hop unless disabled.
+   */
+  static async analyze(pages: CrawlResultPage[], opts: {
+    siteUrl?: string;
+    analysisType?: CrawlAnalysisType;
+    sitemapUrls?: string[];
+    traceRedirects?: boolean;
+  } = {}): Promise<CrawlAnalysisReport> {
+    const analysisType = opts.analysisType || 'full';
+    const wants = (type: CrawlAnalysisType) => analysisType === 'full' || analysisType === type;
+    const summaries = this.summarizePages(pages);
+    const siteUrl = opts.siteUrl || (summaries[0] ? new URL(summaries[0].url).origin : '');
+
+    console.log(`[CRAWL ANALYZER] Analyzing ${summaries.length} pages for ${siteUrl} (${analysisType})`);
+
+    this.computeLinkGraph(summaries, siteUrl);
+
+    const report: CrawlAnalysisReport = {
+      siteUrl,
+      analysisType,
+      pagesAnalyzed: summaries.length,
+      findings: [],
+      score: 100
+    };
+
+    if (wants('duplicates')) report.duplicates = this.findDuplicates(summaries, report.findings);
+    if (wants('orphans')) report.orphans = await this.findOrphans(summaries, siteUrl, opts.sitemapUrls, report.findings);
+    if (wants('redirects')) report.redirects = await this.findRedirects(summaries, opts.traceRedirects !== false, report.findings);
+    if (wants('thin_content')) report.thinContent = this.findThinContent(summaries, report.findings);
+    if (wants('depth')) report.depth = this.depthDistribution(summaries, report.findings);
+
+    report.score = calculateScore(report.findings, summaries.length);
+    return report;
+  }
+
+  /**
+   * Normalize Firecrawl pages into summaries. Firecrawl reports the requested URL as
+   * metadata.sourceURL and the final URL as metadata.url / page.url.
+   */
+  static summarizePages(pages: CrawlResultPage[]): CrawledPageSummary[] {
+    const byUrl = new Map<string, CrawledPageSummary>();
+
+    pages.forEach(page => {
+      const metadata = page.metadata || {};
+      const finalUrl = normalize(metadata.url || page.url);
+      const requestedUrl = normalize(metadata.sourceURL || page.url);
+      if (!finalUrl || byUrl.has(finalUrl)) return;
+
+      const signals = page.html ? extractSignals(page.html, finalUrl) : null;
+      const markdownWords = page.markdown ? page.markdown.split(/\s+/).filter(Boolean).length : 0;
+      const statusCode = typeof metadata.statusCode === 'number' ? metadata.statusCode : null;
+
+      byUrl.set(finalUrl, {
+        url: finalUrl,
+        requestedUrl: requestedUrl || finalUrl,
+        statusCode,
+        title: signals?.title ?? (metadata.title || null),
+        metaDescription: signals?.metaDescription ?? (metadata.description || null),
+        canonical: signals?.canonical ?? null,
+        wordCount: signals ? signals.wordCount : markdownWords,
+        internalLinks: (signals?.internalLinks || []).map(normalize).filter((u): u is string => !!u),
+        depth: null,
+        inlinks: 0
+      });
+    });
+
+    return Array.from(byUrl.values());
+  }
+
+  private static computeLinkGraph(pages: CrawledPageSummary[], siteUrl: string): void {
+    const byUrl = new Map<string, CrawledPageSummary>();
+    pages.forEach(page => {
+      byUrl.set(page.url, page);
+      // Links to the pre-redirect URL should still count toward the target page
+      if (page.requestedUrl !== page.url) byUrl.set(page.requestedUrl, page);
+    });
+
+    pages.forEach(page => {
+      new Set(page.internalLinks).forEach(link => {
+        const target = byUrl.get(link);
+        if (target && target !== page) target.inlinks++;
+      });
+    });
+
+    // BFS from the homepage for click depth
+    const home = byUrl.get(normalize(`${siteUrl}/`) || '') || pages.find(p => new URL(p.url).pathname === '/');
+    if (!home) return;
+    home.depth = 0;
+    const queue: CrawledPageSummary[] = [home];
+    while (queue.length > 0) {
+      const page = queue.shift()!;
+      page.internalLinks.forEach(link => {
+        const target = byUrl.get(link);
+        if (target && target.depth === null) {
+          target.depth = (page.depth as number) + 1;
+          queue.push(target);
+        }
+      });
+    }
+  }
+
+  private static findDuplicates(pages: CrawledPageSummary[], findings: TechnicalFinding[]): NonNullable<CrawlAnalysisReport['duplicates']> {
+    // Pages that canonicalize elsewhere are expected to share metadata with their canonical
+    const indexable = pages.filter(p => !p.canonical || normalize(p.canonical) === p.url);
+    const titles = groupDuplicates(indexable, p => p.title);
+    const descriptions = groupDuplicates(indexable, p => p.metaDescription);
+    const missingTitles = indexable.filter(p => !p.title).map(p => p.url);
+    const missingDescriptions = indexable.filter(p => !p.metaDescription).map(p => p.url);
+
+    titles.forEach(group => findings.push({
+      type: 'duplicate_title',
+      category: 'meta_tags',
+      severity: 'medium',
+      title: `Duplicate title on ${group.urls.length} pages`,
+      description: `"${group.value}" is used as the title of ${group.urls.length} pages.`,
+      recommendation: 'Give every indexable page a unique, descriptive title.',
+      url: group.urls[0],
+      metadata: { urls: group.urls, value: group.value }
+    }));
+    descriptions.forEach(group => findings.push({
+      type: 'duplicate_meta_description',
+      category: 'meta_tags',
+      severity: 'low',
+      title: `Duplicate meta description on ${group.urls.length} pages`,
+      description: `The same meta description is used on ${group.urls.length} pages.`,
+      recommendation: 'Write a unique meta description that summarizes each page.',
+      url: group.urls[0],
+      metadata: { urls: group.urls, value: group.value }
+    }));
+    if (missingTitles.length > 0) findings.push({
+      type: 'missing_title',
+      category: 'meta_tags',
+      severity: 'high',
+      title: `${missingTitles.length} pages without a title`,
+      description: 'These pages have no <title> element.',
+      recommendation: 'Add a unique title tag to each page.',
+      url: missingTitles[0],
+      metadata: { urls: missingTitles.slice(0, SAMPLE_LIMIT) }
+    });
+
+    return {
+      titles: titles.slice(0, SAMPLE_LIMIT),
+      descriptions: descriptions.slice(0, SAMPLE_LIMIT),
+      missingTitles: missingTitles.slice(0, SAMPLE_LIMIT),
+      missingDescriptions: missingDescriptions.slice(0, SAMPLE_LIMIT)
+    };
+  }
+
+  private static async findOrphans(
+    pages: CrawledPageSummary[],
+    siteUrl: string,
+    sitemapUrls: string[] | undefined,
+    findings: TechnicalFinding[]
+  ): Promise<NonNullable<CrawlAnalysisReport['orphans']>> {
+    const linked = new Set<string>();
+    pages.forEach(page => page.internalLinks.forEach(link => linked.add(link)));
+
+    let sitemapChecked = false;
+    let inSitemapNotLinked: string[] = [];
+    if (siteUrl) {
+      try {
+        const entries = await readSitemapEntries(siteUrl, { sitemapUrls, limit: 5000 });
+        sitemapChecked = entries.length > 0;
+        inSitemapNotLinked = Array.from(new Set(entries
+          .map(entry => normalize(entry.loc))
+          .filter((url): url is string => !!url && !linked.has(url) && !isHomepage(url))));
+      } catch (error) {
+        console.log('[CRAWL ANALYZER] Sitemap unavailable for orphan detection:', error);
+      }
+    }
+
+    const crawledWithoutInlinks = pages
+      .filter(p => p.inlinks === 0 && !isHomepage(p.url))
+      .map(p => p.url);
+
+    const orphanUrls = Array.from(new Set([...inSitemapNotLinked, ...crawledWithoutInlinks]));
+    if (orphanUrls.length > 0) {
+      findings.push({
+        type: 'orphan_pages',
+        category: 'indexing',
+        severity: orphanUrls.length > 10 ? 'high' : 'medium',
+        title: `${orphanUrls.length} orphan pages`,
+        description: 'These pages are not linked from any crawled page, so users and crawlers can only reach them through the sitemap or external links.',
+        recommendation: 'Link to each orphan page from relevant pages or navigation, or remove it if it is no longer needed.',
+        url: orphanUrls[0],
+        metadata: { urls: orphanUrls.slice(0, SAMPLE_LIMIT) }
+      });
+    }
+
+    return {
+      inSitemapNotLinked: inSitemapNotLinked.slice(0, SAMPLE_LIMIT),
+      crawledWithoutInlinks: crawledWithoutInlinks.slice(0, SAMPLE_LIMIT),
+      sitemapChecked
+    };
+  }
+
+  private static async findRedirects(
+    pages: CrawledPageSummary[],
+    trace: boolean,
+    findings: TechnicalFinding[]
+  ): Promise<NonNullable<CrawlAnalysisReport['redirects']>> {
+    const redirected = pages.filter(p => p.requestedUrl !== p.url);
+    const redirectSources = new Set(redirected.map(p => p.requestedUrl));
+
+    let internalLinksToRedirects = 0;
+    const linkCounts = new Map<string, number>();
+    pages.forEach(page => page.internalLinks.forEach(link => {
+      if (redirectSources.has(link)) {
+        internalLinksToRedirects++;
+        linkCounts.set(link, (linkCounts.get(link) || 0) + 1);
+      }
+    }));
+
+    const chains: RedirectChain[] = [];
+    if (trace) {
+      const toTrace = redirected
+        .sort((a, b) => (linkCounts.get(b.requestedUrl) || 0) - (linkCounts.get(a.requestedUrl) || 0))
+        .slice(0, MAX_REDIRECT_TRACES);
+      for (const page of toTrace) {
+        const chain = await traceRedirectChain(page.requestedUrl);
+        chain.linkedFrom = linkCounts.get(page.requestedUrl) || 0;
+        chains.push(chain);
+      }
+    } else {
+      redirected.forEach(page => chains.push({
+        from: page.requestedUrl,
+        hops: [{ url: page.requestedUrl, status: 301 }],
+        finalUrl: page.url,
+        finalStatus: page.statusCode,
+        loop: false,
+        linkedFrom: linkCounts.get(page.requestedUrl) || 0
+      }));
+    }
+
+    const longChains = chains.filter(c => c.hops.length > 1 || c.loop);
+    if (longChains.length > 0) {
+      findings.push({
+        type: 'redirect_chain',
+        category: 'indexing',
+        severity: longChains.some(c => c.loop) ? 'high' : 'medium',
+        title: `${longChains.length} redirect chains`,
+        description: 'These URLs pass through more than one redirect before reaching the final page, wasting crawl budget and diluting link equity.',
+        recommendation: 'Point each redirect straight at its final destination and update internal links to the final URL.',
+        url: longChains[0].from,
+        metadata: { chains: longChains.slice(0, SAMPLE_LIMIT) }
+      });
+    }
+    if (internalLinksToRedirects > 0) {
+      findings.push({
+        type: 'internal_links_to_redirects',
+        category: 'indexing',
+        severity: 'low',
+        title: `${internalLinksToRedirects} internal links point at redirecting URLs`,
+        description: 'Internal links should point at the final URL so crawlers do not have to follow redirects.',
+        recommendation: 'Update internal links to the destination URLs.',
+        url: Array.from(linkCounts.keys())[0],
+        metadata: { urls: Array.from(linkCounts.keys()).slice(0, SAMPLE_LIMIT) }
+      });
+    }
+
+    return {
+      redirectedPages: redirected.length,
+      chains: chains.slice(0, SAMPLE_LIMIT),
+      internalLinksToRedirects
+    };
+  }
+
+  private static findThinContent(pages: CrawledPageSummary[], findings: TechnicalFinding[]): NonNullable<CrawlAnalysisReport['thinContent']> {
+    const thin = pages
+      .filter(p => p.wordCount < THIN_CONTENT_WORDS && !isHomepage(p.url) && (p.statusCode === null || p.statusCode < 400))
+      .sort((a, b) => a.wordCount - b.wordCount)
+      .map(p => ({ url: p.url, wordCount: p.wordCount }));
+
+    if (thin.length > 0) {
+      findings.push({
+        type: 'thin_content',
+        category: 'indexing',
+        severity: thin.length > pages.length * 0.3 ? 'high' : 'medium',
+        title: `${thin.length} pages with thin content`,
+        description: `These pages have fewer than ${THIN_CONTENT_WORDS} words of body text.`,
+        recommendation: 'Expand thin pages with useful content, merge them into stronger pages, or noindex them.',
+        url: thin[0].url,
+        metadata: { pages: thin.slice(0, SAMPLE_LIMIT) }
+      });
+    }
+
+    return { threshold: THIN_CONTENT_WORDS, pages: thin.slice(0, SAMPLE_LIMIT) };
+  }
+
+  private static depthDistribution(pages: CrawledPageSummary[], findings: TechnicalFinding[]): NonNullable<CrawlAnalysisReport['depth']> {
+    const distribution: Record<string, number> = {};
+    const reachable = pages.filter(p => p.depth !== null);
+    reachable.forEach(p => {
+      const key = String(p.depth);
+      distribution[key] = (distribution[key] || 0) + 1;
+    });
+
+    const depths = reachable.map(p => p.depth as number);
+    const deepPages = reachable
+      .filter(p => (p.depth as number) >= DEEP_PAGE_CLICKS)
+      .sort((a, b) => (b.depth as number) - (a.depth as number))
+      .map(p => ({ url: p.url, depth: p.depth as number }));
+
+    if (deepPages.length > 0) {
+      findings.push({
+        type: 'deep_pages',
+        category: 'indexing',
+        severity: 'low',
+        title: `${deepPages.length} pages are ${DEEP_PAGE_CLICKS}+ clicks from the homepage`,
+        description: 'Pages buried deep in the link structure are crawled less often and receive less internal link equity.',
+        recommendation: 'Flatten the structure with category hubs, breadcrumbs or contextual links to important deep pages.',
+        url: deepPages[0].url,
+        metadata: { pages: deepPages.slice(0, SAMPLE_LIMIT) }
+      });
+    }
+
+    return {
+      distribution,
+      averageDepth: depths.length > 0 ? Math.round((depths.reduce((a, b) => a + b, 0) / depths.length) * 10) / 10 : 0,
+      maxDepth: depths.length > 0 ? Math.max(...depths) : 0,
+      deepPages: deepPages.slice(0, SAMPLE_LIMIT),
+      unreachable: pages.length - reachable.length
+    };
+  }
+}
+
+function normalize(url: string | undefined | null): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+function isHomepage(url: string): boolean {
+  try {
+    return new URL(url).pathname === '/';
+  } catch {
+    return false;
+  }
+}
+
+function groupDuplicates(pages: CrawledPageSummary[], pick: (page: CrawledPageSummary) => string | null): Array<{ value: string; urls: string[] }> {
+  const groups = new Map<string, { value: string; urls: string[] }>();
+  pages.forEach(page => {
+    const value = pick(page);
+    if (!value) return;
+    const key = value.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!groups.has(key)) groups.set(key, { value: value.trim(), urls: [] });
+    groups.get(key)!.urls.push(page.url);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.urls.length > 1)
+    .sort((a, b) => b.urls.length - a.urls.length);
+}
+
+/**
+ * Follow a redirect chain hop by hop with manual redirects
+ */
+async function traceRedirectChain(startUrl: string): Promise<RedirectChain> {
+  const hops: RedirectChain['hops'] = [];
+  const seen = new Set<string>();
+  let current = startUrl;
+  let finalStatus: number | null = null;
+  let loop = false;
+
+  for (let i = 0; i < MAX_REDIRECT_HOPS; i++) {
+    if (seen.has(current)) {
+      loop = true;
+      break;
+    }
+    seen.add(current);
+
+    try {
+      const response = await fetch(current, {
+        method: 'HEAD',
+        headers: { 'User-Agent': SEOAGENT_USER_AGENT },
+        redirect: 'manual',
+        cache: 'no-store',
+        signal: AbortSignal.timeout(REDIRECT_TIMEOUT_MS)
+      });
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        hops.push({ url: current, status: response.status });
+        current = new URL(location, current).toString();
+        continue;
+      }
+      finalStatus = response.status;
+      break;
+    } catch {
+      finalStatus = null;
+      break;
+    }
+  }
+
+  return { from: startUrl, hops, finalUrl: current, finalStatus, loop, linkedFrom: 0 };
+}
+
+function calculateScore(findings: TechnicalFinding[], pageCount: number): number {
+  if (pageCount === 0) return 0;
+  const weights: Record<string, number> = { critical: 20, high: 10, medium: 5, low: 2 };
+  const penalty = findings.reduce((acc, finding) => acc + (weights[finding.severity] || 0), 0);
+  return Math.max(0, 100 - penalty);
+}
@@ -0,0 +1,304 @@
+/**
+ * Crawl Planner
+ * Decides which URLs to crawl and how deep, combining the XML sitemap, GSC pages
+ * with search traffic and robots.txt rules. The output maps directly onto Firecrawl's
+ * start options so a plan can be executed as-is.
+ */
+
+import { fetchRobotsTxt, getCrawlDelay, isAllowedByRobots, RobotsRules } from './robots-txt';
+import { readSitemapEntries, SitemapEntry } from './sitemap-reader';
+import { SEOAGENT_USER_AGENT } from '@/services/technical-seo/page-analyzer';
+import { TechnicalSEOService } from '@/services/technical-seo/technical-seo-service';
+import { PerformanceAnalyticsService } from '@/services/performance/performance-analytics';
+
+const SITEMAP_LIMIT = 5000;
+const MAX_PLANNED_PAGES = 1000;
+const LOW_VALUE_PATTERNS = [
+  '/tag/*', '/tags/*', '/author/*', '/page/*', '/feed', '/wp-admin/*', '/wp-json/*', '/cart', '/checkout', '/my-account/*', '/search'
+];
+
+export interface PlannedUrl {
+  url: string;
+  priority: number; // 0-100
+  depth: number;    // path segments
+  sources: Array<'homepage' | 'sitemap' | 'gsc'>;
+  reasons: string[];
+  clicks?: number;
+  impressions?: number;
+  lastmod?: string;
+}
+
+export interface SectionSummary {
+  path: string;
+  sitemapUrls: number;
+  gscPages: number;
+  clicks: number;
+  plannedUrls: number;
+}
+
+export interface CrawlPlan {
+  siteUrl: string;
+  maxPages: number;
+  crawlDepth: number;
+  urls: PlannedUrl[];
+  includePaths: string[];
+  excludePaths: string[];
+  sections: SectionSummary[];
+  robots: {
+    found: boolean;
+    crawlDelaySeconds?: number;
+    blockedUrls: number;
+    sitemapsDeclared: number;
+  };
+  sitemap: { found: boolean; urlCount: number; staleUrls: number };
+  gsc: { available: boolean; pagesWithImpressions: number; notInSitemap: string[]; blockedByRobots: string[] };
+  estimatedDurationSeconds: number;
+  firecrawl: { url: string; maxPages: number; includePaths: string[]; excludePaths: string[] };
+  notes: string[];
+}
+
+export class CrawlPlanner {
+  /**
+   * Build a crawl plan for a site. GSC data is optional: without a user token (or synced data)
+   * the plan falls back to sitemap and path-depth heuristics.
+   */
+  static async plan(siteUrl: string, opts: {
+    userToken?: string;
+    maxPages?: number;
+    crawlDepth?: number;
+  } = {}): Promise<CrawlPlan> {
+    const origin = TechnicalSEOService.normalizeSiteUrl(siteUrl);
+    const maxPages = Math.max(1, Math.min(opts.maxPages || 100, MAX_PLANNED_PAGES));
+    const depthLimit = Math.max(1, Math.min(opts.crawlDepth || 3, 10));
+    const notes: string[] = [];
+
+    console.log(`[CRAWL PLANNER] Planning crawl for ${origin} (maxPages: ${maxPages}, depth: ${depthLimit})`);
+
+    const robots = await fetchRobotsTxt(origin);
+    const sitemapEntries = await readSitemapEntries(origin, {
+      sitemapUrls: robots.rules?.sitemaps.length ? robots.rules.sitemaps : undefined,
+      limit: SITEMAP_LIMIT
+    });
+    const gscPages = opts.userToken ? await this.loadGscPages(opts.userToken, origin) : [];
+
+    if (!robots.rules) notes.push('No robots.txt found; all paths are treated as crawlable.');
+    if (sitemapEntries.length === 0) notes.push('No XML sitemap found; the crawl has to discover pages through links, so a deeper crawl is planned.');
+    if (opts.userToken && gscPages.length === 0) notes.push('No synced GSC page data; priorities are based on sitemap and URL structure only.');
+
+    // Merge candidates from all sources, keyed by normalized URL
+    const candidates = new Map<string, PlannedUrl>();
+    const addCandidate = (rawUrl: string, source: PlannedUrl['sources'][number], extra: Partial<PlannedUrl> = {}) => {
+      const url = normalizeUrl(rawUrl, origin);
+      if (!url) return;
+      const existing = candidates.get(url);
+      if (existing) {
+        if (!existing.sources.includes(source)) existing.sources.push(source);
+        if (extra.clicks !== undefined) existing.clicks = extra.clicks;
+        if (extra.impressions !== undefined) existing.impressions = extra.impressions;
+        if (extra.lastmod && !existing.lastmod) existing.lastmod = extra.lastmod;
+        return;
+      }
+      candidates.set(url, { url, priority: 0, depth: pathDepth(url), sources: [source], reasons: [], ...extra });
+    };
+
+    addCandidate(`${origin}/`, 'homepage');
+    sitemapEntries.forEach((entry: SitemapEntry) => addCandidate(entry.loc, 'sitemap', { lastmod: entry.lastmod }));
+    gscPages.forEach(page => addCandidate(page.key, 'gsc', { clicks: page.clicks, impressions: page.impressions }));
+
+    // Apply robots.txt before scoring so blocked URLs never make it into the plan
+    const blocked: PlannedUrl[] = [];
+    const allowed: PlannedUrl[] = [];
+    candidates.forEach(candidate => {
+      if (isAllowedByRobots(robots.rules, candidate.url, SEOAGENT_USER_AGENT)) {
+        allowed.push(candidate);
+      } else {
+        blocked.push(candidate);
+      }
+    });
+
+    const maxClicks = Math.max(1, ...allowed.map(c => c.clicks || 0));
+    const maxImpressions = Math.max(1, ...allowed.map(c => c.impressions || 0));
+    allowed.forEach(candidate => scoreCandidate(candidate, maxClicks, maxImpressions));
+
+    const selected = allowed
+      .filter(c => c.depth <= depthLimit || (c.clicks || 0) > 0)
+      .sort((a, b) => b.priority - a.priority || a.depth - b.depth)
+      .slice(0, maxPages);
+
+    const sections = summarizeSections(allowed, selected);
+    const sitemapSet = new Set(sitemapEntries.map(e => normalizeUrl(e.loc, origin)));
+    const notInSitemap = gscPages
+      .map(p => normalizeUrl(p.key, origin))
+      .filter((url): url is string => !!url && sitemapEntries.length > 0 && !sitemapSet.has(url))
+      .slice(0, 25);
+    const blockedWithTraffic = blocked.filter(c => (c.impressions || 0) > 0).map(c => c.url).slice(0, 25);
+    const staleUrls = sitemapEntries.filter(e => e.lastmod && daysSince(e.lastmod) > 365).length;
+
+    if (notInSitemap.length > 0) notes.push(`${notInSitemap.length} pages receive search impressions but are missing from the sitemap.`);
+    if (blockedWithTraffic.length > 0) notes.push(`${blockedWithTraffic.length} pages with search impressions are blocked by robots.txt.`);
+
+    // Depth: sitemap-seeded crawls can stay shallow; link-discovery crawls need more room
+    const deepestSelected = selected.reduce((max, c) => Math.max(max, c.depth), 0);
+    const crawlDepth = sitemapEntries.length > 0
+      ? Math.min(depthLimit, Math.max(2, deepestSelected))
+      : depthLimit;
+
+    const includePaths = selectIncludePaths(sections, selected.length, maxPages);
+    const excludePaths = buildExcludePaths(robots.rules);
+    const crawlDelaySeconds = getCrawlDelay(robots.rules, SEOAGENT_USER_AGENT);
+
+    return {
+      siteUrl: origin,
+      maxPages,
+      crawlDepth,
+      urls: selected,
+      includePaths,
+      excludePaths,
+      sections,
+      robots: {
+        found: !!robots.rules,
+        crawlDelaySeconds,
+        blockedUrls: blocked.length,
+        sitemapsDeclared: robots.rules?.sitemaps.length || 0
+      },
+      sitemap: { found: sitemapEntries.length > 0, urlCount: sitemapEntries.length, staleUrls },
+      gsc: {
+        available: gscPages.length > 0,
+        pagesWithImpressions: gscPages.filter(p => p.impressions > 0).length,
+        notInSitemap,
+        blockedByRobots: blockedWithTraffic
+      },
+      estimatedDurationSeconds: Math.round(selected.length * Math.max(1, crawlDelaySeconds || 0) + selected.length * 0.5),
+      firecrawl: { url: origin, maxPages: selected.length || maxPages, includePaths, excludePaths },
+      notes
+    };
+  }
+
+  private static async loadGscPages(userToken: string, siteUrl: string) {
+    try {
+      const range = PerformanceAnalyticsService.resolvePeriod('28d');
+      return await PerformanceAnalyticsService.getDimensionRows(userToken, siteUrl, 'page', range);
+    } catch (error) {
+      console.log('[CRAWL PLANNER] GSC page data unavailable:', error);
+      return [];
+    }
+  }
+}
+
+function normalizeUrl(rawUrl: string, origin: string): string | null {
+  try {
+    const url = new URL(rawUrl, origin);
+    const base = new URL(origin);
+    // Treat www and non-www as the same host, but only crawl the canonical origin
+    if (url.hostname.replace(/^www\./, '') !== base.hostname.replace(/^www\./, '')) return null;
+    url.protocol = base.protocol;
+    url.hostname = base.hostname;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function pathDepth(url: string): number {
+  try {
+    return new URL(url).pathname.split('/').filter(Boolean).length;
+  } catch {
+    return 0;
+  }
+}
+
+function firstSegment(url: string): string {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean)[0];
+    return segment ? `/${segment}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+function daysSince(date: string): number {
+  const time = Date.parse(date);
+  return isNaN(time) ? 0 : (Date.now() - time) / (24 * 60 * 60 * 1000);
+}
+
+function scoreCandidate(candidate: PlannedUrl, maxClicks: number, maxImpressions: number): void {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (candidate.sources.includes('homepage')) {
+    score += 100;
+    reasons.push('Homepage');
+  }
+  if (candidate.clicks) {
+    score += 40 * Math.sqrt(candidate.clicks / maxClicks);
+    reasons.push(`${candidate.clicks} clicks in the last 28 days`);
+  }
+  if (candidate.impressions) {
+    score += 20 * Math.sqrt(candidate.impressions / maxImpressions);
+    if (!candidate.clicks) reasons.push(`${candidate.impressions} impressions but no clicks`);
+  }
+  if (candidate.sources.includes('sitemap')) {
+    score += 10;
+    reasons.push('Listed in sitemap');
+  } else if (candidate.sources.includes('gsc')) {
+    score += 10;
+    reasons.push('Ranks in search but missing from sitemap');
+  }
+  if (candidate.lastmod) {
+    const age = daysSince(candidate.lastmod);
+    if (age <= 30) {
+      score += 15;
+      reasons.push('Updated in the last 30 days');
+    } else if (age <= 180) {
+      score += 5;
+    }
+  }
+  score += Math.max(0, 15 - candidate.depth * 5);
+
+  candidate.priority = Math.min(100, Math.round(score));
+  candidate.reasons = reasons;
+}
+
+function summarizeSections(allowed: PlannedUrl[], selected: PlannedUrl[]): SectionSummary[] {
+  const sections = new Map<string, SectionSummary>();
+  const ensure = (path: string) => {
+    if (!sections.has(path)) sections.set(path, { path, sitemapUrls: 0, gscPages: 0, clicks: 0, plannedUrls: 0 });
+    return sections.get(path)!;
+  };
+
+  allowed.forEach(candidate => {
+    const section = ensure(firstSegment(candidate.url));
+    if (candidate.sources.includes('sitemap')) section.sitemapUrls++;
+    if (candidate.sources.includes('gsc')) section.gscPages++;
+    section.clicks += candidate.clicks || 0;
+  });
+  selected.forEach(candidate => {
+    ensure(firstSegment(candidate.url)).plannedUrls++;
+  });
+
+  return Array.from(sections.values()).sort((a, b) => b.clicks - a.clicks || b.sitemapUrls - a.sitemapUrls);
+}
+
+/**
+ * Only restrict Firecrawl to specific sections when the site is much larger than the
+ * page budget; otherwise let it discover freely within the exclude rules.
+ */
+function selectIncludePaths(sections: SectionSummary[], selectedCount: number, maxPages: number): string[] {
+  const totalKnown = sections.reduce((acc, s) => acc + Math.max(s.sitemapUrls, s.gscPages), 0);
+  if (totalKnown <= maxPages * 2 || selectedCount === 0) return [];
+  return sections
+    .filter(s => s.plannedUrls > 0 && s.path !== '/')
+    .map(s => `${s.path}/*`);
+}
+
+function buildExcludePaths(rules: RobotsRules | null): string[] {
+  const excludes = new Set<string>(LOW_VALUE_PATTERNS);
+  if (rules) {
+    const group = rules.groups.find(g => g.userAgents.includes('*'));
+    group?.disallow
+      .filter(pattern => pattern !== '/' && !group.allow.some(allow => allow.startsWith(pattern)))
+      .forEach(pattern => excludes.add(pattern.endsWith('/') ? `${pattern}*` : pattern));
+  }
+  return Array.from(excludes);
+}
@@ -0,0 +1,299 @@
+/**
+ * Crawl Service
+ * Single entry point for crawling and scraping. Picks Firecrawl or the built-in crawler
+ * per website (websites.crawler_provider) and falls back to the built-in crawler when
+ * Firecrawl is not configured, down or out of quota.
+ *
+ * Built-in crawl jobs are tracked in crawl_jobs and carry a "builtin_" job id prefix so
+ * status/result lookups can be routed without knowing which provider started them.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import * as firecrawl from './firecrawl-client';
+import { crawlSite, scrapePage, SiteCrawlOptions } from './site-crawler';
+import { DomainUtils } from '@/lib/utils/DomainUtils';
+import type { CrawlResultPage, StartCrawlOptions } from './firecrawl-client';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const BUILTIN_JOB_PREFIX = 'builtin_';
+const FIRECRAWL_POLL_INTERVAL_MS = 5000;
+
+export type CrawlerProvider = 'firecrawl' | 'builtin';
+export type CrawlerPreference = 'auto' | CrawlerProvider;
+
+export interface CrawlerSettings {
+  respectRobots?: boolean;
+  maxConcurrencyPerHost?: number;
+  delayMs?: number;
+  headers?: Record<string, string>;
+}
+
+export interface CrawlContext {
+  userToken?: string;
+  siteUrl?: string;           // website whose crawler preference applies (defaults to the crawl URL)
+  provider?: CrawlerPreference; // explicit override
+}
+
+export interface CrawlJobHandle {
+  jobId: string;
+  status?: string;
+  provider: CrawlerProvider;
+}
+
+export class CrawlService {
+  static isFirecrawlConfigured(): boolean {
+    return !!process.env.FIRECRAWL_API_KEY;
+  }
+
+  /**
+   * Crawler preference and settings stored on the website
+   */
+  static async getWebsiteCrawlerConfig(userToken: string, siteUrl: string): Promise<{ preference: CrawlerPreference; settings: CrawlerSettings }> {
+    const domain = DomainUtils.extractDomain(siteUrl);
+    const { data, error } = await supabase
+      .from('websites')
+      .select('domain, crawler_provider, crawler_settings')
+      .eq('user_token', userToken)
+      .or(`domain.eq.${domain},domain.eq.www.${domain},domain.eq.sc-domain:${domain},domain.eq.https://${domain}`)
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return { preference: 'auto', settings: {} };
+    }
+
+    return {
+      preference: (data[0].crawler_provider as CrawlerPreference) || 'auto',
+      settings: (data[0].crawler_settings as CrawlerSettings) || {}
+    };
+  }
+
+  /**
+   * Decide which crawler to use. Returns whether falling back to the built-in crawler is allowed.
+   */
+  static async resolveProvider(context: CrawlContext & { url?: string } = {}): Promise<{
+    provider: CrawlerProvider;
+    allowFallback: boolean;
+    settings: CrawlerSettings;
+  }> {
+    let preference: CrawlerPreference = context.provider || 'auto';
+    let settings: CrawlerSettings = {};
+
+    const siteUrl = context.siteUrl || context.url;
+    if (context.userToken && siteUrl) {
+      const config = await this.getWebsiteCrawlerConfig(context.userToken, siteUrl);
+      settings = config.settings;
+      if (!context.provider) preference = config.preference;
+    }
+
+    if (preference === 'builtin') return { provider: 'builtin', allowFallback: false, settings };
+    if (preference === 'firecrawl') return { provider: 'firecrawl', allowFallback: false, settings };
+    return {
+      provider: this.isFirecrawlConfigured() ? 'firecrawl' : 'builtin',
+      allowFallback: true,
+      settings
+    };
+  }
+
+  /**
+   * Start an asynchronous crawl job (Firecrawl job or built-in job)
+   */
+  static async startCrawl(opts: StartCrawlOptions & { maxDepth?: number }, context: CrawlContext = {}): Promise<CrawlJobHandle> {
+    const { provider, allowFallback, settings } = await this.resolveProvider({ ...context, url: opts.url });
+
+    if (provider === 'firecrawl') {
+      try {
+        const job = await firecrawl.startCrawl(opts);
+        return { ...job, provider: 'firecrawl' };
+      } catch (error) {
+        if (!allowFallback) throw error;
+        console.log('[CRAWL SERVICE] Firecrawl unavailable, starting built-in crawl instead:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    return this.startBuiltInJob(opts, settings, context.userToken);
+  }
+
+  static async getCrawlStatus(jobId: string): Promise<{ status: string; done: boolean; progress?: any }> {
+    if (!jobId.startsWith(BUILTIN_JOB_PREFIX)) {
+      return firecrawl.getCrawlStatus(jobId);
+    }
+
+    const { data: job, error } = await supabase
+      .from('crawl_jobs')
+      .select('status, pages_count, error_message, created_at, completed_at')
+      .eq('id', jobId.slice(BUILTIN_JOB_PREFIX.length))
+      .single();
+
+    if (error || !job) throw new Error(`Crawl job ${jobId} not found`);
+    return {
+      status: job.status,
+      done: job.status === 'completed',
+      progress: { completed: job.pages_count, error: job.error_message, createdAt: job.created_at, completedAt: job.completed_at }
+    };
+  }
+
+  static async getCrawlResult(jobId: string, timeoutMs?: number): Promise<CrawlResultPage[]> {
+    if (!jobId.startsWith(BUILTIN_JOB_PREFIX)) {
+      return firecrawl.getCrawlResult(jobId, timeoutMs);
+    }
+
+    const { data: job, error } = await supabase
+      .from('crawl_jobs')
+      .select('pages')
+      .eq('id', jobId.slice(BUILTIN_JOB_PREFIX.length))
+      .single();
+
+    if (error || !job) throw new Error(`Crawl job ${jobId} not found`);
+    return (job.pages as CrawlResultPage[]) || [];
+  }
+
+  /**
+   * Crawl and wait for the pages within the current request. Firecrawl jobs are polled
+   * until `waitMs`; in auto mode a Firecrawl failure or timeout falls back to the built-in crawler.
+   */
+  static async crawl(
+    opts: StartCrawlOptions & { maxDepth?: number },
+    context: CrawlContext & { waitMs?: number } = {}
+  ): Promise<{ pages: CrawlResultPage[]; provider: CrawlerProvider }> {
+    const waitMs = context.waitMs ?? 120000;
+    const startedAt = Date.now();
+    const { provider, allowFallback, settings } = await this.resolveProvider({ ...context, url: opts.url });
+
+    if (provider === 'firecrawl') {
+      try {
+        const job = await firecrawl.startCrawl(opts);
+        while (Date.now() - startedAt < waitMs) {
+          await new Promise(resolve => setTimeout(resolve, FIRECRAWL_POLL_INTERVAL_MS));
+          let status;
+          try {
+            status = await firecrawl.getCrawlStatus(job.jobId);
+          } catch (statusError) {
+            console.log('[CRAWL SERVICE] Firecrawl status check failed, continuing...');
+            continue;
+          }
+          if (status.done) {
+            return { pages: await firecrawl.getCrawlResult(job.jobId), provider: 'firecrawl' };
+          }
+          if (status.status === 'failed') {
+            throw new Error(`Firecrawl job ${job.jobId} failed`);
+          }
+        }
+        throw new Error(`Firecrawl job ${job.jobId} did not finish within ${Math.round(waitMs / 1000)}s`);
+      } catch (error) {
+        if (!allowFallback) throw error;
+        console.log('[CRAWL SERVICE] Falling back to built-in crawler:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    // Give the built-in crawler whatever is left of the budget, but never less than 30s
+    const pages = await crawlSite(this.toSiteCrawlOptions(opts, settings, Math.max(30000, waitMs - (Date.now() - startedAt))));
+    return { pages, provider: 'builtin' };
+  }
+
+  /**
+   * Scrape a single URL with Firecrawl when available, otherwise (or on failure) fetch it directly
+   */
+  static async scrapeUrl(url: string, opts: { timeoutMs?: number } = {}, context: CrawlContext = {}): Promise<CrawlResultPage> {
+    const { provider, allowFallback, settings } = await this.resolveProvider({ ...context, url });
+
+    if (provider === 'firecrawl') {
+      try {
+        return await firecrawl.scrapeUrl(url, opts);
+      } catch (error) {
+        if (!allowFallback) throw error;
+        console.log(`[CRAWL SERVICE] Firecrawl scrape failed for ${url}, fetching directly`);
+      }
+    }
+
+    return scrapePage(url, { timeoutMs: opts.timeoutMs, headers: settings.headers });
+  }
+
+  /**
+   * Scrape several URLs, skipping failures
+   */
+  static async scrapeUrls(urls: string[], context: CrawlContext = {}): Promise<CrawlResultPage[]> {
+    const results: CrawlResultPage[] = [];
+    for (const url of urls) {
+      try {
+        results.push(await this.scrapeUrl(url, {}, context));
+
+        // Small delay between requests to avoid rate limiting
+        if (urls.length > 1) {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+      } catch (error) {
+        console.error(`[CRAWL SERVICE] Failed to scrape ${url}:`, error);
+      }
+    }
+    return results;
+  }
+
+  private static toSiteCrawlOptions(opts: StartCrawlOptions & { maxDepth?: number }, settings: CrawlerSettings, deadlineMs?: number): SiteCrawlOptions {
+    return {
+      url: opts.url,
+      maxPages: opts.maxPages,
+      maxDepth: opts.maxDepth,
+      includePaths: opts.includePaths,
+      excludePaths: opts.excludePaths,
+      respectRobots: settings.respectRobots,
+      maxConcurrencyPerHost: settings.maxConcurrencyPerHost,
+      delayMs: settings.delayMs,
+      headers: settings.headers,
+      deadlineMs
+    };
+  }
+
+  /**
+   * Record a built-in job and run it in the background (same fire-and-forget model as audits/start)
+   */
+  private static async startBuiltInJob(
+    opts: StartCrawlOptions & { maxDepth?: number },
+    settings: CrawlerSettings,
+    userToken?: string
+  ): Promise<CrawlJobHandle> {
+    const { data: job, error } = await supabase
+      .from('crawl_jobs')
+      .insert({
+        user_token: userToken || null,
+        site_url: opts.url,
+        provider: 'builtin',
+        status: 'scraping',
+        options: { ...opts, settings: { ...settings, headers: settings.headers ? Object.keys(settings.headers) : undefined } }
+      })
+      .select('id')
+      .single();
+
+    if (error || !job) {
+      console.error('[CRAWL SERVICE] Failed to record built-in crawl job:', error);
+      throw new Error('Failed to start built-in crawl');
+    }
+
+    const jobId = `${BUILTIN_JOB_PREFIX}${job.id}`;
+    console.log(`[CRAWL SERVICE] Started built-in crawl ${jobId} for ${opts.url}`);
+
+    crawlSite(this.toSiteCrawlOptions(opts, settings))
+      .then(async pages => {
+        await supabase
+          .from('crawl_jobs')
+          .update({ status: 'completed', pages, pages_count: pages.length, completed_at: new Date().toISOString() })
+          .eq('id', job.id);
+      })
+      .catch(async crawlError => {
+        console.error(`[CRAWL SERVICE] Built-in crawl ${jobId} failed:`, crawlError);
+        await supabase
+          .from('crawl_jobs')
+          .update({
+            status: 'failed',
+            error_message: crawlError instanceof Error ? crawlError.message : String(crawlError),
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', job.id);
+      });
+
+    return { jobId, status: 'scraping', provider: 'builtin' };
+  }
+}
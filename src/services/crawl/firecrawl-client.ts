@@ -6,7 +6,7 @@
  * Docs: https://docs.firecrawl.dev/introduction
  */
 
-interface StartCrawlOptions {
+export interface StartCrawlOptions {
   url: string; // domain or full URL
   maxPages?: number;
   includePaths?: string[]; // e.g. ['/blog']
@@ -14,12 +14,12 @@ interface StartCrawlOptions {
   parseJS?: boolean; // render JavaScript
 }
 
-interface FirecrawlJob {
+export interface FirecrawlJob {
   jobId: string;
   status?: string;
 }
 
-interface CrawlResultPage {
+export interface CrawlResultPage {
   url: string;
   html?: string;
   markdown?: string;
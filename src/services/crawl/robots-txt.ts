@@ -0,0 +1,154 @@
+/**
+ * robots.txt parsing and matching
+ * Implements the Google flavour of the robots exclusion protocol: longest matching
+ * rule wins, Allow beats Disallow on ties, `*` wildcards and `$` end anchors.
+ */
+
+export interface RobotsGroup {
+  userAgents: string[];
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number;
+}
+
+export interface RobotsRules {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export function parseRobotsTxt(content: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const directive = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (directive) {
+      case 'user-agent':
+        if (!current || !lastWasUserAgent) {
+          current = { userAgents: [], allow: [], disallow: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasUserAgent = true;
+        return;
+      case 'allow':
+        if (current && value) current.allow.push(value);
+        break;
+      case 'disallow':
+        if (current && value) current.disallow.push(value);
+        break;
+      case 'crawl-delay':
+        if (current && !isNaN(parseFloat(value))) current.crawlDelay = parseFloat(value);
+        break;
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+    }
+    lastWasUserAgent = false;
+  });
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Pick the group that applies to a user agent (most specific product token wins, then `*`)
+ */
+function selectGroup(rules: RobotsRules, userAgent: string): RobotsGroup | null {
+  const agent = userAgent.toLowerCase();
+  let best: RobotsGroup | null = null;
+  let bestLength = -1;
+
+  rules.groups.forEach(group => {
+    group.userAgents.forEach(token => {
+      if (token !== '*' && agent.includes(token) && token.length > bestLength) {
+        best = group;
+        bestLength = token.length;
+      }
+    });
+  });
+
+  if (best) return best;
+  return rules.groups.find(group => group.userAgents.includes('*')) || null;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether a URL (or path) may be crawled by the given user agent
+ */
+export function isAllowedByRobots(rules: RobotsRules | null, url: string, userAgent: string = '*'): boolean {
+  if (!rules) return true;
+  const group = selectGroup(rules, userAgent);
+  if (!group) return true;
+
+  let path = url;
+  try {
+    const parsed = new URL(url);
+    path = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    // Already a path
+  }
+
+  let verdict = true;
+  let matchLength = -1;
+
+  const consider = (patterns: string[], allowed: boolean) => {
+    patterns.forEach(pattern => {
+      if (!patternToRegExp(pattern).test(path)) return;
+      if (pattern.length > matchLength || (pattern.length === matchLength && allowed)) {
+        verdict = allowed;
+        matchLength = pattern.length;
+      }
+    });
+  };
+
+  consider(group.disallow, false);
+  consider(group.allow, true);
+
+  return verdict;
+}
+
+export function getCrawlDelay(rules: RobotsRules | null, userAgent: string = '*'): number | undefined {
+  if (!rules) return undefined;
+  return selectGroup(rules, userAgent)?.crawlDelay;
+}
+
+/**
+ * Fetch and parse robots.txt for an origin. Returns null when the file is absent
+ * or unreachable, which crawlers treat as "everything allowed".
+ */
+export async function fetchRobotsTxt(siteUrl: string, timeoutMs = 10000): Promise<{ rules: RobotsRules | null; content: string | null; status: number | null }> {
+  try {
+    const robotsUrl = new URL('/robots.txt', siteUrl).toString();
+    const response = await fetch(robotsUrl, {
+      headers: { 'User-Agent': 'SEOAgent-Bot/1.0 (+https://seoagent.com/bot)' },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    if (!response.ok) {
+      return { rules: null, content: null, status: response.status };
+    }
+    const content = await response.text();
+    return { rules: parseRobotsTxt(content), content, status: response.status };
+  } catch (error) {
+    console.log(`[ROBOTS] Failed to fetch robots.txt for ${siteUrl}:`, error);
+    return { rules: null, content: null, status: null };
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Site Crawler
+ * First-party crawler that returns the same CrawlResultPage shape as the Firecrawl client.
+ * Seeds from the start URL and the XML sitemap, obeys robots.txt (including Crawl-delay)
+ * and limits concurrent requests per host across every crawl running in this process.
+ */
+
+import * as cheerio from 'cheerio';
+import { fetchRobotsTxt, getCrawlDelay, isAllowedByRobots, RobotsRules } from './robots-txt';
+import { readSitemapEntries } from './sitemap-reader';
+import { SEOAGENT_USER_AGENT } from '@/services/technical-seo/page-analyzer';
+import type { CrawlResultPage } from './firecrawl-client';
+
+const DEFAULT_MAX_PAGES = 50;
+const HARD_MAX_PAGES = 1000;
+const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_CONCURRENCY_PER_HOST = 2;
+const DEFAULT_DELAY_MS = 250;
+const DEFAULT_TIMEOUT_MS = 15000;
+const MAX_CRAWL_DELAY_MS = 10000;
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|zip|gz|mp3|mp4|mov|avi|woff2?|ttf|eot|txt|csv|docx?|xlsx?|pptx?)$/i;
+
+export interface SiteCrawlOptions {
+  url: string;
+  maxPages?: number;
+  maxDepth?: number;
+  includePaths?: string[]; // path prefixes or `*` patterns, e.g. ['/blog', '/docs/*']
+  excludePaths?: string[];
+  respectRobots?: boolean;
+  useSitemap?: boolean;
+  maxConcurrencyPerHost?: number;
+  delayMs?: number;        // minimum gap between requests to the same host
+  timeoutMs?: number;      // per request
+  deadlineMs?: number;     // overall time budget; the crawl returns what it has when it runs out
+  headers?: Record<string, string>; // e.g. basic auth for staging sites
+}
+
+interface QueueItem {
+  url: string;
+  depth: number;
+}
+
+// ----- per-host concurrency -----
+
+interface HostSlot {
+  active: number;
+  waiters: Array<() => void>;
+  nextAllowedAt: number;
+}
+
+const hostSlots = new Map<string, HostSlot>();
+
+/**
+ * Wait for a free slot on a host. Limits are shared by all crawls in this process so two
+ * crawls of the same site do not double the load on it.
+ */
+async function acquireHostSlot(host: string, maxConcurrency: number, delayMs: number): Promise<() => void> {
+  if (!hostSlots.has(host)) hostSlots.set(host, { active: 0, waiters: [], nextAllowedAt: 0 });
+  const slot = hostSlots.get(host)!;
+
+  while (slot.active >= maxConcurrency) {
+    await new Promise<void>(resolve => slot.waiters.push(resolve));
+  }
+  slot.active++;
+
+  const wait = slot.nextAllowedAt - Date.now();
+  slot.nextAllowedAt = Math.max(Date.now(), slot.nextAllowedAt) + delayMs;
+  if (wait > 0) await sleep(wait);
+
+  return () => {
+    slot.active--;
+    const next = slot.waiters.shift();
+    if (next) next();
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ----- URL helpers -----
+
+function twinHost(hostname: string): string {
+  return hostname.startsWith('www.') ? hostname.slice(4) : `www.${hostname}`;
+}
+
+function normalizeCrawlUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    Array.from(url.searchParams.keys())
+      .filter(key => /^(utm_|gclid$|fbclid$|mc_)/i.test(key))
+      .forEach(key => url.searchParams.delete(key));
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function matchesPathPattern(path: string, pattern: string): boolean {
+  if (!pattern) return false;
+  if (pattern.includes('*') || pattern.endsWith('$')) {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+  }
+  const prefix = pattern.startsWith('/') ? pattern : `/${pattern}`;
+  return path === prefix || path.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`) || path.startsWith(`${prefix}?`);
+}
+
+function isPathAllowed(url: string, includePaths: string[], excludePaths: string[]): boolean {
+  const parsed = new URL(url);
+  const path = `${parsed.pathname}${parsed.search}`;
+  if (excludePaths.some(pattern => matchesPathPattern(path, pattern))) return false;
+  if (includePaths.length === 0 || parsed.pathname === '/') return true;
+  return includePaths.some(pattern => matchesPathPattern(path, pattern));
+}
+
+// ----- HTML helpers -----
+
+/**
+ * Rough HTML → markdown conversion, enough for the LLM prompts that consume Firecrawl markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, svg, iframe, nav, footer, form').remove();
+  const root = $('main').length ? $('main').first() : $('body');
+  const lines: string[] = [];
+
+  root.find('h1, h2, h3, h4, h5, h6, p, li, blockquote, pre').each((_, el) => {
+    const tag = (el as any).tagName?.toLowerCase() || '';
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    if (/^h[1-6]$/.test(tag)) {
+      lines.push(`${'#'.repeat(parseInt(tag[1], 10))} ${text}`);
+    } else if (tag === 'li') {
+      lines.push(`- ${text}`);
+    } else if (tag === 'blockquote') {
+      lines.push(`> ${text}`);
+    } else if (tag === 'pre') {
+      lines.push('```', $(el).text().trim(), '```');
+    } else {
+      lines.push(text);
+    }
+  });
+
+  return lines.join('\n\n');
+}
+
+function extractPage(html: string, pageUrl: string): { links: string[]; metadata: Record<string, any> } {
+  const $ = cheerio.load(html);
+  const links: string[] = [];
+  const robotsMeta = ($('meta[name="robots"]').attr('content') || '').toLowerCase();
+
+  if (!robotsMeta.includes('nofollow')) {
+    $('a[href]').each((_, el) => {
+      if (($(el).attr('rel') || '').toLowerCase().includes('nofollow')) return;
+      const normalized = normalizeCrawlUrl(($(el).attr('href') || '').trim(), pageUrl);
+      if (normalized) links.push(normalized);
+    });
+  }
+
+  return {
+    links,
+    metadata: {
+      title: $('title').first().text().trim() || undefined,
+      description: $('meta[name="description"]').attr('content')?.trim() || undefined,
+      language: $('html').attr('lang') || undefined,
+      robots: robotsMeta || undefined,
+      canonical: $('link[rel="canonical"]').attr('href') || undefined,
+      ogTitle: $('meta[property="og:title"]').attr('content') || undefined,
+      ogDescription: $('meta[property="og:description"]').attr('content') || undefined
+    }
+  };
+}
+
+// ----- fetching -----
+
+async function fetchHtml(url: string, opts: { timeoutMs: number; headers: Record<string, string> }) {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': SEOAGENT_USER_AGENT, 'Accept': 'text/html,application/xhtml+xml', ...opts.headers },
+    redirect: 'follow',
+    cache: 'no-store',
+    signal: AbortSignal.timeout(opts.timeoutMs)
+  });
+  const contentType = response.headers.get('content-type') || '';
+  const isHtml = contentType.includes('text/html') || contentType.includes('application/xhtml');
+  const html = isHtml ? await response.text() : '';
+  return { finalUrl: response.url || url, status: response.status, contentType, isHtml, html };
+}
+
+/**
+ * Fetch a single page into a CrawlResultPage (used as the built-in scrapeUrl)
+ */
+export async function scrapePage(url: string, opts: { timeoutMs?: number; headers?: Record<string, string> } = {}): Promise<CrawlResultPage> {
+  const host = new URL(url).host;
+  const release = await acquireHostSlot(host, DEFAULT_CONCURRENCY_PER_HOST, 0);
+  try {
+    const page = await fetchHtml(url, { timeoutMs: opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, headers: opts.headers || {} });
+    if (!page.isHtml) {
+      throw new Error(`Unsupported content type for ${url}: ${page.contentType || 'unknown'}`);
+    }
+    const { metadata } = extractPage(page.html, page.finalUrl);
+    return {
+      url: page.finalUrl,
+      html: page.html,
+      markdown: htmlToMarkdown(page.html),
+      metadata: { ...metadata, sourceURL: url, url: page.finalUrl, statusCode: page.status, crawler: 'builtin' }
+    };
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Crawl a site breadth-first and return the fetched HTML pages
+ */
+export async function crawlSite(opts: SiteCrawlOptions): Promise<CrawlResultPage[]> {
+  const startUrl = normalizeCrawlUrl(/^https?:\/\//i.test(opts.url) ? opts.url : `https://${opts.url}`, 'https://localhost')!;
+  const start = new URL(startUrl);
+  const maxPages = Math.max(1, Math.min(opts.maxPages || DEFAULT_MAX_PAGES, HARD_MAX_PAGES));
+  const maxDepth = Math.max(0, opts.maxDepth ?? DEFAULT_MAX_DEPTH);
+  const concurrency = Math.max(1, Math.min(opts.maxConcurrencyPerHost || DEFAULT_CONCURRENCY_PER_HOST, 8));
+  const timeoutMs = opts.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const deadline = opts.deadlineMs ? Date.now() + opts.deadlineMs : Infinity;
+  const includePaths = opts.includePaths || [];
+  const excludePaths = opts.excludePaths || [];
+  const headers = opts.headers || {};
+  const allowedHosts = new Set([start.hostname, twinHost(start.hostname)]);
+
+  let robots: RobotsRules | null = null;
+  if (opts.respectRobots !== false) {
+    robots = (await fetchRobotsTxt(start.origin)).rules;
+  }
+  const robotsDelayMs = Math.min(MAX_CRAWL_DELAY_MS, (getCrawlDelay(robots, SEOAGENT_USER_AGENT) || 0) * 1000);
+  const delayMs = Math.max(opts.delayMs ?? DEFAULT_DELAY_MS, robotsDelayMs);
+
+  console.log(`[SITE CRAWLER] Crawling ${start.origin} (maxPages: ${maxPages}, depth: ${maxDepth}, concurrency: ${concurrency}, delay: ${delayMs}ms)`);
+
+  const seen = new Set<string>();
+  const queue: QueueItem[] = [];
+  const results: CrawlResultPage[] = [];
+  let skippedByRobots = 0;
+
+  const enqueue = (url: string, depth: number) => {
+    if (seen.has(url) || depth > maxDepth) return;
+    const parsed = new URL(url);
+    if (!allowedHosts.has(parsed.hostname) || SKIPPED_EXTENSIONS.test(parsed.pathname)) return;
+    if (!isPathAllowed(url, includePaths, excludePaths)) return;
+    seen.add(url);
+    if (robots && !isAllowedByRobots(robots, url, SEOAGENT_USER_AGENT)) {
+      skippedByRobots++;
+      return;
+    }
+    queue.push({ url, depth });
+  };
+
+  enqueue(startUrl, 0);
+
+  if (opts.useSitemap !== false) {
+    try {
+      const entries = await readSitemapEntries(start.origin, {
+        sitemapUrls: robots?.sitemaps.length ? robots.sitemaps : undefined,
+        limit: maxPages * 2
+      });
+      entries.forEach(entry => {
+        const normalized = normalizeCrawlUrl(entry.loc, start.origin);
+        if (normalized) enqueue(normalized, Math.min(1, maxDepth));
+      });
+    } catch (error) {
+      console.log('[SITE CRAWLER] Sitemap seeding failed:', error);
+    }
+  }
+
+  let inFlight = 0;
+  const worker = async () => {
+    while (results.length + inFlight < maxPages && Date.now() < deadline) {
+      const item = queue.shift();
+      if (!item) {
+        if (inFlight === 0) return;
+        // Other workers may still discover links
+        await sleep(50);
+        continue;
+      }
+
+      inFlight++;
+      const release = await acquireHostSlot(new URL(item.url).host, concurrency, delayMs);
+      try {
+        const page = await fetchHtml(item.url, { timeoutMs, headers });
+        const finalHost = new URL(page.finalUrl).hostname;
+        if (!page.isHtml || !allowedHosts.has(finalHost)) continue;
+
+        const { links, metadata } = extractPage(page.html, page.finalUrl);
+        seen.add(page.finalUrl);
+        results.push({
+          url: page.finalUrl,
+          html: page.html,
+          markdown: htmlToMarkdown(page.html),
+          metadata: {
+            ...metadata,
+            sourceURL: item.url,
+            url: page.finalUrl,
+            statusCode: page.status,
+            depth: item.depth,
+            crawler: 'builtin'
+          }
+        });
+
+        if (page.status < 400) {
+          links.forEach(link => enqueue(link, item.depth + 1));
+        }
+      } catch (error) {
+        console.log(`[SITE CRAWLER] Failed to fetch ${item.url}:`, error instanceof Error ? error.message : error);
+      } finally {
+        release();
+        inFlight--;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+  console.log(`[SITE CRAWLER] Finished ${start.origin}: ${results.length} pages, ${skippedByRobots} blocked by robots.txt, ${queue.length} left in queue`);
+  return results.slice(0, maxPages);
+}
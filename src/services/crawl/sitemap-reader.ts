@@ -0,0 +1,96 @@
+/**
+ * Sitemap Reader
+ * Resolves a site's XML sitemaps (robots.txt Sitemap: lines, then /sitemap.xml and
+ * /sitemap_index.xml) and expands sitemap indexes into a flat list of page URLs.
+ */
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  sourceSitemap: string;
+}
+
+const SITEMAP_FETCH_TIMEOUT_MS = 10000;
+const MAX_CHILD_SITEMAPS = 20;
+
+function extractTagValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi');
+  const values: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    values.push(decodeXml(match[1].replace(/<!\[CDATA\[|\]\]>/g, '').trim()));
+  }
+  return values;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'");
+}
+
+async function fetchXml(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'SEOAgent-Bot/1.0 (+https://seoagent.com/bot)' },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(SITEMAP_FETCH_TIMEOUT_MS)
+    });
+    if (!response.ok) return null;
+    const body = await response.text();
+    return /<(urlset|sitemapindex)/i.test(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read sitemap entries for a site, following sitemap indexes one level deep
+ */
+export async function readSitemapEntries(
+  siteUrl: string,
+  opts: { sitemapUrls?: string[]; limit?: number } = {}
+): Promise<SitemapEntry[]> {
+  const limit = opts.limit ?? 1000;
+  const origin = new URL(siteUrl).origin;
+  const candidates = opts.sitemapUrls && opts.sitemapUrls.length > 0
+    ? opts.sitemapUrls
+    : [`${origin}/sitemap.xml`, `${origin}/sitemap_index.xml`];
+
+  const entries: SitemapEntry[] = [];
+  const seen = new Set<string>();
+  const queue = [...candidates];
+  let sitemapsRead = 0;
+
+  while (queue.length > 0 && entries.length < limit && sitemapsRead < MAX_CHILD_SITEMAPS) {
+    const sitemapUrl = queue.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    const xml = await fetchXml(sitemapUrl);
+    sitemapsRead++;
+    if (!xml) continue;
+
+    if (/<sitemapindex/i.test(xml)) {
+      const blocks = xml.match(/<sitemap>[\s\S]*?<\/sitemap>/gi) || [];
+      blocks.forEach(block => {
+        const loc = extractTagValues(block, 'loc')[0];
+        if (loc) queue.push(loc);
+      });
+      continue;
+    }
+
+    const blocks = xml.match(/<url>[\s\S]*?<\/url>/gi) || [];
+    for (const block of blocks) {
+      const loc = extractTagValues(block, 'loc')[0];
+      if (!loc) continue;
+      entries.push({ loc, lastmod: extractTagValues(block, 'lastmod')[0], sourceSitemap: sitemapUrl });
+      if (entries.length >= limit) break;
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,780 @@
+/**
+ * Performance Analytics Service
+ *
+ * Reads the gsc_search_analytics fact table written by syncGSCSearchAnalytics and
+ * answers period-over-period, trend and insight questions for the agent.
+ *
+ * Row grains in gsc_search_analytics:
+ * - date IS NOT NULL, query/page NULL  → daily site totals
+ * - date IS NULL, query or page set    → aggregate over [start_date, end_date]
+ *   (nightly syncs produce single-day aggregates, backfills produce multi-day ones)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  linearTrend,
+  mean,
+  movingAverage,
+  percentChange,
+  poissonRateZ,
+  round,
+  sum,
+  twoProportionZ,
+  welchT,
+  LinearTrend
+} from './statistics';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 50000;
+const SIGNIFICANCE_Z = 1.96;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Dimension = 'query' | 'page';
+export type MetricName = 'clicks' | 'impressions' | 'ctr' | 'position';
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD inclusive
+  end: string;   // YYYY-MM-DD inclusive
+  label: string;
+  days: number;
+}
+
+export interface MetricTotals {
+  clicks: number;
+  impressions: number;
+  ctr: number;       // ratio 0..1
+  position: number;  // impression-weighted average
+}
+
+export interface DailyPoint extends MetricTotals {
+  date: string;
+}
+
+export interface DimensionRow extends MetricTotals {
+  key: string;
+  daily: DailyPoint[];
+}
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number;
+  changePercent: number | null;
+  dailyAverageCurrent: number;
+  dailyAveragePrevious: number;
+  zScore: number;
+  significant: boolean;
+  direction: 'up' | 'down' | 'flat';
+  improved: boolean;
+}
+
+export interface EntityChange {
+  key: string;
+  current: MetricTotals;
+  previous: MetricTotals;
+  clicksChange: number;
+  positionChange: number;
+  significant: boolean;
+  status: 'new' | 'lost' | 'changed';
+}
+
+export interface PeriodComparison {
+  siteUrl: string;
+  current: DateRange;
+  previous: DateRange;
+  totals: { current: MetricTotals; previous: MetricTotals };
+  deltas: Record<MetricName, MetricDelta>;
+  queries: { gainers: EntityChange[]; losers: EntityChange[]; newQueries: EntityChange[]; lostQueries: EntityChange[] };
+  pages: { gainers: EntityChange[]; losers: EntityChange[] };
+  headline: string;
+  dataAvailable: boolean;
+}
+
+export interface EntityTrend {
+  key: string;
+  clicks: number;
+  impressions: number;
+  position: number;
+  clicksTrend: LinearTrend;
+  positionTrend: LinearTrend;
+  direction: 'rising' | 'declining' | 'stable';
+}
+
+export interface TrendReport {
+  siteUrl: string;
+  range: DateRange;
+  daily: Array<DailyPoint & { clicks7d: number; impressions7d: number }>;
+  weekly: Array<{ weekStart: string } & MetricTotals>;
+  metrics: Partial<Record<MetricName, LinearTrend & { direction: 'rising' | 'declining' | 'stable'; changeOverPeriodPercent: number | null }>>;
+  queries: { rising: EntityTrend[]; declining: EntityTrend[] };
+  pages: { rising: EntityTrend[]; declining: EntityTrend[] };
+}
+
+export interface Insight {
+  type: string;
+  severity: 'positive' | 'info' | 'warning' | 'critical';
+  title: string;
+  detail: string;
+  metric?: MetricName;
+  entity?: string;
+  data?: any;
+}
+
+export class PerformanceAnalyticsService {
+  /**
+   * Resolve a period spec ("28d", "this_month", "last_month", "YYYY-MM-DD..YYYY-MM-DD") to a concrete range.
+   * GSC data lags, so relative ranges end yesterday (UTC).
+   */
+  static resolvePeriod(spec: string = '28d', today: Date = new Date()): DateRange {
+    const yesterday = addDays(startOfUTCDay(today), -1);
+    const normalized = spec.trim().toLowerCase();
+
+    const explicit = normalized.match(/^(\d{4}-\d{2}-\d{2})\s*(?:\.\.|to|_)\s*(\d{4}-\d{2}-\d{2})$/);
+    if (explicit) {
+      return makeRange(parseDate(explicit[1]), parseDate(explicit[2]), spec);
+    }
+
+    const relative = normalized.match(/^(\d+)\s*([dwm])$/);
+    if (relative) {
+      const amount = parseInt(relative[1], 10);
+      const days = relative[2] === 'd' ? amount : relative[2] === 'w' ? amount * 7 : amount * 30;
+      return makeRange(addDays(yesterday, -(days - 1)), yesterday, `last ${days} days`);
+    }
+
+    switch (normalized) {
+      case 'this_month':
+      case 'mtd': {
+        const start = new Date(Date.UTC(yesterday.getUTCFullYear(), yesterday.getUTCMonth(), 1));
+        return makeRange(start, yesterday, 'this month');
+      }
+      case 'last_month':
+      case 'previous_month': {
+        const start = new Date(Date.UTC(yesterday.getUTCFullYear(), yesterday.getUTCMonth() - 1, 1));
+        const end = new Date(Date.UTC(yesterday.getUTCFullYear(), yesterday.getUTCMonth(), 0));
+        return makeRange(start, end, 'last month');
+      }
+      case 'this_week': {
+        const dayOfWeek = (yesterday.getUTCDay() + 6) % 7; // Monday = 0
+        return makeRange(addDays(yesterday, -dayOfWeek), yesterday, 'this week');
+      }
+      case 'last_week': {
+        const dayOfWeek = (yesterday.getUTCDay() + 6) % 7;
+        const end = addDays(yesterday, -dayOfWeek - 1);
+        return makeRange(addDays(end, -6), end, 'last week');
+      }
+      default:
+        return makeRange(addDays(yesterday, -27), yesterday, 'last 28 days');
+    }
+  }
+
+  /**
+   * Resolve the baseline period for a comparison. "previous" (or a legacy span such as "60d"
+   * that is longer than the current period) means the equally long window right before it;
+   * "previous_year" means the same dates one year earlier.
+   */
+  static resolveBaseline(current: DateRange, baseSpec?: string): DateRange {
+    const spec = (baseSpec || 'previous').trim().toLowerCase();
+
+    if (spec === 'previous_year' || spec === 'yoy' || spec === 'last_year') {
+      const start = parseDate(current.start);
+      const end = parseDate(current.end);
+      start.setUTCFullYear(start.getUTCFullYear() - 1);
+      end.setUTCFullYear(end.getUTCFullYear() - 1);
+      return makeRange(start, end, `${current.label} last year`);
+    }
+
+    const legacySpan = spec.match(/^(\d+)\s*d$/);
+    if (spec === 'previous' || (legacySpan && parseInt(legacySpan[1], 10) > current.days)) {
+      const end = addDays(parseDate(current.start), -1);
+      return makeRange(addDays(end, -(current.days - 1)), end, `previous ${current.days} days`);
+    }
+
+    return this.resolvePeriod(spec);
+  }
+
+  static getSiteVariants(siteUrl: string): string[] {
+    const clean = siteUrl.replace(/^sc-domain:/, '').replace(/^https?:\/\//, '').replace(/\/$/, '');
+    const bare = clean.replace(/^www\./, '');
+    return Array.from(new Set([
+      siteUrl,
+      `sc-domain:${bare}`,
+      clean,
+      `https://${clean}`,
+      `https://${clean}/`,
+      `https://www.${bare}`,
+      `https://www.${bare}/`,
+      `http://${clean}/`
+    ]));
+  }
+
+  /**
+   * Daily site totals, zero-filled so that every day in the range has a point
+   */
+  static async getDailySeries(userToken: string, siteUrl: string, range: DateRange): Promise<DailyPoint[]> {
+    const rows = await fetchAllRows(() => supabase
+      .from('gsc_search_analytics')
+      .select('date, clicks, impressions, ctr, position')
+      .eq('user_token', userToken)
+      .in('site_url', this.getSiteVariants(siteUrl))
+      .not('date', 'is', null)
+      .is('query', null)
+      .is('page', null)
+      .is('country', null)
+      .is('device', null)
+      .gte('date', range.start)
+      .lte('date', range.end)
+      .order('date', { ascending: true }));
+
+    const byDate = new Map<string, DailyPoint>();
+    rows.forEach((row: any) => {
+      const existing = byDate.get(row.date);
+      // Multiple site_url variants can exist for the same property; keep the larger row
+      if (!existing || (row.impressions || 0) > existing.impressions) {
+        byDate.set(row.date, {
+          date: row.date,
+          clicks: row.clicks || 0,
+          impressions: row.impressions || 0,
+          ctr: row.ctr || 0,
+          position: row.position || 0
+        });
+      }
+    });
+
+    return eachDay(range).map(date => byDate.get(date) || { date, clicks: 0, impressions: 0, ctr: 0, position: 0 });
+  }
+
+  /**
+   * Query- or page-level totals over a range, with per-day points when single-day aggregates exist
+   */
+  static async getDimensionRows(userToken: string, siteUrl: string, dimension: Dimension, range: DateRange): Promise<DimensionRow[]> {
+    const other: Dimension = dimension === 'query' ? 'page' : 'query';
+    const rows = await fetchAllRows(() => supabase
+      .from('gsc_search_analytics')
+      .select(`${dimension}, start_date, end_date, clicks, impressions, position`)
+      .eq('user_token', userToken)
+      .in('site_url', this.getSiteVariants(siteUrl))
+      .is('date', null)
+      .not(dimension, 'is', null)
+      .is(other, null)
+      .gte('start_date', range.start)
+      .lte('end_date', range.end)
+      .order('start_date', { ascending: true }));
+
+    // Prefer single-day aggregates; only use multi-day rows for spans not covered by daily ones
+    const singleDay = rows.filter((r: any) => r.start_date === r.end_date);
+    const multiDay = rows.filter((r: any) => r.start_date !== r.end_date);
+    const coveredDays = new Set<string>(singleDay.map((r: any) => r.start_date));
+    const accepted = [...singleDay];
+    multiDay.forEach((r: any) => {
+      const days = eachDay(makeRange(parseDate(r.start_date), parseDate(r.end_date), ''));
+      if (days.some(d => coveredDays.has(d))) return;
+      days.forEach(d => coveredDays.add(d));
+      accepted.push(r);
+    });
+
+    const grouped = new Map<string, { clicks: number; impressions: number; positionWeight: number; daily: Map<string, DailyPoint> }>();
+    accepted.forEach((r: any) => {
+      const key = r[dimension] as string;
+      if (!grouped.has(key)) grouped.set(key, { clicks: 0, impressions: 0, positionWeight: 0, daily: new Map() });
+      const g = grouped.get(key)!;
+      const impressions = r.impressions || 0;
+      g.clicks += r.clicks || 0;
+      g.impressions += impressions;
+      g.positionWeight += (r.position || 0) * impressions;
+      if (r.start_date === r.end_date) {
+        g.daily.set(r.start_date, {
+          date: r.start_date,
+          clicks: r.clicks || 0,
+          impressions,
+          ctr: impressions > 0 ? (r.clicks || 0) / impressions : 0,
+          position: r.position || 0
+        });
+      }
+    });
+
+    const result: DimensionRow[] = [];
+    grouped.forEach((g, key) => {
+      result.push({
+        key,
+        clicks: g.clicks,
+        impressions: g.impressions,
+        ctr: g.impressions > 0 ? g.clicks / g.impressions : 0,
+        position: g.impressions > 0 ? g.positionWeight / g.impressions : 0,
+        daily: g.daily.size > 0
+          ? eachDay(range).map(date => g.daily.get(date) || { date, clicks: 0, impressions: 0, ctr: 0, position: 0 })
+          : []
+      });
+    });
+
+    return result.sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions);
+  }
+
+  /**
+   * Site overview for a single period
+   */
+  static async getSitePerformance(userToken: string, siteUrl: string, dateRange: string = '30d') {
+    const range = this.resolvePeriod(dateRange);
+    const [daily, queries, pages] = await Promise.all([
+      this.getDailySeries(userToken, siteUrl, range),
+      this.getDimensionRows(userToken, siteUrl, 'query', range),
+      this.getDimensionRows(userToken, siteUrl, 'page', range)
+    ]);
+
+    const totals = totalsFromDaily(daily);
+    return {
+      siteUrl,
+      range,
+      totals: formatTotals(totals),
+      daily: daily.map(formatPoint),
+      topQueries: queries.slice(0, 20).map(stripDaily),
+      topPages: pages.slice(0, 20).map(stripDaily),
+      dataAvailable: totals.impressions > 0 || queries.length > 0
+    };
+  }
+
+  /**
+   * Period-over-period comparison with significance flags
+   */
+  static async comparePeriods(userToken: string, siteUrl: string, currentSpec: string = '28d', baseSpec?: string): Promise<PeriodComparison> {
+    const current = this.resolvePeriod(currentSpec);
+    const previous = this.resolveBaseline(current, baseSpec);
+
+    const [currentDaily, previousDaily, currentQueries, previousQueries, currentPages, previousPages] = await Promise.all([
+      this.getDailySeries(userToken, siteUrl, current),
+      this.getDailySeries(userToken, siteUrl, previous),
+      this.getDimensionRows(userToken, siteUrl, 'query', current),
+      this.getDimensionRows(userToken, siteUrl, 'query', previous),
+      this.getDimensionRows(userToken, siteUrl, 'page', current),
+      this.getDimensionRows(userToken, siteUrl, 'page', previous)
+    ]);
+
+    const currentTotals = totalsFromDaily(currentDaily);
+    const previousTotals = totalsFromDaily(previousDaily);
+
+    const deltas: Record<MetricName, MetricDelta> = {
+      clicks: countDelta(currentTotals.clicks, current.days, previousTotals.clicks, previous.days),
+      impressions: countDelta(currentTotals.impressions, current.days, previousTotals.impressions, previous.days),
+      ctr: ctrDelta(currentTotals, previousTotals),
+      position: positionDelta(currentDaily, previousDaily, currentTotals.position, previousTotals.position)
+    };
+
+    const queryChanges = diffEntities(currentQueries, previousQueries, current.days, previous.days);
+    const pageChanges = diffEntities(currentPages, previousPages, current.days, previous.days);
+
+    const comparison: PeriodComparison = {
+      siteUrl,
+      current,
+      previous,
+      totals: { current: formatTotals(currentTotals), previous: formatTotals(previousTotals) },
+      deltas,
+      queries: {
+        gainers: queryChanges.filter(c => c.status === 'changed' && c.clicksChange > 0).sort((a, b) => b.clicksChange - a.clicksChange).slice(0, 10),
+        losers: queryChanges.filter(c => c.status === 'changed' && c.clicksChange < 0).sort((a, b) => a.clicksChange - b.clicksChange).slice(0, 10),
+        newQueries: queryChanges.filter(c => c.status === 'new').sort((a, b) => b.current.impressions - a.current.impressions).slice(0, 10),
+        lostQueries: queryChanges.filter(c => c.status === 'lost').sort((a, b) => b.previous.impressions - a.previous.impressions).slice(0, 10)
+      },
+      pages: {
+        gainers: pageChanges.filter(c => c.clicksChange > 0).sort((a, b) => b.clicksChange - a.clicksChange).slice(0, 10),
+        losers: pageChanges.filter(c => c.clicksChange < 0).sort((a, b) => a.clicksChange - b.clicksChange).slice(0, 10)
+      },
+      headline: '',
+      dataAvailable: currentTotals.impressions > 0 || previousTotals.impressions > 0
+    };
+
+    comparison.headline = buildHeadline(comparison);
+    return comparison;
+  }
+
+  /**
+   * Trend lines for the site and for individual queries and pages
+   */
+  static async getTrends(userToken: string, siteUrl: string, period: string = '90d', metrics?: MetricName[]): Promise<TrendReport> {
+    const range = this.resolvePeriod(period);
+    const wanted: MetricName[] = metrics && metrics.length > 0 ? metrics : ['clicks', 'impressions', 'ctr', 'position'];
+
+    const [daily, queries, pages] = await Promise.all([
+      this.getDailySeries(userToken, siteUrl, range),
+      this.getDimensionRows(userToken, siteUrl, 'query', range),
+      this.getDimensionRows(userToken, siteUrl, 'page', range)
+    ]);
+
+    const clicks7d = movingAverage(daily.map(d => d.clicks), 7);
+    const impressions7d = movingAverage(daily.map(d => d.impressions), 7);
+
+    const metricTrends: TrendReport['metrics'] = {};
+    wanted.forEach(metric => {
+      const series = metric === 'position'
+        ? daily.filter(d => d.impressions > 0).map(d => d.position)
+        : daily.map(d => metric === 'ctr' ? d.ctr : d[metric]);
+      const trend = linearTrend(series);
+      const fittedStart = trend.intercept;
+      const fittedEnd = trend.intercept + trend.slope * Math.max(0, series.length - 1);
+      metricTrends[metric] = {
+        ...roundTrend(trend),
+        direction: trendDirection(trend, metric === 'position'),
+        changeOverPeriodPercent: nullableRound(percentChange(fittedEnd, fittedStart), 1)
+      };
+    });
+
+    return {
+      siteUrl,
+      range,
+      daily: daily.map((d, i) => ({ ...formatPoint(d), clicks7d: round(clicks7d[i], 1), impressions7d: round(impressions7d[i], 1) })),
+      weekly: weeklyBuckets(daily),
+      metrics: metricTrends,
+      queries: entityTrends(queries),
+      pages: entityTrends(pages)
+    };
+  }
+
+  /**
+   * Human-readable insights combining comparison and trend data
+   */
+  static async analyzeMetrics(userToken: string, siteUrl: string, dateRange: string = '28d', metricTypes?: string[]): Promise<{
+    comparison: PeriodComparison;
+    insights: Insight[];
+    opportunities: { lowCtrQueries: DimensionRow[]; strikingDistance: DimensionRow[] };
+  }> {
+    const comparison = await this.comparePeriods(userToken, siteUrl, dateRange, 'previous');
+    const queries = await this.getDimensionRows(userToken, siteUrl, 'query', comparison.current);
+
+    const insights: Insight[] = [];
+    const focus = metricTypes && metricTypes.length > 0 ? metricTypes.map(m => m.toLowerCase()) : null;
+    const wants = (metric: MetricName) => !focus || focus.includes(metric);
+
+    (['clicks', 'impressions', 'ctr', 'position'] as MetricName[]).forEach(metric => {
+      if (!wants(metric)) return;
+      const d = comparison.deltas[metric];
+      if (!d.significant) return;
+      insights.push({
+        type: `${metric}_${d.improved ? 'improved' : 'declined'}`,
+        severity: d.improved ? 'positive' : Math.abs(d.changePercent || 0) > 25 ? 'critical' : 'warning',
+        title: `${capitalize(metric)} ${d.improved ? 'improved' : 'declined'} significantly`,
+        detail: `${capitalize(metric)} went from ${formatMetric(metric, d.previous)} to ${formatMetric(metric, d.current)}${d.changePercent !== null ? ` (${d.changePercent > 0 ? '+' : ''}${round(d.changePercent, 1)}%)` : ''} comparing ${comparison.current.label} with ${comparison.previous.label}.`,
+        metric,
+        data: d
+      });
+    });
+
+    comparison.queries.losers.filter(q => q.significant).slice(0, 3).forEach(q => insights.push({
+      type: 'query_decline',
+      severity: 'warning',
+      title: `"${q.key}" is losing clicks`,
+      detail: `${Math.round(q.previous.clicks)} → ${Math.round(q.current.clicks)} clicks; position ${round(q.previous.position, 1)} → ${round(q.current.position, 1)}.`,
+      entity: q.key,
+      data: q
+    }));
+
+    comparison.pages.losers.filter(p => p.significant).slice(0, 3).forEach(p => insights.push({
+      type: 'page_decline',
+      severity: 'warning',
+      title: `Page losing traffic: ${p.key}`,
+      detail: `${Math.round(p.previous.clicks)} → ${Math.round(p.current.clicks)} clicks.`,
+      entity: p.key,
+      data: p
+    }));
+
+    comparison.queries.lostQueries.slice(0, 3).forEach(q => insights.push({
+      type: 'query_lost',
+      severity: 'info',
+      title: `No longer ranking for "${q.key}"`,
+      detail: `Had ${Math.round(q.previous.impressions)} impressions in ${comparison.previous.label}, none in ${comparison.current.label}.`,
+      entity: q.key,
+      data: q
+    }));
+
+    // Opportunities: high impressions with poor CTR, and queries just off page one
+    const siteCtr = comparison.totals.current.ctr / 100;
+    const lowCtrQueries = queries
+      .filter(q => q.impressions >= 100 && q.position <= 10 && q.ctr < siteCtr * 0.5)
+      .sort((a, b) => b.impressions - a.impressions)
+      .slice(0, 10)
+      .map(stripDaily);
+    const strikingDistance = queries
+      .filter(q => q.impressions >= 50 && q.position > 10 && q.position <= 20)
+      .sort((a, b) => b.impressions - a.impressions)
+      .slice(0, 10)
+      .map(stripDaily);
+
+    if (lowCtrQueries.length > 0 && wants('ctr')) {
+      insights.push({
+        type: 'ctr_opportunity',
+        severity: 'info',
+        title: `${lowCtrQueries.length} queries with page-one rankings but weak CTR`,
+        detail: `Rewriting titles and descriptions for queries like "${lowCtrQueries[0].key}" could unlock extra clicks.`,
+        data: lowCtrQueries.map(q => q.key)
+      });
+    }
+    if (strikingDistance.length > 0 && wants('position')) {
+      insights.push({
+        type: 'striking_distance',
+        severity: 'info',
+        title: `${strikingDistance.length} queries ranking on page two`,
+        detail: `Improving content for queries like "${strikingDistance[0].key}" could move them onto page one.`,
+        data: strikingDistance.map(q => q.key)
+      });
+    }
+
+    if (!comparison.dataAvailable) {
+      insights.push({
+        type: 'no_data',
+        severity: 'warning',
+        title: 'No synced Search Console data for this period',
+        detail: 'Run a GSC sync for this site so performance analytics can be calculated.'
+      });
+    }
+
+    return { comparison, insights, opportunities: { lowCtrQueries, strikingDistance } };
+  }
+}
+
+// ----- module helpers -----
+
+async function fetchAllRows(build: () => any): Promise<any[]> {
+  const rows: any[] = [];
+  for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await build().range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      console.error('[PERFORMANCE ANALYTICS] Query error:', error);
+      throw new Error(`Failed to read search analytics: ${error.message || error}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function makeRange(start: Date, end: Date, label: string): DateRange {
+  const days = Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1);
+  return { start: formatDate(start), end: formatDate(end), label, days };
+}
+
+function eachDay(range: DateRange): string[] {
+  const days: string[] = [];
+  const start = parseDate(range.start);
+  for (let i = 0; i < range.days; i++) {
+    days.push(formatDate(addDays(start, i)));
+  }
+  return days;
+}
+
+function totalsFromDaily(daily: DailyPoint[]): MetricTotals {
+  const clicks = sum(daily.map(d => d.clicks));
+  const impressions = sum(daily.map(d => d.impressions));
+  const positionWeight = sum(daily.map(d => d.position * d.impressions));
+  return {
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+    position: impressions > 0 ? positionWeight / impressions : 0
+  };
+}
+
+function formatTotals(totals: MetricTotals): MetricTotals {
+  return {
+    clicks: Math.round(totals.clicks),
+    impressions: Math.round(totals.impressions),
+    ctr: round(totals.ctr * 100, 2),
+    position: round(totals.position, 1)
+  };
+}
+
+function formatPoint(point: DailyPoint): DailyPoint {
+  return { ...point, ctr: round(point.ctr * 100, 2), position: round(point.position, 1) };
+}
+
+function stripDaily(row: DimensionRow): DimensionRow {
+  return { ...row, ctr: round(row.ctr * 100, 2), position: round(row.position, 1), daily: [] };
+}
+
+function direction(change: number): 'up' | 'down' | 'flat' {
+  return change > 0 ? 'up' : change < 0 ? 'down' : 'flat';
+}
+
+function countDelta(current: number, currentDays: number, previous: number, previousDays: number): MetricDelta {
+  const z = poissonRateZ(current, currentDays, previous, previousDays);
+  const dailyCurrent = current / currentDays;
+  const dailyPrevious = previous / previousDays;
+  return {
+    current: Math.round(current),
+    previous: Math.round(previous),
+    change: Math.round(current - previous),
+    changePercent: nullableRound(percentChange(dailyCurrent, dailyPrevious), 1),
+    dailyAverageCurrent: round(dailyCurrent, 1),
+    dailyAveragePrevious: round(dailyPrevious, 1),
+    zScore: round(z, 2),
+    significant: Math.abs(z) >= SIGNIFICANCE_Z,
+    direction: direction(dailyCurrent - dailyPrevious),
+    improved: dailyCurrent > dailyPrevious
+  };
+}
+
+function ctrDelta(current: MetricTotals, previous: MetricTotals): MetricDelta {
+  const z = twoProportionZ(current.clicks, current.impressions, previous.clicks, previous.impressions);
+  return {
+    current: round(current.ctr * 100, 2),
+    previous: round(previous.ctr * 100, 2),
+    change: round((current.ctr - previous.ctr) * 100, 2),
+    changePercent: nullableRound(percentChange(current.ctr, previous.ctr), 1),
+    dailyAverageCurrent: round(current.ctr * 100, 2),
+    dailyAveragePrevious: round(previous.ctr * 100, 2),
+    zScore: round(z, 2),
+    significant: Math.abs(z) >= SIGNIFICANCE_Z,
+    direction: direction(current.ctr - previous.ctr),
+    improved: current.ctr > previous.ctr
+  };
+}
+
+function positionDelta(currentDaily: DailyPoint[], previousDaily: DailyPoint[], current: number, previous: number): MetricDelta {
+  const a = currentDaily.filter(d => d.impressions > 0).map(d => d.position);
+  const b = previousDaily.filter(d => d.impressions > 0).map(d => d.position);
+  const t = welchT(a, b);
+  return {
+    current: round(current, 1),
+    previous: round(previous, 1),
+    change: round(current - previous, 1),
+    changePercent: nullableRound(percentChange(current, previous), 1),
+    dailyAverageCurrent: round(mean(a), 1),
+    dailyAveragePrevious: round(mean(b), 1),
+    zScore: round(t, 2),
+    significant: a.length >= 5 && b.length >= 5 && Math.abs(t) >= SIGNIFICANCE_Z,
+    direction: direction(current - previous),
+    // Lower position numbers are better
+    improved: current > 0 && (previous === 0 || current < previous)
+  };
+}
+
+function diffEntities(current: DimensionRow[], previous: DimensionRow[], currentDays: number, previousDays: number): EntityChange[] {
+  const previousByKey = new Map<string, DimensionRow>();
+  previous.forEach(row => previousByKey.set(row.key, row));
+  const empty: MetricTotals = { clicks: 0, impressions: 0, ctr: 0, position: 0 };
+  const changes: EntityChange[] = [];
+
+  current.forEach(row => {
+    const before = previousByKey.get(row.key);
+    previousByKey.delete(row.key);
+    const prev = before || empty;
+    const z = poissonRateZ(row.clicks, currentDays, prev.clicks, previousDays);
+    changes.push({
+      key: row.key,
+      current: formatTotals(row),
+      previous: formatTotals(prev),
+      clicksChange: Math.round(row.clicks - prev.clicks),
+      positionChange: before ? round(row.position - prev.position, 1) : 0,
+      significant: Math.abs(z) >= SIGNIFICANCE_Z,
+      status: before ? 'changed' : 'new'
+    });
+  });
+
+  previousByKey.forEach(row => {
+    changes.push({
+      key: row.key,
+      current: formatTotals(empty),
+      previous: formatTotals(row),
+      clicksChange: -Math.round(row.clicks),
+      positionChange: 0,
+      significant: Math.abs(poissonRateZ(0, currentDays, row.clicks, previousDays)) >= SIGNIFICANCE_Z,
+      status: 'lost'
+    });
+  });
+
+  return changes;
+}
+
+function trendDirection(trend: LinearTrend, lowerIsBetter: boolean): 'rising' | 'declining' | 'stable' {
+  if (!trend.significant || trend.slope === 0) return 'stable';
+  const up = trend.slope > 0;
+  return (lowerIsBetter ? !up : up) ? 'rising' : 'declining';
+}
+
+function entityTrends(rows: DimensionRow[]): { rising: EntityTrend[]; declining: EntityTrend[] } {
+  const trends: EntityTrend[] = rows
+    .filter(row => row.daily.length >= 7 && row.impressions >= 30)
+    .slice(0, 500)
+    .map(row => {
+      const clicksTrend = linearTrend(row.daily.map(d => d.clicks));
+      const positionTrend = linearTrend(row.daily.filter(d => d.impressions > 0).map(d => d.position));
+      const clicksDirection = trendDirection(clicksTrend, false);
+      const positionDirection = trendDirection(positionTrend, true);
+      return {
+        key: row.key,
+        clicks: Math.round(row.clicks),
+        impressions: Math.round(row.impressions),
+        position: round(row.position, 1),
+        clicksTrend: roundTrend(clicksTrend),
+        positionTrend: roundTrend(positionTrend),
+        direction: clicksDirection !== 'stable' ? clicksDirection : positionDirection
+      };
+    });
+
+  return {
+    rising: trends.filter(t => t.direction === 'rising').sort((a, b) => b.clicksTrend.slope - a.clicksTrend.slope).slice(0, 10),
+    declining: trends.filter(t => t.direction === 'declining').sort((a, b) => a.clicksTrend.slope - b.clicksTrend.slope).slice(0, 10)
+  };
+}
+
+function weeklyBuckets(daily: DailyPoint[]): Array<{ weekStart: string } & MetricTotals> {
+  const buckets: Array<{ weekStart: string } & MetricTotals> = [];
+  for (let i = 0; i < daily.length; i += 7) {
+    const week = daily.slice(i, i + 7);
+    buckets.push({ weekStart: week[0].date, ...formatTotals(totalsFromDaily(week)) });
+  }
+  return buckets;
+}
+
+function roundTrend(trend: LinearTrend): LinearTrend {
+  return {
+    ...trend,
+    slope: round(trend.slope, 4),
+    intercept: round(trend.intercept, 2),
+    rSquared: round(trend.rSquared, 3),
+    tStat: Number.isFinite(trend.tStat) ? round(trend.tStat, 2) : trend.tStat
+  };
+}
+
+function nullableRound(value: number | null, digits: number): number | null {
+  return value === null ? null : round(value, digits);
+}
+
+function capitalize(value: string): string {
+  return value === 'ctr' ? 'CTR' : value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatMetric(metric: MetricName, value: number): string {
+  if (metric === 'ctr') return `${value}%`;
+  if (metric === 'position') return String(value);
+  return value.toLocaleString();
+}
+
+function buildHeadline(c: PeriodComparison): string {
+  if (!c.dataAvailable) {
+    return `No Search Console data is stored for ${c.current.label} or ${c.previous.label} yet.`;
+  }
+  const part = (metric: MetricName) => {
+    const d = c.deltas[metric];
+    const pct = d.changePercent === null ? 'new' : `${d.changePercent > 0 ? '+' : ''}${d.changePercent}%`;
+    return `${capitalize(metric)} ${formatMetric(metric, d.current)} vs ${formatMetric(metric, d.previous)} (${pct}${d.significant ? ', significant' : ''})`;
+  };
+  return `${capitalize(c.current.label)} vs ${c.previous.label}: ${part('clicks')}; ${part('impressions')}; ${part('ctr')}; avg position ${c.deltas.position.current} vs ${c.deltas.position.previous}.`;
+}
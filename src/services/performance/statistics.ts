@@ -0,0 +1,104 @@
+/**
+ * Small statistics helpers for performance analytics.
+ * Kept dependency-free; approximations are fine for flagging, not for publishing papers.
+ */
+
+export interface LinearTrend {
+  slope: number;       // change per step (day)
+  intercept: number;
+  rSquared: number;
+  tStat: number;       // slope / standard error
+  significant: boolean;
+  points: number;
+}
+
+export function sum(values: number[]): number {
+  return values.reduce((acc, v) => acc + v, 0);
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return sum(values.map(v => (v - m) ** 2)) / (values.length - 1);
+}
+
+/**
+ * Ordinary least squares fit of y over x = 0..n-1
+ */
+export function linearTrend(values: number[]): LinearTrend {
+  const n = values.length;
+  if (n < 3) {
+    return { slope: 0, intercept: values[0] || 0, rSquared: 0, tStat: 0, significant: false, points: n };
+  }
+
+  const xs = values.map((_, i) => i);
+  const xMean = mean(xs);
+  const yMean = mean(values);
+  const sxx = sum(xs.map(x => (x - xMean) ** 2));
+  const sxy = sum(xs.map((x, i) => (x - xMean) * (values[i] - yMean)));
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const intercept = yMean - slope * xMean;
+
+  const residuals = values.map((y, i) => y - (intercept + slope * xs[i]));
+  const ssRes = sum(residuals.map(r => r * r));
+  const ssTot = sum(values.map(y => (y - yMean) ** 2));
+  const rSquared = ssTot === 0 ? 0 : 1 - ssRes / ssTot;
+
+  const standardError = Math.sqrt(ssRes / (n - 2)) / Math.sqrt(sxx || 1);
+  const tStat = standardError === 0 ? (slope === 0 ? 0 : Infinity) : slope / standardError;
+
+  return { slope, intercept, rSquared, tStat, significant: n >= 7 && Math.abs(tStat) >= 2, points: n };
+}
+
+/**
+ * Compare two Poisson counts observed over different exposure lengths (e.g. clicks over days)
+ */
+export function poissonRateZ(countA: number, exposureA: number, countB: number, exposureB: number): number {
+  if (exposureA <= 0 || exposureB <= 0) return 0;
+  const rateA = countA / exposureA;
+  const rateB = countB / exposureB;
+  const se = Math.sqrt(countA / (exposureA ** 2) + countB / (exposureB ** 2));
+  return se === 0 ? 0 : (rateA - rateB) / se;
+}
+
+/**
+ * Two-proportion z-test (e.g. CTR = clicks / impressions)
+ */
+export function twoProportionZ(successA: number, trialsA: number, successB: number, trialsB: number): number {
+  if (trialsA <= 0 || trialsB <= 0) return 0;
+  const pA = successA / trialsA;
+  const pB = successB / trialsB;
+  const pooled = (successA + successB) / (trialsA + trialsB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  return se === 0 ? 0 : (pA - pB) / se;
+}
+
+/**
+ * Welch's t statistic for two samples with unequal variances
+ */
+export function welchT(a: number[], b: number[]): number {
+  if (a.length < 2 || b.length < 2) return 0;
+  const se = Math.sqrt(variance(a) / a.length + variance(b) / b.length);
+  return se === 0 ? 0 : (mean(a) - mean(b)) / se;
+}
+
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+export function movingAverage(values: number[], window: number): number[] {
+  return values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return mean(slice);
+  });
+}
+
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,266 @@
+import { Queue, Worker, QueueEvents, Job } from 'bullmq';
+import IORedis from 'ioredis';
+import {
+  QueueBackend,
+  QueueAddOptions,
+  QueueProcessor,
+  QueueProcessorOptions,
+  QueueJobInfo,
+  QueueCounts,
+  QueueJobStatus,
+  DEFAULT_JOB_ATTEMPTS,
+  DEFAULT_BACKOFF_DELAY_MS
+} from './queue-backend';
+
+// Only start QueueEvents in a single leader instance to avoid duplicate listeners
+const START_EVENTS = process.env.START_EVENTS === 'true';
+
+// Single shared Redis connection to avoid connection churn
+let redisConnection: IORedis | null = null;
+function getRedisConnection(): IORedis {
+  if (!redisConnection) {
+    redisConnection = new IORedis(process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: null, // Required for BullMQ
+      enableReadyCheck: false, // Reduce Redis commands on startup
+      enableOfflineQueue: true,
+      // Connection pool settings to reduce churn
+      lazyConnect: false,
+      keepAlive: 30000,
+      // Retry strategy with exponential backoff
+      retryStrategy(times) {
+        if (times > 10) return null; // Stop retrying after 10 attempts
+        return Math.min(times * 200, 5000); // Max 5s between retries
+      },
+    });
+
+    // Log connection events for debugging
+    redisConnection.on('connect', () => console.log('[REDIS] Connected'));
+    redisConnection.on('error', (err) => console.error('[REDIS] Error:', err.message));
+    redisConnection.on('close', () => console.log('[REDIS] Connection closed'));
+  }
+  return redisConnection;
+}
+
+export class BullMQQueueBackend implements QueueBackend {
+  readonly name = 'bullmq' as const;
+  private queues: Map<string, Queue> = new Map();
+  private workers: Map<string, Worker> = new Map();
+  private events: Map<string, QueueEvents> = new Map();
+
+  // Lazily create queues as needed
+  private getOrCreateQueue(queueName: string): Queue {
+    let queue = this.queues.get(queueName);
+    if (!queue) {
+      const connection = getRedisConnection();
+      queue = new Queue(queueName, {
+        connection,
+        defaultJobOptions: {
+          removeOnComplete: 100,
+          removeOnFail: 50,
+          attempts: DEFAULT_JOB_ATTEMPTS,
+          backoff: { type: 'exponential', delay: DEFAULT_BACKOFF_DELAY_MS },
+        },
+      });
+      this.queues.set(queueName, queue);
+
+      // Only attach QueueEvents if this is the designated events leader
+      // This prevents duplicate pub/sub listeners that multiply Redis traffic
+      if (START_EVENTS) {
+        console.log(`[QUEUE MANAGER] Starting QueueEvents for ${queueName} (leader mode)`);
+        const events = new QueueEvents(queueName, {
+          connection,
+          // Dramatically reduce polling to conserve Upstash requests
+          blockingTimeout: 300000, // 5 minutes
+        } as any);
+        this.events.set(queueName, events);
+        this.setupEventListeners(queueName, events);
+      }
+    }
+    return queue;
+  }
+
+  private setupEventListeners(queueName: string, events: QueueEvents) {
+    events.on('completed', ({ jobId, returnvalue }) => {
+      console.log(`[QUEUE:${queueName}] Job ${jobId} completed`);
+    });
+
+    events.on('failed', ({ jobId, failedReason }) => {
+      console.error(`[QUEUE:${queueName}] Job ${jobId} failed: ${failedReason}`);
+    });
+
+    events.on('progress', ({ jobId, data }) => {
+      console.log(`[QUEUE:${queueName}] Job ${jobId} progress: ${data}%`);
+    });
+  }
+
+  async add(queueName: string, jobName: string, data: any, options: QueueAddOptions = {}): Promise<string> {
+    const queue = this.getOrCreateQueue(queueName);
+
+    const job = await queue.add(jobName, data, {
+      priority: options.priority,
+      delay: options.delay || 0,
+      repeat: options.repeat,
+      jobId: options.jobId,
+      attempts: options.attempts,
+      backoff: options.backoffDelay ? { type: 'exponential', delay: options.backoffDelay } : undefined
+    });
+
+    // In serverless (e.g., Vercel), proactively close the queue connection to save Upstash commands
+    const isServerless = !!process.env.VERCEL || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+    if (isServerless && this.workers.size === 0) {
+      try {
+        await queue.close();
+      } catch {}
+      this.queues.delete(queueName);
+    }
+
+    return job.id as string;
+  }
+
+  registerProcessor(queueName: string, processor: QueueProcessor, options: QueueProcessorOptions): void {
+    const worker = new Worker(
+      queueName,
+      async (job: Job) => processor(job),
+      {
+        connection: getRedisConnection(),
+        concurrency: options.concurrency,
+        // CRITICAL: Rate limit to prevent hammering Upstash
+        limiter: options.limiter || { max: 50, duration: 1000 },
+        // Reduce stalled check frequency to save Redis commands
+        stalledInterval: 60000,    // Check every 60s instead of default 30s
+        maxStalledCount: 1,        // Fail jobs quickly if stalled
+        lockDuration: 60000,       // 60s lock for jobs (renew less often)
+      }
+    );
+
+    if (options.onExhausted) {
+      const onExhausted = options.onExhausted;
+      worker.on('failed', async (job) => {
+        if (!job || job.attemptsMade < (job.opts.attempts || 1)) return;
+        try {
+          await onExhausted(await this.toJobInfo(queueName, job as Job));
+        } catch (error) {
+          console.error(`[QUEUE:${queueName}] Failed to handle exhausted job ${job.id}:`, error);
+        }
+      });
+    }
+
+    this.workers.set(queueName, worker);
+  }
+
+  async getJob(queueName: string, jobId: string): Promise<QueueJobInfo | null> {
+    const job = await Job.fromId(this.getOrCreateQueue(queueName), jobId);
+    return job ? this.toJobInfo(queueName, job) : null;
+  }
+
+  async listJobs(queueName: string, statuses: QueueJobStatus[], offset: number, limit: number): Promise<QueueJobInfo[]> {
+    const types = statuses.includes('waiting') ? [...statuses, 'prioritized' as const] : statuses;
+    const jobs = await this.getOrCreateQueue(queueName).getJobs(types, offset, offset + limit - 1, false);
+    return Promise.all(jobs.filter(Boolean).map(job => this.toJobInfo(queueName, job as Job)));
+  }
+
+  async retryJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await Job.fromId(this.getOrCreateQueue(queueName), jobId);
+    if (!job || !(await job.isFailed())) return false;
+    await job.retry('failed');
+    return true;
+  }
+
+  async removeJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await Job.fromId(this.getOrCreateQueue(queueName), jobId);
+    if (!job || (await job.isActive())) return false;
+    await job.remove();
+    return true;
+  }
+
+  async promoteJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await Job.fromId(this.getOrCreateQueue(queueName), jobId);
+    if (!job || !(await job.isDelayed())) return false;
+    await job.promote();
+    return true;
+  }
+
+  private async toJobInfo(queueName: string, job: Job): Promise<QueueJobInfo> {
+    const state = await job.getState();
+    const status: QueueJobInfo['status'] = ['waiting', 'delayed', 'active', 'completed', 'failed'].includes(state)
+      ? state as QueueJobStatus
+      : state === 'prioritized' || state === 'waiting-children' ? 'waiting' : 'unknown';
+
+    return {
+      id: job.id as string,
+      queueName,
+      name: job.name,
+      status,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts || 1,
+      progress: job.progress as number | object,
+      data: job.data,
+      result: job.returnvalue ?? null,
+      error: job.failedReason || null,
+      createdAt: job.timestamp ? new Date(job.timestamp).toISOString() : null,
+      processedAt: job.processedOn ? new Date(job.processedOn).toISOString() : null,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null
+    };
+  }
+
+  async getCounts(queueName: string): Promise<QueueCounts> {
+    const queue = this.getOrCreateQueue(queueName);
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      queue.getWaiting(),
+      queue.getActive(),
+      queue.getCompleted(),
+      queue.getFailed(),
+      queue.getDelayed()
+    ]);
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length
+    };
+  }
+
+  async pause(queueName: string) {
+    const queue = this.queues.get(queueName);
+    if (queue) await queue.pause();
+  }
+
+  async resume(queueName: string) {
+    const queue = this.queues.get(queueName);
+    if (queue) await queue.resume();
+  }
+
+  async clean(queueName: string, olderThanMs: number) {
+    const queue = this.queues.get(queueName);
+    if (!queue) return;
+
+    await queue.clean(olderThanMs, 100, 'completed');
+    await queue.clean(olderThanMs, 50, 'failed');
+  }
+
+  async close() {
+    // Close all workers first
+    await Promise.all(
+      Array.from(this.workers.values()).map(worker => worker.close())
+    );
+
+    // Close event listeners
+    await Promise.all(
+      Array.from(this.events.values()).map(events => events.close())
+    );
+
+    // Close queues
+    await Promise.all(
+      Array.from(this.queues.values()).map(queue => queue.close())
+    );
+
+    // Close Redis connection
+    if (redisConnection) {
+      await redisConnection.quit();
+      redisConnection = null;
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { Queue } from 'bullmq';
 import IORedis from 'ioredis';
+import { queueManager, QUEUE_NAMES } from './queue-manager';
 
 const redisUrl = process.env.BULL_REDIS_URL || process.env.REDIS_URL || process.env.KV_URL || '';
 
@@ -12,6 +13,11 @@ function createConnection() {
 }
 
 export async function enqueueContentGeneration(jobName: string, data: Record<string, any>) {
+  // Without Redis, hand the job to the queue manager's local backend
+  if (queueManager.backendName !== 'bullmq') {
+    return queueManager.addJob(QUEUE_NAMES.CONTENT_GENERATION, jobName, data, { priority: 50 });
+  }
+
   const connection = createConnection();
   try {
     const queue = new Queue('content-generation', { connection });
@@ -0,0 +1,566 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  QueueBackend,
+  QueueAddOptions,
+  QueueProcessor,
+  QueueProcessorOptions,
+  QueueJob,
+  QueueJobInfo,
+  QueueCounts,
+  QueueJobStatus,
+  DEFAULT_JOB_ATTEMPTS,
+  DEFAULT_BACKOFF_DELAY_MS
+} from './queue-backend';
+
+// How long a claimed job may run before another process treats it as stalled
+const JOB_LOCK_MS = 10 * 60 * 1000;
+
+// How often registered processors look for jobs added by other processes (database store only)
+const POLL_INTERVAL_MS = 5000;
+
+// Timers can fire a millisecond before Date.now() reaches a job's runAt; without this slack the
+// drain finds nothing due and, with the memory store, nothing wakes the queue again
+const TIMER_SLACK_MS = 5;
+
+interface LocalJobRecord {
+  id: string;
+  queueName: string;
+  name: string;
+  data: any;
+  status: Exclude<QueueJobStatus, 'delayed'>; // delayed = waiting with runAt in the future
+  priority: number;
+  attemptsMade: number;
+  maxAttempts: number;
+  backoffDelay: number;
+  runAt: number;
+  progress: number | object | null;
+  result: any;
+  error: string | null;
+  createdAt: number;
+  processedAt: number | null;
+  finishedAt: number | null;
+}
+
+// Where LocalQueueBackend keeps its jobs
+interface LocalJobStore {
+  insert(job: LocalJobRecord): Promise<LocalJobRecord>; // returns the existing job for a duplicate id
+  get(id: string): Promise<LocalJobRecord | null>;
+  list(queueName: string, statuses: QueueJobStatus[], offset: number, limit: number): Promise<LocalJobRecord[]>; // newest first
+  remove(id: string): Promise<void>;
+  claimNext(queueName: string): Promise<LocalJobRecord | null>;
+  update(id: string, changes: Partial<LocalJobRecord>): Promise<void>;
+  counts(queueName: string): Promise<QueueCounts>;
+  clean(queueName: string, olderThanMs: number): Promise<void>;
+}
+
+/**
+ * Jobs live in this process only; lost on restart. Meant for local development and tests.
+ */
+class MemoryJobStore implements LocalJobStore {
+  private jobs: Map<string, LocalJobRecord> = new Map();
+
+  async insert(job: LocalJobRecord) {
+    const existing = this.jobs.get(job.id);
+    if (existing) return existing;
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async get(id: string) {
+    return this.jobs.get(id) || null;
+  }
+
+  async list(queueName: string, statuses: QueueJobStatus[], offset: number, limit: number) {
+    const now = Date.now();
+    return Array.from(this.jobs.values())
+      .filter(job => job.queueName === queueName && statuses.includes(job.status === 'waiting' && job.runAt > now ? 'delayed' : job.status))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(offset, offset + limit);
+  }
+
+  async remove(id: string) {
+    this.jobs.delete(id);
+  }
+
+  async claimNext(queueName: string) {
+    const now = Date.now();
+    const candidates = Array.from(this.jobs.values())
+      .filter(job => job.queueName === queueName && job.status === 'waiting' && job.runAt <= now)
+      .sort((a, b) => a.priority - b.priority || a.runAt - b.runAt || a.createdAt - b.createdAt);
+
+    const job = candidates[0];
+    if (!job) return null;
+
+    job.status = 'active';
+    job.attemptsMade += 1;
+    job.processedAt = now;
+    return job;
+  }
+
+  async update(id: string, changes: Partial<LocalJobRecord>) {
+    const job = this.jobs.get(id);
+    if (job) Object.assign(job, changes);
+  }
+
+  async counts(queueName: string) {
+    const now = Date.now();
+    const counts: QueueCounts = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+    this.jobs.forEach(job => {
+      if (job.queueName !== queueName) return;
+      if (job.status === 'waiting' && job.runAt > now) counts.delayed++;
+      else counts[job.status]++;
+    });
+    return counts;
+  }
+
+  async clean(queueName: string, olderThanMs: number) {
+    const cutoff = Date.now() - olderThanMs;
+    const ids: string[] = [];
+    this.jobs.forEach(job => {
+      if (job.queueName === queueName && (job.status === 'completed' || job.status === 'failed') && (job.finishedAt || 0) < cutoff) {
+        ids.push(job.id);
+      }
+    });
+    ids.forEach(id => this.jobs.delete(id));
+  }
+}
+
+/**
+ * Jobs persisted in queue_jobs, so any process (web or worker) can pick them up
+ */
+class DatabaseJobStore implements LocalJobStore {
+  private supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  async insert(job: LocalJobRecord) {
+    const { data, error } = await this.supabase
+      .from('queue_jobs')
+      .insert(this.toRow(job))
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        const existing = await this.get(job.id);
+        if (existing) return existing;
+      }
+      throw new Error(`Failed to store queue job: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  async get(id: string) {
+    const { data } = await this.supabase.from('queue_jobs').select('*').eq('id', id).maybeSingle();
+    return data ? this.fromRow(data) : null;
+  }
+
+  async list(queueName: string, statuses: QueueJobStatus[], offset: number, limit: number) {
+    const now = new Date().toISOString();
+    // delayed jobs are stored as waiting with a future run_at
+    const filters = statuses.map(status => {
+      if (status === 'waiting') return `and(status.eq.waiting,run_at.lte.${now})`;
+      if (status === 'delayed') return `and(status.eq.waiting,run_at.gt.${now})`;
+      return `status.eq.${status}`;
+    });
+
+    const { data, error } = await this.supabase
+      .from('queue_jobs')
+      .select('*')
+      .eq('queue_name', queueName)
+      .or(filters.join(','))
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list queue jobs: ${error.message}`);
+    }
+    return (data || []).map(row => this.fromRow(row));
+  }
+
+  async remove(id: string) {
+    await this.supabase.from('queue_jobs').delete().eq('id', id);
+  }
+
+  async claimNext(queueName: string) {
+    const now = new Date().toISOString();
+
+    // Jobs whose worker died hold an expired lock; put them back
+    await this.supabase
+      .from('queue_jobs')
+      .update({ status: 'waiting', locked_until: null })
+      .eq('queue_name', queueName)
+      .eq('status', 'active')
+      .lt('locked_until', now);
+
+    const { data: candidates } = await this.supabase
+      .from('queue_jobs')
+      .select('id, attempts_made')
+      .eq('queue_name', queueName)
+      .eq('status', 'waiting')
+      .lte('run_at', now)
+      .order('priority', { ascending: true })
+      .order('run_at', { ascending: true })
+      .limit(5);
+
+    for (const candidate of candidates || []) {
+      // The status filter makes the claim atomic across processes
+      const { data: claimed } = await this.supabase
+        .from('queue_jobs')
+        .update({
+          status: 'active',
+          attempts_made: candidate.attempts_made + 1,
+          processed_at: now,
+          locked_until: new Date(Date.now() + JOB_LOCK_MS).toISOString()
+        })
+        .eq('id', candidate.id)
+        .eq('status', 'waiting')
+        .select()
+        .maybeSingle();
+
+      if (claimed) return this.fromRow(claimed);
+    }
+    return null;
+  }
+
+  async update(id: string, changes: Partial<LocalJobRecord>) {
+    const row: Record<string, any> = {};
+    if (changes.status !== undefined) {
+      row.status = changes.status;
+      if (changes.status !== 'active') row.locked_until = null;
+    }
+    if (changes.attemptsMade !== undefined) row.attempts_made = changes.attemptsMade;
+    if (changes.runAt !== undefined) row.run_at = new Date(changes.runAt).toISOString();
+    if (changes.progress !== undefined) row.progress = changes.progress;
+    if (changes.result !== undefined) row.result = changes.result;
+    if (changes.error !== undefined) row.error = changes.error;
+    if (changes.finishedAt !== undefined) row.finished_at = changes.finishedAt ? new Date(changes.finishedAt).toISOString() : null;
+
+    const { error } = await this.supabase.from('queue_jobs').update(row).eq('id', id);
+    if (error) {
+      console.error(`[LOCAL QUEUE] Failed to update job ${id}:`, error.message);
+    }
+  }
+
+  async counts(queueName: string) {
+    const now = new Date().toISOString();
+    const count = async (apply: (query: any) => any) => {
+      const { count: total } = await apply(
+        this.supabase.from('queue_jobs').select('id', { count: 'exact', head: true }).eq('queue_name', queueName)
+      );
+      return total || 0;
+    };
+
+    const [waiting, delayed, active, completed, failed] = await Promise.all([
+      count(q => q.eq('status', 'waiting').lte('run_at', now)),
+      count(q => q.eq('status', 'waiting').gt('run_at', now)),
+      count(q => q.eq('status', 'active')),
+      count(q => q.eq('status', 'completed')),
+      count(q => q.eq('status', 'failed'))
+    ]);
+
+    return { waiting, active, completed, failed, delayed };
+  }
+
+  async clean(queueName: string, olderThanMs: number) {
+    await this.supabase
+      .from('queue_jobs')
+      .delete()
+      .eq('queue_name', queueName)
+      .in('status', ['completed', 'failed'])
+      .lt('finished_at', new Date(Date.now() - olderThanMs).toISOString());
+  }
+
+  private toRow(job: LocalJobRecord) {
+    return {
+      id: job.id,
+      queue_name: job.queueName,
+      name: job.name,
+      data: job.data,
+      status: job.status,
+      priority: job.priority,
+      attempts_made: job.attemptsMade,
+      max_attempts: job.maxAttempts,
+      backoff_delay: job.backoffDelay,
+      run_at: new Date(job.runAt).toISOString(),
+      created_at: new Date(job.createdAt).toISOString()
+    };
+  }
+
+  private fromRow(row: any): LocalJobRecord {
+    const time = (value: string | null) => value ? new Date(value).getTime() : null;
+    return {
+      id: row.id,
+      queueName: row.queue_name,
+      name: row.name,
+      data: row.data,
+      status: row.status,
+      priority: row.priority,
+      attemptsMade: row.attempts_made,
+      maxAttempts: row.max_attempts,
+      backoffDelay: row.backoff_delay,
+      runAt: new Date(row.run_at).getTime(),
+      progress: row.progress ?? null,
+      result: row.result ?? null,
+      error: row.error ?? null,
+      createdAt: new Date(row.created_at).getTime(),
+      processedAt: time(row.processed_at),
+      finishedAt: time(row.finished_at)
+    };
+  }
+}
+
+/**
+ * Runs jobs inside this process: priorities, delays, retries with exponential backoff
+ * and idempotent job ids, with the same processors as the BullMQ workers.
+ * Rate limiters are not applied; concurrency is.
+ */
+export class LocalQueueBackend implements QueueBackend {
+  readonly name: 'database' | 'memory';
+  private store: LocalJobStore;
+  private processors: Map<string, { processor: QueueProcessor; options: QueueProcessorOptions; active: number }> = new Map();
+  private paused: Set<string> = new Set();
+  private timers: any[] = [];
+  private inFlight: Set<Promise<void>> = new Set();
+
+  constructor(storeType: 'database' | 'memory') {
+    this.name = storeType;
+    this.store = storeType === 'database' ? new DatabaseJobStore() : new MemoryJobStore();
+  }
+
+  async add(queueName: string, jobName: string, data: any, options: QueueAddOptions = {}): Promise<string> {
+    const now = Date.now();
+    const job = await this.store.insert({
+      id: options.jobId || `${queueName}-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      queueName,
+      name: jobName,
+      data: JSON.parse(JSON.stringify(data ?? {})),
+      status: 'waiting',
+      priority: options.priority ?? 0,
+      attemptsMade: 0,
+      maxAttempts: options.attempts || DEFAULT_JOB_ATTEMPTS,
+      backoffDelay: options.backoffDelay || DEFAULT_BACKOFF_DELAY_MS,
+      runAt: now + Math.max(0, options.delay || 0),
+      progress: null,
+      result: null,
+      error: null,
+      createdAt: now,
+      processedAt: null,
+      finishedAt: null
+    });
+
+    this.schedule(queueName, Math.max(0, job.runAt - now));
+    return job.id;
+  }
+
+  registerProcessor(queueName: string, processor: QueueProcessor, options: QueueProcessorOptions): void {
+    this.processors.set(queueName, { processor, options, active: 0 });
+
+    if (this.name === 'database') {
+      const timer: any = setInterval(() => this.drain(queueName), POLL_INTERVAL_MS);
+      timer.unref?.();
+      this.timers.push(timer);
+    }
+    this.schedule(queueName, 0);
+  }
+
+  hasProcessors(): boolean {
+    return this.processors.size > 0;
+  }
+
+  /**
+   * Process due jobs until every queue is idle or the time budget runs out (for cron-driven draining)
+   */
+  async runUntilIdle(maxMs: number): Promise<number> {
+    const deadline = Date.now() + maxMs;
+    let processed = 0;
+
+    while (Date.now() < deadline) {
+      const started = await Promise.all(Array.from(this.processors.keys()).map(queueName => this.drain(queueName)));
+      const count = started.reduce((sum, n) => sum + n, 0);
+      processed += count;
+
+      if (this.inFlight.size === 0 && count === 0) break;
+      if (this.inFlight.size > 0) {
+        await Promise.race(Array.from(this.inFlight));
+      }
+    }
+    return processed;
+  }
+
+  async getJob(queueName: string, jobId: string): Promise<QueueJobInfo | null> {
+    const job = await this.store.get(jobId);
+    if (!job || job.queueName !== queueName) return null;
+    return this.toJobInfo(job);
+  }
+
+  async listJobs(queueName: string, statuses: QueueJobStatus[], offset: number, limit: number): Promise<QueueJobInfo[]> {
+    const jobs = await this.store.list(queueName, statuses, offset, limit);
+    return jobs.map(job => this.toJobInfo(job));
+  }
+
+  async retryJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    if (!job || job.queueName !== queueName || job.status !== 'failed') return false;
+
+    await this.store.update(jobId, { status: 'waiting', attemptsMade: 0, runAt: Date.now(), error: null, finishedAt: null });
+    this.schedule(queueName, 0);
+    return true;
+  }
+
+  async removeJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    if (!job || job.queueName !== queueName || job.status === 'active') return false;
+
+    await this.store.remove(jobId);
+    return true;
+  }
+
+  async promoteJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    if (!job || job.queueName !== queueName || job.status !== 'waiting' || job.runAt <= Date.now()) return false;
+
+    await this.store.update(jobId, { runAt: Date.now() });
+    this.schedule(queueName, 0);
+    return true;
+  }
+
+  private toJobInfo(job: LocalJobRecord): QueueJobInfo {
+    const iso = (value: number | null) => value ? new Date(value).toISOString() : null;
+    return {
+      id: job.id,
+      queueName: job.queueName,
+      name: job.name,
+      status: job.status === 'waiting' && job.runAt > Date.now() ? 'delayed' : job.status,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.maxAttempts,
+      progress: job.progress,
+      data: job.data,
+      result: job.result,
+      error: job.error,
+      createdAt: iso(job.createdAt),
+      processedAt: iso(job.processedAt),
+      finishedAt: iso(job.finishedAt)
+    };
+  }
+
+  async getCounts(queueName: string): Promise<QueueCounts> {
+    return this.store.counts(queueName);
+  }
+
+  async pause(queueName: string) {
+    this.paused.add(queueName);
+  }
+
+  async resume(queueName: string) {
+    this.paused.delete(queueName);
+    this.schedule(queueName, 0);
+  }
+
+  async clean(queueName: string, olderThanMs: number) {
+    await this.store.clean(queueName, olderThanMs);
+  }
+
+  async close() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.processors.clear();
+    await Promise.all(Array.from(this.inFlight));
+  }
+
+  private schedule(queueName: string, delayMs: number) {
+    if (!this.processors.has(queueName)) return;
+    const timer: any = setTimeout(() => {
+      this.timers = this.timers.filter(t => t !== timer);
+      this.drain(queueName);
+    }, delayMs > 0 ? delayMs + TIMER_SLACK_MS : 0);
+    timer.unref?.();
+    this.timers.push(timer);
+  }
+
+  // Start as many due jobs as the queue's concurrency allows; returns how many were started
+  private async drain(queueName: string): Promise<number> {
+    const entry = this.processors.get(queueName);
+    if (!entry || this.paused.has(queueName)) return 0;
+
+    let started = 0;
+    while (entry.active < entry.options.concurrency) {
+      entry.active++; // reserve the slot before the (async) claim
+      let job: LocalJobRecord | null = null;
+      try {
+        job = await this.store.claimNext(queueName);
+      } catch (error) {
+        console.error(`[LOCAL QUEUE] Failed to claim job on ${queueName}:`, error);
+      }
+
+      if (!job) {
+        entry.active--;
+        break;
+      }
+
+      started++;
+      const run: Promise<void> = this.runJob(entry.processor, job, entry.options).finally(() => {
+        entry.active--;
+        this.inFlight.delete(run);
+        this.schedule(queueName, 0);
+      });
+      this.inFlight.add(run);
+    }
+    return started;
+  }
+
+  private async runJob(processor: QueueProcessor, record: LocalJobRecord, options: QueueProcessorOptions): Promise<void> {
+    const job: QueueJob = {
+      id: record.id,
+      name: record.name,
+      data: record.data,
+      attemptsMade: record.attemptsMade,
+      updateProgress: async (progress) => {
+        record.progress = progress;
+        await this.store.update(record.id, { progress });
+      }
+    };
+
+    try {
+      const result = await processor(job);
+      await this.store.update(record.id, {
+        status: 'completed',
+        result: this.serializable(result),
+        error: null,
+        finishedAt: Date.now()
+      });
+      console.log(`[LOCAL QUEUE:${record.queueName}] Job ${record.id} completed`);
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (record.attemptsMade < record.maxAttempts) {
+        const delay = record.backoffDelay * Math.pow(2, record.attemptsMade - 1);
+        await this.store.update(record.id, { status: 'waiting', runAt: Date.now() + delay, error: message });
+        this.schedule(record.queueName, delay);
+        console.warn(`[LOCAL QUEUE:${record.queueName}] Job ${record.id} failed (attempt ${record.attemptsMade}/${record.maxAttempts}), retrying in ${delay}ms: ${message}`);
+      } else {
+        const finishedAt = Date.now();
+        await this.store.update(record.id, { status: 'failed', error: message, finishedAt });
+        console.error(`[LOCAL QUEUE:${record.queueName}] Job ${record.id} failed: ${message}`);
+
+        if (options.onExhausted) {
+          try {
+            await options.onExhausted(this.toJobInfo({ ...record, status: 'failed', error: message, finishedAt }));
+          } catch (hookError) {
+            console.error(`[LOCAL QUEUE:${record.queueName}] Failed to handle exhausted job ${record.id}:`, hookError);
+          }
+        }
+      }
+    }
+  }
+
+  private serializable(value: any) {
+    try {
+      return value === undefined ? null : JSON.parse(JSON.stringify(value));
+    } catch {
+      return null;
+    }
+  }
+}
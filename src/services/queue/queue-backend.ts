@@ -0,0 +1,76 @@
+// Queue backend abstraction used by AgentQueueManager.
+// BullMQ (Redis) is the production backend; LocalQueueBackend runs jobs in-process,
+// keeping them in memory or in the queue_jobs table, when Redis is disabled.
+
+export type QueueBackendName = 'bullmq' | 'database' | 'memory';
+
+export type QueueJobStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+
+// The part of a job processors rely on (BullMQ's Job satisfies it)
+export interface QueueJob<T = any> {
+  id?: string;
+  name: string;
+  data: T;
+  attemptsMade: number;
+  updateProgress(progress: number | object): Promise<void>;
+}
+
+export type QueueProcessor<T = any> = (job: QueueJob<T>) => Promise<any>;
+
+export interface QueueAddOptions {
+  jobId?: string;          // idempotency key: adding an existing id returns the existing job
+  priority?: number;       // lower runs first (BullMQ semantics)
+  delay?: number;          // ms
+  attempts?: number;
+  backoffDelay?: number;   // base delay (ms) for exponential backoff between attempts
+  repeat?: any;            // BullMQ only
+}
+
+export interface QueueProcessorOptions {
+  concurrency: number;
+  limiter?: { max: number; duration: number };
+  onExhausted?: (job: QueueJobInfo) => Promise<void> | void; // failed its final attempt
+}
+
+export interface QueueJobInfo {
+  id: string;
+  queueName: string;
+  name: string;
+  status: QueueJobStatus | 'unknown';
+  attemptsMade: number;
+  maxAttempts: number;
+  progress: number | object | null;
+  data: any;
+  result: any;
+  error: string | null;
+  createdAt: string | null;
+  processedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface QueueCounts {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+export interface QueueBackend {
+  readonly name: QueueBackendName;
+  add(queueName: string, jobName: string, data: any, options?: QueueAddOptions): Promise<string>;
+  registerProcessor(queueName: string, processor: QueueProcessor, options: QueueProcessorOptions): void;
+  getJob(queueName: string, jobId: string): Promise<QueueJobInfo | null>;
+  listJobs(queueName: string, statuses: QueueJobStatus[], offset: number, limit: number): Promise<QueueJobInfo[]>; // newest first
+  retryJob(queueName: string, jobId: string): Promise<boolean>;   // failed -> waiting, attempts reset
+  removeJob(queueName: string, jobId: string): Promise<boolean>;  // waiting/delayed/failed only
+  promoteJob(queueName: string, jobId: string): Promise<boolean>; // delayed -> waiting
+  getCounts(queueName: string): Promise<QueueCounts>;
+  pause(queueName: string): Promise<void>;
+  resume(queueName: string): Promise<void>;
+  clean(queueName: string, olderThanMs: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_JOB_ATTEMPTS = 3;
+export const DEFAULT_BACKOFF_DELAY_MS = 2000;
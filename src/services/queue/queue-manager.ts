@@ -1,46 +1,35 @@
-import { Queue, Worker, Job, QueueEvents } from 'bullmq';
 import { EnhancedArticleGenerator, EnhancedArticleRequest } from '../content/enhanced-article-generator';
-import IORedis from 'ioredis';
+import { ArticleVersionService } from '../content/article-version-service';
 import { createClient } from '@supabase/supabase-js';
+import { PatchService } from '../agent/patch-service';
+import { VerificationEngine } from '../agent/verification-engine';
+import { QueueBackend, QueueBackendName, QueueJob, QueueAddOptions, QueueJobInfo, QueueJobStatus } from './queue-backend';
+import { BullMQQueueBackend } from './bullmq-backend';
+import { LocalQueueBackend } from './local-queue-backend';
 
 // REDIS USAGE GUARD: Prevent Redis connections to conserve Upstash quota
-// Set ENABLE_REDIS_QUEUES=true in environment to enable Redis-based queues
-// Otherwise, all queue operations will be no-ops to avoid burning through free tier
+// Set ENABLE_REDIS_QUEUES=true in environment to use the BullMQ (Redis) backend.
+// Otherwise jobs run on the local backend: in-process workers with jobs stored in
+// the queue_jobs table (QUEUE_BACKEND=database, default) or in memory (QUEUE_BACKEND=memory)
 const REDIS_ENABLED = process.env.ENABLE_REDIS_QUEUES === 'true';
 
-// Only start workers in dedicated worker processes (not web replicas)
+// Only start BullMQ workers in dedicated worker processes (not web replicas).
+// Local backends always process jobs in the process that uses them.
 const START_WORKERS = process.env.START_WORKERS === 'true';
 
 // Only start QueueEvents in a single leader instance to avoid duplicate listeners
 const START_EVENTS = process.env.START_EVENTS === 'true';
 
-// Single shared Redis connection to avoid connection churn
-let redisConnection: IORedis | null = null;
-function getRedisConnection(): IORedis {
-  if (!REDIS_ENABLED) {
-    throw new Error('Redis queues are disabled. Set ENABLE_REDIS_QUEUES=true to enable.');
-  }
-  if (!redisConnection) {
-    redisConnection = new IORedis(process.env.REDIS_URL || 'redis://localhost:6379', {
-      maxRetriesPerRequest: null, // Required for BullMQ
-      enableReadyCheck: false, // Reduce Redis commands on startup
-      enableOfflineQueue: true,
-      // Connection pool settings to reduce churn
-      lazyConnect: false,
-      keepAlive: 30000,
-      // Retry strategy with exponential backoff
-      retryStrategy(times) {
-        if (times > 10) return null; // Stop retrying after 10 attempts
-        return Math.min(times * 200, 5000); // Max 5s between retries
-      },
-    });
+function resolveBackendName(): QueueBackendName {
+  const configured = process.env.QUEUE_BACKEND;
+  if (configured === 'bullmq' || configured === 'redis') return 'bullmq';
+  if (configured === 'database' || configured === 'memory') return configured;
+  if (REDIS_ENABLED) return 'bullmq';
+  return process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY ? 'database' : 'memory';
+}
 
-    // Log connection events for debugging
-    redisConnection.on('connect', () => console.log('[REDIS] Connected'));
-    redisConnection.on('error', (err) => console.error('[REDIS] Error:', err.message));
-    redisConnection.on('close', () => console.log('[REDIS] Connection closed'));
-  }
-  return redisConnection;
+function createQueueBackend(name: QueueBackendName): QueueBackend {
+  return name === 'bullmq' ? new BullMQQueueBackend() : new LocalQueueBackend(name);
 }
 
 // Supabase client for database operations
@@ -87,99 +76,40 @@ export const QUEUE_NAMES = {
 } as const;
 
 export class AgentQueueManager {
-  private queues: Map<string, Queue> = new Map();
-  private workers: Map<string, Worker> = new Map();
-  private events: Map<string, QueueEvents> = new Map();
+  private backend: QueueBackend;
   private workersStarted = false;
 
-  constructor() {
+  constructor(backendName: QueueBackendName = resolveBackendName()) {
     // Do not eagerly initialize queues/connections in serverless to reduce Redis commands
+    this.backend = createQueueBackend(backendName);
   }
 
-  // Lazily create queues as needed
-  private getOrCreateQueue(queueName: string): Queue {
-    let queue = this.queues.get(queueName);
-    if (!queue) {
-      const connection = getRedisConnection();
-      queue = new Queue(queueName, {
-        connection,
-        defaultJobOptions: {
-          removeOnComplete: 100,
-          removeOnFail: 50,
-          attempts: 3,
-          backoff: { type: 'exponential', delay: 2000 },
-        },
-      });
-      this.queues.set(queueName, queue);
-
-      // Only attach QueueEvents if this is the designated events leader
-      // This prevents duplicate pub/sub listeners that multiply Redis traffic
-      if (START_EVENTS) {
-        console.log(`[QUEUE MANAGER] Starting QueueEvents for ${queueName} (leader mode)`);
-        const events = new QueueEvents(queueName, {
-          connection,
-          // Dramatically reduce polling to conserve Upstash requests
-          blockingTimeout: 300000, // 5 minutes
-        } as any);
-        this.events.set(queueName, events);
-        this.setupEventListeners(queueName, events);
-      }
-    }
-    return queue;
-  }
-
-  private setupEventListeners(queueName: string, events: QueueEvents) {
-    events.on('completed', ({ jobId, returnvalue }) => {
-      console.log(`[QUEUE:${queueName}] Job ${jobId} completed`);
-    });
-
-    events.on('failed', ({ jobId, failedReason }) => {
-      console.error(`[QUEUE:${queueName}] Job ${jobId} failed: ${failedReason}`);
-    });
-
-    events.on('progress', ({ jobId, data }) => {
-      console.log(`[QUEUE:${queueName}] Job ${jobId} progress: ${data}%`);
-    });
+  get backendName(): QueueBackendName {
+    return this.backend.name;
   }
 
   private initializeWorkers() {
-    const connection = getRedisConnection();
-
-    // Shared worker options with aggressive rate limiting
-    const baseWorkerOptions = {
-      connection,
-      // CRITICAL: Rate limit to prevent hammering Upstash
-      limiter: {
-        max: 50,        // Max 50 jobs per duration window
-        duration: 1000, // Per second (50 ops/sec per worker)
-      },
-      // Reduce stalled check frequency to save Redis commands
-      stalledInterval: 60000,    // Check every 60s instead of default 30s
-      maxStalledCount: 1,        // Fail jobs quickly if stalled
-      lockDuration: 60000,       // 60s lock for jobs (renew less often)
-    };
+    // Jobs that fail their final attempt go to the dead-letter store
+    const onExhausted = (job: QueueJobInfo) => this.recordDeadLetter(job);
 
     // Agent Actions Worker - Low concurrency
-    const agentWorker = new Worker(
+    this.backend.registerProcessor(
       QUEUE_NAMES.AGENT_ACTIONS,
-      async (job: Job<AgentJobData>) => {
+      async (job: QueueJob<AgentJobData>) => {
         return await this.processAgentAction(job);
       },
-      {
-        ...baseWorkerOptions,
-        concurrency: 2, // Reduced from 5
-      }
+      { concurrency: 2, onExhausted } // Reduced from 5
     );
 
     // Content Generation Worker - Very low concurrency (AI-heavy)
-    const contentWorker = new Worker(
+    this.backend.registerProcessor(
       QUEUE_NAMES.CONTENT_GENERATION,
-      async (job: Job<AgentJobData>) => {
+      async (job: QueueJob<AgentJobData>) => {
         return await this.processContentGeneration(job);
       },
       {
-        ...baseWorkerOptions,
         concurrency: 1, // Reduced from 3 (AI calls are slow anyway)
+        onExhausted,
         limiter: {
           max: 20,        // Even more conservative for AI jobs
           duration: 1000,
@@ -188,48 +118,33 @@ export class AgentQueueManager {
     );
 
     // Technical SEO Worker
-    const seoWorker = new Worker(
+    this.backend.registerProcessor(
       QUEUE_NAMES.TECHNICAL_SEO,
-      async (job: Job<AgentJobData>) => {
+      async (job: QueueJob<AgentJobData>) => {
         return await this.processTechnicalSEO(job);
       },
-      {
-        ...baseWorkerOptions,
-        concurrency: 2, // Reduced from 5
-      }
+      { concurrency: 2, onExhausted } // Reduced from 5
     );
 
     // CMS Publishing Worker
-    const cmsWorker = new Worker(
+    this.backend.registerProcessor(
       QUEUE_NAMES.CMS_PUBLISHING,
-      async (job: Job<AgentJobData>) => {
+      async (job: QueueJob<AgentJobData>) => {
         return await this.processCMSPublishing(job);
       },
-      {
-        ...baseWorkerOptions,
-        concurrency: 1, // Keep at 1 (external API calls)
-      }
+      { concurrency: 1, onExhausted } // Keep at 1 (external API calls)
     );
 
     // Verification Worker
-    const verificationWorker = new Worker(
+    this.backend.registerProcessor(
       QUEUE_NAMES.VERIFICATION,
-      async (job: Job<AgentJobData>) => {
+      async (job: QueueJob<AgentJobData>) => {
         return await this.processVerification(job);
       },
-      {
-        ...baseWorkerOptions,
-        concurrency: 3, // Reduced from 10
-      }
+      { concurrency: 3, onExhausted } // Reduced from 10
     );
 
-    this.workers.set(QUEUE_NAMES.AGENT_ACTIONS, agentWorker);
-    this.workers.set(QUEUE_NAMES.CONTENT_GENERATION, contentWorker);
-    this.workers.set(QUEUE_NAMES.TECHNICAL_SEO, seoWorker);
-    this.workers.set(QUEUE_NAMES.CMS_PUBLISHING, cmsWorker);
-    this.workers.set(QUEUE_NAMES.VERIFICATION, verificationWorker);
-
-    console.log('[QUEUE MANAGER] Workers initialized with rate limiting');
+    console.log(`[QUEUE MANAGER] Workers initialized on ${this.backend.name} backend`);
   }
 
   // Public method to start workers explicitly (idempotent)
@@ -239,8 +154,8 @@ export class AgentQueueManager {
       return;
     }
 
-    // Only start workers if explicitly enabled
-    if (!START_WORKERS) {
+    // BullMQ workers only run in processes that opt in
+    if (this.backend.name === 'bullmq' && !START_WORKERS) {
       console.log('[QUEUE MANAGER] START_WORKERS not enabled, skipping worker initialization');
       console.log('[QUEUE MANAGER] Set START_WORKERS=true to enable workers');
       return;
@@ -249,9 +164,24 @@ export class AgentQueueManager {
     this.initializeWorkers();
     this.workersStarted = true;
     console.log('[QUEUE MANAGER] Workers started successfully');
-    console.log('[QUEUE MANAGER] Rate limiting: 50 ops/sec per worker');
-    console.log('[QUEUE MANAGER] Stalled checks: every 60s');
-    console.log('[QUEUE MANAGER] QueueEvents:', START_EVENTS ? 'ENABLED (leader mode)' : 'DISABLED');
+    if (this.backend.name === 'bullmq') {
+      console.log('[QUEUE MANAGER] Rate limiting: 50 ops/sec per worker');
+      console.log('[QUEUE MANAGER] Stalled checks: every 60s');
+      console.log('[QUEUE MANAGER] QueueEvents:', START_EVENTS ? 'ENABLED (leader mode)' : 'DISABLED');
+    }
+  }
+
+  // Local backends run jobs in this process, so make sure something consumes what we add
+  private ensureLocalWorkers() {
+    if (this.backend.name !== 'bullmq' && !this.workersStarted) {
+      this.startWorkers();
+    }
+  }
+
+  // Add a raw job to one of the QUEUE_NAMES queues
+  async addJob(queueName: string, jobName: string, data: Record<string, any>, options: QueueAddOptions = {}): Promise<string> {
+    this.ensureLocalWorkers();
+    return this.backend.add(queueName, jobName, data, options);
   }
 
   // Queue a new agent action
@@ -286,22 +216,7 @@ export class AgentQueueManager {
       throw new Error(`Failed to create run record: ${error?.message}`);
     }
 
-    // If Redis is disabled, just return the database record ID
-    // The job will need to be processed synchronously or via polling
-    if (!REDIS_ENABLED) {
-      console.log('[QUEUE MANAGER] Redis disabled, job stored in database only:', idempotencyKey);
-      await this.updateActionStatus(actionId, 'pending'); // Mark as pending for manual processing
-      return idempotencyKey;
-    }
-
-    // Determine which queue to use based on action type
-    let queueName: string = QUEUE_NAMES.AGENT_ACTIONS;
-    if (actionType.includes('content')) queueName = QUEUE_NAMES.CONTENT_GENERATION;
-    else if (actionType.includes('seo') || actionType.includes('technical')) queueName = QUEUE_NAMES.TECHNICAL_SEO;
-    else if (actionType.includes('cms') || actionType.includes('publish')) queueName = QUEUE_NAMES.CMS_PUBLISHING;
-    else if (actionType.includes('verify')) queueName = QUEUE_NAMES.VERIFICATION;
-
-    const queue = this.getOrCreateQueue(queueName);
+    const queueName = this.getQueueNameForAction(actionType);
 
     const jobData: AgentJobData = {
       actionId,
@@ -312,34 +227,30 @@ export class AgentQueueManager {
       payload
     };
 
-    const job = await queue.add(
-      `action-${actionId}`,
-      jobData,
-      {
-        priority: options.priority || 50,
-        delay: options.delay || 0,
-        repeat: options.repeat,
-        jobId: idempotencyKey, // Use for idempotency
-      }
-    );
+    const jobId = await this.addJob(queueName, `action-${actionId}`, jobData, {
+      priority: options.priority || 50,
+      delay: options.delay || 0,
+      repeat: options.repeat,
+      jobId: idempotencyKey, // Use for idempotency
+    });
 
     // Update action status
     await this.updateActionStatus(actionId, 'queued');
 
-    // In serverless (e.g., Vercel), proactively close the queue connection to save Upstash commands
-    const isServerless = !!process.env.VERCEL || !!process.env.AWS_LAMBDA_FUNCTION_NAME;
-    if (isServerless && !this.workersStarted) {
-      try {
-        await queue.close();
-      } catch {}
-      this.queues.delete(queueName);
-    }
+    return jobId;
+  }
 
-    return job.id as string;
+  // Determine which queue to use based on action type
+  getQueueNameForAction(actionType: string): string {
+    if (actionType.includes('content')) return QUEUE_NAMES.CONTENT_GENERATION;
+    if (actionType.includes('seo') || actionType.includes('technical')) return QUEUE_NAMES.TECHNICAL_SEO;
+    if (actionType.includes('cms') || actionType.includes('publish')) return QUEUE_NAMES.CMS_PUBLISHING;
+    if (actionType.includes('verif')) return QUEUE_NAMES.VERIFICATION;
+    return QUEUE_NAMES.AGENT_ACTIONS;
   }
 
   // Process different types of agent actions
-  private async processAgentAction(job: Job<AgentJobData>): Promise<JobResult> {
+  private async processAgentAction(job: QueueJob<AgentJobData>): Promise<JobResult> {
     const startTime = Date.now();
     const { actionId, userToken, runId, policy, payload } = job.data;
 
@@ -382,7 +293,7 @@ export class AgentQueueManager {
       job.updateProgress(50);
       
       // Process the actual action based on type
-      const actionResult = await this.executeAction(payload);
+      const actionResult = await this.executeAction(runId!, userToken, payload);
       
       job.updateProgress(100);
 
@@ -428,7 +339,7 @@ export class AgentQueueManager {
     }
   }
 
-  private async processContentGeneration(job: Job<AgentJobData>): Promise<JobResult> {
+  private async processContentGeneration(job: QueueJob<AgentJobData>): Promise<JobResult> {
     const startTime = Date.now();
     const { userToken, payload } = job.data as any;
     // Support both shapes: payload.{articleId,conversationId} and top-level fields
@@ -528,6 +439,8 @@ export class AgentQueueManager {
       })
       .eq('id', articleId);
 
+    await new ArticleVersionService().tryRecordVersion(articleId, 'generation');
+
     // Best-effort: persist extended fields if available
     try {
       await supabase
@@ -643,37 +556,42 @@ export class AgentQueueManager {
     };
   }
 
-  private async processTechnicalSEO(job: Job<AgentJobData>): Promise<JobResult> {
-    // Implement technical SEO processing logic
-    const startTime = Date.now();
-    // ... technical SEO implementation
-    return {
-      success: true,
-      stats: { executionTimeMs: Date.now() - startTime }
-    };
+  private async processTechnicalSEO(job: QueueJob<AgentJobData>): Promise<JobResult> {
+    // Technical fixes are patch runs: apply with snapshots, same lifecycle as generic actions
+    return await this.processAgentAction(job);
   }
 
-  private async processCMSPublishing(job: Job<AgentJobData>): Promise<JobResult> {
-    // Implement CMS publishing logic
-    const startTime = Date.now();
-    // ... CMS publishing implementation
-    return {
-      success: true,
-      stats: { executionTimeMs: Date.now() - startTime }
-    };
+  private async processCMSPublishing(job: QueueJob<AgentJobData>): Promise<JobResult> {
+    // CMS updates are recorded as cms_update patches so they can be rolled back
+    return await this.processAgentAction(job);
   }
 
-  private async processVerification(job: Job<AgentJobData>): Promise<JobResult> {
-    // Implement verification logic
+  private async processVerification(job: QueueJob<AgentJobData>): Promise<JobResult> {
     const startTime = Date.now();
-    // ... verification implementation
+    const { actionId, runId } = job.data.payload;
+
+    // Failed verification rolls the run back when the action's policy requires it
+    const verification = await VerificationEngine.verifyAction(actionId, runId);
+
     return {
-      success: true,
+      success: verification.overallStatus === 'verified',
+      data: verification,
       stats: { executionTimeMs: Date.now() - startTime }
     };
   }
 
-  private async executeAction(payload: Record<string, any>) {
+  private async executeAction(runId: string, userToken: string, payload: Record<string, any>) {
+    // Patches in the payload are applied with before/after snapshots so the run can be rolled back
+    if (Array.isArray(payload.patches) && payload.patches.length > 0) {
+      const { applied, pagesProcessed } = await PatchService.applyPatches(runId, userToken, payload.patches);
+      return {
+        message: `Applied ${applied.length} patches`,
+        patchIds: applied.map(patch => patch.id),
+        pagesProcessed,
+        patchesApplied: applied.length
+      };
+    }
+
     // Placeholder for actual action execution
     // This would call the appropriate service based on action type
     return {
@@ -707,69 +625,100 @@ export class AgentQueueManager {
   }
 
   // Utility methods for queue management
-  async getQueueStats(queueName: string) {
-    const queue = this.getOrCreateQueue(queueName);
+  async getJobStatus(jobId: string, queueName?: string): Promise<QueueJobInfo | null> {
+    const queueNames = queueName ? [queueName] : Object.values(QUEUE_NAMES);
+    for (const name of queueNames) {
+      const job = await this.backend.getJob(name, jobId);
+      if (job) return job;
+    }
+    return null;
+  }
 
-    const [waiting, active, completed, failed, delayed] = await Promise.all([
-      queue.getWaiting(),
-      queue.getActive(), 
-      queue.getCompleted(),
-      queue.getFailed(),
-      queue.getDelayed()
-    ]);
+  async listJobs(queueName: string, statuses: QueueJobStatus[], offset = 0, limit = 50): Promise<QueueJobInfo[]> {
+    return this.backend.listJobs(queueName, statuses, offset, limit);
+  }
 
-    return {
-      waiting: waiting.length,
-      active: active.length,
-      completed: completed.length,
-      failed: failed.length,
-      delayed: delayed.length
-    };
+  // Put a failed job back on its queue with a fresh set of attempts
+  async retryJob(queueName: string, jobId: string): Promise<boolean> {
+    const retried = await this.backend.retryJob(queueName, jobId);
+    if (retried) {
+      const job = await this.backend.getJob(queueName, jobId);
+      if (job?.data?.actionId) await this.updateActionStatus(job.data.actionId, 'queued');
+      if (job?.data?.runId) await this.updateRunStatus(job.data.runId, 'queued');
+    }
+    return retried;
+  }
+
+  // Remove a job that has not started; agent actions behind it are marked cancelled
+  async cancelJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = await this.backend.getJob(queueName, jobId);
+    if (!job || job.status === 'active' || job.status === 'completed') return false;
+
+    const removed = await this.backend.removeJob(queueName, jobId);
+    if (removed && job.status !== 'failed') {
+      if (job.data?.actionId) await this.updateActionStatus(job.data.actionId, 'cancelled');
+      if (job.data?.runId) {
+        await this.updateRunStatus(job.data.runId, 'cancelled', { completed_at: new Date().toISOString() });
+      }
+    }
+    return removed;
+  }
+
+  // Run a delayed job now
+  async promoteJob(queueName: string, jobId: string): Promise<boolean> {
+    return this.backend.promoteJob(queueName, jobId);
+  }
+
+  private async recordDeadLetter(job: QueueJobInfo) {
+    const { error } = await supabase
+      .from('queue_dead_letters')
+      .insert({
+        queue_name: job.queueName,
+        job_id: job.id,
+        job_name: job.name,
+        data: job.data,
+        error: job.error,
+        attempts_made: job.attemptsMade,
+        failed_at: job.finishedAt || new Date().toISOString()
+      });
+
+    if (error) {
+      console.error(`[QUEUE MANAGER] Failed to dead-letter job ${job.id}:`, error.message);
+    } else {
+      console.warn(`[QUEUE MANAGER] Job ${job.id} on ${job.queueName} moved to dead-letter queue after ${job.attemptsMade} attempts`);
+    }
+  }
+
+  async getQueueStats(queueName: string) {
+    return this.backend.getCounts(queueName);
   }
 
   async pauseQueue(queueName: string) {
-    const queue = this.queues.get(queueName);
-    if (queue) await queue.pause();
+    await this.backend.pause(queueName);
   }
 
   async resumeQueue(queueName: string) {
-    const queue = this.queues.get(queueName);
-    if (queue) await queue.resume();
+    await this.backend.resume(queueName);
   }
 
   async cleanQueue(queueName: string, olderThanMs: number = 24 * 60 * 60 * 1000) {
-    const queue = this.queues.get(queueName);
-    if (!queue) return;
+    await this.backend.clean(queueName, olderThanMs);
+  }
 
-    await queue.clean(olderThanMs, 100, 'completed');
-    await queue.clean(olderThanMs, 50, 'failed');
+  /**
+   * Work through due jobs on the local backend (serverless processes may stop before
+   * in-process jobs finish; a cron call picks up whatever is left in queue_jobs)
+   */
+  async drainLocalQueues(maxMs: number): Promise<number> {
+    if (!(this.backend instanceof LocalQueueBackend)) return 0;
+    this.ensureLocalWorkers();
+    return this.backend.runUntilIdle(maxMs);
   }
 
   // Graceful shutdown
   async shutdown() {
     console.log('[QUEUE MANAGER] Shutting down gracefully...');
-    
-    // Close all workers first
-    await Promise.all(
-      Array.from(this.workers.values()).map(worker => worker.close())
-    );
-
-    // Close event listeners
-    await Promise.all(
-      Array.from(this.events.values()).map(events => events.close())
-    );
-
-    // Close queues
-    await Promise.all(
-      Array.from(this.queues.values()).map(queue => queue.close())
-    );
-
-    // Close Redis connection
-    if (redisConnection) {
-      await redisConnection.quit();
-      redisConnection = null;
-    }
-    
+    await this.backend.close();
     console.log('[QUEUE MANAGER] Shutdown complete');
   }
 }
@@ -0,0 +1,219 @@
+import { createClient } from '@supabase/supabase-js';
+import { queueManager, QUEUE_NAMES } from './queue-manager';
+import { QueueCounts, QueueJobInfo } from './queue-backend';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Active jobs running longer than this are reported as stuck
+const STUCK_AFTER_MS = 10 * 60 * 1000;
+
+// Finished jobs sampled per queue for throughput/failure/duration metrics.
+// BullMQ only retains the last 100 completed / 50 failed jobs, so busy queues are approximated.
+const METRICS_SAMPLE_SIZE = 200;
+
+export type DeadLetterStatus = 'dead' | 'requeued' | 'discarded';
+
+export interface QueueMetrics {
+  queueName: string;
+  counts: QueueCounts;
+  depth: number;                 // waiting + delayed
+  windowMs: number;
+  completedInWindow: number;
+  failedInWindow: number;
+  throughputPerHour: number;
+  failureRate: number;           // 0-1 over finished jobs in the window
+  p95DurationMs: number | null;
+  stuck: QueueJobInfo[];
+  deadLetters: number;
+}
+
+export interface DeadLetter {
+  id: string;
+  queue_name: string;
+  job_id: string;
+  job_name: string;
+  data: any;
+  error: string | null;
+  attempts_made: number;
+  status: DeadLetterStatus;
+  requeued_job_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  failed_at: string;
+}
+
+export class QueueMonitor {
+  static readonly QUEUE_NAMES: string[] = Object.values(QUEUE_NAMES);
+
+  static isKnownQueue(queueName: string | null | undefined): queueName is string {
+    return !!queueName && this.QUEUE_NAMES.includes(queueName);
+  }
+
+  /**
+   * Depth, throughput, failure rate, p95 duration and stuck jobs for every queue
+   */
+  static async getAllMetrics(windowMs: number = 60 * 60 * 1000): Promise<QueueMetrics[]> {
+    return Promise.all(this.QUEUE_NAMES.map(queueName => this.getQueueMetrics(queueName, windowMs)));
+  }
+
+  static async getQueueMetrics(queueName: string, windowMs: number = 60 * 60 * 1000): Promise<QueueMetrics> {
+    const since = Date.now() - windowMs;
+
+    const [counts, finished, active, deadLetters] = await Promise.all([
+      queueManager.getQueueStats(queueName),
+      queueManager.listJobs(queueName, ['completed', 'failed'], 0, METRICS_SAMPLE_SIZE),
+      queueManager.listJobs(queueName, ['active'], 0, 100),
+      this.countDeadLetters(queueName)
+    ]);
+
+    const recent = finished.filter(job => job.finishedAt && new Date(job.finishedAt).getTime() >= since);
+    const completedInWindow = recent.filter(job => job.status === 'completed').length;
+    const failedInWindow = recent.filter(job => job.status === 'failed').length;
+
+    const durations = recent
+      .filter(job => job.processedAt && job.finishedAt)
+      .map(job => new Date(job.finishedAt!).getTime() - new Date(job.processedAt!).getTime())
+      .filter(duration => duration >= 0);
+
+    const stuckBefore = Date.now() - STUCK_AFTER_MS;
+    const stuck = active.filter(job => job.processedAt && new Date(job.processedAt).getTime() < stuckBefore);
+
+    return {
+      queueName,
+      counts,
+      depth: counts.waiting + counts.delayed,
+      windowMs,
+      completedInWindow,
+      failedInWindow,
+      throughputPerHour: Math.round((completedInWindow / (windowMs / (60 * 60 * 1000))) * 10) / 10,
+      failureRate: recent.length > 0 ? Math.round((failedInWindow / recent.length) * 1000) / 1000 : 0,
+      p95DurationMs: this.percentile(durations, 0.95),
+      stuck,
+      deadLetters
+    };
+  }
+
+  /**
+   * Retry a failed job; a matching dead letter is marked requeued
+   */
+  static async retryJob(queueName: string, jobId: string, resolvedBy?: string): Promise<boolean> {
+    const retried = await queueManager.retryJob(queueName, jobId);
+    if (retried) {
+      await supabase
+        .from('queue_dead_letters')
+        .update({
+          status: 'requeued',
+          requeued_job_id: jobId,
+          resolved_by: resolvedBy || null,
+          resolved_at: new Date().toISOString()
+        })
+        .eq('queue_name', queueName)
+        .eq('job_id', jobId)
+        .eq('status', 'dead');
+    }
+    return retried;
+  }
+
+  static async listDeadLetters(options: {
+    queueName?: string;
+    status?: DeadLetterStatus;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ deadLetters: DeadLetter[]; total: number }> {
+    const limit = options.limit || 50;
+    const offset = options.offset || 0;
+
+    let query = supabase
+      .from('queue_dead_letters')
+      .select('*', { count: 'exact' })
+      .eq('status', options.status || 'dead')
+      .order('failed_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (options.queueName) {
+      query = query.eq('queue_name', options.queueName);
+    }
+
+    const { data, count, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list dead letters: ${error.message}`);
+    }
+    return { deadLetters: (data || []) as DeadLetter[], total: count || 0 };
+  }
+
+  /**
+   * Put a dead-lettered job back on its queue as a new job with fresh attempts
+   */
+  static async requeueDeadLetter(id: string, resolvedBy?: string): Promise<{ success: boolean; jobId?: string; error?: string }> {
+    const deadLetter = await this.getDeadLetter(id);
+    if (!deadLetter) return { success: false, error: 'Dead letter not found' };
+    if (deadLetter.status !== 'dead') return { success: false, error: `Dead letter already ${deadLetter.status}` };
+
+    const jobId = await queueManager.addJob(deadLetter.queue_name, deadLetter.job_name, deadLetter.data || {}, {
+      jobId: `${deadLetter.job_id}-requeued-${Date.now()}`
+    });
+
+    if (deadLetter.data?.actionId) {
+      await supabase
+        .from('agent_actions')
+        .update({ status: 'queued', updated_at: new Date().toISOString() })
+        .eq('id', deadLetter.data.actionId);
+    }
+
+    await this.resolveDeadLetter(id, 'requeued', resolvedBy, jobId);
+    console.log(`[QUEUE MONITOR] Requeued dead letter ${id} on ${deadLetter.queue_name} as job ${jobId}`);
+    return { success: true, jobId };
+  }
+
+  static async discardDeadLetter(id: string, resolvedBy?: string): Promise<{ success: boolean; error?: string }> {
+    const deadLetter = await this.getDeadLetter(id);
+    if (!deadLetter) return { success: false, error: 'Dead letter not found' };
+    if (deadLetter.status !== 'dead') return { success: false, error: `Dead letter already ${deadLetter.status}` };
+
+    await this.resolveDeadLetter(id, 'discarded', resolvedBy);
+    return { success: true };
+  }
+
+  private static async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    const { data } = await supabase
+      .from('queue_dead_letters')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    return data as DeadLetter | null;
+  }
+
+  private static async resolveDeadLetter(id: string, status: DeadLetterStatus, resolvedBy?: string, requeuedJobId?: string) {
+    const { error } = await supabase
+      .from('queue_dead_letters')
+      .update({
+        status,
+        requeued_job_id: requeuedJobId || null,
+        resolved_by: resolvedBy || null,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update dead letter: ${error.message}`);
+    }
+  }
+
+  private static async countDeadLetters(queueName: string): Promise<number> {
+    const { count } = await supabase
+      .from('queue_dead_letters')
+      .select('id', { count: 'exact', head: true })
+      .eq('queue_name', queueName)
+      .eq('status', 'dead');
+    return count || 0;
+  }
+
+  private static percentile(values: number[], p: number): number | null {
+    if (values.length === 0) return null;
+    const sorted = values.slice().sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  }
+}
@@ -16,7 +16,7 @@
  */
 
 import OpenAI from 'openai';
-import { scrapeUrlsWithFirecrawl } from '@/services/crawl/firecrawl-client';
+import { CrawlService } from '@/services/crawl/crawl-service';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY
@@ -36,6 +36,7 @@ export interface MasterDiscoveryInput {
   sources?: {
     seed_urls?: string[];
     raw_owner_context?: string;
+    existing_content?: Array<{ title: string; url?: string | null }>; // Posts already on the site's CMS
   };
   controls?: {
     max_clusters?: number;
@@ -199,6 +200,15 @@ function buildDiscoveryPrompt(
     prompt += `**OWNER CONTEXT:**\n${sources.raw_owner_context}\n\n`;
   }
 
+  if (sources?.existing_content && sources.existing_content.length > 0) {
+    prompt += `**EXISTING PUBLISHED CONTENT:**\n`;
+    prompt += `These posts already exist on the site. Do not propose articles that target the same topic or primary keyword (cannibalization); plan around them instead.\n`;
+    sources.existing_content.slice(0, 200).forEach(post => {
+      prompt += `- ${post.title}${post.url ? ` (${post.url})` : ''}\n`;
+    });
+    prompt += `\n`;
+  }
+
   if (scrapedContent.length > 0) {
     prompt += `**SCRAPED CONTENT:**\n`;
     scrapedContent.forEach((content, idx) => {
@@ -378,7 +388,7 @@ export async function runMasterDiscovery(
   if (input.sources?.seed_urls && input.sources.seed_urls.length > 0) {
     try {
       console.log('[MASTER DISCOVERY] Scraping seed URLs:', input.sources.seed_urls);
-      const scrapeResults = await scrapeUrlsWithFirecrawl(input.sources.seed_urls);
+      const scrapeResults = await CrawlService.scrapeUrls(input.sources.seed_urls);
 
       scrapedContent = scrapeResults.map(result => result.markdown || result.html || '');
       scrapeLog.pages_fetched = scrapeResults.length;
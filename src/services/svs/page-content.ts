@@ -0,0 +1,89 @@
+/**
+ * Page content for SVS analysis: fetches a page and extracts its readable text
+ */
+
+/**
+ * Fetch content from a webpage
+ */
+export async function fetchPageContent(url: string): Promise<{
+  content?: string;
+  html?: string;
+  error?: string;
+}> {
+  try {
+    console.log(`[SVS FETCH] Fetching content from: ${url}`);
+    
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 15000); // 15 second timeout
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'SEOAgent-SVS-Analyzer/1.0 (+https://seoagent.com/semantic-analysis)',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate',
+        'DNT': '1',
+        'Connection': 'keep-alive'
+      },
+      signal: controller.signal
+    });
+
+    clearTimeout(timeout);
+
+    if (!response.ok) {
+      return { error: `Failed to fetch page: HTTP ${response.status}` };
+    }
+
+    const html = await response.text();
+    
+    // Extract text content from HTML (removing scripts, styles, etc.)
+    const content = extractTextContent(html);
+    
+    if (!content || content.trim().length < 100) {
+      return { error: 'Page content is too short or empty for meaningful analysis' };
+    }
+
+    return { content, html };
+
+  } catch (error) {
+    console.error('[SVS FETCH] Error fetching content:', error);
+    if (error instanceof Error && error.name === 'AbortError') {
+      return { error: 'Request timeout - page took too long to load' };
+    }
+    return { error: 'Failed to fetch page content' };
+  }
+}
+
+/**
+ * Extract clean text content from HTML
+ */
+export function extractTextContent(html: string): string {
+  try {
+    // Remove script and style elements
+    let cleaned = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
+    cleaned = cleaned.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '');
+    cleaned = cleaned.replace(/<noscript[^>]*>[\s\S]*?<\/noscript>/gi, '');
+    
+    // Remove HTML comments
+    cleaned = cleaned.replace(/<!--[\s\S]*?-->/g, '');
+    
+    // Convert common HTML entities
+    cleaned = cleaned.replace(/&nbsp;/g, ' ');
+    cleaned = cleaned.replace(/&amp;/g, '&');
+    cleaned = cleaned.replace(/&lt;/g, '<');
+    cleaned = cleaned.replace(/&gt;/g, '>');
+    cleaned = cleaned.replace(/&quot;/g, '"');
+    cleaned = cleaned.replace(/&#39;/g, "'");
+    
+    // Remove all HTML tags but preserve text content
+    cleaned = cleaned.replace(/<[^>]+>/g, ' ');
+    
+    // Clean up whitespace
+    cleaned = cleaned.replace(/\s+/g, ' ').trim();
+    
+    return cleaned;
+  } catch (error) {
+    console.error('[SVS] Text extraction failed:', error);
+    return '';
+  }
+}
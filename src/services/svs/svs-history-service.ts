@@ -0,0 +1,584 @@
+/**
+ * SVS History Service
+ *
+ * Turns the stored SVS analyses into history:
+ * - Per-page time series of the overall and component scores, marking where the page's content changed
+ * - Site aggregates from the latest analysis of each page: average, components, distribution, weekly
+ *   trend, biggest movers and the industry benchmark
+ * - Competitor pages analyzed with the same SemanticAnalyzer, compared component by component
+ * - Score drops after a content change, raised as 'svs_score_drop' regressions (action item + alert)
+ *   and resolved once the page scores back
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { SemanticAnalyzer, type SVSAnalysisResult } from '@/services/svs/semantic-analyzer';
+import { fetchPageContent } from '@/services/svs/page-content';
+import { SEORegressionMonitor } from '@/services/technical-seo/seo-regression-monitor';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Smaller changes between analyses of unchanged text are analyzer noise
+const SCORE_DROP_THRESHOLD = 5;
+const DEFAULT_HISTORY_DAYS = 180;
+const MAX_SITE_ANALYSES = 2000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const ANALYSIS_COLUMNS = `
+  id,
+  website_token,
+  site_url,
+  page_url,
+  overall_svs_score,
+  entity_coverage_score,
+  semantic_variety_score,
+  qa_utility_score,
+  citation_evidence_score,
+  clarity_simplicity_score,
+  topic_depth_score,
+  structure_schema_score,
+  content_hash,
+  competitor_of,
+  analyzed_at
+`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SVSComponent = keyof SVSAnalysisResult['component_scores'];
+export type SVSComponentScores = SVSAnalysisResult['component_scores'];
+
+export const SVS_COMPONENT_MAX: Record<SVSComponent, number> = {
+  entity_coverage: 20,
+  semantic_variety: 15,
+  qa_utility: 15,
+  citation_evidence: 15,
+  clarity_simplicity: 10,
+  topic_depth: 15,
+  structure_schema: 10
+};
+
+const SVS_COMPONENTS = Object.keys(SVS_COMPONENT_MAX) as SVSComponent[];
+
+export interface SVSHistoryPoint {
+  analysis_id: number;
+  analyzed_at: string;
+  score: number;
+  component_scores: SVSComponentScores;
+  change: number | null; // Against the previous analysis of the page
+  content_changed: boolean | null; // null when either analysis predates content hashing
+}
+
+export interface SVSCompetitorSeries {
+  competitor_url: string;
+  points: SVSHistoryPoint[];
+  latest: SVSHistoryPoint;
+}
+
+export interface SVSComparison {
+  page_url: string;
+  competitor_url: string;
+  your_score: number;
+  competitor_score: number;
+  difference: number;
+  components: Array<{ component: SVSComponent; yours: number; competitor: number; max: number; gap: number }>;
+}
+
+export interface SVSPageHistory {
+  page_url: string;
+  points: SVSHistoryPoint[];
+  competitors: SVSCompetitorSeries[];
+  comparisons: SVSComparison[];
+}
+
+export interface SVSPageSummary {
+  page_url: string;
+  latest_score: number;
+  previous_score: number | null;
+  change: number | null;
+  analyses: number;
+  last_analyzed_at: string;
+}
+
+export interface SVSSiteSummary {
+  site_url: string;
+  pages_analyzed: number;
+  average_score: number;
+  component_averages: SVSComponentScores;
+  score_distribution: { excellent: number; good: number; average: number; poor: number };
+  trend: Array<{ week_start: string; average_score: number; pages: number }>;
+  pages: SVSPageSummary[];
+  top_gainers: SVSPageSummary[];
+  top_decliners: SVSPageSummary[];
+  benchmark: {
+    industry: string;
+    content_type: string;
+    industry_average: number;
+    your_average: number;
+    difference: number;
+    component_averages: SVSComponentScores;
+  } | null;
+}
+
+export interface SVSScoreChange {
+  previous_score: number;
+  score: number;
+  change: number;
+  content_changed: boolean | null;
+  alert: { raised: boolean; notified: boolean } | null;
+  recovered: boolean;
+}
+
+export type CompetitorAnalysisResult =
+  | { success: true; comparison: SVSComparison; analysis_id: number }
+  | { success: false; reason: 'fetch_failed' | 'no_page_analysis'; error: string };
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class SVSHistoryService {
+  private monitor = new SEORegressionMonitor();
+
+  static hashContent(content: string): string {
+    return createHash('sha256').update(content.replace(/\s+/g, ' ').trim()).digest('hex');
+  }
+
+  /**
+   * Compare a new analysis with the page's previous one; a drop after a content change raises an alert
+   */
+  async trackScoreChange(analysisId: number): Promise<SVSScoreChange | null> {
+    const { data: current } = await supabase
+      .from('svs_analyses')
+      .select(`${ANALYSIS_COLUMNS}, user_token`)
+      .eq('id', analysisId)
+      .maybeSingle();
+
+    if (!current || current.competitor_of) return null;
+
+    let previousQuery = supabase
+      .from('svs_analyses')
+      .select(ANALYSIS_COLUMNS)
+      .eq('user_token', current.user_token)
+      .is('competitor_of', null)
+      .neq('id', current.id)
+      .lte('analyzed_at', current.analyzed_at)
+      .order('analyzed_at', { ascending: false })
+      .limit(1);
+    previousQuery = current.page_url
+      ? previousQuery.eq('page_url', current.page_url)
+      : previousQuery.is('page_url', null).eq('site_url', current.site_url);
+
+    const { data: previousRows } = await previousQuery;
+    const previous = previousRows?.[0];
+    if (!previous) return null;
+
+    const pageUrl = current.page_url || current.site_url;
+    const change = current.overall_svs_score - previous.overall_svs_score;
+    const contentChanged = current.content_hash && previous.content_hash
+      ? current.content_hash !== previous.content_hash
+      : null;
+
+    const result: SVSScoreChange = {
+      previous_score: previous.overall_svs_score,
+      score: current.overall_svs_score,
+      change,
+      content_changed: contentChanged,
+      alert: null,
+      recovered: false
+    };
+
+    const websiteToken = current.website_token || await this.findWebsiteToken(current.user_token, current.site_url);
+    if (!websiteToken) return result;
+
+    if (contentChanged && -change >= SCORE_DROP_THRESHOLD) {
+      const regression = await this.monitor.reportRegression(websiteToken, pageUrl, 'svs_score_drop', {
+        description: this.describeDrop(previous, current),
+        oldValue: String(previous.overall_svs_score),
+        newValue: String(current.overall_svs_score),
+        severity: -change >= 15 ? 'high' : 'medium'
+      }, 'svs_history');
+
+      if (regression) {
+        console.warn(`[SVS HISTORY] Score of ${pageUrl} dropped ${previous.overall_svs_score} → ${current.overall_svs_score} after a content change`);
+        result.alert = { raised: regression.isNew, notified: regression.notified };
+      }
+      return result;
+    }
+
+    // Recovered once the page scores back to within the threshold of its score before the drop
+    const open = await this.monitor.getOpenRegression(websiteToken, pageUrl, 'svs_score_drop');
+    if (open && current.overall_svs_score >= Number(open.old_value) - SCORE_DROP_THRESHOLD) {
+      result.recovered = await this.monitor.resolveRegression(websiteToken, pageUrl, 'svs_score_drop');
+    }
+
+    return result;
+  }
+
+  /**
+   * Score history of a page and of the competitor pages compared with it
+   */
+  async getPageHistory(userToken: string, pageUrl: string, days: number = DEFAULT_HISTORY_DAYS): Promise<SVSPageHistory> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    // Site-wide analyses have no page_url; their series is keyed by site_url
+    const [pageRows, siteRows, competitorRows] = await Promise.all([
+      supabase
+        .from('svs_analyses')
+        .select(ANALYSIS_COLUMNS)
+        .eq('user_token', userToken)
+        .eq('page_url', pageUrl)
+        .is('competitor_of', null)
+        .gte('analyzed_at', since)
+        .order('analyzed_at', { ascending: true }),
+      supabase
+        .from('svs_analyses')
+        .select(ANALYSIS_COLUMNS)
+        .eq('user_token', userToken)
+        .is('page_url', null)
+        .eq('site_url', pageUrl)
+        .gte('analyzed_at', since)
+        .order('analyzed_at', { ascending: true }),
+      supabase
+        .from('svs_analyses')
+        .select(ANALYSIS_COLUMNS)
+        .eq('user_token', userToken)
+        .eq('competitor_of', pageUrl)
+        .gte('analyzed_at', since)
+        .order('analyzed_at', { ascending: true })
+    ]);
+
+    const ownRows = (pageRows.data || []).concat(siteRows.data || [])
+      .sort((a, b) => new Date(a.analyzed_at).getTime() - new Date(b.analyzed_at).getTime());
+    const points = this.toSeries(ownRows);
+
+    const byCompetitor = new Map<string, any[]>();
+    for (const row of competitorRows.data || []) {
+      byCompetitor.set(row.page_url, (byCompetitor.get(row.page_url) || []).concat(row));
+    }
+
+    const competitors: SVSCompetitorSeries[] = Array.from(byCompetitor.entries()).map(([competitorUrl, rows]) => {
+      const series = this.toSeries(rows);
+      return { competitor_url: competitorUrl, points: series, latest: series[series.length - 1] };
+    });
+
+    const latest = points[points.length - 1];
+    const comparisons = latest
+      ? competitors.map(competitor => this.compare(pageUrl, latest, competitor.competitor_url, competitor.latest))
+      : [];
+
+    return { page_url: pageUrl, points, competitors, comparisons };
+  }
+
+  /**
+   * Site aggregates from the latest analysis of each page
+   */
+  async getSiteSummary(
+    userToken: string,
+    siteUrl: string,
+    options: { days?: number; industry?: string; contentType?: string } = {}
+  ): Promise<SVSSiteSummary> {
+    const days = options.days || DEFAULT_HISTORY_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: rows, error } = await supabase
+      .from('svs_analyses')
+      .select(ANALYSIS_COLUMNS)
+      .eq('user_token', userToken)
+      .eq('site_url', siteUrl)
+      .is('competitor_of', null)
+      .gte('analyzed_at', since)
+      .order('analyzed_at', { ascending: true })
+      .limit(MAX_SITE_ANALYSES);
+
+    if (error) throw new Error(`Failed to load SVS analyses: ${error.message}`);
+
+    const byPage = new Map<string, any[]>();
+    for (const row of rows || []) {
+      const key = row.page_url || row.site_url;
+      byPage.set(key, (byPage.get(key) || []).concat(row));
+    }
+
+    const pages: SVSPageSummary[] = Array.from(byPage.entries()).map(([pageUrl, pageRows]) => {
+      const latest = pageRows[pageRows.length - 1];
+      const previous = pageRows.length > 1 ? pageRows[pageRows.length - 2] : null;
+      return {
+        page_url: pageUrl,
+        latest_score: latest.overall_svs_score,
+        previous_score: previous ? previous.overall_svs_score : null,
+        change: previous ? latest.overall_svs_score - previous.overall_svs_score : null,
+        analyses: pageRows.length,
+        last_analyzed_at: latest.analyzed_at
+      };
+    }).sort((a, b) => a.latest_score - b.latest_score);
+
+    const latestRows = Array.from(byPage.values()).map(pageRows => pageRows[pageRows.length - 1]);
+    const averageScore = this.average(latestRows.map(row => row.overall_svs_score));
+    const componentAverages = this.componentAverages(latestRows);
+    const changed = pages.filter(page => page.change !== null && page.change !== 0);
+
+    return {
+      site_url: siteUrl,
+      pages_analyzed: pages.length,
+      average_score: averageScore,
+      component_averages: componentAverages,
+      score_distribution: {
+        excellent: pages.filter(page => page.latest_score >= 85).length,
+        good: pages.filter(page => page.latest_score >= 70 && page.latest_score < 85).length,
+        average: pages.filter(page => page.latest_score >= 55 && page.latest_score < 70).length,
+        poor: pages.filter(page => page.latest_score < 55).length
+      },
+      trend: this.weeklyTrend(rows || []),
+      pages,
+      top_gainers: changed.filter(page => page.change! > 0).sort((a, b) => b.change! - a.change!).slice(0, 5),
+      top_decliners: changed.filter(page => page.change! < 0).sort((a, b) => a.change! - b.change!).slice(0, 5),
+      benchmark: options.industry && pages.length > 0
+        ? await this.benchmarkFor(options.industry, options.contentType || 'general', averageScore)
+        : null
+    };
+  }
+
+  /**
+   * Analyze a competitor page with the same analyzer and compare it with the latest analysis of the page
+   */
+  async analyzeCompetitor(params: {
+    userToken: string;
+    websiteToken?: string;
+    siteUrl: string;
+    pageUrl: string;
+    competitorUrl: string;
+    targetTopic?: string;
+    industry?: string;
+  }): Promise<CompetitorAnalysisResult> {
+    const own = await this.latestAnalysis(params.userToken, params.pageUrl);
+    if (!own) {
+      return { success: false, reason: 'no_page_analysis', error: 'Analyze the page itself before comparing it with competitors' };
+    }
+
+    const { content, html, error: fetchError } = await fetchPageContent(params.competitorUrl);
+    if (fetchError || !content) {
+      return { success: false, reason: 'fetch_failed', error: fetchError || 'Failed to fetch competitor page' };
+    }
+
+    const analyzer = new SemanticAnalyzer(process.env.OPENAI_API_KEY!);
+    const result = await analyzer.analyzeSVS({
+      content,
+      url: params.competitorUrl,
+      html,
+      target_topic: params.targetTopic,
+      industry: params.industry
+    });
+
+    const { data: saved, error } = await supabase
+      .from('svs_analyses')
+      .insert({
+        user_token: params.userToken,
+        website_token: params.websiteToken || own.website_token,
+        site_url: params.siteUrl,
+        page_url: params.competitorUrl,
+        competitor_of: params.pageUrl,
+        overall_svs_score: result.overall_svs_score,
+        entity_coverage_score: result.component_scores.entity_coverage,
+        semantic_variety_score: result.component_scores.semantic_variety,
+        qa_utility_score: result.component_scores.qa_utility,
+        citation_evidence_score: result.component_scores.citation_evidence,
+        clarity_simplicity_score: result.component_scores.clarity_simplicity,
+        topic_depth_score: result.component_scores.topic_depth,
+        structure_schema_score: result.component_scores.structure_schema,
+        analysis_data: result.analysis_data,
+        analysis_type: 'page',
+        content_length: result.content_length,
+        processing_time_ms: result.processing_time_ms,
+        content_hash: SVSHistoryService.hashContent(content)
+      })
+      .select(ANALYSIS_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to save competitor analysis: ${error.message}`);
+
+    console.log(`[SVS HISTORY] Competitor ${params.competitorUrl} scored ${result.overall_svs_score} against ${params.pageUrl} (${own.overall_svs_score})`);
+
+    return {
+      success: true,
+      analysis_id: saved.id,
+      comparison: this.compare(params.pageUrl, this.toPoint(own, null), params.competitorUrl, this.toPoint(saved, null))
+    };
+  }
+
+  private async latestAnalysis(userToken: string, pageUrl: string): Promise<any | null> {
+    const latest = (query: any) => query
+      .eq('user_token', userToken)
+      .is('competitor_of', null)
+      .order('analyzed_at', { ascending: false })
+      .limit(1);
+
+    const { data: pageRows } = await latest(supabase.from('svs_analyses').select(ANALYSIS_COLUMNS).eq('page_url', pageUrl));
+    if (pageRows?.[0]) return pageRows[0];
+
+    // Site-wide analysis of the URL
+    const { data: siteRows } = await latest(supabase.from('svs_analyses').select(ANALYSIS_COLUMNS).is('page_url', null).eq('site_url', pageUrl));
+    return siteRows?.[0] || null;
+  }
+
+  private compare(pageUrl: string, own: SVSHistoryPoint, competitorUrl: string, competitor: SVSHistoryPoint): SVSComparison {
+    return {
+      page_url: pageUrl,
+      competitor_url: competitorUrl,
+      your_score: own.score,
+      competitor_score: competitor.score,
+      difference: own.score - competitor.score,
+      // Largest gaps first: where the competitor is furthest ahead
+      components: SVS_COMPONENTS.map(component => ({
+        component,
+        yours: own.component_scores[component],
+        competitor: competitor.component_scores[component],
+        max: SVS_COMPONENT_MAX[component],
+        gap: competitor.component_scores[component] - own.component_scores[component]
+      })).sort((a, b) => b.gap - a.gap)
+    };
+  }
+
+  private toSeries(rows: any[]): SVSHistoryPoint[] {
+    return rows.map((row, index) => this.toPoint(row, index > 0 ? rows[index - 1] : null));
+  }
+
+  private toPoint(row: any, previous: any | null): SVSHistoryPoint {
+    return {
+      analysis_id: row.id,
+      analyzed_at: row.analyzed_at,
+      score: row.overall_svs_score,
+      component_scores: this.componentScores(row),
+      change: previous ? row.overall_svs_score - previous.overall_svs_score : null,
+      content_changed: previous && row.content_hash && previous.content_hash
+        ? row.content_hash !== previous.content_hash
+        : null
+    };
+  }
+
+  private componentScores(row: any): SVSComponentScores {
+    return {
+      entity_coverage: row.entity_coverage_score,
+      semantic_variety: row.semantic_variety_score,
+      qa_utility: row.qa_utility_score,
+      citation_evidence: row.citation_evidence_score,
+      clarity_simplicity: row.clarity_simplicity_score,
+      topic_depth: row.topic_depth_score,
+      structure_schema: row.structure_schema_score
+    };
+  }
+
+  private componentAverages(rows: any[]): SVSComponentScores {
+    const scores = rows.map(row => this.componentScores(row));
+    const averages = {} as SVSComponentScores;
+    for (const component of SVS_COMPONENTS) {
+      averages[component] = this.average(scores.map(score => score[component]), 1);
+    }
+    return averages;
+  }
+
+  /**
+   * Site average per week, each page counted with its latest score as of the end of that week
+   */
+  private weeklyTrend(rows: any[]): SVSSiteSummary['trend'] {
+    if (rows.length === 0) return [];
+
+    const firstWeek = this.weekStart(new Date(rows[0].analyzed_at));
+    const trend: SVSSiteSummary['trend'] = [];
+    const latestByPage = new Map<string, number>();
+    let index = 0;
+
+    for (let weekStart = firstWeek; weekStart <= Date.now(); weekStart += WEEK_MS) {
+      const weekEnd = weekStart + WEEK_MS;
+      while (index < rows.length && new Date(rows[index].analyzed_at).getTime() < weekEnd) {
+        latestByPage.set(rows[index].page_url || rows[index].site_url, rows[index].overall_svs_score);
+        index++;
+      }
+
+      const scores = Array.from(latestByPage.values());
+      trend.push({
+        week_start: new Date(weekStart).toISOString().slice(0, 10),
+        average_score: this.average(scores),
+        pages: scores.length
+      });
+    }
+
+    return trend;
+  }
+
+  private async benchmarkFor(industry: string, contentType: string, yourAverage: number): Promise<SVSSiteSummary['benchmark']> {
+    const { data: benchmarks } = await supabase
+      .from('svs_benchmarks')
+      .select('*')
+      .eq('industry', industry)
+      .in('content_type', Array.from(new Set([contentType, 'general'])));
+
+    const benchmark = (benchmarks || []).find(row => row.content_type === contentType)
+      || (benchmarks || []).find(row => row.content_type === 'general');
+    if (!benchmark) return null;
+
+    const industryAverage = Number(benchmark.avg_overall_score);
+    return {
+      industry,
+      content_type: benchmark.content_type,
+      industry_average: industryAverage,
+      your_average: yourAverage,
+      difference: Math.round((yourAverage - industryAverage) * 10) / 10,
+      component_averages: {
+        entity_coverage: Number(benchmark.avg_entity_coverage),
+        semantic_variety: Number(benchmark.avg_semantic_variety),
+        qa_utility: Number(benchmark.avg_qa_utility),
+        citation_evidence: Number(benchmark.avg_citation_evidence),
+        clarity_simplicity: Number(benchmark.avg_clarity_simplicity),
+        topic_depth: Number(benchmark.avg_topic_depth),
+        structure_schema: Number(benchmark.avg_structure_schema)
+      }
+    };
+  }
+
+  private describeDrop(previous: any, current: any): string {
+    const before = this.componentScores(previous);
+    const after = this.componentScores(current);
+    const drops = SVS_COMPONENTS
+      .filter(component => after[component] < before[component])
+      .sort((a, b) => (after[a] - before[a]) - (after[b] - before[b]))
+      .map(component => `${component.replace(/_/g, ' ')} ${before[component]} → ${after[component]}`);
+
+    return `SVS fell from ${previous.overall_svs_score} to ${current.overall_svs_score} after the page's content changed`
+      + (drops.length > 0 ? ` (${drops.join(', ')}).` : '.');
+  }
+
+  // Analyses store the site URL the user entered; match it to one of their websites by hostname
+  private async findWebsiteToken(userToken: string, siteUrl: string): Promise<string | null> {
+    const host = (value: string) => {
+      const cleaned = value.replace(/^sc-domain:/, '');
+      try {
+        return new URL(/^https?:\/\//.test(cleaned) ? cleaned : `https://${cleaned}`).hostname.toLowerCase().replace(/^www\./, '');
+      } catch {
+        return cleaned.toLowerCase();
+      }
+    };
+
+    const { data: websites } = await supabase
+      .from('websites')
+      .select('website_token, domain')
+      .eq('user_token', userToken);
+
+    const target = host(siteUrl);
+    return (websites || []).find(website => website.domain && host(website.domain) === target)?.website_token || null;
+  }
+
+  private weekStart(date: Date): number {
+    const day = (date.getUTCDay() + 6) % 7; // Monday = 0
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day);
+  }
+
+  private average(values: number[], decimals = 0): number {
+    if (values.length === 0) return 0;
+    const factor = Math.pow(10, decimals);
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * factor) / factor;
+  }
+}
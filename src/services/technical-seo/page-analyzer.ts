@@ -0,0 +1,389 @@
+/**
+ * Page Analyzer
+ *
+ * Fetches a single page and runs on-page technical SEO checks against its HTML.
+ * Findings use the same category/severity vocabulary as ActionItemService so they
+ * can be turned into action items without translation.
+ */
+
+import * as cheerio from 'cheerio';
+import type { ActionItem } from '@/lib/ActionItemService';
+
+export const SEOAGENT_USER_AGENT = 'SEOAgent-Bot/1.0 (+https://seoagent.com/bot)';
+
+export interface TechnicalFinding {
+  type: string;
+  category: ActionItem['issue_category'];
+  severity: ActionItem['severity'];
+  title: string;
+  description: string;
+  recommendation: string;
+  url: string;
+  metadata?: any;
+}
+
+export interface FetchedPage {
+  url: string;
+  finalUrl: string;
+  status: number;
+  headers: Record<string, string>;
+  html: string;
+  loadTimeMs: number;
+  redirected: boolean;
+}
+
+export interface PageSignals {
+  title: string | null;
+  metaDescription: string | null;
+  metaRobots: string | null;
+  xRobotsTag: string | null;
+  canonical: string | null;
+  h1: string[];
+  h2Count: number;
+  wordCount: number;
+  lang: string | null;
+  viewport: boolean;
+  hreflang: Array<{ lang: string; href: string }>;
+  images: { total: number; missingAlt: number };
+  internalLinks: string[];
+  externalLinks: number;
+  jsonLd: any[];
+  jsonLdErrors: string[];
+  openGraph: Record<string, string>;
+}
+
+export interface PageAnalysis {
+  url: string;
+  status: number;
+  loadTimeMs: number;
+  contentSizeBytes: number;
+  signals: PageSignals;
+  findings: TechnicalFinding[];
+}
+
+/**
+ * Fetch a page with a timeout, following redirects
+ */
+export async function fetchPage(url: string, timeoutMs = 15000): Promise<FetchedPage> {
+  const startedAt = Date.now();
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: { 'User-Agent': SEOAGENT_USER_AGENT },
+    redirect: 'follow',
+    cache: 'no-store',
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+
+  const html = await response.text();
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => { headers[key] = value; });
+
+  return {
+    url,
+    finalUrl: response.url || url,
+    status: response.status,
+    headers,
+    html,
+    loadTimeMs: Date.now() - startedAt,
+    redirected: response.redirected
+  };
+}
+
+/**
+ * Extract the SEO-relevant signals from raw HTML
+ */
+export function extractSignals(html: string, pageUrl: string, headers: Record<string, string> = {}): PageSignals {
+  const $ = cheerio.load(html);
+  const origin = safeOrigin(pageUrl);
+
+  const internalLinks = new Set<string>();
+  let externalLinks = 0;
+  $('a[href]').each((_, el) => {
+    const href = ($(el).attr('href') || '').trim();
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) return;
+    try {
+      const resolved = new URL(href, pageUrl);
+      resolved.hash = '';
+      if (resolved.origin === origin) {
+        internalLinks.add(resolved.toString());
+      } else {
+        externalLinks++;
+      }
+    } catch {
+      // Ignore malformed hrefs
+    }
+  });
+
+  const jsonLd: any[] = [];
+  const jsonLdErrors: string[] = [];
+  $('script[type="application/ld+json"]').each((index, el) => {
+    const raw = $(el).contents().text().trim();
+    if (!raw) return;
+    try {
+      const parsed = JSON.parse(raw);
+      const items = Array.isArray(parsed) ? parsed : parsed['@graph'] ? parsed['@graph'] : [parsed];
+      jsonLd.push(...items);
+    } catch (error) {
+      jsonLdErrors.push(`JSON-LD block ${index + 1} is not valid JSON`);
+    }
+  });
+
+  const openGraph: Record<string, string> = {};
+  $('meta[property^="og:"]').each((_, el) => {
+    const property = $(el).attr('property');
+    const content = $(el).attr('content');
+    if (property && content) openGraph[property] = content;
+  });
+
+  const images = $('img');
+  let missingAlt = 0;
+  images.each((_, el) => {
+    const alt = $(el).attr('alt');
+    if (alt === undefined || !alt.trim()) missingAlt++;
+  });
+
+  const bodyText = $('body').clone().find('script, style, noscript').remove().end().text();
+  const wordCount = bodyText.split(/\s+/).filter(Boolean).length;
+
+  const canonicalHref = $('link[rel="canonical"]').attr('href');
+
+  return {
+    title: $('title').first().text().trim() || null,
+    metaDescription: $('meta[name="description"]').attr('content')?.trim() || null,
+    metaRobots: $('meta[name="robots"]').attr('content')?.toLowerCase() || null,
+    xRobotsTag: headers['x-robots-tag']?.toLowerCase() || null,
+    canonical: canonicalHref ? resolveUrl(canonicalHref, pageUrl) : null,
+    h1: $('h1').map((_, el) => $(el).text().trim()).get().filter(Boolean),
+    h2Count: $('h2').length,
+    wordCount,
+    lang: $('html').attr('lang') || null,
+    viewport: $('meta[name="viewport"]').length > 0,
+    hreflang: $('link[rel="alternate"][hreflang]').map((_, el) => ({
+      lang: $(el).attr('hreflang') || '',
+      href: resolveUrl($(el).attr('href') || '', pageUrl)
+    })).get(),
+    images: { total: images.length, missingAlt },
+    internalLinks: Array.from(internalLinks),
+    externalLinks,
+    jsonLd,
+    jsonLdErrors,
+    openGraph
+  };
+}
+
+/**
+ * Run on-page checks for an already fetched page
+ */
+export function analyzeFetchedPage(page: FetchedPage): PageAnalysis {
+  const signals = extractSignals(page.html, page.finalUrl, page.headers);
+  const findings: TechnicalFinding[] = [];
+  const url = page.finalUrl;
+
+  const add = (finding: Omit<TechnicalFinding, 'url'>) => findings.push({ ...finding, url });
+
+  if (page.status >= 400) {
+    add({
+      type: page.status >= 500 ? 'page_server_error' : 'page_client_error',
+      category: 'indexing',
+      severity: page.status >= 500 ? 'critical' : 'high',
+      title: `Page Returns HTTP ${page.status}`,
+      description: `The page responded with status ${page.status}.`,
+      recommendation: 'Restore the page or redirect it (301) to the closest relevant URL, and remove internal links pointing to it.'
+    });
+  }
+
+  if (!signals.title) {
+    add({
+      type: 'meta_title_missing',
+      category: 'meta_tags',
+      severity: 'high',
+      title: 'Missing Page Title',
+      description: 'The page has no <title> element.',
+      recommendation: 'Add a descriptive, unique title of 50-60 characters containing the primary keyword.'
+    });
+  } else if (signals.title.length > 60 || signals.title.length < 15) {
+    add({
+      type: signals.title.length > 60 ? 'meta_title_long' : 'meta_title_short',
+      category: 'meta_tags',
+      severity: 'low',
+      title: signals.title.length > 60 ? 'Page Title Too Long' : 'Page Title Too Short',
+      description: `Title is ${signals.title.length} characters (recommended: 15-60).`,
+      recommendation: 'Rewrite the title to 50-60 characters so it is not truncated in search results.',
+      metadata: { title: signals.title }
+    });
+  }
+
+  if (!signals.metaDescription) {
+    add({
+      type: 'meta_description_missing',
+      category: 'meta_tags',
+      severity: 'medium',
+      title: 'Missing Meta Description',
+      description: 'The page has no meta description.',
+      recommendation: 'Add a compelling meta description of 120-160 characters to improve click-through rate.'
+    });
+  } else if (signals.metaDescription.length > 160) {
+    add({
+      type: 'meta_description_long',
+      category: 'meta_tags',
+      severity: 'low',
+      title: 'Meta Description Too Long',
+      description: `Meta description is ${signals.metaDescription.length} characters (recommended: 120-160).`,
+      recommendation: 'Shorten the meta description so it is not truncated in search results.'
+    });
+  }
+
+  if (signals.h1.length === 0) {
+    add({
+      type: 'h1_missing',
+      category: 'meta_tags',
+      severity: 'medium',
+      title: 'Missing H1 Heading',
+      description: 'The page has no H1 heading.',
+      recommendation: 'Add a single H1 that describes the main topic of the page.'
+    });
+  } else if (signals.h1.length > 1) {
+    add({
+      type: 'h1_multiple',
+      category: 'meta_tags',
+      severity: 'low',
+      title: 'Multiple H1 Headings',
+      description: `The page has ${signals.h1.length} H1 headings.`,
+      recommendation: 'Keep one H1 per page and demote the others to H2.',
+      metadata: { h1: signals.h1 }
+    });
+  }
+
+  const robotsDirectives = `${signals.metaRobots || ''},${signals.xRobotsTag || ''}`;
+  if (robotsDirectives.includes('noindex')) {
+    add({
+      type: 'page_noindex',
+      category: 'indexing',
+      severity: 'high',
+      title: 'Page Is Marked noindex',
+      description: `The page is excluded from search via ${signals.metaRobots?.includes('noindex') ? 'meta robots' : 'the X-Robots-Tag header'}.`,
+      recommendation: 'Remove the noindex directive if this page should appear in search results.',
+      metadata: { metaRobots: signals.metaRobots, xRobotsTag: signals.xRobotsTag }
+    });
+  }
+
+  if (!signals.canonical) {
+    add({
+      type: 'canonical_missing',
+      category: 'indexing',
+      severity: 'low',
+      title: 'Missing Canonical Tag',
+      description: 'The page does not declare a canonical URL.',
+      recommendation: 'Add a self-referencing <link rel="canonical"> to consolidate duplicate URL variants.'
+    });
+  } else if (safeOrigin(signals.canonical) !== safeOrigin(url)) {
+    add({
+      type: 'canonical_cross_domain',
+      category: 'indexing',
+      severity: 'high',
+      title: 'Canonical Points to Another Domain',
+      description: `The canonical URL (${signals.canonical}) is on a different host.`,
+      recommendation: 'Point the canonical at this site unless the content is intentionally syndicated.',
+      metadata: { canonical: signals.canonical }
+    });
+  }
+
+  if (!signals.viewport) {
+    add({
+      type: 'viewport_missing',
+      category: 'mobile',
+      severity: 'medium',
+      title: 'Missing Viewport Meta Tag',
+      description: 'The page has no viewport meta tag, so mobile browsers render it at desktop width.',
+      recommendation: 'Add <meta name="viewport" content="width=device-width, initial-scale=1">.'
+    });
+  }
+
+  if (signals.images.missingAlt > 0) {
+    add({
+      type: 'images_missing_alt',
+      category: 'alt_tags',
+      severity: signals.images.missingAlt > 5 ? 'medium' : 'low',
+      title: 'Images Missing Alt Text',
+      description: `${signals.images.missingAlt} of ${signals.images.total} images have no alt text.`,
+      recommendation: 'Add descriptive alt text to every meaningful image.',
+      metadata: { missingAlt: signals.images.missingAlt, totalImages: signals.images.total }
+    });
+  }
+
+  if (signals.jsonLdErrors.length > 0) {
+    add({
+      type: 'schema_invalid_json',
+      category: 'schema',
+      severity: 'medium',
+      title: 'Invalid JSON-LD',
+      description: signals.jsonLdErrors.join('; '),
+      recommendation: 'Fix the JSON syntax of the structured data block so search engines can parse it.'
+    });
+  } else if (signals.jsonLd.length === 0) {
+    add({
+      type: 'schema_missing',
+      category: 'schema',
+      severity: 'low',
+      title: 'No Structured Data',
+      description: 'The page has no JSON-LD structured data.',
+      recommendation: 'Add schema markup appropriate for the page (Organization, WebSite, Article, Product, etc.).'
+    });
+  }
+
+  if (!url.startsWith('https://')) {
+    add({
+      type: 'page_not_https',
+      category: 'security',
+      severity: 'high',
+      title: 'Page Served Over HTTP',
+      description: 'The page is not served over HTTPS.',
+      recommendation: 'Serve all pages over HTTPS and redirect HTTP to HTTPS with a 301.'
+    });
+  }
+
+  if (page.loadTimeMs > 3000) {
+    add({
+      type: 'slow_server_response',
+      category: 'performance',
+      severity: page.loadTimeMs > 6000 ? 'high' : 'medium',
+      title: 'Slow Page Response',
+      description: `The HTML document took ${page.loadTimeMs}ms to download.`,
+      recommendation: 'Enable caching/CDN and reduce server processing time; aim for under 800ms TTFB.',
+      metadata: { loadTimeMs: page.loadTimeMs }
+    });
+  }
+
+  return {
+    url,
+    status: page.status,
+    loadTimeMs: page.loadTimeMs,
+    contentSizeBytes: page.html.length,
+    signals,
+    findings
+  };
+}
+
+/**
+ * Fetch and analyze a single URL
+ */
+export async function analyzePage(url: string): Promise<PageAnalysis> {
+  const page = await fetchPage(url);
+  return analyzeFetchedPage(page);
+}
+
+export function resolveUrl(href: string, base: string): string {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+}
+
+export function safeOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '';
+  }
+}
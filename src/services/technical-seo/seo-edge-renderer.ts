@@ -0,0 +1,445 @@
+/**
+ * SEO Edge Renderer
+ *
+ * Server-side delivery of the fixes seoagent.js makes in the browser, for crawlers that don't run
+ * JavaScript. The origin page is fetched and the site's stored decisions are written into its HTML:
+ * - Meta title and description (meta_tags) and image alt text (alt_tags), the rows get-meta-tags
+ *   and get-alt-tags serve
+ * - JSON-LD of published SEOAgent articles and hreflang links between their translations
+ * - Canonical and Open Graph / Twitter tags, by the same rules as seoagent.js
+ * Only sites switched to edge delivery are rendered; every other page passes through unchanged.
+ * Pages are only fetched for the site's own domain, from public addresses, and redirects are
+ * returned to the caller rather than followed.
+ */
+
+import * as cheerio from 'cheerio';
+import { createClient } from '@supabase/supabase-js';
+import { ArticleTranslationService, type HreflangAlternate } from '@/services/content/article-translation-service';
+import { DomainUtils } from '@/lib/utils/DomainUtils';
+import { assertPublicUrl } from '@/lib/utils/public-address';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Requests carrying this header are served by the origin as-is; the renderer sends it so a
+// middleware deployment on the customer's site doesn't route the renderer's own fetch back to it
+export const SEO_RENDER_BYPASS_HEADER = 'x-seoagent-render';
+
+// Written into every rendered page; seoagent.js skips the fixes the page already carries
+const RENDER_MARKER = '<meta name="seoagent-render" content="edge">';
+
+const ORIGIN_TIMEOUT_MS = 8000;
+const MAX_ALT_LOOKUPS = 200;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SEODelivery = 'client' | 'edge';
+
+export interface SEODeliverySettings {
+  delivery: SEODelivery;
+  originUrl: string | null; // Where pages are fetched from when the renderer sits in front of the site
+}
+
+export interface RenderDecisions {
+  title: string | null;
+  description: string | null;
+  altTexts: Record<string, string>; // Absolute image URL → alt text
+  schemas: any[];
+  alternates: HreflangAlternate[];
+}
+
+export interface RenderResult {
+  status: number;
+  html: string;
+  headers: Record<string, string>;
+  applied: string[]; // Which fixes were written, e.g. ['meta', 'alt', 'canonical']; empty when passed through
+}
+
+export type RenderOutcome =
+  | { success: true; result: RenderResult }
+  | { success: false; reason: 'not_found' | 'url_not_allowed'; error: string };
+
+export type DeliveryUpdateResult =
+  | { success: true; settings: SEODeliverySettings }
+  | { success: false; reason: 'not_found' | 'invalid_input'; error: string };
+
+// Origin headers that no longer describe the rewritten body
+const DROPPED_HEADERS = ['content-length', 'content-encoding', 'etag', 'last-modified', 'transfer-encoding', 'connection'];
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class SEOEdgeRenderer {
+  private translations = new ArticleTranslationService();
+
+  /**
+   * Delivery settings of a site, or null when the site isn't the user's
+   */
+  async getSettings(userToken: string, websiteToken: string): Promise<SEODeliverySettings | null> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select('seo_delivery, seo_edge_origin')
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    return website ? this.toSettings(website) : null;
+  }
+
+  async updateSettings(
+    userToken: string,
+    websiteToken: string,
+    update: { delivery?: string; originUrl?: string | null }
+  ): Promise<DeliveryUpdateResult> {
+    if (update.delivery !== undefined && update.delivery !== 'client' && update.delivery !== 'edge') {
+      return { success: false, reason: 'invalid_input', error: 'delivery must be "client" or "edge"' };
+    }
+
+    let originUrl: string | null | undefined = update.originUrl;
+    if (originUrl) {
+      try {
+        const parsed = new URL(originUrl);
+        if (!/^https?:$/.test(parsed.protocol)) throw new Error('protocol');
+        originUrl = parsed.origin;
+      } catch {
+        return { success: false, reason: 'invalid_input', error: 'originUrl must be an http(s) URL' };
+      }
+
+      try {
+        await assertPublicUrl(originUrl);
+      } catch {
+        return { success: false, reason: 'invalid_input', error: 'originUrl must resolve to a public address' };
+      }
+    }
+
+    const { data: website, error } = await supabase
+      .from('websites')
+      .update({
+        ...(update.delivery !== undefined ? { seo_delivery: update.delivery } : {}),
+        ...(originUrl !== undefined ? { seo_edge_origin: originUrl || null } : {})
+      })
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .select('seo_delivery, seo_edge_origin')
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update SEO delivery: ${error.message}`);
+    if (!website) return { success: false, reason: 'not_found', error: 'Website not found or access denied' };
+
+    console.log(`[SEO EDGE RENDERER] Delivery for ${websiteToken} set to ${website.seo_delivery}`);
+    return { success: true, settings: this.toSettings(website) };
+  }
+
+  /**
+   * Fetch a page from its origin and, for sites on edge delivery, write the stored fixes into it
+   */
+  async render(websiteToken: string, pageUrl: string, userAgent?: string): Promise<RenderOutcome> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select('id, website_token, domain, enable_meta_tags, enable_image_tags, seo_delivery, seo_edge_origin')
+      .eq('website_token', websiteToken)
+      .maybeSingle();
+
+    if (!website) return { success: false, reason: 'not_found', error: 'Website not found' };
+
+    // The website token is public (it's in every page's snippet), so it only unlocks the site's own pages
+    if (!DomainUtils.isOnDomain(pageUrl, website.domain)) {
+      return { success: false, reason: 'url_not_allowed', error: 'url is not on the website\'s domain' };
+    }
+
+    const originUrl = this.originUrlFor(pageUrl, website.seo_edge_origin);
+    try {
+      await assertPublicUrl(originUrl);
+    } catch (error) {
+      console.warn(`[SEO EDGE RENDERER] Refused to fetch ${originUrl} for ${websiteToken}:`, error instanceof Error ? error.message : error);
+      return { success: false, reason: 'url_not_allowed', error: 'The page\'s origin is not a public address' };
+    }
+
+    const response = await fetch(originUrl, {
+      headers: {
+        'User-Agent': userAgent || 'SEOAgent-Renderer/1.0 (+https://seoagent.com/bot)',
+        Accept: 'text/html',
+        [SEO_RENDER_BYPASS_HEADER]: 'bypass'
+      },
+      // Redirects go back to the caller as they are, so a redirect can't lead the fetch off the site
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(ORIGIN_TIMEOUT_MS)
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!DROPPED_HEADERS.includes(key)) headers[key] = value;
+    });
+    const html = await response.text();
+
+    const isHtml = (response.headers.get('content-type') || '').includes('text/html');
+    if (website.seo_delivery !== 'edge' || !isHtml || response.status !== 200) {
+      return { success: true, result: { status: response.status, html, headers, applied: [] } };
+    }
+
+    const decisions = await this.getDecisions(website, pageUrl, this.imageUrls(html, pageUrl));
+    const rendered = this.applyDecisions(html, pageUrl, decisions);
+    return { success: true, result: { status: response.status, html: rendered.html, headers, applied: rendered.applied } };
+  }
+
+  /**
+   * Stored decisions for a page: meta and alt text where the site has them enabled,
+   * plus schema and translations when the page is a published SEOAgent article
+   */
+  async getDecisions(
+    website: { id: number; website_token: string; enable_meta_tags?: boolean; enable_image_tags?: boolean },
+    pageUrl: string,
+    imageUrls: string[]
+  ): Promise<RenderDecisions> {
+    const candidates = this.urlCandidates(pageUrl);
+
+    const [metaResult, altResult, articleResult, alternates] = await Promise.all([
+      website.enable_meta_tags === false
+        ? Promise.resolve({ data: [] as any[] })
+        : supabase
+            .from('meta_tags')
+            .select('page_url, meta_title, meta_description')
+            .eq('website_token', website.website_token)
+            .in('page_url', candidates),
+      website.enable_image_tags === false || imageUrls.length === 0
+        ? Promise.resolve({ data: [] as any[] })
+        : supabase
+            .from('alt_tags')
+            .select('image_url, alt_text')
+            .eq('website_token', website.website_token)
+            .in('image_url', imageUrls.slice(0, MAX_ALT_LOOKUPS)),
+      supabase
+        .from('article_queue')
+        .select('schema_json')
+        .eq('website_id', website.id)
+        .eq('status', 'published')
+        .in('public_url', candidates)
+        .limit(1),
+      this.translations.findAlternatesByUrl(website.website_token, pageUrl)
+    ]);
+
+    // Prefer the row stored for this exact URL over its trailing-slash or www variants
+    const metaRows = (metaResult.data || []) as any[];
+    const meta = metaRows.find(row => row.page_url === pageUrl) || metaRows[0];
+
+    const altTexts: Record<string, string> = {};
+    ((altResult.data || []) as any[]).forEach(row => {
+      if (row.alt_text) altTexts[row.image_url] = row.alt_text;
+    });
+
+    const schemaJson = (articleResult.data || [])[0]?.schema_json;
+    return {
+      title: meta?.meta_title || null,
+      description: meta?.meta_description || null,
+      altTexts,
+      schemas: this.parseSchemas(schemaJson),
+      alternates
+    };
+  }
+
+  /**
+   * Write decisions into a page. Existing canonical, hreflang, Open Graph and schema of the
+   * same type are left alone, as seoagent.js does.
+   */
+  applyDecisions(html: string, pageUrl: string, decisions: RenderDecisions): { html: string; applied: string[] } {
+    const $ = cheerio.load(html);
+    const head = $('head');
+    if (head.length === 0) return { html, applied: [] };
+
+    const applied: string[] = [];
+    const addMeta = (attribute: 'name' | 'property', key: string, content: string) => {
+      head.append($('<meta>').attr(attribute, key).attr('content', content).attr('data-seoagent', 'edge'));
+    };
+
+    // Meta title and description
+    if (decisions.title || decisions.description) {
+      if (decisions.title) {
+        if ($('title').length) $('title').first().text(decisions.title);
+        else head.prepend($('<title>').text(decisions.title));
+        const metaTitle = $('meta[name="title"]');
+        if (metaTitle.length) metaTitle.attr('content', decisions.title);
+        else addMeta('name', 'title', decisions.title);
+      }
+      if (decisions.description) {
+        const metaDescription = $('meta[name="description"]');
+        if (metaDescription.length) metaDescription.attr('content', decisions.description);
+        else addMeta('name', 'description', decisions.description);
+      }
+      applied.push('meta');
+    }
+
+    // Image alt text
+    let altCount = 0;
+    $('img[src]').each((_, element) => {
+      const src = this.absoluteUrl($(element).attr('src') || '', pageUrl);
+      const alt = src ? decisions.altTexts[src] : undefined;
+      if (alt) {
+        $(element).attr('alt', alt);
+        altCount++;
+      }
+    });
+    if (altCount > 0) applied.push('alt');
+
+    // Canonical for URLs with tracking parameters, index files or mixed case
+    const canonical = this.canonicalFor(pageUrl);
+    if (canonical && $('link[rel="canonical"]').length === 0) {
+      head.append($('<link>').attr('rel', 'canonical').attr('href', canonical).attr('data-seoagent', 'edge'));
+      applied.push('canonical');
+    }
+
+    // hreflang between translations of an article
+    if (decisions.alternates.length > 0 && $('link[rel="alternate"][hreflang]').length === 0) {
+      decisions.alternates.forEach(alternate => {
+        head.append($('<link>')
+          .attr('rel', 'alternate')
+          .attr('hreflang', alternate.hreflang)
+          .attr('href', alternate.href)
+          .attr('data-seoagent', 'edge'));
+      });
+      applied.push('hreflang');
+    }
+
+    // JSON-LD of types the page doesn't already declare
+    const existingTypes = new Set<string>();
+    $('script[type="application/ld+json"]').each((_, element) => {
+      this.parseSchemas($(element).text()).forEach(schema => {
+        if (schema?.['@type']) existingTypes.add(String(schema['@type']));
+      });
+    });
+    const newSchemas = decisions.schemas.filter(schema => schema?.['@type'] && !existingTypes.has(String(schema['@type'])));
+    newSchemas.forEach(schema => {
+      head.append($('<script>').attr('type', 'application/ld+json').attr('data-seoagent', 'edge').text(JSON.stringify(schema)));
+    });
+    if (newSchemas.length > 0) applied.push('schema');
+
+    // Open Graph and Twitter card from the final title, description and first image
+    const ogAdded = this.addOpenGraph($, pageUrl, addMeta);
+    if (ogAdded) applied.push('open_graph');
+
+    head.prepend(RENDER_MARKER);
+    return { html: $.html(), applied };
+  }
+
+  private addOpenGraph($: ReturnType<typeof cheerio.load>, pageUrl: string, addMeta: (attribute: 'name' | 'property', key: string, content: string) => void): boolean {
+    const title = $('title').first().text().trim();
+    const description = $('meta[name="description"]').attr('content') || '';
+    const firstImage = $('img[src]').toArray()
+      .map(element => this.absoluteUrl($(element).attr('src') || '', pageUrl))
+      .find(src => src && !src.toLowerCase().endsWith('.svg'));
+
+    const missing = (property: string) => $(`meta[property="${property}"]`).length === 0;
+    let added = false;
+    const add = (property: string, content: string | undefined) => {
+      if (content && missing(property)) {
+        addMeta('property', property, content);
+        added = true;
+      }
+    };
+
+    add('og:title', title);
+    add('og:description', description);
+    add('og:url', pageUrl);
+    add('og:type', 'website');
+    add('og:image', firstImage);
+    if ($('meta[name="twitter:card"]').length === 0) {
+      addMeta('name', 'twitter:card', 'summary_large_image');
+      added = true;
+    }
+    return added;
+  }
+
+  /**
+   * Clean canonical URL, when the page URL needs one (same rules as seoagent.js)
+   */
+  private canonicalFor(pageUrl: string): string | null {
+    let url: URL;
+    try {
+      url = new URL(pageUrl);
+    } catch {
+      return null;
+    }
+
+    const needsCanonical = !!(
+      url.search ||
+      url.hash ||
+      url.pathname.endsWith('/index.html') ||
+      url.pathname.includes('//') ||
+      url.pathname !== url.pathname.toLowerCase() ||
+      /utm_|fbclid|gclid|ref=|source=/.test(pageUrl)
+    );
+    if (!needsCanonical) return null;
+
+    let path = url.pathname.replace(/\/index\.html$/, '/');
+    if (path !== '/' && path.endsWith('/')) path = path.slice(0, -1);
+    return `${url.protocol}//${url.hostname}${path.toLowerCase()}`;
+  }
+
+  private originUrlFor(pageUrl: string, origin: string | null): string {
+    if (!origin) return pageUrl;
+    const page = new URL(pageUrl);
+    return `${origin}${page.pathname}${page.search}`;
+  }
+
+  // Stored page URLs are whatever the browser reported: with or without www and trailing slash
+  private urlCandidates(pageUrl: string): string[] {
+    const candidates = new Set<string>([pageUrl]);
+    try {
+      const url = new URL(pageUrl);
+      url.hash = '';
+      const hosts = [url.hostname, url.hostname.startsWith('www.') ? url.hostname.slice(4) : `www.${url.hostname}`];
+      const path = url.pathname.replace(/\/+$/, '');
+      hosts.forEach(host => {
+        [path || '/', `${path}/`].forEach(variant => {
+          candidates.add(`${url.protocol}//${host}${variant}${url.search}`);
+          candidates.add(`${url.protocol}//${host}${variant}`);
+        });
+      });
+    } catch {
+      // Not a URL; only the exact string can match
+    }
+    return Array.from(candidates);
+  }
+
+  private imageUrls(html: string, pageUrl: string): string[] {
+    const $ = cheerio.load(html);
+    const urls = new Set<string>();
+    $('img[src]').each((_, element) => {
+      const src = this.absoluteUrl($(element).attr('src') || '', pageUrl);
+      if (src && !src.toLowerCase().endsWith('.svg')) urls.add(src);
+    });
+    return Array.from(urls);
+  }
+
+  private absoluteUrl(src: string, base: string): string {
+    try {
+      return new URL(src, base).toString();
+    } catch {
+      return '';
+    }
+  }
+
+  private parseSchemas(value: unknown): any[] {
+    if (!value) return [];
+    try {
+      const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+      if (Array.isArray(parsed)) return parsed;
+      if (Array.isArray((parsed as any)['@graph'])) return (parsed as any)['@graph'];
+      return [parsed];
+    } catch {
+      return [];
+    }
+  }
+
+  private toSettings(website: { seo_delivery?: string | null; seo_edge_origin?: string | null }): SEODeliverySettings {
+    return {
+      delivery: website.seo_delivery === 'edge' ? 'edge' : 'client',
+      originUrl: website.seo_edge_origin || null
+    };
+  }
+}
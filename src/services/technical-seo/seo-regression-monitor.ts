@@ -0,0 +1,689 @@
+/**
+ * SEO Regression Monitor
+ *
+ * Server side of the seoagent.js watchdog. Each page load reports the page's SEO snapshot (title,
+ * H1, meta robots, canonical, hreflang, schema types, Open Graph tags), which is compared with the
+ * page's last known-good baseline:
+ * - Dangerous changes (new noindex, canonical pointing off-site, removed H1, dropped schema, ...)
+ *   are classified with a severity and recorded as regressions
+ * - A new regression raises an ActionItem and, from the site's alert threshold up, an email and a
+ *   Slack-compatible webhook notification
+ * - Regressions are deduplicated per URL and type: repeat reports only bump the occurrence count
+ * - A clean report resolves the page's open regressions and becomes its new baseline
+ * - The website token is public, so only pages on the site's domain are accepted, each at most once
+ *   per REPORT_INTERVAL_MS, and a site gets at most MAX_NEW_PAGES_PER_HOUR new baselines an hour
+ * Regressions found elsewhere (an SVS score drop after a content change) go through the same
+ * records, action items and notifications via reportRegression.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { ActionItemService, type ActionItem, type DetectedIssue } from '@/lib/ActionItemService';
+import { DomainUtils } from '@/lib/utils/DomainUtils';
+import { assertPublicUrl } from '@/lib/utils/public-address';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const SEVERITY_RANK: Record<ActionItem['severity'], number> = { low: 1, medium: 2, high: 3, critical: 4 };
+const NOTIFY_TIMEOUT_MS = 10000;
+
+// A page reports on every load; one report per page a minute is enough to catch a regression
+const REPORT_INTERVAL_MS = 60 * 1000;
+const MAX_NEW_PAGES_PER_HOUR = 500;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WatchdogSnapshot {
+  url: string;
+  title: string;
+  h1: string;
+  metaDescription?: string;
+  metaRobots: string;
+  canonical: string;
+  hreflang: Array<{ hreflang: string; href: string }>;
+  schemaTypes: string[];
+  ogTags?: { title?: string; description?: string; image?: string; url?: string };
+}
+
+export type RegressionType =
+  | 'noindex_added'
+  | 'nofollow_added'
+  | 'canonical_offsite'
+  | 'canonical_removed'
+  | 'canonical_changed'
+  | 'title_removed'
+  | 'h1_removed'
+  | 'meta_description_removed'
+  | 'schema_dropped'
+  | 'hreflang_removed'
+  | 'og_tags_removed'
+  | 'svs_score_drop';
+
+// Where a regression was detected, shown on its action item
+export type RegressionSource = 'seo_watchdog' | 'svs_history';
+
+export interface SEORegression {
+  type: RegressionType;
+  severity: ActionItem['severity'];
+  category: ActionItem['issue_category'];
+  title: string;
+  description: string;
+  fixRecommendation: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+export interface WatchdogReportResult {
+  pageUrl: string;
+  baselineCreated: boolean;
+  regressions: Array<SEORegression & { isNew: boolean; notified: boolean; actionItemId?: string }>;
+  resolved: RegressionType[];
+}
+
+export type WatchdogReportOutcome =
+  | { success: true; result: WatchdogReportResult }
+  | { success: false; reason: 'not_found' | 'url_not_allowed' | 'rate_limited'; error: string };
+
+export interface RegressionAlertSettings {
+  email: string | null; // NULL = the account email
+  webhookUrl: string | null;
+  minSeverity: ActionItem['severity'];
+}
+
+// What each regression means and how to fix it, shown on its action item
+const REGRESSION_DETAILS: Record<RegressionType, { severity: ActionItem['severity']; category: ActionItem['issue_category']; title: string; fix: string }> = {
+  noindex_added: {
+    severity: 'critical',
+    category: 'indexing',
+    title: 'Page was set to noindex',
+    fix: 'Remove "noindex" from the meta robots tag unless the page should drop out of search results.'
+  },
+  nofollow_added: {
+    severity: 'medium',
+    category: 'indexing',
+    title: 'Page was set to nofollow',
+    fix: 'Remove "nofollow" from the meta robots tag so search engines follow the page\'s links.'
+  },
+  canonical_offsite: {
+    severity: 'critical',
+    category: 'indexing',
+    title: 'Canonical points to another site',
+    fix: 'Point the canonical link back to this page (or another page on this site); an off-site canonical hands its rankings to that domain.'
+  },
+  canonical_removed: {
+    severity: 'medium',
+    category: 'indexing',
+    title: 'Canonical link was removed',
+    fix: 'Restore the canonical link so duplicate URLs of the page consolidate to one.'
+  },
+  canonical_changed: {
+    severity: 'high',
+    category: 'indexing',
+    title: 'Canonical now points to a different page',
+    fix: 'Check the new canonical target; if it isn\'t intended, point the canonical back to this page.'
+  },
+  title_removed: {
+    severity: 'high',
+    category: 'meta_tags',
+    title: 'Page title was removed',
+    fix: 'Restore the <title> tag.'
+  },
+  h1_removed: {
+    severity: 'high',
+    category: 'meta_tags',
+    title: 'H1 heading was removed',
+    fix: 'Restore the page\'s H1 heading; it tells search engines what the page is about.'
+  },
+  meta_description_removed: {
+    severity: 'medium',
+    category: 'meta_tags',
+    title: 'Meta description was removed',
+    fix: 'Restore the meta description, or let SEOAgent generate one.'
+  },
+  schema_dropped: {
+    severity: 'high',
+    category: 'schema',
+    title: 'Structured data was dropped',
+    fix: 'Restore the JSON-LD blocks that were removed; pages lose rich results without them.'
+  },
+  hreflang_removed: {
+    severity: 'medium',
+    category: 'indexing',
+    title: 'hreflang links were removed',
+    fix: 'Restore the hreflang links so each language version is shown to the right searchers.'
+  },
+  og_tags_removed: {
+    severity: 'low',
+    category: 'meta_tags',
+    title: 'Open Graph tags were removed',
+    fix: 'Restore the og:title, og:description and og:image tags used for link previews.'
+  },
+  svs_score_drop: {
+    severity: 'medium',
+    category: 'content',
+    title: 'Semantic Visibility Score dropped after a content change',
+    fix: 'Compare the page with its previous version and restore the entities, sources, Q&A sections or structure the edit removed.'
+  }
+};
+
+const SOURCE_IMPACT: Record<RegressionSource, string> = {
+  seo_watchdog: 'Detected by the SEOAgent watchdog on a live page load.',
+  svs_history: 'Detected by comparing the page\'s SVS analyses before and after its content changed.'
+};
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class SEORegressionMonitor {
+  /**
+   * Compare a watchdog snapshot with the page's baseline and act on what changed
+   */
+  async processReport(websiteToken: string, snapshot: WatchdogSnapshot): Promise<WatchdogReportOutcome> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select('website_token, user_token, domain, regression_alert_email, regression_webhook_url, regression_alert_min_severity')
+      .eq('website_token', websiteToken)
+      .maybeSingle();
+
+    if (!website) return { success: false, reason: 'not_found', error: 'Website not found' };
+
+    if (!DomainUtils.isOnDomain(snapshot.url, website.domain)) {
+      return { success: false, reason: 'url_not_allowed', error: 'snapshot.url is not on the website\'s domain' };
+    }
+
+    const pageUrl = this.pageKey(snapshot.url);
+    const current = { ...snapshot, url: pageUrl };
+
+    const { data: baselineRow } = await supabase
+      .from('seo_page_baselines')
+      .select('snapshot, last_reported_at')
+      .eq('website_token', websiteToken)
+      .eq('page_url', pageUrl)
+      .maybeSingle();
+
+    if (!baselineRow) {
+      const { count } = await supabase
+        .from('seo_page_baselines')
+        .select('id', { count: 'exact', head: true })
+        .eq('website_token', websiteToken)
+        .gte('first_seen_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+
+      if ((count || 0) >= MAX_NEW_PAGES_PER_HOUR) {
+        console.warn(`[SEO REGRESSION] New page limit reached for ${websiteToken}; ignoring ${pageUrl}`);
+        return { success: false, reason: 'rate_limited', error: 'Too many new pages reported; try again later' };
+      }
+
+      await this.saveBaseline(websiteToken, pageUrl, current);
+      return { success: true, result: { pageUrl, baselineCreated: true, regressions: [], resolved: [] } };
+    }
+
+    const lastReportedAt = baselineRow.last_reported_at ? new Date(baselineRow.last_reported_at).getTime() : 0;
+    if (Date.now() - lastReportedAt < REPORT_INTERVAL_MS) {
+      return { success: false, reason: 'rate_limited', error: 'This page was reported recently; try again later' };
+    }
+
+    await supabase
+      .from('seo_page_baselines')
+      .update({ last_reported_at: new Date().toISOString() })
+      .eq('website_token', websiteToken)
+      .eq('page_url', pageUrl);
+
+    const detected = this.classify(baselineRow.snapshot as WatchdogSnapshot, current);
+
+    const { data: openRows } = await supabase
+      .from('seo_regressions')
+      .select('id, regression_type, occurrences, action_item_id')
+      .eq('website_token', websiteToken)
+      .eq('page_url', pageUrl)
+      .is('resolved_at', null);
+    const open = new Map<string, any>((openRows || []).map(row => [row.regression_type, row]));
+
+    // Regressions no longer present were fixed
+    const now = new Date().toISOString();
+    const resolved = Array.from(open.keys())
+      .filter(type => !detected.some(regression => regression.type === type)) as RegressionType[];
+    if (resolved.length > 0) {
+      await supabase
+        .from('seo_regressions')
+        .update({ resolved_at: now, resolution: 'fixed' })
+        .in('id', resolved.map(type => open.get(type).id));
+      console.log(`[SEO REGRESSION] Resolved on ${pageUrl}: ${resolved.join(', ')}`);
+    }
+
+    // The last known-good state only moves forward while the page is healthy
+    if (detected.length === 0) {
+      await this.saveBaseline(websiteToken, pageUrl, current);
+      return { success: true, result: { pageUrl, baselineCreated: false, regressions: [], resolved } };
+    }
+
+    const regressions: WatchdogReportResult['regressions'] = [];
+    for (const regression of detected) {
+      const existing = open.get(regression.type);
+      if (existing) {
+        await supabase
+          .from('seo_regressions')
+          .update({ occurrences: existing.occurrences + 1, last_detected_at: now, new_value: regression.newValue })
+          .eq('id', existing.id);
+        regressions.push({ ...regression, isNew: false, notified: false, actionItemId: existing.action_item_id || undefined });
+        continue;
+      }
+
+      regressions.push(await this.raise(website, pageUrl, regression));
+    }
+
+    return { success: true, result: { pageUrl, baselineCreated: false, regressions, resolved } };
+  }
+
+  /**
+   * Take the page as it is now as its baseline, closing its open regressions as intended changes
+   */
+  async acceptCurrent(userToken: string, websiteToken: string, pageUrl: string): Promise<boolean> {
+    const key = this.pageKey(pageUrl);
+    const { data: website } = await supabase
+      .from('websites')
+      .select('website_token')
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .maybeSingle();
+    if (!website) return false;
+
+    await supabase
+      .from('seo_regressions')
+      .update({ resolved_at: new Date().toISOString(), resolution: 'accepted' })
+      .eq('website_token', websiteToken)
+      .eq('page_url', key)
+      .is('resolved_at', null);
+
+    // The next report from the page becomes its baseline
+    await supabase
+      .from('seo_page_baselines')
+      .delete()
+      .eq('website_token', websiteToken)
+      .eq('page_url', key);
+
+    console.log(`[SEO REGRESSION] Accepted current state of ${key} as intended`);
+    return true;
+  }
+
+  async getRegressions(userToken: string, websiteToken: string, includeResolved = false) {
+    let query = supabase
+      .from('seo_regressions')
+      .select('*')
+      .eq('user_token', userToken)
+      .eq('website_token', websiteToken)
+      .order('last_detected_at', { ascending: false })
+      .limit(200);
+
+    if (!includeResolved) query = query.is('resolved_at', null);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load regressions: ${error.message}`);
+    return data || [];
+  }
+
+  async updateAlertSettings(userToken: string, websiteToken: string, settings: Partial<RegressionAlertSettings>): Promise<RegressionAlertSettings | null> {
+    const { data, error } = await supabase
+      .from('websites')
+      .update({
+        ...(settings.email !== undefined ? { regression_alert_email: settings.email || null } : {}),
+        ...(settings.webhookUrl !== undefined ? { regression_webhook_url: settings.webhookUrl || null } : {}),
+        ...(settings.minSeverity ? { regression_alert_min_severity: settings.minSeverity } : {})
+      })
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .select('regression_alert_email, regression_webhook_url, regression_alert_min_severity')
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update alert settings: ${error.message}`);
+    if (!data) return null;
+
+    return {
+      email: data.regression_alert_email,
+      webhookUrl: data.regression_webhook_url,
+      minSeverity: data.regression_alert_min_severity
+    };
+  }
+
+  /**
+   * Record a regression found outside the watchdog. An open regression of the same type on the
+   * page only gets its occurrence count bumped; a new one raises an action item and notifications.
+   */
+  async reportRegression(
+    websiteToken: string,
+    pageUrl: string,
+    type: RegressionType,
+    details: { description: string; oldValue: string | null; newValue: string | null; severity?: ActionItem['severity'] },
+    source: RegressionSource
+  ): Promise<WatchdogReportResult['regressions'][number] | null> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select('website_token, user_token, domain, regression_alert_email, regression_webhook_url, regression_alert_min_severity')
+      .eq('website_token', websiteToken)
+      .maybeSingle();
+
+    if (!website) return null;
+
+    const key = this.pageKey(pageUrl);
+    const regression = this.build(type, details.description, details.oldValue, details.newValue);
+    if (details.severity) regression.severity = details.severity;
+
+    const existing = await this.getOpenRegression(websiteToken, key, type);
+    if (existing) {
+      await supabase
+        .from('seo_regressions')
+        .update({ occurrences: existing.occurrences + 1, last_detected_at: new Date().toISOString(), new_value: regression.newValue })
+        .eq('id', existing.id);
+      return { ...regression, isNew: false, notified: false, actionItemId: existing.action_item_id || undefined };
+    }
+
+    return this.raise(website, key, regression, source);
+  }
+
+  async getOpenRegression(websiteToken: string, pageUrl: string, type: RegressionType) {
+    const { data } = await supabase
+      .from('seo_regressions')
+      .select('id, old_value, new_value, occurrences, action_item_id, first_detected_at')
+      .eq('website_token', websiteToken)
+      .eq('page_url', this.pageKey(pageUrl))
+      .eq('regression_type', type)
+      .is('resolved_at', null)
+      .maybeSingle();
+
+    return data;
+  }
+
+  async resolveRegression(websiteToken: string, pageUrl: string, type: RegressionType): Promise<boolean> {
+    const { data } = await supabase
+      .from('seo_regressions')
+      .update({ resolved_at: new Date().toISOString(), resolution: 'fixed' })
+      .eq('website_token', websiteToken)
+      .eq('page_url', this.pageKey(pageUrl))
+      .eq('regression_type', type)
+      .is('resolved_at', null)
+      .select('id');
+
+    const resolved = (data || []).length > 0;
+    if (resolved) console.log(`[SEO REGRESSION] Resolved on ${this.pageKey(pageUrl)}: ${type}`);
+    return resolved;
+  }
+
+  /**
+   * Dangerous differences between a page's baseline and its current snapshot
+   */
+  classify(baseline: WatchdogSnapshot, current: WatchdogSnapshot): SEORegression[] {
+    const regressions: SEORegression[] = [];
+    const add = (type: RegressionType, description: string, oldValue: string | null, newValue: string | null) => {
+      regressions.push(this.build(type, description, oldValue, newValue));
+    };
+
+    const oldRobots = (baseline.metaRobots || '').toLowerCase();
+    const newRobots = (current.metaRobots || '').toLowerCase();
+    if (/noindex|\bnone\b/.test(newRobots) && !/noindex|\bnone\b/.test(oldRobots)) {
+      add('noindex_added', `Meta robots changed to "${current.metaRobots}"; search engines will drop the page from their index.`, baseline.metaRobots || null, current.metaRobots);
+    } else if (/nofollow/.test(newRobots) && !/nofollow|\bnone\b/.test(oldRobots)) {
+      add('nofollow_added', `Meta robots changed to "${current.metaRobots}".`, baseline.metaRobots || null, current.metaRobots);
+    }
+
+    if (baseline.canonical && !current.canonical) {
+      add('canonical_removed', `The canonical link to ${baseline.canonical} is gone.`, baseline.canonical, null);
+    } else if (current.canonical && current.canonical !== baseline.canonical) {
+      if (!this.sameSite(current.canonical, current.url)) {
+        add('canonical_offsite', `The canonical now points to ${current.canonical}, outside this site.`, baseline.canonical || null, current.canonical);
+      } else if (baseline.canonical && this.pageKey(current.canonical) !== this.pageKey(baseline.canonical)) {
+        add('canonical_changed', `The canonical changed from ${baseline.canonical} to ${current.canonical}.`, baseline.canonical, current.canonical);
+      }
+    }
+
+    if (baseline.title?.trim() && !current.title?.trim()) {
+      add('title_removed', `The title "${baseline.title.trim()}" is gone.`, baseline.title.trim(), null);
+    }
+
+    if (baseline.h1?.trim() && !current.h1?.trim()) {
+      add('h1_removed', `The H1 "${baseline.h1.trim()}" is gone.`, baseline.h1.trim(), null);
+    }
+
+    if (baseline.metaDescription?.trim() && !current.metaDescription?.trim()) {
+      add('meta_description_removed', 'The page no longer has a meta description.', baseline.metaDescription.trim(), null);
+    }
+
+    const currentTypes = new Set((current.schemaTypes || []).map(String));
+    const dropped = Array.from(new Set((baseline.schemaTypes || []).map(String)))
+      .filter(type => type !== 'Invalid' && !currentTypes.has(type));
+    if (dropped.length > 0) {
+      add('schema_dropped', `Structured data of type ${dropped.join(', ')} is gone.`, dropped.join(', '), Array.from(currentTypes).join(', ') || null);
+    }
+
+    if ((baseline.hreflang || []).length > 0 && (current.hreflang || []).length === 0) {
+      add('hreflang_removed', `All ${baseline.hreflang.length} hreflang links are gone.`, baseline.hreflang.map(link => link.hreflang).join(', '), null);
+    }
+
+    const ogKeys = ['title', 'description', 'image'] as const;
+    const lostOg = ogKeys.filter(key => baseline.ogTags?.[key] && !current.ogTags?.[key]);
+    if (lostOg.length > 0) {
+      add('og_tags_removed', `Removed: ${lostOg.map(key => `og:${key}`).join(', ')}.`, lostOg.map(key => `og:${key}`).join(', '), null);
+    }
+
+    return regressions;
+  }
+
+  private build(type: RegressionType, description: string, oldValue: string | null, newValue: string | null): SEORegression {
+    const details = REGRESSION_DETAILS[type];
+    return {
+      type,
+      severity: details.severity,
+      category: details.category,
+      title: details.title,
+      description,
+      fixRecommendation: details.fix,
+      oldValue,
+      newValue
+    };
+  }
+
+  /**
+   * Record a new regression, raise its action item and notify when it's severe enough
+   */
+  private async raise(website: any, pageUrl: string, regression: SEORegression, source: RegressionSource = 'seo_watchdog'): Promise<WatchdogReportResult['regressions'][number]> {
+    const actionItem = await this.upsertActionItem(website.user_token, website.domain || new URL(pageUrl).origin, pageUrl, regression, source);
+
+    const { data: row, error } = await supabase
+      .from('seo_regressions')
+      .insert({
+        website_token: website.website_token,
+        user_token: website.user_token,
+        page_url: pageUrl,
+        regression_type: regression.type,
+        severity: regression.severity,
+        title: regression.title,
+        description: regression.description,
+        old_value: regression.oldValue,
+        new_value: regression.newValue,
+        action_item_id: actionItem?.id || null
+      })
+      .select('id')
+      .single();
+
+    // A concurrent report of the same page already recorded it
+    if (error || !row) {
+      console.log(`[SEO REGRESSION] ${regression.type} on ${pageUrl} already recorded`);
+      return { ...regression, isNew: false, notified: false, actionItemId: actionItem?.id };
+    }
+
+    console.warn(`[SEO REGRESSION] ${regression.severity.toUpperCase()} ${regression.type} on ${pageUrl}`);
+
+    const threshold = (website.regression_alert_min_severity || 'high') as ActionItem['severity'];
+    let notified = false;
+    if (SEVERITY_RANK[regression.severity] >= SEVERITY_RANK[threshold]) {
+      notified = await this.notify(website, pageUrl, regression);
+      if (notified) {
+        await supabase.from('seo_regressions').update({ notified_at: new Date().toISOString() }).eq('id', row.id);
+      }
+    }
+
+    return { ...regression, isNew: true, notified, actionItemId: actionItem?.id };
+  }
+
+  /**
+   * One action item per regression type and site, listing every affected URL
+   */
+  private async upsertActionItem(userToken: string, siteUrl: string, pageUrl: string, regression: SEORegression, source: RegressionSource): Promise<ActionItem | null> {
+    const issue: DetectedIssue = {
+      type: source === 'seo_watchdog' ? `watchdog_${regression.type}` : regression.type,
+      category: regression.category,
+      severity: regression.severity,
+      title: regression.title,
+      description: regression.description,
+      impactDescription: SOURCE_IMPACT[source],
+      fixRecommendation: regression.fixRecommendation,
+      affectedUrls: [pageUrl],
+      estimatedImpact: regression.severity === 'critical' || regression.severity === 'high' ? 'high' : regression.severity === 'medium' ? 'medium' : 'low',
+      estimatedEffort: 'easy',
+      metadata: { source, oldValue: regression.oldValue, newValue: regression.newValue }
+    };
+
+    const item = await ActionItemService.createActionItem(userToken, siteUrl, issue);
+    if (!item || (item.affected_urls || []).includes(pageUrl)) return item;
+
+    // An open item for this regression type already exists on another page
+    const affectedUrls = (item.affected_urls || []).concat(pageUrl);
+    return ActionItemService.updateActionItem(item.id, {
+      affected_urls: affectedUrls,
+      title: `${regression.title} (${affectedUrls.length} pages)`,
+      severity: SEVERITY_RANK[regression.severity] > SEVERITY_RANK[item.severity] ? regression.severity : item.severity
+    });
+  }
+
+  private async notify(website: any, pageUrl: string, regression: SEORegression): Promise<boolean> {
+    const summary = `${regression.title} on ${pageUrl}`;
+    const text = [
+      `[${regression.severity.toUpperCase()}] ${summary}`,
+      regression.description,
+      `Fix: ${regression.fixRecommendation}`
+    ].join('\n');
+
+    const results = await Promise.all([
+      this.sendWebhook(website.regression_webhook_url, text, pageUrl, regression),
+      this.sendEmail(website, summary, text)
+    ]);
+    return results.some(Boolean);
+  }
+
+  // Slack incoming webhooks read `text`; other receivers get the structured fields too.
+  // The URL is the customer's, so it must resolve to a public address and redirects aren't followed.
+  private async sendWebhook(webhookUrl: string | null, text: string, pageUrl: string, regression: SEORegression): Promise<boolean> {
+    if (!webhookUrl) return false;
+
+    try {
+      await assertPublicUrl(webhookUrl);
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text,
+          event: 'seo.regression',
+          pageUrl,
+          regression: {
+            type: regression.type,
+            severity: regression.severity,
+            title: regression.title,
+            oldValue: regression.oldValue,
+            newValue: regression.newValue
+          }
+        }),
+        redirect: 'manual',
+        signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        console.error(`[SEO REGRESSION] Webhook returned ${response.status}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SEO REGRESSION] Webhook failed:', error);
+      return false;
+    }
+  }
+
+  // Sent through the Resend API when RESEND_API_KEY is configured
+  private async sendEmail(website: any, subject: string, text: string): Promise<boolean> {
+    if (!process.env.RESEND_API_KEY) return false;
+
+    let recipient: string | null = website.regression_alert_email;
+    if (!recipient) {
+      const { data: user } = await supabase
+        .from('login_users')
+        .select('email')
+        .eq('token', website.user_token)
+        .maybeSingle();
+      recipient = user?.email || null;
+    }
+    if (!recipient) return false;
+
+    try {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          from: process.env.ALERT_EMAIL_FROM || 'SEOAgent Alerts <alerts@seoagent.com>',
+          to: [recipient],
+          subject: `SEO regression: ${subject}`,
+          text
+        }),
+        signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        console.error(`[SEO REGRESSION] Alert email returned ${response.status}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[SEO REGRESSION] Alert email failed:', error);
+      return false;
+    }
+  }
+
+  private async saveBaseline(websiteToken: string, pageUrl: string, snapshot: WatchdogSnapshot): Promise<void> {
+    const { error } = await supabase
+      .from('seo_page_baselines')
+      .upsert({
+        website_token: websiteToken,
+        page_url: pageUrl,
+        snapshot,
+        updated_at: new Date().toISOString(),
+        last_reported_at: new Date().toISOString()
+      }, { onConflict: 'website_token,page_url' });
+
+    if (error) console.error('[SEO REGRESSION] Failed to save baseline:', error);
+  }
+
+  // Baselines are per page: query strings and fragments are tracking noise, not different pages
+  private pageKey(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : parsed.pathname;
+      return `${parsed.protocol}//${parsed.hostname.toLowerCase()}${path}`;
+    } catch {
+      return url;
+    }
+  }
+
+  private sameSite(url: string, pageUrl: string): boolean {
+    try {
+      const host = (value: string) => new URL(value).hostname.toLowerCase().replace(/^www\./, '');
+      return host(url) === host(pageUrl);
+    } catch {
+      // Relative canonicals resolve against the page itself
+      return true;
+    }
+  }
+}
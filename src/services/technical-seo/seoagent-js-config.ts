@@ -0,0 +1,223 @@
+/**
+ * SEOAgent.js Config Service
+ *
+ * Per-site settings for the seoagent.js snippet:
+ * - Module toggles (meta tags, alt text, schema, canonical, hreflang, Open Graph, watchdog,
+ *   attribution). metaTags and altText also follow the older enable_meta_tags / enable_image_tags
+ *   switches; attribution stays on for free plans.
+ * - Whether the snippet waits for consent from the site's CMP
+ * - The snippet version last seen on the site
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getLatestRelease } from '@/lib/seoagent-js-release';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// The snippet requests its config on every page view; record its version at most this often
+const VERSION_RECORD_INTERVAL_MS = 60 * 60 * 1000;
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(-[0-9A-Za-z.]+)?$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SEOAgentJSModule =
+  | 'metaTags'
+  | 'altText'
+  | 'schema'
+  | 'canonical'
+  | 'hreflang'
+  | 'openGraph'
+  | 'watchdog'
+  | 'attribution';
+
+export const SEOAGENT_JS_MODULES: SEOAgentJSModule[] = [
+  'metaTags', 'altText', 'schema', 'canonical', 'hreflang', 'openGraph', 'watchdog', 'attribution'
+];
+
+export type SEOAgentJSModules = Record<SEOAgentJSModule, boolean>;
+
+// Served to the snippet by /api/seoagent/config
+export interface SEOAgentJSSiteConfig {
+  modules: SEOAgentJSModules;
+  requireConsent: boolean;
+  attributionRequired: boolean;
+  latestVersion: string;
+}
+
+export interface SEOAgentJSSettings extends SEOAgentJSSiteConfig {
+  installedVersion: string | null;
+  installedVersionSeenAt: string | null;
+}
+
+export type SEOAgentJSSettingsUpdateResult =
+  | { success: true; settings: SEOAgentJSSettings }
+  | { success: false; reason: 'not_found' | 'invalid_input'; error: string };
+
+const SETTINGS_COLUMNS = 'user_token, enable_meta_tags, enable_image_tags, seoagent_js_modules, seoagent_js_require_consent, seoagent_js_version, seoagent_js_version_seen_at';
+
+// ============================================================================
+// Main Class
+// ============================================================================
+
+export class SEOAgentJSConfigService {
+  /**
+   * Config for the snippet on a site, or null for unknown tokens. Records the reported version.
+   */
+  async getSiteConfig(websiteToken: string, reportedVersion?: string | null): Promise<SEOAgentJSSiteConfig | null> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select(SETTINGS_COLUMNS)
+      .eq('website_token', websiteToken)
+      .maybeSingle();
+
+    if (!website) return null;
+
+    if (reportedVersion) {
+      await this.recordVersion(websiteToken, reportedVersion, website);
+    }
+
+    return this.toSiteConfig(website, await this.isAttributionRequired(website.user_token));
+  }
+
+  /**
+   * Settings for the dashboard, or null when the site isn't the user's
+   */
+  async getSettings(userToken: string, websiteToken: string): Promise<SEOAgentJSSettings | null> {
+    const { data: website } = await supabase
+      .from('websites')
+      .select(SETTINGS_COLUMNS)
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    if (!website) return null;
+
+    return this.toSettings(website, await this.isAttributionRequired(userToken));
+  }
+
+  async updateSettings(
+    userToken: string,
+    websiteToken: string,
+    update: { modules?: Record<string, unknown>; requireConsent?: unknown }
+  ): Promise<SEOAgentJSSettingsUpdateResult> {
+    if (update.requireConsent !== undefined && typeof update.requireConsent !== 'boolean') {
+      return { success: false, reason: 'invalid_input', error: 'requireConsent must be a boolean' };
+    }
+
+    const toggles: Partial<SEOAgentJSModules> = {};
+    if (update.modules !== undefined) {
+      if (!update.modules || typeof update.modules !== 'object') {
+        return { success: false, reason: 'invalid_input', error: 'modules must be an object' };
+      }
+
+      for (const [name, enabled] of Object.entries(update.modules)) {
+        if (!SEOAGENT_JS_MODULES.includes(name as SEOAgentJSModule)) {
+          return { success: false, reason: 'invalid_input', error: `Unknown module: ${name}` };
+        }
+        if (typeof enabled !== 'boolean') {
+          return { success: false, reason: 'invalid_input', error: `Module ${name} must be true or false` };
+        }
+        toggles[name as SEOAgentJSModule] = enabled;
+      }
+    }
+
+    const { data: website } = await supabase
+      .from('websites')
+      .select('seoagent_js_modules')
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    if (!website) return { success: false, reason: 'not_found', error: 'Website not found or access denied' };
+
+    // metaTags and altText write through to the older switches so the edge functions agree
+    const { data: updated, error } = await supabase
+      .from('websites')
+      .update({
+        seoagent_js_modules: { ...(website.seoagent_js_modules || {}), ...toggles },
+        ...(toggles.metaTags !== undefined ? { enable_meta_tags: toggles.metaTags } : {}),
+        ...(toggles.altText !== undefined ? { enable_image_tags: toggles.altText } : {}),
+        ...(update.requireConsent !== undefined ? { seoagent_js_require_consent: update.requireConsent } : {})
+      })
+      .eq('website_token', websiteToken)
+      .eq('user_token', userToken)
+      .select(SETTINGS_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to update seoagent.js settings: ${error.message}`);
+
+    console.log(`[SEOAGENT.JS CONFIG] Settings updated for ${websiteToken}`);
+    return { success: true, settings: this.toSettings(updated, await this.isAttributionRequired(userToken)) };
+  }
+
+  private async recordVersion(websiteToken: string, version: string, website: any): Promise<void> {
+    if (!VERSION_PATTERN.test(version)) return;
+
+    const seenAt = website.seoagent_js_version_seen_at ? new Date(website.seoagent_js_version_seen_at).getTime() : 0;
+    if (website.seoagent_js_version === version && Date.now() - seenAt < VERSION_RECORD_INTERVAL_MS) return;
+
+    const { error } = await supabase
+      .from('websites')
+      .update({ seoagent_js_version: version, seoagent_js_version_seen_at: new Date().toISOString() })
+      .eq('website_token', websiteToken);
+
+    if (error) {
+      console.warn(`[SEOAGENT.JS CONFIG] Could not record version for ${websiteToken}:`, error.message);
+    }
+  }
+
+  /**
+   * Free plans keep the attribution link; same rules as /api/seoagent/check-attribution
+   */
+  private async isAttributionRequired(userToken: string): Promise<boolean> {
+    const { data: userPlan } = await supabase
+      .from('user_plans')
+      .select('tier')
+      .eq('user_token', userToken)
+      .maybeSingle();
+
+    if (userPlan) return userPlan.tier === 'free';
+
+    // login_users.plan: 0 = free, 1 = paid
+    const { data: loginUser } = await supabase
+      .from('login_users')
+      .select('plan')
+      .eq('token', userToken)
+      .maybeSingle();
+
+    return !loginUser || loginUser.plan === 0;
+  }
+
+  private toSiteConfig(website: any, attributionRequired: boolean): SEOAgentJSSiteConfig {
+    const stored = (website.seoagent_js_modules || {}) as Partial<SEOAgentJSModules>;
+
+    const modules = {} as SEOAgentJSModules;
+    for (const name of SEOAGENT_JS_MODULES) {
+      modules[name] = stored[name] !== false;
+    }
+    if (website.enable_meta_tags === false) modules.metaTags = false;
+    if (website.enable_image_tags === false) modules.altText = false;
+    if (attributionRequired) modules.attribution = true;
+
+    return {
+      modules,
+      requireConsent: !!website.seoagent_js_require_consent,
+      attributionRequired,
+      latestVersion: getLatestRelease().version
+    };
+  }
+
+  private toSettings(website: any, attributionRequired: boolean): SEOAgentJSSettings {
+    return {
+      ...this.toSiteConfig(website, attributionRequired),
+      installedVersion: website.seoagent_js_version || null,
+      installedVersionSeenAt: website.seoagent_js_version_seen_at || null
+    };
+  }
+}
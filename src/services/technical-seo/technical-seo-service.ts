@@ -0,0 +1,1004 @@
+/**
+ * Technical SEO Service
+ *
+ * Backs the /api/technical-seo/{audit,check,indexing,structure,pagespeed,schema}
+ * endpoints used by TechnicalSEOAbility. Every check returns TechnicalFinding[]
+ * which can be grouped into DetectedIssue[] for ActionItemService.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { DomainUtils } from '@/lib/utils/DomainUtils';
+import type { ActionItem, DetectedIssue } from '@/lib/ActionItemService';
+import {
+  analyzeFetchedPage,
+  extractSignals,
+  fetchPage,
+  safeOrigin,
+  PageAnalysis,
+  TechnicalFinding
+} from './page-analyzer';
+import { fetchRobotsTxt, isAllowedByRobots } from '@/services/crawl/robots-txt';
+import { readSitemapEntries } from '@/services/crawl/sitemap-reader';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const SEVERITY_RANK: Record<ActionItem['severity'], number> = { critical: 4, high: 3, medium: 2, low: 1 };
+const MAX_AUDIT_PAGES = 100;
+const PAGE_FETCH_CONCURRENCY = 4;
+
+export interface AuditResult {
+  siteUrl: string;
+  auditType: string;
+  pagesAnalyzed: number;
+  score: number;
+  summary: { critical: number; high: number; medium: number; low: number; total: number };
+  findings: TechnicalFinding[];
+  pages: Array<{ url: string; status: number; loadTimeMs: number; findingCount: number }>;
+  performance?: PageSpeedResult | null;
+  auditId?: string;
+}
+
+export interface IndexingPageResult {
+  url: string;
+  status: number | null;
+  indexable: boolean;
+  blockedByRobotsTxt: boolean;
+  noindex: boolean;
+  canonical: string | null;
+  canonicalMismatch: boolean;
+  inSitemap: boolean;
+  gsc?: { verdict: string | null; coverageState: string | null; lastCrawlTime: string | null };
+  reasons: string[];
+}
+
+export interface StructureResult {
+  siteUrl: string;
+  pagesCrawled: number;
+  maxDepth: number;
+  depthDistribution: Record<string, number>;
+  sections: Array<{ path: string; pages: number }>;
+  orphanPages: string[];
+  deepPages: Array<{ url: string; depth: number }>;
+  brokenInternalLinks: Array<{ url: string; status: number; linkedFrom: string[] }>;
+  weaklyLinkedPages: Array<{ url: string; inboundLinks: number }>;
+  internalLinks?: Array<{ url: string; inbound: number; outbound: number }>;
+  findings: TechnicalFinding[];
+}
+
+export interface PageSpeedResult {
+  url: string;
+  device: 'mobile' | 'desktop';
+  performanceScore: number | null;
+  labMetrics: {
+    firstContentfulPaintMs: number | null;
+    largestContentfulPaintMs: number | null;
+    totalBlockingTimeMs: number | null;
+    cumulativeLayoutShift: number | null;
+    speedIndexMs: number | null;
+  };
+  fieldMetrics: Record<string, { percentile: number; category: string }> | null;
+  opportunities: Array<{ id: string; title: string; savingsMs: number }>;
+  findings: TechnicalFinding[];
+}
+
+export interface SchemaValidationResult {
+  url: string;
+  schemasFound: number;
+  types: string[];
+  items: Array<{ type: string; valid: boolean; missingRequired: string[]; missingRecommended: string[] }>;
+  missingExpectedTypes: string[];
+  findings: TechnicalFinding[];
+}
+
+/**
+ * Required / recommended properties per schema.org type, following Google's rich result docs
+ */
+const SCHEMA_RULES: Record<string, { required: string[]; recommended: string[] }> = {
+  Article: { required: ['headline'], recommended: ['author', 'datePublished', 'image', 'dateModified'] },
+  BlogPosting: { required: ['headline'], recommended: ['author', 'datePublished', 'image', 'dateModified'] },
+  NewsArticle: { required: ['headline'], recommended: ['author', 'datePublished', 'image', 'dateModified'] },
+  Organization: { required: ['name', 'url'], recommended: ['logo', 'sameAs'] },
+  WebSite: { required: ['name', 'url'], recommended: ['potentialAction'] },
+  WebPage: { required: ['name'], recommended: ['description'] },
+  Product: { required: ['name'], recommended: ['image', 'description', 'offers', 'aggregateRating'] },
+  LocalBusiness: { required: ['name', 'address'], recommended: ['telephone', 'openingHoursSpecification', 'geo'] },
+  BreadcrumbList: { required: ['itemListElement'], recommended: [] },
+  FAQPage: { required: ['mainEntity'], recommended: [] },
+  HowTo: { required: ['name', 'step'], recommended: ['image', 'totalTime'] },
+  Event: { required: ['name', 'startDate', 'location'], recommended: ['endDate', 'offers', 'image'] },
+  Recipe: { required: ['name', 'image'], recommended: ['recipeIngredient', 'recipeInstructions', 'author'] },
+  Review: { required: ['itemReviewed', 'author', 'reviewRating'], recommended: [] }
+};
+
+export class TechnicalSEOService {
+  /**
+   * Normalize user input (bare domains, sc-domain: properties, trailing slashes) to an https origin
+   */
+  static normalizeSiteUrl(siteUrl: string): string {
+    if (/^https?:\/\//i.test(siteUrl)) {
+      return new URL(siteUrl).origin;
+    }
+    return DomainUtils.buildUrl(DomainUtils.cleanDomain(siteUrl));
+  }
+
+  /**
+   * Multi-page audit: discovers URLs via sitemap and homepage links, runs on-page checks
+   * on each and adds site-level checks (robots.txt, sitemap, duplicate titles/descriptions).
+   */
+  static async auditSite(siteUrl: string, opts: {
+    auditType?: string;
+    maxPages?: number;
+    includePerformance?: boolean;
+  } = {}): Promise<AuditResult> {
+    const origin = this.normalizeSiteUrl(siteUrl);
+    const maxPages = Math.max(1, Math.min(opts.maxPages || 25, MAX_AUDIT_PAGES));
+    const auditType = opts.auditType || 'full';
+
+    console.log(`[TECHNICAL SEO] Auditing ${origin} (type: ${auditType}, maxPages: ${maxPages})`);
+
+    const robots = await fetchRobotsTxt(origin);
+    const sitemapEntries = await readSitemapEntries(origin, {
+      sitemapUrls: robots.rules?.sitemaps,
+      limit: maxPages * 4
+    });
+
+    const urls = new Set<string>([`${origin}/`]);
+    sitemapEntries.forEach(entry => {
+      if (urls.size < maxPages && safeOrigin(entry.loc) === origin) urls.add(entry.loc);
+    });
+
+    const analyses: PageAnalysis[] = [];
+    const homepage = await this.safeAnalyze(`${origin}/`);
+    if (homepage) {
+      analyses.push(homepage);
+      homepage.signals.internalLinks.forEach(link => {
+        if (urls.size < maxPages) urls.add(link);
+      });
+    }
+
+    const remaining = Array.from(urls).filter(url => url !== `${origin}/`);
+    analyses.push(...await this.analyzeMany(remaining));
+
+    const findings: TechnicalFinding[] = [];
+    analyses.forEach(analysis => findings.push(...analysis.findings));
+
+    // Site-level checks
+    if (!robots.rules) {
+      findings.push({
+        type: 'robots_missing',
+        category: 'robots',
+        severity: 'medium',
+        title: 'Robots.txt Missing or Unreachable',
+        description: `No robots.txt could be fetched from ${origin}/robots.txt${robots.status ? ` (HTTP ${robots.status})` : ''}.`,
+        recommendation: 'Publish a robots.txt at the site root that allows crawling and references your sitemap.',
+        url: `${origin}/robots.txt`
+      });
+    } else if (!isAllowedByRobots(robots.rules, `${origin}/`, 'Googlebot')) {
+      findings.push({
+        type: 'robots_blocks_site',
+        category: 'robots',
+        severity: 'critical',
+        title: 'Robots.txt Blocks Googlebot',
+        description: 'robots.txt disallows crawling of the homepage for Googlebot.',
+        recommendation: 'Remove the blanket Disallow rule so search engines can crawl the site.',
+        url: `${origin}/robots.txt`
+      });
+    }
+
+    if (sitemapEntries.length === 0) {
+      findings.push({
+        type: 'sitemap_missing',
+        category: 'sitemap',
+        severity: 'high',
+        title: 'XML Sitemap Missing',
+        description: 'No XML sitemap was found via robots.txt, /sitemap.xml or /sitemap_index.xml.',
+        recommendation: 'Generate an XML sitemap, reference it in robots.txt and submit it to Google Search Console.',
+        url: `${origin}/sitemap.xml`
+      });
+    }
+
+    findings.push(...this.findDuplicates(analyses));
+
+    let performance: PageSpeedResult | null = null;
+    if (opts.includePerformance || auditType === 'performance') {
+      performance = await this.checkPageSpeed(`${origin}/`, 'mobile').catch(error => {
+        console.log('[TECHNICAL SEO] PageSpeed check skipped:', error);
+        return null;
+      });
+      if (performance) findings.push(...performance.findings);
+    }
+
+    const filtered = this.filterByAuditType(findings, auditType);
+
+    return {
+      siteUrl: origin,
+      auditType,
+      pagesAnalyzed: analyses.length,
+      score: this.calculateScore(filtered, analyses.length),
+      summary: this.summarize(filtered),
+      findings: filtered,
+      pages: analyses.map(a => ({
+        url: a.url,
+        status: a.status,
+        loadTimeMs: a.loadTimeMs,
+        findingCount: a.findings.length
+      })),
+      performance
+    };
+  }
+
+  /**
+   * Quick single-page technical check, optionally narrowed to issue categories
+   */
+  static async checkTechnicalSEO(siteUrl: string, focusAreas?: string[]): Promise<{
+    url: string;
+    status: number;
+    signals: PageAnalysis['signals'];
+    findings: TechnicalFinding[];
+    summary: AuditResult['summary'];
+  }> {
+    const url = /^https?:\/\//i.test(siteUrl) ? siteUrl : `${this.normalizeSiteUrl(siteUrl)}/`;
+    const analysis = analyzeFetchedPage(await fetchPage(url));
+
+    let findings = analysis.findings;
+    if (focusAreas && focusAreas.length > 0) {
+      const areas = focusAreas.map(a => a.toLowerCase());
+      findings = findings.filter(f => areas.includes(f.category) || areas.some(a => f.type.includes(a)));
+    }
+
+    return {
+      url: analysis.url,
+      status: analysis.status,
+      signals: analysis.signals,
+      findings,
+      summary: this.summarize(findings)
+    };
+  }
+
+  /**
+   * Determine whether pages can be indexed: HTTP status, robots.txt, noindex, canonical
+   * and sitemap membership, merged with the latest stored GSC URL inspection.
+   */
+  static async checkIndexing(userToken: string, siteUrl: string, pages?: string[]): Promise<{
+    siteUrl: string;
+    pages: IndexingPageResult[];
+    indexableCount: number;
+    blockedCount: number;
+    findings: TechnicalFinding[];
+  }> {
+    const origin = this.normalizeSiteUrl(siteUrl);
+    const robots = await fetchRobotsTxt(origin);
+    const sitemapEntries = await readSitemapEntries(origin, { sitemapUrls: robots.rules?.sitemaps, limit: 500 });
+    const sitemapUrls = new Set(sitemapEntries.map(e => stripTrailingSlash(e.loc)));
+
+    const targets = (pages && pages.length > 0 ? pages : [`${origin}/`, ...sitemapEntries.slice(0, 19).map(e => e.loc)])
+      .map(p => /^https?:\/\//i.test(p) ? p : `${origin}${p.startsWith('/') ? '' : '/'}${p}`)
+      .slice(0, 50);
+
+    const { data: inspections } = await supabase
+      .from('url_inspections')
+      .select('inspected_url, index_status, coverage_state, last_crawl_time')
+      .eq('user_token', userToken)
+      .in('inspected_url', targets);
+
+    const inspectionByUrl = new Map<string, any>();
+    (inspections || []).forEach((i: any) => inspectionByUrl.set(i.inspected_url, i));
+
+    const results: IndexingPageResult[] = [];
+    for (const url of targets) {
+      const reasons: string[] = [];
+      const blockedByRobotsTxt = !isAllowedByRobots(robots.rules, url, 'Googlebot');
+      if (blockedByRobotsTxt) reasons.push('Blocked by robots.txt');
+
+      let status: number | null = null;
+      let noindex = false;
+      let canonical: string | null = null;
+      try {
+        const page = await fetchPage(url);
+        status = page.status;
+        const signals = extractSignals(page.html, page.finalUrl, page.headers);
+        noindex = `${signals.metaRobots || ''},${signals.xRobotsTag || ''}`.includes('noindex');
+        canonical = signals.canonical;
+        if (page.status >= 400) reasons.push(`Returns HTTP ${page.status}`);
+        if (page.redirected && stripTrailingSlash(page.finalUrl) !== stripTrailingSlash(url)) {
+          reasons.push(`Redirects to ${page.finalUrl}`);
+        }
+        if (noindex) reasons.push('noindex directive');
+      } catch (error) {
+        reasons.push('Page could not be fetched');
+      }
+
+      const canonicalMismatch = !!canonical && stripTrailingSlash(canonical) !== stripTrailingSlash(url);
+      if (canonicalMismatch) reasons.push(`Canonical points to ${canonical}`);
+
+      const inspection = inspectionByUrl.get(url);
+      results.push({
+        url,
+        status,
+        indexable: reasons.length === 0,
+        blockedByRobotsTxt,
+        noindex,
+        canonical,
+        canonicalMismatch,
+        inSitemap: sitemapUrls.has(stripTrailingSlash(url)),
+        gsc: inspection ? {
+          verdict: inspection.index_status,
+          coverageState: inspection.coverage_state,
+          lastCrawlTime: inspection.last_crawl_time
+        } : undefined,
+        reasons
+      });
+    }
+
+    const findings: TechnicalFinding[] = [];
+    results.forEach(r => {
+      if (r.blockedByRobotsTxt) {
+        findings.push({
+          type: 'indexing_blocked_robots',
+          category: 'indexing',
+          severity: 'high',
+          title: 'Page Blocked by robots.txt',
+          description: 'Googlebot is not allowed to crawl this page.',
+          recommendation: 'Remove or narrow the Disallow rule if this page should be indexed.',
+          url: r.url
+        });
+      }
+      if (r.noindex) {
+        findings.push({
+          type: 'page_noindex',
+          category: 'indexing',
+          severity: 'high',
+          title: 'Page Is Marked noindex',
+          description: 'The page carries a noindex directive.',
+          recommendation: 'Remove the noindex directive if this page should appear in search results.',
+          url: r.url
+        });
+      }
+      if (r.status !== null && r.status >= 400) {
+        findings.push({
+          type: 'indexing_error_status',
+          category: 'indexing',
+          severity: r.status >= 500 ? 'critical' : 'high',
+          title: `Page Returns HTTP ${r.status}`,
+          description: `The page responded with status ${r.status}${r.inSitemap ? ' but is listed in the sitemap' : ''}.`,
+          recommendation: 'Restore the page or 301-redirect it, and remove it from the sitemap.',
+          url: r.url
+        });
+      }
+      if (r.canonicalMismatch) {
+        findings.push({
+          type: 'canonical_mismatch',
+          category: 'indexing',
+          severity: 'medium',
+          title: 'Canonical Points Elsewhere',
+          description: `Google will likely index ${r.canonical} instead of this URL.`,
+          recommendation: 'Use a self-referencing canonical unless this page is an intentional duplicate.',
+          url: r.url,
+          metadata: { canonical: r.canonical }
+        });
+      }
+      if (r.indexable && !r.inSitemap && sitemapEntries.length > 0) {
+        findings.push({
+          type: 'indexable_not_in_sitemap',
+          category: 'sitemap',
+          severity: 'low',
+          title: 'Indexable Page Missing From Sitemap',
+          description: 'This page is indexable but not listed in the XML sitemap.',
+          recommendation: 'Add the page to the sitemap so search engines discover updates faster.',
+          url: r.url
+        });
+      }
+    });
+
+    return {
+      siteUrl: origin,
+      pages: results,
+      indexableCount: results.filter(r => r.indexable).length,
+      blockedCount: results.filter(r => !r.indexable).length,
+      findings
+    };
+  }
+
+  /**
+   * Breadth-first internal link crawl from the homepage to map click depth, sections,
+   * orphan sitemap URLs, broken internal links and weakly linked pages.
+   */
+  static async analyzeSiteStructure(siteUrl: string, opts: {
+    maxPages?: number;
+    includeInternalLinks?: boolean;
+  } = {}): Promise<StructureResult> {
+    const origin = this.normalizeSiteUrl(siteUrl);
+    const maxPages = Math.max(1, Math.min(opts.maxPages || 50, MAX_AUDIT_PAGES));
+    const robots = await fetchRobotsTxt(origin);
+
+    const depthByUrl = new Map<string, number>();
+    const inbound = new Map<string, Set<string>>();
+    const outboundCount = new Map<string, number>();
+    const statusByUrl = new Map<string, number>();
+
+    let frontier = [`${origin}/`];
+    depthByUrl.set(stripTrailingSlash(`${origin}/`), 0);
+    let depth = 0;
+
+    while (frontier.length > 0 && statusByUrl.size < maxPages) {
+      const batch = frontier.slice(0, maxPages - statusByUrl.size);
+      const next: string[] = [];
+
+      for (let i = 0; i < batch.length; i += PAGE_FETCH_CONCURRENCY) {
+        const chunk = batch.slice(i, i + PAGE_FETCH_CONCURRENCY);
+        const pages = await Promise.all(chunk.map(url => fetchPage(url).catch(() => null)));
+
+        pages.forEach((page, index) => {
+          const url = stripTrailingSlash(chunk[index]);
+          if (!page) {
+            statusByUrl.set(url, 0);
+            return;
+          }
+          statusByUrl.set(url, page.status);
+          if (page.status >= 400) return;
+
+          const links = extractSignals(page.html, page.finalUrl, page.headers).internalLinks
+            .map(stripTrailingSlash)
+            .filter(link => !/\.(jpg|jpeg|png|gif|svg|webp|pdf|zip|css|js|xml)$/i.test(link));
+          outboundCount.set(url, links.length);
+
+          links.forEach(link => {
+            if (!inbound.has(link)) inbound.set(link, new Set());
+            inbound.get(link)!.add(url);
+            if (!depthByUrl.has(link) && isAllowedByRobots(robots.rules, link, 'Googlebot')) {
+              depthByUrl.set(link, depth + 1);
+              next.push(link);
+            }
+          });
+        });
+      }
+
+      frontier = next;
+      depth++;
+    }
+
+    const crawled = Array.from(statusByUrl.keys());
+    const depthDistribution: Record<string, number> = {};
+    const sectionCounts: Record<string, number> = {};
+    let maxDepth = 0;
+
+    crawled.forEach(url => {
+      const d = depthByUrl.get(url) ?? 0;
+      maxDepth = Math.max(maxDepth, d);
+      depthDistribution[String(d)] = (depthDistribution[String(d)] || 0) + 1;
+      const section = '/' + (new URL(url).pathname.split('/').filter(Boolean)[0] || '');
+      sectionCounts[section] = (sectionCounts[section] || 0) + 1;
+    });
+
+    const sitemapEntries = await readSitemapEntries(origin, { sitemapUrls: robots.rules?.sitemaps, limit: 1000 });
+    const orphanPages = sitemapEntries
+      .map(e => stripTrailingSlash(e.loc))
+      .filter(url => safeOrigin(url) === origin && !inbound.has(url) && url !== stripTrailingSlash(`${origin}/`));
+
+    const deepPages = crawled
+      .map(url => ({ url, depth: depthByUrl.get(url) ?? 0 }))
+      .filter(p => p.depth > 3)
+      .sort((a, b) => b.depth - a.depth);
+
+    const brokenInternalLinks = crawled
+      .filter(url => (statusByUrl.get(url) || 0) >= 400)
+      .map(url => ({
+        url,
+        status: statusByUrl.get(url) || 0,
+        linkedFrom: Array.from(inbound.get(url) || []).slice(0, 10)
+      }));
+
+    const weaklyLinkedPages = crawled
+      .filter(url => url !== stripTrailingSlash(`${origin}/`))
+      .map(url => ({ url, inboundLinks: inbound.get(url)?.size || 0 }))
+      .filter(p => p.inboundLinks <= 1);
+
+    const findings: TechnicalFinding[] = [];
+    brokenInternalLinks.forEach(link => findings.push({
+      type: 'broken_internal_link',
+      category: 'indexing',
+      severity: 'high',
+      title: 'Broken Internal Link Target',
+      description: `Internal links point to a URL returning HTTP ${link.status}.`,
+      recommendation: `Update or remove the links on: ${link.linkedFrom.join(', ') || 'unknown pages'}.`,
+      url: link.url,
+      metadata: { linkedFrom: link.linkedFrom }
+    }));
+    if (orphanPages.length > 0) {
+      findings.push({
+        type: 'orphan_pages',
+        category: 'indexing',
+        severity: orphanPages.length > 10 ? 'high' : 'medium',
+        title: `${orphanPages.length} Orphan Pages`,
+        description: 'These sitemap URLs were not linked from any crawled page.',
+        recommendation: 'Link to these pages from relevant hub or category pages so crawlers and users can reach them.',
+        url: orphanPages[0],
+        metadata: { orphanPages: orphanPages.slice(0, 50) }
+      });
+    }
+    deepPages.forEach(p => findings.push({
+      type: 'deep_page',
+      category: 'indexing',
+      severity: 'low',
+      title: 'Page Buried Deep in Site Structure',
+      description: `This page is ${p.depth} clicks from the homepage.`,
+      recommendation: 'Keep important pages within 3 clicks of the homepage via navigation or hub pages.',
+      url: p.url,
+      metadata: { depth: p.depth }
+    }));
+
+    return {
+      siteUrl: origin,
+      pagesCrawled: crawled.length,
+      maxDepth,
+      depthDistribution,
+      sections: Object.keys(sectionCounts)
+        .map(path => ({ path, pages: sectionCounts[path] }))
+        .sort((a, b) => b.pages - a.pages),
+      orphanPages: orphanPages.slice(0, 50),
+      deepPages: deepPages.slice(0, 25),
+      brokenInternalLinks,
+      weaklyLinkedPages: weaklyLinkedPages.slice(0, 25),
+      internalLinks: opts.includeInternalLinks
+        ? crawled.map(url => ({ url, inbound: inbound.get(url)?.size || 0, outbound: outboundCount.get(url) || 0 }))
+        : undefined,
+      findings
+    };
+  }
+
+  /**
+   * Lab and field performance from the PageSpeed Insights API
+   */
+  static async checkPageSpeed(pageUrl: string, device: string = 'desktop'): Promise<PageSpeedResult> {
+    const strategy: 'mobile' | 'desktop' = device === 'mobile' ? 'mobile' : 'desktop';
+    const params = new URLSearchParams({ url: pageUrl, strategy, category: 'performance' });
+    if (process.env.GOOGLE_PAGESPEED_API_KEY) {
+      params.append('key', process.env.GOOGLE_PAGESPEED_API_KEY);
+    }
+
+    const response = await fetch(`https://www.googleapis.com/pagespeedonline/v5/runPagespeed?${params}`, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(60000)
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`PageSpeed Insights error ${response.status}: ${text.slice(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const audits = data.lighthouseResult?.audits || {};
+    const numeric = (id: string): number | null =>
+      typeof audits[id]?.numericValue === 'number' ? Math.round(audits[id].numericValue * 1000) / 1000 : null;
+
+    const score = data.lighthouseResult?.categories?.performance?.score;
+    const performanceScore = typeof score === 'number' ? Math.round(score * 100) : null;
+
+    const fieldMetrics = data.loadingExperience?.metrics
+      ? Object.keys(data.loadingExperience.metrics).reduce((acc: Record<string, { percentile: number; category: string }>, key) => {
+          acc[key] = {
+            percentile: data.loadingExperience.metrics[key].percentile,
+            category: data.loadingExperience.metrics[key].category
+          };
+          return acc;
+        }, {})
+      : null;
+
+    const opportunities = Object.keys(audits)
+      .map(id => audits[id])
+      .filter((a: any) => a?.details?.type === 'opportunity' && (a.details.overallSavingsMs || 0) > 100)
+      .map((a: any) => ({ id: a.id, title: a.title, savingsMs: Math.round(a.details.overallSavingsMs) }))
+      .sort((a, b) => b.savingsMs - a.savingsMs)
+      .slice(0, 8);
+
+    const labMetrics = {
+      firstContentfulPaintMs: numeric('first-contentful-paint'),
+      largestContentfulPaintMs: numeric('largest-contentful-paint'),
+      totalBlockingTimeMs: numeric('total-blocking-time'),
+      cumulativeLayoutShift: numeric('cumulative-layout-shift'),
+      speedIndexMs: numeric('speed-index')
+    };
+
+    const findings: TechnicalFinding[] = [];
+    if (performanceScore !== null && performanceScore < 90) {
+      findings.push({
+        type: 'performance_score_low',
+        category: 'performance',
+        severity: performanceScore < 50 ? 'high' : 'medium',
+        title: `${strategy === 'mobile' ? 'Mobile' : 'Desktop'} Performance Score ${performanceScore}/100`,
+        description: `Lighthouse rates ${strategy} performance at ${performanceScore}.`,
+        recommendation: opportunities.length > 0
+          ? `Start with: ${opportunities.slice(0, 3).map(o => `${o.title} (~${o.savingsMs}ms)`).join('; ')}.`
+          : 'Reduce render-blocking resources, compress images and minimise main-thread work.',
+        url: pageUrl,
+        metadata: { performanceScore, opportunities }
+      });
+    }
+    if (labMetrics.largestContentfulPaintMs !== null && labMetrics.largestContentfulPaintMs > 2500) {
+      findings.push({
+        type: 'core_vitals_lcp',
+        category: 'core_vitals',
+        severity: labMetrics.largestContentfulPaintMs > 4000 ? 'high' : 'medium',
+        title: 'Slow Largest Contentful Paint',
+        description: `LCP is ${(labMetrics.largestContentfulPaintMs / 1000).toFixed(1)}s (good: under 2.5s).`,
+        recommendation: 'Preload the hero image, serve it in a modern format and reduce server response time.',
+        url: pageUrl,
+        metadata: { lcpMs: labMetrics.largestContentfulPaintMs }
+      });
+    }
+    if (labMetrics.cumulativeLayoutShift !== null && labMetrics.cumulativeLayoutShift > 0.1) {
+      findings.push({
+        type: 'core_vitals_cls',
+        category: 'core_vitals',
+        severity: labMetrics.cumulativeLayoutShift > 0.25 ? 'high' : 'medium',
+        title: 'Layout Shift Too High',
+        description: `CLS is ${labMetrics.cumulativeLayoutShift} (good: under 0.1).`,
+        recommendation: 'Set explicit width/height on images and embeds and avoid inserting content above existing content.',
+        url: pageUrl,
+        metadata: { cls: labMetrics.cumulativeLayoutShift }
+      });
+    }
+    if (labMetrics.totalBlockingTimeMs !== null && labMetrics.totalBlockingTimeMs > 200) {
+      findings.push({
+        type: 'core_vitals_tbt',
+        category: 'core_vitals',
+        severity: labMetrics.totalBlockingTimeMs > 600 ? 'high' : 'medium',
+        title: 'Main Thread Blocked',
+        description: `Total Blocking Time is ${Math.round(labMetrics.totalBlockingTimeMs)}ms (good: under 200ms), which hurts INP.`,
+        recommendation: 'Split long JavaScript tasks, defer third-party scripts and remove unused JavaScript.',
+        url: pageUrl,
+        metadata: { tbtMs: labMetrics.totalBlockingTimeMs }
+      });
+    }
+
+    return { url: pageUrl, device: strategy, performanceScore, labMetrics, fieldMetrics, opportunities, findings };
+  }
+
+  /**
+   * Validate JSON-LD on a page against required/recommended properties per type
+   */
+  static async validateSchema(pageUrl: string, expectedTypes?: string[]): Promise<SchemaValidationResult> {
+    const page = await fetchPage(pageUrl);
+    const signals = extractSignals(page.html, page.finalUrl, page.headers);
+    const findings: TechnicalFinding[] = [];
+
+    signals.jsonLdErrors.forEach(message => findings.push({
+      type: 'schema_invalid_json',
+      category: 'schema',
+      severity: 'high',
+      title: 'Invalid JSON-LD',
+      description: message,
+      recommendation: 'Fix the JSON syntax so search engines can parse the structured data.',
+      url: pageUrl
+    }));
+
+    const items = signals.jsonLd.map(item => {
+      const types: string[] = Array.isArray(item['@type']) ? item['@type'] : [item['@type'] || 'Unknown'];
+      const type = types[0];
+      const rules = SCHEMA_RULES[type];
+      const missingRequired = rules ? rules.required.filter(prop => isEmptyValue(item[prop])) : [];
+      const missingRecommended = rules ? rules.recommended.filter(prop => isEmptyValue(item[prop])) : [];
+
+      if (missingRequired.length > 0) {
+        findings.push({
+          type: 'schema_missing_required',
+          category: 'schema',
+          severity: 'medium',
+          title: `${type} Schema Missing Required Properties`,
+          description: `Missing: ${missingRequired.join(', ')}.`,
+          recommendation: `Add ${missingRequired.join(', ')} to the ${type} markup to stay eligible for rich results.`,
+          url: pageUrl,
+          metadata: { schemaType: type, missingRequired }
+        });
+      }
+      if (missingRecommended.length > 0) {
+        findings.push({
+          type: 'schema_missing_recommended',
+          category: 'schema',
+          severity: 'low',
+          title: `${type} Schema Missing Recommended Properties`,
+          description: `Missing: ${missingRecommended.join(', ')}.`,
+          recommendation: `Consider adding ${missingRecommended.join(', ')} for richer search appearance.`,
+          url: pageUrl,
+          metadata: { schemaType: type, missingRecommended }
+        });
+      }
+
+      return { type, valid: missingRequired.length === 0, missingRequired, missingRecommended };
+    });
+
+    const foundTypes = Array.from(new Set(items.map(i => i.type)));
+    const missingExpectedTypes = (expectedTypes || []).filter(t => !foundTypes.includes(t));
+    if (missingExpectedTypes.length > 0) {
+      findings.push({
+        type: 'schema_expected_type_missing',
+        category: 'schema',
+        severity: 'medium',
+        title: 'Expected Schema Types Not Found',
+        description: `Expected ${missingExpectedTypes.join(', ')} markup on this page.`,
+        recommendation: `Add ${missingExpectedTypes.join(', ')} JSON-LD markup.`,
+        url: pageUrl,
+        metadata: { missingExpectedTypes }
+      });
+    }
+    if (items.length === 0 && signals.jsonLdErrors.length === 0) {
+      findings.push({
+        type: 'schema_missing',
+        category: 'schema',
+        severity: 'medium',
+        title: 'No Structured Data',
+        description: 'The page has no JSON-LD structured data.',
+        recommendation: 'Add schema markup appropriate for the page type.',
+        url: pageUrl
+      });
+    }
+
+    return {
+      url: page.finalUrl,
+      schemasFound: items.length,
+      types: foundTypes,
+      items,
+      missingExpectedTypes,
+      findings
+    };
+  }
+
+  /**
+   * Group findings by type into DetectedIssue objects for ActionItemService
+   */
+  static toDetectedIssues(findings: TechnicalFinding[]): DetectedIssue[] {
+    const byType = new Map<string, TechnicalFinding[]>();
+    findings.forEach(f => {
+      if (!byType.has(f.type)) byType.set(f.type, []);
+      byType.get(f.type)!.push(f);
+    });
+
+    const issues: DetectedIssue[] = [];
+    byType.forEach((group, type) => {
+      const first = group[0];
+      const severity = group.reduce<ActionItem['severity']>(
+        (worst, f) => SEVERITY_RANK[f.severity] > SEVERITY_RANK[worst] ? f.severity : worst,
+        first.severity
+      );
+      const affectedUrls = Array.from(new Set(group.map(f => f.url)));
+
+      issues.push({
+        type: `technical_${type}`,
+        category: first.category,
+        severity,
+        title: affectedUrls.length > 1 ? `${first.title} (${affectedUrls.length} pages)` : first.title,
+        description: affectedUrls.length > 1 ? `${first.description} Found on ${affectedUrls.length} pages.` : first.description,
+        impactDescription: IMPACT_BY_CATEGORY[first.category],
+        fixRecommendation: first.recommendation,
+        affectedUrls,
+        estimatedImpact: severity === 'critical' || severity === 'high' ? 'high' : severity === 'medium' ? 'medium' : 'low',
+        estimatedEffort: EFFORT_BY_CATEGORY[first.category],
+        metadata: { source: 'technical_seo_audit', findings: group.slice(0, 20).map(f => ({ url: f.url, metadata: f.metadata })) }
+      });
+    });
+
+    return issues.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  }
+
+  /**
+   * Persist an audit run into seo_audits / audit_issues so ActionItemService can read it back
+   */
+  static async saveAuditRun(userToken: string, result: AuditResult): Promise<string | null> {
+    const now = new Date().toISOString();
+    const { data: audit, error } = await supabase
+      .from('seo_audits')
+      .insert({
+        user_token: userToken,
+        website_url: result.siteUrl,
+        audit_type: result.auditType,
+        status: 'completed',
+        pages_crawled: result.pagesAnalyzed,
+        pages_total: result.pagesAnalyzed,
+        current_step: 'Audit completed',
+        progress_percentage: 100,
+        overall_score: result.score,
+        total_issues: result.summary.total,
+        critical_issues: result.summary.critical + result.summary.high,
+        warning_issues: result.summary.medium,
+        info_issues: result.summary.low,
+        started_at: now,
+        completed_at: now
+      })
+      .select('id')
+      .single();
+
+    if (error || !audit) {
+      console.error('[TECHNICAL SEO] Failed to store audit run:', error);
+      return null;
+    }
+
+    if (result.findings.length > 0) {
+      const { error: issuesError } = await supabase
+        .from('audit_issues')
+        .insert(result.findings.map(f => ({
+          audit_id: audit.id,
+          user_token: userToken,
+          page_url: f.url,
+          issue_type: f.type,
+          severity: f.severity === 'critical' || f.severity === 'high' ? 'critical' : f.severity === 'medium' ? 'warning' : 'info',
+          category: f.category,
+          title: f.title,
+          description: f.description,
+          recommendation: f.recommendation,
+          impact_score: SEVERITY_RANK[f.severity] * 2,
+          metadata: { ...(f.metadata || {}), severity: f.severity }
+        })));
+
+      if (issuesError) {
+        console.error('[TECHNICAL SEO] Failed to store audit issues:', issuesError);
+      }
+    }
+
+    return audit.id;
+  }
+
+  /**
+   * Findings from the most recent completed audit for a site, rehydrated from audit_issues
+   */
+  static async getLatestAuditFindings(userToken: string, siteUrl: string): Promise<TechnicalFinding[]> {
+    const origin = this.normalizeSiteUrl(siteUrl);
+    const { data: audit } = await supabase
+      .from('seo_audits')
+      .select('id')
+      .eq('user_token', userToken)
+      .eq('website_url', origin)
+      .eq('status', 'completed')
+      .order('completed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!audit) return [];
+
+    const { data: rows } = await supabase
+      .from('audit_issues')
+      .select('*')
+      .eq('audit_id', audit.id)
+      .eq('status', 'active');
+
+    return (rows || []).map((row: any) => ({
+      type: row.issue_type,
+      category: row.category,
+      severity: row.metadata?.severity || (row.severity === 'critical' ? 'high' : row.severity === 'warning' ? 'medium' : 'low'),
+      title: row.title,
+      description: row.description,
+      recommendation: row.recommendation,
+      url: row.page_url,
+      metadata: row.metadata
+    }));
+  }
+
+  // Private helpers
+
+  private static async safeAnalyze(url: string): Promise<PageAnalysis | null> {
+    try {
+      return analyzeFetchedPage(await fetchPage(url));
+    } catch (error) {
+      console.log(`[TECHNICAL SEO] Failed to analyze ${url}:`, error);
+      return null;
+    }
+  }
+
+  private static async analyzeMany(urls: string[]): Promise<PageAnalysis[]> {
+    const results: PageAnalysis[] = [];
+    for (let i = 0; i < urls.length; i += PAGE_FETCH_CONCURRENCY) {
+      const chunk = urls.slice(i, i + PAGE_FETCH_CONCURRENCY);
+      const analyses = await Promise.all(chunk.map(url => this.safeAnalyze(url)));
+      analyses.forEach(a => { if (a) results.push(a); });
+    }
+    return results;
+  }
+
+  private static findDuplicates(analyses: PageAnalysis[]): TechnicalFinding[] {
+    const findings: TechnicalFinding[] = [];
+    const group = (key: (a: PageAnalysis) => string | null) => {
+      const map = new Map<string, string[]>();
+      analyses.forEach(a => {
+        const value = key(a);
+        if (!value) return;
+        if (!map.has(value)) map.set(value, []);
+        map.get(value)!.push(a.url);
+      });
+      return map;
+    };
+
+    group(a => a.signals.title).forEach((urls, title) => {
+      if (urls.length < 2) return;
+      urls.forEach(url => findings.push({
+        type: 'duplicate_title',
+        category: 'meta_tags',
+        severity: 'medium',
+        title: 'Duplicate Page Title',
+        description: `"${title}" is used on ${urls.length} pages.`,
+        recommendation: 'Give every page a unique title describing its specific content.',
+        url,
+        metadata: { duplicateOf: urls.filter(u => u !== url) }
+      }));
+    });
+
+    group(a => a.signals.metaDescription).forEach((urls) => {
+      if (urls.length < 2) return;
+      urls.forEach(url => findings.push({
+        type: 'duplicate_meta_description',
+        category: 'meta_tags',
+        severity: 'low',
+        title: 'Duplicate Meta Description',
+        description: `The same meta description is used on ${urls.length} pages.`,
+        recommendation: 'Write a unique meta description for each page.',
+        url,
+        metadata: { duplicateOf: urls.filter(u => u !== url) }
+      }));
+    });
+
+    return findings;
+  }
+
+  private static filterByAuditType(findings: TechnicalFinding[], auditType: string): TechnicalFinding[] {
+    switch (auditType) {
+      case 'performance':
+        return findings.filter(f => f.category === 'performance' || f.category === 'core_vitals');
+      case 'content':
+        return findings.filter(f => f.category === 'meta_tags' || f.category === 'alt_tags' || f.category === 'schema');
+      case 'technical':
+        return findings.filter(f => f.category !== 'alt_tags');
+      default:
+        return findings;
+    }
+  }
+
+  private static summarize(findings: TechnicalFinding[]): AuditResult['summary'] {
+    const summary = { critical: 0, high: 0, medium: 0, low: 0, total: findings.length };
+    findings.forEach(f => { summary[f.severity]++; });
+    return summary;
+  }
+
+  private static calculateScore(findings: TechnicalFinding[], pageCount: number): number {
+    const weights: Record<ActionItem['severity'], number> = { critical: 15, high: 8, medium: 3, low: 1 };
+    const penalty = findings.reduce((sum, f) => sum + weights[f.severity], 0);
+    // Normalise per page so large sites are not punished for size alone
+    const perPage = penalty / Math.max(1, Math.sqrt(pageCount));
+    return Math.max(0, Math.round(100 - perPage));
+  }
+}
+
+const IMPACT_BY_CATEGORY: Record<ActionItem['issue_category'], string> = {
+  indexing: 'Affected pages may be missing from Google search results entirely.',
+  sitemap: 'Search engines discover new and updated pages more slowly.',
+  robots: 'Crawlers may be blocked from important content or waste crawl budget.',
+  schema: 'Pages miss out on rich results that improve visibility and click-through.',
+  mobile: 'Mobile rankings and user experience suffer under mobile-first indexing.',
+  performance: 'Slow pages rank lower and lose visitors before they load.',
+  meta_tags: 'Search snippets are less relevant, lowering click-through rate.',
+  alt_tags: 'Images are not discoverable in image search and accessibility suffers.',
+  core_vitals: 'Poor Core Web Vitals are a ranking signal and hurt conversions.',
+  security: 'Browsers flag the site as insecure, reducing trust and rankings.',
+  content: 'AI search engines understand and cite the page less often.'
+};
+
+const EFFORT_BY_CATEGORY: Record<ActionItem['issue_category'], 'easy' | 'medium' | 'hard'> = {
+  indexing: 'medium',
+  sitemap: 'easy',
+  robots: 'easy',
+  schema: 'easy',
+  mobile: 'medium',
+  performance: 'hard',
+  meta_tags: 'easy',
+  alt_tags: 'easy',
+  core_vitals: 'hard',
+  security: 'medium',
+  content: 'medium'
+};
+
+function stripTrailingSlash(url: string): string {
+  return url.length > 1 ? url.replace(/\/+$/, '') : url;
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
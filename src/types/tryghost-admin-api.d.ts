@@ -1,44 +1,82 @@
 declare module '@tryghost/admin-api' {
-  interface GhostAdminAPIOptions {
+  export interface GhostAdminAPIOptions {
     url: string;
     key: string;
     version: string;
   }
 
-  interface GhostPost {
+  export interface GhostTag {
     id?: string;
-    title: string;
+    name?: string;
+    slug?: string;
+  }
+
+  export interface GhostAuthor {
+    id?: string;
+    name?: string;
+    slug?: string;
+    email?: string;
+  }
+
+  export interface GhostPost {
+    id?: string;
+    uuid?: string;
+    title?: string;
     lexical?: string;
     html?: string;
-    status?: 'draft' | 'published';
+    status?: 'draft' | 'published' | 'scheduled';
     slug?: string;
+    excerpt?: string;
     custom_excerpt?: string;
-    published_at?: string;
-    feature_image?: string;
+    published_at?: string | null;
+    created_at?: string;
+    updated_at?: string;
+    feature_image?: string | null;
+    feature_image_alt?: string | null;
     meta_title?: string;
     meta_description?: string;
-    tags?: Array<{ name: string }>;
+    tags?: GhostTag[];
+    authors?: GhostAuthor[];
+    primary_author?: GhostAuthor;
+    visibility?: string;
+    featured?: boolean;
     url?: string;
   }
 
-  interface GhostSiteInfo {
+  export interface GhostSiteInfo {
     title?: string;
     description?: string;
     version?: string;
   }
 
-  interface GhostAdminAPI {
+  export interface GhostImage {
+    url: string;
+    ref?: string | null;
+  }
+
+  export interface GhostAdminAPI {
     posts: {
       add(data: GhostPost, options?: { source?: string }): Promise<GhostPost>;
-      browse(options?: { limit?: number }): Promise<GhostPost[]>;
+      edit(data: GhostPost & { id: string; updated_at: string }, options?: { source?: string }): Promise<GhostPost>;
+      read(data: { id?: string; slug?: string }, options?: { formats?: string; include?: string }): Promise<GhostPost>;
+      browse(options?: { limit?: number | 'all'; filter?: string; include?: string; formats?: string }): Promise<GhostPost[]>;
       delete(options: { id: string }): Promise<void>;
     };
+    tags: {
+      browse(options?: { limit?: number | 'all'; filter?: string }): Promise<GhostTag[]>;
+    };
+    users: {
+      browse(options?: { limit?: number | 'all'; filter?: string }): Promise<GhostAuthor[]>;
+    };
+    images: {
+      upload(data: { file: string; purpose?: string; ref?: string }): Promise<GhostImage>;
+    };
     site: {
       read(): Promise<GhostSiteInfo>;
     };
   }
 
-  interface GhostAdminAPIConstructor {
+  export interface GhostAdminAPIConstructor {
     new (options: GhostAdminAPIOptions): GhostAdminAPI;
   }
 
@@ -0,0 +1,34 @@
+-- Migration: Per-website crawler selection and built-in crawl jobs
+-- Description: Lets each website choose between Firecrawl and the built-in crawler, and stores
+--              results of built-in crawl jobs so they can be polled like Firecrawl jobs
+-- Created: 2026-10-18
+
+-- Crawler selection on websites
+ALTER TABLE websites
+ADD COLUMN IF NOT EXISTS crawler_provider VARCHAR(20) DEFAULT 'auto'
+    CHECK (crawler_provider IN ('auto', 'firecrawl', 'builtin')),
+ADD COLUMN IF NOT EXISTS crawler_settings JSONB DEFAULT '{}';
+
+COMMENT ON COLUMN websites.crawler_provider IS 'auto = Firecrawl when configured with fallback to the built-in crawler; firecrawl or builtin force one provider';
+COMMENT ON COLUMN websites.crawler_settings IS 'Built-in crawler overrides: {respectRobots, maxConcurrencyPerHost, delayMs, headers}';
+
+-- Built-in crawl jobs
+CREATE TABLE IF NOT EXISTS crawl_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_token VARCHAR(255) REFERENCES login_users(token) ON DELETE CASCADE,
+    site_url TEXT NOT NULL,
+    provider VARCHAR(20) NOT NULL DEFAULT 'builtin',
+    status VARCHAR(20) NOT NULL DEFAULT 'scraping'
+        CHECK (status IN ('scraping', 'completed', 'failed')),
+    options JSONB DEFAULT '{}',
+    pages JSONB DEFAULT '[]',
+    pages_count INTEGER DEFAULT 0,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_jobs_user_token ON crawl_jobs(user_token);
+CREATE INDEX IF NOT EXISTS idx_crawl_jobs_created_at ON crawl_jobs(created_at DESC);
+
+ALTER TABLE crawl_jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,122 @@
+-- Migration: Reversible agent patches
+-- Description: Restores the agent run/patch tables removed in 060 (the patch pipeline needs them again)
+--              and adds before/after snapshots so every applied patch can be rolled back
+-- Created: 2026-10-18
+
+-- 1. AGENT ACTIONS / RUNS / PATCHES (same shape as 039)
+CREATE TABLE IF NOT EXISTS agent_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idea_id UUID REFERENCES agent_ideas(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  action_type VARCHAR(100) NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  payload JSONB DEFAULT '{}',
+  policy JSONB DEFAULT '{}',
+  status agent_action_status DEFAULT 'proposed',
+  priority_score INTEGER DEFAULT 50,
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  recurring_pattern VARCHAR(100),
+  next_occurrence TIMESTAMP WITH TIME ZONE,
+  queued_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  retry_count INTEGER DEFAULT 0,
+  max_retries INTEGER DEFAULT 3,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS agent_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action_id UUID NOT NULL REFERENCES agent_actions(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) UNIQUE NOT NULL,
+  policy JSONB NOT NULL,
+  status agent_run_status DEFAULT 'queued',
+  stats JSONB DEFAULT '{}',
+  budget_consumed JSONB DEFAULT '{}',
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  output_data JSONB DEFAULT '{}',
+  error_details TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS agent_patches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES agent_runs(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+  target_url TEXT NOT NULL,
+  selector TEXT,
+  element_type VARCHAR(50),
+  change_type VARCHAR(50) NOT NULL,
+  before_value TEXT,
+  after_value TEXT,
+  rationale TEXT NOT NULL,
+  risk_level risk_level DEFAULT 'low',
+  status agent_patch_status DEFAULT 'suggested',
+  applied_at TIMESTAMP WITH TIME ZONE,
+  reverted_at TIMESTAMP WITH TIME ZONE,
+  verification_status VARCHAR(20),
+  verification_details JSONB DEFAULT '{}',
+  revert_patch_id UUID REFERENCES agent_patches(id),
+  is_revert BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. SNAPSHOTS FOR ROLLBACK
+ALTER TABLE agent_patches
+ADD COLUMN IF NOT EXISTS before_snapshot JSONB,
+ADD COLUMN IF NOT EXISTS after_snapshot JSONB,
+ADD COLUMN IF NOT EXISTS rollback_reason TEXT,
+ADD COLUMN IF NOT EXISTS reverted_by VARCHAR(20); -- 'user' | 'system'
+
+COMMENT ON COLUMN agent_patches.before_snapshot IS 'State of the patched target before the patch: {store, key, existed, values}';
+COMMENT ON COLUMN agent_patches.after_snapshot IS 'State written by the patch, used to detect drift before rolling back';
+COMMENT ON COLUMN agent_patches.reverted_by IS 'Who rolled the patch back: user (API/chat) or system (failed verification)';
+
+-- 3. CANONICAL AND SCHEMA OVERRIDES SERVED ALONGSIDE META TAGS
+ALTER TABLE meta_tags
+ADD COLUMN IF NOT EXISTS canonical_url TEXT,
+ADD COLUMN IF NOT EXISTS schema_markup JSONB;
+
+COMMENT ON COLUMN meta_tags.canonical_url IS 'Canonical URL override set by set_canonical patches';
+COMMENT ON COLUMN meta_tags.schema_markup IS 'JSON-LD injected by inject_schema patches';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_agent_actions_user_token ON agent_actions(user_token);
+CREATE INDEX IF NOT EXISTS idx_agent_actions_status ON agent_actions(status);
+CREATE INDEX IF NOT EXISTS idx_agent_runs_action_id ON agent_runs(action_id);
+CREATE INDEX IF NOT EXISTS idx_agent_runs_status ON agent_runs(status);
+CREATE INDEX IF NOT EXISTS idx_agent_patches_run_id ON agent_patches(run_id);
+CREATE INDEX IF NOT EXISTS idx_agent_patches_target_url ON agent_patches(target_url);
+CREATE INDEX IF NOT EXISTS idx_agent_patches_status ON agent_patches(status);
+
+-- RLS
+ALTER TABLE agent_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_patches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS agent_actions_user_access ON agent_actions;
+CREATE POLICY agent_actions_user_access ON agent_actions
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS agent_runs_user_access ON agent_runs;
+CREATE POLICY agent_runs_user_access ON agent_runs
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS agent_patches_user_access ON agent_patches;
+CREATE POLICY agent_patches_user_access ON agent_patches
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
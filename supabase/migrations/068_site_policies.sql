@@ -0,0 +1,41 @@
+-- Migration: Per-site agent policy overrides
+-- Description: Stores the site-level policy that PolicyEngine.validatePolicy enforces on every
+--              agent action (environments, blocked paths, limits, approvals, quiet hours)
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS site_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+  domain TEXT NOT NULL, -- cleaned domain, e.g. example.com
+
+  allowed_environments TEXT[] DEFAULT ARRAY['DRY_RUN', 'STAGING', 'PRODUCTION'],
+  blocked_paths TEXT[] DEFAULT '{}',
+  max_pages INTEGER,
+  max_patches INTEGER,
+  approval_requirements JSONB DEFAULT '{}', -- { "technical_seo_fix": true, "content_generation": false }
+  quiet_hours JSONB,                        -- { "start": "22:00", "end": "07:00", "timezone": "Europe/Berlin", "days": [1,2,3,4,5] }
+  locked BOOLEAN DEFAULT FALSE,             -- site policy wins over policies requested by the agent or API callers
+
+  updated_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_token, domain),
+  CONSTRAINT site_policies_max_pages_check CHECK (max_pages IS NULL OR max_pages >= 0),
+  CONSTRAINT site_policies_max_patches_check CHECK (max_patches IS NULL OR max_patches >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_policies_user_token ON site_policies(user_token);
+
+COMMENT ON TABLE site_policies IS 'Per-site overrides enforced by PolicyEngine.validatePolicy';
+COMMENT ON COLUMN site_policies.blocked_paths IS 'Path prefixes (or globs with *) the agent must never change';
+COMMENT ON COLUMN site_policies.approval_requirements IS 'Action type -> whether it needs approval on this site';
+COMMENT ON COLUMN site_policies.quiet_hours IS 'Window in which site-changing actions are deferred';
+COMMENT ON COLUMN site_policies.locked IS 'When true, requested policies cannot loosen the site policy';
+
+ALTER TABLE site_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY site_policies_user_access ON site_policies
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,45 @@
+-- Migration: Agent approval inbox
+-- Description: Approval requests for agent actions that PolicyEngine marks approvalRequired,
+--              with a patch diff preview and a record of who decided what
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS agent_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action_id UUID NOT NULL REFERENCES agent_actions(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  action_type VARCHAR(100) NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+
+  policy_summary JSONB DEFAULT '{}',    -- environment, blast radius, limits
+  risk_assessment JSONB DEFAULT '{}',   -- level, affected pages, rollback availability
+  patch_preview JSONB DEFAULT '[]',     -- [{ targetUrl, changeType, before, after }]
+
+  -- Decision
+  decided_by VARCHAR(255),              -- email (or token) of the person who decided
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decision_note TEXT,
+  edited_payload JSONB,                 -- payload as approved, when edited before approval
+  run_id UUID REFERENCES agent_runs(id) ON DELETE SET NULL,
+  job_id TEXT,
+
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one open request per action
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_approvals_pending_action
+  ON agent_approvals(action_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_agent_approvals_user_status ON agent_approvals(user_token, status, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_approvals_site ON agent_approvals(site_url);
+
+COMMENT ON TABLE agent_approvals IS 'Human approval queue for agent actions that require approval before execution';
+
+ALTER TABLE agent_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY agent_approvals_user_access ON agent_approvals
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,63 @@
+-- Migration: User-defined workflow templates
+-- Description: Stored, versioned workflow templates (same shape as WorkflowEngine's built-in templates)
+--              and per-site schedules that run them
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS workflow_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+  template_key VARCHAR(100) NOT NULL, -- stable id across versions, e.g. "monthly_meta_refresh"
+  version INTEGER NOT NULL DEFAULT 1,
+
+  name TEXT NOT NULL,
+  description TEXT,
+  category VARCHAR(50) NOT NULL DEFAULT 'custom',
+  triggers TEXT[] DEFAULT '{}',
+  risk_level VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (risk_level IN ('low', 'medium', 'high')),
+  estimated_duration INTEGER DEFAULT 0, -- minutes
+  actions JSONB NOT NULL,               -- WorkflowAction[]
+  dependencies JSONB DEFAULT '[]',      -- WorkflowDependency[]
+
+  is_latest BOOLEAN DEFAULT TRUE,
+  is_active BOOLEAN DEFAULT TRUE,       -- false once the template is deleted
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_token, template_key, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_templates_latest
+  ON workflow_templates(user_token, template_key) WHERE is_latest = TRUE;
+
+CREATE TABLE IF NOT EXISTS workflow_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  workflow_id VARCHAR(100) NOT NULL,    -- built-in template id or user template_key
+  version INTEGER,                      -- pinned version; NULL runs the latest
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_result JSONB,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_schedules_due ON workflow_schedules(next_run_at) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_workflow_schedules_user ON workflow_schedules(user_token);
+
+COMMENT ON TABLE workflow_templates IS 'User-defined WorkflowEngine templates; every save creates a new version';
+COMMENT ON TABLE workflow_schedules IS 'Recurring workflow runs, picked up by /api/cron/run-workflow-schedules';
+
+ALTER TABLE workflow_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY workflow_templates_user_access ON workflow_templates
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY workflow_schedules_user_access ON workflow_schedules
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
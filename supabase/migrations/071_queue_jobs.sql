@@ -0,0 +1,35 @@
+-- Migration: Database-backed job queue
+-- Description: Job storage for the local queue backend used when Redis (BullMQ) is disabled
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS queue_jobs (
+  id TEXT PRIMARY KEY,                  -- job id / idempotency key
+  queue_name VARCHAR(100) NOT NULL,     -- one of QUEUE_NAMES
+  name TEXT NOT NULL,
+  data JSONB DEFAULT '{}',
+
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'active', 'completed', 'failed')),
+  priority INTEGER DEFAULT 0,           -- lower runs first
+  attempts_made INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  backoff_delay INTEGER DEFAULT 2000,   -- ms, doubled after every failed attempt
+  run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- delayed/retrying jobs wait until then
+  locked_until TIMESTAMP WITH TIME ZONE,         -- active jobs past this are considered stalled
+
+  progress JSONB,
+  result JSONB,
+  error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_jobs_claim ON queue_jobs(queue_name, status, priority, run_at);
+CREATE INDEX IF NOT EXISTS idx_queue_jobs_finished ON queue_jobs(finished_at) WHERE status IN ('completed', 'failed');
+
+COMMENT ON TABLE queue_jobs IS 'Jobs for the local (non-Redis) queue backend of AgentQueueManager';
+
+-- Service role only
+ALTER TABLE queue_jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,30 @@
+-- Migration: Queue dead-letter store
+-- Description: Jobs that failed their final attempt on any AgentQueueManager queue, kept
+--              after BullMQ/queue_jobs cleanup so they can be inspected, requeued or discarded
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS queue_dead_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue_name VARCHAR(100) NOT NULL,     -- one of QUEUE_NAMES
+  job_id TEXT NOT NULL,
+  job_name TEXT NOT NULL,
+  data JSONB DEFAULT '{}',
+  error TEXT,
+  attempts_made INTEGER DEFAULT 0,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'dead'
+    CHECK (status IN ('dead', 'requeued', 'discarded')),
+  requeued_job_id TEXT,                 -- job created when the entry was requeued
+  resolved_by VARCHAR(255),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_dead_letters_queue_status ON queue_dead_letters(queue_name, status, failed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_queue_dead_letters_job ON queue_dead_letters(job_id);
+
+COMMENT ON TABLE queue_dead_letters IS 'Dead-letter queue: jobs that exhausted their retry attempts';
+
+-- Service role only
+ALTER TABLE queue_dead_letters ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,52 @@
+-- Migration: CMS content inventory
+-- Description: Normalized copy of every post on each connected CMS, kept current by
+--              /api/cms/sync and /api/cron/sync-cms-content, with change detection on the
+--              CMS's updated timestamp. Edits to posts SEOAgent published flow back to article_queue.
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS cms_content_inventory (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id INTEGER NOT NULL REFERENCES cms_connections(id) ON DELETE CASCADE,
+  website_id INTEGER REFERENCES websites(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL,
+  external_id TEXT NOT NULL,            -- post ID in the CMS
+  article_queue_id INTEGER REFERENCES article_queue(id) ON DELETE SET NULL, -- set when SEOAgent published it
+
+  title TEXT,
+  slug TEXT,
+  url TEXT,
+  status VARCHAR(20),                   -- published | draft
+  excerpt TEXT,
+  content TEXT,
+  content_hash VARCHAR(64),             -- sha256 of content, for CMSs without an updated timestamp
+  word_count INTEGER DEFAULT 0,
+  tags JSONB DEFAULT '[]',
+  categories JSONB DEFAULT '[]',
+  author TEXT,
+
+  published_at TIMESTAMP WITH TIME ZONE,
+  cms_updated_at TIMESTAMP WITH TIME ZONE, -- updatedAt reported by the CMS
+
+  first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  removed_at TIMESTAMP WITH TIME ZONE,  -- no longer returned by the CMS
+
+  UNIQUE(connection_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_content_inventory_website ON cms_content_inventory(website_id) WHERE removed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_cms_content_inventory_article ON cms_content_inventory(article_queue_id);
+CREATE INDEX IF NOT EXISTS idx_cms_content_inventory_slug ON cms_content_inventory(website_id, slug);
+
+COMMENT ON TABLE cms_content_inventory IS 'All posts on connected CMSs, synced from CMSProvider.getArticles';
+
+-- Last CMS-side modification applied to the article (two-way sync)
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS cms_updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE cms_content_inventory ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY cms_content_inventory_user_access ON cms_content_inventory
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,78 @@
+-- Migration: Content refresh
+-- Description: Revisits published articles whose GSC clicks/positions are decaying. A refresh is
+--              proposed (regenerated or extended body), reviewed as a diff, then pushed to the CMS
+--              through CMSProvider.updateArticle. The body it replaces is kept in article_versions.
+-- Created: 2026-10-18
+
+-- Snapshots of an article body taken before it is replaced
+CREATE TABLE IF NOT EXISTS article_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_queue_id INTEGER NOT NULL REFERENCES article_queue(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL,
+  version_number INTEGER NOT NULL,
+  title TEXT,
+  meta_title TEXT,
+  meta_description TEXT,
+  article_content TEXT,
+  source VARCHAR(30) NOT NULL DEFAULT 'manual', -- refresh | manual
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(article_queue_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_versions_article ON article_versions(article_queue_id, version_number DESC);
+
+COMMENT ON TABLE article_versions IS 'Previous bodies of an article, snapshotted before each replacement';
+
+-- Proposed revisions of decaying articles, awaiting review
+CREATE TABLE IF NOT EXISTS content_refreshes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_queue_id INTEGER NOT NULL REFERENCES article_queue(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL,
+  website_id INTEGER REFERENCES websites(id) ON DELETE CASCADE,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'published', 'rejected', 'failed')),
+  strategy VARCHAR(20) NOT NULL DEFAULT 'extend'
+    CHECK (strategy IN ('extend', 'regenerate')),
+  trigger VARCHAR(20) NOT NULL DEFAULT 'decay', -- decay | manual
+  decay_metrics JSONB DEFAULT '{}',             -- clicks/position for the current and previous windows
+
+  base_content_hash VARCHAR(64),                -- body the proposal was generated from
+  proposed_title TEXT,
+  proposed_meta_title TEXT,
+  proposed_meta_description TEXT,
+  proposed_content TEXT,
+
+  previous_version_id UUID REFERENCES article_versions(id) ON DELETE SET NULL,
+  error_message TEXT,
+  reviewed_by VARCHAR(255),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_refreshes_user_status ON content_refreshes(user_token, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_refreshes_article ON content_refreshes(article_queue_id, created_at DESC);
+
+-- At most one open proposal per article
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_refreshes_open
+  ON content_refreshes(article_queue_id) WHERE status = 'proposed';
+
+COMMENT ON TABLE content_refreshes IS 'Refresh proposals for decaying published articles, picked up by /api/cron/refresh-decaying-content';
+
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE article_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_refreshes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY article_versions_user_access ON article_versions
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY content_refreshes_user_access ON content_refreshes
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
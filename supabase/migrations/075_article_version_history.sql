@@ -0,0 +1,11 @@
+-- Migration: Article version history
+-- Description: Every generation, manual edit, link injection, CMS-side edit, refresh and restore
+--              records the resulting body in article_versions. content_hash lets consecutive
+--              identical bodies collapse into one version.
+-- Created: 2026-10-18
+
+ALTER TABLE article_versions ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+ALTER TABLE article_versions ADD COLUMN IF NOT EXISTS created_by VARCHAR(255);
+
+COMMENT ON COLUMN article_versions.source IS 'generation | manual_edit | link_injection | cms_edit | refresh | restore | snapshot';
+COMMENT ON TABLE article_versions IS 'Version history of article bodies; each row is the body as it was after the change named in source';
@@ -0,0 +1,22 @@
+-- Migration: Per-site publishing schedule rules
+-- Description: Publishing days and times in the site's IANA timezone, blackout dates and a
+--              max per day/week for each website. NULL columns fall back to the plan tier's
+--              pattern; the caps are always clamped to what the plan allows.
+-- Created: 2026-10-18
+
+ALTER TABLE content_schedules ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) DEFAULT 'UTC';
+ALTER TABLE content_schedules ADD COLUMN IF NOT EXISTS publish_days SMALLINT[];
+ALTER TABLE content_schedules ADD COLUMN IF NOT EXISTS publish_times TEXT[];
+ALTER TABLE content_schedules ADD COLUMN IF NOT EXISTS blackout_dates TEXT[] DEFAULT '{}';
+ALTER TABLE content_schedules ADD COLUMN IF NOT EXISTS max_per_day INTEGER CHECK (max_per_day IS NULL OR max_per_day > 0);
+ALTER TABLE content_schedules ADD COLUMN IF NOT EXISTS max_per_week INTEGER CHECK (max_per_week IS NULL OR max_per_week > 0);
+
+COMMENT ON COLUMN content_schedules.timezone IS 'IANA timezone publishing days, times and blackout dates are read in';
+COMMENT ON COLUMN content_schedules.publish_days IS 'Weekdays to publish on, 0 = Sunday ... 6 = Saturday (NULL = plan pattern)';
+COMMENT ON COLUMN content_schedules.publish_times IS 'HH:mm wall-clock publishing times (NULL = plan pattern)';
+COMMENT ON COLUMN content_schedules.blackout_dates IS 'YYYY-MM-DD single dates or MM-DD yearly dates nothing is published on';
+
+-- Scheduled items are looked up per site when checking the caps
+CREATE INDEX IF NOT EXISTS idx_article_queue_website_scheduled_publish
+    ON article_queue(website_id, scheduled_publish_at)
+    WHERE scheduled_publish_at IS NOT NULL;
@@ -0,0 +1,74 @@
+-- Migration: Editorial review of generated articles
+-- Description: Generated articles wait for approval before they can be published. Reviewers open
+--              a tokenized preview link, leave inline comments anchored to quoted passages and
+--              approve or request changes; a change request revises the draft with their feedback.
+--              Every review action is recorded in article_review_events.
+-- Created: 2026-10-18
+
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+  CHECK (review_status IN ('pending', 'changes_requested', 'revising', 'approved'));
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS preview_token VARCHAR(64);
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(255);
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_queue_preview_token
+  ON article_queue(preview_token) WHERE preview_token IS NOT NULL;
+
+-- Articles generated before review existed keep publishing as they did
+UPDATE article_queue
+SET review_status = 'approved', reviewed_by = 'system', reviewed_at = NOW()
+WHERE article_content IS NOT NULL;
+
+COMMENT ON COLUMN article_queue.review_status IS 'pending | changes_requested | revising | approved; only approved articles can be published';
+COMMENT ON COLUMN article_queue.preview_token IS 'Secret of the shareable /review/<token> preview link; null when no link is active';
+COMMENT ON COLUMN article_versions.source IS 'generation | manual_edit | link_injection | cms_edit | refresh | review_revision | restore | snapshot';
+
+-- Inline comments left on the preview
+CREATE TABLE IF NOT EXISTS article_review_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_queue_id INTEGER NOT NULL REFERENCES article_queue(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL,             -- article owner
+  author_name VARCHAR(120) NOT NULL,
+  via VARCHAR(20) NOT NULL DEFAULT 'preview_link'
+    CHECK (via IN ('owner', 'preview_link')),
+  quote TEXT,                                   -- passage the comment is anchored to; null = whole article
+  body TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'resolved')),
+  resolved_by VARCHAR(255),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_review_comments_article ON article_review_comments(article_queue_id, created_at);
+
+-- Audit trail of everything that happened during review
+CREATE TABLE IF NOT EXISTS article_review_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_queue_id INTEGER NOT NULL REFERENCES article_queue(id) ON DELETE CASCADE,
+  user_token VARCHAR(255) NOT NULL,
+  action VARCHAR(40) NOT NULL,                  -- preview_link_created | preview_link_revoked | comment_added | comment_resolved | changes_requested | revised | revision_failed | approved | approval_withdrawn | resubmitted
+  actor VARCHAR(255) NOT NULL,
+  via VARCHAR(20) NOT NULL DEFAULT 'owner'
+    CHECK (via IN ('owner', 'preview_link', 'system')),
+  note TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_review_events_article ON article_review_events(article_queue_id, created_at DESC);
+
+COMMENT ON TABLE article_review_events IS 'Review history of an article: preview links, comments, change requests, revisions and approvals';
+
+ALTER TABLE article_review_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE article_review_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY article_review_comments_user_access ON article_review_comments
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY article_review_events_user_access ON article_review_events
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,58 @@
+-- Migration: Multilingual articles and hreflang-linked translations
+-- Description: Per-site locales (where each language is published: CMS connection, blog or
+--              collection, CMS locale code) and localized variants of articles. A translation
+--              points at the article it was translated from; the original and its translations
+--              form one group that hreflang tags and sitemap alternates are built from.
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS website_locales (
+    id SERIAL PRIMARY KEY,
+    user_token VARCHAR(255) NOT NULL REFERENCES login_users(token) ON DELETE CASCADE,
+    website_id INTEGER NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    language VARCHAR(16) NOT NULL,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    cms_connection_id INTEGER REFERENCES cms_connections(id) ON DELETE SET NULL,
+    target_blog_id VARCHAR(255),
+    cms_locale VARCHAR(32),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(website_id, language)
+);
+
+COMMENT ON TABLE website_locales IS 'Languages a website publishes in and where each one is published';
+COMMENT ON COLUMN website_locales.language IS 'BCP 47 language tag used for hreflang, e.g. de, pt-BR';
+COMMENT ON COLUMN website_locales.is_default IS 'Language of original articles; its variant is the hreflang x-default';
+COMMENT ON COLUMN website_locales.cms_connection_id IS 'CMS the language is published to (NULL = the article''s own connection)';
+COMMENT ON COLUMN website_locales.target_blog_id IS 'Blog, collection, content type or content directory for the language (NULL = the article''s own)';
+COMMENT ON COLUMN website_locales.cms_locale IS 'Locale code in CMSs with built-in localization (Contentful, Strapi i18n, Polylang), e.g. de-DE';
+
+-- One default language per site
+CREATE UNIQUE INDEX IF NOT EXISTS idx_website_locales_default
+    ON website_locales(website_id)
+    WHERE is_default;
+
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS language VARCHAR(16);
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS translation_of INTEGER REFERENCES article_queue(id) ON DELETE SET NULL;
+ALTER TABLE article_queue ADD COLUMN IF NOT EXISTS cms_locale VARCHAR(32);
+
+COMMENT ON COLUMN article_queue.language IS 'BCP 47 language of the article (NULL = the site''s default language)';
+COMMENT ON COLUMN article_queue.translation_of IS 'Original article this one was translated from (NULL for originals)';
+COMMENT ON COLUMN article_queue.cms_locale IS 'CMS locale the article is published into, copied from website_locales';
+COMMENT ON COLUMN article_versions.source IS 'generation | manual_edit | link_injection | cms_edit | refresh | review_revision | translation | restore | snapshot';
+
+-- One variant per language and original
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_queue_translation_language
+    ON article_queue(translation_of, language)
+    WHERE translation_of IS NOT NULL;
+
+-- hreflang lookups by published URL, from seoagent.js and sitemap generation
+CREATE INDEX IF NOT EXISTS idx_article_queue_website_public_url
+    ON article_queue(website_id, public_url)
+    WHERE public_url IS NOT NULL;
+
+ALTER TABLE website_locales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY website_locales_user_access ON website_locales
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,13 @@
+-- Migration: Server-side delivery of seoagent.js fixes
+-- Description: Per-site switch between client delivery (seoagent.js edits the page in the browser)
+--              and edge delivery (the SEOAgent renderer writes stored meta, alt text, schema,
+--              canonical, hreflang and Open Graph tags into the HTML before it is served, so
+--              crawlers that don't run JavaScript see them).
+-- Created: 2026-10-18
+
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS seo_delivery VARCHAR(10) NOT NULL DEFAULT 'client'
+    CHECK (seo_delivery IN ('client', 'edge'));
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS seo_edge_origin TEXT;
+
+COMMENT ON COLUMN websites.seo_delivery IS 'client = seoagent.js applies fixes in the browser; edge = the renderer applies them server-side';
+COMMENT ON COLUMN websites.seo_edge_origin IS 'Origin the renderer fetches pages from when it sits in front of the site (NULL = the page URL itself, for middleware deployments)';
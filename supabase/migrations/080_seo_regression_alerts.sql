@@ -0,0 +1,67 @@
+-- Migration: Watchdog regression alerts
+-- Description: Last known-good SEO snapshot per page, reported by the seoagent.js watchdog, and the
+--              regressions detected against it (new noindex, off-site canonical, removed H1, dropped
+--              schema, ...). An open regression exists at most once per page and type, so repeat
+--              reports of the same problem don't raise new action items or notifications.
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS seo_page_baselines (
+    id BIGSERIAL PRIMARY KEY,
+    website_token VARCHAR(255) NOT NULL REFERENCES websites(website_token) ON DELETE CASCADE,
+    page_url TEXT NOT NULL,
+    snapshot JSONB NOT NULL,
+    first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (website_token, page_url)
+);
+
+CREATE TABLE IF NOT EXISTS seo_regressions (
+    id BIGSERIAL PRIMARY KEY,
+    website_token VARCHAR(255) NOT NULL REFERENCES websites(website_token) ON DELETE CASCADE,
+    user_token VARCHAR(255) NOT NULL,
+    page_url TEXT NOT NULL,
+    regression_type VARCHAR(50) NOT NULL,
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('critical', 'high', 'medium', 'low')),
+    title TEXT NOT NULL,
+    description TEXT,
+    old_value TEXT,
+    new_value TEXT,
+    action_item_id UUID REFERENCES seo_action_items(id) ON DELETE SET NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    first_detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    notified_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolution VARCHAR(20) CHECK (resolution IN ('fixed', 'accepted'))
+);
+
+-- One open regression per page and type
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seo_regressions_open
+    ON seo_regressions(website_token, page_url, regression_type)
+    WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_seo_regressions_user ON seo_regressions(user_token, first_detected_at DESC);
+
+-- Where and when to notify
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS regression_alert_email TEXT;
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS regression_webhook_url TEXT;
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS regression_alert_min_severity VARCHAR(20) NOT NULL DEFAULT 'high'
+    CHECK (regression_alert_min_severity IN ('critical', 'high', 'medium', 'low'));
+
+COMMENT ON COLUMN websites.regression_alert_email IS 'Regression alert recipient; NULL = the account email';
+COMMENT ON COLUMN websites.regression_webhook_url IS 'Slack-compatible incoming webhook for regression alerts';
+COMMENT ON COLUMN websites.regression_alert_min_severity IS 'Regressions below this severity raise action items but no notifications';
+
+ALTER TABLE seo_page_baselines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE seo_regressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY seo_page_baselines_user_access ON seo_page_baselines
+  FOR ALL USING (website_token IN (
+    SELECT w.website_token FROM websites w
+    JOIN login_users u ON u.token = w.user_token
+    WHERE u.auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY seo_regressions_user_access ON seo_regressions
+  FOR ALL USING (user_token IN (
+    SELECT token FROM login_users WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,15 @@
+-- Migration: seoagent.js module toggles, consent requirement and installed version
+-- Description: Per-site settings served to seoagent.js by /api/seoagent/config: which modules run
+--              (meta tags, alt text, schema, canonical, hreflang, Open Graph, watchdog, attribution)
+--              and whether the snippet waits for consent from the site's CMP. The snippet reports
+--              its version with each config request, so the dashboard can show outdated installs.
+-- Created: 2026-10-18
+
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS seoagent_js_modules JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS seoagent_js_require_consent BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS seoagent_js_version VARCHAR(20);
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS seoagent_js_version_seen_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN websites.seoagent_js_modules IS 'Module toggles, e.g. {"openGraph": false}; modules not listed are on (metaTags and altText also follow enable_meta_tags / enable_image_tags)';
+COMMENT ON COLUMN websites.seoagent_js_require_consent IS 'seoagent.js waits for SEOAgent.grantConsent() or TCF consent before running';
+COMMENT ON COLUMN websites.seoagent_js_version IS 'Last seoagent.js version seen on the site, from config requests or installation checks';
@@ -0,0 +1,28 @@
+-- Migration: SVS score history, competitor comparisons and score-drop alerts
+-- Description: Each SVS analysis stores a hash of the page text it analyzed, so consecutive analyses
+--              of a page show whether its content changed in between; a score drop after a content
+--              change is raised as an 'svs_score_drop' regression (action item + alert). Competitor
+--              pages analyzed for comparison are stored in svs_analyses too, marked with the page
+--              they are compared against, and are left out of the site's own history and aggregates.
+-- Created: 2026-10-18
+
+ALTER TABLE svs_analyses ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+ALTER TABLE svs_analyses ADD COLUMN IF NOT EXISTS competitor_of TEXT;
+
+COMMENT ON COLUMN svs_analyses.content_hash IS 'SHA-256 of the analyzed page text; NULL for analyses from before history tracking';
+COMMENT ON COLUMN svs_analyses.competitor_of IS 'For competitor analyses: the own page URL the competitor page (page_url) is compared against';
+
+-- Time series per page, own pages and competitors
+CREATE INDEX IF NOT EXISTS idx_svs_analyses_page_history
+    ON svs_analyses(user_token, page_url, analyzed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_svs_analyses_site_history
+    ON svs_analyses(user_token, site_url, analyzed_at DESC)
+    WHERE competitor_of IS NULL;
+CREATE INDEX IF NOT EXISTS idx_svs_analyses_competitor_of
+    ON svs_analyses(user_token, competitor_of, analyzed_at DESC)
+    WHERE competitor_of IS NOT NULL;
+
+-- Score drops raise action items in the new 'content' category
+ALTER TABLE seo_action_items DROP CONSTRAINT IF EXISTS valid_category;
+ALTER TABLE seo_action_items ADD CONSTRAINT valid_category
+    CHECK (issue_category IN ('indexing', 'sitemap', 'robots', 'schema', 'mobile', 'performance', 'meta_tags', 'alt_tags', 'core_vitals', 'security', 'content'));
@@ -0,0 +1,12 @@
+-- Migration: Watchdog report limits
+-- Description: When each page last reported a watchdog snapshot, so a page is compared with its
+--              baseline at most once a minute, and an index for counting the new pages a site
+--              reported in the last hour.
+-- Created: 2026-10-18
+
+ALTER TABLE seo_page_baselines ADD COLUMN IF NOT EXISTS last_reported_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_seo_page_baselines_first_seen
+    ON seo_page_baselines(website_token, first_seen_at DESC);
+
+COMMENT ON COLUMN seo_page_baselines.last_reported_at IS 'Last watchdog report compared with this baseline';